@@ -8,16 +8,21 @@ import OffersPage from "./modules/pricing/offers.page";
 import ContactPage from "./modules/inquiry/contactUs.page";
 import TrackInquiryPage from "./modules/inquiry/trackInquiry.page";
 import NotFoundPage from "./routes/404.page";
+import AccessDeniedPage from "./routes/403.page";
 import PrivateLayout from "./routes/private.layout";
 import { CompanyDashboardPage } from "./modules/company/companyDashboard.page";
 import CompanyMembersPage from "./modules/company/companyMembers.page";
 import CompanyPage from "./modules/company/company.page";
 import CompanySettingsPage from "./modules/company/companySettings.page";
+import CompanyPermissionsPage from "./modules/company/companyPermissions.page";
 import AccountPage from "./modules/auth/account/account.page";
 import SignInPage from "./modules/auth/signin.page";
 import SignUpPage from "./modules/auth/signup.page";
 import ForgotPasswordPage from "./modules/auth/forgotPassword.page";
 import VerifyAccountPage from "./modules/auth/verifyAccount.page";
+import UnlockAccountPage from "./modules/auth/unlockAccount.page";
+import CancelEmailChangePage from "./modules/auth/cancelEmailChange.page";
+import ReportSigninPage from "./modules/auth/reportSignin.page";
 import OrgChartListPage from "./modules/htr/orgchart/orgchartList.page";
 import OrgChartViewPage from "./modules/htr/orgchart/orgchartView.page";
 import UserManagementPage from "./modules/auth/user/user.page";
@@ -36,6 +41,30 @@ import { Toaster } from "sonner";
 import { AuthProvider } from "./lib/auth-context";
 import { CompanyProvider } from "./lib/company-context";
 import { TaskProvider } from "./lib/task-context";
+import { PermissionGuard } from "./modules/shared/components/PermissionGuard";
+import type { ComponentType } from "react";
+
+/**
+ * Page that needs a permission in the active company. Only hides the page:
+ * the functions it calls are checked by the gateway anyway.
+ */
+function guarded(permission: string, Page: ComponentType) {
+  return function GuardedPage() {
+    return (
+      <PermissionGuard permission={permission} fallback={<AccessDeniedPage />}>
+        <Page />
+      </PermissionGuard>
+    );
+  };
+}
+
+const GuardedCompanySettingsPage = guarded("company.update", CompanySettingsPage);
+const GuardedCompanyPermissionsPage = guarded("company.change_roles", CompanyPermissionsPage);
+const GuardedDOAPage = guarded("doa.read", DOAPage);
+const GuardedDOADetailPage = guarded("doa.read", DOADetailPage);
+const GuardedInviteUserPage = guarded("company.invite", InviteUserPage);
+const GuardedUserManagementPage = guarded("auth.view_users", UserManagementPage);
+const GuardedAuditLogsPage = guarded("audit.read", AuditLogsPage);
 
 function App() {
   const [location] = useLocation();
@@ -51,6 +80,9 @@ function App() {
     "/auth/signup",
     "/auth/forgot-password",
     "/auth/verify-account",
+    "/auth/unlock-account",
+    "/auth/cancel-email-change",
+    "/auth/report-signin",
     "/auth/accept-invitation",
   ];
 
@@ -89,6 +121,18 @@ function App() {
                     path="/auth/verify-account"
                     component={VerifyAccountPage}
                   />
+                  <Route
+                    path="/auth/unlock-account"
+                    component={UnlockAccountPage}
+                  />
+                  <Route
+                    path="/auth/cancel-email-change"
+                    component={CancelEmailChangePage}
+                  />
+                  <Route
+                    path="/auth/report-signin"
+                    component={ReportSigninPage}
+                  />
                   <Route
                     path="/auth/accept-invitation"
                     component={AcceptInvitePage}
@@ -101,24 +145,25 @@ function App() {
                 <Switch>
                   <Route path="/dashboard" component={CompanyDashboardPage} />
                   <Route path="/company/new" component={CompanyPage} />
-                  <Route path="/company/settings" component={CompanySettingsPage} />
+                  <Route path="/company/settings" component={GuardedCompanySettingsPage} />
+                  <Route path="/company/permissions" component={GuardedCompanyPermissionsPage} />
                   <Route path="/company/:id" component={CompanyPage} />
                   <Route path="/company/:id/members" component={CompanyMembersPage} />
                   <Route path="/address-book" component={AddressBookPage} />
                   <Route path="/orgchart/:id" component={OrgChartViewPage} />
                   <Route path="/orgchart" component={OrgChartListPage} />
-                  <Route path="/doa/matrix/new" component={DOADetailPage} />
-                  <Route path="/doa/matrix/:matrixId" component={DOADetailPage} />
-                  <Route path="/doa" component={DOAPage} />
+                  <Route path="/doa/matrix/new" component={GuardedDOADetailPage} />
+                  <Route path="/doa/matrix/:matrixId" component={GuardedDOADetailPage} />
+                  <Route path="/doa" component={GuardedDOAPage} />
                   <Route path="/task/approval/:taskId" component={ApprovalTaskPage} />
                   <Route path="/task/orgchart/:taskId" component={OrgChartApprovalTaskPage} />
                   <Route path="/task/new" component={TaskFormPage} />
                   <Route path="/task/edit/:id" component={TaskFormPage} />
                   <Route path="/task/:taskId" component={TaskDetailPage} />
                   <Route path="/task" component={TasksPage} />
-                  <Route path="/users/invite" component={InviteUserPage} />
-                  <Route path="/users" component={UserManagementPage} />
-                  <Route path="/audit" component={AuditLogsPage} />
+                  <Route path="/users/invite" component={GuardedInviteUserPage} />
+                  <Route path="/users" component={GuardedUserManagementPage} />
+                  <Route path="/audit" component={GuardedAuditLogsPage} />
                   <Route path="/account/:rest*" component={AccountPage} />
                   <Route component={NotFoundPage} />
                 </Switch>
@@ -1,10 +1,13 @@
 import { Hono } from "hono";
 import { cors } from "hono/cors";
-import { sendVerificationEmail, sendPasswordResetEmail, sendInquiryConfirmationEmail, sendUserInvitationEmail } from "./mail.settings";
+import { sendInquiryConfirmationEmail } from "./mail.settings";
 import authRoutes from "./routes/auth.routes";
+import batchRoutes from "./routes/batch.routes";
 import referenceRoutes from "./routes/reference.routes";
 import auditRoutes from "./routes/audit.routes";
-import { auditContextMiddleware } from "./middleware/audit-context.middleware";
+import ssoRoutes from "./routes/sso.routes";
+import { dbContextMiddleware } from "./middleware/db-context.middleware";
+import { csrfMiddleware } from "./middleware/csrf.middleware";
 
 const app = new Hono();
 
@@ -14,113 +17,19 @@ app.use("/*", cors({
   credentials: true,
 }));
 
-// Audit Context Middleware - Set user context for all requests
-app.use("/*", auditContextMiddleware);
+// CSRF protection for cookie-authenticated POST/PUT/PATCH/DELETE
+app.use("/api/*", csrfMiddleware);
+
+// DB Context Middleware - request-scoped connection with user context
+app.use("/*", dbContextMiddleware);
 
 // Health check
 app.get("/health", (c) => {
   return c.json({ status: "ok", timestamp: new Date().toISOString() });
 });
 
-// Auth routes
-const auth = new Hono();
-
-/**
- * Send verification email
- * POST /api/auth/send-verification
- * Body: { email: string, code: string }
- */
-auth.post("/send-verification", async (c) => {
-  try {
-    const { email, code } = await c.req.json();
-
-    if (!email || !code) {
-      return c.json({ error: "Email and code are required" }, 400);
-    }
-
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
-      return c.json({ error: "Invalid email format" }, 400);
-    }
-
-    // Validate code format (6 digits)
-    if (!/^\d{6}$/.test(code)) {
-      return c.json({ error: "Code must be 6 digits" }, 400);
-    }
-
-    const result = await sendVerificationEmail(email, code);
-
-    if (result.success) {
-      return c.json({
-        success: true,
-        message: "Verification email sent successfully",
-        messageId: result.messageId,
-      });
-    } else {
-      console.error("Failed to send verification email:", result.error);
-      return c.json(
-        {
-          error: "Failed to send verification email",
-          details: result.error instanceof Error ? result.error.message : "Unknown error",
-        },
-        500
-      );
-    }
-  } catch (error) {
-    console.error("Error in send-verification:", error);
-    return c.json(
-      {
-        error: "Internal server error",
-        details: error instanceof Error ? error.message : "Unknown error",
-      },
-      500
-    );
-  }
-});
-
-/**
- * Send password reset email
- * POST /api/auth/send-password-reset
- * Body: { email: string, resetToken: string }
- */
-auth.post("/send-password-reset", async (c) => {
-  try {
-    const { email, resetToken } = await c.req.json();
-
-    if (!email || !resetToken) {
-      return c.json({ error: "Email and resetToken are required" }, 400);
-    }
-
-    const result = await sendPasswordResetEmail(email, resetToken);
-
-    if (result.success) {
-      return c.json({
-        success: true,
-        message: "Password reset email sent successfully",
-        messageId: result.messageId,
-      });
-    } else {
-      console.error("Failed to send password reset email:", result.error);
-      return c.json(
-        {
-          error: "Failed to send password reset email",
-          details: result.error instanceof Error ? result.error.message : "Unknown error",
-        },
-        500
-      );
-    }
-  } catch (error) {
-    console.error("Error in send-password-reset:", error);
-    return c.json(
-      {
-        error: "Internal server error",
-        details: error instanceof Error ? error.message : "Unknown error",
-      },
-      500
-    );
-  }
-});
+// Mount batch route before /api/:fn so "batch" is not treated as a function name
+app.route("/api/batch", batchRoutes);
 
 // Mount PostgreSQL function routes (new approach)
 app.route("/api", authRoutes);
@@ -131,8 +40,8 @@ app.route("/api/reference", referenceRoutes);
 // Mount audit routes
 app.route("/api/audit", auditRoutes);
 
-// Mount email-specific auth routes (legacy)
-app.route("/api/auth", auth);
+// Mount single sign-on routes (browser redirects of the OIDC flow)
+app.route("/api/sso", ssoRoutes);
 
 // Inquiry routes
 const inquiry = new Hono();
@@ -198,65 +107,6 @@ inquiry.post("/send-confirmation", async (c) => {
 // Mount inquiry routes
 app.route("/api/inquiry", inquiry);
 
-// User routes
-const users = new Hono();
-
-/**
- * Send user invitation email
- * POST /api/users/send-invitation
- * Body: { email: string, invitationCode: string, isNewUser: boolean }
- */
-users.post("/send-invitation", async (c) => {
-  try {
-    const { email, invitationCode, isNewUser } = await c.req.json();
-
-    if (!email || !invitationCode || typeof isNewUser !== 'boolean') {
-      return c.json({ error: "Email, invitationCode, and isNewUser are required" }, 400);
-    }
-
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
-      return c.json({ error: "Invalid email format" }, 400);
-    }
-
-    const result = await sendUserInvitationEmail({
-      email,
-      invitationCode,
-      isNewUser,
-    });
-
-    if (result.success) {
-      return c.json({
-        success: true,
-        message: "User invitation email sent successfully",
-        messageId: result.messageId,
-      });
-    } else {
-      console.error("Failed to send user invitation email:", result.error);
-      return c.json(
-        {
-          error: "Failed to send user invitation email",
-          details: result.error instanceof Error ? result.error.message : "Unknown error",
-        },
-        500
-      );
-    }
-  } catch (error) {
-    console.error("Error in send-user-invitation:", error);
-    return c.json(
-      {
-        error: "Internal server error",
-        details: error instanceof Error ? error.message : "Unknown error",
-      },
-      500
-    );
-  }
-});
-
-// Mount user routes
-app.route("/api/users", users);
-
 // 404 handler
 app.notFound((c) => {
   return c.json({ error: "Not found" }, 404);
@@ -96,6 +96,31 @@
 \echo '   ✓ Users module installed'
 \echo ''
 
+-- ============================================
+-- 9.1 RBAC MODULE
+-- ============================================
+\echo '9.1 Installing RBAC Module...'
+\i rbac.definition.sql
+\i rbac.functions.sql
+\echo '   ✓ RBAC module installed (API gateway checks rbac.has_permission)'
+\echo ''
+
+-- ============================================
+-- 9.2 BREACHED PASSWORD BLOCKLIST
+-- ============================================
+-- Same as loadBreachedPasswords() in breached-passwords.ts (db:migrate)
+\echo '9.2 Loading breached password blocklist...'
+CREATE TEMP TABLE breached_passwords_import (password TEXT);
+\copy breached_passwords_import FROM 'breached-passwords.txt'
+INSERT INTO breached_passwords (hash)
+SELECT DISTINCT encode(digest(lower(trim(password)), 'sha1'), 'hex')
+FROM breached_passwords_import
+WHERE trim(password) <> '' AND password NOT LIKE '#%'
+ON CONFLICT (hash) DO NOTHING;
+DROP TABLE breached_passwords_import;
+\echo '   ✓ Breached passwords loaded'
+\echo ''
+
 -- ============================================
 -- 10. APPLY AUDIT TRIGGERS
 -- ============================================
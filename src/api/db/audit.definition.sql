@@ -58,6 +58,18 @@ CREATE TABLE IF NOT EXISTS audit_log (
   created_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
+-- Impersonation: user_id - пользователь, от имени которого выполнено действие,
+-- impersonator_id - кто выполнил его на самом деле (auth.start_impersonation)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'audit_log' AND column_name = 'impersonator_id'
+  ) THEN
+    ALTER TABLE audit_log ADD COLUMN impersonator_id TEXT;
+  END IF;
+END $$;
+
 -- ============================================
 -- SOFT DELETE TRACKING
 -- ============================================
@@ -163,6 +175,7 @@ CREATE INDEX IF NOT EXISTS idx_audit_log_table_record ON audit_log(table_name, r
 CREATE INDEX IF NOT EXISTS idx_audit_log_company_id ON audit_log(company_id) WHERE company_id IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_audit_log_request_id ON audit_log(request_id) WHERE request_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_audit_log_impersonator_id ON audit_log(impersonator_id) WHERE impersonator_id IS NOT NULL;
 
 -- Soft deletes indexes
 CREATE INDEX IF NOT EXISTS idx_soft_deletes_table_record ON audit_soft_deletes(table_name, record_id);
@@ -241,6 +254,7 @@ COMMENT ON COLUMN audit_log.action IS 'Type of action: CREATE, UPDATE, DELETE, L
 COMMENT ON COLUMN audit_log.old_values IS 'Previous state before change (for UPDATE/DELETE)';
 COMMENT ON COLUMN audit_log.new_values IS 'New state after change (for CREATE/UPDATE)';
 COMMENT ON COLUMN audit_log.request_id IS 'UUID for tracing requests across microservices';
+COMMENT ON COLUMN audit_log.impersonator_id IS 'Real user when the action was taken while impersonating user_id';
 
 COMMENT ON COLUMN audit_soft_deletes.data_snapshot IS 'Full snapshot of record at deletion time';
 COMMENT ON COLUMN audit_soft_deletes.permanent_delete_at IS 'When to permanently delete (NULL = keep indefinitely)';
@@ -26,6 +26,8 @@ DECLARE
   v_log_id UUID;
   v_user_email TEXT;
   v_user_role TEXT;
+  -- Set by rbac.set_user_context for requests of an impersonation session
+  v_impersonator_id TEXT := NULLIF(current_setting('app.impersonator_id', TRUE), '');
 BEGIN
   -- Get user details
   SELECT email INTO v_user_email FROM users WHERE _id = _user_id;
@@ -39,12 +41,12 @@ BEGIN
 
   -- Insert audit log
   INSERT INTO audit_log (
-    user_id, user_email, user_role,
+    user_id, user_email, user_role, impersonator_id,
     action, table_name, record_id, company_id,
     old_values, new_values,
     ip_address, user_agent, request_id, notes
   ) VALUES (
-    _user_id, v_user_email, v_user_role,
+    _user_id, v_user_email, v_user_role, v_impersonator_id,
     _action, _table_name, _record_id, _company_id,
     _old_values, _new_values,
     _ip_address, _user_agent, _request_id, _notes
@@ -118,10 +120,13 @@ $$;
 -- 3. RESTORE SOFT DELETED
 -- ============================================
 -- Восстановление мягко удаленной записи
+-- _company_id: только запись этой компании (NULL - любой, для администратора платформы)
+DROP FUNCTION IF EXISTS audit.restore_soft_deleted(TEXT, TEXT, TEXT);
 CREATE OR REPLACE FUNCTION audit.restore_soft_deleted(
   _table_name TEXT,
   _record_id TEXT,
-  _restored_by TEXT
+  _restored_by TEXT,
+  _company_id UUID DEFAULT NULL
 )
 RETURNS JSONB
 LANGUAGE plpgsql SECURITY DEFINER AS $$
@@ -134,10 +139,11 @@ BEGIN
   FROM audit_soft_deletes
   WHERE table_name = _table_name
     AND record_id = _record_id
-    AND restored = FALSE;
+    AND restored = FALSE
+    AND (_company_id IS NULL OR company_id = _company_id);
 
   IF v_data_snapshot IS NULL THEN
-    RAISE EXCEPTION 'Record not found in soft deletes: %.%', _table_name, _record_id;
+    RAISE EXCEPTION 'Record not found in soft deletes: %.%', _table_name, _record_id USING ERRCODE = 'AK404';
   END IF;
 
   -- Mark as restored
@@ -239,7 +245,7 @@ BEGIN
     AND status = 'active';
 
   IF v_session.id IS NULL THEN
-    RAISE EXCEPTION 'Active session not found';
+    RAISE EXCEPTION 'Active session not found' USING ERRCODE = 'AK404';
   END IF;
 
   -- Update session
@@ -297,9 +303,12 @@ $$;
 -- 7. GET AUDIT TRAIL
 -- ============================================
 -- Получение аудит-трейла для записи
+-- _company_id: только записи лога этой компании (NULL - все, для администратора платформы)
+DROP FUNCTION IF EXISTS audit.get_audit_trail(TEXT, TEXT);
 CREATE OR REPLACE FUNCTION audit.get_audit_trail(
   _table_name TEXT,
-  _record_id TEXT
+  _record_id TEXT,
+  _company_id UUID DEFAULT NULL
 )
 RETURNS JSONB
 LANGUAGE plpgsql SECURITY DEFINER AS $$
@@ -313,6 +322,7 @@ BEGIN
       'user_id', user_id,
       'user_email', user_email,
       'user_role', user_role,
+      'impersonator_id', impersonator_id,
       'old_values', old_values,
       'new_values', new_values,
       'created_at', EXTRACT(EPOCH FROM created_at)::BIGINT * 1000,
@@ -322,7 +332,8 @@ BEGIN
   ) INTO v_logs
   FROM audit_log
   WHERE table_name = _table_name
-    AND record_id = _record_id;
+    AND record_id = _record_id
+    AND (_company_id IS NULL OR company_id = _company_id);
 
   RETURN COALESCE(v_logs, '[]'::JSONB);
 END;
@@ -332,10 +343,13 @@ $$;
 -- 8. GET USER ACTIVITY
 -- ============================================
 -- Получение активности пользователя за период
+-- _company_id: только действия в этой компании (NULL - все, для администратора платформы)
+DROP FUNCTION IF EXISTS audit.get_user_activity(TEXT, TIMESTAMP, TIMESTAMP);
 CREATE OR REPLACE FUNCTION audit.get_user_activity(
   _user_id TEXT,
   _from_date TIMESTAMP DEFAULT NOW() - INTERVAL '30 days',
-  _to_date TIMESTAMP DEFAULT NOW()
+  _to_date TIMESTAMP DEFAULT NOW(),
+  _company_id UUID DEFAULT NULL
 )
 RETURNS JSONB
 LANGUAGE plpgsql SECURITY DEFINER AS $$
@@ -360,6 +374,7 @@ BEGIN
     FROM audit_log
     WHERE user_id = _user_id
       AND created_at BETWEEN _from_date AND _to_date
+      AND (_company_id IS NULL OR company_id = _company_id)
     GROUP BY action, table_name, record_id, created_at
     ORDER BY created_at DESC
     LIMIT 100
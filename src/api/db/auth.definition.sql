@@ -26,15 +26,26 @@ CREATE TABLE IF NOT EXISTS users (
   -- Basic info
   email TEXT NOT NULL UNIQUE,
   password TEXT NOT NULL,
+  password_algo TEXT NOT NULL DEFAULT 'bcrypt' CHECK (password_algo IN ('bcrypt', 'sha256')),
   fullname TEXT NOT NULL,
 
+  -- Service account of a company: no password sign-in, API tokens only
+  is_service_account BOOLEAN NOT NULL DEFAULT FALSE,
+
+  -- Platform administrator (set in the database only, never through the API)
+  is_system_admin BOOLEAN NOT NULL DEFAULT FALSE,
+
   -- Verification
   verified BOOLEAN DEFAULT FALSE,
   verification_code TEXT,
+  verification_expires_at BIGINT,  -- milliseconds
+  verification_attempts INTEGER NOT NULL DEFAULT 0,  -- wrong codes since it was sent
+  verification_sent_at BIGINT,  -- milliseconds, for the resend cooldown
 
   -- 2FA
   two_factor_enabled BOOLEAN DEFAULT FALSE,
   two_factor_secret TEXT,
+  two_factor_last_step BIGINT,  -- last accepted TOTP time step (replay protection)
 
   -- Invitations
   invitation_token TEXT,
@@ -43,6 +54,10 @@ CREATE TABLE IF NOT EXISTS users (
   -- Password reset
   reset_token TEXT,
   reset_token_expiry BIGINT,
+  password_reset_required BOOLEAN NOT NULL DEFAULT FALSE,  -- set by a reported sign-in
+
+  -- Password age (milliseconds), checked against the company maximum age
+  password_changed_at BIGINT DEFAULT (EXTRACT(EPOCH FROM NOW())::BIGINT * 1000),
 
   -- Profile (JSONB for flexibility)
   profile JSONB DEFAULT '{}'::JSONB,
@@ -54,6 +69,96 @@ CREATE TABLE IF NOT EXISTS users (
   -- NOTE: Детальное логирование в audit.log вместо триггеров updated_at
 );
 
+-- Add password_algo column if not exists
+-- Rows created before bcrypt hold unsalted SHA-256 hashes ('sha256');
+-- auth.signin upgrades them to bcrypt on the next successful sign-in
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'password_algo'
+  ) THEN
+    ALTER TABLE users ADD COLUMN password_algo TEXT NOT NULL DEFAULT 'sha256'
+      CHECK (password_algo IN ('bcrypt', 'sha256'));
+    ALTER TABLE users ALTER COLUMN password_algo SET DEFAULT 'bcrypt';
+  END IF;
+END $$;
+
+-- Add two_factor_last_step column if not exists
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'two_factor_last_step'
+  ) THEN
+    ALTER TABLE users ADD COLUMN two_factor_last_step BIGINT;
+  END IF;
+END $$;
+
+-- Add password_changed_at column if not exists
+-- Existing passwords start aging from the migration, nobody is forced at once
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'password_changed_at'
+  ) THEN
+    ALTER TABLE users ADD COLUMN password_changed_at BIGINT
+      DEFAULT (EXTRACT(EPOCH FROM NOW())::BIGINT * 1000);
+  END IF;
+END $$;
+
+-- Add verification code limits if not exists
+-- Codes sent before get a day from the migration
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'verification_expires_at'
+  ) THEN
+    ALTER TABLE users ADD COLUMN verification_expires_at BIGINT;
+    ALTER TABLE users ADD COLUMN verification_attempts INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE users ADD COLUMN verification_sent_at BIGINT;
+
+    UPDATE users
+    SET verification_expires_at = EXTRACT(EPOCH FROM NOW())::BIGINT * 1000 + (24 * 60 * 60 * 1000)
+    WHERE verification_code IS NOT NULL;
+  END IF;
+END $$;
+
+-- Add password_reset_required column if not exists
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'password_reset_required'
+  ) THEN
+    ALTER TABLE users ADD COLUMN password_reset_required BOOLEAN NOT NULL DEFAULT FALSE;
+  END IF;
+END $$;
+
+-- Add is_service_account column if not exists
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'is_service_account'
+  ) THEN
+    ALTER TABLE users ADD COLUMN is_service_account BOOLEAN NOT NULL DEFAULT FALSE;
+  END IF;
+END $$;
+
+-- Add is_system_admin column if not exists
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'is_system_admin'
+  ) THEN
+    ALTER TABLE users ADD COLUMN is_system_admin BOOLEAN NOT NULL DEFAULT FALSE;
+  END IF;
+END $$;
+
 -- ============================================
 -- SESSIONS TABLE
 -- ============================================
@@ -68,8 +173,10 @@ CREATE TABLE IF NOT EXISTS sessions (
   -- User reference (TEXT to match users._id)
   user_id TEXT NOT NULL REFERENCES users(_id) ON DELETE CASCADE,
 
-  -- Session token
+  -- Session token (rotated by auth.touch_session)
   token TEXT NOT NULL UNIQUE,
+  token_issued_at BIGINT,
+  previous_token TEXT,  -- accepted for a short grace period after rotation
 
   -- Expiration (BIGINT for millisecond timestamps)
   expires_at BIGINT NOT NULL,
@@ -80,6 +187,203 @@ CREATE TABLE IF NOT EXISTS sessions (
   -- NOTE: Session tracking в audit.sessions для детального анализа
 );
 
+-- Add rotation columns if not exists
+-- Sessions created before rotation have no token_issued_at and get a new
+-- token on their next request
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'sessions' AND column_name = 'token_issued_at'
+  ) THEN
+    ALTER TABLE sessions ADD COLUMN token_issued_at BIGINT;
+    ALTER TABLE sessions ADD COLUMN previous_token TEXT;
+  END IF;
+END $$;
+
+-- Impersonation ("view as user", auth.start_impersonation)
+-- Сессия от имени участника компании, открытая ее владельцем: user_id - тот,
+-- кого видят, impersonator_id - кто на самом деле работает. Сессия привязана
+-- к компании и к сессии самого impersonator (к ней возвращает
+-- auth.stop_impersonation), срок не продлевается.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'sessions' AND column_name = 'impersonator_id'
+  ) THEN
+    ALTER TABLE sessions ADD COLUMN impersonator_id TEXT REFERENCES users(_id) ON DELETE CASCADE;
+    ALTER TABLE sessions ADD COLUMN impersonator_session_id TEXT REFERENCES sessions(_id) ON DELETE CASCADE;
+    ALTER TABLE sessions ADD COLUMN company_id UUID;
+  END IF;
+END $$;
+
+-- ============================================
+-- LOGIN THROTTLE TABLE
+-- ============================================
+-- Счетчики неудачных входов по аккаунту (email) и по IP клиента.
+-- Ключ аккаунта - email, а не users._id: несуществующие email ограничиваются
+-- так же, и ответ не раскрывает, есть ли такой аккаунт.
+CREATE TABLE IF NOT EXISTS login_throttle (
+  scope TEXT NOT NULL CHECK (scope IN ('account', 'ip')),
+  key TEXT NOT NULL,  -- lower(email) or IP address
+
+  -- Failures in the current window (reset when the last one is older)
+  failures INTEGER NOT NULL DEFAULT 0,
+  last_failed_at BIGINT NOT NULL,
+
+  -- Backoff or lockout end; sign-in is refused until then
+  blocked_until BIGINT,
+  locked BOOLEAN NOT NULL DEFAULT FALSE,
+
+  -- Unlock by email (account scope only)
+  unlock_token TEXT,
+  unlock_token_expiry BIGINT,
+
+  PRIMARY KEY (scope, key)
+);
+
+-- ============================================
+-- TWO-FACTOR TABLES
+-- ============================================
+-- Вход с 2FA проходит в два шага: auth.signin проверяет пароль и выдает
+-- одноразовый challenge, auth.verify_2fa обменивает challenge и код на сессию.
+CREATE TABLE IF NOT EXISTS two_factor_challenges (
+  token TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(_id) ON DELETE CASCADE,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at BIGINT NOT NULL,
+
+  -- Client of the password step (session and trusted device are created for it)
+  ip_address TEXT,
+  user_agent TEXT
+);
+
+-- Одноразовые коды восстановления. Хранятся только SHA-256 хеши:
+-- коды случайные (50 бит), медленный хеш не нужен.
+CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(_id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at BIGINT,
+  created_at BIGINT NOT NULL
+);
+
+-- Доверенные устройства ("запомнить это устройство"): пропускают второй шаг
+-- входа до expires_at. Token хранится в HttpOnly cookie, в таблице - его хеш.
+CREATE TABLE IF NOT EXISTS trusted_devices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(_id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  user_agent TEXT,
+  ip_address TEXT,
+  created_at BIGINT NOT NULL,
+  last_used_at BIGINT,
+  expires_at BIGINT NOT NULL
+);
+
+-- ============================================
+-- SSO LOGIN STATE TABLE
+-- ============================================
+-- Незавершенные входы через SSO (OIDC): state из redirect на провайдера
+-- связывает callback с PKCE verifier и nonce. Одноразовые, живут 10 минут.
+CREATE TABLE IF NOT EXISTS sso_login_states (
+  state TEXT PRIMARY KEY,
+  company_id UUID NOT NULL,  -- companies.id (no FK: companies is created later)
+  code_verifier TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  redirect_to TEXT,  -- app path to open after sign-in
+  expires_at BIGINT NOT NULL
+);
+
+-- ============================================
+-- PASSWORD POLICY TABLES
+-- ============================================
+-- Предыдущие хеши паролей: политика компании запрещает повтор последних N.
+CREATE TABLE IF NOT EXISTS password_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(_id) ON DELETE CASCADE,
+  password_hash TEXT NOT NULL,
+  password_algo TEXT NOT NULL CHECK (password_algo IN ('bcrypt', 'sha256')),
+  created_at BIGINT NOT NULL
+);
+
+-- Утекшие пароли. Список поставляется файлом breached-passwords.txt и
+-- загружается при миграции; в таблице SHA-1 пароля в нижнем регистре
+-- (формат списков вроде Have I Been Pwned - их можно загрузить сюда же).
+CREATE TABLE IF NOT EXISTS breached_passwords (
+  hash TEXT PRIMARY KEY
+);
+
+-- Одноразовые email домены (mailinator и т.п.): регистрация с ними
+-- запрещена. Список поставляется файлом disposable-email-domains.txt и
+-- синхронизируется при миграции (удаленный из файла домен снова разрешен).
+CREATE TABLE IF NOT EXISTS disposable_email_domains (
+  domain TEXT PRIMARY KEY
+);
+
+-- ============================================
+-- EMAIL CHANGE TABLE
+-- ============================================
+-- Смена email: код подтверждения уходит на новый адрес, уведомление со
+-- ссылкой отмены - на старый. users.email меняется только после ввода кода.
+-- Одна заявка на пользователя; хранятся SHA-256 хеши кода и токена отмены.
+CREATE TABLE IF NOT EXISTS email_change_requests (
+  user_id TEXT PRIMARY KEY REFERENCES users(_id) ON DELETE CASCADE,
+  new_email TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  cancel_token_hash TEXT NOT NULL UNIQUE,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at BIGINT NOT NULL,
+  expires_at BIGINT NOT NULL
+);
+
+-- ============================================
+-- MAGIC LINK TABLE
+-- ============================================
+-- Вход по ссылке из письма (без пароля). Одна действующая ссылка на
+-- пользователя: новая заменяет старую, использованная удаляется.
+-- Хранится только SHA-256 хеш токена.
+CREATE TABLE IF NOT EXISTS magic_links (
+  user_id TEXT PRIMARY KEY REFERENCES users(_id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at BIGINT NOT NULL,
+  expires_at BIGINT NOT NULL
+);
+
+-- ============================================
+-- SIGN-IN ALERTS TABLE
+-- ============================================
+-- Письма "новый вход в аккаунт" о входах с незнакомой сети или устройства.
+-- Ссылка "это был не я" (SHA-256 хеш токена) завершает все сессии и требует
+-- смены пароля; действует 7 дней и до смены пароля.
+CREATE TABLE IF NOT EXISTS signin_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(_id) ON DELETE CASCADE,
+  session_token TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  ip_address TEXT,
+  user_agent TEXT,
+  risk_score INTEGER NOT NULL,
+  reasons JSONB NOT NULL DEFAULT '[]'::JSONB,
+  created_at BIGINT NOT NULL,
+  expires_at BIGINT NOT NULL,
+  reported_at BIGINT
+);
+
+-- ============================================
+-- ACCOUNT ERASURE TABLE
+-- ============================================
+-- Запросы на удаление аккаунта (GDPR). До erase_after запрос можно отменить,
+-- и пользователь продолжает входить; после auth.erase_due_accounts()
+-- обезличивает его. Строка users остается (на нее ссылаются задачи, история
+-- назначений и журнал аудита), но без персональных данных.
+CREATE TABLE IF NOT EXISTS account_erasure_requests (
+  user_id TEXT PRIMARY KEY REFERENCES users(_id) ON DELETE CASCADE,
+  requested_at BIGINT NOT NULL,
+  erase_after BIGINT NOT NULL
+);
+
 -- ============================================
 -- INDEXES
 -- ============================================
@@ -98,9 +402,25 @@ CREATE INDEX IF NOT EXISTS idx_users_created ON users(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_sessions_id ON sessions(id);
 CREATE INDEX IF NOT EXISTS idx_sessions_text_id ON sessions(_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_token ON sessions(token);
+CREATE INDEX IF NOT EXISTS idx_sessions_previous_token ON sessions(previous_token) WHERE previous_token IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_expires ON sessions(expires_at);
 CREATE INDEX IF NOT EXISTS idx_sessions_type ON sessions(type);
+CREATE INDEX IF NOT EXISTS idx_sessions_impersonator ON sessions(impersonator_id) WHERE impersonator_id IS NOT NULL;
+
+-- Login throttle indexes
+CREATE INDEX IF NOT EXISTS idx_login_throttle_unlock ON login_throttle(unlock_token) WHERE unlock_token IS NOT NULL;
+
+-- Two-factor indexes
+CREATE INDEX IF NOT EXISTS idx_two_factor_challenges_expires ON two_factor_challenges(expires_at);
+CREATE INDEX IF NOT EXISTS idx_two_factor_recovery_codes_user ON two_factor_recovery_codes(user_id) WHERE used_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_trusted_devices_user ON trusted_devices(user_id);
+
+-- SSO login state indexes
+CREATE INDEX IF NOT EXISTS idx_sso_login_states_expires ON sso_login_states(expires_at);
+
+-- Password history indexes
+CREATE INDEX IF NOT EXISTS idx_password_history_user ON password_history(user_id, created_at DESC);
 
 -- ============================================
 -- TRIGGERS
@@ -165,7 +485,44 @@ COMMENT ON COLUMN users.profile IS 'Additional profile information in JSONB form
 
 COMMENT ON COLUMN sessions.id IS 'UUID primary key';
 COMMENT ON COLUMN sessions._id IS 'Text ID (format: session_<timestamp>_<uuid>)';
-COMMENT ON COLUMN sessions.expires_at IS 'Expiration timestamp in milliseconds';
+COMMENT ON COLUMN sessions.expires_at IS 'Expiration timestamp in milliseconds (slides forward on activity)';
+COMMENT ON COLUMN sessions.token_issued_at IS 'When the current token was issued, in milliseconds';
+COMMENT ON COLUMN sessions.previous_token IS 'Token replaced by the last rotation';
+COMMENT ON COLUMN sessions.impersonator_id IS 'Real user behind an impersonation session (NULL for normal sessions)';
+COMMENT ON COLUMN sessions.impersonator_session_id IS 'Session of the impersonator, resumed when the impersonation stops';
+COMMENT ON COLUMN sessions.company_id IS 'Company an impersonation session is limited to (companies.id)';
+
+COMMENT ON TABLE login_throttle IS 'Failed sign-in counters per account and per IP (backoff and lockout)';
+COMMENT ON COLUMN login_throttle.key IS 'Lowercased email (scope account) or IP address (scope ip)';
+COMMENT ON COLUMN login_throttle.last_failed_at IS 'Last failed sign-in timestamp in milliseconds';
+COMMENT ON COLUMN login_throttle.blocked_until IS 'Backoff or lockout end timestamp in milliseconds';
+
+COMMENT ON TABLE two_factor_challenges IS 'Pending second sign-in steps (password verified, 2FA code expected)';
+COMMENT ON TABLE two_factor_recovery_codes IS 'One-time 2FA recovery codes (SHA-256 hashes)';
+COMMENT ON TABLE trusted_devices IS 'Devices that skip the 2FA step until expiry (token SHA-256 hashes)';
+COMMENT ON COLUMN two_factor_challenges.expires_at IS 'Expiration timestamp in milliseconds';
+COMMENT ON COLUMN trusted_devices.expires_at IS 'Expiration timestamp in milliseconds';
+
+COMMENT ON TABLE sso_login_states IS 'Pending SSO sign-ins: OAuth state with PKCE verifier and nonce (one use)';
+COMMENT ON COLUMN sso_login_states.expires_at IS 'Expiration timestamp in milliseconds';
+
+COMMENT ON COLUMN users.password_changed_at IS 'When the password was last set, in milliseconds';
+COMMENT ON COLUMN users.is_service_account IS 'Company service account: signs in with API tokens only, never with a password';
+COMMENT ON COLUMN users.is_system_admin IS 'Platform administrator: may call the system functions of the gateway (all users, inquiries)';
+COMMENT ON TABLE password_history IS 'Previous password hashes (reuse check)';
+COMMENT ON TABLE disposable_email_domains IS 'Disposable email domains refused at signup (loaded from disposable-email-domains.txt)';
+COMMENT ON COLUMN users.verification_expires_at IS 'Expiration of the verification code in milliseconds';
+COMMENT ON TABLE breached_passwords IS 'SHA-1 hashes of lowercased breached passwords (loaded from breached-passwords.txt)';
+
+COMMENT ON TABLE email_change_requests IS 'Pending email changes: code sent to the new address, cancel link to the old one (SHA-256 hashes)';
+COMMENT ON COLUMN email_change_requests.expires_at IS 'Expiration timestamp in milliseconds';
+COMMENT ON TABLE magic_links IS 'Pending passwordless sign-in links (SHA-256 hash of the emailed token, one use)';
+COMMENT ON COLUMN magic_links.expires_at IS 'Expiration timestamp in milliseconds';
+COMMENT ON TABLE signin_alerts IS 'New sign-in alerts and their "this wasn''t me" links (SHA-256 hash of the emailed token)';
+COMMENT ON COLUMN signin_alerts.reasons IS 'What was new: newNetwork, newIp, newDevice, unusualTime';
+COMMENT ON COLUMN users.password_reset_required IS 'Password sign-in refused until the password is changed (reported sign-in)';
+COMMENT ON TABLE account_erasure_requests IS 'Pending account erasures (GDPR), carried out after the grace period';
+COMMENT ON COLUMN account_erasure_requests.erase_after IS 'End of the grace period in milliseconds';
 
 COMMENT ON FUNCTION auth.generate_id IS 'Generate unique ID with custom prefix';
 COMMENT ON FUNCTION auth.cleanup_expired_sessions IS 'Remove expired sessions';
@@ -10,160 +10,184 @@
 CREATE SCHEMA IF NOT EXISTS auth;
 
 -- ============================================
--- 1. SIGN UP
+-- 0. PASSWORD HASHING
 -- ============================================
-CREATE OR REPLACE FUNCTION auth.signup(
-  _email TEXT,
-  _password TEXT,
-  _fullname TEXT
-)
-RETURNS JSONB
-LANGUAGE plpgsql SECURITY DEFINER AS $$
-DECLARE
-  v_user_id TEXT;
-  v_verification_code TEXT;
-  v_hashed_password TEXT;
-  v_existing_count INT;
-BEGIN
-  -- Check if user already exists
-  SELECT COUNT(*) INTO v_existing_count
-  FROM users
-  WHERE email = _email AND type = 'user';
-
-  IF v_existing_count > 0 THEN
-    RAISE EXCEPTION 'User with this email already exists';
-  END IF;
+-- New passwords: bcrypt via pgcrypto crypt() (salted, adaptive cost).
+-- Legacy passwords: unsalted SHA-256, upgraded by auth.signin.
 
-  -- Generate verification code
-  v_verification_code := LPAD(FLOOR(RANDOM() * 1000000)::TEXT, 6, '0');
+-- Hash a password with bcrypt (cost 12)
+CREATE OR REPLACE FUNCTION auth.hash_password(_password TEXT)
+RETURNS TEXT
+LANGUAGE sql VOLATILE AS $$
+  SELECT crypt(_password, gen_salt('bf', 12));
+$$;
 
-  -- Hash password (in production, use pgcrypto extension)
-  v_hashed_password := encode(digest(_password, 'sha256'), 'hex');
+-- Check a password against a stored hash.
+-- Always spends one bcrypt computation - also for unknown users (_hash NULL)
+-- and legacy SHA-256 hashes - so response time does not reveal either.
+CREATE OR REPLACE FUNCTION auth.verify_password(_password TEXT, _hash TEXT, _algo TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql VOLATILE AS $$
+BEGIN
+  IF _hash IS NOT NULL AND _algo = 'bcrypt' THEN
+    RETURN COALESCE(crypt(_password, _hash) = _hash, FALSE);
+  END IF;
 
-  -- Create user ID
-  v_user_id := 'user_' || EXTRACT(EPOCH FROM NOW())::BIGINT || '_' || gen_random_uuid()::TEXT;
+  PERFORM auth.hash_password(COALESCE(_password, ''));
 
-  -- Insert user
-  INSERT INTO users (
-    _id, type, email, password, fullname, verified,
-    verification_code, created_at, updated_at
-  ) VALUES (
-    v_user_id, 'user', _email, v_hashed_password, _fullname, FALSE,
-    v_verification_code, EXTRACT(EPOCH FROM NOW())::BIGINT, EXTRACT(EPOCH FROM NOW())::BIGINT
-  );
+  IF _hash IS NULL OR _algo <> 'sha256' THEN
+    RETURN FALSE;
+  END IF;
 
-  RETURN jsonb_build_object(
-    'message', 'User created successfully. Please check your email for verification code.',
-    'userId', v_user_id,
-    'verificationCode', v_verification_code -- Remove in production, send via email
-  );
+  RETURN COALESCE(encode(digest(_password, 'sha256'), 'hex') = _hash, FALSE);
 END;
 $$;
 
 -- ============================================
--- 2. VERIFY ACCOUNT
+-- 0a. TOTP (RFC 6238)
 -- ============================================
-CREATE OR REPLACE FUNCTION auth.verify_account(_code TEXT)
-RETURNS JSONB
-LANGUAGE plpgsql SECURITY DEFINER AS $$
+-- Authenticator apps share a base32 secret and derive a 6-digit code from
+-- HMAC-SHA1 of the current 30-second time step.
+
+-- Base32 (RFC 4648, no padding)
+CREATE OR REPLACE FUNCTION auth.base32_encode(_data BYTEA)
+RETURNS TEXT
+LANGUAGE plpgsql IMMUTABLE AS $$
 DECLARE
-  v_user_count INT;
+  c_alphabet CONSTANT TEXT := 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  v_bits TEXT := '';
+  v_result TEXT := '';
+  i INT;
 BEGIN
-  -- Find and verify user
-  UPDATE users
-  SET verified = TRUE,
-      verification_code = NULL,
-      updated_at = NOW()
-  WHERE verification_code = _code AND type = 'user';
+  FOR i IN 0 .. length(_data) - 1 LOOP
+    v_bits := v_bits || get_byte(_data, i)::BIT(8)::TEXT;
+  END LOOP;
 
-  GET DIAGNOSTICS v_user_count = ROW_COUNT;
+  v_bits := rpad(v_bits, ((length(v_bits) + 4) / 5) * 5, '0');
 
-  IF v_user_count = 0 THEN
-    RAISE EXCEPTION 'Invalid verification code';
-  END IF;
+  FOR i IN 0 .. length(v_bits) / 5 - 1 LOOP
+    v_result := v_result || substr(c_alphabet, substr(v_bits, i * 5 + 1, 5)::BIT(5)::INT + 1, 1);
+  END LOOP;
 
-  RETURN jsonb_build_object('message', 'Account verified successfully');
+  RETURN v_result;
 END;
 $$;
 
--- ============================================
--- 3. SIGN IN
--- ============================================
-CREATE OR REPLACE FUNCTION auth.signin(
-  _email TEXT,
-  _password TEXT,
-  _ip_address TEXT DEFAULT NULL,
-  _user_agent TEXT DEFAULT NULL
-)
-RETURNS JSONB
-LANGUAGE plpgsql SECURITY DEFINER AS $$
+CREATE OR REPLACE FUNCTION auth.base32_decode(_text TEXT)
+RETURNS BYTEA
+LANGUAGE plpgsql IMMUTABLE AS $$
 DECLARE
-  v_user RECORD;
-  v_hashed_password TEXT;
-  v_session_id TEXT;
-  v_token TEXT;
-  v_expires_at BIGINT;
-  v_audit_session_id UUID;
-  v_ip INET;
+  c_alphabet CONSTANT TEXT := 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  v_clean TEXT := upper(regexp_replace(_text, '[\s=]', '', 'g'));
+  v_bits TEXT := '';
+  v_result BYTEA := '';
+  v_index INT;
+  i INT;
 BEGIN
-  -- Hash provided password
-  v_hashed_password := encode(digest(_password, 'sha256'), 'hex');
+  FOR i IN 1 .. length(v_clean) LOOP
+    v_index := strpos(c_alphabet, substr(v_clean, i, 1)) - 1;
+    IF v_index < 0 THEN
+      RAISE EXCEPTION 'Invalid base32 character' USING ERRCODE = 'AK422';
+    END IF;
+    v_bits := v_bits || v_index::BIT(5)::TEXT;
+  END LOOP;
 
-  -- Find user
-  SELECT * INTO v_user
-  FROM users
-  WHERE email = _email AND type = 'user' AND password = v_hashed_password;
+  FOR i IN 0 .. length(v_bits) / 8 - 1 LOOP
+    v_result := v_result || set_byte('\x00'::BYTEA, 0, substr(v_bits, i * 8 + 1, 8)::BIT(8)::INT);
+  END LOOP;
 
-  -- Log failed login attempt
-  IF v_user._id IS NULL THEN
-    -- Convert IP to INET type
-    BEGIN
-      v_ip := _ip_address::INET;
-    EXCEPTION WHEN OTHERS THEN
-      v_ip := NULL;
-    END;
+  RETURN v_result;
+END;
+$$;
 
-    -- Log failed login
-    PERFORM audit.log_action(
-      NULL,  -- No user_id for failed login
-      'LOGIN_FAILED',
-      'users',
-      _email,  -- Use email as record_id
-      NULL,
-      NULL,
-      jsonb_build_object('email', _email, 'reason', 'invalid_credentials'),
-      v_ip,
-      _user_agent,
-      NULL,
-      'Failed login attempt for: ' || _email
-    );
+-- Code for one time step (RFC 4226 dynamic truncation)
+CREATE OR REPLACE FUNCTION auth.totp_code(_secret TEXT, _step BIGINT)
+RETURNS TEXT
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  v_hmac BYTEA := hmac(int8send(_step), auth.base32_decode(_secret), 'sha1');
+  v_offset INT := get_byte(v_hmac, 19) & 15;
+  v_value BIGINT;
+BEGIN
+  v_value := ((get_byte(v_hmac, v_offset) & 127)::BIGINT << 24)
+           | (get_byte(v_hmac, v_offset + 1)::BIGINT << 16)
+           | (get_byte(v_hmac, v_offset + 2)::BIGINT << 8)
+           | get_byte(v_hmac, v_offset + 3)::BIGINT;
 
-    RAISE EXCEPTION 'Invalid email or password';
-  END IF;
+  RETURN lpad((v_value % 1000000)::TEXT, 6, '0');
+END;
+$$;
 
-  -- Check if verified
-  IF v_user.verified = FALSE THEN
-    RAISE EXCEPTION 'Please verify your account first';
+-- Check a code against the user's secret (also a secret whose setup is not
+-- finished yet). Accepts one step of clock drift either way and never the
+-- same step twice, so an observed code cannot be replayed.
+CREATE OR REPLACE FUNCTION auth.verify_totp(_user_id TEXT, _code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql VOLATILE SECURITY DEFINER AS $$
+DECLARE
+  v_step BIGINT := FLOOR(EXTRACT(EPOCH FROM NOW()) / 30)::BIGINT;
+  v_secret TEXT;
+  v_last_step BIGINT;
+  v_drift INT;
+BEGIN
+  IF _code IS NULL OR _code !~ '^\d{6}$' THEN
+    RETURN FALSE;
   END IF;
 
-  -- Check if 2FA is enabled
-  IF v_user.two_factor_enabled = TRUE THEN
-    RETURN jsonb_build_object(
-      'requires2FA', TRUE,
-      'user', jsonb_build_object(
-        'email', v_user.email,
-        'fullname', v_user.fullname
-      )
-    );
+  SELECT two_factor_secret, two_factor_last_step
+  INTO v_secret, v_last_step
+  FROM users
+  WHERE _id = _user_id;
+
+  IF v_secret IS NULL THEN
+    RETURN FALSE;
   END IF;
 
-  -- Create session
-  v_session_id := 'session_' || EXTRACT(EPOCH FROM NOW())::BIGINT || '_' || gen_random_uuid()::TEXT;
-  v_token := gen_random_uuid()::TEXT || '-' || EXTRACT(EPOCH FROM NOW())::BIGINT;
-  v_expires_at := EXTRACT(EPOCH FROM NOW())::BIGINT + (7 * 24 * 60 * 60 * 1000); -- 7 days
+  FOR v_drift IN -1 .. 1 LOOP
+    IF v_step + v_drift > COALESCE(v_last_step, 0)
+       AND auth.totp_code(v_secret, v_step + v_drift) = _code THEN
+      UPDATE users SET two_factor_last_step = v_step + v_drift WHERE _id = _user_id;
+      RETURN TRUE;
+    END IF;
+  END LOOP;
+
+  RETURN FALSE;
+END;
+$$;
 
-  INSERT INTO sessions (_id, type, user_id, token, expires_at, created_at)
-  VALUES (v_session_id, 'session', v_user._id, v_token, v_expires_at, EXTRACT(EPOCH FROM NOW())::BIGINT);
+-- ============================================
+-- 0b. START SESSION
+-- ============================================
+-- Create a session after the last sign-in step (password, 2FA code, ...)
+-- and open its audit_sessions record. Returns { token, expiresAt }.
+-- A sign-in from an unfamiliar network or device (auth.assess_signin_risk)
+-- is flagged in audit_sessions and adds signinAlert: the gateway emails it
+-- and strips it from the response.
+CREATE OR REPLACE FUNCTION auth.start_session(
+  _user_id TEXT,
+  _ip_address TEXT DEFAULT NULL,
+  _user_agent TEXT DEFAULT NULL,
+  _login_method TEXT DEFAULT 'password'
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_token TEXT := gen_random_uuid()::TEXT || '-' || EXTRACT(EPOCH FROM NOW())::BIGINT;
+  v_expires_at BIGINT := v_now + (7 * 24 * 60 * 60 * 1000); -- 7 days
+  v_email TEXT;
+  v_ip INET;
+  v_risk JSONB;
+  v_alert_token TEXT;
+BEGIN
+  -- Compared with the earlier sign-ins, so before this one is recorded
+  v_risk := auth.assess_signin_risk(_user_id, _ip_address, _user_agent);
+
+  INSERT INTO sessions (_id, type, user_id, token, token_issued_at, expires_at, created_at)
+  VALUES (
+    'session_' || EXTRACT(EPOCH FROM NOW())::BIGINT || '_' || gen_random_uuid()::TEXT,
+    'session', _user_id, v_token, v_now, v_expires_at, v_now
+  );
 
   -- Convert IP to INET type
   BEGIN
@@ -172,68 +196,115 @@ BEGIN
     v_ip := NULL;
   END;
 
+  SELECT email INTO v_email FROM users WHERE _id = _user_id;
+
   -- Track session start with audit logging
-  SELECT audit.track_session_start(
-    v_user._id,
-    v_user.email,
-    v_token,
-    v_ip,
-    _user_agent,
-    'password'
-  ) INTO v_audit_session_id;
+  PERFORM audit.track_session_start(_user_id, v_email, v_token, v_ip, _user_agent, _login_method);
 
-  -- Set user context for subsequent operations in this transaction
-  PERFORM audit.set_user_context(v_user._id);
+  IF v_risk->>'level' = 'low' THEN
+    RETURN jsonb_build_object('token', v_token, 'expiresAt', v_expires_at);
+  END IF;
+
+  UPDATE audit_sessions
+  SET is_suspicious = (v_risk->>'level' = 'high'),
+      suspicious_reason = format(
+        '%s (risk %s)',
+        (SELECT string_agg(reason, ', ') FROM jsonb_array_elements_text(v_risk->'reasons') AS reason),
+        v_risk->>'score'
+      )
+  WHERE session_token = v_token;
+
+  v_alert_token := encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO signin_alerts (
+    user_id, session_token, token_hash, ip_address, user_agent,
+    risk_score, reasons, created_at, expires_at
+  ) VALUES (
+    _user_id, v_token, encode(digest(v_alert_token, 'sha256'), 'hex'), _ip_address, _user_agent,
+    (v_risk->>'score')::INT, v_risk->'reasons', v_now, v_now + (7 * 24 * 60 * 60 * 1000) -- 7 days
+  );
 
   RETURN jsonb_build_object(
-    'requires2FA', FALSE,
-    'user', jsonb_build_object(
-      '_id', v_user._id,
-      'email', v_user.email,
-      'fullname', v_user.fullname,
-      'verified', v_user.verified,
-      'profile', COALESCE(v_user.profile, '{}'::JSONB),
-      'created_at', v_user.created_at
-    ),
-    'session', jsonb_build_object(
-      'token', v_token,
-      'expiresAt', v_expires_at
+    'token', v_token,
+    'expiresAt', v_expires_at,
+    'signinAlert', jsonb_build_object(
+      'email', v_email,
+      'token', v_alert_token,
+      'ipAddress', _ip_address,
+      'userAgent', _user_agent,
+      'reasons', v_risk->'reasons'
     )
   );
 END;
 $$;
 
--- ============================================
--- 4. VERIFY SESSION
--- ============================================
-CREATE OR REPLACE FUNCTION auth.verify_session(_token TEXT)
+-- Last step of a sign-in whose first factor passed (password, magic link):
+-- a 2FA challenge when the user has 2FA and the device is not trusted (or
+-- the sign-in is high-risk and a company asks for step-up), the session
+-- otherwise
+CREATE OR REPLACE FUNCTION auth.complete_signin(
+  _user_id TEXT,
+  _ip_address TEXT DEFAULT NULL,
+  _user_agent TEXT DEFAULT NULL,
+  _device_token TEXT DEFAULT NULL,
+  _login_method TEXT DEFAULT 'password'
+)
 RETURNS JSONB
 LANGUAGE plpgsql SECURITY DEFINER AS $$
 DECLARE
-  v_session RECORD;
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
   v_user RECORD;
+  v_challenge TEXT;
+  v_session JSONB;
+  v_step_up BOOLEAN := FALSE;
+  v_trusted BOOLEAN := FALSE;
 BEGIN
-  -- Find session
-  SELECT * INTO v_session
-  FROM sessions
-  WHERE token = _token AND type = 'session';
+  SELECT * INTO v_user FROM users WHERE _id = _user_id;
 
-  IF v_session._id IS NULL THEN
-    RAISE EXCEPTION 'Invalid session';
-  END IF;
+  -- Check if 2FA is enabled (a trusted device skips the second step,
+  -- except for a high-risk sign-in that needs step-up)
+  IF v_user.two_factor_enabled = TRUE THEN
+    v_step_up := auth.step_up_required(v_user._id, _ip_address, _user_agent);
 
-  -- Check expiration
-  IF v_session.expires_at < EXTRACT(EPOCH FROM NOW())::BIGINT THEN
-    DELETE FROM sessions WHERE _id = v_session._id;
-    RAISE EXCEPTION 'Session expired';
+    IF NOT v_step_up THEN
+      UPDATE trusted_devices
+      SET last_used_at = v_now
+      WHERE user_id = v_user._id
+        AND token_hash = encode(digest(COALESCE(_device_token, ''), 'sha256'), 'hex')
+        AND expires_at > v_now;
+
+      v_trusted := FOUND;
+    END IF;
+
+    IF NOT v_trusted THEN
+      -- Second step: auth.verify_2fa exchanges the challenge and a code for a session
+      v_challenge := encode(gen_random_bytes(32), 'hex');
+
+      DELETE FROM two_factor_challenges WHERE expires_at < v_now;
+
+      INSERT INTO two_factor_challenges (token, user_id, expires_at, ip_address, user_agent)
+      VALUES (v_challenge, v_user._id, v_now + (5 * 60 * 1000), _ip_address, _user_agent); -- 5 minutes
+
+      RETURN jsonb_build_object(
+        'requires2FA', TRUE,
+        'challenge', v_challenge,
+        'stepUp', v_step_up,
+        'user', jsonb_build_object(
+          'email', v_user.email,
+          'fullname', v_user.fullname
+        )
+      );
+    END IF;
   END IF;
 
-  -- Get user
-  SELECT * INTO v_user
-  FROM users
-  WHERE _id = v_session.user_id;
+  -- Create session
+  v_session := auth.start_session(v_user._id, _ip_address, _user_agent, _login_method);
+
+  -- Set user context for subsequent operations in this transaction
+  PERFORM audit.set_user_context(v_user._id);
 
   RETURN jsonb_build_object(
+    'requires2FA', FALSE,
     'user', jsonb_build_object(
       '_id', v_user._id,
       'email', v_user.email,
@@ -242,233 +313,3055 @@ BEGIN
       'profile', COALESCE(v_user.profile, '{}'::JSONB),
       'created_at', v_user.created_at
     ),
-    'session', jsonb_build_object(
-      'token', v_session.token,
-      'expiresAt', v_session.expires_at
-    )
+    'session', v_session,
+    'twoFactorSetupRequired', auth.two_factor_setup_required(v_user._id),
+    'passwordChangeRequired', auth.password_change_required(v_user._id)
   );
 END;
 $$;
 
 -- ============================================
--- 5. SIGN OUT
+-- 0c. PASSWORD POLICY
 -- ============================================
-CREATE OR REPLACE FUNCTION auth.signout(_token TEXT)
+-- Rules come from companies.settings of the user's companies (the strictest
+-- wins): passwordMinLength, passwordRequireUppercase/Lowercase/Number/Symbol,
+-- passwordHistory (last N passwords, the current one included) and
+-- passwordChangeDays (maximum age, 0 = never expires).
+-- Every password is also checked against breached_passwords.
+-- Without a company (sign-up) the defaults apply.
+
+-- Effective policy for a user (defaults when _user_id is NULL)
+CREATE OR REPLACE FUNCTION auth.get_password_policy(_user_id TEXT DEFAULT NULL)
 RETURNS JSONB
-LANGUAGE plpgsql SECURITY DEFINER AS $$
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
 DECLARE
-  v_result JSONB;
+  v_min_length INT;
+  v_uppercase BOOLEAN;
+  v_lowercase BOOLEAN;
+  v_number BOOLEAN;
+  v_symbol BOOLEAN;
+  v_history INT;
+  v_max_age INT;
 BEGIN
-  -- Track session end with audit logging
-  BEGIN
-    v_result := audit.track_session_end(_token, 'manual');
-  EXCEPTION WHEN OTHERS THEN
-    -- If audit tracking fails, still allow logout
-    v_result := jsonb_build_object('success', TRUE);
-  END;
-
-  -- Delete from sessions table
-  DELETE FROM sessions WHERE token = _token AND type = 'session';
+  SELECT
+    MAX((c.settings->>'passwordMinLength')::INT),
+    BOOL_OR(c.settings->'passwordRequireUppercase' = 'true'::JSONB),
+    BOOL_OR(c.settings->'passwordRequireLowercase' = 'true'::JSONB),
+    BOOL_OR(c.settings->'passwordRequireNumber' = 'true'::JSONB),
+    BOOL_OR(c.settings->'passwordRequireSymbol' = 'true'::JSONB),
+    MAX((c.settings->>'passwordHistory')::INT),
+    MIN(NULLIF((c.settings->>'passwordChangeDays')::INT, 0))
+  INTO v_min_length, v_uppercase, v_lowercase, v_number, v_symbol, v_history, v_max_age
+  FROM user_companies uc
+  INNER JOIN companies c ON c.id = uc.company_id
+  WHERE uc.user_id = _user_id;
 
-  RETURN jsonb_build_object('message', 'Signed out successfully', 'audit', v_result);
+  -- Each remembered password costs a bcrypt check on change, hence the cap
+  RETURN jsonb_build_object(
+    'minLength', LEAST(GREATEST(COALESCE(v_min_length, 8), 8), 128),
+    'requireUppercase', COALESCE(v_uppercase, FALSE),
+    'requireLowercase', COALESCE(v_lowercase, FALSE),
+    'requireNumber', COALESCE(v_number, FALSE),
+    'requireSymbol', COALESCE(v_symbol, FALSE),
+    'historyCount', LEAST(GREATEST(COALESCE(v_history, 0), 0), 10),
+    'maxAgeDays', LEAST(GREATEST(COALESCE(v_max_age, 0), 0), 3650)
+  );
 END;
 $$;
 
--- ============================================
--- 6. VERIFY 2FA
--- ============================================
-CREATE OR REPLACE FUNCTION auth.verify_2fa(_email TEXT, _token TEXT)
-RETURNS JSONB
+-- Raise AK422 for the first rule the password breaks.
+-- COLUMN is the API parameter (_field), DETAIL is { rule, ... } so the
+-- client can show a translated message (errors.VALIDATION_FAILED.<rule>).
+CREATE OR REPLACE FUNCTION auth.check_password_policy(
+  _password TEXT,
+  _user_id TEXT DEFAULT NULL,
+  _field TEXT DEFAULT 'password'
+)
+RETURNS VOID
 LANGUAGE plpgsql SECURITY DEFINER AS $$
 DECLARE
+  v_policy JSONB := auth.get_password_policy(_user_id);
+  v_min_length INT := (v_policy->>'minLength')::INT;
+  v_history INT := (v_policy->>'historyCount')::INT;
   v_user RECORD;
-  v_session_id TEXT;
-  v_session_token TEXT;
-  v_expires_at BIGINT;
+  v_old RECORD;
 BEGIN
-  -- Find user
-  SELECT * INTO v_user
-  FROM users
-  WHERE email = _email AND type = 'user';
+  IF _password IS NULL OR length(_password) < v_min_length THEN
+    RAISE EXCEPTION 'Password must be at least % characters', v_min_length
+      USING ERRCODE = 'AK422', COLUMN = _field,
+            DETAIL = jsonb_build_object('rule', 'passwordMinLength', 'minLength', v_min_length)::TEXT;
+  END IF;
 
-  IF v_user._id IS NULL THEN
-    RAISE EXCEPTION 'Invalid credentials';
+  IF (v_policy->>'requireUppercase')::BOOLEAN AND _password !~ '[A-Z]' THEN
+    RAISE EXCEPTION 'Password must contain an uppercase letter'
+      USING ERRCODE = 'AK422', COLUMN = _field, DETAIL = '{"rule":"passwordUppercase"}';
   END IF;
 
-  -- Validate token (in production, use proper TOTP validation)
-  IF LENGTH(_token) != 6 THEN
-    RAISE EXCEPTION 'Invalid token';
+  IF (v_policy->>'requireLowercase')::BOOLEAN AND _password !~ '[a-z]' THEN
+    RAISE EXCEPTION 'Password must contain a lowercase letter'
+      USING ERRCODE = 'AK422', COLUMN = _field, DETAIL = '{"rule":"passwordLowercase"}';
   END IF;
 
-  -- Create session
-  v_session_id := 'session_' || EXTRACT(EPOCH FROM NOW())::BIGINT || '_' || gen_random_uuid()::TEXT;
-  v_session_token := gen_random_uuid()::TEXT || '-' || EXTRACT(EPOCH FROM NOW())::BIGINT;
-  v_expires_at := EXTRACT(EPOCH FROM NOW())::BIGINT + (7 * 24 * 60 * 60 * 1000);
+  IF (v_policy->>'requireNumber')::BOOLEAN AND _password !~ '[0-9]' THEN
+    RAISE EXCEPTION 'Password must contain a number'
+      USING ERRCODE = 'AK422', COLUMN = _field, DETAIL = '{"rule":"passwordNumber"}';
+  END IF;
 
-  INSERT INTO sessions (_id, type, user_id, token, expires_at, created_at)
-  VALUES (v_session_id, 'session', v_user._id, v_session_token, v_expires_at, EXTRACT(EPOCH FROM NOW())::BIGINT);
+  IF (v_policy->>'requireSymbol')::BOOLEAN AND _password !~ '[^A-Za-z0-9]' THEN
+    RAISE EXCEPTION 'Password must contain a special character'
+      USING ERRCODE = 'AK422', COLUMN = _field, DETAIL = '{"rule":"passwordSymbol"}';
+  END IF;
 
-  RETURN jsonb_build_object(
-    'user', jsonb_build_object(
-      '_id', v_user._id,
-      'email', v_user.email,
-      'fullname', v_user.fullname,
-      'verified', v_user.verified,
-      'profile', COALESCE(v_user.profile, '{}'::JSONB),
-      'created_at', v_user.created_at
-    ),
-    'session', jsonb_build_object(
-      'token', v_session_token,
-      'expiresAt', v_expires_at
-    )
-  );
+  IF EXISTS (
+    SELECT 1 FROM breached_passwords
+    WHERE hash = encode(digest(lower(_password), 'sha1'), 'hex')
+  ) THEN
+    RAISE EXCEPTION 'This password has appeared in a data breach. Choose a different one.'
+      USING ERRCODE = 'AK422', COLUMN = _field, DETAIL = '{"rule":"passwordBreached"}';
+  END IF;
+
+  IF _user_id IS NOT NULL AND v_history > 0 THEN
+    SELECT password, password_algo INTO v_user FROM users WHERE _id = _user_id;
+
+    IF auth.verify_password(_password, v_user.password, v_user.password_algo) THEN
+      RAISE EXCEPTION 'Password was used recently. Choose a different one.'
+        USING ERRCODE = 'AK422', COLUMN = _field,
+              DETAIL = jsonb_build_object('rule', 'passwordHistory', 'historyCount', v_history)::TEXT;
+    END IF;
+
+    FOR v_old IN
+      SELECT password_hash, password_algo
+      FROM password_history
+      WHERE user_id = _user_id
+      ORDER BY created_at DESC
+      LIMIT v_history - 1
+    LOOP
+      IF auth.verify_password(_password, v_old.password_hash, v_old.password_algo) THEN
+        RAISE EXCEPTION 'Password was used recently. Choose a different one.'
+          USING ERRCODE = 'AK422', COLUMN = _field,
+                DETAIL = jsonb_build_object('rule', 'passwordHistory', 'historyCount', v_history)::TEXT;
+      END IF;
+    END LOOP;
+  END IF;
 END;
 $$;
 
--- ============================================
--- 7. FORGOT PASSWORD
--- ============================================
-CREATE OR REPLACE FUNCTION auth.forgot_password(_email TEXT)
-RETURNS JSONB
+-- Replace a user's password (already checked with auth.check_password_policy):
+-- the old hash goes to password_history, the password age restarts
+CREATE OR REPLACE FUNCTION auth.set_password(_user_id TEXT, _password TEXT)
+RETURNS VOID
 LANGUAGE plpgsql SECURITY DEFINER AS $$
 DECLARE
-  v_reset_token TEXT;
-  v_reset_token_expiry BIGINT;
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_keep INT := GREATEST((auth.get_password_policy(_user_id)->>'historyCount')::INT - 1, 0);
 BEGIN
-  v_reset_token := gen_random_uuid()::TEXT || '-' || EXTRACT(EPOCH FROM NOW())::BIGINT;
-  v_reset_token_expiry := EXTRACT(EPOCH FROM NOW())::BIGINT + (60 * 60 * 1000); -- 1 hour
+  INSERT INTO password_history (user_id, password_hash, password_algo, created_at)
+  SELECT _id, password, password_algo, v_now
+  FROM users
+  WHERE _id = _user_id AND v_keep > 0;
 
   UPDATE users
-  SET reset_token = v_reset_token,
-      reset_token_expiry = v_reset_token_expiry,
+  SET password = auth.hash_password(_password),
+      password_algo = 'bcrypt',
+      password_changed_at = v_now,
+      password_reset_required = FALSE,
       updated_at = NOW()
-  WHERE email = _email AND type = 'user';
+  WHERE _id = _user_id;
+
+  -- Keep only what the policy checks
+  DELETE FROM password_history
+  WHERE user_id = _user_id
+    AND id NOT IN (
+      SELECT id FROM password_history
+      WHERE user_id = _user_id
+      ORDER BY created_at DESC
+      LIMIT v_keep
+    );
+END;
+$$;
+
+-- TRUE when the password is older than the policy's maximum age
+CREATE OR REPLACE FUNCTION auth.password_change_required(_user_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_max_age INT := (auth.get_password_policy(_user_id)->>'maxAgeDays')::INT;
+BEGIN
+  IF v_max_age = 0 THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM users
+    WHERE _id = _user_id
+      AND COALESCE(password_changed_at, 0)
+        < EXTRACT(EPOCH FROM NOW())::BIGINT * 1000 - v_max_age::BIGINT * 24 * 60 * 60 * 1000
+      -- Accounts that must use SSO never enter their password
+      AND NOT auth.sso_required(email)
+  );
+END;
+$$;
+
+-- ============================================
+-- 0d. DISPOSABLE EMAIL DOMAINS
+-- ============================================
+-- Raise AK422 (details.rule = 'disposableEmail') for an address at a
+-- throwaway mailbox provider (disposable_email_domains) or its subdomains
+CREATE OR REPLACE FUNCTION auth.check_email_domain(_email TEXT, _field TEXT DEFAULT 'email')
+RETURNS VOID
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_domain TEXT := lower(split_part(trim(_email), '@', 2));
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM disposable_email_domains d
+    WHERE v_domain = d.domain OR v_domain LIKE '%.' || d.domain
+  ) THEN
+    RAISE EXCEPTION 'Disposable email addresses cannot be used. Please use a permanent email.'
+      USING ERRCODE = 'AK422', COLUMN = _field,
+            DETAIL = jsonb_build_object('rule', 'disposableEmail')::TEXT;
+  END IF;
+END;
+$$;
+
+-- ============================================
+-- 1. SIGN UP
+-- ============================================
+-- The verification code is valid for 24 hours; auth.resend_verification
+-- replaces it. The gateway limits signups per client IP and emails the code
+-- (it is removed from the response).
+CREATE OR REPLACE FUNCTION auth.signup(
+  _email TEXT,
+  _password TEXT,
+  _fullname TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_user_id TEXT;
+  v_verification_code TEXT;
+  v_hashed_password TEXT;
+  v_existing_count INT;
+BEGIN
+  -- Validate email format
+  IF _email IS NULL OR _email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Invalid email format' USING ERRCODE = 'AK422', COLUMN = 'email';
+  END IF;
+
+  PERFORM auth.check_email_domain(_email, 'email');
+
+  -- Check if user already exists
+  SELECT COUNT(*) INTO v_existing_count
+  FROM users
+  WHERE email = _email AND type = 'user';
+
+  IF v_existing_count > 0 THEN
+    RAISE EXCEPTION 'User with this email already exists' USING ERRCODE = 'AK409', COLUMN = 'email';
+  END IF;
+
+  PERFORM auth.check_password_policy(_password, NULL, 'password');
+
+  -- Generate verification code
+  v_verification_code := LPAD(FLOOR(RANDOM() * 1000000)::TEXT, 6, '0');
+
+  -- Hash password (bcrypt)
+  v_hashed_password := auth.hash_password(_password);
+
+  -- Create user ID
+  v_user_id := 'user_' || EXTRACT(EPOCH FROM NOW())::BIGINT || '_' || gen_random_uuid()::TEXT;
+
+  -- Insert user
+  INSERT INTO users (
+    _id, type, email, password, password_algo, fullname, verified,
+    verification_code, verification_expires_at, verification_sent_at, created_at, updated_at
+  ) VALUES (
+    v_user_id, 'user', _email, v_hashed_password, 'bcrypt', _fullname, FALSE,
+    v_verification_code, v_now + (24 * 60 * 60 * 1000), v_now, -- 24 hours
+    EXTRACT(EPOCH FROM NOW())::BIGINT, EXTRACT(EPOCH FROM NOW())::BIGINT
+  );
+
+  RETURN jsonb_build_object(
+    'message', 'User created successfully. Please check your email for verification code.',
+    'userId', v_user_id,
+    'email', _email,
+    'code', v_verification_code
+  );
+END;
+$$;
+
+-- ============================================
+-- 2. VERIFY ACCOUNT
+-- ============================================
+-- _email is required and ties a wrong code to the account:
+-- auth.record_failed_verification counts it, and after 5 the code is void
+-- until auth.resend_verification sends a new one.
+
+-- Signature gained a required _email: drop the old ones instead of adding overloads
+DROP FUNCTION IF EXISTS auth.verify_account(TEXT);
+DROP FUNCTION IF EXISTS auth.verify_account(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION auth.verify_account(_code TEXT, _email TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_user RECORD;
+BEGIN
+  IF NULLIF(trim(_email), '') IS NULL THEN
+    RAISE EXCEPTION 'Email is required' USING ERRCODE = 'AK422', COLUMN = 'email';
+  END IF;
+
+  SELECT * INTO v_user
+  FROM users
+  WHERE type = 'user'
+    AND verification_code = _code
+    AND lower(email) = lower(trim(_email))
+  LIMIT 1;
+
+  -- Rolled back with the error: the gateway counts it with
+  -- auth.record_failed_verification()
+  IF v_user._id IS NULL THEN
+    RAISE EXCEPTION 'Invalid verification code' USING ERRCODE = 'AK422', COLUMN = 'code';
+  END IF;
+
+  IF v_user.verification_expires_at < EXTRACT(EPOCH FROM NOW())::BIGINT * 1000 THEN
+    RAISE EXCEPTION 'Verification code has expired. Please request a new one' USING ERRCODE = 'AK410', COLUMN = 'code';
+  END IF;
+
+  UPDATE users
+  SET verified = TRUE,
+      verification_code = NULL,
+      verification_expires_at = NULL,
+      verification_attempts = 0,
+      updated_at = NOW()
+  WHERE _id = v_user._id;
+
+  RETURN jsonb_build_object('message', 'Account verified successfully');
+END;
+$$;
+
+-- Record a wrong verification code for an email (called by the gateway after
+-- auth.verify_account failed with AK422). The 5th wrong code voids the code.
+CREATE OR REPLACE FUNCTION auth.record_failed_verification(_email TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  c_max_attempts CONSTANT INT := 5;
+BEGIN
+  UPDATE users
+  SET verification_attempts = verification_attempts + 1,
+      verification_code = CASE
+        WHEN verification_attempts + 1 >= c_max_attempts THEN NULL
+        ELSE verification_code
+      END
+  WHERE lower(email) = lower(trim(_email))
+    AND type = 'user'
+    AND verified = FALSE
+    AND verification_code IS NOT NULL;
+END;
+$$;
+
+-- Send a new verification code (replaces the old one and its attempts).
+-- At most one per minute per account; the answer is the same for every email.
+-- The gateway emails the code and drops it from the response.
+CREATE OR REPLACE FUNCTION auth.resend_verification(_email TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  c_lifetime CONSTANT BIGINT := 24 * 60 * 60 * 1000; -- 24 hours
+  c_resend_after CONSTANT BIGINT := 60 * 1000; -- 1 minute
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_user RECORD;
+  v_code TEXT := LPAD(FLOOR(RANDOM() * 1000000)::TEXT, 6, '0');
+  v_result JSONB := jsonb_build_object(
+    'message', 'If the account is waiting for verification, a new code is on its way'
+  );
+BEGIN
+  SELECT * INTO v_user
+  FROM users
+  WHERE lower(email) = lower(trim(_email))
+    AND type = 'user'
+    AND verified = FALSE
+    AND is_service_account = FALSE;
+
+  IF v_user._id IS NULL OR COALESCE(v_user.verification_sent_at, 0) > v_now - c_resend_after THEN
+    RETURN v_result;
+  END IF;
+
+  UPDATE users
+  SET verification_code = v_code,
+      verification_expires_at = v_now + c_lifetime,
+      verification_attempts = 0,
+      verification_sent_at = v_now
+  WHERE _id = v_user._id;
+
+  -- Emailed by the gateway, never returned to the browser
+  RETURN v_result || jsonb_build_object('email', v_user.email, 'code', v_code);
+END;
+$$;
+
+-- ============================================
+-- 3. SIGN IN
+-- ============================================
+-- Signature gained _device_token: drop the old one instead of adding an overload
+DROP FUNCTION IF EXISTS auth.signin(TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION auth.signin(
+  _email TEXT,
+  _password TEXT,
+  _ip_address TEXT DEFAULT NULL,
+  _user_agent TEXT DEFAULT NULL,
+  _device_token TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_user RECORD;
+BEGIN
+  -- Refuse while the account or the client IP is backing off or locked
+  PERFORM auth.check_signin_throttle(_email, _ip_address);
+
+  -- Find user
+  SELECT * INTO v_user
+  FROM users
+  WHERE email = _email AND type = 'user';
+
+  -- Unknown email costs the same bcrypt check.
+  -- The exception rolls back everything written here, so the gateway records
+  -- the failure separately with auth.record_failed_signin()
+  IF NOT auth.verify_password(_password, v_user.password, v_user.password_algo) THEN
+    RAISE EXCEPTION 'Invalid email or password' USING ERRCODE = 'AK402';
+  END IF;
+
+  -- Members of a company that requires single sign-on for their domain
+  -- cannot use a password (checked after it, so it reveals nothing new)
+  IF auth.sso_required(_email) THEN
+    RAISE EXCEPTION 'Sign in with your company single sign-on' USING ERRCODE = 'AK428', COLUMN = 'email';
+  END IF;
+
+  -- Successful sign-in clears the account's failure counter
+  DELETE FROM login_throttle WHERE scope = 'account' AND key = lower(_email);
+
+  -- Upgrade legacy SHA-256 hash now that the plain password is known
+  IF v_user.password_algo <> 'bcrypt' THEN
+    UPDATE users
+    SET password = auth.hash_password(_password),
+        password_algo = 'bcrypt'
+    WHERE _id = v_user._id;
+  END IF;
+
+  -- Check if verified
+  IF v_user.verified = FALSE THEN
+    RAISE EXCEPTION 'Please verify your account first' USING ERRCODE = 'AK412';
+  END IF;
+
+  -- The owner reported a sign-in as not theirs: the password is known to someone else
+  IF v_user.password_reset_required THEN
+    RAISE EXCEPTION 'Reset your password to sign in again'
+      USING ERRCODE = 'AK403', COLUMN = 'password', DETAIL = '{"rule":"passwordResetRequired"}';
+  END IF;
+
+  RETURN auth.complete_signin(v_user._id, _ip_address, _user_agent, _device_token, 'password');
+END;
+$$;
+
+-- ============================================
+-- 3a. SIGN-IN THROTTLING
+-- ============================================
+-- Failed sign-ins are counted per account (email) and per client IP.
+-- After `throttleAfter` failures every further failure doubles the wait
+-- (1s, 2s, 4s, ...); at `lockoutThreshold` the account is locked for
+-- `lockoutMinutes` and the owner gets an unlock link by email.
+-- Attempts refused while blocked do not verify the password and do not count.
+-- All timestamps in login_throttle are milliseconds.
+
+-- Lockout policy for an account: the strictest settings among the user's
+-- companies (companies.settings), defaults for unknown emails
+CREATE OR REPLACE FUNCTION auth.get_lockout_policy(_email TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_throttle_after INT;
+  v_threshold INT;
+  v_minutes INT;
+BEGIN
+  SELECT
+    MIN((c.settings->>'loginThrottleAfter')::INT),
+    MIN((c.settings->>'lockoutThreshold')::INT),
+    MAX((c.settings->>'lockoutMinutes')::INT)
+  INTO v_throttle_after, v_threshold, v_minutes
+  FROM users u
+  INNER JOIN user_companies uc ON uc.user_id = u._id
+  INNER JOIN companies c ON c.id = uc.company_id
+  WHERE u.email = _email AND u.type = 'user';
+
+  -- Clamp so a company cannot make its members trivially lockable
+  v_threshold := LEAST(GREATEST(COALESCE(v_threshold, 10), 3), 100);
+
+  RETURN jsonb_build_object(
+    'throttleAfter', LEAST(GREATEST(COALESCE(v_throttle_after, 3), 1), v_threshold),
+    'lockoutThreshold', v_threshold,
+    'lockoutMinutes', LEAST(GREATEST(COALESCE(v_minutes, 15), 1), 1440)
+  );
+END;
+$$;
+
+-- Raise if the account or the IP is blocked:
+-- AK423 while the account is locked, AK429 during backoff.
+-- DETAIL carries the seconds until the next attempt is accepted.
+CREATE OR REPLACE FUNCTION auth.check_signin_throttle(_email TEXT, _ip_address TEXT)
+RETURNS VOID
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_block RECORD;
+  v_retry_after BIGINT;
+BEGIN
+  SELECT * INTO v_block
+  FROM login_throttle
+  WHERE ((scope = 'account' AND key = lower(_email)) OR (scope = 'ip' AND key = _ip_address))
+    AND blocked_until > v_now
+  ORDER BY locked DESC, blocked_until DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_retry_after := CEIL((v_block.blocked_until - v_now) / 1000.0);
+
+  IF v_block.locked THEN
+    RAISE EXCEPTION 'Account is temporarily locked after too many failed sign-in attempts'
+      USING ERRCODE = 'AK423', DETAIL = jsonb_build_object('retryAfter', v_retry_after)::TEXT;
+  END IF;
+
+  RAISE EXCEPTION 'Too many failed sign-in attempts. Try again in % seconds', v_retry_after
+    USING ERRCODE = 'AK429', DETAIL = jsonb_build_object('retryAfter', v_retry_after)::TEXT;
+END;
+$$;
+
+-- Record a failed sign-in: audit log entry, account and IP counters.
+-- Called by the gateway after auth.signin failed with AK402 (the failed call
+-- itself is rolled back). Returns the unlock token when this failure locked
+-- an existing account, so the gateway can email the unlock link.
+CREATE OR REPLACE FUNCTION auth.record_failed_signin(
+  _email TEXT,
+  _ip_address TEXT DEFAULT NULL,
+  _user_agent TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  c_ip_throttle_after CONSTANT INT := 20;
+  c_ip_window CONSTANT BIGINT := 60 * 60 * 1000; -- 1 hour
+  c_ip_max_backoff CONSTANT BIGINT := 15 * 60 * 1000; -- 15 minutes
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_policy JSONB := auth.get_lockout_policy(_email);
+  v_throttle_after INT := (v_policy->>'throttleAfter')::INT;
+  v_threshold INT := (v_policy->>'lockoutThreshold')::INT;
+  v_lockout BIGINT := (v_policy->>'lockoutMinutes')::BIGINT * 60 * 1000;
+  v_failures INT;
+  v_locked BOOLEAN := FALSE;
+  v_user_email TEXT;
+  v_unlock_token TEXT;
+  v_ip INET;
+BEGIN
+  -- Convert IP to INET type
+  BEGIN
+    v_ip := _ip_address::INET;
+  EXCEPTION WHEN OTHERS THEN
+    v_ip := NULL;
+  END;
+
+  -- Log failed login
+  PERFORM audit.log_action(
+    NULL,  -- No user_id for failed login
+    'LOGIN_FAILED',
+    'users',
+    _email,  -- Use email as record_id
+    NULL,
+    NULL,
+    jsonb_build_object('email', _email, 'reason', 'invalid_credentials'),
+    v_ip,
+    _user_agent,
+    NULL,
+    'Failed login attempt for: ' || _email
+  );
+
+  -- Counters start over after a quiet period (lockout length for accounts)
+  DELETE FROM login_throttle
+  WHERE (scope = 'account' AND key = lower(_email) AND last_failed_at < v_now - v_lockout)
+     OR (scope = 'ip' AND key = _ip_address AND last_failed_at < v_now - c_ip_window);
+
+  -- Account counter
+  INSERT INTO login_throttle (scope, key, failures, last_failed_at)
+  VALUES ('account', lower(_email), 1, v_now)
+  ON CONFLICT (scope, key) DO UPDATE
+  SET failures = login_throttle.failures + 1,
+      last_failed_at = v_now
+  RETURNING failures INTO v_failures;
+
+  IF v_failures >= v_threshold THEN
+    v_locked := TRUE;
+
+    -- Unlock link only for real accounts
+    SELECT email INTO v_user_email
+    FROM users
+    WHERE email = _email AND type = 'user';
+
+    IF v_user_email IS NOT NULL THEN
+      v_unlock_token := gen_random_uuid()::TEXT || '-' || EXTRACT(EPOCH FROM NOW())::BIGINT;
+    END IF;
+
+    UPDATE login_throttle
+    SET locked = TRUE,
+        blocked_until = v_now + v_lockout,
+        unlock_token = v_unlock_token,
+        unlock_token_expiry = CASE WHEN v_unlock_token IS NOT NULL THEN v_now + v_lockout END
+    WHERE scope = 'account' AND key = lower(_email);
+  ELSIF v_failures >= v_throttle_after THEN
+    UPDATE login_throttle
+    SET locked = FALSE,
+        blocked_until = v_now + LEAST(1000 * POWER(2, LEAST(v_failures - v_throttle_after, 20))::BIGINT, v_lockout)
+    WHERE scope = 'account' AND key = lower(_email);
+  END IF;
+
+  -- IP counter: backoff only (many users can share one address)
+  IF _ip_address IS NOT NULL THEN
+    INSERT INTO login_throttle (scope, key, failures, last_failed_at)
+    VALUES ('ip', _ip_address, 1, v_now)
+    ON CONFLICT (scope, key) DO UPDATE
+    SET failures = login_throttle.failures + 1,
+        last_failed_at = v_now
+    RETURNING failures INTO v_failures;
+
+    IF v_failures >= c_ip_throttle_after THEN
+      UPDATE login_throttle
+      SET blocked_until = v_now + LEAST(1000 * POWER(2, LEAST(v_failures - c_ip_throttle_after, 20))::BIGINT, c_ip_max_backoff)
+      WHERE scope = 'ip' AND key = _ip_address;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'locked', v_locked,
+    'email', v_user_email,
+    'unlockToken', v_unlock_token
+  );
+END;
+$$;
+
+-- Unlock an account with the emailed unlock token
+CREATE OR REPLACE FUNCTION auth.unlock_account(_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_throttle RECORD;
+  v_user_id TEXT;
+BEGIN
+  SELECT * INTO v_throttle
+  FROM login_throttle
+  WHERE scope = 'account' AND unlock_token = _token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid unlock token' USING ERRCODE = 'AK422', COLUMN = 'token';
+  END IF;
+
+  IF v_throttle.unlock_token_expiry < EXTRACT(EPOCH FROM NOW())::BIGINT * 1000 THEN
+    RAISE EXCEPTION 'Unlock link has expired' USING ERRCODE = 'AK410';
+  END IF;
+
+  DELETE FROM login_throttle WHERE scope = 'account' AND key = v_throttle.key;
+
+  SELECT _id INTO v_user_id FROM users WHERE lower(email) = v_throttle.key AND type = 'user';
+
+  PERFORM audit.log_action(
+    v_user_id,
+    'UPDATE',
+    'login_throttle',
+    v_user_id,
+    NULL,
+    jsonb_build_object('locked', TRUE, 'failures', v_throttle.failures),
+    jsonb_build_object('locked', FALSE, 'failures', 0),
+    NULL,
+    NULL,
+    NULL,
+    'Account unlocked with emailed link'
+  );
+
+  RETURN jsonb_build_object('message', 'Account unlocked. You can sign in again.');
+END;
+$$;
+
+-- ============================================
+-- 3b. SINGLE SIGN-ON (OIDC)
+-- ============================================
+-- A company can sign in the users of its email domains through its OpenID
+-- Connect provider (company_sso). The HTTP side of the authorization-code +
+-- PKCE flow lives in routes/sso.routes.ts; these functions keep the pending
+-- state and issue the session. Only auth.get_sso_provider is exposed through
+-- the /api/:fn gateway.
+
+-- Enabled provider with the verified domain of an email (all NULL when none);
+-- a domain listed in the settings but not verified by DNS is not claimed
+CREATE OR REPLACE FUNCTION auth.find_sso_provider(_email TEXT)
+RETURNS company_sso
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT *
+  FROM company_sso
+  WHERE enabled = TRUE
+    AND LOWER(SPLIT_PART(TRIM(_email), '@', 2)) = ANY(verified_domains)
+  LIMIT 1;
+$$;
+
+-- Whether an account must sign in through SSO: a member (not the owner, who
+-- keeps the password as a way in when the provider breaks) of a company that
+-- requires it for the account's domain
+CREATE OR REPLACE FUNCTION auth.sso_required(_email TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM company_sso s
+    JOIN user_companies uc ON uc.company_id = s.company_id AND uc.role <> 'owner'
+    JOIN users u ON u._id = uc.user_id
+    WHERE s.enabled = TRUE
+      AND s.sso_required = TRUE
+      AND LOWER(u.email) = LOWER(TRIM(_email))
+      AND LOWER(SPLIT_PART(TRIM(_email), '@', 2)) = ANY(s.verified_domains)
+  );
+$$;
+
+-- Sign-in options for an email, asked by the sign-in page before the password
+CREATE OR REPLACE FUNCTION auth.get_sso_provider(_email TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_provider company_sso;
+BEGIN
+  v_provider := auth.find_sso_provider(_email);
+
+  RETURN jsonb_build_object(
+    'ssoAvailable', v_provider.company_id IS NOT NULL,
+    'ssoRequired', COALESCE(v_provider.sso_required, FALSE)
+  );
+END;
+$$;
+
+-- Start a sign-in: remember state, nonce and PKCE verifier for the callback
+-- and return what the gateway needs to redirect to the provider
+CREATE OR REPLACE FUNCTION auth.sso_begin(_email TEXT, _redirect_to TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_provider company_sso;
+  v_state TEXT := encode(gen_random_bytes(32), 'hex');
+  v_nonce TEXT := encode(gen_random_bytes(32), 'hex');
+  v_code_verifier TEXT := encode(gen_random_bytes(48), 'hex'); -- 96 chars (RFC 7636: 43-128)
+BEGIN
+  v_provider := auth.find_sso_provider(_email);
+
+  IF v_provider.company_id IS NULL THEN
+    RAISE EXCEPTION 'Single sign-on is not available for this email' USING ERRCODE = 'AK404', COLUMN = 'email';
+  END IF;
+
+  DELETE FROM sso_login_states WHERE expires_at < v_now;
+
+  INSERT INTO sso_login_states (state, company_id, code_verifier, nonce, redirect_to, expires_at)
+  VALUES (v_state, v_provider.company_id, v_code_verifier, v_nonce, _redirect_to, v_now + (10 * 60 * 1000)); -- 10 minutes
+
+  RETURN jsonb_build_object(
+    'state', v_state,
+    'nonce', v_nonce,
+    'codeVerifier', v_code_verifier,
+    'issuer', v_provider.issuer,
+    'clientId', v_provider.client_id
+  );
+END;
+$$;
+
+-- Take a pending sign-in by its state (one use) together with the provider
+-- credentials for the token request
+CREATE OR REPLACE FUNCTION auth.sso_consume_state(_state TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_login RECORD;
+  v_provider company_sso;
+BEGIN
+  DELETE FROM sso_login_states
+  WHERE state = _state
+  RETURNING * INTO v_login;
+
+  IF v_login.state IS NULL OR v_login.expires_at < v_now THEN
+    RAISE EXCEPTION 'Single sign-on request expired, please start again' USING ERRCODE = 'AK410', COLUMN = 'state';
+  END IF;
+
+  SELECT * INTO v_provider
+  FROM company_sso
+  WHERE company_id = v_login.company_id AND enabled = TRUE;
+
+  IF v_provider.company_id IS NULL THEN
+    RAISE EXCEPTION 'Single sign-on is not available' USING ERRCODE = 'AK404';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'companyId', v_login.company_id,
+    'codeVerifier', v_login.code_verifier,
+    'nonce', v_login.nonce,
+    'redirectTo', v_login.redirect_to,
+    'issuer', v_provider.issuer,
+    'clientId', v_provider.client_id,
+    'clientSecret', v_provider.client_secret
+  );
+END;
+$$;
+
+-- Sign in a user the company's provider has authenticated (ID token verified
+-- by the gateway).
+-- The account is found by the linked identity, else by email, else created
+-- (verified: the provider vouches for the address, the company owns the
+-- domain). Linking by email is limited to verified accounts that are members
+-- of the company, so a provider cannot take over an unrelated account, and an
+-- unverified signup (whoever chose its password never proved the address)
+-- is never adopted. A newly created user becomes a member of the company.
+-- The provider is trusted with the second factor: no 2FA challenge follows,
+-- the company's 2FA enforcement still applies to the session.
+CREATE OR REPLACE FUNCTION auth.sso_signin(
+  _company_id UUID,
+  _subject TEXT,
+  _email TEXT,
+  _email_verified BOOLEAN DEFAULT NULL,
+  _fullname TEXT DEFAULT NULL,
+  _ip_address TEXT DEFAULT NULL,
+  _user_agent TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_provider company_sso;
+  v_email TEXT := LOWER(TRIM(_email));
+  v_user RECORD;
+  v_user_id TEXT;
+  v_session JSONB;
+BEGIN
+  SELECT * INTO v_provider
+  FROM company_sso
+  WHERE company_id = _company_id AND enabled = TRUE;
+
+  IF v_provider.company_id IS NULL THEN
+    RAISE EXCEPTION 'Single sign-on is not available' USING ERRCODE = 'AK404';
+  END IF;
+
+  IF v_email IS NULL OR NOT (SPLIT_PART(v_email, '@', 2) = ANY(v_provider.verified_domains)) THEN
+    RAISE EXCEPTION 'This email domain cannot sign in through the company provider'
+      USING ERRCODE = 'AK403', COLUMN = 'email';
+  END IF;
+
+  -- A missing claim is accepted (the domain belongs to the company),
+  -- an explicitly unverified address is not
+  IF _email_verified = FALSE THEN
+    RAISE EXCEPTION 'The identity provider has not verified this email'
+      USING ERRCODE = 'AK403', COLUMN = 'email';
+  END IF;
+
+  SELECT u.* INTO v_user
+  FROM sso_identities i
+  JOIN users u ON u._id = i.user_id
+  WHERE i.company_id = _company_id
+    AND i.issuer = v_provider.issuer
+    AND i.subject = _subject;
+
+  IF v_user._id IS NULL THEN
+    SELECT * INTO v_user
+    FROM users
+    WHERE LOWER(email) = v_email AND type = 'user';
+
+    IF v_user._id IS NULL THEN
+      v_user_id := 'user_' || EXTRACT(EPOCH FROM NOW())::BIGINT || '_' || gen_random_uuid()::TEXT;
+
+      -- Random password: the account signs in through SSO (or resets it)
+      INSERT INTO users (
+        _id, type, email, password, password_algo, fullname, verified
+      ) VALUES (
+        v_user_id, 'user', v_email, auth.hash_password(gen_random_uuid()::TEXT), 'bcrypt',
+        COALESCE(NULLIF(TRIM(_fullname), ''), SPLIT_PART(v_email, '@', 1)), TRUE
+      );
+
+      SELECT * INTO v_user FROM users WHERE _id = v_user_id;
+    ELSIF COALESCE(v_user.verified, FALSE) = FALSE THEN
+      RAISE EXCEPTION 'An account with this email is waiting for confirmation. Confirm the email (or accept your invitation) first, then sign in with single sign-on.'
+        USING ERRCODE = 'AK409', COLUMN = 'email';
+    ELSIF NOT EXISTS (
+      SELECT 1 FROM user_companies WHERE user_id = v_user._id AND company_id = _company_id
+    ) THEN
+      RAISE EXCEPTION 'An account with this email already exists. Sign in with your password; single sign-on works once you are a member of the company.'
+        USING ERRCODE = 'AK409', COLUMN = 'email';
+    END IF;
+
+    INSERT INTO sso_identities (company_id, issuer, subject, user_id)
+    VALUES (_company_id, v_provider.issuer, _subject, v_user._id);
+
+    -- Only on the first sign-in: a member removed later is not added back
+    INSERT INTO user_companies (_id, user_id, company_id, role)
+    VALUES ('uc_' || v_user._id || '_' || _company_id::TEXT, v_user._id, _company_id, 'member')
+    ON CONFLICT (user_id, company_id) DO NOTHING;
+  END IF;
+
+  UPDATE sso_identities
+  SET last_login_at = NOW()
+  WHERE company_id = _company_id AND issuer = v_provider.issuer AND subject = _subject;
+
+  -- Like a password sign-in, a successful one clears the failure counter
+  DELETE FROM login_throttle WHERE scope = 'account' AND key = LOWER(v_user.email);
+
+  v_session := auth.start_session(v_user._id, _ip_address, _user_agent, 'sso');
+
+  PERFORM audit.set_user_context(v_user._id);
+
+  RETURN jsonb_build_object(
+    'requires2FA', FALSE,
+    'user', jsonb_build_object(
+      '_id', v_user._id,
+      'email', v_user.email,
+      'fullname', v_user.fullname,
+      'verified', TRUE,
+      'profile', COALESCE(v_user.profile, '{}'::JSONB),
+      'created_at', v_user.created_at
+    ),
+    'session', v_session,
+    'twoFactorSetupRequired', auth.two_factor_setup_required(v_user._id),
+    'passwordChangeRequired', auth.password_change_required(v_user._id)
+  );
+END;
+$$;
+
+-- ============================================
+-- 3c. MAGIC LINK (passwordless sign-in)
+-- ============================================
+-- auth.request_magic_link() returns a single-use token for the email; the
+-- gateway emails it as a link and drops it from the response, which is the
+-- same whether or not the account can use a link. The link opens the sign-in
+-- page, and auth.signin_with_magic_link() exchanges the token for a session -
+-- or for a 2FA challenge, exactly like a password.
+-- A company turns links off for its members with settings.magicLinkEnabled
+-- = false; members of several companies lose them if any one does.
+
+-- Whether an account may sign in with an emailed link
+CREATE OR REPLACE FUNCTION auth.magic_link_allowed(_user_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM users u
+    WHERE u._id = _user_id
+      AND u.type = 'user'
+      AND u.verified = TRUE
+      AND u.is_service_account = FALSE
+      AND NOT auth.sso_required(u.email)
+      AND NOT EXISTS (
+        SELECT 1
+        FROM user_companies uc
+        JOIN companies c ON c.id = uc.company_id
+        WHERE uc.user_id = u._id
+          AND c.settings->'magicLinkEnabled' = 'false'::JSONB
+      )
+  );
+$$;
+
+-- Issue a sign-in link (replaces a pending one). At most one per minute per
+-- account, so the endpoint cannot be used to flood a mailbox.
+CREATE OR REPLACE FUNCTION auth.request_magic_link(_email TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  c_lifetime CONSTANT BIGINT := 15 * 60 * 1000; -- 15 minutes
+  c_resend_after CONSTANT BIGINT := 60 * 1000; -- 1 minute
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_user RECORD;
+  v_token TEXT := encode(gen_random_bytes(32), 'hex');
+  v_result JSONB := jsonb_build_object(
+    'message', 'If your account can sign in with a link, it is on its way'
+  );
+BEGIN
+  SELECT * INTO v_user
+  FROM users
+  WHERE lower(email) = lower(trim(_email)) AND type = 'user';
+
+  -- Don't reveal if the user exists or may use a link
+  IF v_user._id IS NULL OR NOT auth.magic_link_allowed(v_user._id) THEN
+    RETURN v_result;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM magic_links
+    WHERE user_id = v_user._id AND created_at > v_now - c_resend_after
+  ) THEN
+    RETURN v_result;
+  END IF;
+
+  INSERT INTO magic_links (user_id, token_hash, created_at, expires_at)
+  VALUES (v_user._id, encode(digest(v_token, 'sha256'), 'hex'), v_now, v_now + c_lifetime)
+  ON CONFLICT (user_id) DO UPDATE
+  SET token_hash = EXCLUDED.token_hash,
+      created_at = EXCLUDED.created_at,
+      expires_at = EXCLUDED.expires_at;
+
+  -- Emailed by the gateway, never returned to the browser
+  RETURN v_result || jsonb_build_object('email', v_user.email, 'token', v_token);
+END;
+$$;
+
+-- Sign in with the token from the link (one use). The account lockout and
+-- the company settings are checked again: they may have changed since the
+-- link was sent.
+CREATE OR REPLACE FUNCTION auth.signin_with_magic_link(
+  _token TEXT,
+  _ip_address TEXT DEFAULT NULL,
+  _user_agent TEXT DEFAULT NULL,
+  _device_token TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_link RECORD;
+  v_email TEXT;
+BEGIN
+  DELETE FROM magic_links
+  WHERE token_hash = encode(digest(COALESCE(_token, ''), 'sha256'), 'hex')
+  RETURNING * INTO v_link;
+
+  IF v_link.user_id IS NULL OR v_link.expires_at < v_now THEN
+    RAISE EXCEPTION 'This sign-in link is invalid or has expired' USING ERRCODE = 'AK410', COLUMN = 'token';
+  END IF;
+
+  SELECT email INTO v_email FROM users WHERE _id = v_link.user_id;
+
+  PERFORM auth.check_signin_throttle(v_email, _ip_address);
+
+  IF NOT auth.magic_link_allowed(v_link.user_id) THEN
+    RAISE EXCEPTION 'Sign-in links are turned off for your account. Please sign in with your password'
+      USING ERRCODE = 'AK403', COLUMN = 'token';
+  END IF;
+
+  -- Like a password sign-in, a successful one clears the failure counter
+  DELETE FROM login_throttle WHERE scope = 'account' AND key = lower(v_email);
+
+  RETURN auth.complete_signin(v_link.user_id, _ip_address, _user_agent, _device_token, 'magic_link');
+END;
+$$;
+
+-- ============================================
+-- 3d. SUSPICIOUS SIGN-IN
+-- ============================================
+-- Every new session is compared with the user's sign-ins of the last 90 days
+-- (audit_sessions): an unknown network or IP, an unknown user agent and an
+-- unusual hour add to the risk score. From medium risk on, the owner gets a
+-- "new sign-in to your account" email (see auth.start_session) whose
+-- "this wasn't me" link calls auth.report_signin().
+-- A company can ask for 2FA on high-risk sign-ins even from a trusted device
+-- with settings.highRiskStepUp = true (users without 2FA only get the email).
+
+-- Risk of a sign-in: { score, level (low, medium, high), reasons }
+CREATE OR REPLACE FUNCTION auth.assess_signin_risk(
+  _user_id TEXT,
+  _ip_address TEXT DEFAULT NULL,
+  _user_agent TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  c_since CONSTANT TIMESTAMP := NOW() - INTERVAL '90 days';
+  v_hour INT := EXTRACT(HOUR FROM NOW())::INT;
+  v_ip INET;
+  v_history INT;
+  v_score INT := 0;
+  v_reasons TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+  BEGIN
+    v_ip := _ip_address::INET;
+  EXCEPTION WHEN OTHERS THEN
+    v_ip := NULL;
+  END;
+
+  SELECT COUNT(*) INTO v_history
+  FROM audit_sessions
+  WHERE user_id = _user_id AND login_at > c_since;
+
+  -- First sign-in: nothing to compare with
+  IF v_history = 0 THEN
+    RETURN jsonb_build_object('score', 0, 'level', 'low', 'reasons', '[]'::JSONB);
+  END IF;
+
+  IF v_ip IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM audit_sessions
+    WHERE user_id = _user_id AND login_at > c_since AND login_ip = v_ip
+  ) THEN
+    -- Same /24 (IPv4) or /48 (IPv6) as before: likely the same provider
+    IF EXISTS (
+      SELECT 1 FROM audit_sessions
+      WHERE user_id = _user_id
+        AND login_at > c_since
+        AND family(login_ip) = family(v_ip)
+        AND set_masklen(login_ip::CIDR, CASE family(login_ip) WHEN 4 THEN 24 ELSE 48 END) >>= v_ip
+    ) THEN
+      v_score := v_score + 15;
+      v_reasons := v_reasons || 'newIp';
+    ELSE
+      v_score := v_score + 40;
+      v_reasons := v_reasons || 'newNetwork';
+    END IF;
+  END IF;
+
+  IF _user_agent IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM audit_sessions
+    WHERE user_id = _user_id AND login_at > c_since AND login_user_agent = _user_agent
+  ) THEN
+    v_score := v_score + 30;
+    v_reasons := v_reasons || 'newDevice';
+  END IF;
+
+  -- Time of day needs a few sign-ins to know the user's habits
+  IF v_history >= 5 AND NOT EXISTS (
+    SELECT 1 FROM audit_sessions
+    WHERE user_id = _user_id
+      AND login_at > c_since
+      AND LEAST(
+        ABS(EXTRACT(HOUR FROM login_at)::INT - v_hour),
+        24 - ABS(EXTRACT(HOUR FROM login_at)::INT - v_hour)
+      ) <= 2
+  ) THEN
+    v_score := v_score + 20;
+    v_reasons := v_reasons || 'unusualTime';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'score', v_score,
+    'level', CASE WHEN v_score >= 60 THEN 'high' WHEN v_score >= 30 THEN 'medium' ELSE 'low' END,
+    'reasons', to_jsonb(v_reasons)
+  );
+END;
+$$;
+
+-- Whether a sign-in must pass 2FA even from a trusted device: high risk and
+-- one of the user's companies asks for it
+CREATE OR REPLACE FUNCTION auth.step_up_required(
+  _user_id TEXT,
+  _ip_address TEXT DEFAULT NULL,
+  _user_agent TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_companies uc
+    JOIN companies c ON c.id = uc.company_id
+    WHERE uc.user_id = _user_id
+      AND c.settings->'highRiskStepUp' = 'true'::JSONB
+  )
+  AND auth.assess_signin_risk(_user_id, _ip_address, _user_agent)->>'level' = 'high';
+$$;
+
+-- "This wasn't me" from the alert email: ends every session, trusted device,
+-- sign-in link and personal API token of the user, refuses password sign-in
+-- until the password is changed and returns a reset token for the new one.
+-- The link keeps working (with a new reset token) until then.
+CREATE OR REPLACE FUNCTION auth.report_signin(_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_alert RECORD;
+  v_user RECORD;
+  v_reset_token TEXT := gen_random_uuid()::TEXT || '-' || EXTRACT(EPOCH FROM NOW())::BIGINT;
+BEGIN
+  SELECT * INTO v_alert
+  FROM signin_alerts
+  WHERE token_hash = encode(digest(COALESCE(_token, ''), 'sha256'), 'hex');
+
+  SELECT * INTO v_user FROM users WHERE _id = v_alert.user_id;
+
+  IF v_alert.id IS NULL
+     OR v_alert.expires_at < v_now
+     OR (v_alert.reported_at IS NOT NULL AND NOT v_user.password_reset_required) THEN
+    RAISE EXCEPTION 'This link is invalid or has expired' USING ERRCODE = 'AK410', COLUMN = 'token';
+  END IF;
+
+  IF v_alert.reported_at IS NULL THEN
+    UPDATE signin_alerts SET reported_at = v_now WHERE id = v_alert.id;
+
+    -- Whatever the intruder may still hold
+    PERFORM auth.end_sessions(v_user._id, 'signin_reported');
+    DELETE FROM trusted_devices WHERE user_id = v_user._id;
+    DELETE FROM magic_links WHERE user_id = v_user._id;
+    DELETE FROM api_tokens WHERE user_id = v_user._id;
+
+    UPDATE audit_sessions
+    SET is_suspicious = TRUE,
+        status = 'suspicious',
+        suspicious_reason = 'Reported by the user'
+    WHERE session_token = v_alert.session_token;
+
+    UPDATE users SET password_reset_required = TRUE WHERE _id = v_user._id;
+
+    PERFORM audit.log_action(
+      v_user._id,
+      'UPDATE',
+      'signin_alerts',
+      v_alert.id::TEXT,
+      NULL,
+      NULL,
+      jsonb_build_object('reported', TRUE, 'ipAddress', v_alert.ip_address, 'reasons', v_alert.reasons),
+      NULL,
+      NULL,
+      NULL,
+      'Sign-in reported as not the user''s: sessions ended, password reset required'
+    );
+  END IF;
+
+  -- Same expiry as auth.forgot_password(), checked by auth.reset_password()
+  UPDATE users
+  SET reset_token = v_reset_token,
+      reset_token_expiry = EXTRACT(EPOCH FROM NOW())::BIGINT + (60 * 60 * 1000),
+      updated_at = NOW()
+  WHERE _id = v_user._id;
+
+  RETURN jsonb_build_object(
+    'message', 'All sessions were ended. Choose a new password to secure your account.',
+    'resetToken', v_reset_token
+  );
+END;
+$$;
+
+-- ============================================
+-- 4. VERIFY SESSION
+-- ============================================
+CREATE OR REPLACE FUNCTION auth.verify_session(_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_session RECORD;
+  v_user RECORD;
+  v_impersonator RECORD;
+BEGIN
+  -- Find session
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE token = _token AND type = 'session';
+
+  IF v_session._id IS NULL THEN
+    RAISE EXCEPTION 'Invalid session' USING ERRCODE = 'AK401';
+  END IF;
+
+  -- Check expiration
+  IF v_session.expires_at < EXTRACT(EPOCH FROM NOW())::BIGINT * 1000 THEN
+    DELETE FROM sessions WHERE _id = v_session._id;
+    RAISE EXCEPTION 'Session expired' USING ERRCODE = 'AK401';
+  END IF;
+
+  -- Get user
+  SELECT * INTO v_user
+  FROM users
+  WHERE _id = v_session.user_id;
+
+  SELECT _id, email, fullname INTO v_impersonator
+  FROM users
+  WHERE _id = v_session.impersonator_id;
+
+  RETURN jsonb_build_object(
+    'user', jsonb_build_object(
+      '_id', v_user._id,
+      'email', v_user.email,
+      'fullname', v_user.fullname,
+      'verified', v_user.verified,
+      'profile', COALESCE(v_user.profile, '{}'::JSONB),
+      'created_at', v_user.created_at
+    ),
+    'session', jsonb_build_object(
+      'token', v_session.token,
+      'expiresAt', v_session.expires_at
+    ),
+    -- Set when an owner is viewing the app as this user
+    'impersonation', CASE WHEN v_impersonator._id IS NOT NULL THEN jsonb_build_object(
+      'impersonator', jsonb_build_object(
+        '_id', v_impersonator._id,
+        'email', v_impersonator.email,
+        'fullname', v_impersonator.fullname
+      ),
+      'companyId', v_session.company_id,
+      'expiresAt', v_session.expires_at
+    ) END,
+    'twoFactorSetupRequired',
+      v_impersonator._id IS NULL AND auth.two_factor_setup_required(v_user._id),
+    'passwordChangeRequired',
+      v_impersonator._id IS NULL AND auth.password_change_required(v_user._id)
+  );
+END;
+$$;
+
+-- ============================================
+-- 4a. TOUCH SESSION (sliding expiry, token rotation)
+-- ============================================
+-- Called by the gateway on every request that carries a session token.
+-- Each request pushes expiry 7 days ahead; a token older than 15 minutes is
+-- replaced. The replaced token stays valid for one more minute so requests
+-- already in flight with it do not fail. Tokens sent in the Authorization
+-- header are not rotated (_rotate = FALSE): the gateway can hand a new token
+-- only to the browser, through the cookie.
+-- Impersonation sessions keep their expiry; once it passes, the browser is
+-- handed back the impersonator's own session.
+CREATE OR REPLACE FUNCTION auth.touch_session(_token TEXT, _rotate BOOLEAN DEFAULT TRUE)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  c_idle_timeout CONSTANT BIGINT := 7 * 24 * 60 * 60 * 1000;  -- 7 days
+  c_rotate_after CONSTANT BIGINT := 15 * 60 * 1000;           -- 15 minutes
+  c_rotation_grace CONSTANT BIGINT := 60 * 1000;              -- 1 minute
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_session RECORD;
+  v_token TEXT;
+  v_impersonator_session JSONB;
+BEGIN
+  -- Row lock: concurrent requests with the same token rotate it only once
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE type = 'session'
+    AND expires_at > v_now
+    AND (
+      token = _token
+      OR (previous_token = _token AND token_issued_at > v_now - c_rotation_grace)
+    )
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    IF _rotate THEN
+      v_impersonator_session := auth.end_impersonation(_token, 'impersonation_expired');
+      IF v_impersonator_session IS NOT NULL THEN
+        RETURN auth.touch_session(v_impersonator_session->>'token', FALSE);
+      END IF;
+    END IF;
+
+    RETURN NULL;
+  END IF;
+
+  v_token := v_session.token;
+
+  -- Rotate only from the current token: the previous one was already rotated
+  IF _rotate
+     AND v_session.token = _token
+     AND COALESCE(v_session.token_issued_at, 0) < v_now - c_rotate_after THEN
+    v_token := gen_random_uuid()::TEXT || '-' || EXTRACT(EPOCH FROM NOW())::BIGINT;
+
+    UPDATE sessions
+    SET token = v_token,
+        previous_token = _token,
+        token_issued_at = v_now
+    WHERE _id = v_session._id;
+
+    -- audit_sessions is keyed by token
+    UPDATE audit_sessions
+    SET session_token = v_token
+    WHERE session_token = _token;
+  END IF;
+
+  IF v_session.impersonator_id IS NULL THEN
+    v_session.expires_at := v_now + c_idle_timeout;
+
+    UPDATE sessions
+    SET expires_at = v_session.expires_at
+    WHERE _id = v_session._id;
+  END IF;
+
+  PERFORM audit.update_session_activity(v_token);
+
+  -- The impersonated user's own restrictions do not apply to the impersonator
+  RETURN jsonb_build_object(
+    'userId', v_session.user_id,
+    'token', v_token,
+    'rotated', v_token <> _token,
+    'expiresAt', v_session.expires_at,
+    'impersonatorId', v_session.impersonator_id,
+    'companyId', v_session.company_id,
+    'twoFactorSetupRequired',
+      v_session.impersonator_id IS NULL AND auth.two_factor_setup_required(v_session.user_id),
+    'passwordChangeRequired',
+      v_session.impersonator_id IS NULL AND auth.password_change_required(v_session.user_id)
+  );
+END;
+$$;
+
+-- ============================================
+-- 5. SIGN OUT
+-- ============================================
+CREATE OR REPLACE FUNCTION auth.signout(_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_result JSONB;
+BEGIN
+  -- Track session end with audit logging
+  BEGIN
+    v_result := audit.track_session_end(_token, 'manual');
+  EXCEPTION WHEN OTHERS THEN
+    -- If audit tracking fails, still allow logout
+    v_result := jsonb_build_object('success', TRUE);
+  END;
+
+  -- Delete from sessions table
+  DELETE FROM sessions WHERE token = _token AND type = 'session';
+
+  RETURN jsonb_build_object('message', 'Signed out successfully', 'audit', v_result);
+END;
+$$;
+
+-- ============================================
+-- 5a. SESSION MANAGEMENT (the user's own sessions)
+-- ============================================
+
+-- End sessions of a user: close their audit_sessions records with _reason
+-- (manual, revoked, password_change, password_reset, email_change,
+-- account_erased) and delete them. Impersonation sessions end with
+-- auth.end_impersonation (impersonation_stopped, impersonation_expired).
+-- _keep_token spares the caller's session, _session_id ends just that one.
+-- Returns the number of ended sessions.
+CREATE OR REPLACE FUNCTION auth.end_sessions(
+  _user_id TEXT,
+  _reason TEXT,
+  _keep_token TEXT DEFAULT NULL,
+  _session_id TEXT DEFAULT NULL
+)
+RETURNS INT
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_session RECORD;
+  v_count INT := 0;
+BEGIN
+  FOR v_session IN
+    SELECT _id, token
+    FROM sessions
+    WHERE user_id = _user_id
+      AND type = 'session'
+      AND (_keep_token IS NULL OR token <> _keep_token)
+      AND (_session_id IS NULL OR _id = _session_id)
+  LOOP
+    BEGIN
+      PERFORM audit.track_session_end(v_session.token, _reason);
+
+      -- Ended from elsewhere, not by signing out on that device
+      UPDATE audit_sessions
+      SET status = 'terminated'
+      WHERE session_token = v_session.token;
+    EXCEPTION WHEN OTHERS THEN
+      -- Sessions without an audit record still end
+      NULL;
+    END;
+
+    DELETE FROM sessions WHERE _id = v_session._id;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- List the user's active sessions, newest activity first
+CREATE OR REPLACE FUNCTION auth.get_sessions(_user_id TEXT, _token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', s._id,
+        'current', s.token = _token OR s.previous_token = _token,
+        'ipAddress', host(a.login_ip),
+        'userAgent', a.login_user_agent,
+        'loginMethod', a.login_method,
+        'createdAt', s.created_at,
+        'lastActivityAt', COALESCE(EXTRACT(EPOCH FROM a.last_activity_at)::BIGINT * 1000, s.created_at),
+        'expiresAt', s.expires_at
+      )
+      ORDER BY COALESCE(EXTRACT(EPOCH FROM a.last_activity_at)::BIGINT * 1000, s.created_at) DESC
+    )
+    FROM sessions s
+    LEFT JOIN audit_sessions a ON a.session_token = s.token
+    WHERE s.user_id = _user_id
+      AND s.type = 'session'
+      AND s.expires_at > EXTRACT(EPOCH FROM NOW())::BIGINT * 1000
+  ), '[]'::JSONB);
+END;
+$$;
+
+-- Sign out one of the user's sessions (another device, or this one)
+CREATE OR REPLACE FUNCTION auth.revoke_session(_user_id TEXT, _session_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF auth.end_sessions(_user_id, 'revoked', NULL, _session_id) = 0 THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'AK404', COLUMN = 'session_id';
+  END IF;
+
+  RETURN jsonb_build_object('success', TRUE);
+END;
+$$;
+
+-- Sign out every session of the user except the caller's
+CREATE OR REPLACE FUNCTION auth.revoke_other_sessions(_user_id TEXT, _token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF _token IS NULL THEN
+    RAISE EXCEPTION 'Session token is required' USING ERRCODE = 'AK401';
+  END IF;
+
+  RETURN jsonb_build_object('revoked', auth.end_sessions(_user_id, 'revoked', _token));
+END;
+$$;
+
+-- ============================================
+-- 5b. API TOKENS
+-- ============================================
+-- Bearer tokens for scripts calling the gateway ("Authorization: Bearer ak_...").
+-- A token acts for its owner in one company, limited to its permissions
+-- (see function-policy.ts). Owners are people or the company's service
+-- accounts (company.create_service_account_token).
+
+-- API representation of a token (never the hash)
+CREATE OR REPLACE FUNCTION auth.api_token_json(_token api_tokens)
+RETURNS JSONB
+LANGUAGE sql STABLE AS $$
+  SELECT jsonb_build_object(
+    'id', _token.id,
+    'name', _token.name,
+    'tokenPrefix', _token.token_prefix,
+    'companyId', _token.company_id,
+    'permissions', to_jsonb(_token.permissions),
+    'expiresAt', EXTRACT(EPOCH FROM _token.expires_at)::BIGINT * 1000,
+    'lastUsedAt', EXTRACT(EPOCH FROM _token.last_used_at)::BIGINT * 1000,
+    'lastUsedIp', host(_token.last_used_ip),
+    'createdAt', EXTRACT(EPOCH FROM _token.created_at)::BIGINT * 1000
+  );
+$$;
+
+-- Create a token for _owner_id. Every permission must be held by the owner;
+-- the token is returned once, only its SHA-256 is stored.
+CREATE OR REPLACE FUNCTION auth.issue_api_token(
+  _owner_id TEXT,
+  _company_id UUID,
+  _name TEXT,
+  _permissions TEXT[],
+  _expires_in_days INT,
+  _created_by TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_name TEXT := NULLIF(TRIM(_name), '');
+  v_permissions TEXT[];
+  v_permission TEXT;
+  v_token TEXT := 'ak_' || encode(gen_random_bytes(32), 'hex');
+  v_row api_tokens;
+BEGIN
+  IF v_name IS NULL OR length(v_name) > 100 THEN
+    RAISE EXCEPTION 'Token name is required (up to 100 characters)' USING ERRCODE = 'AK422', COLUMN = 'name';
+  END IF;
+
+  IF _expires_in_days IS NULL OR _expires_in_days NOT BETWEEN 1 AND 365 THEN
+    RAISE EXCEPTION 'Tokens expire within 1 to 365 days' USING ERRCODE = 'AK422', COLUMN = 'expires_in_days';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT p ORDER BY p), '{}') INTO v_permissions
+  FROM unnest(COALESCE(_permissions, '{}')) AS p
+  WHERE p <> '';
+
+  IF cardinality(v_permissions) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one permission' USING ERRCODE = 'AK422', COLUMN = 'permissions';
+  END IF;
+
+  FOREACH v_permission IN ARRAY v_permissions LOOP
+    IF NOT rbac.has_permission(_owner_id, _company_id, v_permission) THEN
+      RAISE EXCEPTION 'The token owner does not have permission %', v_permission
+        USING ERRCODE = 'AK403', COLUMN = 'permissions';
+    END IF;
+  END LOOP;
+
+  INSERT INTO api_tokens (
+    user_id, company_id, name, token_prefix, token_hash, permissions, created_by, expires_at
+  ) VALUES (
+    _owner_id, _company_id, v_name, left(v_token, 11),
+    encode(digest(v_token, 'sha256'), 'hex'), v_permissions, _created_by,
+    NOW() + INTERVAL '1 day' * _expires_in_days
+  )
+  RETURNING * INTO v_row;
+
+  PERFORM audit.log_action(
+    _created_by, 'CREATE', 'api_tokens', v_row.id::TEXT, _company_id, NULL,
+    jsonb_build_object(
+      'name', v_name, 'userId', _owner_id, 'tokenPrefix', v_row.token_prefix,
+      'permissions', v_permissions, 'expiresAt', v_row.expires_at
+    )
+  );
+
+  RETURN auth.api_token_json(v_row) || jsonb_build_object('token', v_token);
+END;
+$$;
+
+-- Personal access token of the caller in one of their companies
+CREATE OR REPLACE FUNCTION auth.create_api_token(
+  _user_id TEXT,
+  _company_id TEXT,
+  _name TEXT,
+  _permissions TEXT[],
+  _expires_in_days INT DEFAULT 90
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_company_id UUID;
+BEGIN
+  SELECT id INTO v_company_id
+  FROM companies
+  WHERE id::TEXT = _company_id OR _id = _company_id;
+
+  IF v_company_id IS NULL THEN
+    RAISE EXCEPTION 'Company not found' USING ERRCODE = 'AK404', COLUMN = 'company_id';
+  END IF;
+
+  RETURN auth.issue_api_token(_user_id, v_company_id, _name, _permissions, _expires_in_days, _user_id);
+END;
+$$;
+
+-- The caller's tokens that are not revoked (expired ones included), newest first
+CREATE OR REPLACE FUNCTION auth.get_api_tokens(_user_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  RETURN COALESCE((
+    SELECT jsonb_agg(
+      auth.api_token_json(t) || jsonb_build_object('companyTitle', c.title)
+      ORDER BY t.created_at DESC
+    )
+    FROM api_tokens t
+    JOIN companies c ON c.id = t.company_id
+    WHERE t.user_id = _user_id AND t.revoked_at IS NULL
+  ), '[]'::JSONB);
+END;
+$$;
+
+-- Revoke a token: _owner_id limits it to the tokens of one user
+CREATE OR REPLACE FUNCTION auth.end_api_token(_token_id UUID, _revoked_by TEXT, _owner_id TEXT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_row api_tokens;
+BEGIN
+  UPDATE api_tokens
+  SET revoked_at = NOW()
+  WHERE id = _token_id
+    AND revoked_at IS NULL
+    AND (_owner_id IS NULL OR user_id = _owner_id)
+  RETURNING * INTO v_row;
+
+  IF v_row.id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  PERFORM audit.log_action(
+    _revoked_by, 'REVOKE_ACCESS', 'api_tokens', v_row.id::TEXT, v_row.company_id, NULL,
+    jsonb_build_object('name', v_row.name, 'userId', v_row.user_id, 'tokenPrefix', v_row.token_prefix)
+  );
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Revoke one of the caller's tokens
+CREATE OR REPLACE FUNCTION auth.revoke_api_token(_user_id TEXT, _token_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF NOT auth.end_api_token(_token_id, _user_id, _user_id) THEN
+    RAISE EXCEPTION 'API token not found' USING ERRCODE = 'AK404', COLUMN = 'token_id';
+  END IF;
+
+  RETURN jsonb_build_object('success', TRUE);
+END;
+$$;
+
+-- Called by the gateway for every request with an "ak_" bearer token.
+-- Returns the owner, company and permissions, or NULL for an unknown,
+-- expired or revoked token. Each use is written to the audit log as a
+-- LOGIN with login_method 'api_token'.
+CREATE OR REPLACE FUNCTION auth.authenticate_api_token(
+  _token TEXT,
+  _ip_address TEXT DEFAULT NULL,
+  _user_agent TEXT DEFAULT NULL,
+  _request_path TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_row api_tokens;
+  v_ip INET;
+BEGIN
+  BEGIN
+    v_ip := _ip_address::INET;
+  EXCEPTION WHEN OTHERS THEN
+    v_ip := NULL;
+  END;
+
+  UPDATE api_tokens
+  SET last_used_at = NOW(),
+      last_used_ip = v_ip
+  WHERE token_hash = encode(digest(_token, 'sha256'), 'hex')
+    AND revoked_at IS NULL
+    AND expires_at > NOW()
+  RETURNING * INTO v_row;
+
+  IF v_row.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM audit.log_action(
+    v_row.user_id, 'LOGIN', 'api_tokens', v_row.id::TEXT, v_row.company_id, NULL,
+    jsonb_build_object(
+      'login_method', 'api_token',
+      'token_prefix', v_row.token_prefix,
+      'request', _request_path
+    ),
+    v_ip, _user_agent, NULL, 'API token used'
+  );
+
+  RETURN jsonb_build_object(
+    'tokenId', v_row.id,
+    'userId', v_row.user_id,
+    'companyId', v_row.company_id,
+    'permissions', to_jsonb(v_row.permissions)
+  );
+END;
+$$;
+
+-- ============================================
+-- 5c. IMPERSONATION ("view as user")
+-- ============================================
+-- A user with auth.impersonate (company owners by default) opens a session as
+-- another member of the company to see what they see. The session is limited
+-- to that company, lasts 30 minutes without sliding, and points back to the
+-- impersonator's own session. The gateway passes its impersonator to
+-- rbac.set_user_context: audit_log entries carry both users and high-risk
+-- permissions are blocked (rbac.has_permission).
+
+-- Start impersonating _target_user_id; returns the new session like auth.signin
+CREATE OR REPLACE FUNCTION auth.start_impersonation(
+  _user_id TEXT,
+  _target_user_id TEXT,
+  _company_id UUID,
+  _token TEXT,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  c_duration CONSTANT BIGINT := 30 * 60 * 1000;  -- 30 minutes
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_session RECORD;
+  v_target RECORD;
+  v_session_id TEXT := 'session_' || EXTRACT(EPOCH FROM NOW())::BIGINT || '_' || gen_random_uuid()::TEXT;
+  v_token TEXT := gen_random_uuid()::TEXT || '-' || EXTRACT(EPOCH FROM NOW())::BIGINT;
+BEGIN
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE token = _token AND user_id = _user_id AND type = 'session' AND expires_at > v_now;
+
+  IF v_session._id IS NULL THEN
+    RAISE EXCEPTION 'Session token is required' USING ERRCODE = 'AK401';
+  END IF;
+
+  IF v_session.impersonator_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Stop impersonating before starting again' USING ERRCODE = 'AK409';
+  END IF;
+
+  IF NOT rbac.has_permission(_user_id, _company_id, 'auth.impersonate') THEN
+    RAISE EXCEPTION 'Permission denied: auth.impersonate' USING ERRCODE = 'AK403', DETAIL = '{"permission": "auth.impersonate"}';
+  END IF;
+
+  IF _target_user_id = _user_id THEN
+    RAISE EXCEPTION 'You cannot impersonate yourself' USING ERRCODE = 'AK422', COLUMN = 'target_user_id';
+  END IF;
+
+  SELECT u._id, u.email, u.fullname, u.is_service_account, uc.role INTO v_target
+  FROM users u
+  JOIN user_companies uc ON uc.user_id = u._id AND uc.company_id = _company_id
+  WHERE u._id = _target_user_id;
+
+  IF v_target._id IS NULL THEN
+    RAISE EXCEPTION 'User is not a member of this company' USING ERRCODE = 'AK404', COLUMN = 'target_user_id';
+  END IF;
+
+  IF v_target.role = 'owner' OR v_target.is_service_account THEN
+    RAISE EXCEPTION 'Owners and service accounts cannot be impersonated' USING ERRCODE = 'AK403';
+  END IF;
+
+  INSERT INTO sessions (
+    _id, type, user_id, token, token_issued_at, expires_at, created_at,
+    impersonator_id, impersonator_session_id, company_id
+  ) VALUES (
+    v_session_id, 'session', _target_user_id, v_token, v_now, v_now + c_duration, v_now,
+    _user_id, v_session._id, _company_id
+  );
+
+  PERFORM audit.log_action(
+    _user_id, 'CREATE', 'sessions', v_session_id, _company_id, NULL,
+    jsonb_build_object(
+      'impersonatedUserId', _target_user_id,
+      'impersonatedEmail', v_target.email,
+      'expiresAt', v_now + c_duration,
+      'reason', NULLIF(trim(_reason), '')
+    ),
+    NULL, NULL, NULL, 'Impersonation started'
+  );
+
+  -- The LOGIN entry of the new session already names both users
+  PERFORM set_config('app.impersonator_id', _user_id, TRUE);
+  PERFORM audit.track_session_start(_target_user_id, v_target.email, v_token, NULL, NULL, 'impersonation');
+  PERFORM set_config('app.impersonator_id', '', TRUE);
+
+  RETURN jsonb_build_object(
+    'session', jsonb_build_object('token', v_token, 'expiresAt', v_now + c_duration),
+    'user', jsonb_build_object(
+      '_id', v_target._id,
+      'email', v_target.email,
+      'fullname', v_target.fullname
+    )
+  );
+END;
+$$;
+
+-- End an impersonation session (_reason: impersonation_stopped or
+-- impersonation_expired). Returns the impersonator's own session
+-- ({ token, expiresAt }), or NULL when it ended in the meantime.
+CREATE OR REPLACE FUNCTION auth.end_impersonation(_token TEXT, _reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_session RECORD;
+BEGIN
+  SELECT s._id, s.user_id, s.impersonator_id, s.company_id,
+         p.token AS impersonator_token, p.expires_at AS impersonator_expires_at
+  INTO v_session
+  FROM sessions s
+  LEFT JOIN sessions p ON p._id = s.impersonator_session_id AND p.expires_at > v_now
+  WHERE s.token = _token AND s.impersonator_id IS NOT NULL;
+
+  IF v_session._id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  BEGIN
+    PERFORM audit.track_session_end(_token, _reason);
+  EXCEPTION WHEN OTHERS THEN
+    NULL;
+  END;
+
+  PERFORM audit.log_action(
+    v_session.impersonator_id, 'DELETE', 'sessions', v_session._id, v_session.company_id,
+    jsonb_build_object('impersonatedUserId', v_session.user_id),
+    NULL, NULL, NULL, NULL, 'Impersonation ended: ' || _reason
+  );
+
+  DELETE FROM sessions WHERE _id = v_session._id;
+
+  IF v_session.impersonator_token IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'token', v_session.impersonator_token,
+    'expiresAt', v_session.impersonator_expires_at
+  );
+END;
+$$;
+
+-- Stop impersonating and go back to the impersonator's own session
+CREATE OR REPLACE FUNCTION auth.stop_impersonation(_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM sessions WHERE token = _token AND impersonator_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'This session is not impersonating anyone' USING ERRCODE = 'AK404';
+  END IF;
+
+  RETURN jsonb_build_object('session', auth.end_impersonation(_token, 'impersonation_stopped'));
+END;
+$$;
+
+-- ============================================
+-- 6. VERIFY 2FA
+-- ============================================
+-- Second sign-in step: exchange the challenge from auth.signin and a code
+-- from the authenticator app (or a recovery code) for a session.
+-- _remember_device issues a trusted-device token that skips this step
+-- for 30 days; the gateway keeps it in an HttpOnly cookie.
+
+-- Signature changed from (_email, _token): drop the old one
+DROP FUNCTION IF EXISTS auth.verify_2fa(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION auth.verify_2fa(
+  _challenge TEXT,
+  _code TEXT,
+  _remember_device BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  c_device_lifetime CONSTANT BIGINT := 30 * 24 * 60 * 60 * 1000; -- 30 days
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_challenge RECORD;
+  v_user RECORD;
+  v_method TEXT;
+  v_session JSONB;
+  v_device_token TEXT;
+  v_result JSONB;
+BEGIN
+  SELECT * INTO v_challenge
+  FROM two_factor_challenges
+  WHERE token = _challenge;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sign-in attempt not found. Please sign in again' USING ERRCODE = 'AK401';
+  END IF;
+
+  IF v_challenge.expires_at < v_now THEN
+    RAISE EXCEPTION 'Sign-in attempt expired. Please sign in again' USING ERRCODE = 'AK410';
+  END IF;
+
+  SELECT * INTO v_user FROM users WHERE _id = v_challenge.user_id;
+
+  -- Wrong codes count toward the same backoff and lockout as wrong passwords
+  PERFORM auth.check_signin_throttle(v_user.email, v_challenge.ip_address);
+
+  IF auth.verify_totp(v_user._id, _code) THEN
+    v_method := '2fa';
+  ELSIF auth.use_recovery_code(v_user._id, _code) THEN
+    v_method := 'recovery_code';
+  ELSE
+    -- The exception rolls back everything written here, so the gateway counts
+    -- the failure separately with auth.record_failed_2fa()
+    RAISE EXCEPTION 'Invalid authentication code' USING ERRCODE = 'AK402', COLUMN = 'code';
+  END IF;
+
+  DELETE FROM two_factor_challenges WHERE token = _challenge;
+  DELETE FROM login_throttle WHERE scope = 'account' AND key = lower(v_user.email);
+
+  v_session := auth.start_session(v_user._id, v_challenge.ip_address, v_challenge.user_agent, v_method);
+
+  v_result := jsonb_build_object(
+    'user', jsonb_build_object(
+      '_id', v_user._id,
+      'email', v_user.email,
+      'fullname', v_user.fullname,
+      'verified', v_user.verified,
+      'profile', COALESCE(v_user.profile, '{}'::JSONB),
+      'created_at', v_user.created_at
+    ),
+    'session', v_session,
+    'twoFactorSetupRequired', FALSE,
+    'passwordChangeRequired', auth.password_change_required(v_user._id)
+  );
+
+  -- Signed in with a recovery code: tell the user how many are left
+  IF v_method = 'recovery_code' THEN
+    v_result := v_result || jsonb_build_object(
+      'recoveryCodesRemaining',
+      (SELECT COUNT(*) FROM two_factor_recovery_codes WHERE user_id = v_user._id AND used_at IS NULL)
+    );
+  END IF;
+
+  IF _remember_device THEN
+    v_device_token := encode(gen_random_bytes(32), 'hex');
+
+    INSERT INTO trusted_devices (user_id, token_hash, user_agent, ip_address, created_at, expires_at)
+    VALUES (
+      v_user._id,
+      encode(digest(v_device_token, 'sha256'), 'hex'),
+      v_challenge.user_agent,
+      v_challenge.ip_address,
+      v_now,
+      v_now + c_device_lifetime
+    );
+
+    v_result := v_result || jsonb_build_object(
+      'trustedDevice', jsonb_build_object('token', v_device_token, 'expiresAt', v_now + c_device_lifetime)
+    );
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+-- ============================================
+-- 6a. TWO-FACTOR: FAILED CODES, RECOVERY CODES, TRUSTED DEVICES
+-- ============================================
+
+-- Record a wrong code for a challenge (called by the gateway after
+-- auth.verify_2fa failed with AK402). After 5 wrong codes the challenge is
+-- gone and the password has to be entered again. Returns the result of
+-- auth.record_failed_signin() ({ locked, email, unlockToken }).
+CREATE OR REPLACE FUNCTION auth.record_failed_2fa(_challenge TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  c_max_attempts CONSTANT INT := 5;
+  v_challenge RECORD;
+  v_email TEXT;
+BEGIN
+  UPDATE two_factor_challenges
+  SET attempts = attempts + 1
+  WHERE token = _challenge
+  RETURNING * INTO v_challenge;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('locked', FALSE);
+  END IF;
+
+  IF v_challenge.attempts >= c_max_attempts THEN
+    DELETE FROM two_factor_challenges WHERE token = _challenge;
+  END IF;
+
+  SELECT email INTO v_email FROM users WHERE _id = v_challenge.user_id;
+
+  RETURN auth.record_failed_signin(v_email, v_challenge.ip_address, v_challenge.user_agent);
+END;
+$$;
+
+-- Replace the user's recovery codes with 10 new ones and return them.
+-- This is the only time the plain codes exist (format XXXXX-XXXXX).
+CREATE OR REPLACE FUNCTION auth.generate_recovery_codes(_user_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_codes JSONB := '[]'::JSONB;
+  v_code TEXT;
+  i INT;
+BEGIN
+  DELETE FROM two_factor_recovery_codes WHERE user_id = _user_id;
+
+  FOR i IN 1 .. 10 LOOP
+    v_code := substr(auth.base32_encode(gen_random_bytes(7)), 1, 10);
+
+    INSERT INTO two_factor_recovery_codes (user_id, code_hash, created_at)
+    VALUES (_user_id, encode(digest(v_code, 'sha256'), 'hex'), v_now);
+
+    v_codes := v_codes || to_jsonb(substr(v_code, 1, 5) || '-' || substr(v_code, 6, 5));
+  END LOOP;
+
+  RETURN v_codes;
+END;
+$$;
+
+-- Spend a recovery code. Case, spaces and dashes are ignored.
+CREATE OR REPLACE FUNCTION auth.use_recovery_code(_user_id TEXT, _code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_code TEXT := upper(regexp_replace(COALESCE(_code, ''), '[\s-]', '', 'g'));
+BEGIN
+  IF length(v_code) <> 10 THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE two_factor_recovery_codes
+  SET used_at = EXTRACT(EPOCH FROM NOW())::BIGINT * 1000
+  WHERE user_id = _user_id
+    AND used_at IS NULL
+    AND code_hash = encode(digest(v_code, 'sha256'), 'hex');
+
+  RETURN FOUND;
+END;
+$$;
+
+-- New set of recovery codes (old ones stop working); needs a current code
+CREATE OR REPLACE FUNCTION auth.regenerate_recovery_codes(_user_id TEXT, _token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_codes JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE _id = _user_id AND two_factor_enabled = TRUE) THEN
+    RAISE EXCEPTION '2FA is not enabled' USING ERRCODE = 'AK409';
+  END IF;
+
+  IF NOT auth.verify_totp(_user_id, _token) THEN
+    RAISE EXCEPTION 'Invalid verification code' USING ERRCODE = 'AK422', COLUMN = 'token';
+  END IF;
+
+  v_codes := auth.generate_recovery_codes(_user_id);
+
+  PERFORM audit.log_action(
+    _user_id, 'UPDATE', 'users', _user_id, NULL, NULL,
+    jsonb_build_object('recovery_codes', 'regenerated'),
+    NULL, NULL, NULL,
+    'Two-factor recovery codes regenerated'
+  );
+
+  RETURN jsonb_build_object('recoveryCodes', v_codes);
+END;
+$$;
+
+-- Trusted devices of the user (newest first, expired ones are removed)
+CREATE OR REPLACE FUNCTION auth.get_trusted_devices(_user_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  DELETE FROM trusted_devices
+  WHERE user_id = _user_id
+    AND expires_at < EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+
+  RETURN COALESCE(
+    (SELECT jsonb_agg(
+       jsonb_build_object(
+         'id', id,
+         'userAgent', user_agent,
+         'ipAddress', ip_address,
+         'createdAt', created_at,
+         'lastUsedAt', last_used_at,
+         'expiresAt', expires_at
+       ) ORDER BY created_at DESC
+     )
+     FROM trusted_devices
+     WHERE user_id = _user_id),
+    '[]'::JSONB
+  );
+END;
+$$;
+
+-- Revoke one trusted device, or all of them when _device_id is NULL
+CREATE OR REPLACE FUNCTION auth.revoke_trusted_devices(_user_id TEXT, _device_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  DELETE FROM trusted_devices
+  WHERE user_id = _user_id
+    AND (_device_id IS NULL OR id = _device_id);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', TRUE, 'revoked', v_count);
+END;
+$$;
+
+-- ============================================
+-- 6b. TWO-FACTOR ENFORCEMENT
+-- ============================================
+-- Companies require 2FA with settings.twoFactorRequired and an optional
+-- settings.twoFactorDeadline (YYYY-MM-DD). Once the deadline has passed
+-- (or right away without one), members without 2FA can only set it up:
+-- the gateway rejects other functions with TWO_FACTOR_REQUIRED.
+
+-- { required, deadline (earliest), enforced } over the user's companies
+CREATE OR REPLACE FUNCTION auth.get_2fa_requirement(_user_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_required BOOLEAN;
+  v_deadline DATE;
+  v_enforced BOOLEAN;
+BEGIN
+  SELECT
+    COUNT(*) > 0,
+    MIN(deadline),
+    COALESCE(BOOL_OR(deadline IS NULL OR deadline < CURRENT_DATE), FALSE)
+  INTO v_required, v_deadline, v_enforced
+  FROM (
+    SELECT
+      CASE WHEN c.settings->>'twoFactorDeadline' ~ '^\d{4}-\d{2}-\d{2}$'
+        THEN (c.settings->>'twoFactorDeadline')::DATE
+      END AS deadline
+    FROM user_companies uc
+    INNER JOIN companies c ON c.id = uc.company_id
+    WHERE uc.user_id = _user_id
+      AND c.settings->'twoFactorRequired' = 'true'::JSONB
+  ) requiring;
+
+  RETURN jsonb_build_object(
+    'required', v_required,
+    'deadline', v_deadline,
+    'enforced', v_enforced
+  );
+END;
+$$;
+
+-- TRUE when a company enforces 2FA and the user has not enabled it
+CREATE OR REPLACE FUNCTION auth.two_factor_setup_required(_user_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM users WHERE _id = _user_id AND two_factor_enabled = TRUE) THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN (auth.get_2fa_requirement(_user_id)->>'enforced')::BOOLEAN;
+END;
+$$;
+
+-- ============================================
+-- 7. FORGOT PASSWORD
+-- ============================================
+-- The gateway emails the reset link in the background and removes email and
+-- token from the response, which is the same whether or not the account exists.
+CREATE OR REPLACE FUNCTION auth.forgot_password(_email TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_reset_token TEXT;
+  v_reset_token_expiry BIGINT;
+  v_email TEXT;
+BEGIN
+  v_reset_token := gen_random_uuid()::TEXT || '-' || EXTRACT(EPOCH FROM NOW())::BIGINT;
+  v_reset_token_expiry := EXTRACT(EPOCH FROM NOW())::BIGINT + (60 * 60 * 1000); -- 1 hour
+
+  UPDATE users
+  SET reset_token = v_reset_token,
+      reset_token_expiry = v_reset_token_expiry,
+      updated_at = NOW()
+  WHERE email = _email AND type = 'user'
+  RETURNING email INTO v_email;
+
+  -- Don't reveal if user exists
+  RETURN jsonb_build_object(
+    'message', 'If an account exists, a reset link will be sent',
+    'email', v_email,
+    'resetToken', CASE WHEN v_email IS NOT NULL THEN v_reset_token END
+  );
+END;
+$$;
+
+-- ============================================
+-- 7a. RESET PASSWORD
+-- ============================================
+CREATE OR REPLACE FUNCTION auth.reset_password(_token TEXT, _new_password TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_user RECORD;
+BEGIN
+  SELECT * INTO v_user
+  FROM users
+  WHERE reset_token = _token AND type = 'user';
+
+  IF v_user._id IS NULL THEN
+    RAISE EXCEPTION 'Invalid reset token' USING ERRCODE = 'AK422', COLUMN = 'token';
+  END IF;
+
+  IF v_user.reset_token_expiry IS NULL OR v_user.reset_token_expiry < EXTRACT(EPOCH FROM NOW())::BIGINT THEN
+    RAISE EXCEPTION 'Reset token has expired' USING ERRCODE = 'AK410';
+  END IF;
+
+  PERFORM auth.check_password_policy(_new_password, v_user._id, 'new_password');
+
+  -- Set new password (bcrypt) and consume the token
+  PERFORM auth.set_password(v_user._id, _new_password);
+
+  UPDATE users
+  SET reset_token = NULL,
+      reset_token_expiry = NULL
+  WHERE _id = v_user._id;
+
+  -- Sessions opened with the old password are no longer valid
+  PERFORM auth.end_sessions(v_user._id, 'password_reset');
+
+  -- A new password also lifts a sign-in lockout
+  DELETE FROM login_throttle WHERE scope = 'account' AND key = lower(v_user.email);
+
+  -- Whoever knew the old password may have trusted a device
+  DELETE FROM trusted_devices WHERE user_id = v_user._id;
+
+  PERFORM audit.log_action(
+    v_user._id,
+    'PASSWORD_RESET',
+    'users',
+    v_user._id,
+    NULL,
+    NULL,
+    NULL,
+    NULL,
+    NULL,
+    NULL,
+    'Password reset with emailed token'
+  );
+
+  RETURN jsonb_build_object('message', 'Password has been reset. Please sign in.');
+END;
+$$;
+
+-- ============================================
+-- 8. UPDATE PROFILE
+-- ============================================
+CREATE OR REPLACE FUNCTION auth.update_profile(
+  _user_id TEXT,
+  _fullname TEXT DEFAULT NULL,
+  _dob TEXT DEFAULT NULL,
+  _gender TEXT DEFAULT NULL,
+  _avatar TEXT DEFAULT NULL,
+  _phone TEXT DEFAULT NULL,
+  _address TEXT DEFAULT NULL,
+  _city TEXT DEFAULT NULL,
+  _state TEXT DEFAULT NULL,
+  _zip_code TEXT DEFAULT NULL,
+  _country TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_user RECORD;
+  v_old_user RECORD;
+  v_profile JSONB;
+  v_old_values JSONB;
+  v_new_values JSONB;
+BEGIN
+  -- Get current user (for old values)
+  SELECT * INTO v_old_user FROM users WHERE _id = _user_id;
+
+  IF v_old_user._id IS NULL THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'AK404';
+  END IF;
+
+  -- Build profile JSON
+  v_profile := COALESCE(v_old_user.profile, '{}'::JSONB);
+
+  IF _dob IS NOT NULL THEN
+    v_profile := jsonb_set(v_profile, '{dob}', to_jsonb(_dob));
+  END IF;
+
+  IF _gender IS NOT NULL THEN
+    v_profile := jsonb_set(v_profile, '{gender}', to_jsonb(_gender));
+  END IF;
+
+  IF _avatar IS NOT NULL THEN
+    v_profile := jsonb_set(v_profile, '{avatar}', to_jsonb(_avatar));
+  END IF;
+
+  IF _phone IS NOT NULL THEN
+    v_profile := jsonb_set(v_profile, '{phone}', to_jsonb(_phone));
+  END IF;
+
+  IF _address IS NOT NULL THEN
+    v_profile := jsonb_set(v_profile, '{address}', to_jsonb(_address));
+  END IF;
+
+  IF _city IS NOT NULL THEN
+    v_profile := jsonb_set(v_profile, '{city}', to_jsonb(_city));
+  END IF;
+
+  IF _state IS NOT NULL THEN
+    v_profile := jsonb_set(v_profile, '{state}', to_jsonb(_state));
+  END IF;
+
+  IF _zip_code IS NOT NULL THEN
+    v_profile := jsonb_set(v_profile, '{zipCode}', to_jsonb(_zip_code));
+  END IF;
+
+  IF _country IS NOT NULL THEN
+    v_profile := jsonb_set(v_profile, '{country}', to_jsonb(_country));
+  END IF;
+
+  -- Update user
+  UPDATE users
+  SET fullname = COALESCE(_fullname, fullname),
+      profile = v_profile,
+      updated_at = NOW()
+  WHERE _id = _user_id;
+
+  -- Get updated user
+  SELECT * INTO v_user FROM users WHERE _id = _user_id;
+
+  -- Prepare audit log values
+  v_old_values := jsonb_build_object(
+    'fullname', v_old_user.fullname,
+    'profile', v_old_user.profile
+  );
+
+  v_new_values := jsonb_build_object(
+    'fullname', v_user.fullname,
+    'profile', v_user.profile
+  );
+
+  -- Log profile update action
+  PERFORM audit.log_action(
+    _user_id,                    -- user who made the change
+    'UPDATE',                    -- action type
+    'users',                     -- table name
+    _user_id,                    -- record id (self-update)
+    NULL,                        -- company_id (users are global)
+    v_old_values,                -- old values
+    v_new_values,                -- new values
+    NULL,                        -- ip_address (not available in this context)
+    NULL,                        -- user_agent (not available in this context)
+    NULL,                        -- request_id
+    'User profile updated'       -- notes
+  );
+
+  RETURN jsonb_build_object(
+    '_id', v_user._id,
+    'email', v_user.email,
+    'fullname', v_user.fullname,
+    'verified', v_user.verified,
+    'profile', v_user.profile,
+    'createdAt', EXTRACT(EPOCH FROM v_user.created_at)::BIGINT * 1000,
+    'updatedAt', EXTRACT(EPOCH FROM v_user.updated_at)::BIGINT * 1000,
+    'twoFactorEnabled', v_user.two_factor_enabled
+  );
+END;
+$$;
+
+-- ============================================
+-- 8a. CHANGE EMAIL
+-- ============================================
+-- The login email changes in two steps: auth.request_email_change() checks
+-- the password and returns a code for the new address and a cancel token for
+-- the old one (the gateway emails both and drops them from the response),
+-- auth.confirm_email_change() swaps users.email once the code is entered.
+
+-- Start an email change (replaces a pending one)
+CREATE OR REPLACE FUNCTION auth.request_email_change(
+  _user_id TEXT,
+  _new_email TEXT,
+  _password TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  c_lifetime CONSTANT BIGINT := 60 * 60 * 1000; -- 1 hour
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_user RECORD;
+  v_email TEXT := lower(trim(_new_email));
+  v_code TEXT := LPAD(FLOOR(RANDOM() * 1000000)::TEXT, 6, '0');
+  v_cancel_token TEXT := encode(gen_random_bytes(32), 'hex');
+BEGIN
+  SELECT * INTO v_user FROM users WHERE _id = _user_id;
+
+  IF v_user._id IS NULL THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'AK404';
+  END IF;
+
+  IF NOT auth.verify_password(_password, v_user.password, v_user.password_algo) THEN
+    RAISE EXCEPTION 'Password is incorrect' USING ERRCODE = 'AK402', COLUMN = 'password';
+  END IF;
+
+  IF v_email IS NULL OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Invalid email format' USING ERRCODE = 'AK422', COLUMN = 'new_email';
+  END IF;
+
+  PERFORM auth.check_email_domain(v_email, 'new_email');
+
+  IF v_email = lower(v_user.email) THEN
+    RAISE EXCEPTION 'This is already your email' USING ERRCODE = 'AK422', COLUMN = 'new_email';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM users WHERE lower(email) = v_email) THEN
+    RAISE EXCEPTION 'User with this email already exists' USING ERRCODE = 'AK409', COLUMN = 'new_email';
+  END IF;
+
+  INSERT INTO email_change_requests (user_id, new_email, code_hash, cancel_token_hash, created_at, expires_at)
+  VALUES (
+    _user_id,
+    v_email,
+    encode(digest(v_code, 'sha256'), 'hex'),
+    encode(digest(v_cancel_token, 'sha256'), 'hex'),
+    v_now,
+    v_now + c_lifetime
+  )
+  ON CONFLICT (user_id) DO UPDATE
+  SET new_email = EXCLUDED.new_email,
+      code_hash = EXCLUDED.code_hash,
+      cancel_token_hash = EXCLUDED.cancel_token_hash,
+      attempts = 0,
+      created_at = EXCLUDED.created_at,
+      expires_at = EXCLUDED.expires_at;
+
+  RETURN jsonb_build_object(
+    'newEmail', v_email,
+    'expiresAt', v_now + c_lifetime,
+    -- Emailed by the gateway, never returned to the browser
+    'oldEmail', v_user.email,
+    'code', v_code,
+    'cancelToken', v_cancel_token
+  );
+END;
+$$;
+
+-- The user's pending email change ({ newEmail, expiresAt } or null)
+CREATE OR REPLACE FUNCTION auth.get_email_change(_user_id TEXT)
+RETURNS JSONB
+LANGUAGE sql SECURITY DEFINER AS $$
+  SELECT jsonb_build_object('newEmail', new_email, 'expiresAt', expires_at)
+  FROM email_change_requests
+  WHERE user_id = _user_id
+    AND expires_at > EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+$$;
+
+-- Swap the email with the code sent to the new address. Ends every other
+-- session of the user (_token is the caller's, injected by the gateway).
+CREATE OR REPLACE FUNCTION auth.confirm_email_change(
+  _user_id TEXT,
+  _code TEXT,
+  _token TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_request RECORD;
+  v_old_email TEXT;
+BEGIN
+  SELECT * INTO v_request FROM email_change_requests WHERE user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending email change. Please start again' USING ERRCODE = 'AK404';
+  END IF;
+
+  IF v_request.expires_at < EXTRACT(EPOCH FROM NOW())::BIGINT * 1000 THEN
+    RAISE EXCEPTION 'Confirmation code has expired. Please start again' USING ERRCODE = 'AK410';
+  END IF;
+
+  IF encode(digest(COALESCE(_code, ''), 'sha256'), 'hex') <> v_request.code_hash THEN
+    -- Rolled back with the error: the gateway counts it with
+    -- auth.record_failed_email_change()
+    RAISE EXCEPTION 'Invalid confirmation code' USING ERRCODE = 'AK402', COLUMN = 'code';
+  END IF;
+
+  -- Someone may have signed up with the address in the meantime
+  IF EXISTS (SELECT 1 FROM users WHERE lower(email) = v_request.new_email) THEN
+    DELETE FROM email_change_requests WHERE user_id = _user_id;
+    RAISE EXCEPTION 'User with this email already exists' USING ERRCODE = 'AK409', COLUMN = 'code';
+  END IF;
+
+  SELECT email INTO v_old_email FROM users WHERE _id = _user_id;
+
+  UPDATE users
+  SET email = v_request.new_email,
+      updated_at = NOW()
+  WHERE _id = _user_id;
+
+  DELETE FROM email_change_requests WHERE user_id = _user_id;
+
+  -- A sign-in link still pending went to the old address
+  DELETE FROM magic_links WHERE user_id = _user_id;
+
+  PERFORM audit.log_action(
+    _user_id,
+    'UPDATE',
+    'users',
+    _user_id,
+    NULL,
+    jsonb_build_object('email', v_old_email),
+    jsonb_build_object('email', v_request.new_email),
+    NULL,
+    NULL,
+    NULL,
+    'Email changed (confirmed with code sent to the new address)'
+  );
+
+  RETURN jsonb_build_object(
+    'email', v_request.new_email,
+    'revokedSessions', auth.end_sessions(_user_id, 'email_change', _token)
+  );
+END;
+$$;
+
+-- Record a wrong confirmation code (called by the gateway after
+-- auth.confirm_email_change failed with AK402). After 5 wrong codes the
+-- request is gone and the change has to be started again.
+CREATE OR REPLACE FUNCTION auth.record_failed_email_change(_user_id TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  c_max_attempts CONSTANT INT := 5;
+BEGIN
+  UPDATE email_change_requests
+  SET attempts = attempts + 1
+  WHERE user_id = _user_id;
+
+  DELETE FROM email_change_requests
+  WHERE user_id = _user_id AND attempts >= c_max_attempts;
+END;
+$$;
+
+-- Cancel a pending change with the link sent to the old address
+CREATE OR REPLACE FUNCTION auth.cancel_email_change(_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_request RECORD;
+BEGIN
+  DELETE FROM email_change_requests
+  WHERE cancel_token_hash = encode(digest(COALESCE(_token, ''), 'sha256'), 'hex')
+  RETURNING * INTO v_request;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid or already used cancel link' USING ERRCODE = 'AK422', COLUMN = 'token';
+  END IF;
+
+  PERFORM audit.log_action(
+    v_request.user_id,
+    'DELETE',
+    'email_change_requests',
+    v_request.user_id,
+    NULL,
+    jsonb_build_object('new_email', v_request.new_email),
+    NULL,
+    NULL,
+    NULL,
+    NULL,
+    'Email change cancelled from the old address'
+  );
+
+  RETURN jsonb_build_object('message', 'Email change cancelled. Your email stays the same.');
+END;
+$$;
+
+-- ============================================
+-- 8b. PERSONAL DATA (GDPR)
+-- ============================================
+-- Self-service data-subject requests: auth.export_personal_data() gathers
+-- everything held about the user, auth.request_account_erasure() schedules
+-- auth.erase_user() after a 30-day grace period. Erasure anonymizes instead of
+-- deleting: tasks, approvals, appointment history and the audit trail keep
+-- pointing at the (now nameless) users row.
+
+-- Columns of users that never leave the database, not even in an export
+CREATE OR REPLACE FUNCTION auth.without_user_secrets(_values JSONB)
+RETURNS JSONB
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT _values - ARRAY[
+    'password', 'two_factor_secret', 'verification_code', 'invitation_token', 'reset_token'
+  ];
+$$;
+
+-- Everything held about the user, as one JSON document
+CREATE OR REPLACE FUNCTION auth.export_personal_data(_user_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_user RECORD;
+  v_result JSONB;
+BEGIN
+  SELECT * INTO v_user FROM users WHERE _id = _user_id;
+
+  IF v_user._id IS NULL THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'AK404';
+  END IF;
+
+  v_result := jsonb_build_object(
+    'exportedAt', EXTRACT(EPOCH FROM NOW())::BIGINT * 1000,
+    'user', jsonb_build_object(
+      '_id', v_user._id,
+      'email', v_user.email,
+      'fullname', v_user.fullname,
+      'verified', v_user.verified,
+      'twoFactorEnabled', v_user.two_factor_enabled,
+      'profile', COALESCE(v_user.profile, '{}'::JSONB),
+      'createdAt', EXTRACT(EPOCH FROM v_user.created_at)::BIGINT * 1000,
+      'updatedAt', EXTRACT(EPOCH FROM v_user.updated_at)::BIGINT * 1000
+    ),
+    'memberships', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'companyId', c._id,
+        'company', c.title,
+        'role', uc.role,
+        'joinedAt', EXTRACT(EPOCH FROM uc.joined_at)::BIGINT * 1000
+      ) ORDER BY uc.joined_at)
+      FROM user_companies uc
+      JOIN companies c ON c.id = uc.company_id
+      WHERE uc.user_id = _user_id
+    ), '[]'::JSONB),
+    'tasks', COALESCE((
+      SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at)
+      FROM tasks t
+      WHERE t.creator_id = _user_id
+        OR t.assignees @> jsonb_build_array(jsonb_build_object('type', 'user', 'id', _user_id))
+        OR t.approvers @> jsonb_build_array(jsonb_build_object('userId', _user_id))
+    ), '[]'::JSONB),
+    'approvals', jsonb_build_object(
+      'orgchart', COALESCE((
+        SELECT jsonb_agg(to_jsonb(a) ORDER BY a.created_at)
+        FROM orgchart_approvals a
+        WHERE a.approver_user_id = _user_id
+      ), '[]'::JSONB),
+      'workflows', COALESCE((
+        SELECT jsonb_agg(to_jsonb(w) ORDER BY w.created_at)
+        FROM approval_workflows w
+        WHERE w.initiator_id = _user_id
+          OR w.decisions @> jsonb_build_array(jsonb_build_object('userId', _user_id))
+      ), '[]'::JSONB)
+    ),
+    'appointmentHistory', COALESCE((
+      SELECT jsonb_agg(to_jsonb(h) ORDER BY h.appointed_at)
+      FROM orgchart_appointment_history h
+      WHERE h.user_id = v_user.id
+    ), '[]'::JSONB),
+    'sessions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(s) - 'session_token' ORDER BY s.login_at)
+      FROM audit_sessions s
+      WHERE s.user_id = _user_id
+    ), '[]'::JSONB),
+    'auditLog', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(l) || jsonb_build_object(
+          'old_values', auth.without_user_secrets(l.old_values),
+          'new_values', auth.without_user_secrets(l.new_values)
+        )
+        ORDER BY l.created_at
+      )
+      FROM audit_log l
+      WHERE l.user_id = _user_id
+        OR (l.table_name = 'users' AND l.record_id = _user_id)
+    ), '[]'::JSONB)
+  );
+
+  PERFORM audit.log_action(
+    _user_id,
+    'EXPORT',
+    'users',
+    _user_id,
+    NULL,
+    NULL,
+    NULL,
+    NULL,
+    NULL,
+    NULL,
+    'Personal data exported by the user'
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+-- Schedule erasure of the user's account after the grace period.
+-- Owners transfer or delete their companies first.
+CREATE OR REPLACE FUNCTION auth.request_account_erasure(_user_id TEXT, _password TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  c_grace_period CONSTANT BIGINT := 30 * 24 * 60 * 60 * 1000; -- 30 days
+  v_now BIGINT := EXTRACT(EPOCH FROM NOW())::BIGINT * 1000;
+  v_user RECORD;
+  v_request RECORD;
+BEGIN
+  SELECT * INTO v_user FROM users WHERE _id = _user_id;
+
+  IF v_user._id IS NULL THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'AK404';
+  END IF;
+
+  IF NOT auth.verify_password(_password, v_user.password, v_user.password_algo) THEN
+    RAISE EXCEPTION 'Password is incorrect' USING ERRCODE = 'AK402', COLUMN = 'password';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM user_companies WHERE user_id = _user_id AND role = 'owner') THEN
+    RAISE EXCEPTION 'Transfer ownership of your companies or delete them first' USING ERRCODE = 'AK409';
+  END IF;
+
+  INSERT INTO account_erasure_requests (user_id, requested_at, erase_after)
+  VALUES (_user_id, v_now, v_now + c_grace_period)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_request FROM account_erasure_requests WHERE user_id = _user_id;
+
+  PERFORM audit.log_action(
+    _user_id,
+    'CREATE',
+    'account_erasure_requests',
+    _user_id,
+    NULL,
+    NULL,
+    jsonb_build_object('erase_after', v_request.erase_after),
+    NULL,
+    NULL,
+    NULL,
+    'Account erasure requested'
+  );
+
+  RETURN jsonb_build_object(
+    'requestedAt', v_request.requested_at,
+    'eraseAfter', v_request.erase_after
+  );
+END;
+$$;
+
+-- The user's pending erasure ({ requestedAt, eraseAfter } or null)
+CREATE OR REPLACE FUNCTION auth.get_account_erasure(_user_id TEXT)
+RETURNS JSONB
+LANGUAGE sql SECURITY DEFINER AS $$
+  SELECT jsonb_build_object('requestedAt', requested_at, 'eraseAfter', erase_after)
+  FROM account_erasure_requests
+  WHERE user_id = _user_id;
+$$;
+
+-- Keep the account: cancel a pending erasure
+CREATE OR REPLACE FUNCTION auth.cancel_account_erasure(_user_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_request RECORD;
+BEGIN
+  DELETE FROM account_erasure_requests
+  WHERE user_id = _user_id
+  RETURNING * INTO v_request;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending account erasure' USING ERRCODE = 'AK404';
+  END IF;
 
-  -- Don't reveal if user exists
-  RETURN jsonb_build_object(
-    'message', 'If an account exists, a reset link will be sent',
-    'resetToken', v_reset_token -- Remove in production, send via email
+  PERFORM audit.log_action(
+    _user_id,
+    'DELETE',
+    'account_erasure_requests',
+    _user_id,
+    NULL,
+    jsonb_build_object('erase_after', v_request.erase_after),
+    NULL,
+    NULL,
+    NULL,
+    NULL,
+    'Account erasure cancelled'
   );
+
+  RETURN jsonb_build_object('message', 'Account erasure cancelled. Your account stays.');
 END;
 $$;
 
--- ============================================
--- 8. UPDATE PROFILE
--- ============================================
-CREATE OR REPLACE FUNCTION auth.update_profile(
-  _user_id TEXT,
-  _fullname TEXT DEFAULT NULL,
-  _dob TEXT DEFAULT NULL,
-  _gender TEXT DEFAULT NULL,
-  _avatar TEXT DEFAULT NULL,
-  _phone TEXT DEFAULT NULL,
-  _address TEXT DEFAULT NULL,
-  _city TEXT DEFAULT NULL,
-  _state TEXT DEFAULT NULL,
-  _zip_code TEXT DEFAULT NULL,
-  _country TEXT DEFAULT NULL
+-- Replace the emails and names of an erased user inside an audit JSON value
+CREATE OR REPLACE FUNCTION auth.anonymize_jsonb(
+  _value JSONB,
+  _emails TEXT[],
+  _names TEXT[],
+  _alias_email TEXT,
+  _alias_name TEXT
 )
 RETURNS JSONB
-LANGUAGE plpgsql SECURITY DEFINER AS $$
+LANGUAGE plpgsql IMMUTABLE AS $$
 DECLARE
-  v_user RECORD;
-  v_old_user RECORD;
-  v_profile JSONB;
-  v_old_values JSONB;
-  v_new_values JSONB;
+  v_text TEXT := _value::TEXT;
+  v_item TEXT;
 BEGIN
-  -- Get current user (for old values)
-  SELECT * INTO v_old_user FROM users WHERE _id = _user_id;
-
-  IF v_old_user._id IS NULL THEN
-    RAISE EXCEPTION 'User not found';
+  IF _value IS NULL THEN
+    RETURN NULL;
   END IF;
 
-  -- Build profile JSON
-  v_profile := COALESCE(v_old_user.profile, '{}'::JSONB);
-
-  IF _dob IS NOT NULL THEN
-    v_profile := jsonb_set(v_profile, '{dob}', to_jsonb(_dob));
-  END IF;
+  FOREACH v_item IN ARRAY COALESCE(_emails, '{}') LOOP
+    v_text := replace(v_text, v_item, _alias_email);
+  END LOOP;
 
-  IF _gender IS NOT NULL THEN
-    v_profile := jsonb_set(v_profile, '{gender}', to_jsonb(_gender));
-  END IF;
+  -- Whole string values only: a name is not replaced inside other text
+  FOREACH v_item IN ARRAY COALESCE(_names, '{}') LOOP
+    v_text := replace(v_text, to_jsonb(v_item)::TEXT, to_jsonb(_alias_name)::TEXT);
+  END LOOP;
 
-  IF _avatar IS NOT NULL THEN
-    v_profile := jsonb_set(v_profile, '{avatar}', to_jsonb(_avatar));
-  END IF;
+  RETURN v_text::JSONB;
+END;
+$$;
 
-  IF _phone IS NOT NULL THEN
-    v_profile := jsonb_set(v_profile, '{phone}', to_jsonb(_phone));
-  END IF;
+-- Anonymize a user: sign-in data and memberships are deleted, the users row
+-- and the records pointing at it lose every email and name the user had.
+-- Called by auth.erase_due_accounts(), not exposed through the gateway.
+CREATE OR REPLACE FUNCTION auth.erase_user(_user_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  c_alias_name CONSTANT TEXT := 'Deleted user';
+  v_user RECORD;
+  v_alias_email TEXT := 'erased-' || encode(gen_random_bytes(8), 'hex') || '@erased.invalid';
+  v_emails TEXT[];
+  v_names TEXT[];
+BEGIN
+  SELECT * INTO v_user FROM users WHERE _id = _user_id;
 
-  IF _address IS NOT NULL THEN
-    v_profile := jsonb_set(v_profile, '{address}', to_jsonb(_address));
+  IF NOT FOUND THEN
+    RETURN FALSE;
   END IF;
 
-  IF _city IS NOT NULL THEN
-    v_profile := jsonb_set(v_profile, '{city}', to_jsonb(_city));
-  END IF;
+  -- Every address and name the account had (email changes, profile edits)
+  SELECT array_agg(DISTINCT value) INTO v_emails
+  FROM (
+    SELECT v_user.email AS value
+    UNION SELECT old_values->>'email' FROM audit_log WHERE table_name = 'users' AND record_id = _user_id
+    UNION SELECT new_values->>'email' FROM audit_log WHERE table_name = 'users' AND record_id = _user_id
+  ) emails
+  WHERE value IS NOT NULL;
 
-  IF _state IS NOT NULL THEN
-    v_profile := jsonb_set(v_profile, '{state}', to_jsonb(_state));
-  END IF;
+  SELECT array_agg(DISTINCT value) INTO v_names
+  FROM (
+    SELECT v_user.fullname AS value
+    UNION SELECT old_values->>'fullname' FROM audit_log WHERE table_name = 'users' AND record_id = _user_id
+    UNION SELECT new_values->>'fullname' FROM audit_log WHERE table_name = 'users' AND record_id = _user_id
+  ) names
+  WHERE value IS NOT NULL AND value <> '';
 
-  IF _zip_code IS NOT NULL THEN
-    v_profile := jsonb_set(v_profile, '{zipCode}', to_jsonb(_zip_code));
-  END IF;
+  -- Sign-in data and memberships
+  PERFORM auth.end_sessions(_user_id, 'account_erased');
+  DELETE FROM trusted_devices WHERE user_id = _user_id;
+  DELETE FROM two_factor_challenges WHERE user_id = _user_id;
+  DELETE FROM two_factor_recovery_codes WHERE user_id = _user_id;
+  DELETE FROM password_history WHERE user_id = _user_id;
+  DELETE FROM email_change_requests WHERE user_id = _user_id;
+  DELETE FROM magic_links WHERE user_id = _user_id;
+  DELETE FROM signin_alerts WHERE user_id = _user_id;
+  DELETE FROM api_tokens WHERE user_id = _user_id;
+  DELETE FROM sso_identities WHERE user_id = _user_id;
+  DELETE FROM user_permissions WHERE user_id = _user_id;
+  DELETE FROM user_companies WHERE user_id = _user_id;
+  DELETE FROM login_throttle
+  WHERE scope = 'account' AND key IN (SELECT lower(email) FROM unnest(v_emails) AS email);
 
-  IF _country IS NOT NULL THEN
-    v_profile := jsonb_set(v_profile, '{country}', to_jsonb(_country));
-  END IF;
+  UPDATE invitations
+  SET email = v_alias_email,
+      status = CASE WHEN status = 'pending' THEN 'revoked' ELSE status END
+  WHERE lower(email) IN (SELECT lower(email) FROM unnest(v_emails) AS email);
 
-  -- Update user
   UPDATE users
-  SET fullname = COALESCE(_fullname, fullname),
-      profile = v_profile,
-      updated_at = NOW()
+  SET email = v_alias_email,
+      fullname = c_alias_name,
+      password = auth.hash_password(encode(gen_random_bytes(32), 'hex')),
+      password_algo = 'bcrypt',
+      profile = '{}'::JSONB,
+      verified = FALSE,
+      verification_code = NULL,
+      two_factor_enabled = FALSE,
+      two_factor_secret = NULL,
+      two_factor_last_step = NULL,
+      invitation_token = NULL,
+      invitation_expiry = NULL,
+      reset_token = NULL,
+      reset_token_expiry = NULL
   WHERE _id = _user_id;
 
-  -- Get updated user
-  SELECT * INTO v_user FROM users WHERE _id = _user_id;
+  -- Records that keep pointing at the user
+  UPDATE orgchart_appointment_history
+  SET fullname = c_alias_name,
+      email = v_alias_email,
+      updated_at = NOW()
+  WHERE user_id = v_user.id;
 
-  -- Prepare audit log values
-  v_old_values := jsonb_build_object(
-    'fullname', v_old_user.fullname,
-    'profile', v_old_user.profile
-  );
+  UPDATE orgcharts
+  SET appointment_data = appointment_data || jsonb_build_object('fullname', c_alias_name, 'email', v_alias_email)
+  WHERE appointment_data->>'user_id' IN (_user_id, v_user.id::TEXT);
 
-  v_new_values := jsonb_build_object(
-    'fullname', v_user.fullname,
-    'profile', v_user.profile
-  );
+  UPDATE tasks
+  SET assignees = (
+    SELECT jsonb_agg(
+      CASE WHEN a->>'type' = 'user' AND a->>'id' = _user_id
+        THEN a || jsonb_build_object('name', c_alias_name)
+        ELSE a
+      END
+    )
+    FROM jsonb_array_elements(assignees) a
+  )
+  WHERE assignees @> jsonb_build_array(jsonb_build_object('type', 'user', 'id', _user_id));
+
+  UPDATE tasks
+  SET approvers = (
+    SELECT jsonb_agg(
+      CASE WHEN a->>'userId' = _user_id THEN a || jsonb_build_object('name', c_alias_name) ELSE a END
+    )
+    FROM jsonb_array_elements(approvers) a
+  )
+  WHERE approvers @> jsonb_build_array(jsonb_build_object('userId', _user_id));
+
+  UPDATE approval_workflows
+  SET decisions = (
+    SELECT jsonb_agg(
+      CASE WHEN d->>'userId' = _user_id THEN d || jsonb_build_object('userName', c_alias_name) ELSE d END
+    )
+    FROM jsonb_array_elements(decisions) d
+  )
+  WHERE decisions @> jsonb_build_array(jsonb_build_object('userId', _user_id));
+
+  DELETE FROM account_erasure_requests WHERE user_id = _user_id;
 
-  -- Log profile update action
   PERFORM audit.log_action(
-    _user_id,                    -- user who made the change
-    'UPDATE',                    -- action type
-    'users',                     -- table name
-    _user_id,                    -- record id (self-update)
-    NULL,                        -- company_id (users are global)
-    v_old_values,                -- old values
-    v_new_values,                -- new values
-    NULL,                        -- ip_address (not available in this context)
-    NULL,                        -- user_agent (not available in this context)
-    NULL,                        -- request_id
-    'User profile updated'       -- notes
+    NULL,
+    'DELETE',
+    'users',
+    _user_id,
+    NULL,
+    NULL,
+    NULL,
+    NULL,
+    NULL,
+    NULL,
+    'Account erased: personal data anonymized'
   );
 
-  RETURN jsonb_build_object(
-    '_id', v_user._id,
-    'email', v_user.email,
-    'fullname', v_user.fullname,
-    'verified', v_user.verified,
-    'profile', v_user.profile,
-    'createdAt', EXTRACT(EPOCH FROM v_user.created_at)::BIGINT * 1000,
-    'updatedAt', EXTRACT(EPOCH FROM v_user.updated_at)::BIGINT * 1000,
-    'twoFactorEnabled', v_user.two_factor_enabled
-  );
+  -- Last, so the audit rows written above are covered too: the trail keeps
+  -- the events, not the person
+  UPDATE audit_sessions
+  SET user_email = v_alias_email,
+      login_ip = NULL,
+      login_user_agent = NULL
+  WHERE user_id = _user_id;
+
+  UPDATE audit_log
+  SET user_email = CASE WHEN user_id = _user_id OR user_email = ANY(v_emails) THEN v_alias_email ELSE user_email END,
+      ip_address = CASE WHEN user_id = _user_id THEN NULL ELSE ip_address END,
+      user_agent = CASE WHEN user_id = _user_id THEN NULL ELSE user_agent END,
+      old_values = auth.anonymize_jsonb(
+        CASE WHEN table_name = 'users' AND record_id = _user_id
+          THEN auth.without_user_secrets(old_values) - 'profile'
+          ELSE old_values
+        END,
+        v_emails, v_names, v_alias_email, c_alias_name
+      ),
+      new_values = auth.anonymize_jsonb(
+        CASE WHEN table_name = 'users' AND record_id = _user_id
+          THEN auth.without_user_secrets(new_values) - 'profile'
+          ELSE new_values
+        END,
+        v_emails, v_names, v_alias_email, c_alias_name
+      )
+  WHERE user_id = _user_id
+    OR record_id = _user_id
+    OR user_email = ANY(v_emails)
+    OR EXISTS (
+      SELECT 1 FROM unnest(v_emails) AS email
+      WHERE audit_log.old_values::TEXT LIKE '%' || email || '%'
+        OR audit_log.new_values::TEXT LIKE '%' || email || '%'
+    );
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Carry out the erasures whose grace period ended. Run periodically (the API
+-- server does it every hour). Owners of a company are left pending until
+-- they hand it over.
+CREATE OR REPLACE FUNCTION auth.erase_due_accounts()
+RETURNS INT
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_request RECORD;
+  v_count INT := 0;
+BEGIN
+  FOR v_request IN
+    SELECT user_id
+    FROM account_erasure_requests r
+    WHERE r.erase_after <= EXTRACT(EPOCH FROM NOW())::BIGINT * 1000
+      AND NOT EXISTS (
+        SELECT 1 FROM user_companies uc WHERE uc.user_id = r.user_id AND uc.role = 'owner'
+      )
+  LOOP
+    IF auth.erase_user(v_request.user_id) THEN
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
 END;
 $$;
 
@@ -490,14 +3383,14 @@ DECLARE
 BEGIN
   -- Validate language code
   IF _preferred_language NOT IN ('en', 'es', 'ar', 'zh', 'hi') THEN
-    RAISE EXCEPTION 'Invalid language code. Supported: en, es, ar, zh, hi';
+    RAISE EXCEPTION 'Invalid language code. Supported: en, es, ar, zh, hi' USING ERRCODE = 'AK422', COLUMN = 'preferred_language';
   END IF;
 
   -- Get current user (for old values)
   SELECT * INTO v_old_user FROM users WHERE _id = _user_id;
 
   IF v_old_user._id IS NULL THEN
-    RAISE EXCEPTION 'User not found';
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'AK404';
   END IF;
 
   -- Update profile with preferred language
@@ -554,42 +3447,42 @@ $$;
 -- ============================================
 -- 10. CHANGE PASSWORD
 -- ============================================
+-- Signature gained _token (the caller's session, which stays signed in while
+-- all others end): drop the old one instead of adding an overload
+DROP FUNCTION IF EXISTS auth.change_password(TEXT, TEXT, TEXT);
+
 CREATE OR REPLACE FUNCTION auth.change_password(
   _user_id TEXT,
   _current_password TEXT,
-  _new_password TEXT
+  _new_password TEXT,
+  _token TEXT DEFAULT NULL
 )
 RETURNS JSONB
 LANGUAGE plpgsql SECURITY DEFINER AS $$
 DECLARE
   v_user RECORD;
-  v_current_hashed TEXT;
-  v_new_hashed TEXT;
 BEGIN
   -- Get user
   SELECT * INTO v_user FROM users WHERE _id = _user_id;
 
   IF v_user._id IS NULL THEN
-    RAISE EXCEPTION 'User not found';
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'AK404';
   END IF;
 
   -- Verify current password
-  v_current_hashed := encode(digest(_current_password, 'sha256'), 'hex');
-
-  IF v_user.password != v_current_hashed THEN
-    RAISE EXCEPTION 'Current password is incorrect';
+  IF NOT auth.verify_password(_current_password, v_user.password, v_user.password_algo) THEN
+    RAISE EXCEPTION 'Current password is incorrect' USING ERRCODE = 'AK402', COLUMN = 'current_password';
   END IF;
 
-  -- Hash new password
-  v_new_hashed := encode(digest(_new_password, 'sha256'), 'hex');
+  PERFORM auth.check_password_policy(_new_password, _user_id, 'new_password');
 
-  -- Update password
-  UPDATE users
-  SET password = v_new_hashed,
-      updated_at = NOW()
-  WHERE _id = _user_id;
+  -- Update password (bcrypt)
+  PERFORM auth.set_password(_user_id, _new_password);
 
-  RETURN jsonb_build_object('success', TRUE);
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'revokedSessions', auth.end_sessions(_user_id, 'password_change', _token)
+  );
 END;
 $$;
 
@@ -607,23 +3500,28 @@ BEGIN
   SELECT * INTO v_user FROM users WHERE _id = _user_id;
 
   IF v_user._id IS NULL THEN
-    RAISE EXCEPTION 'User not found';
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'AK404';
   END IF;
 
   IF v_user.two_factor_enabled = TRUE THEN
-    RAISE EXCEPTION '2FA is already enabled';
+    RAISE EXCEPTION '2FA is already enabled' USING ERRCODE = 'AK409';
   END IF;
 
-  -- Generate secret (in production, use proper TOTP secret generation)
-  v_secret := encode(gen_random_bytes(20), 'base32');
+  -- 160-bit secret (RFC 4226 recommendation), base32 for authenticator apps
+  v_secret := auth.base32_encode(gen_random_bytes(20));
 
   -- Save secret
   UPDATE users
   SET two_factor_secret = v_secret,
+      two_factor_last_step = NULL,
       updated_at = NOW()
   WHERE _id = _user_id;
 
-  RETURN jsonb_build_object('secret', v_secret);
+  RETURN jsonb_build_object(
+    'secret', v_secret,
+    'otpauthUrl', 'otpauth://totp/Ankey:' || replace(v_user.email, '@', '%40')
+      || '?secret=' || v_secret || '&issuer=Ankey&algorithm=SHA1&digits=6&period=30'
+  );
 END;
 $$;
 
@@ -640,20 +3538,19 @@ BEGIN
   SELECT * INTO v_user FROM users WHERE _id = _user_id;
 
   IF v_user._id IS NULL THEN
-    RAISE EXCEPTION 'User not found';
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'AK404';
   END IF;
 
   IF v_user.two_factor_secret IS NULL THEN
-    RAISE EXCEPTION '2FA setup not initiated. Please start setup first.';
+    RAISE EXCEPTION '2FA setup not initiated. Please start setup first.' USING ERRCODE = 'AK409';
   END IF;
 
   IF v_user.two_factor_enabled = TRUE THEN
-    RAISE EXCEPTION '2FA is already enabled';
+    RAISE EXCEPTION '2FA is already enabled' USING ERRCODE = 'AK409';
   END IF;
 
-  -- Validate token (in production, use proper TOTP validation)
-  IF LENGTH(_token) != 6 THEN
-    RAISE EXCEPTION 'Invalid verification code';
+  IF NOT auth.verify_totp(_user_id, _token) THEN
+    RAISE EXCEPTION 'Invalid verification code' USING ERRCODE = 'AK422', COLUMN = 'token';
   END IF;
 
   -- Enable 2FA
@@ -662,7 +3559,11 @@ BEGIN
       updated_at = NOW()
   WHERE _id = _user_id;
 
-  RETURN jsonb_build_object('success', TRUE);
+  -- Recovery codes are shown once, right after enabling
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'recoveryCodes', auth.generate_recovery_codes(_user_id)
+  );
 END;
 $$;
 
@@ -679,25 +3580,33 @@ BEGIN
   SELECT * INTO v_user FROM users WHERE _id = _user_id;
 
   IF v_user._id IS NULL THEN
-    RAISE EXCEPTION 'User not found';
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'AK404';
   END IF;
 
   IF v_user.two_factor_enabled = FALSE THEN
-    RAISE EXCEPTION '2FA is not enabled';
+    RAISE EXCEPTION '2FA is not enabled' USING ERRCODE = 'AK409';
+  END IF;
+
+  IF (auth.get_2fa_requirement(_user_id)->>'required')::BOOLEAN THEN
+    RAISE EXCEPTION 'Your company requires two-factor authentication' USING ERRCODE = 'AK403';
   END IF;
 
-  -- Validate token (in production, use proper TOTP validation)
-  IF LENGTH(_token) != 6 THEN
-    RAISE EXCEPTION 'Invalid verification code';
+  -- A recovery code also works (authenticator app lost)
+  IF NOT auth.verify_totp(_user_id, _token) AND NOT auth.use_recovery_code(_user_id, _token) THEN
+    RAISE EXCEPTION 'Invalid verification code' USING ERRCODE = 'AK422', COLUMN = 'token';
   END IF;
 
   -- Disable 2FA
   UPDATE users
   SET two_factor_enabled = FALSE,
       two_factor_secret = NULL,
+      two_factor_last_step = NULL,
       updated_at = NOW()
   WHERE _id = _user_id;
 
+  DELETE FROM two_factor_recovery_codes WHERE user_id = _user_id;
+  DELETE FROM trusted_devices WHERE user_id = _user_id;
+
   RETURN jsonb_build_object('success', TRUE);
 END;
 $$;
@@ -710,18 +3619,25 @@ RETURNS JSONB
 LANGUAGE plpgsql SECURITY DEFINER AS $$
 DECLARE
   v_user RECORD;
+  v_requirement JSONB;
 BEGIN
   -- Get user
   SELECT * INTO v_user FROM users WHERE _id = _user_id;
 
   IF v_user._id IS NULL THEN
-    RAISE EXCEPTION 'User not found';
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'AK404';
   END IF;
 
+  v_requirement := auth.get_2fa_requirement(_user_id);
+
   RETURN jsonb_build_object(
     'enabled', COALESCE(v_user.two_factor_enabled, FALSE),
-    'required', FALSE,
-    'deadline', NULL
+    'required', (v_requirement->>'required')::BOOLEAN,
+    'deadline', v_requirement->'deadline',
+    'setupRequired', (v_requirement->>'enforced')::BOOLEAN AND NOT COALESCE(v_user.two_factor_enabled, FALSE),
+    'recoveryCodesRemaining', (
+      SELECT COUNT(*) FROM two_factor_recovery_codes WHERE user_id = _user_id AND used_at IS NULL
+    )
   );
 END;
 $$;
@@ -729,85 +3645,310 @@ $$;
 -- ============================================
 -- 14. INVITE USER
 -- ============================================
+-- Signature gained _user_id, _role, _position_id and _fullname: drop the old ones instead of adding overloads
+DROP FUNCTION IF EXISTS auth.invite_user(TEXT, TEXT[]);
+DROP FUNCTION IF EXISTS auth.invite_user(TEXT, TEXT, TEXT[], TEXT, UUID);
+
+-- Creates a pending invitation per company; membership is only created by
+-- auth.accept_invitation. One code is emailed for all companies of the call;
+-- the gateway sends it and removes it from the response.
 CREATE OR REPLACE FUNCTION auth.invite_user(
+  _user_id TEXT,
   _email TEXT,
-  _company_ids TEXT[] DEFAULT NULL
+  _company_ids TEXT[] DEFAULT NULL,
+  _role TEXT DEFAULT 'member',
+  _position_id UUID DEFAULT NULL,
+  _fullname TEXT DEFAULT NULL
 )
 RETURNS JSONB
 LANGUAGE plpgsql SECURITY DEFINER AS $$
 DECLARE
-  v_user_id TEXT;
-  v_invitation_code TEXT;
-  v_invitation_expiry BIGINT;
+  v_email TEXT := LOWER(TRIM(_email));
   v_existing_user RECORD;
   v_is_new_user BOOLEAN;
-  v_temp_password TEXT;
-  v_hashed_password TEXT;
-  v_company_id TEXT;
+  v_company RECORD;
+  v_company_count INT;
+  v_invitation_id UUID;
+  v_invitation_code TEXT;
+  v_invitations JSONB := '[]'::JSONB;
 BEGIN
-  -- Check if user exists
+  IF v_email IS NULL OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'A valid email is required' USING ERRCODE = 'AK422', COLUMN = 'email';
+  END IF;
+
+  IF _role IS NULL OR _role NOT IN ('admin', 'member') THEN
+    RAISE EXCEPTION 'Invalid role: %', _role USING ERRCODE = 'AK422', COLUMN = 'role';
+  END IF;
+
+  SELECT COUNT(*) INTO v_company_count
+  FROM companies
+  WHERE id::TEXT = ANY(_company_ids) OR _id = ANY(_company_ids);
+
+  IF v_company_count = 0 THEN
+    RAISE EXCEPTION 'At least one company is required' USING ERRCODE = 'AK422', COLUMN = 'company_ids';
+  END IF;
+
+  IF _position_id IS NOT NULL AND v_company_count > 1 THEN
+    RAISE EXCEPTION 'A position can only be offered when inviting to one company'
+      USING ERRCODE = 'AK422', COLUMN = 'position_id';
+  END IF;
+
   SELECT * INTO v_existing_user
   FROM users
-  WHERE email = _email AND type = 'user';
+  WHERE LOWER(email) = v_email AND type = 'user';
 
-  v_is_new_user := (v_existing_user._id IS NULL);
+  -- An earlier invitee who never accepted still has to set a password
+  v_is_new_user := (v_existing_user._id IS NULL OR NOT COALESCE(v_existing_user.verified, FALSE));
+
+  IF v_existing_user._id IS NULL THEN
+    -- Unverified account with a random password; the invitee sets their own on acceptance
+    INSERT INTO users (
+      _id, type, email, password, password_algo, fullname, verified
+    ) VALUES (
+      'user_' || EXTRACT(EPOCH FROM NOW())::BIGINT || '_' || gen_random_uuid()::TEXT,
+      'user', v_email, auth.hash_password(gen_random_uuid()::TEXT), 'bcrypt',
+      COALESCE(NULLIF(TRIM(_fullname), ''), SPLIT_PART(v_email, '@', 1)), FALSE
+    );
+  END IF;
 
-  -- Generate invitation code
   v_invitation_code := LPAD(FLOOR(RANDOM() * 1000000)::TEXT, 6, '0');
-  v_invitation_expiry := EXTRACT(EPOCH FROM NOW())::BIGINT + (24 * 60 * 60 * 1000);
 
-  IF v_is_new_user THEN
-    -- Create new user
-    v_user_id := 'user_' || EXTRACT(EPOCH FROM NOW())::BIGINT || '_' || gen_random_uuid()::TEXT;
-    v_temp_password := gen_random_uuid()::TEXT;
-    v_hashed_password := encode(digest(v_temp_password, 'sha256'), 'hex');
+  FOR v_company IN
+    SELECT id, title FROM companies
+    WHERE id::TEXT = ANY(_company_ids) OR _id = ANY(_company_ids)
+  LOOP
+    -- The gateway only checks the active company
+    IF NOT rbac.has_permission(_user_id, v_company.id, 'company.invite') THEN
+      RAISE EXCEPTION 'Permission denied: company.invite in %', v_company.title
+        USING ERRCODE = 'AK403', DETAIL = '{"permission": "company.invite"}';
+    END IF;
 
-    INSERT INTO users (
-      _id, type, email, password, fullname, verified,
-      invitation_token, invitation_expiry, created_at, updated_at
+    -- Inviting an admin grants a role, like company.update_member_role
+    IF _role = 'admin' AND NOT rbac.has_permission(_user_id, v_company.id, 'company.change_roles') THEN
+      RAISE EXCEPTION 'Permission denied: company.change_roles in %', v_company.title
+        USING ERRCODE = 'AK403', COLUMN = 'role', DETAIL = '{"permission": "company.change_roles"}';
+    END IF;
+
+    -- Acceptance appoints to the offered position, like orgchart.create_appointment
+    IF _position_id IS NOT NULL AND NOT rbac.has_permission(_user_id, v_company.id, 'orgchart.appoint') THEN
+      RAISE EXCEPTION 'Permission denied: orgchart.appoint in %', v_company.title
+        USING ERRCODE = 'AK403', COLUMN = 'position_id', DETAIL = '{"permission": "orgchart.appoint"}';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM user_companies
+      WHERE user_id = v_existing_user._id AND company_id = v_company.id
+    ) THEN
+      RAISE EXCEPTION '% is already a member of %', v_email, v_company.title
+        USING ERRCODE = 'AK409', COLUMN = 'email';
+    END IF;
+
+    IF _position_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM orgcharts
+      WHERE id = _position_id AND company_id = v_company.id AND type = 'position' AND is_vacant = TRUE
+    ) THEN
+      RAISE EXCEPTION 'Position not found or already filled' USING ERRCODE = 'AK422', COLUMN = 'position_id';
+    END IF;
+
+    -- A new invitation replaces the pending one (and its code)
+    UPDATE invitations
+    SET status = 'revoked'
+    WHERE company_id = v_company.id AND LOWER(email) = v_email AND status = 'pending';
+
+    INSERT INTO invitations (
+      company_id, email, role, position_id, invited_by, token_hash, expires_at
     ) VALUES (
-      v_user_id, 'user', _email, v_hashed_password, SPLIT_PART(_email, '@', 1),
-      FALSE, v_invitation_code, v_invitation_expiry,
-      EXTRACT(EPOCH FROM NOW())::BIGINT, EXTRACT(EPOCH FROM NOW())::BIGINT
-    );
-  ELSE
-    -- Update existing user
-    v_user_id := v_existing_user._id;
+      v_company.id, v_email, _role, _position_id, _user_id,
+      encode(digest(v_invitation_code, 'sha256'), 'hex'),
+      NOW() + INTERVAL '7 days'
+    )
+    RETURNING id INTO v_invitation_id;
 
-    UPDATE users
-    SET invitation_token = v_invitation_code,
-        invitation_expiry = v_invitation_expiry,
-        updated_at = NOW()
-    WHERE _id = v_user_id;
-  END IF;
+    PERFORM audit.log_action(
+      _user_id, 'INVITE', 'invitations', v_invitation_id::TEXT, v_company.id, NULL,
+      jsonb_build_object('email', v_email, 'role', _role, 'position_id', _position_id)
+    );
 
-  -- Associate with companies
-  IF _company_ids IS NOT NULL THEN
-    FOREACH v_company_id IN ARRAY _company_ids
-    LOOP
-      IF NOT EXISTS (
-        SELECT 1 FROM user_companies
-        WHERE user_id = v_user_id AND company_id = v_company_id
-      ) THEN
-        INSERT INTO user_companies (
-          _id, type, user_id, company_id, role, created_at
-        ) VALUES (
-          'user_company_' || EXTRACT(EPOCH FROM NOW())::BIGINT || '_' || gen_random_uuid()::TEXT,
-          'user_company', v_user_id, v_company_id, 'member',
-          EXTRACT(EPOCH FROM NOW())::BIGINT
-        );
-      END IF;
-    END LOOP;
-  END IF;
+    v_invitations := v_invitations || jsonb_build_object(
+      'id', v_invitation_id,
+      'companyId', v_company.id,
+      'companyTitle', v_company.title
+    );
+  END LOOP;
 
   RETURN jsonb_build_object(
     'message', CASE
       WHEN v_is_new_user THEN 'User invited successfully.'
       ELSE 'Invitation sent to existing user.'
     END,
-    'userId', v_user_id,
+    'email', v_email,
     'invitationCode', v_invitation_code,
-    'isNewUser', v_is_new_user
+    'isNewUser', v_is_new_user,
+    'invitations', v_invitations
+  );
+END;
+$$;
+
+-- ============================================
+-- 14a. BULK INVITE
+-- ============================================
+-- Invites the rows of an uploaded CSV/XLSX file to one company.
+-- _rows: [{ email, fullname?, role?, positionCode? }]
+--
+-- Every row is checked and reported with its issues (invalidEmail,
+-- duplicateEmail, alreadyMember, invalidRole, roleNotAllowed, positionNotAllowed,
+-- positionNotFound, positionFilled, duplicatePosition). A dry run stops there; otherwise the
+-- valid rows are invited with auth.invite_user and invalid rows are skipped.
+-- The gateway emails the returned codes and removes them from the response.
+CREATE OR REPLACE FUNCTION auth.bulk_invite_users(
+  _user_id TEXT,
+  _company_id TEXT,
+  _rows JSONB,
+  _dry_run BOOLEAN DEFAULT TRUE
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_company RECORD;
+  v_row JSONB;
+  v_row_number INT := 0;
+  v_valid_count INT := 0;
+  v_email TEXT;
+  v_fullname TEXT;
+  v_role TEXT;
+  v_position_code TEXT;
+  v_position_id UUID;
+  v_issues TEXT[];
+  v_replaces_invitation BOOLEAN;
+  v_seen_emails TEXT[] := '{}';
+  v_seen_positions UUID[] := '{}';
+  v_can_grant_admin BOOLEAN;
+  v_can_appoint BOOLEAN;
+  v_invited JSONB;
+  v_results JSONB := '[]'::JSONB;
+  v_invitations JSONB := '[]'::JSONB;
+BEGIN
+  SELECT id, title INTO v_company
+  FROM companies
+  WHERE id::TEXT = _company_id OR _id = _company_id;
+
+  IF v_company.id IS NULL THEN
+    RAISE EXCEPTION 'Company not found' USING ERRCODE = 'AK404', COLUMN = 'company_id';
+  END IF;
+
+  IF _rows IS NULL OR jsonb_typeof(_rows) <> 'array' OR jsonb_array_length(_rows) = 0 THEN
+    RAISE EXCEPTION 'The file has no rows to invite' USING ERRCODE = 'AK422', COLUMN = 'rows';
+  END IF;
+
+  IF jsonb_array_length(_rows) > 1000 THEN
+    RAISE EXCEPTION 'At most 1000 rows can be invited at once' USING ERRCODE = 'AK422', COLUMN = 'rows';
+  END IF;
+
+  v_can_grant_admin := rbac.has_permission(_user_id, v_company.id, 'company.change_roles');
+  v_can_appoint := rbac.has_permission(_user_id, v_company.id, 'orgchart.appoint');
+
+  FOR v_row IN SELECT value FROM jsonb_array_elements(_rows)
+  LOOP
+    v_row_number := v_row_number + 1;
+    v_issues := '{}';
+    v_email := LOWER(TRIM(v_row->>'email'));
+    v_fullname := NULLIF(TRIM(v_row->>'fullname'), '');
+    v_role := COALESCE(NULLIF(LOWER(TRIM(v_row->>'role')), ''), 'member');
+    v_position_code := NULLIF(TRIM(v_row->>'positionCode'), '');
+    v_position_id := NULL;
+
+    IF v_email IS NULL OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+      v_issues := array_append(v_issues, 'invalidEmail');
+    ELSIF v_email = ANY(v_seen_emails) THEN
+      v_issues := array_append(v_issues, 'duplicateEmail');
+    ELSIF EXISTS (
+      SELECT 1 FROM user_companies uc
+      JOIN users u ON u._id = uc.user_id
+      WHERE uc.company_id = v_company.id AND LOWER(u.email) = v_email
+    ) THEN
+      v_issues := array_append(v_issues, 'alreadyMember');
+    END IF;
+
+    IF v_email IS NOT NULL THEN
+      v_seen_emails := array_append(v_seen_emails, v_email);
+    END IF;
+
+    IF v_role NOT IN ('admin', 'member') THEN
+      v_issues := array_append(v_issues, 'invalidRole');
+    ELSIF v_role = 'admin' AND NOT v_can_grant_admin THEN
+      v_issues := array_append(v_issues, 'roleNotAllowed');
+    END IF;
+
+    IF v_position_code IS NOT NULL AND NOT v_can_appoint THEN
+      v_issues := array_append(v_issues, 'positionNotAllowed');
+    ELSIF v_position_code IS NOT NULL THEN
+      -- Orgchart versions repeat position codes: take a vacant one not used by an earlier row
+      SELECT id INTO v_position_id
+      FROM orgcharts
+      WHERE company_id = v_company.id AND type = 'position' AND code = v_position_code
+        AND is_vacant = TRUE AND id <> ALL(v_seen_positions)
+      ORDER BY updated_at DESC
+      LIMIT 1;
+
+      IF v_position_id IS NOT NULL THEN
+        v_seen_positions := array_append(v_seen_positions, v_position_id);
+      ELSIF NOT EXISTS (
+        SELECT 1 FROM orgcharts
+        WHERE company_id = v_company.id AND type = 'position' AND code = v_position_code
+      ) THEN
+        v_issues := array_append(v_issues, 'positionNotFound');
+      ELSIF EXISTS (
+        SELECT 1 FROM orgcharts
+        WHERE company_id = v_company.id AND type = 'position' AND code = v_position_code
+          AND is_vacant = TRUE
+      ) THEN
+        v_issues := array_append(v_issues, 'duplicatePosition');
+      ELSE
+        v_issues := array_append(v_issues, 'positionFilled');
+      END IF;
+    END IF;
+
+    -- A pending invitation for this email is replaced (its code stops working)
+    v_replaces_invitation := EXISTS (
+      SELECT 1 FROM invitations
+      WHERE company_id = v_company.id AND LOWER(email) = v_email AND status = 'pending'
+    );
+
+    IF cardinality(v_issues) = 0 THEN
+      v_valid_count := v_valid_count + 1;
+
+      IF NOT _dry_run THEN
+        v_invited := auth.invite_user(
+          _user_id, v_email, ARRAY[v_company.id::TEXT], v_role, v_position_id, v_fullname
+        );
+
+        v_invitations := v_invitations || jsonb_build_object(
+          'email', v_email,
+          'invitationCode', v_invited->>'invitationCode',
+          'isNewUser', (v_invited->>'isNewUser')::BOOLEAN
+        );
+      END IF;
+    END IF;
+
+    v_results := v_results || jsonb_build_object(
+      'row', v_row_number,
+      'email', v_email,
+      'fullname', v_fullname,
+      'role', v_role,
+      'positionCode', v_position_code,
+      'positionId', v_position_id,
+      'issues', to_jsonb(v_issues),
+      'replacesInvitation', v_replaces_invitation
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'dryRun', _dry_run,
+    'total', v_row_number,
+    'valid', v_valid_count,
+    'invalid', v_row_number - v_valid_count,
+    'rows', v_results,
+    'invitations', CASE WHEN _dry_run THEN NULL ELSE v_invitations END
   );
 END;
 $$;
@@ -815,6 +3956,14 @@ $$;
 -- ============================================
 -- 15. ACCEPT INVITATION
 -- ============================================
+-- Accepts every pending invitation of the email that was sent with this code:
+-- creates the memberships with the invited role and fills the offered
+-- position if it is still vacant. Only invitees without a verified account
+-- set a password here.
+--
+-- An unknown email fails like a wrong code. The gateway counts wrong codes
+-- with auth.record_failed_invitation: after 5 the code is void until the
+-- invitation is resent.
 CREATE OR REPLACE FUNCTION auth.accept_invitation(
   _email TEXT,
   _invitation_code TEXT,
@@ -824,54 +3973,124 @@ RETURNS JSONB
 LANGUAGE plpgsql SECURITY DEFINER AS $$
 DECLARE
   v_user RECORD;
-  v_hashed_password TEXT;
+  v_invitation RECORD;
+  v_code_hash TEXT := encode(digest(COALESCE(_invitation_code, ''), 'sha256'), 'hex');
+  v_companies JSONB := '[]'::JSONB;
 BEGIN
   SELECT * INTO v_user
   FROM users
-  WHERE email = _email AND type = 'user';
+  WHERE LOWER(email) = LOWER(TRIM(_email)) AND type = 'user';
 
-  IF v_user._id IS NULL THEN
-    RAISE EXCEPTION 'User not found.';
+  -- Rolled back with the error: the gateway counts it with
+  -- auth.record_failed_invitation()
+  IF v_user._id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM invitations
+    WHERE LOWER(email) = LOWER(v_user.email) AND token_hash = v_code_hash AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'Invalid invitation code' USING ERRCODE = 'AK422', COLUMN = 'invitation_code';
   END IF;
 
-  IF v_user.invitation_token != _invitation_code THEN
-    RAISE EXCEPTION 'Invalid invitation code';
+  IF NOT EXISTS (
+    SELECT 1 FROM invitations
+    WHERE LOWER(email) = LOWER(v_user.email) AND token_hash = v_code_hash AND status = 'pending'
+      AND expires_at > NOW()
+  ) THEN
+    RAISE EXCEPTION 'Invitation code has expired' USING ERRCODE = 'AK410';
   END IF;
 
-  IF v_user.invitation_expiry IS NULL OR v_user.invitation_expiry < EXTRACT(EPOCH FROM NOW())::BIGINT THEN
-    RAISE EXCEPTION 'Invitation code has expired';
+  -- The emailed code must not replace the password of an existing account
+  IF _new_password IS NOT NULL AND v_user.verified THEN
+    RAISE EXCEPTION 'This account already has a password. Accept the invitation without one and sign in'
+      USING ERRCODE = 'AK422', COLUMN = 'new_password';
   END IF;
 
   IF _new_password IS NOT NULL THEN
-    v_hashed_password := encode(digest(_new_password, 'sha256'), 'hex');
-
-    UPDATE users
-    SET password = v_hashed_password,
-        verified = TRUE,
-        invitation_token = NULL,
-        invitation_expiry = NULL,
-        updated_at = NOW()
-    WHERE _id = v_user._id;
-  ELSE
-    UPDATE users
-    SET verified = TRUE,
-        invitation_token = NULL,
-        invitation_expiry = NULL,
-        updated_at = NOW()
-    WHERE _id = v_user._id;
+    PERFORM auth.check_password_policy(_new_password, v_user._id, 'new_password');
+    PERFORM auth.set_password(v_user._id, _new_password);
   END IF;
 
+  UPDATE users
+  SET verified = TRUE,
+      updated_at = NOW()
+  WHERE _id = v_user._id;
+
+  FOR v_invitation IN
+    SELECT i.*, c._id AS company_text_id, c.title AS company_title
+    FROM invitations i
+    JOIN companies c ON c.id = i.company_id
+    WHERE LOWER(i.email) = LOWER(v_user.email) AND i.token_hash = v_code_hash
+      AND i.status = 'pending' AND i.expires_at > NOW()
+  LOOP
+    INSERT INTO user_companies (_id, type, user_id, company_id, role, joined_at, created_at)
+    VALUES (
+      'uc_' || v_user._id || '_' || v_invitation.company_id::TEXT,
+      'user_company', v_user._id, v_invitation.company_id, v_invitation.role, NOW(), NOW()
+    )
+    ON CONFLICT (user_id, company_id) DO NOTHING;
+
+    -- The position may have been filled since the invitation was sent
+    IF v_invitation.position_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM orgcharts WHERE id = v_invitation.position_id AND is_vacant = TRUE
+    ) THEN
+      PERFORM orgchart.create_appointment(
+        v_invitation.company_text_id,
+        COALESCE(v_invitation.invited_by, v_user._id),
+        v_invitation.position_id,
+        v_user._id,
+        v_user.fullname,
+        v_user.email
+      );
+    END IF;
+
+    UPDATE invitations
+    SET status = 'accepted', accepted_at = NOW()
+    WHERE id = v_invitation.id;
+
+    PERFORM audit.log_action(
+      v_user._id, 'ACCEPT_INVITE', 'invitations', v_invitation.id::TEXT, v_invitation.company_id, NULL,
+      jsonb_build_object('role', v_invitation.role, 'position_id', v_invitation.position_id)
+    );
+
+    v_companies := v_companies || jsonb_build_object(
+      'companyId', v_invitation.company_id,
+      'title', v_invitation.company_title,
+      'role', v_invitation.role
+    );
+  END LOOP;
+
   RETURN jsonb_build_object(
     'message', 'Invitation accepted successfully.',
     'user', jsonb_build_object(
       '_id', v_user._id,
       'email', v_user.email,
       'fullname', v_user.fullname
-    )
+    ),
+    'companies', v_companies
   );
 END;
 $$;
 
+-- Record a wrong invitation code for an email (called by the gateway after
+-- auth.accept_invitation failed with AK422 on invitation_code). The 5th wrong
+-- code voids the pending invitations of the email until they are resent.
+CREATE OR REPLACE FUNCTION auth.record_failed_invitation(_email TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  c_max_attempts CONSTANT INT := 5;
+BEGIN
+  UPDATE invitations
+  SET failed_attempts = failed_attempts + 1,
+      token_hash = CASE
+        WHEN failed_attempts + 1 >= c_max_attempts THEN NULL
+        ELSE token_hash
+      END
+  WHERE LOWER(email) = LOWER(TRIM(_email))
+    AND status = 'pending'
+    AND token_hash IS NOT NULL;
+END;
+$$;
+
 -- ============================================
 -- 16. GET USER BY EMAIL
 -- ============================================
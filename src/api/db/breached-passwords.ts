@@ -0,0 +1,50 @@
+/**
+ * Breached Password Blocklist
+ *
+ * Loads breached-passwords.txt (one password per line, `#` comments) into the
+ * breached_passwords table that auth.check_password_policy() consults.
+ * Only SHA-1 hashes of the lowercased passwords are stored, so a larger
+ * list in the same format (e.g. a Have I Been Pwned export) can be added later.
+ *
+ * Called by db:migrate and db:deploy:supabase after the SQL files;
+ * re-running skips entries that are already loaded.
+ */
+
+import type { Pool, PoolClient } from 'pg';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export const BREACHED_PASSWORDS_FILE = join(__dirname, 'breached-passwords.txt');
+
+/**
+ * Read the passwords from a blocklist file (comments and blank lines skipped)
+ */
+export function readBreachedPasswords(file = BREACHED_PASSWORDS_FILE): string[] {
+  return readFileSync(file, 'utf-8')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+}
+
+/**
+ * Insert the blocklist into breached_passwords
+ *
+ * @returns Number of newly added entries
+ */
+export async function loadBreachedPasswords(
+  client: Pool | PoolClient,
+  file = BREACHED_PASSWORDS_FILE
+): Promise<number> {
+  const result = await client.query(
+    `INSERT INTO breached_passwords (hash)
+     SELECT DISTINCT encode(digest(lower(password), 'sha1'), 'hex')
+     FROM unnest($1::TEXT[]) AS password
+     ON CONFLICT (hash) DO NOTHING`,
+    [readBreachedPasswords(file)]
+  );
+
+  return result.rowCount ?? 0;
+}
@@ -73,6 +73,136 @@ CREATE TABLE IF NOT EXISTS user_companies (
   UNIQUE(user_id, company_id)
 );
 
+-- ============================================
+-- INVITATIONS TABLE
+-- ============================================
+-- Membership is created only when the invitation is accepted
+-- (auth.accept_invitation), so pending invitations can be listed,
+-- resent and revoked without touching user_companies.
+CREATE TABLE IF NOT EXISTS invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+
+  -- Role and optional orgchart position granted on acceptance
+  -- (no FK: orgcharts is created later; validated by auth.invite_user)
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  position_id UUID,
+
+  invited_by TEXT REFERENCES users(_id) ON DELETE SET NULL,
+
+  -- SHA-256 of the 6-digit code sent by email (a new code on every resend);
+  -- NULL once 5 wrong codes voided it (auth.record_failed_invitation)
+  token_hash TEXT,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,  -- wrong codes since it was sent
+
+  -- Expired invitations stay 'pending' until expires_at is checked
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked')),
+
+  expires_at TIMESTAMP NOT NULL,
+  sent_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  accepted_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Add the wrong code counter if not exists
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invitations' AND column_name = 'failed_attempts'
+  ) THEN
+    ALTER TABLE invitations ADD COLUMN failed_attempts INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE invitations ALTER COLUMN token_hash DROP NOT NULL;
+  END IF;
+END $$;
+
+-- ============================================
+-- SINGLE SIGN-ON
+-- ============================================
+-- One OpenID Connect provider per company. Users with an email in
+-- allowed_domains can sign in through it (routes/sso.routes.ts) once the
+-- company has proven it owns the domain with a DNS TXT record
+-- (company.verify_sso_domain).
+CREATE TABLE IF NOT EXISTS company_sso (
+  company_id UUID PRIMARY KEY REFERENCES companies(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT FALSE,
+
+  issuer TEXT NOT NULL,
+  client_id TEXT NOT NULL,
+  -- Never returned by the API (company.get_sso_settings only says it is set)
+  client_secret TEXT NOT NULL,
+
+  -- Lower-case email domains; an enabled provider claims them exclusively
+  -- once verified
+  allowed_domains TEXT[] NOT NULL DEFAULT '{}',
+  verified_domains TEXT[] NOT NULL DEFAULT '{}',
+  domain_verification_token TEXT NOT NULL DEFAULT encode(gen_random_bytes(16), 'hex'),
+
+  -- Members with an email of these domains cannot sign in with a password
+  sso_required BOOLEAN NOT NULL DEFAULT FALSE,
+
+  updated_by TEXT REFERENCES users(_id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Accounts linked to a provider by the ID token subject, so a later change
+-- of the email at the provider still finds the same user
+CREATE TABLE IF NOT EXISTS sso_identities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  issuer TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  user_id TEXT NOT NULL REFERENCES users(_id) ON DELETE CASCADE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_login_at TIMESTAMP,
+
+  UNIQUE (company_id, issuer, subject)
+);
+
+-- Add domain verification columns if not exist
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'company_sso' AND column_name = 'verified_domains'
+  ) THEN
+    ALTER TABLE company_sso ADD COLUMN verified_domains TEXT[] NOT NULL DEFAULT '{}';
+    ALTER TABLE company_sso ADD COLUMN domain_verification_token TEXT NOT NULL DEFAULT encode(gen_random_bytes(16), 'hex');
+  END IF;
+END $$;
+
+-- ============================================
+-- API TOKENS
+-- ============================================
+-- Bearer credentials for the /api gateway (scripts, integrations). A token
+-- acts for its user in one company and only with the listed permissions.
+-- The token is shown once when it is created; only its SHA-256 is stored.
+-- Owners are people (personal access tokens) or the company's service
+-- accounts (users.is_service_account).
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(_id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+
+  -- "ak_" and the first characters of the token, to recognize it in lists
+  token_prefix TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+
+  -- Permission names, each held by the owner when the token was created
+  permissions TEXT[] NOT NULL,
+
+  created_by TEXT REFERENCES users(_id) ON DELETE SET NULL,
+  expires_at TIMESTAMP NOT NULL,
+  last_used_at TIMESTAMP,
+  last_used_ip INET,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
 -- ============================================
 -- INDEXES
 -- ============================================
@@ -91,6 +221,19 @@ CREATE INDEX IF NOT EXISTS idx_user_companies_company_id ON user_companies(compa
 CREATE INDEX IF NOT EXISTS idx_user_companies_role ON user_companies(role);
 CREATE INDEX IF NOT EXISTS idx_user_companies_user_company ON user_companies(user_id, company_id);
 
+-- One pending invitation per email and company
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invitations_pending
+  ON invitations(company_id, LOWER(email)) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_invitations_email ON invitations(LOWER(email));
+
+-- Provider lookup by the domain of the email signing in
+DROP INDEX IF EXISTS idx_company_sso_domains;
+CREATE INDEX IF NOT EXISTS idx_company_sso_verified_domains ON company_sso USING GIN (verified_domains) WHERE enabled = TRUE;
+CREATE INDEX IF NOT EXISTS idx_sso_identities_user ON sso_identities(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_api_tokens_company ON api_tokens(company_id);
+
 -- ============================================
 -- TRIGGERS
 -- ============================================
@@ -126,6 +269,25 @@ COMMENT ON COLUMN user_companies.company_id IS 'Reference to companies.id (UUID
 COMMENT ON COLUMN user_companies.role IS 'User role: owner, admin, or member';
 COMMENT ON COLUMN user_companies.joined_at IS 'Timestamp when user joined the company';
 
+COMMENT ON TABLE invitations IS 'Invitations to join a company; membership is created on acceptance';
+COMMENT ON COLUMN invitations.role IS 'Role granted on acceptance: admin or member';
+COMMENT ON COLUMN invitations.position_id IS 'Optional orgchart position (orgcharts.id) the user is appointed to on acceptance';
+COMMENT ON COLUMN invitations.token_hash IS 'SHA-256 hex of the invitation code';
+COMMENT ON COLUMN invitations.status IS 'pending, accepted or revoked; a pending invitation past expires_at is expired';
+
+COMMENT ON TABLE company_sso IS 'OpenID Connect provider of a company for single sign-on';
+COMMENT ON COLUMN company_sso.issuer IS 'OIDC issuer URL; endpoints come from its /.well-known/openid-configuration';
+COMMENT ON COLUMN company_sso.allowed_domains IS 'Lower-case email domains signing in through this provider';
+COMMENT ON COLUMN company_sso.verified_domains IS 'Domains of allowed_domains whose DNS carries the verification TXT record; only these sign in through SSO';
+COMMENT ON COLUMN company_sso.domain_verification_token IS 'Value of the ankey-domain-verification=<token> TXT record proving domain ownership';
+COMMENT ON COLUMN company_sso.sso_required IS 'Members with an email of verified_domains cannot sign in with a password (owners excepted)';
+
+COMMENT ON TABLE sso_identities IS 'Users linked to a company SSO provider by ID token subject';
+
+COMMENT ON TABLE api_tokens IS 'Personal access tokens and service account tokens for the API gateway';
+COMMENT ON COLUMN api_tokens.token_hash IS 'SHA-256 hex of the token; the token itself is never stored';
+COMMENT ON COLUMN api_tokens.permissions IS 'Permissions the token may use in company_id (a subset of the owner''s)';
+
 -- ============================================
 -- MIGRATION HELPER (if needed)
 -- ============================================
@@ -126,7 +126,12 @@ BEGIN
   ) INTO v_companies
   FROM user_companies uc
   JOIN companies c ON c.id = uc.company_id
-  WHERE uc.user_id = _user_id;
+  WHERE uc.user_id = _user_id
+    -- An impersonation session only sees the company it was started in
+    AND (
+      rbac.impersonator_id() IS NULL
+      OR c.id::TEXT = current_setting('app.current_company_id', TRUE)
+    );
 
   RETURN COALESCE(v_companies, '[]'::JSONB);
 END;
@@ -144,7 +149,7 @@ BEGIN
   SELECT * INTO v_company FROM companies WHERE id = _company_id;
 
   IF v_company.id IS NULL THEN
-    RAISE EXCEPTION 'Company not found';
+    RAISE EXCEPTION 'Company not found' USING ERRCODE = 'AK404';
   END IF;
 
   RETURN jsonb_build_object(
@@ -204,7 +209,7 @@ BEGIN
   SELECT * INTO v_company FROM companies WHERE id = _company_id;
 
   IF v_company.id IS NULL THEN
-    RAISE EXCEPTION 'Company not found';
+    RAISE EXCEPTION 'Company not found' USING ERRCODE = 'AK404';
   END IF;
 
   RETURN jsonb_build_object(
@@ -290,7 +295,7 @@ DECLARE
 BEGIN
   -- Validation
   IF _company_id IS NULL OR _company_id = '' THEN
-    RAISE EXCEPTION 'Company ID is required';
+    RAISE EXCEPTION 'Company ID is required' USING ERRCODE = 'AK422', COLUMN = 'company_id';
   END IF;
 
   -- Extract UUID from _id if needed (e.g., 'company_1234_uuid' -> 'uuid')
@@ -301,7 +306,7 @@ BEGIN
       v_uuid := _company_id::UUID;
     END IF;
   EXCEPTION WHEN OTHERS THEN
-    RAISE EXCEPTION 'Invalid company ID format: %', _company_id;
+    RAISE EXCEPTION 'Invalid company ID format: %', _company_id USING ERRCODE = 'AK422', COLUMN = 'company_id';
   END;
 
   SELECT jsonb_agg(
@@ -317,6 +322,9 @@ BEGIN
       'zipCode', u.profile->'zipCode',
       'country', u.profile->'country',
       'role', uc.role,
+      'customRole', CASE WHEN cr.id IS NOT NULL THEN jsonb_build_object(
+        'id', cr._id, 'name', cr.name, 'color', cr.color
+      ) END,
       'joinedAt', EXTRACT(EPOCH FROM uc.joined_at)::BIGINT * 1000,
       'position', o.title,
       'department', (
@@ -337,6 +345,7 @@ BEGIN
   ) INTO v_members
   FROM user_companies uc
   JOIN users u ON u._id = uc.user_id
+  LEFT JOIN custom_roles cr ON cr.id = uc.custom_role_id AND cr.is_active = TRUE
   LEFT JOIN orgcharts o ON o.appointee_user_id = u.id
     AND o.company_id = v_uuid
     AND o.type = 'position'
@@ -367,7 +376,7 @@ BEGIN
   WHERE user_id = _user_id AND company_id = _company_id;
 
   IF v_existing_count > 0 THEN
-    RAISE EXCEPTION 'User is already a member of this company';
+    RAISE EXCEPTION 'User is already a member of this company' USING ERRCODE = 'AK409';
   END IF;
 
   -- Add member
@@ -406,7 +415,7 @@ BEGIN
   WHERE user_id = _user_id AND company_id = _company_id;
 
   IF v_role IS NULL THEN
-    RAISE EXCEPTION 'User is not a member of this company';
+    RAISE EXCEPTION 'User is not a member of this company' USING ERRCODE = 'AK404';
   END IF;
 
   -- If owner, check if there's another owner
@@ -416,7 +425,7 @@ BEGIN
     WHERE company_id = _company_id AND role = 'owner';
 
     IF v_owner_count = 1 THEN
-      RAISE EXCEPTION 'Cannot remove the last owner. Transfer ownership first.';
+      RAISE EXCEPTION 'Cannot remove the last owner. Transfer ownership first.' USING ERRCODE = 'AK409';
     END IF;
   END IF;
 
@@ -448,7 +457,7 @@ BEGIN
   WHERE user_id = _user_id AND company_id = _company_id;
 
   IF v_old_role IS NULL THEN
-    RAISE EXCEPTION 'User is not a member of this company';
+    RAISE EXCEPTION 'User is not a member of this company' USING ERRCODE = 'AK404';
   END IF;
 
   -- If demoting from owner, check if there's another owner
@@ -458,13 +467,13 @@ BEGIN
     WHERE company_id = _company_id AND role = 'owner';
 
     IF v_owner_count = 1 THEN
-      RAISE EXCEPTION 'Cannot demote the last owner. Promote another user first.';
+      RAISE EXCEPTION 'Cannot demote the last owner. Promote another user first.' USING ERRCODE = 'AK409';
     END IF;
   END IF;
 
-  -- Update role
+  -- Update role (a base role replaces the member's custom role)
   UPDATE user_companies
-  SET role = _new_role
+  SET role = _new_role, custom_role_id = NULL
   WHERE user_id = _user_id AND company_id = _company_id;
 
   RETURN jsonb_build_object('success', TRUE, 'message', 'Role updated successfully');
@@ -491,7 +500,7 @@ BEGIN
   WHERE user_id = _current_owner_id AND company_id = _company_id;
 
   IF v_current_role != 'owner' THEN
-    RAISE EXCEPTION 'Current user is not the owner';
+    RAISE EXCEPTION 'Current user is not the owner' USING ERRCODE = 'AK403';
   END IF;
 
   -- Verify new owner is a member
@@ -501,7 +510,7 @@ BEGIN
   ) INTO v_new_member_exists;
 
   IF NOT v_new_member_exists THEN
-    RAISE EXCEPTION 'New owner is not a member of this company';
+    RAISE EXCEPTION 'New owner is not a member of this company' USING ERRCODE = 'AK422', COLUMN = 'new_owner_id';
   END IF;
 
   -- Demote current owner to admin
@@ -509,9 +518,9 @@ BEGIN
   SET role = 'admin'
   WHERE user_id = _current_owner_id AND company_id = _company_id;
 
-  -- Promote new owner
+  -- Promote new owner (owners have no custom role)
   UPDATE user_companies
-  SET role = 'owner'
+  SET role = 'owner', custom_role_id = NULL
   WHERE user_id = _new_owner_id AND company_id = _company_id;
 
   RETURN jsonb_build_object('success', TRUE, 'message', 'Ownership transferred successfully');
@@ -557,6 +566,586 @@ BEGIN
 END;
 $$;
 
+-- ============================================
+-- 14. GET INVITATIONS
+-- ============================================
+-- Pending invitations of a company (auth.invite_user creates them).
+-- Invitations past expires_at are listed with status 'expired' until resent or revoked.
+CREATE OR REPLACE FUNCTION company.get_invitations(_company_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_uuid UUID;
+  v_invitations JSONB;
+BEGIN
+  SELECT id INTO v_uuid FROM companies WHERE id::TEXT = _company_id OR _id = _company_id;
+
+  IF v_uuid IS NULL THEN
+    RAISE EXCEPTION 'Company not found' USING ERRCODE = 'AK404', COLUMN = 'company_id';
+  END IF;
+
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'id', i.id,
+      'email', i.email,
+      'role', i.role,
+      'positionId', i.position_id,
+      'position', o.title,
+      'invitedBy', CASE WHEN u._id IS NOT NULL THEN
+        jsonb_build_object('userId', u._id, 'fullname', u.fullname, 'email', u.email)
+      END,
+      'status', CASE WHEN i.expires_at <= NOW() THEN 'expired' ELSE i.status END,
+      'expiresAt', EXTRACT(EPOCH FROM i.expires_at)::BIGINT * 1000,
+      'sentAt', EXTRACT(EPOCH FROM i.sent_at)::BIGINT * 1000,
+      'createdAt', EXTRACT(EPOCH FROM i.created_at)::BIGINT * 1000
+    )
+    ORDER BY i.created_at DESC
+  ) INTO v_invitations
+  FROM invitations i
+  LEFT JOIN users u ON u._id = i.invited_by
+  LEFT JOIN orgcharts o ON o.id = i.position_id
+  WHERE i.company_id = v_uuid AND i.status = 'pending';
+
+  RETURN COALESCE(v_invitations, '[]'::JSONB);
+END;
+$$;
+
+-- ============================================
+-- 15. RESEND INVITATION
+-- ============================================
+-- Issues a new code (the old one stops working) and restarts the expiry.
+-- Returns the code for the invitation email, which the gateway sends and
+-- removes from the response.
+CREATE OR REPLACE FUNCTION company.resend_invitation(
+  _user_id TEXT,
+  _company_id TEXT,
+  _invitation_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_invitation RECORD;
+  v_invitation_code TEXT;
+  v_expires_at TIMESTAMP := NOW() + INTERVAL '7 days';
+BEGIN
+  SELECT i.* INTO v_invitation
+  FROM invitations i
+  JOIN companies c ON c.id = i.company_id
+  WHERE i.id = _invitation_id
+    AND i.status = 'pending'
+    AND (c.id::TEXT = _company_id OR c._id = _company_id);
+
+  IF v_invitation.id IS NULL THEN
+    RAISE EXCEPTION 'Invitation not found' USING ERRCODE = 'AK404', COLUMN = 'invitation_id';
+  END IF;
+
+  v_invitation_code := LPAD(FLOOR(RANDOM() * 1000000)::TEXT, 6, '0');
+
+  UPDATE invitations
+  SET token_hash = encode(digest(v_invitation_code, 'sha256'), 'hex'),
+      failed_attempts = 0,
+      expires_at = v_expires_at,
+      sent_at = NOW()
+  WHERE id = v_invitation.id;
+
+  PERFORM audit.log_action(
+    _user_id, 'INVITE', 'invitations', v_invitation.id::TEXT, v_invitation.company_id, NULL,
+    jsonb_build_object('email', v_invitation.email, 'resent', TRUE)
+  );
+
+  RETURN jsonb_build_object(
+    'email', v_invitation.email,
+    'invitationCode', v_invitation_code,
+    -- Invitees without a verified account set a password on acceptance
+    'isNewUser', NOT EXISTS (
+      SELECT 1 FROM users WHERE LOWER(email) = v_invitation.email AND verified = TRUE
+    ),
+    'expiresAt', EXTRACT(EPOCH FROM v_expires_at)::BIGINT * 1000
+  );
+END;
+$$;
+
+-- ============================================
+-- 16. REVOKE INVITATION
+-- ============================================
+CREATE OR REPLACE FUNCTION company.revoke_invitation(
+  _user_id TEXT,
+  _company_id TEXT,
+  _invitation_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_invitation RECORD;
+BEGIN
+  UPDATE invitations i
+  SET status = 'revoked'
+  FROM companies c
+  WHERE c.id = i.company_id
+    AND i.id = _invitation_id
+    AND i.status = 'pending'
+    AND (c.id::TEXT = _company_id OR c._id = _company_id)
+  RETURNING i.id, i.company_id, i.email INTO v_invitation;
+
+  IF v_invitation.id IS NULL THEN
+    RAISE EXCEPTION 'Invitation not found' USING ERRCODE = 'AK404', COLUMN = 'invitation_id';
+  END IF;
+
+  PERFORM audit.log_action(
+    _user_id, 'REVOKE_ACCESS', 'invitations', v_invitation.id::TEXT, v_invitation.company_id, NULL,
+    jsonb_build_object('email', v_invitation.email, 'status', 'revoked')
+  );
+
+  RETURN jsonb_build_object('success', TRUE, 'message', 'Invitation revoked');
+END;
+$$;
+
+-- ============================================
+-- 17. GET SSO SETTINGS
+-- ============================================
+-- The client secret is never returned, only whether one is stored.
+-- domainVerificationRecord is the TXT record that verifies a domain.
+CREATE OR REPLACE FUNCTION company.get_sso_settings(_company_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_company_id UUID;
+  v_sso RECORD;
+BEGIN
+  SELECT id INTO v_company_id
+  FROM companies
+  WHERE id::TEXT = _company_id OR _id = _company_id;
+
+  IF v_company_id IS NULL THEN
+    RAISE EXCEPTION 'Company not found' USING ERRCODE = 'AK404', COLUMN = 'company_id';
+  END IF;
+
+  SELECT * INTO v_sso FROM company_sso WHERE company_id = v_company_id;
+
+  RETURN jsonb_build_object(
+    'enabled', COALESCE(v_sso.enabled, FALSE),
+    'issuer', v_sso.issuer,
+    'clientId', v_sso.client_id,
+    'hasClientSecret', v_sso.client_secret IS NOT NULL,
+    'allowedDomains', to_jsonb(COALESCE(v_sso.allowed_domains, '{}'::TEXT[])),
+    'verifiedDomains', to_jsonb(COALESCE(v_sso.verified_domains, '{}'::TEXT[])),
+    'domainVerificationRecord', 'ankey-domain-verification=' || v_sso.domain_verification_token,
+    'ssoRequired', COALESCE(v_sso.sso_required, FALSE),
+    'updatedAt', EXTRACT(EPOCH FROM v_sso.updated_at)::BIGINT * 1000
+  );
+END;
+$$;
+
+-- ============================================
+-- 18. UPDATE SSO SETTINGS
+-- ============================================
+-- _client_secret NULL keeps the stored secret. A domain signs in through the
+-- provider only after company.verify_sso_domain; removing it drops the
+-- verification. A verified email domain can belong to one enabled provider only.
+CREATE OR REPLACE FUNCTION company.update_sso_settings(
+  _user_id TEXT,
+  _company_id TEXT,
+  _enabled BOOLEAN,
+  _issuer TEXT,
+  _client_id TEXT,
+  _client_secret TEXT DEFAULT NULL,
+  _allowed_domains TEXT[] DEFAULT '{}',
+  _sso_required BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_company_id UUID;
+  v_old RECORD;
+  v_issuer TEXT := TRIM(_issuer); -- compared with the ID token iss as is
+  v_client_secret TEXT := NULLIF(_client_secret, '');
+  v_domains TEXT[];
+  v_domain TEXT;
+  v_taken_by TEXT;
+BEGIN
+  SELECT id INTO v_company_id
+  FROM companies
+  WHERE id::TEXT = _company_id OR _id = _company_id;
+
+  IF v_company_id IS NULL THEN
+    RAISE EXCEPTION 'Company not found' USING ERRCODE = 'AK404', COLUMN = 'company_id';
+  END IF;
+
+  -- HTTPS only; plain HTTP is accepted for a provider on this machine (development).
+  -- The gateway also refuses private and loopback hosts (oidc.ts)
+  IF v_issuer IS NULL OR v_issuer !~ '^(https://[^/\s]+|http://(localhost|127\.0\.0\.1)(:[0-9]+)?)(/\S*)?$' THEN
+    RAISE EXCEPTION 'Issuer must be an https URL' USING ERRCODE = 'AK422', COLUMN = 'issuer';
+  END IF;
+
+  IF NULLIF(TRIM(_client_id), '') IS NULL THEN
+    RAISE EXCEPTION 'Client ID is required' USING ERRCODE = 'AK422', COLUMN = 'client_id';
+  END IF;
+
+  SELECT * INTO v_old FROM company_sso WHERE company_id = v_company_id;
+
+  IF v_client_secret IS NULL AND v_old.client_secret IS NULL THEN
+    RAISE EXCEPTION 'Client secret is required' USING ERRCODE = 'AK422', COLUMN = 'client_secret';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT d ORDER BY d), '{}') INTO v_domains
+  FROM (
+    SELECT LOWER(TRIM(LEADING '@' FROM TRIM(x))) AS d
+    FROM unnest(COALESCE(_allowed_domains, '{}')) AS x
+  ) domains
+  WHERE d <> '';
+
+  FOREACH v_domain IN ARRAY v_domains LOOP
+    IF v_domain !~ '^([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$' THEN
+      RAISE EXCEPTION 'Invalid email domain: %', v_domain
+        USING ERRCODE = 'AK422', COLUMN = 'allowed_domains';
+    END IF;
+  END LOOP;
+
+  IF _enabled AND cardinality(v_domains) = 0 THEN
+    RAISE EXCEPTION 'Add at least one email domain' USING ERRCODE = 'AK422', COLUMN = 'allowed_domains';
+  END IF;
+
+  IF _enabled THEN
+    SELECT d INTO v_taken_by
+    FROM company_sso s, unnest(s.verified_domains) AS d
+    WHERE s.enabled = TRUE
+      AND s.company_id <> v_company_id
+      AND d = ANY(v_domains)
+    LIMIT 1;
+
+    IF v_taken_by IS NOT NULL THEN
+      RAISE EXCEPTION 'Domain % already signs in through another company', v_taken_by
+        USING ERRCODE = 'AK409', COLUMN = 'allowed_domains';
+    END IF;
+  END IF;
+
+  INSERT INTO company_sso (
+    company_id, enabled, issuer, client_id, client_secret, allowed_domains, sso_required, updated_by
+  ) VALUES (
+    v_company_id, _enabled, v_issuer, TRIM(_client_id),
+    COALESCE(v_client_secret, v_old.client_secret), v_domains,
+    _enabled AND COALESCE(_sso_required, FALSE), _user_id
+  )
+  ON CONFLICT (company_id) DO UPDATE
+  SET enabled = EXCLUDED.enabled,
+      issuer = EXCLUDED.issuer,
+      client_id = EXCLUDED.client_id,
+      client_secret = EXCLUDED.client_secret,
+      allowed_domains = EXCLUDED.allowed_domains,
+      sso_required = EXCLUDED.sso_required,
+      verified_domains = ARRAY(
+        SELECT d FROM unnest(company_sso.verified_domains) AS d WHERE d = ANY(EXCLUDED.allowed_domains)
+      ),
+      updated_by = EXCLUDED.updated_by,
+      updated_at = NOW();
+
+  -- The secret stays out of the audit log
+  PERFORM audit.log_action(
+    _user_id, 'UPDATE', 'company_sso', v_company_id::TEXT, v_company_id,
+    CASE WHEN v_old.company_id IS NOT NULL THEN jsonb_build_object(
+      'enabled', v_old.enabled, 'issuer', v_old.issuer, 'clientId', v_old.client_id,
+      'allowedDomains', v_old.allowed_domains, 'ssoRequired', v_old.sso_required
+    ) END,
+    jsonb_build_object(
+      'enabled', _enabled, 'issuer', v_issuer, 'clientId', TRIM(_client_id),
+      'allowedDomains', v_domains, 'ssoRequired', _enabled AND COALESCE(_sso_required, FALSE),
+      'clientSecretChanged', v_client_secret IS NOT NULL
+    )
+  );
+
+  RETURN company.get_sso_settings(v_company_id::TEXT);
+END;
+$$;
+
+-- ============================================
+-- 18b. VERIFY SSO DOMAIN
+-- ============================================
+-- Anyone can type a domain into the settings; it only signs in through the
+-- provider once its DNS has the company's TXT record. The gateway looks the
+-- records up (_txt_records is never taken from the request body).
+CREATE OR REPLACE FUNCTION company.verify_sso_domain(
+  _user_id TEXT,
+  _company_id TEXT,
+  _domain TEXT,
+  _txt_records TEXT[] DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_company_id UUID;
+  v_sso RECORD;
+  v_domain TEXT := LOWER(TRIM(LEADING '@' FROM TRIM(_domain)));
+  v_verified TEXT[];
+BEGIN
+  SELECT id INTO v_company_id
+  FROM companies
+  WHERE id::TEXT = _company_id OR _id = _company_id;
+
+  IF v_company_id IS NULL THEN
+    RAISE EXCEPTION 'Company not found' USING ERRCODE = 'AK404', COLUMN = 'company_id';
+  END IF;
+
+  SELECT * INTO v_sso FROM company_sso WHERE company_id = v_company_id;
+
+  IF v_sso.company_id IS NULL OR NOT (v_domain = ANY(v_sso.allowed_domains)) THEN
+    RAISE EXCEPTION 'Add the domain to the single sign-on settings first' USING ERRCODE = 'AK404', COLUMN = 'domain';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM company_sso
+    WHERE enabled = TRUE AND company_id <> v_company_id AND v_domain = ANY(verified_domains)
+  ) THEN
+    RAISE EXCEPTION 'Domain % already signs in through another company', v_domain
+      USING ERRCODE = 'AK409', COLUMN = 'domain';
+  END IF;
+
+  IF NOT (('ankey-domain-verification=' || v_sso.domain_verification_token) = ANY(COALESCE(_txt_records, '{}'))) THEN
+    RAISE EXCEPTION 'TXT record not found on %, DNS changes can take a while to appear', v_domain
+      USING ERRCODE = 'AK422', COLUMN = 'domain';
+  END IF;
+
+  IF NOT (v_domain = ANY(v_sso.verified_domains)) THEN
+    v_verified := ARRAY(SELECT d FROM unnest(v_sso.verified_domains || v_domain) AS d ORDER BY d);
+
+    UPDATE company_sso
+    SET verified_domains = v_verified, updated_at = NOW()
+    WHERE company_id = v_company_id;
+
+    PERFORM audit.log_action(
+      _user_id, 'UPDATE', 'company_sso', v_company_id::TEXT, v_company_id,
+      jsonb_build_object('verifiedDomains', v_sso.verified_domains),
+      jsonb_build_object('verifiedDomains', v_verified)
+    );
+  END IF;
+
+  RETURN company.get_sso_settings(v_company_id::TEXT);
+END;
+$$;
+
+-- ============================================
+-- 19. SERVICE ACCOUNTS
+-- ============================================
+-- Company-owned users for integrations. They have no usable password and
+-- call the API with tokens the company admins create for them. Their
+-- permissions are grants (user_permissions) on top of the member role;
+-- nobody can hand out a permission they do not hold themselves.
+
+-- Service accounts of a company with their active tokens
+CREATE OR REPLACE FUNCTION company.get_service_accounts(_company_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_company_id UUID;
+BEGIN
+  SELECT id INTO v_company_id
+  FROM companies
+  WHERE id::TEXT = _company_id OR _id = _company_id;
+
+  IF v_company_id IS NULL THEN
+    RAISE EXCEPTION 'Company not found' USING ERRCODE = 'AK404', COLUMN = 'company_id';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', u._id,
+        'name', u.fullname,
+        'permissions', COALESCE((
+          SELECT jsonb_agg(p.name ORDER BY p.name)
+          FROM user_permissions up
+          JOIN permissions p ON p.id = up.permission_id
+          WHERE up.user_id = u._id
+            AND up.company_id = v_company_id
+            AND up.grant_type = 'grant'
+        ), '[]'::JSONB),
+        'tokens', COALESCE((
+          SELECT jsonb_agg(auth.api_token_json(t) ORDER BY t.created_at DESC)
+          FROM api_tokens t
+          WHERE t.user_id = u._id AND t.revoked_at IS NULL
+        ), '[]'::JSONB),
+        'createdAt', EXTRACT(EPOCH FROM u.created_at)::BIGINT * 1000
+      )
+      ORDER BY u.fullname
+    )
+    FROM users u
+    JOIN user_companies uc ON uc.user_id = u._id
+    WHERE uc.company_id = v_company_id AND u.is_service_account = TRUE
+  ), '[]'::JSONB);
+END;
+$$;
+
+-- Create a service account (a member of the company) with permission grants
+CREATE OR REPLACE FUNCTION company.create_service_account(
+  _user_id TEXT,
+  _company_id TEXT,
+  _name TEXT,
+  _permissions TEXT[] DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_company RECORD;
+  v_name TEXT := NULLIF(TRIM(_name), '');
+  v_account_id TEXT := 'user_' || EXTRACT(EPOCH FROM NOW())::BIGINT || '_' || gen_random_uuid()::TEXT;
+  v_permission TEXT;
+  v_permission_id UUID;
+BEGIN
+  SELECT id, _id INTO v_company
+  FROM companies
+  WHERE id::TEXT = _company_id OR _id = _company_id;
+
+  IF v_company.id IS NULL THEN
+    RAISE EXCEPTION 'Company not found' USING ERRCODE = 'AK404', COLUMN = 'company_id';
+  END IF;
+
+  IF v_name IS NULL OR length(v_name) > 100 THEN
+    RAISE EXCEPTION 'Name is required (up to 100 characters)' USING ERRCODE = 'AK422', COLUMN = 'name';
+  END IF;
+
+  -- Unreachable address (.invalid): password resets can never be delivered
+  INSERT INTO users (
+    _id, type, email, password, password_algo, fullname, verified, is_service_account
+  ) VALUES (
+    v_account_id, 'user',
+    'service-' || encode(gen_random_bytes(8), 'hex') || '@' || v_company._id || '.invalid',
+    auth.hash_password(encode(gen_random_bytes(32), 'hex')), 'bcrypt', v_name, TRUE, TRUE
+  );
+
+  INSERT INTO user_companies (_id, user_id, company_id, role)
+  VALUES ('uc_' || v_account_id || '_' || v_company.id::TEXT, v_account_id, v_company.id, 'member');
+
+  FOR v_permission IN
+    SELECT DISTINCT p FROM unnest(COALESCE(_permissions, '{}')) AS p WHERE p <> ''
+  LOOP
+    SELECT id INTO v_permission_id FROM permissions WHERE name = v_permission AND is_active = TRUE;
+
+    IF v_permission_id IS NULL OR NOT rbac.has_permission(_user_id, v_company.id, v_permission) THEN
+      RAISE EXCEPTION 'You cannot grant permission %', v_permission
+        USING ERRCODE = 'AK403', COLUMN = 'permissions';
+    END IF;
+
+    INSERT INTO user_permissions (user_id, company_id, permission_id, grant_type, granted_by, reason)
+    VALUES (v_account_id, v_company.id, v_permission_id, 'grant', _user_id, 'Service account');
+  END LOOP;
+
+  PERFORM audit.log_action(
+    _user_id, 'CREATE', 'users', v_account_id, v_company.id, NULL,
+    jsonb_build_object('name', v_name, 'serviceAccount', TRUE, 'permissions', _permissions)
+  );
+
+  RETURN jsonb_build_object('id', v_account_id, 'name', v_name);
+END;
+$$;
+
+-- Delete a service account with its tokens and grants
+CREATE OR REPLACE FUNCTION company.delete_service_account(
+  _user_id TEXT,
+  _company_id TEXT,
+  _service_account_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_company_id UUID;
+  v_account RECORD;
+BEGIN
+  SELECT id INTO v_company_id
+  FROM companies
+  WHERE id::TEXT = _company_id OR _id = _company_id;
+
+  SELECT u._id, u.fullname INTO v_account
+  FROM users u
+  JOIN user_companies uc ON uc.user_id = u._id
+  WHERE u._id = _service_account_id
+    AND u.is_service_account = TRUE
+    AND uc.company_id = v_company_id;
+
+  IF v_account._id IS NULL THEN
+    RAISE EXCEPTION 'Service account not found' USING ERRCODE = 'AK404', COLUMN = 'service_account_id';
+  END IF;
+
+  DELETE FROM users WHERE _id = v_account._id;
+
+  PERFORM audit.log_action(
+    _user_id, 'DELETE', 'users', v_account._id, v_company_id,
+    jsonb_build_object('name', v_account.fullname, 'serviceAccount', TRUE)
+  );
+
+  RETURN jsonb_build_object('success', TRUE);
+END;
+$$;
+
+-- Create a token for a service account. The caller must hold every
+-- permission as well, so a token never carries more than its creator has.
+CREATE OR REPLACE FUNCTION company.create_service_account_token(
+  _user_id TEXT,
+  _company_id TEXT,
+  _service_account_id TEXT,
+  _name TEXT,
+  _permissions TEXT[],
+  _expires_in_days INT DEFAULT 90
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_company_id UUID;
+  v_permission TEXT;
+BEGIN
+  SELECT id INTO v_company_id
+  FROM companies
+  WHERE id::TEXT = _company_id OR _id = _company_id;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM users u
+    JOIN user_companies uc ON uc.user_id = u._id
+    WHERE u._id = _service_account_id
+      AND u.is_service_account = TRUE
+      AND uc.company_id = v_company_id
+  ) THEN
+    RAISE EXCEPTION 'Service account not found' USING ERRCODE = 'AK404', COLUMN = 'service_account_id';
+  END IF;
+
+  FOREACH v_permission IN ARRAY COALESCE(_permissions, '{}') LOOP
+    IF NOT rbac.has_permission(_user_id, v_company_id, v_permission) THEN
+      RAISE EXCEPTION 'You cannot grant permission %', v_permission
+        USING ERRCODE = 'AK403', COLUMN = 'permissions';
+    END IF;
+  END LOOP;
+
+  RETURN auth.issue_api_token(
+    _service_account_id, v_company_id, _name, _permissions, _expires_in_days, _user_id
+  );
+END;
+$$;
+
+-- Revoke a token of one of the company's service accounts
+CREATE OR REPLACE FUNCTION company.revoke_service_account_token(
+  _user_id TEXT,
+  _company_id TEXT,
+  _token_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_owner_id TEXT;
+BEGIN
+  SELECT t.user_id INTO v_owner_id
+  FROM api_tokens t
+  JOIN users u ON u._id = t.user_id
+  JOIN companies c ON c.id = t.company_id
+  WHERE t.id = _token_id
+    AND u.is_service_account = TRUE
+    AND (c.id::TEXT = _company_id OR c._id = _company_id);
+
+  IF v_owner_id IS NULL OR NOT auth.end_api_token(_token_id, _user_id, v_owner_id) THEN
+    RAISE EXCEPTION 'API token not found' USING ERRCODE = 'AK404', COLUMN = 'token_id';
+  END IF;
+
+  RETURN jsonb_build_object('success', TRUE);
+END;
+$$;
+
 -- ============================================
 -- INDEXES (if not already created)
 -- ============================================
@@ -569,16 +1158,51 @@ CREATE INDEX IF NOT EXISTS idx_user_companies_role ON user_companies(role);
 -- ============================================
 -- COMMENTS
 -- ============================================
-COMMENT ON FUNCTION company.create_company IS 'Create a new company (workspace/supplier/customer)';
-COMMENT ON FUNCTION company.get_user_companies IS 'Get all companies for a user';
-COMMENT ON FUNCTION company.get_company_by_id IS 'Get company details by ID';
-COMMENT ON FUNCTION company.update_company IS 'Update company information';
-COMMENT ON FUNCTION company.delete_company IS 'Delete company and all associations';
-COMMENT ON FUNCTION company.has_access IS 'Check if user has access to company';
-COMMENT ON FUNCTION company.get_user_role IS 'Get user role in company';
-COMMENT ON FUNCTION company.get_company_members IS 'Get all members of a company';
-COMMENT ON FUNCTION company.add_member IS 'Add a member to company';
-COMMENT ON FUNCTION company.remove_member IS 'Remove member from company';
-COMMENT ON FUNCTION company.update_member_role IS 'Update member role';
-COMMENT ON FUNCTION company.transfer_ownership IS 'Transfer company ownership';
-COMMENT ON FUNCTION company.has_permission IS 'Check if user has required permission level';
+COMMENT ON FUNCTION company.create_company IS 'Create a new company (workspace/supplier/customer)
+@returns DB.Company';
+COMMENT ON FUNCTION company.get_user_companies IS 'Get all companies for a user
+@returns (DB.Company & { role: Company.CompanyRole })[]';
+COMMENT ON FUNCTION company.get_company_by_id IS 'Get company details by ID
+@returns DB.Company';
+COMMENT ON FUNCTION company.update_company IS 'Update company information
+@returns DB.Company';
+COMMENT ON FUNCTION company.delete_company IS 'Delete company and all associations
+@returns { success: boolean; message: string }';
+COMMENT ON FUNCTION company.has_access IS 'Check if user has access to company
+@returns { hasAccess: boolean }';
+COMMENT ON FUNCTION company.get_user_role IS 'Get user role in company
+@returns { role: Company.CompanyRole | null }';
+COMMENT ON FUNCTION company.get_company_members IS 'Get all members of a company
+@returns Company.CompanyMember[]';
+COMMENT ON FUNCTION company.add_member IS 'Add a member to company
+@returns { success: boolean; message: string }';
+COMMENT ON FUNCTION company.remove_member IS 'Remove member from company
+@returns { success: boolean; message: string }';
+COMMENT ON FUNCTION company.update_member_role IS 'Update member role
+@returns { success: boolean; message: string }';
+COMMENT ON FUNCTION company.transfer_ownership IS 'Transfer company ownership
+@returns { success: boolean; message: string }';
+COMMENT ON FUNCTION company.has_permission IS 'Check if user has required permission level
+@returns { hasPermission: boolean }';
+COMMENT ON FUNCTION company.get_invitations IS 'Get pending invitations of a company
+@returns Company.Invitation[]';
+COMMENT ON FUNCTION company.resend_invitation IS 'Issue a new invitation code and restart the expiry
+@returns Company.ResentInvitation';
+COMMENT ON FUNCTION company.revoke_invitation IS 'Revoke a pending invitation
+@returns { success: boolean; message: string }';
+COMMENT ON FUNCTION company.get_sso_settings IS 'Get the single sign-on provider settings (without the client secret)
+@returns Company.SsoSettings';
+COMMENT ON FUNCTION company.update_sso_settings IS 'Configure the single sign-on provider of a company
+@returns Company.SsoSettings';
+COMMENT ON FUNCTION company.verify_sso_domain IS 'Verify an SSO email domain by its DNS TXT record (looked up by the gateway)
+@returns Company.SsoSettings';
+COMMENT ON FUNCTION company.get_service_accounts IS 'Get the service accounts of a company with their active API tokens
+@returns Company.ServiceAccount[]';
+COMMENT ON FUNCTION company.create_service_account IS 'Create a service account with permission grants held by the caller
+@returns { id: string; name: string }';
+COMMENT ON FUNCTION company.delete_service_account IS 'Delete a service account with its API tokens
+@returns { success: boolean }';
+COMMENT ON FUNCTION company.create_service_account_token IS 'Create an API token for a service account (shown once)
+@returns Company.CreatedApiToken';
+COMMENT ON FUNCTION company.revoke_service_account_token IS 'Revoke an API token of a service account
+@returns { success: boolean }';
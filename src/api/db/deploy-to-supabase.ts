@@ -11,6 +11,8 @@ import { Pool } from 'pg';
 import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { loadBreachedPasswords } from './breached-passwords';
+import { loadDisposableEmailDomains } from './disposable-email-domains';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -101,6 +103,25 @@ async function deploy() {
       }
     }
 
+    // Data files
+    try {
+      const breached = await loadBreachedPasswords(client);
+      console.log(`✅ Breached password blocklist: ${breached} new entries\n`);
+    } catch (error: any) {
+      console.error(`❌ FAILED: breached password blocklist`);
+      console.error(`   Error: ${error.message}\n`);
+      failCount++;
+    }
+
+    try {
+      const disposable = await loadDisposableEmailDomains(client);
+      console.log(`✅ Disposable email domains: ${disposable.added} added, ${disposable.removed} removed\n`);
+    } catch (error: any) {
+      console.error(`❌ FAILED: disposable email domains`);
+      console.error(`   Error: ${error.message}\n`);
+      failCount++;
+    }
+
     console.log('─────────────────────────────────────');
     console.log('📊 Migration Summary:');
     console.log(`   ✅ Successful: ${successCount}`);
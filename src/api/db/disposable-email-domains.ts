@@ -0,0 +1,56 @@
+/**
+ * Disposable Email Domain Blocklist
+ *
+ * Loads disposable-email-domains.txt (one domain per line, `#` comments) into
+ * the disposable_email_domains table that auth.check_email_domain() consults.
+ * A domain also blocks its subdomains. Set DISPOSABLE_EMAIL_DOMAINS_FILE to
+ * use another list in the same format.
+ *
+ * Called by db:migrate and db:deploy:supabase after the SQL files. The table
+ * follows the file: domains removed from it are allowed again.
+ */
+
+import type { Pool, PoolClient } from 'pg';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export const DISPOSABLE_EMAIL_DOMAINS_FILE =
+  process.env.DISPOSABLE_EMAIL_DOMAINS_FILE || join(__dirname, 'disposable-email-domains.txt');
+
+/**
+ * Read the domains from a blocklist file (lowercased; comments and blank lines skipped)
+ */
+export function readDisposableEmailDomains(file = DISPOSABLE_EMAIL_DOMAINS_FILE): string[] {
+  return readFileSync(file, 'utf-8')
+    .split(/\r?\n/)
+    .map((line) => line.trim().toLowerCase())
+    .filter((line) => line && !line.startsWith('#'));
+}
+
+/**
+ * Make disposable_email_domains match the blocklist file
+ *
+ * @returns Number of added and removed domains
+ */
+export async function loadDisposableEmailDomains(
+  client: Pool | PoolClient,
+  file = DISPOSABLE_EMAIL_DOMAINS_FILE
+): Promise<{ added: number; removed: number }> {
+  const domains = readDisposableEmailDomains(file);
+
+  const removed = await client.query(
+    `DELETE FROM disposable_email_domains WHERE domain <> ALL($1::TEXT[])`,
+    [domains]
+  );
+  const added = await client.query(
+    `INSERT INTO disposable_email_domains (domain)
+     SELECT DISTINCT domain FROM unnest($1::TEXT[]) AS domain
+     ON CONFLICT (domain) DO NOTHING`,
+    [domains]
+  );
+
+  return { added: added.rowCount ?? 0, removed: removed.rowCount ?? 0 };
+}
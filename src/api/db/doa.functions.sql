@@ -166,7 +166,7 @@ BEGIN
   WHERE _id = _company_id;
 
   IF v_company_uuid IS NULL THEN
-    RAISE EXCEPTION 'Company not found: %', _company_id;
+    RAISE EXCEPTION 'Company not found: %', _company_id USING ERRCODE = 'AK404';
   END IF;
 
   SELECT jsonb_agg(
@@ -222,7 +222,7 @@ BEGIN
   WHERE _id = _company_id;
 
   IF v_company_uuid IS NULL THEN
-    RAISE EXCEPTION 'Company not found: %', _company_id;
+    RAISE EXCEPTION 'Company not found: %', _company_id USING ERRCODE = 'AK404';
   END IF;
 
   -- Get matrix by _id (text ID)
@@ -232,7 +232,7 @@ BEGIN
     AND _id = _matrix_id;
 
   IF v_matrix.id IS NULL THEN
-    RAISE EXCEPTION 'Matrix not found: %', _matrix_id;
+    RAISE EXCEPTION 'Matrix not found: %', _matrix_id USING ERRCODE = 'AK404';
   END IF;
 
   RETURN jsonb_build_object(
@@ -353,7 +353,7 @@ BEGIN
   WHERE _id = _company_id;
 
   IF v_company_uuid IS NULL THEN
-    RAISE EXCEPTION 'Company not found: %', _company_id;
+    RAISE EXCEPTION 'Company not found: %', _company_id USING ERRCODE = 'AK404';
   END IF;
 
   UPDATE approval_matrices
@@ -375,7 +375,7 @@ BEGIN
     AND _id = _matrix_id;
 
   IF v_matrix.id IS NULL THEN
-    RAISE EXCEPTION 'Matrix not found: %', _matrix_id;
+    RAISE EXCEPTION 'Matrix not found: %', _matrix_id USING ERRCODE = 'AK404';
   END IF;
 
   RETURN jsonb_build_object(
@@ -423,7 +423,7 @@ BEGIN
   WHERE _id = _company_id;
 
   IF v_company_uuid IS NULL THEN
-    RAISE EXCEPTION 'Company not found: %', _company_id;
+    RAISE EXCEPTION 'Company not found: %', _company_id USING ERRCODE = 'AK404';
   END IF;
 
   DELETE FROM approval_matrices
@@ -443,9 +443,17 @@ $$;
 -- COMMENTS
 -- ============================================
 COMMENT ON FUNCTION doa.initialize_default_matrices IS 'Initialize default DoA matrices for a new company';
-COMMENT ON FUNCTION doa.create_matrix IS 'Create a new approval matrix';
-COMMENT ON FUNCTION doa.get_matrices IS 'Get all approval matrices for a company';
-COMMENT ON FUNCTION doa.get_matrix IS 'Get a single approval matrix by ID';
-COMMENT ON FUNCTION doa.get_active_matrix_for_type IS 'Get active matrix for a document type (with optional amount filtering)';
-COMMENT ON FUNCTION doa.update_matrix IS 'Update an approval matrix';
-COMMENT ON FUNCTION doa.delete_matrix IS 'Delete an approval matrix';
+COMMENT ON FUNCTION doa.create_matrix IS 'Create a new approval matrix
+@param _approval_blocks DB.ApprovalBlock[]
+@returns DB.ApprovalMatrix';
+COMMENT ON FUNCTION doa.get_matrices IS 'Get all approval matrices for a company
+@returns DB.ApprovalMatrix[]';
+COMMENT ON FUNCTION doa.get_matrix IS 'Get a single approval matrix by ID
+@returns DB.ApprovalMatrix';
+COMMENT ON FUNCTION doa.get_active_matrix_for_type IS 'Get active matrix for a document type (with optional amount filtering)
+@returns DB.ApprovalMatrix | null';
+COMMENT ON FUNCTION doa.update_matrix IS 'Update an approval matrix
+@param _approval_blocks DB.ApprovalBlock[]
+@returns DB.ApprovalMatrix';
+COMMENT ON FUNCTION doa.delete_matrix IS 'Delete an approval matrix
+@returns { success: boolean; message: string }';
@@ -30,6 +30,18 @@ async function drop() {
 
     const tables = [
       'sessions',
+      'login_throttle',
+      'two_factor_challenges',
+      'two_factor_recovery_codes',
+      'trusted_devices',
+      'sso_login_states',
+      'password_history',
+      'breached_passwords',
+      'disposable_email_domains',
+      'email_change_requests',
+      'magic_links',
+      'signin_alerts',
+      'account_erasure_requests',
       'tasks',
       'approval_workflows',
       'approval_matrices',
@@ -37,6 +49,10 @@ async function drop() {
       'orgchart_approvals',
       'orgcharts',
       'inquiries',
+      'api_tokens',
+      'sso_identities',
+      'company_sso',
+      'invitations',
       'user_companies',
       'companies',
       'users',
@@ -0,0 +1,225 @@
+/**
+ * Function Registry - PostgreSQL catalog introspection
+ *
+ * Builds the list of callable functions for the /api/:fn gateway directly from
+ * pg_proc, so new SQL functions are available without touching TypeScript.
+ * Parameter names, order, types and defaults come from the function signature:
+ *
+ *   CREATE FUNCTION auth.signin(_email TEXT, _password TEXT, _ip_address TEXT DEFAULT NULL, ...)
+ *   -> "auth.signin": email (text), password (text), ip_address (text, optional), ...
+ *
+ * The registry is loaded at startup and reloaded on SIGHUP (see auth.routes.ts).
+ */
+
+import type { Pool } from "pg";
+
+/**
+ * Schemas whose functions are exposed through the gateway.
+ * Override with API_FUNCTION_SCHEMAS="auth,company,..." if needed.
+ */
+export const EXPOSED_SCHEMAS = (
+  process.env.API_FUNCTION_SCHEMAS ||
+  "auth,company,inquiry,orgchart,reference,users,doa,task,rbac"
+)
+  .split(",")
+  .map((schema) => schema.trim())
+  .filter(Boolean);
+
+export interface FunctionParameter {
+  /** API name (SQL name without the leading underscore), e.g. "user_id" */
+  name: string;
+  /** SQL argument name, e.g. "_user_id" */
+  sqlName: string;
+  /** SQL type as reported by format_type(), e.g. "text", "jsonb", "text[]" */
+  type: string;
+  /** TRUE when the argument has a DEFAULT and may be omitted */
+  hasDefault: boolean;
+}
+
+export interface FunctionDefinition {
+  /** Fully qualified name, e.g. "auth.signin" */
+  name: string;
+  schema: string;
+  params: FunctionParameter[];
+  returns: string;
+  description: string | null;
+}
+
+/**
+ * Raw row returned by the catalog query
+ */
+export interface FunctionCatalogRow {
+  schema: string;
+  name: string;
+  arg_names: string[] | null;
+  arg_modes: string[] | null;
+  arg_types: string[];
+  default_count: number;
+  return_type: string;
+  description: string | null;
+}
+
+const CATALOG_QUERY = `
+  SELECT
+    n.nspname AS schema,
+    p.proname AS name,
+    p.proargnames AS arg_names,
+    p.proargmodes::TEXT[] AS arg_modes,
+    ARRAY(
+      SELECT format_type(t.oid, NULL)
+      FROM unnest(p.proargtypes::OID[]) WITH ORDINALITY AS a(oid, pos)
+      JOIN pg_type t ON t.oid = a.oid
+      ORDER BY a.pos
+    ) AS arg_types,
+    p.pronargdefaults AS default_count,
+    format_type(p.prorettype, NULL) AS return_type,
+    obj_description(p.oid, 'pg_proc') AS description
+  FROM pg_proc p
+  JOIN pg_namespace n ON n.oid = p.pronamespace
+  WHERE n.nspname = ANY($1)
+    AND p.prokind = 'f'
+    AND p.prorettype <> 'trigger'::REGTYPE
+  ORDER BY n.nspname, p.proname
+`;
+
+let registry = new Map<string, FunctionDefinition>();
+let loadedAt: string | null = null;
+let pendingLoad: Promise<number> | null = null;
+
+/**
+ * Convert catalog rows into function definitions.
+ * Overloaded functions are not supported by the gateway - the variant with
+ * the most parameters wins and a warning is logged.
+ */
+export function buildFunctionRegistry(rows: FunctionCatalogRow[]): Map<string, FunctionDefinition> {
+  const result = new Map<string, FunctionDefinition>();
+
+  for (const row of rows) {
+    const allNames = row.arg_names || [];
+
+    // proargnames also lists OUT/TABLE arguments when proargmodes is set;
+    // proargtypes only contains input arguments, so keep names in sync with it
+    const inputNames = row.arg_modes
+      ? allNames.filter((_, i) => ["i", "b", "v"].includes(row.arg_modes![i]))
+      : allNames.slice(0, row.arg_types.length);
+
+    const name = `${row.schema}.${row.name}`;
+
+    // Named notation requires every argument to have a name
+    if (inputNames.length < row.arg_types.length || inputNames.some((argName) => !argName)) {
+      console.warn(`[Registry] Skipping ${name}: all parameters must be named`);
+      continue;
+    }
+
+    const firstDefault = row.arg_types.length - row.default_count;
+
+    const params = row.arg_types.map((type, i) => ({
+      name: inputNames[i].replace(/^_/, ""),
+      sqlName: inputNames[i],
+      type,
+      hasDefault: i >= firstDefault,
+    }));
+
+    const existing = result.get(name);
+
+    if (existing) {
+      console.warn(`[Registry] Overloaded function ${name} - using the signature with more parameters`);
+      if (existing.params.length >= params.length) continue;
+    }
+
+    result.set(name, {
+      name,
+      schema: row.schema,
+      params,
+      returns: row.return_type,
+      description: row.description,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Load (or reload) the registry from the database
+ */
+export async function loadFunctionRegistry(pool: Pool): Promise<number> {
+  const result = await pool.query<FunctionCatalogRow>(CATALOG_QUERY, [EXPOSED_SCHEMAS]);
+
+  registry = buildFunctionRegistry(result.rows);
+  loadedAt = new Date().toISOString();
+
+  console.log(`[Registry] Loaded ${registry.size} functions from schemas: ${EXPOSED_SCHEMAS.join(", ")}`);
+
+  return registry.size;
+}
+
+/**
+ * Load the registry once; concurrent callers share the same query.
+ * A failed load is retried on the next call.
+ */
+export async function ensureFunctionRegistry(pool: Pool): Promise<void> {
+  if (loadedAt) return;
+
+  if (!pendingLoad) {
+    pendingLoad = loadFunctionRegistry(pool).finally(() => {
+      pendingLoad = null;
+    });
+  }
+
+  await pendingLoad;
+}
+
+/**
+ * Get a single function definition by fully qualified name
+ */
+export function getFunctionDefinition(name: string): FunctionDefinition | undefined {
+  return registry.get(name);
+}
+
+/**
+ * Serializable snapshot of the registry for the discovery endpoint
+ */
+export function getFunctionRegistry() {
+  return {
+    loadedAt,
+    schemas: EXPOSED_SCHEMAS,
+    functions: Object.fromEntries(registry),
+  };
+}
+
+/**
+ * Build a parameterized SELECT for a function call.
+ *
+ * Uses named notation (_email => $1) so parameter order never matters and
+ * omitted optional parameters fall back to their SQL DEFAULT. Required
+ * parameters missing from the body are passed as NULL, letting the SQL
+ * function produce its own validation error.
+ */
+export function buildFunctionCall(
+  definition: FunctionDefinition,
+  body: Record<string, unknown>
+): { query: string; values: unknown[] } {
+  const args: string[] = [];
+  const values: unknown[] = [];
+
+  for (const param of definition.params) {
+    const provided = body[param.name] !== undefined;
+
+    if (!provided && param.hasDefault) continue;
+
+    let value = provided ? body[param.name] : null;
+
+    // node-postgres serializes JS arrays as PostgreSQL arrays, which breaks JSONB arguments
+    if ((param.type === "jsonb" || param.type === "json") && value !== null && typeof value !== "string") {
+      value = JSON.stringify(value);
+    }
+
+    values.push(value);
+    args.push(`${param.sqlName} => $${values.length}::${param.type}`);
+  }
+
+  return {
+    query: `SELECT ${definition.name}(${args.join(", ")}) AS result`,
+    values,
+  };
+}
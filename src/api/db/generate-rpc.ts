@@ -0,0 +1,170 @@
+/**
+ * RPC Client Generator - typed wrappers for PostgreSQL functions
+ *
+ * Reads function signatures and COMMENT ON FUNCTION annotations from the SQL
+ * files in this directory and writes src/lib/rpc.generated.ts. Only functions
+ * exposed by the gateway (FUNCTION_POLICIES) are included.
+ *
+ * Usage: bun run db:generate-rpc
+ */
+
+import { readFileSync, readdirSync, writeFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { FUNCTION_POLICIES, getFunctionPolicy } from '../middleware/function-policy';
+import {
+  parseFunctionComments,
+  parseSqlFunctions,
+  sqlTypeToTs,
+  type SqlFunction,
+  type SqlFunctionComment,
+} from './sql-signatures';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const OUTPUT = join(__dirname, '../../lib/rpc.generated.ts');
+
+/**
+ * Namespaces annotations may use, with the module each one is imported from
+ */
+const TYPE_NAMESPACES: Record<string, string> = {
+  DB: '@/modules/shared/types/database.types',
+  Company: '@/modules/company/company.types',
+  Inquiry: '@/modules/inquiry/inquiry.types',
+  OrgChart: '@/modules/htr/orgchart/orgchart.types',
+};
+
+/**
+ * Parameter object type for one function
+ */
+function renderParams(fn: SqlFunction, comment: SqlFunctionComment | undefined, indent: string): string {
+  if (fn.params.length === 0) return 'Record<string, never>';
+
+  const policy = getFunctionPolicy(fn.name);
+  const actor = policy?.access === 'public' ? null : policy?.actor === undefined ? 'user_id' : policy.actor;
+
+  const lines = fn.params.map((param) => {
+    const name = param.sqlName.replace(/^_/, '');
+    const type = comment?.params[param.sqlName] || sqlTypeToTs(param.type);
+
+    if (name === actor) {
+      return `${indent}  /** Injected by the gateway from the session */\n${indent}  ${name}?: ${type};`;
+    }
+
+    return param.hasDefault
+      ? `${indent}  ${name}?: ${type} | null;`
+      : `${indent}  ${name}: ${type};`;
+  });
+
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function renderResult(fn: SqlFunction, comment: SqlFunctionComment | undefined): string {
+  if (comment?.returns) return comment.returns;
+  if (fn.returns === 'TABLE') return 'Record<string, unknown>[]';
+  if (fn.returns.startsWith('SETOF ')) return `${sqlTypeToTs(fn.returns.slice(6))}[]`;
+  return sqlTypeToTs(fn.returns);
+}
+
+function generate() {
+  const files = readdirSync(__dirname)
+    .filter((file) => file.endsWith('.sql'))
+    .sort();
+
+  const functions = new Map<string, SqlFunction>();
+  const comments: Record<string, SqlFunctionComment> = {};
+
+  for (const file of files) {
+    const sql = readFileSync(join(__dirname, file), 'utf-8');
+
+    for (const fn of parseSqlFunctions(sql)) {
+      // Overloads are not supported by the gateway - keep the longest signature
+      const existing = functions.get(fn.name);
+      if (!existing || existing.params.length <= fn.params.length) {
+        functions.set(fn.name, fn);
+      }
+    }
+
+    Object.assign(comments, parseFunctionComments(sql));
+  }
+
+  const exposed = [...functions.values()]
+    .filter((fn) => getFunctionPolicy(fn.name))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const missing = Object.keys(FUNCTION_POLICIES).filter(
+    (name) => !name.endsWith('.*') && !functions.has(name)
+  );
+  if (missing.length > 0) {
+    console.warn(`Policies without SQL definition: ${missing.join(', ')}`);
+  }
+
+  const interfaceEntries = exposed.map((fn) => {
+    const comment = comments[fn.name];
+    const doc = comment?.description ? `  /** ${comment.description} */\n` : '';
+    return `${doc}  "${fn.name}": {\n    params: ${renderParams(fn, comment, '    ')};\n    result: ${renderResult(fn, comment)};\n  };`;
+  });
+
+  const schemas = [...new Set(exposed.map((fn) => fn.name.split('.')[0]))];
+  const wrapperEntries = schemas.map((schema) => {
+    const members = exposed
+      .filter((fn) => fn.name.startsWith(`${schema}.`))
+      .map((fn) => {
+        const method = fn.name.slice(schema.length + 1);
+        const doc = comments[fn.name]?.description ? `    /** ${comments[fn.name].description} */\n` : '';
+        return fn.params.length === 0
+          ? `${doc}    ${method}: () => callRpc("${fn.name}", {}),`
+          : `${doc}    ${method}: (params: RpcParams<"${fn.name}">) => callRpc("${fn.name}", params),`;
+      });
+    return `  ${schema}: {\n${members.join('\n')}\n  },`;
+  });
+
+  const body = interfaceEntries.join('\n') + wrapperEntries.join('\n');
+  const typeImports = Object.entries(TYPE_NAMESPACES)
+    .filter(([namespace]) => new RegExp(`\\b${namespace}\\.`).test(body))
+    .map(([namespace, module]) => `import type * as ${namespace} from "${module}";\n`)
+    .join('');
+
+  const output = `/**
+ * Typed RPC client for PostgreSQL functions
+ *
+ * AUTO-GENERATED by src/api/db/generate-rpc.ts from the SQL function
+ * signatures and COMMENT ON FUNCTION annotations - do not edit by hand.
+ * Regenerate after changing SQL functions: bun run db:generate-rpc
+ */
+
+import { callFunction } from "@/lib/api";
+${typeImports}
+export interface RpcFunctions {
+${interfaceEntries.join('\n')}
+}
+
+export type RpcFunctionName = keyof RpcFunctions;
+export type RpcParams<K extends RpcFunctionName> = RpcFunctions[K]["params"];
+export type RpcResult<K extends RpcFunctionName> = RpcFunctions[K]["result"];
+
+/**
+ * Call a PostgreSQL function with typed parameters and result
+ */
+export function callRpc<K extends RpcFunctionName>(
+  functionName: K,
+  params: RpcParams<K>
+): Promise<RpcResult<K>> {
+  return callFunction(functionName, params);
+}
+
+/**
+ * Wrappers grouped by schema: rpc.doa.get_matrix({ company_id, matrix_id })
+ */
+export const rpc = {
+${wrapperEntries.join('\n')}
+};
+`;
+
+  writeFileSync(OUTPUT, output);
+
+  console.log(`Generated ${exposed.length} RPC wrappers: ${OUTPUT}`);
+}
+
+generate();
@@ -116,7 +116,7 @@ DECLARE
 BEGIN
   -- Validate status
   IF _status NOT IN ('pending', 'in-progress', 'resolved', 'closed') THEN
-    RAISE EXCEPTION 'Invalid status. Must be one of: pending, in-progress, resolved, closed';
+    RAISE EXCEPTION 'Invalid status. Must be one of: pending, in-progress, resolved, closed' USING ERRCODE = 'AK422', COLUMN = 'status';
   END IF;
 
   -- Update inquiry
@@ -129,7 +129,7 @@ BEGIN
   RETURNING * INTO v_inquiry;
 
   IF v_inquiry.id IS NULL THEN
-    RAISE EXCEPTION 'Inquiry not found';
+    RAISE EXCEPTION 'Inquiry not found' USING ERRCODE = 'AK404';
   END IF;
 
   RETURN jsonb_build_object(
@@ -286,7 +286,7 @@ BEGIN
   IF v_deleted THEN
     RETURN jsonb_build_object('success', TRUE, 'message', 'Inquiry deleted successfully');
   ELSE
-    RAISE EXCEPTION 'Inquiry not found';
+    RAISE EXCEPTION 'Inquiry not found' USING ERRCODE = 'AK404';
   END IF;
 END;
 $$;
@@ -355,10 +355,17 @@ CREATE INDEX IF NOT EXISTS idx_inquiries__id ON inquiries(_id);
 -- ============================================
 -- COMMENTS
 -- ============================================
-COMMENT ON FUNCTION inquiry.create_inquiry IS 'Create a new inquiry from contact form';
-COMMENT ON FUNCTION inquiry.get_inquiry_by_id IS 'Get inquiry details by ID';
-COMMENT ON FUNCTION inquiry.update_status IS 'Update inquiry status and optionally add response';
-COMMENT ON FUNCTION inquiry.get_all_inquiries IS 'Get all inquiries with pagination (admin)';
-COMMENT ON FUNCTION inquiry.get_inquiries_by_email IS 'Get all inquiries for specific email';
-COMMENT ON FUNCTION inquiry.delete_inquiry IS 'Delete inquiry by ID';
-COMMENT ON FUNCTION inquiry.get_statistics IS 'Get inquiry statistics for dashboard';
+COMMENT ON FUNCTION inquiry.create_inquiry IS 'Create a new inquiry from contact form
+@returns Inquiry.Inquiry';
+COMMENT ON FUNCTION inquiry.get_inquiry_by_id IS 'Get inquiry details by ID
+@returns Inquiry.Inquiry | null';
+COMMENT ON FUNCTION inquiry.update_status IS 'Update inquiry status and optionally add response
+@returns Inquiry.Inquiry';
+COMMENT ON FUNCTION inquiry.get_all_inquiries IS 'Get all inquiries with pagination (admin)
+@returns Inquiry.InquiryPage';
+COMMENT ON FUNCTION inquiry.get_inquiries_by_email IS 'Get all inquiries for specific email
+@returns Inquiry.Inquiry[]';
+COMMENT ON FUNCTION inquiry.delete_inquiry IS 'Delete inquiry by ID
+@returns { success: boolean; message: string }';
+COMMENT ON FUNCTION inquiry.get_statistics IS 'Get inquiry statistics for dashboard
+@returns Inquiry.InquiryStatistics';
@@ -8,6 +8,8 @@ import { Pool } from 'pg';
 import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { loadBreachedPasswords } from './breached-passwords';
+import { loadDisposableEmailDomains } from './disposable-email-domains';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -59,7 +61,11 @@ const migrations = [
   // 10. Users functions
   'users.functions.sql',
 
-  // 11. Audit triggers (MUST be last - after all tables are created)
+  // 11. RBAC (permissions, role mappings, has_permission - used by the API gateway)
+  'rbac.definition.sql',
+  'rbac.functions.sql',
+
+  // 12. Audit triggers (MUST be last - after all tables are created)
   'audit.triggers.sql',
 ];
 
@@ -87,6 +93,13 @@ async function migrate() {
       }
     }
 
+    // Data files
+    const breached = await loadBreachedPasswords(client);
+    console.log(`Breached password blocklist: ${breached} new entries\n`);
+
+    const disposable = await loadDisposableEmailDomains(client);
+    console.log(`Disposable email domains: ${disposable.added} added, ${disposable.removed} removed\n`);
+
     console.log('Migration completed successfully!');
     console.log(`Total files executed: ${migrations.length}\n`);
 
@@ -35,7 +35,7 @@ BEGIN
   WHERE _id = _company_id;
 
   IF v_company_uuid IS NULL THEN
-    RAISE EXCEPTION 'Company not found: %', _company_id;
+    RAISE EXCEPTION 'Company not found: %', _company_id USING ERRCODE = 'AK404';
   END IF;
 
   -- Lookup user UUID from _id (TEXT)
@@ -44,12 +44,12 @@ BEGIN
   WHERE _id = _user_id;
 
   IF v_user_uuid IS NULL THEN
-    RAISE EXCEPTION 'User not found: %', _user_id;
+    RAISE EXCEPTION 'User not found: %', _user_id USING ERRCODE = 'AK404';
   END IF;
 
   -- Validate status
   IF _status NOT IN ('draft', 'pending_approval', 'approved', 'revoked') THEN
-    RAISE EXCEPTION 'Invalid status. Must be one of: draft, pending_approval, approved, revoked';
+    RAISE EXCEPTION 'Invalid status. Must be one of: draft, pending_approval, approved, revoked' USING ERRCODE = 'AK422', COLUMN = 'status';
   END IF;
 
   -- Auto-calculate next version if not provided
@@ -149,7 +149,7 @@ BEGIN
   WHERE _id = _company_id;
 
   IF v_company_uuid IS NULL THEN
-    RAISE EXCEPTION 'Company not found: %', _company_id;
+    RAISE EXCEPTION 'Company not found: %', _company_id USING ERRCODE = 'AK404';
   END IF;
 
   -- Lookup user UUID from _id (TEXT)
@@ -158,14 +158,16 @@ BEGIN
   WHERE _id = _user_id;
 
   IF v_user_uuid IS NULL THEN
-    RAISE EXCEPTION 'User not found: %', _user_id;
+    RAISE EXCEPTION 'User not found: %', _user_id USING ERRCODE = 'AK404';
   END IF;
 
-  -- Get parent level
-  SELECT level INTO v_parent_level FROM orgcharts WHERE id = _parent_id;
+  -- Get parent level (the parent must belong to the same company)
+  SELECT level INTO v_parent_level
+  FROM orgcharts
+  WHERE id = _parent_id AND company_id = v_company_uuid;
 
   IF v_parent_level IS NULL THEN
-    RAISE EXCEPTION 'Parent not found';
+    RAISE EXCEPTION 'Parent not found' USING ERRCODE = 'AK404';
   END IF;
 
   -- Build metadata JSONB
@@ -291,7 +293,7 @@ BEGIN
   WHERE _id = _company_id;
 
   IF v_company_uuid IS NULL THEN
-    RAISE EXCEPTION 'Company not found: %', _company_id;
+    RAISE EXCEPTION 'Company not found: %', _company_id USING ERRCODE = 'AK404';
   END IF;
 
   -- Lookup user UUID from _id (TEXT)
@@ -300,13 +302,15 @@ BEGIN
   WHERE _id = _user_id;
 
   IF v_user_uuid IS NULL THEN
-    RAISE EXCEPTION 'User not found: %', _user_id;
+    RAISE EXCEPTION 'User not found: %', _user_id USING ERRCODE = 'AK404';
   END IF;
 
-  SELECT level INTO v_parent_level FROM orgcharts WHERE id = _parent_id;
+  SELECT level INTO v_parent_level
+  FROM orgcharts
+  WHERE id = _parent_id AND company_id = v_company_uuid;
 
   IF v_parent_level IS NULL THEN
-    RAISE EXCEPTION 'Parent department not found';
+    RAISE EXCEPTION 'Parent department not found' USING ERRCODE = 'AK404';
   END IF;
 
   -- Build metadata JSONB
@@ -408,7 +412,7 @@ BEGIN
   WHERE _id = _company_id;
 
   IF v_company_uuid IS NULL THEN
-    RAISE EXCEPTION 'Company not found: %', _company_id;
+    RAISE EXCEPTION 'Company not found: %', _company_id USING ERRCODE = 'AK404';
   END IF;
 
   -- Lookup acting user UUID from _id (TEXT)
@@ -417,7 +421,7 @@ BEGIN
   WHERE _id = _acting_user_id;
 
   IF v_acting_user_uuid IS NULL THEN
-    RAISE EXCEPTION 'Acting user not found: %', _acting_user_id;
+    RAISE EXCEPTION 'Acting user not found: %', _acting_user_id USING ERRCODE = 'AK404';
   END IF;
 
   -- Lookup appointee user UUID from _id (TEXT)
@@ -426,18 +430,20 @@ BEGIN
   WHERE _id = _user_id;
 
   IF v_user_uuid IS NULL THEN
-    RAISE EXCEPTION 'Appointee user not found: %', _user_id;
+    RAISE EXCEPTION 'Appointee user not found: %', _user_id USING ERRCODE = 'AK404';
   END IF;
 
   -- Check if position exists and is vacant
-  SELECT * INTO v_position FROM orgcharts WHERE id = _position_id AND type = 'position';
+  SELECT * INTO v_position
+  FROM orgcharts
+  WHERE id = _position_id AND company_id = v_company_uuid AND type = 'position';
 
   IF v_position.id IS NULL THEN
-    RAISE EXCEPTION 'Position not found';
+    RAISE EXCEPTION 'Position not found' USING ERRCODE = 'AK404';
   END IF;
 
   IF v_position.is_vacant = FALSE THEN
-    RAISE EXCEPTION 'Position is already filled';
+    RAISE EXCEPTION 'Position is already filled' USING ERRCODE = 'AK409';
   END IF;
 
   -- Get orgchart_id (root parent)
@@ -541,7 +547,7 @@ BEGIN
   WHERE _id = _company_id;
 
   IF v_company_uuid IS NULL THEN
-    RAISE EXCEPTION 'Company not found: %', _company_id;
+    RAISE EXCEPTION 'Company not found: %', _company_id USING ERRCODE = 'AK404';
   END IF;
 
   -- Lookup acting user UUID from _id (TEXT)
@@ -550,16 +556,18 @@ BEGIN
   WHERE _id = _acting_user_id;
 
   IF v_acting_user_uuid IS NULL THEN
-    RAISE EXCEPTION 'Acting user not found: %', _acting_user_id;
+    RAISE EXCEPTION 'Acting user not found: %', _acting_user_id USING ERRCODE = 'AK404';
   END IF;
-  SELECT * INTO v_position FROM orgcharts WHERE id = _position_id AND type = 'position';
+  SELECT * INTO v_position
+  FROM orgcharts
+  WHERE id = _position_id AND company_id = v_company_uuid AND type = 'position';
 
   IF v_position.id IS NULL THEN
-    RAISE EXCEPTION 'Position not found';
+    RAISE EXCEPTION 'Position not found' USING ERRCODE = 'AK404';
   END IF;
 
   IF v_position.is_vacant = TRUE THEN
-    RAISE EXCEPTION 'Position is already vacant';
+    RAISE EXCEPTION 'Position is already vacant' USING ERRCODE = 'AK409';
   END IF;
 
   -- Save old appointment data for audit
@@ -632,7 +640,7 @@ BEGIN
   WHERE _id = _company_id;
 
   IF v_company_uuid IS NULL THEN
-    RAISE EXCEPTION 'Company not found: %', _company_id;
+    RAISE EXCEPTION 'Company not found: %', _company_id USING ERRCODE = 'AK404';
   END IF;
 
   WITH RECURSIVE org_tree AS (
@@ -744,7 +752,17 @@ BEGIN
   SELECT * INTO v_node FROM orgcharts WHERE id = _node_id;
 
   IF v_node.id IS NULL THEN
-    RAISE EXCEPTION 'Node not found';
+    RAISE EXCEPTION 'Node not found' USING ERRCODE = 'AK404';
+  END IF;
+
+  -- No company argument: check the company that owns the node
+  PERFORM rbac.require_permission(v_node.company_id, 'orgchart.update');
+
+  IF _reports_to_position_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM orgcharts
+    WHERE id = _reports_to_position_id AND company_id = v_node.company_id
+  ) THEN
+    RAISE EXCEPTION 'Reports-to position not found' USING ERRCODE = 'AK404', COLUMN = 'reports_to_position_id';
   END IF;
 
   -- Update compensation_data if any salary fields provided
@@ -819,14 +837,17 @@ BEGIN
   SELECT * INTO v_node FROM orgcharts WHERE id = _node_id;
 
   IF v_node.id IS NULL THEN
-    RAISE EXCEPTION 'Node not found';
+    RAISE EXCEPTION 'Node not found' USING ERRCODE = 'AK404';
   END IF;
 
+  -- No company argument: check the company that owns the node
+  PERFORM rbac.require_permission(v_node.company_id, 'orgchart.update');
+
   -- Check for children
   SELECT COUNT(*) INTO v_child_count FROM orgcharts WHERE parent_id = _node_id;
 
   IF v_child_count > 0 AND _cascade = FALSE THEN
-    RAISE EXCEPTION 'Cannot delete node with children. Use cascade option or delete children first.';
+    RAISE EXCEPTION 'Cannot delete node with children. Use cascade option or delete children first.' USING ERRCODE = 'AK409';
   END IF;
 
   -- Delete (CASCADE will handle children if foreign key is set)
@@ -864,13 +885,14 @@ BEGIN
   WHERE _id = _company_id;
 
   IF v_company_uuid IS NULL THEN
-    RAISE EXCEPTION 'Company not found: %', _company_id;
+    RAISE EXCEPTION 'Company not found: %', _company_id USING ERRCODE = 'AK404';
   END IF;
 
   SELECT jsonb_agg(
     jsonb_build_object(
       'id', id,
       'title', title,
+      'description', description,
       'code', code,
       'version', version,
       'status', status,
@@ -892,11 +914,24 @@ $$;
 CREATE OR REPLACE FUNCTION orgchart.update_status(_orgchart_id UUID, _status TEXT)
 RETURNS JSONB
 LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_company_uuid UUID;
 BEGIN
   IF _status NOT IN ('draft', 'pending_approval', 'approved', 'revoked') THEN
-    RAISE EXCEPTION 'Invalid status';
+    RAISE EXCEPTION 'Invalid status' USING ERRCODE = 'AK422', COLUMN = 'status';
+  END IF;
+
+  SELECT company_id INTO v_company_uuid
+  FROM orgcharts
+  WHERE id = _orgchart_id AND type = 'orgchart';
+
+  IF v_company_uuid IS NULL THEN
+    RAISE EXCEPTION 'Orgchart not found' USING ERRCODE = 'AK404';
   END IF;
 
+  -- No company argument: check the company that owns the orgchart
+  PERFORM rbac.require_permission(v_company_uuid, 'orgchart.update');
+
   UPDATE orgcharts
   SET status = _status, updated_at = NOW()
   WHERE id = _orgchart_id AND type = 'orgchart';
@@ -930,7 +965,7 @@ BEGIN
   WHERE _id = _company_id;
 
   IF v_company_uuid IS NULL THEN
-    RAISE EXCEPTION 'Company not found: %', _company_id;
+    RAISE EXCEPTION 'Company not found: %', _company_id USING ERRCODE = 'AK404';
   END IF;
 
   -- Get source orgchart
@@ -939,7 +974,7 @@ BEGIN
   WHERE id = _orgchart_id AND company_id = v_company_uuid AND type = 'orgchart';
 
   IF v_source_orgchart.id IS NULL THEN
-    RAISE EXCEPTION 'Source orgchart not found';
+    RAISE EXCEPTION 'Source orgchart not found' USING ERRCODE = 'AK404';
   END IF;
 
   -- Calculate next version
@@ -1002,6 +1037,28 @@ $$;
 -- ============================================
 -- COMMENTS
 -- ============================================
+-- Company of a position, after checking orgchart.read there (functions that
+-- take only a position id)
+CREATE OR REPLACE FUNCTION orgchart.require_position_access(_position_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_company_uuid UUID;
+BEGIN
+  SELECT company_id INTO v_company_uuid
+  FROM orgcharts
+  WHERE id = _position_id AND type = 'position';
+
+  IF v_company_uuid IS NULL THEN
+    RAISE EXCEPTION 'Position not found' USING ERRCODE = 'AK404';
+  END IF;
+
+  PERFORM rbac.require_permission(v_company_uuid, 'orgchart.read');
+
+  RETURN v_company_uuid;
+END;
+$$;
+
 -- ============================================
 -- 12. GET APPOINTMENT HISTORY FOR POSITION
 -- ============================================
@@ -1011,6 +1068,8 @@ LANGUAGE plpgsql SECURITY DEFINER AS $$
 DECLARE
   v_history JSONB;
 BEGIN
+  PERFORM orgchart.require_position_access(_position_id);
+
   SELECT jsonb_agg(
     jsonb_build_object(
       'id', id,
@@ -1040,8 +1099,11 @@ CREATE OR REPLACE FUNCTION orgchart.get_direct_reports(_position_id UUID)
 RETURNS JSONB
 LANGUAGE plpgsql SECURITY DEFINER AS $$
 DECLARE
+  v_company_uuid UUID;
   v_reports JSONB;
 BEGIN
+  v_company_uuid := orgchart.require_position_access(_position_id);
+
   SELECT jsonb_agg(
     jsonb_build_object(
       'id', o.id,
@@ -1053,7 +1115,8 @@ BEGIN
     ORDER BY o.title
   ) INTO v_reports
   FROM orgcharts o
-  WHERE o.type = 'position'
+  WHERE o.company_id = v_company_uuid
+    AND o.type = 'position'
     AND o.is_vacant = FALSE
     AND (o.appointment_data->>'reports_to_position_id')::UUID = _position_id;
 
@@ -1068,8 +1131,11 @@ CREATE OR REPLACE FUNCTION orgchart.get_reporting_chain(_position_id UUID)
 RETURNS JSONB
 LANGUAGE plpgsql SECURITY DEFINER AS $$
 DECLARE
+  v_company_uuid UUID;
   v_chain JSONB;
 BEGIN
+  v_company_uuid := orgchart.require_position_access(_position_id);
+
   WITH RECURSIVE reporting_chain AS (
     -- Base case: start with the given position
     SELECT
@@ -1095,6 +1161,7 @@ BEGIN
     FROM orgcharts o
     INNER JOIN reporting_chain rc ON o.id = rc.reports_to_id
     WHERE rc.depth < 20  -- Prevent infinite loops
+      AND o.company_id = v_company_uuid
   )
   SELECT jsonb_agg(
     jsonb_build_object(
@@ -1144,7 +1211,7 @@ BEGIN
   WHERE _id = _company_id;
 
   IF v_company_uuid IS NULL THEN
-    RAISE EXCEPTION 'Company not found: %', _company_id;
+    RAISE EXCEPTION 'Company not found: %', _company_id USING ERRCODE = 'AK404';
   END IF;
 
   -- Lookup acting user UUID from _id (TEXT)
@@ -1153,32 +1220,32 @@ BEGIN
   WHERE _id = _acting_user_id;
 
   IF v_acting_user_uuid IS NULL THEN
-    RAISE EXCEPTION 'Acting user not found: %', _acting_user_id;
+    RAISE EXCEPTION 'Acting user not found: %', _acting_user_id USING ERRCODE = 'AK404';
   END IF;
   -- Get source position
   SELECT * INTO v_from_position
   FROM orgcharts
-  WHERE id = _from_position_id AND type = 'position';
+  WHERE id = _from_position_id AND company_id = v_company_uuid AND type = 'position';
 
   IF v_from_position.id IS NULL THEN
-    RAISE EXCEPTION 'Source position not found';
+    RAISE EXCEPTION 'Source position not found' USING ERRCODE = 'AK404';
   END IF;
 
   IF v_from_position.is_vacant = TRUE THEN
-    RAISE EXCEPTION 'Source position is vacant';
+    RAISE EXCEPTION 'Source position is vacant' USING ERRCODE = 'AK409';
   END IF;
 
   -- Get destination position
   SELECT * INTO v_to_position
   FROM orgcharts
-  WHERE id = _to_position_id AND type = 'position';
+  WHERE id = _to_position_id AND company_id = v_company_uuid AND type = 'position';
 
   IF v_to_position.id IS NULL THEN
-    RAISE EXCEPTION 'Destination position not found';
+    RAISE EXCEPTION 'Destination position not found' USING ERRCODE = 'AK404';
   END IF;
 
   IF v_to_position.is_vacant = FALSE THEN
-    RAISE EXCEPTION 'Destination position is already filled';
+    RAISE EXCEPTION 'Destination position is already filled' USING ERRCODE = 'AK409';
   END IF;
 
   -- Extract user info from source position
@@ -1267,7 +1334,7 @@ BEGIN
   WHERE _id = _company_id;
 
   IF v_company_uuid IS NULL THEN
-    RAISE EXCEPTION 'Company not found: %', _company_id;
+    RAISE EXCEPTION 'Company not found: %', _company_id USING ERRCODE = 'AK404';
   END IF;
 
   -- Lookup acting user UUID from _id (TEXT)
@@ -1276,19 +1343,19 @@ BEGIN
   WHERE _id = _acting_user_id;
 
   IF v_acting_user_uuid IS NULL THEN
-    RAISE EXCEPTION 'Acting user not found: %', _acting_user_id;
+    RAISE EXCEPTION 'Acting user not found: %', _acting_user_id USING ERRCODE = 'AK404';
   END IF;
   -- Get position
   SELECT * INTO v_position
   FROM orgcharts
-  WHERE id = _position_id AND type = 'position';
+  WHERE id = _position_id AND company_id = v_company_uuid AND type = 'position';
 
   IF v_position.id IS NULL THEN
-    RAISE EXCEPTION 'Position not found';
+    RAISE EXCEPTION 'Position not found' USING ERRCODE = 'AK404';
   END IF;
 
   IF v_position.is_vacant = TRUE THEN
-    RAISE EXCEPTION 'Position is vacant';
+    RAISE EXCEPTION 'Position is vacant' USING ERRCODE = 'AK409';
   END IF;
 
   -- Save old data for audit
@@ -1337,19 +1404,35 @@ $$;
 -- ============================================
 -- COMMENTS
 -- ============================================
-COMMENT ON FUNCTION orgchart.create_orgchart(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) IS 'Create root organizational chart';
-COMMENT ON FUNCTION orgchart.create_department(TEXT, TEXT, UUID, TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT[], TEXT[], TEXT[]) IS 'Create department (auto-creates head position)';
-COMMENT ON FUNCTION orgchart.create_position(TEXT, TEXT, UUID, TEXT, TEXT, INTEGER, INTEGER, TEXT, TEXT, TEXT, TEXT[], TEXT[], TEXT[], TEXT[]) IS 'Create position within department';
-COMMENT ON FUNCTION orgchart.create_appointment(TEXT, TEXT, UUID, TEXT, TEXT, TEXT, UUID, INTEGER, TIMESTAMP, TEXT[], TEXT[]) IS 'Appoint user to position';
-COMMENT ON FUNCTION orgchart.remove_appointment(TEXT, TEXT, UUID, TEXT) IS 'Remove appointment from position';
-COMMENT ON FUNCTION orgchart.get_tree(TEXT, UUID) IS 'Get complete orgchart tree with all descendants';
-COMMENT ON FUNCTION orgchart.update_node(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, INTEGER, INTEGER, TEXT, TEXT, TEXT, UUID) IS 'Update any node (orgchart/department/position)';
-COMMENT ON FUNCTION orgchart.delete_node(UUID, BOOLEAN) IS 'Delete node (with optional cascade)';
-COMMENT ON FUNCTION orgchart.get_all_orgcharts(TEXT) IS 'Get all orgcharts for company';
-COMMENT ON FUNCTION orgchart.update_status(UUID, TEXT) IS 'Update orgchart status (approval workflow)';
-COMMENT ON FUNCTION orgchart.duplicate_orgchart(TEXT, UUID, TEXT) IS 'Duplicate orgchart with auto-incremented version';
-COMMENT ON FUNCTION orgchart.get_appointment_history(UUID) IS 'Get appointment history for a position';
-COMMENT ON FUNCTION orgchart.get_direct_reports(UUID) IS 'Get direct reports for a position (hierarchical reporting)';
-COMMENT ON FUNCTION orgchart.get_reporting_chain(UUID) IS 'Get full reporting chain from position to top';
-COMMENT ON FUNCTION orgchart.transfer_appointment(TEXT, TEXT, UUID, UUID, TEXT, UUID, JSONB) IS 'Transfer appointment from one position to another';
-COMMENT ON FUNCTION orgchart.update_job_offer(TEXT, TEXT, UUID, JSONB) IS 'Update job offer for current appointment';
+COMMENT ON FUNCTION orgchart.create_orgchart(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) IS 'Create root organizational chart
+@returns OrgChart.CreatedOrgChart';
+COMMENT ON FUNCTION orgchart.create_department(TEXT, TEXT, UUID, TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT[], TEXT[], TEXT[]) IS 'Create department (auto-creates head position)
+@returns OrgChart.CreatedDepartment';
+COMMENT ON FUNCTION orgchart.create_position(TEXT, TEXT, UUID, TEXT, TEXT, INTEGER, INTEGER, TEXT, TEXT, TEXT, TEXT[], TEXT[], TEXT[], TEXT[]) IS 'Create position within department
+@returns OrgChart.CreatedPosition';
+COMMENT ON FUNCTION orgchart.create_appointment(TEXT, TEXT, UUID, TEXT, TEXT, TEXT, UUID, INTEGER, TIMESTAMP, TEXT[], TEXT[]) IS 'Appoint user to position
+@returns OrgChart.CreatedAppointment';
+COMMENT ON FUNCTION orgchart.remove_appointment(TEXT, TEXT, UUID, TEXT) IS 'Remove appointment from position
+@returns { success: boolean; message: string; endReason: OrgChart.AppointmentEndReason }';
+COMMENT ON FUNCTION orgchart.get_tree(TEXT, UUID) IS 'Get complete orgchart tree with all descendants
+@returns OrgChart.OrgChartNode[]';
+COMMENT ON FUNCTION orgchart.update_node(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, INTEGER, INTEGER, TEXT, TEXT, TEXT, UUID) IS 'Update any node (orgchart/department/position)
+@returns OrgChart.UpdatedNode';
+COMMENT ON FUNCTION orgchart.delete_node(UUID, BOOLEAN) IS 'Delete node (with optional cascade)
+@returns { success: boolean; message: string }';
+COMMENT ON FUNCTION orgchart.get_all_orgcharts(TEXT) IS 'Get all orgcharts for company
+@returns OrgChart.OrgChartSummary[]';
+COMMENT ON FUNCTION orgchart.update_status(UUID, TEXT) IS 'Update orgchart status (approval workflow)
+@returns { success: boolean; status: OrgChart.OrgChartStatus }';
+COMMENT ON FUNCTION orgchart.duplicate_orgchart(TEXT, UUID, TEXT) IS 'Duplicate orgchart with auto-incremented version
+@returns OrgChart.CreatedOrgChart';
+COMMENT ON FUNCTION orgchart.get_appointment_history(UUID) IS 'Get appointment history for a position
+@returns OrgChart.AppointmentHistory[]';
+COMMENT ON FUNCTION orgchart.get_direct_reports(UUID) IS 'Get direct reports for a position (hierarchical reporting)
+@returns OrgChart.DirectReport[]';
+COMMENT ON FUNCTION orgchart.get_reporting_chain(UUID) IS 'Get full reporting chain from position to top
+@returns OrgChart.ReportingChainLink[]';
+COMMENT ON FUNCTION orgchart.transfer_appointment(TEXT, TEXT, UUID, UUID, TEXT, UUID, JSONB) IS 'Transfer appointment from one position to another
+@returns OrgChart.TransferredAppointment';
+COMMENT ON FUNCTION orgchart.update_job_offer(TEXT, TEXT, UUID, JSONB) IS 'Update job offer for current appointment
+@returns { success: boolean; message: string; appointmentData: OrgChart.AppointmentData }';
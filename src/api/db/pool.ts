@@ -0,0 +1,33 @@
+/**
+ * Shared PostgreSQL connection pool for the API server
+ *
+ * Route handlers never query the pool directly: they use the request's
+ * connection from getDb(c), which dbContextMiddleware checks out and prepares
+ * with the caller's user/company context (rbac.set_user_context). That way RLS
+ * policies and audit triggers see the same context as the function call.
+ */
+
+import type { Context } from "hono";
+import { Pool, type PoolClient } from "pg";
+
+export const pool = new Pool({
+  connectionString: process.env.DATABASE_URL || "postgresql://localhost:5432/ankey",
+});
+
+pool.on("error", (error) => {
+  // Idle client errors (e.g. server restart) must not crash the API process
+  console.error("[DB] Idle client error:", error.message);
+});
+
+/**
+ * Get the request-scoped connection (checked out on first use)
+ */
+export async function getDb(c: Context): Promise<PoolClient> {
+  const connect: (() => Promise<PoolClient>) | undefined = c.get("db");
+
+  if (!connect) {
+    throw new Error("dbContextMiddleware is not installed for this route");
+  }
+
+  return connect();
+}
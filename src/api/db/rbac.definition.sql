@@ -139,10 +139,13 @@ CREATE INDEX IF NOT EXISTS idx_user_permissions_active ON user_permissions(user_
   WHERE (expires_at IS NULL OR expires_at > NOW());
 
 -- ================================================
--- Table: custom_roles (Optional - For Future)
+-- Table: custom_roles
 -- ================================================
 -- Custom roles with flexible permissions
 -- Allows companies to define their own roles (e.g., "Project Manager", "Accountant")
+-- A custom role has every permission of its base role plus its own
+-- (custom_role_permissions). Members keep the base role in user_companies.role,
+-- see rbac.assign_custom_role
 -- ================================================
 
 CREATE TABLE IF NOT EXISTS custom_roles (
@@ -208,6 +211,8 @@ BEGIN
 END $$;
 
 -- Update CHECK constraint to include 'guest' role
+-- (replaces the inline CHECK from company.definition.sql)
+ALTER TABLE user_companies DROP CONSTRAINT IF EXISTS user_companies_role_check;
 ALTER TABLE user_companies DROP CONSTRAINT IF EXISTS valid_role;
 ALTER TABLE user_companies ADD CONSTRAINT valid_role CHECK (role IN ('owner', 'admin', 'member', 'guest'));
 
@@ -269,7 +274,8 @@ ON CONFLICT (name) DO NOTHING;
 -- Auth Module Permissions
 INSERT INTO permissions (name, description, module, action, risk_level, min_role_level) VALUES
   ('auth.manage_users', 'Manage user accounts', 'auth', 'manage', 'high', 2),
-  ('auth.view_users', 'View user information', 'auth', 'read', 'low', 1)
+  ('auth.view_users', 'View user information', 'auth', 'read', 'low', 1),
+  ('auth.impersonate', 'Sign in as a member to see what they see', 'auth', 'impersonate', 'critical', 3)
 ON CONFLICT (name) DO NOTHING;
 
 -- Inquiry Module Permissions (if exists)
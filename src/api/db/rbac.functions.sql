@@ -6,16 +6,86 @@
 -- Created: 2025-10-30
 -- ================================================
 
+-- ================================================
+-- Function: rbac.permission_source
+-- ================================================
+-- Where a user's permission in a company comes from, in priority order:
+-- 1. user_permissions (explicit grant/revoke) - HIGHEST priority: 'grant' / 'revoke'
+-- 2. custom_role permissions (if an active custom role is assigned): 'custom_role'
+-- 3. base role permissions (fallback) - the custom role's base_role
+--    when one is assigned, otherwise user_companies.role: 'role'
+--
+-- Returns: NULL when the user does not have it (or is not a member)
+-- ================================================
+
+CREATE OR REPLACE FUNCTION rbac.permission_source(
+  _user_id TEXT,
+  _company_id UUID,
+  _permission_id UUID
+)
+RETURNS TEXT
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_user_company RECORD;
+  v_user_override TEXT;
+BEGIN
+  SELECT cr.id AS custom_role_id, COALESCE(cr.base_role, uc.role) AS base_role
+  INTO v_user_company
+  FROM user_companies uc
+  LEFT JOIN custom_roles cr ON cr.id = uc.custom_role_id
+    AND cr.company_id = uc.company_id
+    AND cr.is_active = TRUE
+  WHERE uc.user_id = _user_id AND uc.company_id = _company_id;
+
+  IF v_user_company.base_role IS NULL THEN
+    RETURN NULL; -- User not in company
+  END IF;
+
+  -- 1. Overrides
+  SELECT grant_type INTO v_user_override
+  FROM user_permissions
+  WHERE user_id = _user_id
+    AND company_id = _company_id
+    AND permission_id = _permission_id
+    AND (expires_at IS NULL OR expires_at > NOW());
+
+  IF v_user_override IS NOT NULL THEN
+    RETURN v_user_override;
+  END IF;
+
+  -- 2. Custom role permissions
+  IF v_user_company.custom_role_id IS NOT NULL AND EXISTS(
+    SELECT 1 FROM custom_role_permissions crp
+    WHERE crp.custom_role_id = v_user_company.custom_role_id
+      AND crp.permission_id = _permission_id
+  ) THEN
+    RETURN 'custom_role';
+  END IF;
+
+  -- 3. Base role permissions
+  IF EXISTS(
+    SELECT 1 FROM role_permissions rp
+    WHERE rp.role = v_user_company.base_role
+      AND rp.permission_id = _permission_id
+  ) THEN
+    RETURN 'role';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
 -- ================================================
 -- Function: rbac.has_permission
 -- ================================================
 -- Check if a user has a specific permission in a company
 -- This is the MAIN permission checking function used throughout the system
 --
--- Priority order:
--- 1. Check user_permissions (explicit grant/revoke) - HIGHEST priority
--- 2. Check custom_role permissions (if custom role assigned)
--- 3. Check base role permissions (fallback)
+-- Priority order: see rbac.permission_source (overrides, then custom role,
+-- then base role).
+--
+-- While impersonating (rbac.impersonator_id() is set) high and critical
+-- risk permissions are never granted.
 --
 -- Returns: TRUE if user has permission, FALSE otherwise
 -- ================================================
@@ -28,23 +98,11 @@ CREATE OR REPLACE FUNCTION rbac.has_permission(
 RETURNS BOOLEAN
 LANGUAGE plpgsql SECURITY DEFINER AS $$
 DECLARE
-  v_user_company RECORD;
   v_permission_id UUID;
-  v_has_permission BOOLEAN := FALSE;
-  v_user_override TEXT;
+  v_risk_level TEXT;
 BEGIN
-  -- 1. Check if user is member of company
-  SELECT uc.role, uc.custom_role_id
-  INTO v_user_company
-  FROM user_companies uc
-  WHERE uc.user_id = _user_id AND uc.company_id = _company_id;
-
-  IF v_user_company.role IS NULL THEN
-    RETURN FALSE; -- User not in company
-  END IF;
-
-  -- 2. Get permission ID
-  SELECT id INTO v_permission_id
+  -- 1. Get permission ID
+  SELECT id, risk_level INTO v_permission_id, v_risk_level
   FROM permissions
   WHERE name = _permission_name AND is_active = TRUE;
 
@@ -52,45 +110,48 @@ BEGIN
     RETURN FALSE; -- Permission doesn't exist
   END IF;
 
-  -- 3. Check user_permissions (overrides)
-  SELECT grant_type INTO v_user_override
-  FROM user_permissions
-  WHERE user_id = _user_id
-    AND company_id = _company_id
-    AND permission_id = v_permission_id
-    AND (expires_at IS NULL OR expires_at > NOW());
-
-  -- Explicit revoke
-  IF v_user_override = 'revoke' THEN
+  -- High-risk actions stay with the real user
+  IF rbac.impersonator_id() IS NOT NULL AND v_risk_level IN ('high', 'critical') THEN
     RETURN FALSE;
   END IF;
 
-  -- Explicit grant
-  IF v_user_override = 'grant' THEN
-    RETURN TRUE;
-  END IF;
+  -- 2. Overrides, custom role, base role
+  RETURN COALESCE(
+    rbac.permission_source(_user_id, _company_id, v_permission_id) IN ('grant', 'custom_role', 'role'),
+    FALSE
+  );
+END;
+$$;
 
-  -- 4. Check custom_role permissions (if assigned)
-  IF v_user_company.custom_role_id IS NOT NULL THEN
-    SELECT EXISTS(
-      SELECT 1 FROM custom_role_permissions crp
-      WHERE crp.custom_role_id = v_user_company.custom_role_id
-        AND crp.permission_id = v_permission_id
-    ) INTO v_has_permission;
+-- ================================================
+-- Function: rbac.require_permission
+-- ================================================
+-- Raise AK403 unless the request user (rbac.set_user_context) has the
+-- permission in the company. For functions that take a row id: the gateway
+-- checks the company named by the caller, this checks the company that owns
+-- the row.
+-- Impersonation sessions and API tokens are bound to the request company
+-- (app.current_company_id): rows of any other company are refused even when
+-- the user is a member there.
+-- ================================================
 
-    IF v_has_permission THEN
-      RETURN TRUE;
-    END IF;
+CREATE OR REPLACE FUNCTION rbac.require_permission(
+  _company_id UUID,
+  _permission_name TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF (rbac.impersonator_id() IS NOT NULL OR rbac.api_token_id() IS NOT NULL)
+    AND _company_id IS DISTINCT FROM NULLIF(current_setting('app.current_company_id', TRUE), '')::UUID THEN
+    RAISE EXCEPTION 'Permission denied: % outside the session company', _permission_name
+      USING ERRCODE = 'AK403', DETAIL = jsonb_build_object('permission', _permission_name)::TEXT;
   END IF;
 
-  -- 5. Check base role permissions
-  SELECT EXISTS(
-    SELECT 1 FROM role_permissions rp
-    WHERE rp.role = v_user_company.role
-      AND rp.permission_id = v_permission_id
-  ) INTO v_has_permission;
-
-  RETURN v_has_permission;
+  IF NOT rbac.has_permission(NULLIF(current_setting('app.user_id', TRUE), ''), _company_id, _permission_name) THEN
+    RAISE EXCEPTION 'Permission denied: %', _permission_name
+      USING ERRCODE = 'AK403', DETAIL = jsonb_build_object('permission', _permission_name)::TEXT;
+  END IF;
 END;
 $$;
 
@@ -98,7 +159,7 @@ $$;
 -- Function: rbac.get_user_permissions
 -- ================================================
 -- Get all permissions for a user in a company
--- Returns: JSONB with role and list of permissions
+-- Returns: JSONB with role, custom role and list of permissions
 -- ================================================
 
 CREATE OR REPLACE FUNCTION rbac.get_user_permissions(
@@ -111,10 +172,15 @@ DECLARE
   v_result JSONB;
   v_user_company RECORD;
 BEGIN
-  -- Get user's role and custom_role
-  SELECT role, custom_role_id INTO v_user_company
-  FROM user_companies
-  WHERE user_id = _user_id AND company_id = _company_id;
+  -- Get user's role and active custom_role (see rbac.has_permission)
+  SELECT uc.role, cr.id AS custom_role_id, cr._id AS custom_role_text_id, cr.name AS custom_role_name,
+    cr.color AS custom_role_color, COALESCE(cr.base_role, uc.role) AS base_role
+  INTO v_user_company
+  FROM user_companies uc
+  LEFT JOIN custom_roles cr ON cr.id = uc.custom_role_id
+    AND cr.company_id = uc.company_id
+    AND cr.is_active = TRUE
+  WHERE uc.user_id = _user_id AND uc.company_id = _company_id;
 
   IF v_user_company.role IS NULL THEN
     RETURN jsonb_build_object(
@@ -135,7 +201,7 @@ BEGIN
       'role' AS source
     FROM role_permissions rp
     JOIN permissions p ON p.id = rp.permission_id
-    WHERE rp.role = v_user_company.role AND p.is_active = TRUE
+    WHERE rp.role = v_user_company.base_role AND p.is_active = TRUE
 
     UNION
 
@@ -184,6 +250,12 @@ BEGIN
     'company_id', _company_id,
     'role', v_user_company.role,
     'custom_role_id', v_user_company.custom_role_id,
+    'custom_role', CASE WHEN v_user_company.custom_role_id IS NOT NULL THEN jsonb_build_object(
+      'id', v_user_company.custom_role_text_id,
+      'name', v_user_company.custom_role_name,
+      'color', v_user_company.custom_role_color,
+      'base_role', v_user_company.base_role
+    ) END,
     'permissions', COALESCE(
       jsonb_agg(
         jsonb_build_object(
@@ -200,7 +272,9 @@ BEGIN
     )
   ) INTO v_result
   FROM all_permissions ap
-  WHERE ap.name NOT IN (SELECT name FROM revoked_permissions);
+  WHERE ap.name NOT IN (SELECT name FROM revoked_permissions)
+    -- Blocked while impersonating (see rbac.has_permission)
+    AND NOT (rbac.impersonator_id() IS NOT NULL AND ap.risk_level IN ('high', 'critical'));
 
   RETURN v_result;
 END;
@@ -210,7 +284,8 @@ $$;
 -- Function: rbac.grant_permission
 -- ================================================
 -- Grant a specific permission to a user
--- Only users with 'company.change_roles' permission can grant permissions
+-- Only users with 'company.change_roles' permission can grant permissions,
+-- and only permissions they have themselves (like custom roles)
 -- ================================================
 
 CREATE OR REPLACE FUNCTION rbac.grant_permission(
@@ -229,7 +304,7 @@ DECLARE
 BEGIN
   -- 1. Check if _granted_by has permission to change roles
   IF NOT rbac.has_permission(_granted_by, _company_id, 'company.change_roles') THEN
-    RAISE EXCEPTION 'Permission denied: You do not have permission to grant permissions';
+    RAISE EXCEPTION 'Permission denied: You do not have permission to grant permissions' USING ERRCODE = 'AK403', DETAIL = '{"permission": "company.change_roles"}';
   END IF;
 
   -- 2. Check if target user is member of company
@@ -237,7 +312,7 @@ BEGIN
     SELECT 1 FROM user_companies
     WHERE user_id = _user_id AND company_id = _company_id
   ) THEN
-    RAISE EXCEPTION 'User % is not a member of company %', _user_id, _company_id;
+    RAISE EXCEPTION 'User % is not a member of company %', _user_id, _company_id USING ERRCODE = 'AK404';
   END IF;
 
   -- 3. Get permission ID and details
@@ -247,11 +322,20 @@ BEGIN
   WHERE name = _permission_name AND is_active = TRUE;
 
   IF v_permission_record.id IS NULL THEN
-    RAISE EXCEPTION 'Permission not found: %', _permission_name;
+    RAISE EXCEPTION 'Permission not found: %', _permission_name USING ERRCODE = 'AK404';
   END IF;
 
   v_permission_id := v_permission_record.id;
 
+  IF NOT rbac.has_permission(_granted_by, _company_id, _permission_name) THEN
+    RAISE EXCEPTION 'You cannot grant permission %', _permission_name
+      USING ERRCODE = 'AK403', COLUMN = 'permission_name';
+  END IF;
+
+  IF _expires_at IS NOT NULL AND _expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Expiry must be in the future' USING ERRCODE = 'AK422', COLUMN = 'expires_at';
+  END IF;
+
   -- 4. Insert or update user_permissions
   INSERT INTO user_permissions (
     user_id, company_id, permission_id, grant_type, granted_by, reason, expires_at
@@ -304,7 +388,7 @@ DECLARE
 BEGIN
   -- 1. Check if _revoked_by has permission to change roles
   IF NOT rbac.has_permission(_revoked_by, _company_id, 'company.change_roles') THEN
-    RAISE EXCEPTION 'Permission denied: You do not have permission to revoke permissions';
+    RAISE EXCEPTION 'Permission denied: You do not have permission to revoke permissions' USING ERRCODE = 'AK403', DETAIL = '{"permission": "company.change_roles"}';
   END IF;
 
   -- 2. Get permission ID and details
@@ -314,7 +398,7 @@ BEGIN
   WHERE name = _permission_name AND is_active = TRUE;
 
   IF v_permission_record.id IS NULL THEN
-    RAISE EXCEPTION 'Permission not found: %', _permission_name;
+    RAISE EXCEPTION 'Permission not found: %', _permission_name USING ERRCODE = 'AK404';
   END IF;
 
   v_permission_id := v_permission_record.id;
@@ -368,7 +452,7 @@ DECLARE
 BEGIN
   -- 1. Check if _removed_by has permission to change roles
   IF NOT rbac.has_permission(_removed_by, _company_id, 'company.change_roles') THEN
-    RAISE EXCEPTION 'Permission denied: You do not have permission to manage permissions';
+    RAISE EXCEPTION 'Permission denied: You do not have permission to manage permissions' USING ERRCODE = 'AK403', DETAIL = '{"permission": "company.change_roles"}';
   END IF;
 
   -- 2. Get permission ID
@@ -377,7 +461,7 @@ BEGIN
   WHERE name = _permission_name AND is_active = TRUE;
 
   IF v_permission_id IS NULL THEN
-    RAISE EXCEPTION 'Permission not found: %', _permission_name;
+    RAISE EXCEPTION 'Permission not found: %', _permission_name USING ERRCODE = 'AK404';
   END IF;
 
   -- 3. Delete the override
@@ -396,19 +480,66 @@ $$;
 -- ================================================
 -- Function: rbac.set_user_context
 -- ================================================
--- Set user and company context for RLS policies
--- MUST be called at the beginning of every SQL function that modifies data
+-- Set user and company context for RLS policies and audit triggers
+-- Called by the API for every request on the request's connection
+-- (see src/api/middleware/db-context.middleware.ts)
+-- _impersonator_id: the real user of an impersonation session; audit.log_action
+-- records it next to _user_id and rbac.has_permission blocks high-risk permissions
+-- _api_token_id: the API token of the request; like impersonation it binds
+-- rbac.require_permission to _company_id
 -- ================================================
 
+DROP FUNCTION IF EXISTS rbac.set_user_context(TEXT, UUID);
+DROP FUNCTION IF EXISTS rbac.set_user_context(TEXT, UUID, TEXT);
 CREATE OR REPLACE FUNCTION rbac.set_user_context(
   _user_id TEXT,
-  _company_id UUID
+  _company_id UUID,
+  _impersonator_id TEXT DEFAULT NULL,
+  _api_token_id UUID DEFAULT NULL
 )
 RETURNS VOID
 LANGUAGE plpgsql SECURITY DEFINER AS $$
 BEGIN
-  PERFORM set_config('app.current_user_id', _user_id, FALSE);
-  PERFORM set_config('app.current_company_id', _company_id::TEXT, FALSE);
+  -- app.user_id is read by audit triggers, app.current_* by RLS policies
+  PERFORM set_config('app.user_id', COALESCE(_user_id, ''), FALSE);
+  PERFORM set_config('app.current_user_id', COALESCE(_user_id, ''), FALSE);
+  PERFORM set_config('app.current_company_id', COALESCE(_company_id::TEXT, ''), FALSE);
+  PERFORM set_config('app.impersonator_id', COALESCE(_impersonator_id, ''), FALSE);
+  PERFORM set_config('app.api_token_id', COALESCE(_api_token_id::TEXT, ''), FALSE);
+END;
+$$;
+
+-- Real user behind the current request when it runs in an impersonation
+-- session, NULL otherwise
+CREATE OR REPLACE FUNCTION rbac.impersonator_id()
+RETURNS TEXT
+LANGUAGE sql STABLE AS $$
+  SELECT NULLIF(current_setting('app.impersonator_id', TRUE), '');
+$$;
+
+-- API token of the current request, NULL for sessions
+CREATE OR REPLACE FUNCTION rbac.api_token_id()
+RETURNS UUID
+LANGUAGE sql STABLE AS $$
+  SELECT NULLIF(current_setting('app.api_token_id', TRUE), '')::UUID;
+$$;
+
+-- ================================================
+-- Function: rbac.clear_user_context
+-- ================================================
+-- Reset user and company context before a pooled
+-- connection is returned to the pool
+-- ================================================
+
+CREATE OR REPLACE FUNCTION rbac.clear_user_context()
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  PERFORM set_config('app.user_id', '', FALSE);
+  PERFORM set_config('app.current_user_id', '', FALSE);
+  PERFORM set_config('app.current_company_id', '', FALSE);
+  PERFORM set_config('app.impersonator_id', '', FALSE);
+  PERFORM set_config('app.api_token_id', '', FALSE);
 END;
 $$;
 
@@ -426,6 +557,8 @@ BEGIN
   RETURN jsonb_build_object(
     'user_id', NULLIF(current_setting('app.current_user_id', TRUE), ''),
     'company_id', NULLIF(current_setting('app.current_company_id', TRUE), ''),
+    'impersonator_id', rbac.impersonator_id(),
+    'api_token_id', rbac.api_token_id(),
     'is_superuser', COALESCE(current_setting('app.is_superuser', TRUE), 'false')
   );
 END;
@@ -482,7 +615,7 @@ DECLARE
   v_result JSONB;
 BEGIN
   IF _role NOT IN ('owner', 'admin', 'member', 'guest') THEN
-    RAISE EXCEPTION 'Invalid role: %. Must be one of: owner, admin, member, guest', _role;
+    RAISE EXCEPTION 'Invalid role: %. Must be one of: owner, admin, member, guest', _role USING ERRCODE = 'AK422', COLUMN = 'role';
   END IF;
 
   SELECT jsonb_build_object(
@@ -610,6 +743,529 @@ BEGIN
 END;
 $$;
 
+-- ================================================
+-- Custom roles
+-- ================================================
+-- Companies define named roles (e.g., "HR Business Partner") on top of a
+-- base role: members with the role get every permission of the base role
+-- plus the role's own. Managed by users with 'company.change_roles'; like
+-- service accounts, a role can only be given permissions its editor holds.
+-- Owners cannot get a custom role (ownership moves with transfer_ownership)
+-- ================================================
+
+-- ================================================
+-- Function: rbac.set_custom_role_permissions
+-- ================================================
+-- Replace the permission set of a custom role (internal, not exposed)
+-- ================================================
+
+CREATE OR REPLACE FUNCTION rbac.set_custom_role_permissions(
+  _user_id TEXT,
+  _company_id UUID,
+  _custom_role_id UUID,
+  _permissions TEXT[]
+)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_permission TEXT;
+  v_permission_id UUID;
+BEGIN
+  DELETE FROM custom_role_permissions WHERE custom_role_id = _custom_role_id;
+
+  FOR v_permission IN
+    SELECT DISTINCT p FROM unnest(COALESCE(_permissions, '{}')) AS p WHERE p <> ''
+  LOOP
+    SELECT id INTO v_permission_id FROM permissions WHERE name = v_permission AND is_active = TRUE;
+
+    IF v_permission_id IS NULL OR NOT rbac.has_permission(_user_id, _company_id, v_permission) THEN
+      RAISE EXCEPTION 'You cannot grant permission %', v_permission
+        USING ERRCODE = 'AK403', COLUMN = 'permissions';
+    END IF;
+
+    INSERT INTO custom_role_permissions (custom_role_id, permission_id)
+    VALUES (_custom_role_id, v_permission_id);
+  END LOOP;
+END;
+$$;
+
+-- ================================================
+-- Function: rbac.validate_custom_role
+-- ================================================
+-- Check the editable fields of a custom role (internal, not exposed)
+-- ================================================
+
+CREATE OR REPLACE FUNCTION rbac.validate_custom_role(
+  _company_id UUID,
+  _custom_role_id UUID,
+  _name TEXT,
+  _base_role TEXT,
+  _color TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF _name IS NULL OR length(_name) > 100 THEN
+    RAISE EXCEPTION 'Name is required (up to 100 characters)' USING ERRCODE = 'AK422', COLUMN = 'name';
+  END IF;
+
+  IF _base_role IS NULL OR _base_role NOT IN ('admin', 'member', 'guest') THEN
+    RAISE EXCEPTION 'Invalid base role: %. Must be one of: admin, member, guest', _base_role
+      USING ERRCODE = 'AK422', COLUMN = 'base_role';
+  END IF;
+
+  IF _color IS NOT NULL AND _color !~ '^#[0-9a-fA-F]{6}$' THEN
+    RAISE EXCEPTION 'Color must be a hex color like #3b82f6' USING ERRCODE = 'AK422', COLUMN = 'color';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM custom_roles
+    WHERE company_id = _company_id
+      AND LOWER(name) = LOWER(_name)
+      AND id IS DISTINCT FROM _custom_role_id
+  ) THEN
+    RAISE EXCEPTION 'A role named % already exists', _name USING ERRCODE = 'AK409', COLUMN = 'name';
+  END IF;
+END;
+$$;
+
+-- ================================================
+-- Function: rbac.get_custom_roles
+-- ================================================
+-- List the custom roles of a company with their permissions
+-- ================================================
+
+CREATE OR REPLACE FUNCTION rbac.get_custom_roles(
+  _company_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_company_id UUID;
+BEGIN
+  SELECT id INTO v_company_id
+  FROM companies
+  WHERE id::TEXT = _company_id OR _id = _company_id;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', cr._id,
+        'name', cr.name,
+        'description', cr.description,
+        'base_role', cr.base_role,
+        'color', cr.color,
+        'permissions', COALESCE((
+          SELECT jsonb_agg(p.name ORDER BY p.module, p.action)
+          FROM custom_role_permissions crp
+          JOIN permissions p ON p.id = crp.permission_id
+          WHERE crp.custom_role_id = cr.id AND p.is_active = TRUE
+        ), '[]'::JSONB),
+        'member_count', (
+          SELECT COUNT(*) FROM user_companies uc WHERE uc.custom_role_id = cr.id
+        )
+      )
+      ORDER BY cr.name
+    )
+    FROM custom_roles cr
+    WHERE cr.company_id = v_company_id AND cr.is_active = TRUE
+  ), '[]'::JSONB);
+END;
+$$;
+
+-- ================================================
+-- Function: rbac.create_custom_role
+-- ================================================
+-- Create a custom role inheriting from a base role
+-- ================================================
+
+CREATE OR REPLACE FUNCTION rbac.create_custom_role(
+  _user_id TEXT,
+  _company_id TEXT,
+  _name TEXT,
+  _base_role TEXT,
+  _permissions TEXT[] DEFAULT '{}',
+  _description TEXT DEFAULT NULL,
+  _color TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_company_id UUID;
+  v_name TEXT := NULLIF(TRIM(_name), '');
+  v_role RECORD;
+BEGIN
+  SELECT id INTO v_company_id
+  FROM companies
+  WHERE id::TEXT = _company_id OR _id = _company_id;
+
+  IF v_company_id IS NULL THEN
+    RAISE EXCEPTION 'Company not found' USING ERRCODE = 'AK404', COLUMN = 'company_id';
+  END IF;
+
+  PERFORM rbac.validate_custom_role(v_company_id, NULL, v_name, _base_role, _color);
+
+  INSERT INTO custom_roles (company_id, name, description, base_role, color, created_by)
+  VALUES (
+    v_company_id, v_name, NULLIF(TRIM(_description), ''), _base_role,
+    COALESCE(_color, '#3b82f6'), _user_id
+  )
+  RETURNING id, _id INTO v_role;
+
+  PERFORM rbac.set_custom_role_permissions(_user_id, v_company_id, v_role.id, _permissions);
+
+  PERFORM audit.log_action(
+    _user_id, 'CREATE', 'custom_roles', v_role._id, v_company_id, NULL,
+    jsonb_build_object('name', v_name, 'baseRole', _base_role, 'permissions', _permissions)
+  );
+
+  RETURN jsonb_build_object('id', v_role._id, 'name', v_name);
+END;
+$$;
+
+-- ================================================
+-- Function: rbac.update_custom_role
+-- ================================================
+-- Update a custom role and replace its permissions
+-- Members with the role move to the new base role
+-- ================================================
+
+CREATE OR REPLACE FUNCTION rbac.update_custom_role(
+  _user_id TEXT,
+  _company_id TEXT,
+  _custom_role_id TEXT,
+  _name TEXT,
+  _base_role TEXT,
+  _permissions TEXT[] DEFAULT '{}',
+  _description TEXT DEFAULT NULL,
+  _color TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_name TEXT := NULLIF(TRIM(_name), '');
+  v_role RECORD;
+BEGIN
+  SELECT cr.* INTO v_role
+  FROM custom_roles cr
+  JOIN companies c ON c.id = cr.company_id
+  WHERE cr._id = _custom_role_id
+    AND cr.is_active = TRUE
+    AND (c.id::TEXT = _company_id OR c._id = _company_id);
+
+  IF v_role.id IS NULL THEN
+    RAISE EXCEPTION 'Custom role not found' USING ERRCODE = 'AK404', COLUMN = 'custom_role_id';
+  END IF;
+
+  PERFORM rbac.validate_custom_role(v_role.company_id, v_role.id, v_name, _base_role, _color);
+
+  UPDATE custom_roles
+  SET name = v_name,
+      description = NULLIF(TRIM(_description), ''),
+      base_role = _base_role,
+      color = COALESCE(_color, color),
+      updated_at = NOW()
+  WHERE id = v_role.id;
+
+  -- user_companies.role always holds the base role of the member's custom role
+  UPDATE user_companies
+  SET role = _base_role
+  WHERE custom_role_id = v_role.id AND role <> _base_role;
+
+  PERFORM rbac.set_custom_role_permissions(_user_id, v_role.company_id, v_role.id, _permissions);
+
+  PERFORM audit.log_action(
+    _user_id, 'UPDATE', 'custom_roles', v_role._id, v_role.company_id,
+    jsonb_build_object('name', v_role.name, 'baseRole', v_role.base_role),
+    jsonb_build_object('name', v_name, 'baseRole', _base_role, 'permissions', _permissions)
+  );
+
+  RETURN jsonb_build_object('id', v_role._id, 'name', v_name);
+END;
+$$;
+
+-- ================================================
+-- Function: rbac.delete_custom_role
+-- ================================================
+-- Delete a custom role; its members keep the base role
+-- ================================================
+
+CREATE OR REPLACE FUNCTION rbac.delete_custom_role(
+  _user_id TEXT,
+  _company_id TEXT,
+  _custom_role_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_role RECORD;
+BEGIN
+  SELECT cr.* INTO v_role
+  FROM custom_roles cr
+  JOIN companies c ON c.id = cr.company_id
+  WHERE cr._id = _custom_role_id
+    AND (c.id::TEXT = _company_id OR c._id = _company_id);
+
+  IF v_role.id IS NULL THEN
+    RAISE EXCEPTION 'Custom role not found' USING ERRCODE = 'AK404', COLUMN = 'custom_role_id';
+  END IF;
+
+  UPDATE user_companies SET custom_role_id = NULL WHERE custom_role_id = v_role.id;
+  DELETE FROM custom_roles WHERE id = v_role.id;
+
+  PERFORM audit.log_action(
+    _user_id, 'DELETE', 'custom_roles', v_role._id, v_role.company_id,
+    jsonb_build_object('name', v_role.name, 'baseRole', v_role.base_role), NULL
+  );
+
+  RETURN jsonb_build_object('success', TRUE, 'message', 'Custom role deleted');
+END;
+$$;
+
+-- ================================================
+-- Function: rbac.assign_custom_role
+-- ================================================
+-- Give a member a custom role (NULL removes it, the base role stays)
+-- ================================================
+
+CREATE OR REPLACE FUNCTION rbac.assign_custom_role(
+  _user_id TEXT,
+  _company_id TEXT,
+  _member_id TEXT,
+  _custom_role_id TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_member RECORD;
+  v_role RECORD;
+  v_new_role TEXT;
+BEGIN
+  SELECT uc.id, uc.company_id, uc.role, old_cr._id AS old_custom_role_id
+  INTO v_member
+  FROM user_companies uc
+  JOIN companies c ON c.id = uc.company_id
+  LEFT JOIN custom_roles old_cr ON old_cr.id = uc.custom_role_id
+  WHERE uc.user_id = _member_id
+    AND (c.id::TEXT = _company_id OR c._id = _company_id);
+
+  IF v_member.id IS NULL THEN
+    RAISE EXCEPTION 'User is not a member of this company' USING ERRCODE = 'AK404', COLUMN = 'member_id';
+  END IF;
+
+  v_new_role := v_member.role;
+
+  IF _custom_role_id IS NULL THEN
+    UPDATE user_companies SET custom_role_id = NULL WHERE id = v_member.id;
+  ELSE
+    IF v_member.role = 'owner' THEN
+      RAISE EXCEPTION 'Owners cannot have a custom role. Transfer ownership first.'
+        USING ERRCODE = 'AK409', COLUMN = 'member_id';
+    END IF;
+
+    SELECT id, _id, base_role INTO v_role
+    FROM custom_roles
+    WHERE _id = _custom_role_id
+      AND company_id = v_member.company_id
+      AND is_active = TRUE;
+
+    IF v_role.id IS NULL THEN
+      RAISE EXCEPTION 'Custom role not found' USING ERRCODE = 'AK404', COLUMN = 'custom_role_id';
+    END IF;
+
+    v_new_role := v_role.base_role;
+
+    UPDATE user_companies
+    SET custom_role_id = v_role.id, role = v_new_role
+    WHERE id = v_member.id;
+  END IF;
+
+  PERFORM audit.log_action(
+    _user_id, 'UPDATE', 'user_companies', v_member.id::TEXT, v_member.company_id,
+    jsonb_build_object('role', v_member.role, 'customRoleId', v_member.old_custom_role_id),
+    jsonb_build_object('role', v_new_role, 'customRoleId', _custom_role_id)
+  );
+
+  RETURN jsonb_build_object('success', TRUE, 'message', 'Role updated successfully');
+END;
+$$;
+
+-- ================================================
+-- Function: rbac.get_permission_matrix
+-- ================================================
+-- Every permission with the base roles and custom roles that have it
+-- (custom roles: only their own permissions, the base role's come on top)
+-- ================================================
+
+CREATE OR REPLACE FUNCTION rbac.get_permission_matrix(
+  _company_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_company_id UUID;
+BEGIN
+  SELECT id INTO v_company_id
+  FROM companies
+  WHERE id::TEXT = _company_id OR _id = _company_id;
+
+  RETURN jsonb_build_object(
+    'permissions', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'name', p.name,
+          'description', p.description,
+          'module', p.module,
+          'action', p.action,
+          'risk_level', p.risk_level,
+          'roles', COALESCE((
+            SELECT jsonb_agg(rp.role ORDER BY array_position(ARRAY['owner', 'admin', 'member', 'guest'], rp.role))
+            FROM role_permissions rp
+            WHERE rp.permission_id = p.id
+          ), '[]'::JSONB),
+          'custom_roles', COALESCE((
+            SELECT jsonb_agg(cr._id)
+            FROM custom_role_permissions crp
+            JOIN custom_roles cr ON cr.id = crp.custom_role_id
+            WHERE crp.permission_id = p.id
+              AND cr.company_id = v_company_id
+              AND cr.is_active = TRUE
+          ), '[]'::JSONB)
+        )
+        ORDER BY p.module, p.action
+      )
+      FROM permissions p
+      WHERE p.is_active = TRUE
+    ), '[]'::JSONB),
+    'custom_roles', rbac.get_custom_roles(_company_id)
+  );
+END;
+$$;
+
+-- ================================================
+-- Function: rbac.explain_user_permissions
+-- ================================================
+-- Every permission with whether a member has it and why:
+-- source 'grant' / 'revoke' (override), 'custom_role', 'role' or NULL
+-- ================================================
+
+CREATE OR REPLACE FUNCTION rbac.explain_user_permissions(
+  _company_id TEXT,
+  _member_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_member RECORD;
+BEGIN
+  SELECT uc.company_id, uc.role, u.fullname, u.email,
+    cr._id AS custom_role_id, cr.name AS custom_role_name, cr.color AS custom_role_color
+  INTO v_member
+  FROM user_companies uc
+  JOIN companies c ON c.id = uc.company_id
+  JOIN users u ON u._id = uc.user_id
+  LEFT JOIN custom_roles cr ON cr.id = uc.custom_role_id
+    AND cr.company_id = uc.company_id
+    AND cr.is_active = TRUE
+  WHERE uc.user_id = _member_id
+    AND (c.id::TEXT = _company_id OR c._id = _company_id);
+
+  IF v_member.company_id IS NULL THEN
+    RAISE EXCEPTION 'User is not a member of this company' USING ERRCODE = 'AK404', COLUMN = 'member_id';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'member', jsonb_build_object(
+      'userId', _member_id,
+      'fullname', v_member.fullname,
+      'email', v_member.email,
+      'role', v_member.role,
+      'customRole', CASE WHEN v_member.custom_role_id IS NOT NULL THEN jsonb_build_object(
+        'id', v_member.custom_role_id, 'name', v_member.custom_role_name, 'color', v_member.custom_role_color
+      ) END
+    ),
+    'permissions', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'name', x.name,
+          'description', x.description,
+          'module', x.module,
+          'risk_level', x.risk_level,
+          'granted', COALESCE(x.source IN ('grant', 'custom_role', 'role'), FALSE),
+          'source', x.source,
+          'reason', up.reason,
+          'granted_by', up.granted_by,
+          'expires_at', (EXTRACT(EPOCH FROM up.expires_at) * 1000)::BIGINT
+        )
+        ORDER BY x.module, x.action
+      )
+      FROM (
+        SELECT p.*, rbac.permission_source(_member_id, v_member.company_id, p.id) AS source
+        FROM permissions p
+        WHERE p.is_active = TRUE
+      ) x
+      LEFT JOIN user_permissions up ON up.user_id = _member_id
+        AND up.company_id = v_member.company_id
+        AND up.permission_id = x.id
+        AND x.source IN ('grant', 'revoke')
+    ), '[]'::JSONB)
+  );
+END;
+$$;
+
+-- ================================================
+-- Function: rbac.get_permission_holders
+-- ================================================
+-- "Who can do X": members that have a permission, with its source
+-- ================================================
+
+CREATE OR REPLACE FUNCTION rbac.get_permission_holders(
+  _company_id TEXT,
+  _permission_name TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_company_id UUID;
+  v_permission_id UUID;
+BEGIN
+  SELECT id INTO v_company_id
+  FROM companies
+  WHERE id::TEXT = _company_id OR _id = _company_id;
+
+  SELECT id INTO v_permission_id
+  FROM permissions
+  WHERE name = _permission_name AND is_active = TRUE;
+
+  IF v_permission_id IS NULL THEN
+    RAISE EXCEPTION 'Permission not found: %', _permission_name USING ERRCODE = 'AK404', COLUMN = 'permission_name';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'userId', x.user_id,
+        'fullname', x.fullname,
+        'email', x.email,
+        'role', x.role,
+        'customRole', x.custom_role_name,
+        'source', x.source
+      )
+      ORDER BY x.fullname
+    )
+    FROM (
+      SELECT uc.user_id, u.fullname, u.email, uc.role, cr.name AS custom_role_name,
+        rbac.permission_source(uc.user_id, v_company_id, v_permission_id) AS source
+      FROM user_companies uc
+      JOIN users u ON u._id = uc.user_id
+      LEFT JOIN custom_roles cr ON cr.id = uc.custom_role_id AND cr.is_active = TRUE
+      WHERE uc.company_id = v_company_id
+    ) x
+    WHERE x.source IN ('grant', 'custom_role', 'role')
+  ), '[]'::JSONB);
+END;
+$$;
+
 -- ================================================
 -- Function: rbac.cleanup_expired_permissions
 -- ================================================
@@ -643,15 +1299,40 @@ $$;
 -- ================================================
 
 COMMENT ON FUNCTION rbac.has_permission IS 'Main permission checking function. Returns TRUE if user has the specified permission in the company';
+COMMENT ON FUNCTION rbac.require_permission IS 'Raise AK403 unless the request user has the permission in the company that owns a row';
 COMMENT ON FUNCTION rbac.get_user_permissions IS 'Get all permissions for a user in a company, including source (role, custom_role, grant)';
-COMMENT ON FUNCTION rbac.grant_permission IS 'Grant a specific permission to a user. Only callable by users with company.change_roles permission';
-COMMENT ON FUNCTION rbac.revoke_permission IS 'Revoke a specific permission from a user. Only callable by users with company.change_roles permission';
-COMMENT ON FUNCTION rbac.set_user_context IS 'Set user and company context for RLS policies. MUST be called at the beginning of every data-modifying function';
+COMMENT ON FUNCTION rbac.grant_permission IS 'Grant a specific permission to a user. Only callable by users with company.change_roles permission
+@returns Company.PermissionOverrideResult';
+COMMENT ON FUNCTION rbac.revoke_permission IS 'Revoke a specific permission from a user. Only callable by users with company.change_roles permission
+@returns Company.PermissionOverrideResult';
+COMMENT ON FUNCTION rbac.remove_permission_override IS 'Remove a grant or revoke of a user so their roles decide again
+@returns { success: boolean; message: string }';
+COMMENT ON FUNCTION rbac.set_user_context IS 'Set user and company context for RLS policies and audit triggers. Called by the API on the request connection';
+COMMENT ON FUNCTION rbac.impersonator_id IS 'Real user of the current impersonation session (app.impersonator_id), NULL otherwise';
+COMMENT ON FUNCTION rbac.api_token_id IS 'API token of the current request (app.api_token_id), NULL for sessions';
+COMMENT ON FUNCTION rbac.clear_user_context IS 'Reset user and company context before a pooled connection is released';
 COMMENT ON FUNCTION rbac.get_user_context IS 'Get current user and company context from PostgreSQL session variables';
 COMMENT ON FUNCTION rbac.list_permissions IS 'List all available permissions in the system, optionally filtered by module';
 COMMENT ON FUNCTION rbac.get_role_permissions IS 'Get all default permissions for a base role (owner, admin, member, guest)';
 COMMENT ON FUNCTION rbac.check_multiple_permissions IS 'Check if user has ALL of the specified permissions';
 COMMENT ON FUNCTION rbac.check_any_permission IS 'Check if user has ANY of the specified permissions';
+COMMENT ON FUNCTION rbac.get_custom_roles IS 'List the custom roles of a company with their permissions and member count
+@returns Company.CustomRole[]';
+COMMENT ON FUNCTION rbac.create_custom_role IS 'Create a custom role inheriting from a base role. Only callable by users with company.change_roles permission
+@returns { id: string; name: string }';
+COMMENT ON FUNCTION rbac.update_custom_role IS 'Update a custom role and replace its permissions. Only callable by users with company.change_roles permission
+@returns { id: string; name: string }';
+COMMENT ON FUNCTION rbac.delete_custom_role IS 'Delete a custom role; its members keep the base role
+@returns { success: boolean; message: string }';
+COMMENT ON FUNCTION rbac.assign_custom_role IS 'Give a member a custom role, or remove it with NULL
+@returns { success: boolean; message: string }';
+COMMENT ON FUNCTION rbac.permission_source IS 'Where a user''s permission comes from: grant, revoke, custom_role, role or NULL';
+COMMENT ON FUNCTION rbac.get_permission_matrix IS 'Every permission with the base roles and custom roles of the company that have it
+@returns Company.PermissionMatrix';
+COMMENT ON FUNCTION rbac.explain_user_permissions IS 'Every permission with whether a member has it and its source (override, custom role, base role)
+@returns Company.PermissionExplanation';
+COMMENT ON FUNCTION rbac.get_permission_holders IS 'Members of the company that have a permission, with its source
+@returns Company.PermissionHolder[]';
 COMMENT ON FUNCTION rbac.cleanup_expired_permissions IS 'Remove expired temporary permissions. Run periodically via cron job';
 
 -- ================================================
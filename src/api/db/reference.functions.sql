@@ -54,7 +54,7 @@ DECLARE
 BEGIN
   -- Validation
   IF _code IS NULL OR _code = '' THEN
-    RAISE EXCEPTION 'Country code is required';
+    RAISE EXCEPTION 'Country code is required' USING ERRCODE = 'AK422', COLUMN = 'code';
   END IF;
 
   SELECT jsonb_build_object(
@@ -71,7 +71,7 @@ BEGIN
   WHERE code = UPPER(_code);
 
   IF v_result IS NULL THEN
-    RAISE EXCEPTION 'Country not found: %', _code;
+    RAISE EXCEPTION 'Country not found: %', _code USING ERRCODE = 'AK404';
   END IF;
 
   RETURN v_result;
@@ -95,11 +95,11 @@ DECLARE
 BEGIN
   -- Validation
   IF _query IS NULL OR LENGTH(_query) < 2 THEN
-    RAISE EXCEPTION 'Search query must be at least 2 characters';
+    RAISE EXCEPTION 'Search query must be at least 2 characters' USING ERRCODE = 'AK422', COLUMN = 'query';
   END IF;
 
   IF _limit < 1 OR _limit > 100 THEN
-    RAISE EXCEPTION 'Limit must be between 1 and 100';
+    RAISE EXCEPTION 'Limit must be between 1 and 100' USING ERRCODE = 'AK422', COLUMN = 'limit';
   END IF;
 
   SELECT jsonb_agg(
@@ -166,7 +166,7 @@ DECLARE
 BEGIN
   -- Validation
   IF _code IS NULL THEN
-    RAISE EXCEPTION 'Industry code is required';
+    RAISE EXCEPTION 'Industry code is required' USING ERRCODE = 'AK422', COLUMN = 'code';
   END IF;
 
   SELECT jsonb_build_object(
@@ -179,7 +179,7 @@ BEGIN
   WHERE code = _code;
 
   IF v_result IS NULL THEN
-    RAISE EXCEPTION 'Industry not found: %', _code;
+    RAISE EXCEPTION 'Industry not found: %', _code USING ERRCODE = 'AK404';
   END IF;
 
   RETURN v_result;
@@ -203,11 +203,11 @@ DECLARE
 BEGIN
   -- Validation
   IF _query IS NULL OR LENGTH(_query) < 2 THEN
-    RAISE EXCEPTION 'Search query must be at least 2 characters';
+    RAISE EXCEPTION 'Search query must be at least 2 characters' USING ERRCODE = 'AK422', COLUMN = 'query';
   END IF;
 
   IF _limit < 1 OR _limit > 100 THEN
-    RAISE EXCEPTION 'Limit must be between 1 and 100';
+    RAISE EXCEPTION 'Limit must be between 1 and 100' USING ERRCODE = 'AK422', COLUMN = 'limit';
   END IF;
 
   SELECT jsonb_agg(
@@ -31,15 +31,16 @@ async function seed() {
 
     await client.query(`
       INSERT INTO users (
-        id, _id, email, password, fullname, verified,
+        id, _id, email, password, password_algo, fullname, verified,
         two_factor_enabled, type, created_at, updated_at
       ) VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW()
+        $1, $2, $3, auth.hash_password($4), 'bcrypt', $5, $6, $7, $8, NOW(), NOW()
       )
       ON CONFLICT (email) DO UPDATE SET
         id = EXCLUDED.id,
         _id = EXCLUDED._id,
         password = EXCLUDED.password,
+        password_algo = EXCLUDED.password_algo,
         fullname = EXCLUDED.fullname,
         verified = EXCLUDED.verified,
         updated_at = NOW()
@@ -47,7 +48,7 @@ async function seed() {
       userId,
       userTextId,
       'itgroup.luck@gmail.com',
-      'a0878028cd43a3a00b15834ce4a18e363d803b5be86b8a8a1aa91f6f1c039138', // password: "M1r@nd@32" (SHA256)
+      'M1r@nd@32', // hashed with bcrypt by auth.hash_password
       'Assanali Tungat',
       true,
       false,
@@ -0,0 +1,188 @@
+/**
+ * SQL Signatures - parse function definitions from *.sql files
+ *
+ * Used by generate-rpc.ts to build the typed client (src/lib/rpc.generated.ts)
+ * without a database connection. Parameter names, SQL types and defaults come
+ * from CREATE FUNCTION, result shapes come from COMMENT ON FUNCTION annotations:
+ *
+ *   COMMENT ON FUNCTION doa.get_matrix IS 'Get a single approval matrix by ID
+ *   @returns DB.ApprovalMatrix';
+ *
+ *   COMMENT ON FUNCTION doa.create_matrix IS 'Create a new approval matrix
+ *   @param _approval_blocks DB.ApprovalBlock[]
+ *   @returns DB.ApprovalMatrix';
+ *
+ * Annotation types are TypeScript; `DB.` refers to @/modules/shared/types/database.types,
+ * `Company.`, `Inquiry.` and `OrgChart.` to the types file of that module
+ * (TYPE_NAMESPACES in generate-rpc.ts).
+ */
+
+export interface SqlParameter {
+  /** SQL argument name, e.g. "_company_id" */
+  sqlName: string;
+  /** SQL type, e.g. "TEXT", "JSONB", "TEXT[]" */
+  type: string;
+  hasDefault: boolean;
+}
+
+export interface SqlFunction {
+  /** Fully qualified name, e.g. "doa.get_matrix" */
+  name: string;
+  params: SqlParameter[];
+  /** SQL return type, e.g. "JSONB", "BOOLEAN", "TABLE" */
+  returns: string;
+}
+
+export interface SqlFunctionComment {
+  description: string;
+  /** TypeScript type of the result (@returns) */
+  returns?: string;
+  /** TypeScript types of parameters by SQL name (@param) */
+  params: Record<string, string>;
+}
+
+/**
+ * Remove "-- ..." comments (outside of string literals)
+ */
+function stripLineComments(sql: string): string {
+  return sql.replace(/('(?:[^']|'')*')|--[^\n]*/g, (_match, literal) => literal ?? "");
+}
+
+/**
+ * Split an argument list by top-level commas
+ */
+function splitArguments(args: string): string[] {
+  const result: string[] = [];
+  let depth = 0;
+  let inString = false;
+  let current = "";
+
+  for (const char of args) {
+    if (char === "'") inString = !inString;
+    if (!inString && char === "(") depth++;
+    if (!inString && char === ")") depth--;
+
+    if (!inString && depth === 0 && char === ",") {
+      result.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim()) result.push(current);
+
+  return result.map((arg) => arg.trim()).filter(Boolean);
+}
+
+function parseArgument(arg: string): SqlParameter | null {
+  const match = arg.match(/^(?:(IN|OUT|INOUT|VARIADIC)\s+)?(\w+)\s+(.+?)(?:\s+(?:DEFAULT|=)\s+.+)?$/is);
+
+  if (!match) return null;
+
+  const [, mode, sqlName, type] = match;
+
+  // OUT parameters are part of the result, not the call
+  if (mode && mode.toUpperCase() === "OUT") return null;
+
+  return {
+    sqlName,
+    type: type.trim().replace(/\s+/g, " "),
+    hasDefault: /\s(DEFAULT|=)\s/i.test(arg),
+  };
+}
+
+/**
+ * Extract all CREATE FUNCTION definitions from a SQL file.
+ * Functions without a schema are reported as "public.<name>".
+ */
+export function parseSqlFunctions(source: string): SqlFunction[] {
+  const sql = stripLineComments(source);
+  const functions: SqlFunction[] = [];
+  const header = /CREATE\s+(?:OR\s+REPLACE\s+)?FUNCTION\s+([\w.]+)\s*\(/gi;
+
+  let match: RegExpExecArray | null;
+
+  while ((match = header.exec(sql))) {
+    // Find the closing parenthesis of the argument list
+    let depth = 1;
+    let i = header.lastIndex;
+    let inString = false;
+
+    for (; i < sql.length && depth > 0; i++) {
+      if (sql[i] === "'") inString = !inString;
+      if (inString) continue;
+      if (sql[i] === "(") depth++;
+      if (sql[i] === ")") depth--;
+    }
+
+    const args = sql.slice(header.lastIndex, i - 1);
+    const returns = sql.slice(i).match(/^\s*RETURNS\s+(SETOF\s+\w+(?:\[\])?|TABLE|[\w.]+(?:\s+precision)?(?:\[\])?)/i);
+
+    const name = match[1].includes(".") ? match[1] : `public.${match[1]}`;
+    const params = splitArguments(args)
+      .map(parseArgument)
+      .filter((param): param is SqlParameter => param !== null);
+
+    functions.push({
+      name,
+      params,
+      returns: returns ? returns[1].toUpperCase() : "VOID",
+    });
+  }
+
+  return functions;
+}
+
+/**
+ * Extract COMMENT ON FUNCTION annotations from a SQL file
+ */
+export function parseFunctionComments(source: string): Record<string, SqlFunctionComment> {
+  const comments: Record<string, SqlFunctionComment> = {};
+  const pattern = /COMMENT\s+ON\s+FUNCTION\s+([\w.]+)\s*(?:\([^)]*\))?\s+IS\s+'((?:[^']|'')*)'/gi;
+
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source))) {
+    const name = match[1].includes(".") ? match[1] : `public.${match[1]}`;
+    const text = match[2].replace(/''/g, "'");
+    const comment: SqlFunctionComment = { description: "", params: {} };
+    const description: string[] = [];
+
+    for (const line of text.split("\n").map((l) => l.trim())) {
+      const returns = line.match(/^@returns\s+(.+)$/);
+      const param = line.match(/^@param\s+(\w+)\s+(.+)$/);
+
+      if (returns) comment.returns = returns[1];
+      else if (param) comment.params[param[1]] = param[2];
+      else if (line) description.push(line);
+    }
+
+    comment.description = description.join(" ");
+    comments[name] = comment;
+  }
+
+  return comments;
+}
+
+/**
+ * Map a SQL type to a TypeScript type
+ */
+export function sqlTypeToTs(sqlType: string): string {
+  const type = sqlType.toLowerCase().trim();
+
+  if (type.endsWith("[]")) {
+    return `${sqlTypeToTs(type.slice(0, -2))}[]`;
+  }
+
+  if (/^(smallint|integer|int|int2|int4|int8|bigint|decimal|numeric|real|double precision|float\d*)(\(.*\))?$/.test(type)) {
+    return "number";
+  }
+
+  if (/^(boolean|bool)$/.test(type)) return "boolean";
+  if (/^jsonb?$/.test(type)) return "unknown";
+  if (type === "void") return "null";
+
+  // text, varchar, uuid, inet, timestamp, date, ...
+  return "string";
+}
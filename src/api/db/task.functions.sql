@@ -221,7 +221,7 @@ BEGIN
   WHERE _id = _company_id;
 
   IF v_company_uuid IS NULL THEN
-    RAISE EXCEPTION 'Company not found: %', _company_id;
+    RAISE EXCEPTION 'Company not found: %', _company_id USING ERRCODE = 'AK404';
   END IF;
   SELECT jsonb_agg(
     jsonb_build_object(
@@ -296,7 +296,17 @@ RETURNS JSONB
 LANGUAGE plpgsql SECURITY DEFINER AS $$
 DECLARE
   v_task RECORD;
+  v_company_uuid UUID;
 BEGIN
+  SELECT company_id INTO v_company_uuid FROM tasks WHERE id = _task_id;
+
+  IF v_company_uuid IS NULL THEN
+    RAISE EXCEPTION 'Task not found' USING ERRCODE = 'AK404';
+  END IF;
+
+  -- No company argument: check the company that owns the task
+  PERFORM rbac.require_permission(v_company_uuid, 'task.update');
+
   UPDATE tasks
   SET
     title = COALESCE(_title, title),
@@ -313,10 +323,6 @@ BEGIN
 
   SELECT * INTO v_task FROM tasks WHERE id = _task_id;
 
-  IF v_task.id IS NULL THEN
-    RAISE EXCEPTION 'Task not found';
-  END IF;
-
   RETURN jsonb_build_object(
     '_id', v_task._id,
     'id', v_task.id,
@@ -351,11 +357,8 @@ CREATE OR REPLACE FUNCTION task.complete_task(_task_id UUID)
 RETURNS JSONB
 LANGUAGE plpgsql SECURITY DEFINER AS $$
 BEGIN
-  UPDATE tasks
-  SET completed = true, updated_at = NOW()
-  WHERE id = _task_id;
-
-  RETURN task.update_task(_task_id);
+  -- task.update_task checks task.update in the task's company
+  RETURN task.update_task(_task_id, _completed => TRUE);
 END;
 $$;
 
@@ -365,7 +368,18 @@ $$;
 CREATE OR REPLACE FUNCTION task.delete_task(_task_id UUID)
 RETURNS JSONB
 LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_company_uuid UUID;
 BEGIN
+  SELECT company_id INTO v_company_uuid FROM tasks WHERE id = _task_id;
+
+  IF v_company_uuid IS NULL THEN
+    RAISE EXCEPTION 'Task not found' USING ERRCODE = 'AK404';
+  END IF;
+
+  -- No company argument: check the company that owns the task
+  PERFORM rbac.require_permission(v_company_uuid, 'task.delete');
+
   DELETE FROM tasks WHERE id = _task_id;
 
   RETURN jsonb_build_object('success', TRUE, 'message', 'Task deleted successfully');
@@ -30,7 +30,7 @@ DECLARE
 BEGIN
   -- Validation
   IF _company_id IS NULL OR _company_id = '' THEN
-    RAISE EXCEPTION 'Company ID is required';
+    RAISE EXCEPTION 'Company ID is required' USING ERRCODE = 'AK422', COLUMN = 'company_id';
   END IF;
 
   -- Extract UUID from _id if needed (e.g., 'company_1234_uuid' -> 'uuid')
@@ -43,7 +43,7 @@ BEGIN
       v_uuid := _company_id::UUID;
     END IF;
   EXCEPTION WHEN OTHERS THEN
-    RAISE EXCEPTION 'Invalid company ID format: %', _company_id;
+    RAISE EXCEPTION 'Invalid company ID format: %', _company_id USING ERRCODE = 'AK422', COLUMN = 'company_id';
   END;
 
   -- Get users with their roles in the company
@@ -60,11 +60,17 @@ BEGIN
       'role', uc.role,
       'createdAt', EXTRACT(EPOCH FROM u.created_at)::BIGINT * 1000,
       'updatedAt', EXTRACT(EPOCH FROM u.updated_at)::BIGINT * 1000,
-      'twoFactorEnabled', u.two_factor_enabled
+      'twoFactorEnabled', u.two_factor_enabled,
+      'lockedUntil', lt.blocked_until
     ) AS user_data,
     u.created_at AS created_at_ts
     FROM users u
     INNER JOIN user_companies uc ON uc.user_id = u._id
+    LEFT JOIN login_throttle lt
+      ON lt.scope = 'account'
+      AND lt.key = lower(u.email)
+      AND lt.locked
+      AND lt.blocked_until > EXTRACT(EPOCH FROM NOW())::BIGINT * 1000
     WHERE uc.company_id = v_uuid
   ) subquery;
 
@@ -106,7 +112,7 @@ BEGIN
         v_uuid := _company_id::UUID;
       END IF;
     EXCEPTION WHEN OTHERS THEN
-      RAISE EXCEPTION 'Invalid company ID format: %', _company_id;
+      RAISE EXCEPTION 'Invalid company ID format: %', _company_id USING ERRCODE = 'AK422', COLUMN = 'company_id';
     END;
 
     -- Company-specific statistics
@@ -161,7 +167,7 @@ DECLARE
 BEGIN
   -- Validation
   IF _user_id IS NULL OR _user_id = '' THEN
-    RAISE EXCEPTION 'User ID is required';
+    RAISE EXCEPTION 'User ID is required' USING ERRCODE = 'AK422', COLUMN = 'user_id';
   END IF;
 
   SELECT jsonb_build_object(
@@ -180,7 +186,7 @@ BEGIN
   WHERE u._id = _user_id;
 
   IF v_result IS NULL THEN
-    RAISE EXCEPTION 'User not found: %', _user_id;
+    RAISE EXCEPTION 'User not found: %', _user_id USING ERRCODE = 'AK404';
   END IF;
 
   RETURN v_result;
@@ -239,14 +245,14 @@ DECLARE
 BEGIN
   -- Validation
   IF _user_id IS NULL OR _user_id = '' THEN
-    RAISE EXCEPTION 'User ID is required';
+    RAISE EXCEPTION 'User ID is required' USING ERRCODE = 'AK422', COLUMN = 'user_id';
   END IF;
 
   -- Check if user exists
   SELECT * INTO v_user FROM users WHERE _id = _user_id;
 
   IF v_user IS NULL THEN
-    RAISE EXCEPTION 'User not found: %', _user_id;
+    RAISE EXCEPTION 'User not found: %', _user_id USING ERRCODE = 'AK404';
   END IF;
 
   -- Update user blocked status (we'll use verified field inverted)
@@ -264,6 +270,60 @@ BEGIN
 END;
 $$;
 
+/**
+ * Unlock user
+ * Clears the failed sign-in counter and lockout of a user's account
+ *
+ * @param _user_id TEXT - User ID
+ * Returns: JSONB object with success message
+ */
+CREATE OR REPLACE FUNCTION users.unlock(_user_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_user RECORD;
+  v_throttle RECORD;
+BEGIN
+  -- Validation
+  IF _user_id IS NULL OR _user_id = '' THEN
+    RAISE EXCEPTION 'User ID is required' USING ERRCODE = 'AK422', COLUMN = 'user_id';
+  END IF;
+
+  -- Check if user exists
+  SELECT * INTO v_user FROM users WHERE _id = _user_id;
+
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'User not found: %', _user_id USING ERRCODE = 'AK404';
+  END IF;
+
+  DELETE FROM login_throttle
+  WHERE scope = 'account' AND key = lower(v_user.email)
+  RETURNING * INTO v_throttle;
+
+  IF FOUND THEN
+    PERFORM audit.log_action(
+      NULLIF(current_setting('app.user_id', TRUE), ''),
+      'UPDATE',
+      'login_throttle',
+      _user_id,
+      NULL,
+      jsonb_build_object('locked', v_throttle.locked, 'failures', v_throttle.failures),
+      jsonb_build_object('locked', FALSE, 'failures', 0),
+      NULL,
+      NULL,
+      NULL,
+      'Account unlocked by administrator'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'User unlocked successfully',
+    'userId', _user_id
+  );
+END;
+$$;
+
 /**
  * Delete user (soft delete - removes from all companies)
  * This is a soft delete that removes user from all companies
@@ -281,14 +341,14 @@ DECLARE
 BEGIN
   -- Validation
   IF _user_id IS NULL OR _user_id = '' THEN
-    RAISE EXCEPTION 'User ID is required';
+    RAISE EXCEPTION 'User ID is required' USING ERRCODE = 'AK422', COLUMN = 'user_id';
   END IF;
 
   -- Check if user exists
   SELECT * INTO v_user FROM users WHERE _id = _user_id;
 
   IF v_user IS NULL THEN
-    RAISE EXCEPTION 'User not found: %', _user_id;
+    RAISE EXCEPTION 'User not found: %', _user_id USING ERRCODE = 'AK404';
   END IF;
 
   -- Remove user from all companies (soft delete)
@@ -318,4 +378,5 @@ COMMENT ON FUNCTION users.get_stats IS 'Get user statistics (total, verified, re
 COMMENT ON FUNCTION users.get_by_id IS 'Get user by ID';
 COMMENT ON FUNCTION users.get_all IS 'Get all users (system-wide, admin only)';
 COMMENT ON FUNCTION users.toggle_block IS 'Block or unblock a user';
+COMMENT ON FUNCTION users.unlock IS 'Unlock a user locked out after failed sign-ins';
 COMMENT ON FUNCTION users.delete IS 'Delete user (removes from all companies)';
@@ -0,0 +1,27 @@
+/**
+ * Domain verification over DNS
+ *
+ * A company proves it owns an SSO email domain with a TXT record
+ * (company.verify_sso_domain compares it with its token). The gateway does the
+ * lookup, so the records never come from the caller.
+ */
+
+import { Resolver } from "node:dns/promises";
+
+const resolver = new Resolver({ timeout: 5000, tries: 2 });
+
+/**
+ * TXT records of a domain; strings split by the 255-byte limit are joined.
+ * A domain that does not resolve has none.
+ */
+export async function lookupTxtRecords(domain: string): Promise<string[]> {
+  const name = domain.trim().toLowerCase().replace(/^@/, "");
+  if (!name) return [];
+
+  try {
+    const records = await resolver.resolveTxt(name);
+    return records.map((chunks) => chunks.join(""));
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * API Error Model
+ *
+ * SQL functions signal failures with custom SQLSTATE codes:
+ *
+ *   RAISE EXCEPTION 'Company not found: %', _company_id USING ERRCODE = 'AK404';
+ *   RAISE EXCEPTION 'User with this email already exists' USING ERRCODE = 'AK409', COLUMN = 'email';
+ *
+ * The gateway translates them into an HTTP status and a stable body:
+ *
+ *   { code: "NOT_FOUND", message: "Company not found: ...", field?: "email", details?: {...} }
+ *
+ * `field` comes from `USING COLUMN`, `details` from `USING DETAIL` (parsed when
+ * it is JSON). Clients branch on `code`, never on `message`.
+ */
+
+import type { Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+
+export type ApiErrorCode =
+  | "UNAUTHENTICATED"
+  | "INVALID_CREDENTIALS"
+  | "ACCOUNT_NOT_VERIFIED"
+  | "ACCOUNT_LOCKED"
+  | "TWO_FACTOR_REQUIRED"
+  | "PASSWORD_CHANGE_REQUIRED"
+  | "SSO_REQUIRED"
+  | "PERMISSION_DENIED"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "EXPIRED"
+  | "VALIDATION_FAILED"
+  | "RATE_LIMITED"
+  | "BAD_REQUEST"
+  | "SERVICE_UNAVAILABLE"
+  | "INTERNAL_ERROR";
+
+export interface ApiErrorBody {
+  code: ApiErrorCode;
+  message: string;
+  /** API parameter the error refers to (without the `_` prefix) */
+  field?: string;
+  details?: unknown;
+}
+
+/** HTTP status for every error code */
+export const ERROR_STATUS: Record<ApiErrorCode, ContentfulStatusCode> = {
+  UNAUTHENTICATED: 401,
+  INVALID_CREDENTIALS: 401,
+  ACCOUNT_NOT_VERIFIED: 403,
+  ACCOUNT_LOCKED: 403,
+  TWO_FACTOR_REQUIRED: 403,
+  PASSWORD_CHANGE_REQUIRED: 403,
+  SSO_REQUIRED: 403,
+  PERMISSION_DENIED: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  EXPIRED: 410,
+  VALIDATION_FAILED: 400,
+  RATE_LIMITED: 429,
+  BAD_REQUEST: 400,
+  SERVICE_UNAVAILABLE: 503,
+  INTERNAL_ERROR: 500,
+};
+
+/**
+ * SQLSTATE -> error code
+ *
+ * AKxxx codes are raised by our SQL functions; the rest are standard
+ * PostgreSQL errors that clients can act on.
+ */
+export const SQLSTATE_ERROR_CODES: Record<string, ApiErrorCode> = {
+  AK401: "UNAUTHENTICATED",
+  AK402: "INVALID_CREDENTIALS",
+  AK403: "PERMISSION_DENIED",
+  AK404: "NOT_FOUND",
+  AK409: "CONFLICT",
+  AK410: "EXPIRED",
+  AK412: "ACCOUNT_NOT_VERIFIED",
+  AK422: "VALIDATION_FAILED",
+  AK423: "ACCOUNT_LOCKED",
+  AK428: "SSO_REQUIRED",
+  AK429: "RATE_LIMITED",
+  "23505": "CONFLICT", // unique_violation
+  "23503": "CONFLICT", // foreign_key_violation
+  "23502": "VALIDATION_FAILED", // not_null_violation
+  "23514": "VALIDATION_FAILED", // check_violation
+  "22P02": "VALIDATION_FAILED", // invalid_text_representation (bad UUID, number, ...)
+  "22007": "VALIDATION_FAILED", // invalid_datetime_format
+  "22023": "VALIDATION_FAILED", // invalid_parameter_value
+  "42501": "PERMISSION_DENIED", // insufficient_privilege (RLS)
+  P0001: "BAD_REQUEST", // raise_exception without ERRCODE
+  P0002: "NOT_FOUND", // no_data_found
+};
+
+/**
+ * Error with a stable code, thrown or returned by the gateway
+ */
+export class ApiError extends Error {
+  code: ApiErrorCode;
+  field?: string;
+  details?: unknown;
+
+  constructor(code: ApiErrorCode, message: string, options: { field?: string; details?: unknown } = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.field = options.field;
+    this.details = options.details;
+  }
+
+  get status(): ContentfulStatusCode {
+    return ERROR_STATUS[this.code];
+  }
+
+  toJSON(): ApiErrorBody {
+    const body: ApiErrorBody = { code: this.code, message: this.message };
+    if (this.field) body.field = this.field;
+    if (this.details !== undefined) body.details = this.details;
+    return body;
+  }
+}
+
+/**
+ * Convert any error (ApiError, PostgreSQL error, unexpected exception) to ApiError
+ *
+ * A plain RAISE EXCEPTION (P0001) stays BAD_REQUEST with its message. Any
+ * other error becomes INTERNAL_ERROR without leaking the original message
+ * (syntax errors, missing functions, connection failures).
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  const pgError = error as { code?: unknown; message?: string; column?: string; detail?: string };
+  const code = typeof pgError?.code === "string" ? SQLSTATE_ERROR_CODES[pgError.code] : undefined;
+
+  if (code) {
+    return new ApiError(code, pgError.message || "Database error", {
+      field: pgError.column?.replace(/^_/, ""),
+      details: parseDetail(pgError.detail),
+    });
+  }
+
+  return new ApiError("INTERNAL_ERROR", "Internal server error");
+}
+
+/**
+ * Send an error as the standard JSON body with its HTTP status
+ *
+ * `details.retryAfter` (seconds, e.g. sign-in throttling) is also sent as
+ * the Retry-After header.
+ *
+ * @param extra - Additional body fields (e.g. the failed call of a batch)
+ */
+export function errorResponse(c: Context, error: unknown, extra: Record<string, unknown> = {}) {
+  const apiError = toApiError(error);
+  const retryAfter = (apiError.details as { retryAfter?: unknown } | undefined)?.retryAfter;
+
+  if (typeof retryAfter === "number") {
+    c.header("Retry-After", String(retryAfter));
+  }
+
+  return c.json({ ...apiError.toJSON(), ...extra }, apiError.status);
+}
+
+function parseDetail(detail: string | undefined): unknown {
+  if (!detail) return undefined;
+
+  try {
+    return JSON.parse(detail);
+  } catch {
+    return detail;
+  }
+}
@@ -36,6 +36,23 @@ if (SMTP_USER && SMTP_PASS) {
 
 export const transporter = nodemailer.createTransport(transportOptions);
 
+// For values the client controls (e.g. its user agent)
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// What made a sign-in unfamiliar (auth.assess_signin_risk reasons)
+const SIGN_IN_ALERT_REASONS: Record<string, string> = {
+  newNetwork: "a network you have not used before",
+  newIp: "a new IP address",
+  newDevice: "a new device or browser",
+  unusualTime: "an unusual time of day",
+};
+
 // Email templates
 export const emailTemplates = {
   verifyAccount: (code: string) => ({
@@ -111,6 +128,208 @@ export const emailTemplates = {
     text: `Password Reset Request\n\nWe received a request to reset your password.\n\nReset link: ${resetLink}\n\nThis link will expire in 1 hour.\n\nIf you didn't request a password reset, please ignore this email.`,
   }),
 
+  accountLocked: (unlockLink: string) => ({
+    subject: "Your Account Has Been Locked - YSollo",
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+            <h1 style="color: #000; margin: 0;">Account Locked</h1>
+          </div>
+
+          <div style="background-color: #fff; padding: 20px; border: 1px solid #e9ecef; border-radius: 8px;">
+            <h2 style="color: #000; margin-top: 0;">Too Many Failed Sign-In Attempts</h2>
+            <p>We temporarily locked your account after several failed sign-in attempts. If this was you, click the button below to unlock it:</p>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${unlockLink}" style="background-color: #000; color: #fff; padding: 12px 30px; text-decoration: none; border-radius: 6px; display: inline-block;">Unlock Account</a>
+            </div>
+
+            <p>Or copy and paste this link into your browser:</p>
+            <p style="background-color: #f8f9fa; padding: 10px; border-radius: 4px; word-break: break-all; font-size: 12px;">${unlockLink}</p>
+
+            <p>The lock expires on its own, and so does this link.</p>
+            <p>If you didn't try to sign in, someone may be guessing your password. Consider resetting your password after unlocking.</p>
+          </div>
+
+          <div style="margin-top: 20px; text-align: center; color: #6c757d; font-size: 12px;">
+            <p>© ${new Date().getFullYear()} YSollo. All rights reserved.</p>
+          </div>
+        </body>
+      </html>
+    `,
+    text: `Account Locked\n\nWe temporarily locked your account after several failed sign-in attempts.\n\nUnlock link: ${unlockLink}\n\nThe lock expires on its own, and so does this link.\n\nIf you didn't try to sign in, consider resetting your password after unlocking.`,
+  }),
+
+  magicLink: (signInLink: string) => ({
+    subject: "Your Sign-In Link - YSollo",
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+            <h1 style="color: #000; margin: 0;">Sign In to YSollo</h1>
+          </div>
+
+          <div style="background-color: #fff; padding: 20px; border: 1px solid #e9ecef; border-radius: 8px;">
+            <h2 style="color: #000; margin-top: 0;">Sign In Without a Password</h2>
+            <p>Click the button below to sign in. The link works once:</p>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${signInLink}" style="background-color: #000; color: #fff; padding: 12px 30px; text-decoration: none; border-radius: 6px; display: inline-block;">Sign In</a>
+            </div>
+
+            <p>Or copy and paste this link into your browser:</p>
+            <p style="background-color: #f8f9fa; padding: 10px; border-radius: 4px; word-break: break-all; font-size: 12px;">${signInLink}</p>
+
+            <p>This link will expire in 15 minutes.</p>
+            <p>If you didn't ask to sign in, please ignore this email. Nobody can sign in without opening this link.</p>
+          </div>
+
+          <div style="margin-top: 20px; text-align: center; color: #6c757d; font-size: 12px;">
+            <p>© ${new Date().getFullYear()} YSollo. All rights reserved.</p>
+          </div>
+        </body>
+      </html>
+    `,
+    text: `Sign In to YSollo\n\nOpen this link to sign in (it works once): ${signInLink}\n\nThis link will expire in 15 minutes.\n\nIf you didn't ask to sign in, please ignore this email.`,
+  }),
+
+  newSignIn: (data: {
+    ipAddress: string | null;
+    userAgent: string | null;
+    reasons: string[];
+    reportLink: string;
+  }) => {
+    const reasons = data.reasons.map((reason) => SIGN_IN_ALERT_REASONS[reason] || reason).join(", ");
+    const ipAddress = data.ipAddress || "unknown";
+    const userAgent = data.userAgent || "unknown";
+
+    return {
+      subject: "New Sign-In to Your Account - YSollo",
+      html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+            <h1 style="color: #000; margin: 0;">New Sign-In to Your Account</h1>
+          </div>
+
+          <div style="background-color: #fff; padding: 20px; border: 1px solid #e9ecef; border-radius: 8px;">
+            <h2 style="color: #000; margin-top: 0;">Was This You?</h2>
+            <p>Your account was just signed in to from ${escapeHtml(reasons)}:</p>
+            <p style="background-color: #f8f9fa; padding: 10px; border-radius: 4px; word-break: break-all; font-size: 12px;">
+              IP address: ${escapeHtml(ipAddress)}<br>
+              Device: ${escapeHtml(userAgent)}
+            </p>
+            <p>If this was you, there is nothing to do. If it wasn't, secure your account now: this signs out every device and asks you for a new password.</p>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${data.reportLink}" style="background-color: #dc3545; color: #fff; padding: 12px 30px; text-decoration: none; border-radius: 6px; display: inline-block;">This Wasn't Me</a>
+            </div>
+
+            <p>Or copy and paste this link into your browser:</p>
+            <p style="background-color: #f8f9fa; padding: 10px; border-radius: 4px; word-break: break-all; font-size: 12px;">${data.reportLink}</p>
+
+            <p>This link will expire in 7 days.</p>
+          </div>
+
+          <div style="margin-top: 20px; text-align: center; color: #6c757d; font-size: 12px;">
+            <p>© ${new Date().getFullYear()} YSollo. All rights reserved.</p>
+          </div>
+        </body>
+      </html>
+    `,
+      text: `New Sign-In to Your Account\n\nYour account was just signed in to from ${reasons}.\n\nIP address: ${ipAddress}\nDevice: ${userAgent}\n\nIf this was you, there is nothing to do. If it wasn't, secure your account (signs out every device and asks for a new password): ${data.reportLink}\n\nThis link will expire in 7 days.`,
+    };
+  },
+
+  emailChangeCode: (code: string) => ({
+    subject: "Confirm Your New Email - YSollo",
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+            <h1 style="color: #000; margin: 0;">Confirm Your New Email</h1>
+          </div>
+
+          <div style="background-color: #fff; padding: 20px; border: 1px solid #e9ecef; border-radius: 8px;">
+            <h2 style="color: #000; margin-top: 0;">Email Change Requested</h2>
+            <p>Enter the code below in your account security settings to sign in with this email from now on:</p>
+
+            <div style="background-color: #f8f9fa; padding: 20px; text-align: center; border-radius: 8px; margin: 20px 0;">
+              <h1 style="color: #000; font-size: 32px; letter-spacing: 8px; margin: 0;">${code}</h1>
+            </div>
+
+            <p>This code will expire in 1 hour.</p>
+            <p>If you didn't ask to use this email with YSollo, please ignore this email.</p>
+          </div>
+
+          <div style="margin-top: 20px; text-align: center; color: #6c757d; font-size: 12px;">
+            <p>© ${new Date().getFullYear()} YSollo. All rights reserved.</p>
+          </div>
+        </body>
+      </html>
+    `,
+    text: `Confirm Your New Email\n\nYour confirmation code is: ${code}\n\nEnter it in your account security settings. This code will expire in 1 hour.\n\nIf you didn't ask to use this email with YSollo, please ignore this email.`,
+  }),
+
+  emailChangeRequested: (newEmail: string, cancelLink: string) => ({
+    subject: "Your Email Is About to Change - YSollo",
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+            <h1 style="color: #000; margin: 0;">Email Change Requested</h1>
+          </div>
+
+          <div style="background-color: #fff; padding: 20px; border: 1px solid #e9ecef; border-radius: 8px;">
+            <h2 style="color: #000; margin-top: 0;">Was This You?</h2>
+            <p>Someone asked to change the email of your account to <strong>${newEmail}</strong>. The change happens once the code sent to that address is entered.</p>
+            <p>If you didn't ask for this, cancel the change:</p>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${cancelLink}" style="background-color: #000; color: #fff; padding: 12px 30px; text-decoration: none; border-radius: 6px; display: inline-block;">Cancel Email Change</a>
+            </div>
+
+            <p>Or copy and paste this link into your browser:</p>
+            <p style="background-color: #f8f9fa; padding: 10px; border-radius: 4px; word-break: break-all; font-size: 12px;">${cancelLink}</p>
+
+            <p>Whoever asked knows your password: after cancelling, reset your password.</p>
+          </div>
+
+          <div style="margin-top: 20px; text-align: center; color: #6c757d; font-size: 12px;">
+            <p>© ${new Date().getFullYear()} YSollo. All rights reserved.</p>
+          </div>
+        </body>
+      </html>
+    `,
+    text: `Email Change Requested\n\nSomeone asked to change the email of your account to ${newEmail}. The change happens once the code sent to that address is entered.\n\nIf you didn't ask for this, cancel the change: ${cancelLink}\n\nWhoever asked knows your password: after cancelling, reset your password.`,
+  }),
+
   jobOffer: (data: {
     candidateName: string;
     companyName: string;
@@ -325,7 +544,7 @@ export const emailTemplates = {
               data.invitationLink
             }</p>
 
-            <p><strong>This invitation will expire in 24 hours.</strong></p>
+            <p><strong>This invitation will expire in 7 days.</strong></p>
 
             <p>If you didn't expect this invitation, please ignore this email or contact support.</p>
           </div>
@@ -346,7 +565,7 @@ export const emailTemplates = {
         : "Note: Use your existing password to sign in after accepting the invitation."
     }\n\nAccept invitation: ${
       data.invitationLink
-    }\n\nThis invitation will expire in 24 hours.\n\nIf you didn't expect this invitation, please ignore this email.`,
+    }\n\nThis invitation will expire in 7 days.\n\nIf you didn't expect this invitation, please ignore this email.`,
   }),
 
   inquiryConfirmation: (data: {
@@ -461,6 +680,56 @@ export async function sendPasswordResetEmail(
   return sendEmail(email, template.subject, template.html, template.text);
 }
 
+export async function sendAccountUnlockEmail(
+  email: string,
+  unlockToken: string
+) {
+  const unlockLink = `${
+    process.env.APP_URL || "http://localhost:5173"
+  }/auth/unlock-account?token=${unlockToken}`;
+  const template = emailTemplates.accountLocked(unlockLink);
+  return sendEmail(email, template.subject, template.html, template.text);
+}
+
+export async function sendMagicLinkEmail(email: string, token: string) {
+  const signInLink = `${
+    process.env.APP_URL || "http://localhost:5173"
+  }/auth/signin?magic_link=${token}`;
+  const template = emailTemplates.magicLink(signInLink);
+  return sendEmail(email, template.subject, template.html, template.text);
+}
+
+export async function sendSignInAlertEmail(alert: {
+  email: string;
+  token: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  reasons: string[];
+}) {
+  const reportLink = `${
+    process.env.APP_URL || "http://localhost:5173"
+  }/auth/report-signin?token=${alert.token}`;
+  const template = emailTemplates.newSignIn({ ...alert, reportLink });
+  return sendEmail(alert.email, template.subject, template.html, template.text);
+}
+
+export async function sendEmailChangeCodeEmail(newEmail: string, code: string) {
+  const template = emailTemplates.emailChangeCode(code);
+  return sendEmail(newEmail, template.subject, template.html, template.text);
+}
+
+export async function sendEmailChangeNoticeEmail(
+  oldEmail: string,
+  newEmail: string,
+  cancelToken: string
+) {
+  const cancelLink = `${
+    process.env.APP_URL || "http://localhost:5173"
+  }/auth/cancel-email-change?token=${cancelToken}`;
+  const template = emailTemplates.emailChangeRequested(newEmail, cancelLink);
+  return sendEmail(oldEmail, template.subject, template.html, template.text);
+}
+
 export async function sendJobOfferEmail(data: {
   email: string;
   candidateName: string;
@@ -534,7 +803,10 @@ export async function sendUserInvitationEmail(data: {
   isNewUser: boolean;
 }) {
   const appUrl = process.env.APP_URL || "http://localhost:5173";
-  const invitationLink = `${appUrl}/auth/accept-invitation?email=${encodeURIComponent(data.email)}`;
+  // Invitees with an account accept without setting a password
+  const invitationLink = `${appUrl}/auth/accept-invitation?email=${encodeURIComponent(data.email)}${
+    data.isNewUser ? "" : "&existing=1"
+  }`;
 
   const template = emailTemplates.userInvitation({
     email: data.email,
@@ -0,0 +1,61 @@
+/**
+ * Client IP
+ *
+ * The IP keys the sign-in throttle (login_throttle), the per-IP rate limits
+ * and the "new network" signal of sign-in risk, and is stored with sessions.
+ * X-Forwarded-For, X-Real-IP and CF-Connecting-IP are set by whoever sends
+ * the request, so they are only read when the request comes from a proxy
+ * listed in TRUSTED_PROXIES (comma-separated addresses, e.g. "127.0.0.1,10.0.0.5").
+ * Otherwise the client is the socket address.
+ */
+
+import type { Context } from "hono";
+import { getConnInfo } from "@hono/node-server/conninfo";
+
+/**
+ * Client IP of the request (null when unknown)
+ */
+export function getClientIp(c: Context): string | null {
+  const peer = getPeerAddress(c);
+  const trusted = getTrustedProxies();
+
+  if (!peer || !trusted.has(peer)) {
+    return peer;
+  }
+
+  // Right to left: every proxy appends the address it received the request from
+  const forwarded = c.req.header("x-forwarded-for")?.split(",").map((ip) => normalizeIp(ip.trim())) || [];
+  for (let i = forwarded.length - 1; i >= 0; i--) {
+    if (forwarded[i] && !trusted.has(forwarded[i])) return forwarded[i];
+  }
+
+  const header = c.req.header("cf-connecting-ip") || c.req.header("x-real-ip");
+  return header ? normalizeIp(header.trim()) : peer;
+}
+
+/**
+ * Address of the TCP peer: the client, or the proxy in front of the API.
+ * Not available when the app is not served by @hono/node-server (app.request()).
+ */
+function getPeerAddress(c: Context): string | null {
+  try {
+    const address = getConnInfo(c).remote.address;
+    return address ? normalizeIp(address) : null;
+  } catch {
+    return null;
+  }
+}
+
+function getTrustedProxies(): Set<string> {
+  return new Set(
+    (process.env.TRUSTED_PROXIES || "")
+      .split(",")
+      .map((ip) => normalizeIp(ip.trim()))
+      .filter(Boolean)
+  );
+}
+
+/** IPv4 clients of a dual-stack socket arrive as "::ffff:203.0.113.1" */
+function normalizeIp(ip: string): string {
+  return ip.startsWith("::ffff:") && ip.includes(".") ? ip.slice(7) : ip;
+}
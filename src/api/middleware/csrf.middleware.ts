@@ -0,0 +1,45 @@
+import type { Context, Next } from "hono";
+import { getCookie } from "hono/cookie";
+import { timingSafeEqual } from "node:crypto";
+import { ApiError, errorResponse } from "../errors";
+import { CSRF_COOKIE, CSRF_HEADER, SESSION_COOKIE } from "./session-cookie";
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+/**
+ * Middleware для защиты от CSRF (double-submit cookie)
+ *
+ * Браузер отправляет session cookie автоматически, в том числе в запросах,
+ * инициированных чужим сайтом. Поэтому изменяющие запросы, которые
+ * аутентифицируются cookie, должны нести заголовок X-CSRF-Token со значением
+ * cookie csrf_token: прочитать его может только JavaScript нашего приложения.
+ *
+ * Запросы с Authorization header (API клиенты) и без session cookie не
+ * проверяются - их нельзя подделать из браузера.
+ */
+export async function csrfMiddleware(c: Context, next: Next) {
+  if (SAFE_METHODS.has(c.req.method)) return next();
+  if (c.req.header("authorization") || !getCookie(c, SESSION_COOKIE)) return next();
+
+  const expected = getCookie(c, CSRF_COOKIE);
+  const received = c.req.header(CSRF_HEADER);
+
+  if (!expected || !received || !tokensMatch(expected, received)) {
+    console.warn(`[CSRF] Rejected ${c.req.method} ${c.req.path}: missing or invalid CSRF token`);
+    return errorResponse(
+      c,
+      new ApiError("PERMISSION_DENIED", "Invalid or missing CSRF token", { field: "csrf_token" })
+    );
+  }
+
+  return next();
+}
+
+/**
+ * Сравнение за постоянное время
+ */
+function tokensMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,187 @@
+import type { Context, Next } from "hono";
+import type { PoolClient } from "pg";
+import { getCookie } from "hono/cookie";
+import { pool } from "../db/pool";
+import { SESSION_COOKIE, clearSessionCookies, setSessionCookies } from "./session-cookie";
+import { getClientIp } from "./client-ip";
+import type { ApiTokenScope } from "./function-policy";
+
+/** Префикс API tokens (auth.issue_api_token); session tokens - UUID */
+const API_TOKEN_PREFIX = "ak_";
+
+/**
+ * Middleware для request-scoped соединения с PostgreSQL и user context
+ *
+ * Каждый запрос получает ОДНО соединение из общего pool. На этом соединении
+ * устанавливается контекст (app.user_id, app.current_user_id,
+ * app.current_company_id) через rbac.set_user_context(), поэтому RLS политики и
+ * audit триггеры видят того же пользователя, что и вызываемая функция.
+ *
+ * Порядок работы:
+ * 1. Извлекает session token из Authorization header или HttpOnly cookie
+ * 2. Валидирует session через auth.touch_session(): продлевает срок действия
+ *    и периодически выдает новый token (для cookie он сразу записывается
+ *    в ответ); недействительная cookie удаляется
+ * 3. Определяет активную компанию из заголовка X-Company-Id
+ *
+ * Сессия impersonation (auth.start_impersonation) привязана к компании, в
+ * которой ее открыли: X-Company-Id не учитывается. Ее impersonatorId уходит в
+ * rbac.set_user_context - аудит пишет обоих пользователей, а high-risk
+ * разрешения блокируются.
+ *
+ * Bearer token с префиксом "ak_" - API token (скрипты, интеграции, service
+ * accounts): вместо сессии проверяется auth.authenticate_api_token(), компания
+ * задается токеном, а его разрешения ограничивают вызовы (apiToken, см.
+ * function-policy.ts). Каждое использование пишется в audit_log. Его id
+ * уходит в rbac.set_user_context, как и impersonatorId: rbac.require_permission
+ * не пускает к строкам другой компании.
+ *
+ * 4. При первом getDb(c) на соединении устанавливается контекст
+ * 5. После ответа контекст сбрасывается (rbac.clear_user_context) и соединение
+ *    возвращается в pool; если сброс не удался - соединение уничтожается
+ *
+ * В Hono context сохраняются userId, sessionToken (текущий, после ротации),
+ * twoFactorSetupRequired (компания требует 2FA, а он не включен),
+ * passwordChangeRequired (пароль старше срока, заданного компанией),
+ * companyId (UUID), impersonatorId (для impersonation), apiToken (для API
+ * token) и db (см. getDb).
+ */
+export async function dbContextMiddleware(c: Context, next: Next) {
+  let checkout: Promise<PoolClient> | null = null;
+  let prepared: Promise<PoolClient> | null = null;
+
+  // Одно соединение на запрос: берется из pool только при первом использовании
+  const getClient = () => (checkout ??= pool.connect());
+
+  // Соединение с установленным контекстом (для обработчиков)
+  c.set("db", () =>
+    (prepared ??= getClient().then(async (client) => {
+      await client.query("SELECT rbac.set_user_context($1, $2, $3, $4)", [
+        c.get("userId") || null,
+        c.get("companyId") || null,
+        c.get("impersonatorId") || null,
+        c.get("apiToken")?.id || null,
+      ]);
+      return client;
+    }))
+  );
+
+  try {
+    const { token: sessionToken, fromCookie } = getSessionToken(c);
+    const apiToken = !fromCookie && sessionToken?.startsWith(API_TOKEN_PREFIX) ? sessionToken : null;
+
+    if (apiToken) {
+      try {
+        const db = await getClient();
+
+        const result = await db.query(
+          "SELECT auth.authenticate_api_token($1, $2, $3, $4) AS token",
+          [
+            apiToken,
+            getClientIp(c),
+            c.req.header("user-agent") || null,
+            c.req.path,
+          ]
+        );
+        const token = result.rows[0]?.token;
+
+        if (token) {
+          c.set("userId", token.userId);
+          // Компания задается токеном, X-Company-Id не учитывается
+          c.set("companyId", token.companyId);
+          c.set("apiToken", {
+            id: token.tokenId,
+            companyId: token.companyId,
+            permissions: token.permissions,
+          } satisfies ApiTokenScope);
+        }
+      } catch (error) {
+        console.error("[DB Context] Error resolving API token:", error);
+      }
+    } else if (sessionToken) {
+      try {
+        const db = await getClient();
+
+        // Проверить session, продлить срок и при необходимости ротировать token
+        const result = await db.query("SELECT auth.touch_session($1, $2) AS session", [
+          sessionToken,
+          fromCookie,
+        ]);
+        const session = result.rows[0]?.session;
+
+        if (!session && fromCookie) {
+          clearSessionCookies(c);
+        }
+
+        if (session && fromCookie && session.token !== sessionToken) {
+          setSessionCookies(c, session.token, session.expiresAt);
+        }
+
+        const userId = session?.userId;
+
+        if (userId) {
+          c.set("userId", userId);
+          c.set("sessionToken", session.token);
+          c.set("twoFactorSetupRequired", session.twoFactorSetupRequired === true);
+          c.set("passwordChangeRequired", session.passwordChangeRequired === true);
+
+          // Impersonation: компания задается сессией
+          if (session.impersonatorId) {
+            c.set("impersonatorId", session.impersonatorId);
+            c.set("companyId", session.companyId);
+          }
+
+          // Активная компания: companies.id (UUID) или companies._id
+          const companyHeader = c.req.header("x-company-id");
+          if (companyHeader && !session.impersonatorId) {
+            const company = await db.query(
+              "SELECT id FROM companies WHERE id::TEXT = $1 OR _id = $1",
+              [companyHeader]
+            );
+            if (company.rows[0]) c.set("companyId", company.rows[0].id);
+          }
+        }
+      } catch (error) {
+        console.error("[DB Context] Error resolving session:", error);
+        // Не прерываем запрос: публичные функции доступны без сессии
+      }
+    }
+
+    await next();
+  } finally {
+    await releaseClient(checkout);
+  }
+}
+
+/**
+ * Извлечь session token из Authorization header (API клиенты) или cookie (браузер)
+ */
+function getSessionToken(c: Context): { token?: string; fromCookie: boolean } {
+  const bearer = c.req.header("authorization")?.replace("Bearer ", "");
+  if (bearer) return { token: bearer, fromCookie: false };
+
+  return { token: getCookie(c, SESSION_COOKIE), fromCookie: true };
+}
+
+/**
+ * Сбросить контекст и вернуть соединение в pool
+ */
+async function releaseClient(connecting: Promise<PoolClient> | null) {
+  if (!connecting) return;
+
+  let client: PoolClient;
+  try {
+    client = await connecting;
+  } catch {
+    return; // checkout failed - nothing to release
+  }
+
+  try {
+    await client.query("SELECT rbac.clear_user_context()");
+    client.release();
+  } catch (error) {
+    console.error("[DB Context] Failed to reset context, discarding connection:", error);
+    // Never return a connection with another user's context to the pool
+    client.release(error as Error);
+  }
+}
@@ -0,0 +1,452 @@
+/**
+ * Function Policy - authorization for the /api/:fn gateway
+ *
+ * Every exposed PostgreSQL function must be listed here with one of:
+ * - public        - callable without a session (signin, signup, reference data)
+ * - authenticated - requires a valid session
+ * - permission    - requires a session AND rbac.has_permission() in the company
+ * - system        - requires a session of a platform administrator
+ *                   (users.is_system_admin): functions that reach every user
+ *                   or company, not one tenant
+ *
+ * Functions that are not listed are rejected (default deny), so a new SQL
+ * function is not reachable from the browser until someone decides who may call it.
+ *
+ * For non-public functions the session user is injected server-side into the
+ * actor parameter (`user_id` by default) - a value sent by the client is ignored.
+ *
+ * The permission check runs in the company the caller names (see
+ * authorizeFunctionCall). Functions that take a row id (node, position, task)
+ * must check the company that owns the row themselves with
+ * rbac.require_permission(): anybody can create a company and own it.
+ *
+ * Members of a company that requires 2FA and whose deadline has passed can only
+ * call TWO_FACTOR_SETUP_FUNCTIONS until they enable it. Likewise a user whose
+ * password is older than the company's maximum age can only call
+ * PASSWORD_CHANGE_FUNCTIONS until they change it.
+ *
+ * While impersonating (auth.start_impersonation) the functions in
+ * IMPERSONATION_DENIED_FUNCTIONS are rejected: the impersonator sees the app
+ * as the member but cannot change their sign-in, security or personal data.
+ * The session is bound to the company it was started in, so a company_id of
+ * another company is rejected as well. High-risk permissions are refused by
+ * rbac.has_permission itself.
+ *
+ * Callers authenticated by an API token (see db-context.middleware.ts) can only
+ * call permission functions whose permission the token grants, in the token's
+ * company. Functions open to any session (auth.change_password,
+ * auth.create_api_token, ...) stay out of their reach.
+ */
+
+import type { Context } from "hono";
+import type { Pool, PoolClient } from "pg";
+import type { FunctionDefinition } from "../db/function-registry";
+import type { ApiErrorCode } from "../errors";
+
+export type FunctionAccess = "public" | "authenticated" | "permission" | "system";
+
+export interface FunctionPolicy {
+  access: FunctionAccess;
+  /** Permission name checked with rbac.has_permission() (access = "permission") */
+  permission?: string;
+  /**
+   * Parameter that receives the session user id. Defaults to "user_id".
+   * Use null when `user_id` is the target of the call (e.g. company.remove_member),
+   * not the caller.
+   */
+  actor?: string | null;
+}
+
+const PUBLIC: FunctionPolicy = { access: "public" };
+const AUTHENTICATED: FunctionPolicy = { access: "authenticated" };
+const SYSTEM_ADMIN: FunctionPolicy = { access: "system", actor: null };
+
+function requires(permission: string, actor?: string | null): FunctionPolicy {
+  return { access: "permission", permission, actor };
+}
+
+/**
+ * Policies by function name. "schema.*" applies to every function in a schema.
+ */
+export const FUNCTION_POLICIES: Record<string, FunctionPolicy> = {
+  // Auth - anonymous flows
+  "auth.signup": PUBLIC,
+  "auth.signin": PUBLIC,
+  "auth.request_magic_link": PUBLIC,
+  "auth.signin_with_magic_link": PUBLIC,
+  "auth.verify_account": PUBLIC,
+  "auth.resend_verification": PUBLIC,
+  "auth.verify_2fa": PUBLIC,
+  "auth.verify_session": PUBLIC,
+  "auth.signout": PUBLIC,
+  "auth.forgot_password": PUBLIC,
+  "auth.reset_password": PUBLIC,
+  "auth.unlock_account": PUBLIC,
+  "auth.report_signin": PUBLIC,
+  "auth.cancel_email_change": PUBLIC,
+  "auth.accept_invitation": PUBLIC,
+  "auth.get_sso_provider": PUBLIC,
+
+  // Auth - own account
+  "auth.update_profile": AUTHENTICATED,
+  "auth.update_language": AUTHENTICATED,
+  "auth.change_password": AUTHENTICATED,
+  "auth.request_email_change": AUTHENTICATED,
+  "auth.get_email_change": AUTHENTICATED,
+  "auth.confirm_email_change": AUTHENTICATED,
+  "auth.export_personal_data": AUTHENTICATED,
+  "auth.request_account_erasure": AUTHENTICATED,
+  "auth.get_account_erasure": AUTHENTICATED,
+  "auth.cancel_account_erasure": AUTHENTICATED,
+  "auth.get_password_policy": AUTHENTICATED,
+  "auth.setup_2fa": AUTHENTICATED,
+  "auth.enable_2fa": AUTHENTICATED,
+  "auth.disable_2fa": AUTHENTICATED,
+  "auth.get_2fa_status": AUTHENTICATED,
+  "auth.regenerate_recovery_codes": AUTHENTICATED,
+  "auth.get_trusted_devices": AUTHENTICATED,
+  "auth.revoke_trusted_devices": AUTHENTICATED,
+  "auth.get_sessions": AUTHENTICATED,
+  "auth.revoke_session": AUTHENTICATED,
+  "auth.revoke_other_sessions": AUTHENTICATED,
+  "auth.create_api_token": AUTHENTICATED,
+  "auth.get_api_tokens": AUTHENTICATED,
+  "auth.revoke_api_token": AUTHENTICATED,
+  "auth.stop_impersonation": AUTHENTICATED,
+  "auth.get_user_by_email": SYSTEM_ADMIN,
+  "auth.invite_user": requires("company.invite"),
+  "auth.bulk_invite_users": requires("company.invite"),
+  "auth.start_impersonation": requires("auth.impersonate"),
+
+  // Company
+  "company.create_company": AUTHENTICATED,
+  "company.get_user_companies": AUTHENTICATED,
+  "company.has_access": AUTHENTICATED,
+  "company.get_user_role": AUTHENTICATED,
+  "company.has_permission": AUTHENTICATED,
+  "company.get_company_by_id": requires("company.read"),
+  "company.update_company": requires("company.update"),
+  "company.delete_company": requires("company.delete"),
+  "company.get_company_members": requires("company.view_members"),
+  "company.add_member": requires("company.invite", null),
+  "company.remove_member": requires("company.remove_member", null),
+  "company.update_member_role": requires("company.change_roles", null),
+  "company.transfer_ownership": requires("company.change_roles", "current_owner_id"),
+  "company.get_invitations": requires("company.invite"),
+  "company.resend_invitation": requires("company.invite"),
+  "company.revoke_invitation": requires("company.invite"),
+  "company.get_sso_settings": requires("company.update"),
+  "company.update_sso_settings": requires("company.update"),
+  "company.verify_sso_domain": requires("company.update"),
+  "company.get_service_accounts": requires("auth.manage_users"),
+  "company.create_service_account": requires("auth.manage_users"),
+  "company.delete_service_account": requires("auth.manage_users"),
+  "company.create_service_account_token": requires("auth.manage_users"),
+  "company.revoke_service_account_token": requires("auth.manage_users"),
+
+  // Users
+  "users.get_by_company": requires("auth.view_users"),
+  "users.get_stats": requires("auth.view_users"),
+
+  // Users - platform-wide (accounts belong to no single company)
+  "users.get_by_id": SYSTEM_ADMIN,
+  "users.get_all": SYSTEM_ADMIN,
+  "users.toggle_block": SYSTEM_ADMIN,
+  "users.unlock": SYSTEM_ADMIN,
+  "users.delete": SYSTEM_ADMIN,
+
+  // RBAC - own permissions
+  "rbac.has_permission": AUTHENTICATED,
+  "rbac.get_user_permissions": AUTHENTICATED,
+  "rbac.check_multiple_permissions": AUTHENTICATED,
+  "rbac.check_any_permission": AUTHENTICATED,
+  "rbac.list_permissions": AUTHENTICATED,
+  "rbac.get_role_permissions": AUTHENTICATED,
+
+  // RBAC - permission management
+  "rbac.get_permission_overrides": requires("company.change_roles", null),
+  "rbac.grant_permission": requires("company.change_roles", "granted_by"),
+  "rbac.revoke_permission": requires("company.change_roles", "revoked_by"),
+  "rbac.remove_permission_override": requires("company.change_roles", "removed_by"),
+  "rbac.get_custom_roles": requires("company.change_roles"),
+  "rbac.create_custom_role": requires("company.change_roles"),
+  "rbac.update_custom_role": requires("company.change_roles"),
+  "rbac.delete_custom_role": requires("company.change_roles"),
+  "rbac.assign_custom_role": requires("company.change_roles"),
+  "rbac.get_permission_matrix": requires("company.change_roles"),
+  "rbac.explain_user_permissions": requires("company.change_roles"),
+  "rbac.get_permission_holders": requires("company.change_roles"),
+
+  // OrgChart
+  "orgchart.get_all_orgcharts": requires("orgchart.read"),
+  "orgchart.get_tree": requires("orgchart.read"),
+  "orgchart.get_appointment_history": requires("orgchart.read"),
+  "orgchart.get_direct_reports": requires("orgchart.read"),
+  "orgchart.get_reporting_chain": requires("orgchart.read"),
+  "orgchart.create_orgchart": requires("orgchart.create"),
+  "orgchart.create_department": requires("orgchart.update"),
+  "orgchart.create_position": requires("orgchart.update"),
+  "orgchart.update_node": requires("orgchart.update"),
+  "orgchart.delete_node": requires("orgchart.update"),
+  "orgchart.update_status": requires("orgchart.update"),
+  "orgchart.duplicate_orgchart": requires("orgchart.duplicate"),
+  "orgchart.create_appointment": requires("orgchart.appoint", "acting_user_id"),
+  "orgchart.remove_appointment": requires("orgchart.appoint", "acting_user_id"),
+  "orgchart.transfer_appointment": requires("orgchart.appoint", "acting_user_id"),
+  "orgchart.update_job_offer": requires("orgchart.appoint", "acting_user_id"),
+
+  // DoA
+  "doa.get_matrices": requires("doa.read"),
+  "doa.get_matrix": requires("doa.read"),
+  "doa.get_active_matrix_for_type": requires("doa.read"),
+  "doa.create_matrix": requires("doa.create", "created_by"),
+  "doa.update_matrix": requires("doa.update"),
+  "doa.delete_matrix": requires("doa.delete"),
+
+  // Tasks
+  "task.get_user_tasks": AUTHENTICATED,
+  "task.get_pending_tasks": AUTHENTICATED,
+  "task.create_task": requires("task.create", "creator_id"),
+  "task.update_task": requires("task.update"),
+  "task.complete_task": requires("task.update"),
+  "task.delete_task": requires("task.delete"),
+
+  // Inquiry (contact form is public; inquiries belong to no company)
+  "inquiry.create_inquiry": PUBLIC,
+  "inquiry.get_all_inquiries": SYSTEM_ADMIN,
+  "inquiry.get_inquiry_by_id": SYSTEM_ADMIN,
+  "inquiry.get_inquiries_by_email": SYSTEM_ADMIN,
+  "inquiry.get_statistics": SYSTEM_ADMIN,
+  "inquiry.update_status": SYSTEM_ADMIN,
+  "inquiry.delete_inquiry": SYSTEM_ADMIN,
+
+  // Reference data
+  "reference.*": PUBLIC,
+};
+
+/**
+ * Find the policy for a function (exact name first, then "schema.*")
+ */
+export function getFunctionPolicy(functionName: string): FunctionPolicy | undefined {
+  const schema = functionName.split(".")[0];
+  return FUNCTION_POLICIES[functionName] || FUNCTION_POLICIES[`${schema}.*`];
+}
+
+/**
+ * Non-public functions still callable while 2FA setup is enforced
+ */
+export const TWO_FACTOR_SETUP_FUNCTIONS = [
+  "auth.setup_2fa",
+  "auth.enable_2fa",
+  "auth.get_2fa_status",
+  "auth.change_password",
+  "auth.get_password_policy",
+  "auth.update_language",
+  "company.get_user_companies",
+];
+
+/**
+ * Non-public functions still callable while the password has expired
+ */
+export const PASSWORD_CHANGE_FUNCTIONS = [
+  "auth.change_password",
+  "auth.get_2fa_status",
+  "auth.get_password_policy",
+  "auth.update_language",
+  "company.get_user_companies",
+];
+
+/**
+ * Functions an impersonator cannot call on behalf of the member
+ */
+export const IMPERSONATION_DENIED_FUNCTIONS = [
+  "auth.update_profile",
+  "auth.change_password",
+  "auth.request_email_change",
+  "auth.confirm_email_change",
+  "auth.export_personal_data",
+  "auth.request_account_erasure",
+  "auth.cancel_account_erasure",
+  "auth.setup_2fa",
+  "auth.enable_2fa",
+  "auth.disable_2fa",
+  "auth.regenerate_recovery_codes",
+  "auth.revoke_trusted_devices",
+  "auth.revoke_session",
+  "auth.revoke_other_sessions",
+  "auth.create_api_token",
+  "auth.revoke_api_token",
+  "auth.start_impersonation",
+  "company.create_company",
+];
+
+/**
+ * Scope of the API token that authenticated the request
+ */
+export interface ApiTokenScope {
+  id: string;
+  /** companies.id (UUID) */
+  companyId: string;
+  permissions: string[];
+}
+
+export type AuthorizationResult =
+  | { allowed: true }
+  | { allowed: false; status: 401 | 403; code: ApiErrorCode; error: string };
+
+/**
+ * Check a gateway call against its policy.
+ *
+ * Mutates `body`: the actor parameter is overwritten with the session user.
+ * The company for permission checks is the `company_id` argument when the
+ * function takes one, otherwise the active company from the X-Company-Id header.
+ */
+export async function authorizeFunctionCall(
+  c: Context,
+  pool: Pool | PoolClient,
+  definition: FunctionDefinition,
+  body: Record<string, any>
+): Promise<AuthorizationResult> {
+  const policy = getFunctionPolicy(definition.name);
+
+  if (!policy) {
+    return {
+      allowed: false,
+      status: 403,
+      code: "PERMISSION_DENIED",
+      error: `Function ${definition.name} is not allowed`,
+    };
+  }
+
+  if (policy.access === "public") {
+    return { allowed: true };
+  }
+
+  const userId: string | undefined = c.get("userId");
+
+  if (!userId) {
+    return { allowed: false, status: 401, code: "UNAUTHENTICATED", error: "Authentication required" };
+  }
+
+  const apiToken: ApiTokenScope | undefined = c.get("apiToken");
+
+  if (apiToken && (policy.access !== "permission" || !apiToken.permissions.includes(policy.permission!))) {
+    return {
+      allowed: false,
+      status: 403,
+      code: "PERMISSION_DENIED",
+      error: `API token does not allow ${definition.name}`,
+    };
+  }
+
+  if (c.get("impersonatorId") && IMPERSONATION_DENIED_FUNCTIONS.includes(definition.name)) {
+    return {
+      allowed: false,
+      status: 403,
+      code: "PERMISSION_DENIED",
+      error: `${definition.name} is not available while impersonating`,
+    };
+  }
+
+  const takesCompany = definition.params.some((param) => param.name === "company_id");
+
+  // The member's other companies stay out of reach of the impersonator
+  if (c.get("impersonatorId") && takesCompany && body.company_id != null) {
+    const target = await pool.query("SELECT id FROM companies WHERE id::TEXT = $1 OR _id = $1", [
+      String(body.company_id),
+    ]);
+
+    if (target.rows[0]?.id !== c.get("companyId")) {
+      return {
+        allowed: false,
+        status: 403,
+        code: "PERMISSION_DENIED",
+        error: "Only the company of the impersonation is available while impersonating",
+      };
+    }
+  }
+
+  if (c.get("passwordChangeRequired") && !PASSWORD_CHANGE_FUNCTIONS.includes(definition.name)) {
+    return {
+      allowed: false,
+      status: 403,
+      code: "PASSWORD_CHANGE_REQUIRED",
+      error: "Your password has expired and must be changed to continue",
+    };
+  }
+
+  if (c.get("twoFactorSetupRequired") && !TWO_FACTOR_SETUP_FUNCTIONS.includes(definition.name)) {
+    return {
+      allowed: false,
+      status: 403,
+      code: "TWO_FACTOR_REQUIRED",
+      error: "Two-factor authentication must be enabled to continue",
+    };
+  }
+
+  // Never trust the caller identity sent by the client
+  const actor = policy.actor === undefined ? "user_id" : policy.actor;
+  if (actor && definition.params.some((param) => param.name === actor)) {
+    body[actor] = userId;
+  }
+
+  if (policy.access === "authenticated") {
+    return { allowed: true };
+  }
+
+  if (policy.access === "system") {
+    // Never on behalf of an impersonated member
+    const result = c.get("impersonatorId")
+      ? null
+      : await pool.query("SELECT is_system_admin FROM users WHERE _id = $1", [userId]);
+
+    if (!result?.rows[0]?.is_system_admin) {
+      return {
+        allowed: false,
+        status: 403,
+        code: "PERMISSION_DENIED",
+        error: `${definition.name} requires a system administrator`,
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  const companyId = takesCompany
+    ? body.company_id
+    : c.get("impersonatorId")
+      ? c.get("companyId")
+      : c.req.header("x-company-id") || apiToken?.companyId;
+
+  if (!companyId) {
+    return { allowed: false, status: 403, code: "PERMISSION_DENIED", error: "Active company is required" };
+  }
+
+  // Clients send either companies.id (UUID) or companies._id (text id)
+  const result = await pool.query(
+    `SELECT c.id AS company_id, rbac.has_permission($1, c.id, $3) AS allowed
+     FROM companies c
+     WHERE c.id::TEXT = $2 OR c._id = $2`,
+    [userId, String(companyId), policy.permission]
+  );
+
+  if (apiToken && result.rows[0]?.company_id !== apiToken.companyId) {
+    return {
+      allowed: false,
+      status: 403,
+      code: "PERMISSION_DENIED",
+      error: "API token is not valid for this company",
+    };
+  }
+
+  if (!result.rows[0]?.allowed) {
+    return {
+      allowed: false,
+      status: 403,
+      code: "PERMISSION_DENIED",
+      error: `Permission denied: ${policy.permission}`,
+    };
+  }
+
+  return { allowed: true };
+}
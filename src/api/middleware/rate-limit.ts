@@ -0,0 +1,84 @@
+/**
+ * Rate limits for anonymous endpoints
+ *
+ * Fixed-window counters kept in memory: every key (client IP) may call
+ * `limit` times per `windowMs`. Used by the gateway where no account exists
+ * yet to throttle (signup, verification codes, reset links); sign-in
+ * throttling lives in PostgreSQL (login_throttle) because it also locks accounts.
+ *
+ * The counters are per API process: behind several instances the effective
+ * limit is multiplied by their number.
+ */
+
+import { ApiError } from "../errors";
+
+export interface RateLimitOptions {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimiter {
+  /**
+   * Count a call for `key`
+   *
+   * @returns null when allowed, otherwise a RATE_LIMITED error whose
+   *   details.retryAfter (seconds) becomes the Retry-After header
+   */
+  hit(key: string, now?: number): ApiError | null;
+}
+
+// Expired windows are dropped once the map grows past this size
+const SWEEP_SIZE = 10_000;
+
+export function createRateLimiter({ limit, windowMs }: RateLimitOptions): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    hit(key, now = Date.now()) {
+      if (windows.size > SWEEP_SIZE) {
+        for (const [k, w] of windows) {
+          if (w.resetAt <= now) windows.delete(k);
+        }
+      }
+
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+
+      window.count++;
+      if (window.count <= limit) return null;
+
+      return new ApiError("RATE_LIMITED", "Too many attempts. Please try again later.", {
+        details: { retryAfter: Math.ceil((window.resetAt - now) / 1000) },
+      });
+    },
+  };
+}
+
+/**
+ * Limiter for a gateway endpoint. Off when the API runs with NODE_ENV=test:
+ * integration tests sign up many accounts from one client.
+ */
+export function createGatewayLimiter(options: RateLimitOptions): RateLimiter {
+  if (process.env.NODE_ENV === "test") {
+    return { hit: () => null };
+  }
+  return createRateLimiter(options);
+}
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Limits per client IP (see client-ip.ts) for anonymous /api/:fn calls: new
+ * accounts, emails to any address and attempts at 6-digit verification
+ * codes. Not callable in a batch.
+ */
+export const FUNCTION_RATE_LIMITS: Record<string, RateLimiter> = {
+  "auth.signup": createGatewayLimiter({ limit: 5, windowMs: 60 * MINUTE }),
+  "auth.resend_verification": createGatewayLimiter({ limit: 10, windowMs: 60 * MINUTE }),
+  "auth.forgot_password": createGatewayLimiter({ limit: 10, windowMs: 60 * MINUTE }),
+  "auth.verify_account": createGatewayLimiter({ limit: 20, windowMs: 15 * MINUTE }),
+  "auth.accept_invitation": createGatewayLimiter({ limit: 20, windowMs: 15 * MINUTE }),
+};
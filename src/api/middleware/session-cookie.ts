@@ -0,0 +1,105 @@
+/**
+ * Session cookies
+ *
+ * The browser never sees the session token: the gateway keeps it in an
+ * HttpOnly cookie, so injected scripts cannot read it. Next to it lives a
+ * readable CSRF cookie; the SPA echoes its value in the X-CSRF-Token header
+ * (double-submit, see csrf.middleware.ts).
+ *
+ * A third HttpOnly cookie, trusted_device, lets a device that passed 2FA with
+ * "remember this device" skip the second sign-in step (auth.signin and
+ * auth.signin_with_magic_link read it).
+ *
+ * SESSION_COOKIE_DOMAIN shares the cookies between the app and API hosts
+ * (e.g. ".example.com"). Cookies are Secure in production.
+ */
+
+import type { Context } from "hono";
+import { deleteCookie, getCookie, setCookie } from "hono/cookie";
+import type { CookieOptions } from "hono/utils/cookie";
+
+export const SESSION_COOKIE = "session_token";
+export const CSRF_COOKIE = "csrf_token";
+export const CSRF_HEADER = "X-CSRF-Token";
+export const TRUSTED_DEVICE_COOKIE = "trusted_device";
+
+/** Functions whose result contains a new session ({ session: { token, expiresAt } }) */
+export const SESSION_ISSUING_FUNCTIONS = [
+  "auth.signin",
+  "auth.signin_with_magic_link",
+  "auth.verify_2fa",
+  "auth.start_impersonation",
+  "auth.stop_impersonation",
+];
+
+/** Functions that act on (or spare) the caller's own session token */
+export const SESSION_TOKEN_FUNCTIONS = [
+  "auth.verify_session",
+  "auth.signout",
+  "auth.get_sessions",
+  "auth.revoke_other_sessions",
+  "auth.change_password",
+  "auth.confirm_email_change",
+  "auth.start_impersonation",
+  "auth.stop_impersonation",
+];
+
+function cookieOptions(): CookieOptions {
+  return {
+    path: "/",
+    sameSite: "Strict",
+    secure: process.env.NODE_ENV === "production",
+    domain: process.env.SESSION_COOKIE_DOMAIN || undefined,
+  };
+}
+
+/**
+ * Set the session and CSRF cookies
+ *
+ * @param options.newCsrfToken - Issue a fresh CSRF token (new session).
+ *   Rotation keeps the current one so requests already sent with it pass.
+ */
+export function setSessionCookies(
+  c: Context,
+  token: string,
+  expiresAt: number,
+  options: { newCsrfToken?: boolean } = {}
+) {
+  const expires = new Date(expiresAt);
+  const csrfToken = (!options.newCsrfToken && getCookie(c, CSRF_COOKIE)) || crypto.randomUUID();
+
+  setCookie(c, SESSION_COOKIE, token, { ...cookieOptions(), httpOnly: true, expires });
+  setCookie(c, CSRF_COOKIE, csrfToken, { ...cookieOptions(), httpOnly: false, expires });
+}
+
+/**
+ * Remove the session and CSRF cookies (sign-out, invalid session)
+ */
+export function clearSessionCookies(c: Context) {
+  deleteCookie(c, SESSION_COOKIE, cookieOptions());
+  deleteCookie(c, CSRF_COOKIE, cookieOptions());
+}
+
+/**
+ * Move the session token (and a trusted-device token) from a function result
+ * into the cookies and strip them from the JSON body
+ */
+export function issueSessionCookies(c: Context, result: Record<string, any>) {
+  const { trustedDevice, ...data } = result || {};
+
+  if (trustedDevice?.token) {
+    setCookie(c, TRUSTED_DEVICE_COOKIE, trustedDevice.token, {
+      ...cookieOptions(),
+      httpOnly: true,
+      expires: new Date(trustedDevice.expiresAt),
+    });
+  }
+
+  const session = data.session;
+  if (!session?.token) return data;
+
+  setSessionCookies(c, session.token, session.expiresAt, { newCsrfToken: true });
+
+  const { token: _token, ...rest } = session;
+  return { ...data, session: rest };
+}
@@ -0,0 +1,334 @@
+/**
+ * OpenID Connect client for company single sign-on
+ *
+ * Just what the authorization-code + PKCE flow of routes/sso.routes.ts needs,
+ * built on node:crypto:
+ * - provider metadata from {issuer}/.well-known/openid-configuration
+ * - the authorization URL with an S256 code challenge
+ * - the code exchange at the token endpoint
+ * - ID token verification against the provider's JWKS
+ *
+ * Metadata and keys are cached per issuer; a token signed with an unknown
+ * key id refetches the JWKS once (key rotation).
+ *
+ * Issuers are entered by company admins and the server fetches them, so every
+ * request (discovery, JWKS, token endpoint) first resolves the host and refuses
+ * private, loopback and link-local addresses, and follows no redirects.
+ * SSO_ALLOW_PRIVATE_ISSUERS=true lifts this for a provider on the local
+ * network (development, tests).
+ *
+ * Failures are ApiErrors: an unreachable provider is SERVICE_UNAVAILABLE,
+ * a rejected code or an invalid ID token is UNAUTHENTICATED.
+ */
+
+import { createHash, createPublicKey, constants, verify, type JsonWebKey } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import { ApiError } from "./errors";
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+export interface OidcClient {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat?: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+/** Accepted difference between our clock and the provider's (seconds) */
+const CLOCK_SKEW = 60;
+
+const METADATA_TTL = 60 * 60 * 1000; // 1 hour
+
+/** JWS algorithms -> node:crypto verify() parameters */
+const ALGORITHMS: Record<string, { hash: string; padding?: number; saltLength?: number; ecdsa?: boolean }> = {
+  RS256: { hash: "sha256", padding: constants.RSA_PKCS1_PADDING },
+  RS384: { hash: "sha384", padding: constants.RSA_PKCS1_PADDING },
+  RS512: { hash: "sha512", padding: constants.RSA_PKCS1_PADDING },
+  PS256: { hash: "sha256", padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 },
+  PS384: { hash: "sha384", padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 48 },
+  PS512: { hash: "sha512", padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 64 },
+  ES256: { hash: "sha256", ecdsa: true },
+  ES384: { hash: "sha384", ecdsa: true },
+  ES512: { hash: "sha512", ecdsa: true },
+};
+
+/** Addresses a provider URL may not resolve to */
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+// IPv4-mapped addresses (::ffff:127.0.0.1) are checked against the IPv4 ranges
+for (const [network, prefix] of [["::", 127], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+const metadataCache = new Map<string, { metadata: OidcProviderMetadata; expiresAt: number }>();
+const jwksCache = new Map<string, (JsonWebKey & { kid?: string; alg?: string; use?: string })[]>();
+
+/**
+ * Read the provider metadata (discovery document) of an issuer
+ */
+export async function getProviderMetadata(issuer: string): Promise<OidcProviderMetadata> {
+  const cached = metadataCache.get(issuer);
+  if (cached && cached.expiresAt > Date.now()) return cached.metadata;
+
+  const metadata = await fetchJson<OidcProviderMetadata>(
+    `${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`
+  );
+
+  // OpenID Connect Discovery 1.0, section 4.3
+  if (metadata.issuer !== issuer) {
+    throw new ApiError("SERVICE_UNAVAILABLE", `Identity provider reports issuer ${metadata.issuer}, expected ${issuer}`);
+  }
+
+  metadataCache.set(issuer, { metadata, expiresAt: Date.now() + METADATA_TTL });
+  return metadata;
+}
+
+/**
+ * PKCE S256 code challenge of a code verifier (RFC 7636)
+ */
+export function createCodeChallenge(codeVerifier: string): string {
+  return createHash("sha256").update(codeVerifier).digest("base64url");
+}
+
+/**
+ * URL of the provider's authorization endpoint for a sign-in
+ */
+export function buildAuthorizationUrl(
+  metadata: OidcProviderMetadata,
+  params: {
+    clientId: string;
+    redirectUri: string;
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+    loginHint?: string;
+  }
+): string {
+  const url = new URL(metadata.authorization_endpoint);
+
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", params.clientId);
+  url.searchParams.set("redirect_uri", params.redirectUri);
+  url.searchParams.set("scope", "openid email profile");
+  url.searchParams.set("state", params.state);
+  url.searchParams.set("nonce", params.nonce);
+  url.searchParams.set("code_challenge", createCodeChallenge(params.codeVerifier));
+  url.searchParams.set("code_challenge_method", "S256");
+  if (params.loginHint) url.searchParams.set("login_hint", params.loginHint);
+
+  return url.toString();
+}
+
+/**
+ * Exchange an authorization code for the ID token
+ *
+ * The client authenticates with client_secret_basic (the OAuth default)
+ * unless the provider only supports client_secret_post.
+ */
+export async function exchangeCode(
+  metadata: OidcProviderMetadata,
+  client: OidcClient,
+  params: { code: string; redirectUri: string; codeVerifier: string }
+): Promise<string> {
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    code_verifier: params.codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+
+  const methods = metadata.token_endpoint_auth_methods_supported;
+  if (methods && !methods.includes("client_secret_basic") && methods.includes("client_secret_post")) {
+    body.set("client_id", client.clientId);
+    body.set("client_secret", client.clientSecret);
+  } else {
+    // RFC 6749, section 2.3.1: form-encoded before base64
+    const credentials = `${encodeURIComponent(client.clientId)}:${encodeURIComponent(client.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+
+  await assertPublicUrl(metadata.token_endpoint);
+
+  const response = await fetch(metadata.token_endpoint, { method: "POST", headers, body, redirect: "error" });
+  const tokens = await response.json().catch(() => ({}));
+
+  if (!response.ok || typeof tokens.id_token !== "string") {
+    throw new ApiError(
+      "UNAUTHENTICATED",
+      `Identity provider rejected the sign-in: ${tokens.error_description || tokens.error || response.status}`
+    );
+  }
+
+  return tokens.id_token;
+}
+
+/**
+ * Verify the signature and the claims of an ID token
+ * (OpenID Connect Core 1.0, section 3.1.3.7)
+ */
+export async function verifyIdToken(
+  idToken: string,
+  metadata: OidcProviderMetadata,
+  expected: { issuer: string; clientId: string; nonce: string },
+  now = Date.now()
+): Promise<IdTokenClaims> {
+  const [encodedHeader, encodedPayload, encodedSignature] = idToken.split(".");
+  const header = decodeSegment<{ alg?: string; kid?: string }>(encodedHeader);
+  const claims = decodeSegment<IdTokenClaims>(encodedPayload);
+  const algorithm = ALGORITHMS[header?.alg ?? ""];
+
+  if (!header || !claims || !encodedSignature || !algorithm) {
+    throw invalidToken("malformed token or unsupported algorithm");
+  }
+
+  const jwk = await findSigningKey(metadata.jwks_uri, header.kid, header.alg!);
+  const signed = verify(
+    algorithm.hash,
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    {
+      key: createPublicKey({ key: jwk, format: "jwk" }),
+      padding: algorithm.padding,
+      saltLength: algorithm.saltLength,
+      dsaEncoding: algorithm.ecdsa ? "ieee-p1363" : undefined,
+    },
+    Buffer.from(encodedSignature, "base64url")
+  );
+
+  if (!signed) {
+    throw invalidToken("bad signature");
+  }
+
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const nowSeconds = Math.floor(now / 1000);
+
+  if (claims.iss !== expected.issuer) throw invalidToken("wrong issuer");
+  if (!audience.includes(expected.clientId)) throw invalidToken("wrong audience");
+  if (audience.length > 1 && claims.azp !== expected.clientId) throw invalidToken("wrong authorized party");
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW < nowSeconds) throw invalidToken("expired");
+  if (typeof claims.iat === "number" && claims.iat - CLOCK_SKEW > nowSeconds) throw invalidToken("issued in the future");
+  if (claims.nonce !== expected.nonce) throw invalidToken("wrong nonce");
+  if (typeof claims.sub !== "string" || !claims.sub) throw invalidToken("no subject");
+
+  return claims;
+}
+
+/**
+ * Find the JWK that signed a token; an unknown key id refetches the set once
+ */
+async function findSigningKey(jwksUri: string, kid: string | undefined, alg: string) {
+  const keyType = alg.startsWith("ES") ? "EC" : "RSA";
+
+  for (const refresh of [false, true]) {
+    if (refresh || !jwksCache.has(jwksUri)) {
+      const { keys } = await fetchJson<{ keys?: JsonWebKey[] }>(jwksUri);
+      jwksCache.set(jwksUri, Array.isArray(keys) ? keys : []);
+    }
+
+    const candidates = jwksCache
+      .get(jwksUri)!
+      .filter((key) => key.kty === keyType && (!key.use || key.use === "sig") && (!key.alg || key.alg === alg));
+    const key = kid ? candidates.find((candidate) => candidate.kid === kid) : candidates[0];
+
+    if (key) return key;
+  }
+
+  throw invalidToken("unknown signing key");
+}
+
+/**
+ * Whether a URL is one the server may fetch: http(s) on a host that only
+ * resolves to public addresses
+ */
+export async function isPublicUrl(url: string): Promise<boolean> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") return false;
+  if (process.env.SSO_ALLOW_PRIVATE_ISSUERS === "true") return true;
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host)
+    ? [host]
+    : await lookup(host, { all: true, verbatim: true }).then(
+        (results) => results.map((result) => result.address),
+        () => []
+      );
+
+  return addresses.length > 0 && !addresses.some(isPrivateAddress);
+}
+
+/**
+ * Private, loopback, link-local, multicast or unspecified address
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) return true;
+
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+async function assertPublicUrl(url: string) {
+  if (!(await isPublicUrl(url))) {
+    throw new ApiError("SERVICE_UNAVAILABLE", `Identity provider address is not allowed (${url})`);
+  }
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  await assertPublicUrl(url);
+
+  try {
+    const response = await fetch(url, { headers: { Accept: "application/json" }, redirect: "error" });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return (await response.json()) as T;
+  } catch (error) {
+    throw new ApiError(
+      "SERVICE_UNAVAILABLE",
+      `Identity provider unavailable (${url}): ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+function decodeSegment<T>(segment: string | undefined): T | null {
+  try {
+    return JSON.parse(Buffer.from(segment ?? "", "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+}
+
+function invalidToken(reason: string) {
+  return new ApiError("UNAUTHENTICATED", `Invalid ID token: ${reason}`);
+}
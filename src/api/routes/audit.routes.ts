@@ -1,14 +1,51 @@
 import { Hono } from "hono";
-import type { Context } from "hono";
-import { Pool } from "pg";
+import type { Context, Next } from "hono";
+import { getDb } from "../db/pool";
+import { ApiError, errorResponse, toApiError } from "../errors";
+import type { ApiTokenScope } from "../middleware/function-policy";
 
 const app = new Hono();
 
-// PostgreSQL connection pool
-const pool = new Pool({
-  connectionString:
-    process.env.DATABASE_URL || "postgresql://localhost:5432/ankey",
-});
+/**
+ * Every audit route requires a session with audit.read in the active company
+ * (X-Company-Id) and only returns that company's rows (auditCompanyId).
+ * A platform administrator (users.is_system_admin) sees every company
+ * (auditCompanyId = null) - but not while impersonating or with an API token.
+ */
+app.use("*", requireAuditAccess);
+
+async function requireAuditAccess(c: Context, next: Next) {
+  const userId: string | undefined = c.get("userId");
+
+  if (!userId) {
+    return errorResponse(c, new ApiError("UNAUTHENTICATED", "Authentication required"));
+  }
+
+  const apiToken: ApiTokenScope | undefined = c.get("apiToken");
+  const db = await getDb(c);
+
+  if (!apiToken && !c.get("impersonatorId")) {
+    const admin = await db.query("SELECT is_system_admin FROM users WHERE _id = $1", [userId]);
+
+    if (admin.rows[0]?.is_system_admin) {
+      c.set("auditCompanyId", null);
+      return next();
+    }
+  }
+
+  const companyId: string | undefined = c.get("companyId");
+  const allowed = companyId && (!apiToken || apiToken.permissions.includes("audit.read"))
+    ? (await db.query("SELECT rbac.has_permission($1, $2, 'audit.read') AS allowed", [userId, companyId]))
+      .rows[0]?.allowed
+    : false;
+
+  if (!allowed) {
+    return errorResponse(c, new ApiError("PERMISSION_DENIED", "Permission denied: audit.read"));
+  }
+
+  c.set("auditCompanyId", companyId);
+  return next();
+}
 
 /**
  * GET /api/audit/trail/:table/:recordId
@@ -20,6 +57,7 @@ const pool = new Pool({
  */
 app.get("/trail/:table/:recordId", async (c: Context) => {
   try {
+    const db = await getDb(c);
     const { table, recordId } = c.req.param();
 
     // Validate parameters
@@ -27,9 +65,9 @@ app.get("/trail/:table/:recordId", async (c: Context) => {
       return c.json({ error: "Table and recordId are required" }, 400);
     }
 
-    const result = await pool.query(
-      "SELECT audit.get_audit_trail($1, $2) AS trail",
-      [table, recordId]
+    const result = await db.query(
+      "SELECT audit.get_audit_trail($1, $2, $3) AS trail",
+      [table, recordId, c.get("auditCompanyId")]
     );
 
     return c.json(result.rows[0]?.trail || []);
@@ -56,6 +94,7 @@ app.get("/trail/:table/:recordId", async (c: Context) => {
  */
 app.get("/user/:userId/activity", async (c: Context) => {
   try {
+    const db = await getDb(c);
     const { userId } = c.req.param();
     const from =
       c.req.query("from") ||
@@ -66,9 +105,9 @@ app.get("/user/:userId/activity", async (c: Context) => {
       return c.json({ error: "userId is required" }, 400);
     }
 
-    const result = await pool.query(
-      "SELECT audit.get_user_activity($1, $2::TIMESTAMP, $3::TIMESTAMP) AS activity",
-      [userId, from, to]
+    const result = await db.query(
+      "SELECT audit.get_user_activity($1, $2::TIMESTAMP, $3::TIMESTAMP, $4) AS activity",
+      [userId, from, to, c.get("auditCompanyId")]
     );
 
     return c.json(result.rows[0]?.activity || {});
@@ -87,30 +126,32 @@ app.get("/user/:userId/activity", async (c: Context) => {
 /**
  * POST /api/audit/report/generate
  * Generate SOC/SoX compliance report
+ * The report covers every company: platform administrators only.
  *
  * @body reportType - Report type (e.g., 'SOC2', 'SOX')
  * @body periodStart - Start timestamp (ISO string)
  * @body periodEnd - End timestamp (ISO string)
- * @body generatedBy - User ID of person generating report
  * @returns JSONB object with report data
  */
 app.post("/report/generate", async (c: Context) => {
+  if (c.get("auditCompanyId") !== null) {
+    return errorResponse(c, new ApiError("PERMISSION_DENIED", "Reports require a system administrator"));
+  }
+
   try {
-    const { reportType, periodStart, periodEnd, generatedBy } =
-      await c.req.json();
+    const db = await getDb(c);
+    const { reportType, periodStart, periodEnd } = await c.req.json();
+    const generatedBy = c.get("userId");
 
     // Validate required fields
-    if (!reportType || !periodStart || !periodEnd || !generatedBy) {
+    if (!reportType || !periodStart || !periodEnd) {
       return c.json(
-        {
-          error:
-            "reportType, periodStart, periodEnd, and generatedBy are required",
-        },
+        { error: "reportType, periodStart, and periodEnd are required" },
         400
       );
     }
 
-    const result = await pool.query(
+    const result = await db.query(
       "SELECT audit.generate_soc_report($1, $2::TIMESTAMP, $3::TIMESTAMP, $4) AS report",
       [reportType, periodStart, periodEnd, generatedBy]
     );
@@ -130,13 +171,15 @@ app.post("/report/generate", async (c: Context) => {
 
 /**
  * GET /api/audit/sessions/active
- * Get all active sessions
+ * Get active sessions (of the company's members)
  *
  * @returns Array of active session records
  */
 app.get("/sessions/active", async (c: Context) => {
   try {
-    const result = await pool.query(`
+    const db = await getDb(c);
+    const result = await db.query(
+      `
       SELECT
         id,
         user_id,
@@ -149,8 +192,11 @@ app.get("/sessions/active", async (c: Context) => {
         suspicious_reason
       FROM audit_sessions
       WHERE status = 'active'
+        AND ($1::UUID IS NULL OR user_id IN (SELECT user_id FROM user_companies WHERE company_id = $1))
       ORDER BY login_at DESC
-    `);
+    `,
+      [c.get("auditCompanyId")]
+    );
 
     return c.json(result.rows);
   } catch (error: any) {
@@ -167,13 +213,15 @@ app.get("/sessions/active", async (c: Context) => {
 
 /**
  * GET /api/audit/sessions/suspicious
- * Get all suspicious sessions
+ * Get suspicious sessions (of the company's members)
  *
  * @returns Array of suspicious session records
  */
 app.get("/sessions/suspicious", async (c: Context) => {
   try {
-    const result = await pool.query(`
+    const db = await getDb(c);
+    const result = await db.query(
+      `
       SELECT
         id,
         user_id,
@@ -187,9 +235,12 @@ app.get("/sessions/suspicious", async (c: Context) => {
         status
       FROM audit_sessions
       WHERE is_suspicious = TRUE
+        AND ($1::UUID IS NULL OR user_id IN (SELECT user_id FROM user_companies WHERE company_id = $1))
       ORDER BY login_at DESC
       LIMIT 100
-    `);
+    `,
+      [c.get("auditCompanyId")]
+    );
 
     return c.json(result.rows);
   } catch (error: any) {
@@ -217,6 +268,7 @@ app.get("/sessions/suspicious", async (c: Context) => {
  */
 app.get("/logs/recent", async (c: Context) => {
   try {
+    const db = await getDb(c);
     const limit = parseInt(c.req.query("limit") || "100");
     const action = c.req.query("action");
     const table = c.req.query("table");
@@ -229,6 +281,7 @@ app.get("/logs/recent", async (c: Context) => {
         user_id,
         user_email,
         user_role,
+        impersonator_id,
         action,
         table_name,
         record_id,
@@ -246,6 +299,12 @@ app.get("/logs/recent", async (c: Context) => {
     const params: any[] = [];
     let paramIndex = 1;
 
+    if (c.get("auditCompanyId")) {
+      query += ` AND company_id = $${paramIndex}`;
+      params.push(c.get("auditCompanyId"));
+      paramIndex++;
+    }
+
     if (action) {
       query += ` AND action = $${paramIndex}`;
       params.push(action);
@@ -273,7 +332,7 @@ app.get("/logs/recent", async (c: Context) => {
     query += ` ORDER BY created_at DESC LIMIT $${paramIndex}`;
     params.push(limit);
 
-    const result = await pool.query(query, params);
+    const result = await db.query(query, params);
 
     return c.json(result.rows);
   } catch (error: any) {
@@ -297,6 +356,7 @@ app.get("/logs/recent", async (c: Context) => {
  */
 app.get("/soft-deletes", async (c: Context) => {
   try {
+    const db = await getDb(c);
     const table = c.req.query("table");
 
     let query = `
@@ -318,14 +378,19 @@ app.get("/soft-deletes", async (c: Context) => {
 
     const params: any[] = [];
 
+    if (c.get("auditCompanyId")) {
+      params.push(c.get("auditCompanyId"));
+      query += ` AND company_id = $${params.length}`;
+    }
+
     if (table) {
-      query += ` AND table_name = $1`;
       params.push(table);
+      query += ` AND table_name = $${params.length}`;
     }
 
     query += ` ORDER BY deleted_at DESC LIMIT 100`;
 
-    const result = await pool.query(query, params);
+    const result = await db.query(query, params);
 
     return c.json(result.rows);
   } catch (error: any) {
@@ -346,36 +411,27 @@ app.get("/soft-deletes", async (c: Context) => {
  *
  * @param table - Table name
  * @param recordId - Record ID
- * @body restoredBy - User ID of person restoring
- * @returns JSONB result
+ * @returns JSONB result (restored by the session user)
  */
 app.post("/restore/:table/:recordId", async (c: Context) => {
   try {
+    const db = await getDb(c);
     const { table, recordId } = c.req.param();
-    const { restoredBy } = await c.req.json();
 
-    if (!table || !recordId || !restoredBy) {
-      return c.json(
-        { error: "table, recordId, and restoredBy are required" },
-        400
-      );
+    if (!table || !recordId) {
+      return c.json({ error: "table and recordId are required" }, 400);
     }
 
-    const result = await pool.query(
-      "SELECT audit.restore_soft_deleted($1, $2, $3) AS result",
-      [table, recordId, restoredBy]
+    const result = await db.query(
+      "SELECT audit.restore_soft_deleted($1, $2, $3, $4) AS result",
+      [table, recordId, c.get("userId"), c.get("auditCompanyId")]
     );
 
     return c.json(result.rows[0]?.result || {});
   } catch (error: any) {
     console.error("[Audit Routes] Error restoring record:", error);
-    return c.json(
-      {
-        error: "Failed to restore record",
-        details: error.message,
-      },
-      500
-    );
+    // Not found (AK404) includes records of other companies
+    return errorResponse(c, toApiError(error));
   }
 });
 
@@ -7,200 +7,69 @@
 
 import { Hono } from "hono";
 import type { Context } from "hono";
-import { Pool } from "pg";
+import { getCookie } from "hono/cookie";
+import { getDb, pool } from "../db/pool";
+import {
+  buildFunctionCall,
+  ensureFunctionRegistry,
+  getFunctionDefinition,
+  getFunctionRegistry,
+} from "../db/function-registry";
+import { authorizeFunctionCall, getFunctionPolicy } from "../middleware/function-policy";
+import { ApiError, errorResponse } from "../errors";
+import {
+  sendAccountUnlockEmail,
+  sendEmailChangeCodeEmail,
+  sendEmailChangeNoticeEmail,
+  sendMagicLinkEmail,
+  sendPasswordResetEmail,
+  sendSignInAlertEmail,
+  sendUserInvitationEmail,
+  sendVerificationEmail,
+} from "../mail.settings";
+import { FUNCTION_RATE_LIMITS } from "../middleware/rate-limit";
+import { getClientIp } from "../middleware/client-ip";
+import { isPublicUrl } from "../oidc";
+import { lookupTxtRecords } from "../domain-verification";
+import {
+  SESSION_ISSUING_FUNCTIONS,
+  SESSION_TOKEN_FUNCTIONS,
+  TRUSTED_DEVICE_COOKIE,
+  clearSessionCookies,
+  issueSessionCookies,
+} from "../middleware/session-cookie";
 
 const app = new Hono();
 
-// PostgreSQL connection pool
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL || "postgresql://localhost:5432/ankey",
-});
+/** Sign-in steps that get the client IP, User-Agent and trusted-device cookie */
+const SIGNIN_FUNCTIONS = ["auth.signin", "auth.signin_with_magic_link"];
+
+/** Functions returning one new invitation code for the gateway to email */
+const INVITATION_FUNCTIONS = ["auth.invite_user", "company.resend_invitation"];
 
 /**
- * Parameter order mapping for PostgreSQL functions
- * CRITICAL: PostgreSQL functions require parameters in exact order
- * Object.values() does NOT guarantee order, so we explicitly map parameter names
+ * Function discovery
+ * GET /api/functions
+ * Returns every callable function with its parameters (name, type, optional)
+ * and access policy. Functions without a policy are not callable and not listed.
  */
-const FUNCTION_PARAMS: Record<string, string[]> = {
-  // Auth functions
-  "auth.signup": ["email", "password", "fullname"],
-  "auth.signin": ["email", "password", "ip_address", "user_agent"],
-  "auth.signout": ["token"],
-  "auth.verify_account": ["code"],
-  "auth.verify_session": ["token"],
-  "auth.verify_2fa": ["email", "token"],
-  "auth.setup_2fa": ["user_id"],
-  "auth.enable_2fa": ["user_id", "token"],
-  "auth.disable_2fa": ["user_id", "token"],
-  "auth.get_2fa_status": ["user_id"],
-  "auth.update_profile": [
-    "user_id",
-    "fullname",
-    "dob",
-    "gender",
-    "avatar",
-    "phone",
-    "address",
-    "city",
-    "state",
-    "zip_code",
-    "country",
-  ],
-  "auth.update_language": ["user_id", "preferred_language"],
-  "auth.change_password": ["user_id", "current_password", "new_password"],
-  "auth.forgot_password": ["email"],
-  "auth.invite_user": ["email", "company_ids"],
-  "auth.accept_invitation": ["email", "invitation_code", "new_password"],
-  "auth.get_user_by_email": ["email"],
-  "auth.cleanup_expired_sessions": [],
-
-  // Company functions
-  "company.create_company": [
-    "user_id",
-    "type",
-    "title",
-    "logo",
-    "website",
-    "business_id",
-    "tax_id",
-    "residence",
-    "industry",
-    "contact",
-  ],
-  "company.get_user_companies": ["user_id"],
-  "company.get_company_by_id": ["company_id"],
-  "company.get_company_members": ["company_id"],
-  "company.get_user_role": ["user_id", "company_id"],
-  "company.has_access": ["user_id", "company_id"],
-  "company.has_permission": ["user_id", "company_id", "required_role"],
-  "company.add_member": ["company_id", "user_id", "role"],
-  "company.remove_member": ["company_id", "user_id"],
-  "company.update_member_role": ["company_id", "user_id", "new_role"],
-  "company.transfer_ownership": ["company_id", "current_owner_id", "new_owner_id"],
-  "company.update_company": [
-    "company_id",
-    "title",
-    "logo",
-    "website",
-    "business_id",
-    "tax_id",
-    "residence",
-    "industry",
-    "contact",
-    "settings",
-  ],
-  "company.delete_company": ["company_id"],
-
-  // Inquiry functions
-  "inquiry.create_inquiry": ["name", "email", "message", "company", "phone", "attachments"],
-  "inquiry.get_all_inquiries": ["status", "limit", "offset"],
-  "inquiry.get_inquiry_by_id": ["inquiry_id"],
-  "inquiry.get_inquiries_by_email": ["email"],
-  "inquiry.get_statistics": [],
-  "inquiry.update_status": ["inquiry_id", "status", "response"],
-  "inquiry.delete_inquiry": ["inquiry_id"],
-
-  // OrgChart functions
-  "orgchart.create_orgchart": ["company_id", "user_id", "title", "description", "code", "version", "status"],
-  "orgchart.create_department": [
-    "company_id",
-    "user_id",
-    "parent_id",
-    "title",
-    "description",
-    "code",
-    "headcount",
-    "charter_mission",
-    "charter_objectives",
-    "charter_responsibilities",
-    "charter_kpis",
-  ],
-  "orgchart.create_position": [
-    "company_id",
-    "user_id",
-    "parent_id",
-    "title",
-    "description",
-    "salary_min",
-    "salary_max",
-    "salary_currency",
-    "salary_frequency",
-    "job_summary",
-    "job_responsibilities",
-    "job_requirements",
-    "job_qualifications",
-    "job_benefits",
-  ],
-  "orgchart.create_appointment": [
-    "company_id",
-    "acting_user_id",
-    "position_id",
-    "user_id",
-    "appointee_fullname",
-    "appointee_email",
-    "reports_to_position_id",
-    "job_offer_salary",
-    "job_offer_start_date",
-    "job_offer_benefits",
-    "job_offer_conditions",
-  ],
-  "orgchart.remove_appointment": ["company_id", "acting_user_id", "position_id", "end_reason"],
-  "orgchart.get_all_orgcharts": ["company_id"],
-  "orgchart.get_tree": ["company_id", "orgchart_id"],
-  "orgchart.update_node": [
-    "node_id",
-    "title",
-    "description",
-    "code",
-    "version",
-    "status",
-    "headcount",
-    "charter",
-    "salary_min",
-    "salary_max",
-    "job_description",
-  ],
-  "orgchart.delete_node": ["node_id", "cascade"],
-  "orgchart.duplicate_orgchart": ["company_id", "orgchart_id", "new_title"],
-  "orgchart.transfer_appointment": ["company_id", "acting_user_id", "from_position_id", "to_position_id", "transfer_reason", "new_reports_to_position_id", "new_job_offer_data"],
-  "orgchart.update_job_offer": ["company_id", "acting_user_id", "position_id", "job_offer_data"],
-  "orgchart.get_appointment_history": ["position_id"],
-  "orgchart.get_direct_reports": ["position_id"],
-  "orgchart.get_reporting_chain": ["position_id"],
-  "orgchart.set_company_context": ["company_id"],
-
-  // Reference functions
-  "reference.get_all_countries": [],
-  "reference.get_country_by_code": ["code"],
-  "reference.search_countries": ["query", "limit"],
-  "reference.get_all_industries": [],
-  "reference.get_industry_by_code": ["code"],
-  "reference.search_industries": ["query", "limit"],
-
-  // Users functions
-  "users.get_all": [],
-  "users.get_by_id": ["user_id"],
-  "users.get_by_company": ["company_id"],
-  "users.get_stats": ["company_id"],
-  "users.toggle_block": ["user_id", "block"],
-  "users.delete": ["user_id"],
-
-  // DoA functions
-  "doa.get_matrices": ["company_id"],
-  "doa.get_matrix": ["company_id", "matrix_id"],
-  "doa.get_matrix_by_id": ["matrix_id"],
-  "doa.create_matrix": ["company_id", "name", "document_type", "approval_blocks", "created_by", "description", "min_amount", "max_amount", "currency", "is_active"],
-  "doa.update_matrix": ["company_id", "matrix_id", "name", "description", "approval_blocks", "is_active", "status", "min_amount", "max_amount"],
-  "doa.delete_matrix": ["company_id", "matrix_id"],
-
-  // Task functions
-  "task.get_user_tasks": ["user_id", "company_id", "include_completed"],
-  "task.get_pending_tasks": ["user_id", "company_id"],
-  "task.create_manual_task": ["company_id", "title", "description", "assignee_ids", "deadline"],
-  "task.update_task_status": ["task_id", "status"],
-  "task.complete_task": ["task_id", "user_id"],
-  "task.delete_task": ["task_id"],
-};
+app.get("/functions", async (c: Context) => {
+  try {
+    await ensureFunctionRegistry(pool);
+
+    const { functions, ...registry } = getFunctionRegistry();
+    const exposed = Object.fromEntries(
+      Object.entries(functions)
+        .filter(([name]) => getFunctionPolicy(name))
+        .map(([name, definition]) => [name, { ...definition, policy: getFunctionPolicy(name) }])
+    );
+
+    return c.json({ ...registry, functions: exposed });
+  } catch (error: any) {
+    console.error("[Registry] Error loading function registry:", error);
+    return errorResponse(c, new ApiError("SERVICE_UNAVAILABLE", "Function registry unavailable"));
+  }
+});
 
 /**
  * Generic function to call any PostgreSQL function
@@ -208,75 +77,334 @@ const FUNCTION_PARAMS: Record<string, string[]> = {
  */
 app.post("/:fn", async (c: Context) => {
   const functionName = c.req.param("fn");
-  const body = await c.req.json();
+  const body = await c.req.json().catch(() => null);
+
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return errorResponse(c, new ApiError("BAD_REQUEST", "Request body must be a JSON object"));
+  }
 
   try {
-    // Get expected parameter order for this function
-    const paramOrder = FUNCTION_PARAMS[functionName];
+    await ensureFunctionRegistry(pool);
+
+    // Get function signature from the PostgreSQL catalog
+    const definition = getFunctionDefinition(functionName);
 
-    if (!paramOrder) {
-      throw new Error(
-        `Function ${functionName} not found in parameter mapping. Please add it to FUNCTION_PARAMS.`
-      );
+    if (!definition) {
+      return errorResponse(c, new ApiError("NOT_FOUND", `Function ${functionName} not found`));
     }
 
-    // Auto-inject IP and User-Agent for auth.signin
-    if (functionName === "auth.signin") {
-      // Extract IP address (check various headers)
-      const ip = c.req.header("x-forwarded-for")?.split(",")[0].trim()
-        || c.req.header("x-real-ip")
-        || c.req.header("cf-connecting-ip")
-        || null;
+    // Request connection with the caller's RLS/audit context
+    const db = await getDb(c);
+
+    // Enforce the function policy and inject the session user
+    const authorization = await authorizeFunctionCall(c, db, definition, body);
+
+    if (!authorization.allowed) {
+      console.warn(`[Hono] Rejected ${functionName}: ${authorization.error}`);
+      return errorResponse(c, new ApiError(authorization.code, authorization.error));
+    }
+
+    // Signups and verification codes: limited per client IP
+    const rateLimited = FUNCTION_RATE_LIMITS[functionName]?.hit(getClientIp(c) || "unknown");
+
+    if (rateLimited) {
+      console.warn(`[Hono] Rate limited ${functionName}`);
+      return errorResponse(c, rateLimited);
+    }
+
+    // Auto-inject IP and User-Agent for the sign-in functions
+    if (SIGNIN_FUNCTIONS.includes(functionName)) {
+      const ip = getClientIp(c);
 
       // Extract User-Agent
       const userAgent = c.req.header("user-agent") || null;
 
-      // Auto-fill if not provided in body
-      if (!body.ip_address) body.ip_address = ip;
+      // The IP keys the per-IP sign-in throttle: never take it from the body,
+      // nor from proxy headers a client can set (see client-ip.ts)
+      body.ip_address = ip;
       if (!body.user_agent) body.user_agent = userAgent;
+
+      // "Remember this device" skips 2FA; the token is only accepted from its cookie
+      body.device_token = getCookie(c, TRUSTED_DEVICE_COOKIE) || null;
     }
 
-    // Extract parameters in correct order
-    const params = paramOrder.map((paramName) => body[paramName]);
+    // The browser does not know its session token (HttpOnly cookie), and a
+    // token sent in the body would let the caller act on another session
+    if (SESSION_TOKEN_FUNCTIONS.includes(functionName)) {
+      body.token = c.get("sessionToken") || null;
+    }
 
-    // Build parameter placeholders ($1, $2, $3, etc.)
-    const placeholders = params.map((_, i) => `$${i + 1}`).join(", ");
+    // The server fetches the issuer (discovery, JWKS): no internal addresses
+    if (functionName === "company.update_sso_settings" && typeof body.issuer === "string") {
+      if (!(await isPublicUrl(body.issuer.trim()))) {
+        throw new ApiError("VALIDATION_FAILED", "Issuer must be a public https URL", { field: "issuer" });
+      }
+    }
 
-    // Call PostgreSQL function
-    const query = `SELECT ${functionName}(${placeholders}) AS result`;
+    // Domain ownership: the TXT records come from DNS, never from the body
+    if (functionName === "company.verify_sso_domain") {
+      body.txt_records = await lookupTxtRecords(String(body.domain ?? ""));
+    }
 
+    // Build named-parameter call (order and defaults come from the signature)
+    const { query, values: params } = buildFunctionCall(definition, body);
+
+    // Only the name and the placeholders: parameters and results carry
+    // passwords, session and API tokens, codes and reset links
     console.log(`[Hono] Calling PostgreSQL function: ${functionName}`);
     console.log(`[Hono] Query: ${query}`);
-    console.log(`[Hono] Params:`, params);
 
-    const result = await pool.query(query, params);
+    const result = await db.query(query, params);
+
+    const data = result.rows[0]?.result || {};
+
+    // The impersonator's own session ended meanwhile: sign out completely
+    if (functionName === "auth.stop_impersonation" && !data.session) {
+      clearSessionCookies(c);
+    }
+
+    // New session: token goes to the HttpOnly cookie, never to the JSON body
+    if (SESSION_ISSUING_FUNCTIONS.includes(functionName)) {
+      queueSignInAlertEmail(data.session);
+      return c.json(issueSessionCookies(c, data));
+    }
+
+    if (functionName === "auth.signout") {
+      clearSessionCookies(c);
+    }
+
+    if (data.session?.token) {
+      delete data.session.token;
+    }
+
+    // Bulk invitations are emailed from here: the codes never reach the browser
+    if (functionName === "auth.bulk_invite_users" && Array.isArray(data.invitations)) {
+      queueInvitationEmails(data.invitations);
+      data.invited = data.invitations.length;
+      delete data.invitations;
+    }
+
+    // Email change: the code goes to the new address, the cancel link to the old one
+    if (functionName === "auth.request_email_change") {
+      await sendEmailChangeEmails(data);
+      delete data.oldEmail;
+      delete data.code;
+      delete data.cancelToken;
+    }
 
-    console.log(`[Hono] Result:`, result.rows[0]?.result);
+    // Sign-in link: emailed in the background, so the response time does not
+    // tell whether the account exists
+    if (functionName === "auth.request_magic_link") {
+      if (data.token) {
+        queueMagicLinkEmail(data.email, data.token);
+      }
+      delete data.email;
+      delete data.token;
+    }
+
+    // Verification code of a new account or a resend: emailed in the
+    // background like sign-in links
+    if (functionName === "auth.signup" || functionName === "auth.resend_verification") {
+      if (data.code) {
+        queueVerificationEmail(data.email, data.code);
+      }
+      delete data.email;
+      delete data.code;
+    }
+
+    // Password reset link: same response whether or not the account exists
+    if (functionName === "auth.forgot_password") {
+      if (data.resetToken) {
+        queuePasswordResetEmail(data.email, data.resetToken);
+      }
+      delete data.email;
+      delete data.resetToken;
+    }
+
+    // Invitation codes only reach the invitee, never the inviting admin
+    if (INVITATION_FUNCTIONS.includes(functionName) && data.invitationCode) {
+      queueInvitationEmails([
+        { email: data.email, invitationCode: data.invitationCode, isNewUser: data.isNewUser },
+      ]);
+      delete data.invitationCode;
+    }
 
     // Return the result (already JSON from PostgreSQL)
-    return c.json(result.rows[0]?.result || {});
+    return c.json(data);
   } catch (error: any) {
     console.error(`[Hono] Error calling ${functionName}:`, error);
 
-    // PostgreSQL errors have a specific format
-    if (error.code) {
-      return c.json(
-        {
-          error: error.message || "Database error",
-          code: error.code,
-          detail: error.detail,
-        },
-        400
-      );
+    // Failed sign-in: everything auth.signin wrote was rolled back with the error
+    if (functionName === "auth.signin" && error?.code === "AK402") {
+      await recordFailedSignin(c, "SELECT auth.record_failed_signin($1, $2, $3) AS result", [
+        body.email,
+        body.ip_address || null,
+        body.user_agent || null,
+      ]);
     }
 
-    return c.json(
-      {
-        error: error.message || "Internal server error",
-      },
-      500
-    );
+    // Wrong 2FA code: counts for the challenge and the account lockout
+    if (functionName === "auth.verify_2fa" && error?.code === "AK402") {
+      await recordFailedSignin(c, "SELECT auth.record_failed_2fa($1) AS result", [body.challenge]);
+    }
+
+    // Wrong email change code: 5 of them end the pending change
+    if (functionName === "auth.confirm_email_change" && error?.code === "AK402") {
+      try {
+        const db = await getDb(c);
+        await db.query("SELECT auth.record_failed_email_change($1)", [body.user_id]);
+      } catch (failure) {
+        console.error("[Hono] Failed to record wrong email change code:", failure);
+      }
+    }
+
+    // Wrong verification code: 5 of them void the code of the email
+    if (
+      functionName === "auth.verify_account"
+      && error?.code === "AK422"
+      && error?.column === "code"
+    ) {
+      try {
+        const db = await getDb(c);
+        await db.query("SELECT auth.record_failed_verification($1)", [body.email]);
+      } catch (failure) {
+        console.error("[Hono] Failed to record wrong verification code:", failure);
+      }
+    }
+
+    // Wrong invitation code: 5 of them void the code until it is resent
+    if (
+      functionName === "auth.accept_invitation"
+      && error?.code === "AK422"
+      && error?.column === "invitation_code"
+      && body.email
+    ) {
+      try {
+        const db = await getDb(c);
+        await db.query("SELECT auth.record_failed_invitation($1)", [body.email]);
+      } catch (failure) {
+        console.error("[Hono] Failed to record wrong invitation code:", failure);
+      }
+    }
+
+    // SQLSTATE -> HTTP status and { code, message, field, details }
+    return errorResponse(c, error);
   }
 });
 
+/**
+ * Record a failed sign-in step in its own statement (audit log, throttling
+ * counters) and email the unlock link when the account got locked.
+ * Never changes the response of the failed call.
+ *
+ * @param query - auth.record_failed_signin() or auth.record_failed_2fa() call
+ */
+async function recordFailedSignin(c: Context, query: string, values: unknown[]) {
+  try {
+    const db = await getDb(c);
+    const result = await db.query(query, values);
+
+    const { email, unlockToken } = result.rows[0]?.result || {};
+
+    if (unlockToken) {
+      const sent = await sendAccountUnlockEmail(email, unlockToken);
+      if (!sent.success) {
+        console.error("[Hono] Failed to send account unlock email:", sent.error);
+      }
+    }
+  } catch (error) {
+    console.error("[Hono] Failed to record failed sign-in:", error);
+  }
+}
+
+/**
+ * Send the confirmation code to the new address and the notice with the
+ * cancel link to the old one. Failures are logged; the user can start again.
+ */
+async function sendEmailChangeEmails(data: {
+  newEmail: string;
+  oldEmail: string;
+  code: string;
+  cancelToken: string;
+}) {
+  const sent = await Promise.all([
+    sendEmailChangeCodeEmail(data.newEmail, data.code),
+    sendEmailChangeNoticeEmail(data.oldEmail, data.newEmail, data.cancelToken),
+  ]);
+
+  for (const result of sent) {
+    if (!result.success) {
+      console.error("[Hono] Failed to send email change email:", result.error);
+    }
+  }
+}
+
+/**
+ * Send a sign-in link without delaying the response.
+ * Failures are logged; the user can ask for another link a minute later.
+ */
+function queueMagicLinkEmail(email: string, token: string) {
+  void sendMagicLinkEmail(email, token).then((sent) => {
+    if (!sent.success) {
+      console.error("[Hono] Failed to send sign-in link email:", sent.error);
+    }
+  });
+}
+
+/**
+ * Email the "new sign-in" alert of an unfamiliar session (its "this wasn't
+ * me" token must not reach the browser) without delaying the response
+ */
+function queueSignInAlertEmail(session: Record<string, any> | undefined) {
+  const alert = session?.signinAlert;
+  if (!alert) return;
+
+  delete session.signinAlert;
+  void sendSignInAlertEmail(alert).then((sent) => {
+    if (!sent.success) {
+      console.error("[Hono] Failed to send sign-in alert email:", sent.error);
+    }
+  });
+}
+
+/**
+ * Send a new verification code without delaying the response.
+ * Failures are logged; the user can ask again a minute later.
+ */
+function queueVerificationEmail(email: string, code: string) {
+  void sendVerificationEmail(email, code).then((sent) => {
+    if (!sent.success) {
+      console.error("[Hono] Failed to send verification email:", sent.error);
+    }
+  });
+}
+
+/**
+ * Send a password reset link without delaying the response
+ */
+function queuePasswordResetEmail(email: string, token: string) {
+  void sendPasswordResetEmail(email, token).then((sent) => {
+    if (!sent.success) {
+      console.error("[Hono] Failed to send password reset email:", sent.error);
+    }
+  });
+}
+
+/**
+ * Send invitation emails one after another without delaying the response.
+ * Failures are logged; the invitations stay pending and can be resent.
+ */
+function queueInvitationEmails(
+  invitations: { email: string; invitationCode: string; isNewUser: boolean }[]
+) {
+  void (async () => {
+    for (const invitation of invitations) {
+      const sent = await sendUserInvitationEmail(invitation);
+      if (!sent.success) {
+        console.error(`[Hono] Failed to send invitation email to ${invitation.email}:`, sent.error);
+      }
+    }
+  })();
+}
+
 export default app;
@@ -0,0 +1,191 @@
+/**
+ * Hono API Route for batched function calls
+ *
+ * POST /api/batch executes an ordered list of PostgreSQL function calls on a
+ * single connection inside one transaction: either every call succeeds or the
+ * whole batch is rolled back.
+ *
+ * Body:
+ * {
+ *   "calls": [
+ *     { "id": "dept", "fn": "orgchart.create_department", "params": { ... } },
+ *     { "fn": "orgchart.create_position", "params": { "parent_id": { "$ref": "dept.department.id" } } }
+ *   ]
+ * }
+ *
+ * A `{ "$ref": "<call id or index>.<path>" }` value is replaced with a value
+ * from the result of an earlier call.
+ */
+
+import { Hono } from "hono";
+import type { Context } from "hono";
+import { getDb, pool } from "../db/pool";
+import {
+  buildFunctionCall,
+  ensureFunctionRegistry,
+  getFunctionDefinition,
+} from "../db/function-registry";
+import { authorizeFunctionCall } from "../middleware/function-policy";
+import { ApiError, errorResponse } from "../errors";
+import { SESSION_ISSUING_FUNCTIONS, SESSION_TOKEN_FUNCTIONS } from "../middleware/session-cookie";
+import { FUNCTION_RATE_LIMITS } from "../middleware/rate-limit";
+
+const app = new Hono();
+
+/** Upper bound for calls in one batch (keeps transactions short) */
+export const MAX_BATCH_CALLS = 50;
+
+/** Functions whose result carries secrets POST /api/:fn emails and strips */
+const EMAILED_SECRET_FUNCTIONS = [
+  "auth.request_email_change",
+  "auth.request_magic_link",
+  "auth.resend_verification",
+  "auth.forgot_password",
+  "auth.invite_user",
+  "auth.bulk_invite_users",
+  "company.resend_invitation",
+];
+
+/** Functions whose input POST /api/:fn checks or looks up before the call */
+const GATEWAY_CHECKED_FUNCTIONS = ["company.update_sso_settings", "company.verify_sso_domain"];
+
+export interface BatchCall {
+  /** Optional name to reference the result from later calls */
+  id?: string;
+  fn: string;
+  params?: Record<string, any>;
+}
+
+/**
+ * Replace { $ref: "dept.department.id" } values with results of earlier calls.
+ * The first path segment is a call id or index, the rest walks the result.
+ */
+export function resolveBatchReferences(
+  value: unknown,
+  calls: BatchCall[],
+  results: unknown[]
+): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveBatchReferences(item, calls, results));
+  }
+
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+
+  const ref = (value as Record<string, unknown>).$ref;
+
+  if (typeof ref === "string") {
+    const [target, ...path] = ref.split(".");
+    const index = /^\d+$/.test(target)
+      ? Number(target)
+      : calls.findIndex((call) => call.id === target);
+
+    if (index < 0 || index >= results.length) {
+      throw new ApiError("BAD_REQUEST", `Reference ${ref} points to a call that has not run`);
+    }
+
+    let resolved: any = results[index];
+    for (const key of path) {
+      resolved = resolved?.[key];
+    }
+
+    if (resolved === undefined) {
+      throw new ApiError("BAD_REQUEST", `Reference ${ref} did not resolve to a value`);
+    }
+
+    return resolved;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, resolveBatchReferences(item, calls, results)])
+  );
+}
+
+/**
+ * Execute a batch of function calls in one transaction
+ * POST /api/batch
+ */
+app.post("/", async (c: Context) => {
+  const body = await c.req.json().catch(() => null);
+  const calls: BatchCall[] = Array.isArray(body?.calls) ? body.calls : [];
+
+  if (calls.length === 0) {
+    return errorResponse(c, new ApiError("BAD_REQUEST", "calls must be a non-empty array"));
+  }
+
+  if (calls.length > MAX_BATCH_CALLS) {
+    return errorResponse(c, new ApiError("BAD_REQUEST", `A batch can contain at most ${MAX_BATCH_CALLS} calls`));
+  }
+
+  try {
+    await ensureFunctionRegistry(pool);
+  } catch (error: any) {
+    console.error("[Batch] Error loading function registry:", error);
+    return errorResponse(c, new ApiError("SERVICE_UNAVAILABLE", "Function registry unavailable"));
+  }
+
+  // Request connection: the caller's audit/RLS context is already set once
+  // by dbContextMiddleware and stays the same for every call in the batch
+  const client = await getDb(c);
+  const results: unknown[] = [];
+  let index = 0;
+
+  try {
+    await client.query("BEGIN");
+
+    for (; index < calls.length; index++) {
+      const call = calls[index];
+      const definition = call?.fn ? getFunctionDefinition(call.fn) : undefined;
+
+      if (!definition) {
+        throw new ApiError("NOT_FOUND", `Function ${call?.fn} not found`);
+      }
+
+      // Session tokens are handled only as cookies by POST /api/:fn, emailed
+      // codes only by its mail step, rate limits only by its per-call check
+      if (
+        [
+          ...SESSION_ISSUING_FUNCTIONS,
+          ...SESSION_TOKEN_FUNCTIONS,
+          ...EMAILED_SECRET_FUNCTIONS,
+          ...GATEWAY_CHECKED_FUNCTIONS,
+        ].includes(call.fn)
+        || call.fn in FUNCTION_RATE_LIMITS
+      ) {
+        throw new ApiError("BAD_REQUEST", `${call.fn} cannot be called in a batch`);
+      }
+
+      const params = resolveBatchReferences(call.params || {}, calls, results);
+
+      const authorization = await authorizeFunctionCall(c, client, definition, params);
+      if (!authorization.allowed) {
+        throw new ApiError(authorization.code, authorization.error);
+      }
+
+      const { query, values } = buildFunctionCall(definition, params);
+
+      console.log(`[Batch] ${index + 1}/${calls.length} Calling PostgreSQL function: ${call.fn}`);
+
+      const result = await client.query(query, values);
+      results.push(result.rows[0]?.result ?? null);
+    }
+
+    await client.query("COMMIT");
+
+    return c.json({ results });
+  } catch (error: any) {
+    await client.query("ROLLBACK").catch((rollbackError) => {
+      console.error("[Batch] Rollback failed:", rollbackError);
+    });
+
+    if (!(error instanceof ApiError)) {
+      console.error(`[Batch] Error in call ${index} (${calls[index]?.fn}):`, error);
+    }
+
+    // Same error body as POST /api/:fn, plus the failed call
+    return errorResponse(c, error, { index, fn: calls[index]?.fn, rolledBack: true });
+  }
+});
+
+export default app;
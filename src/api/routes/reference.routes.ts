@@ -9,30 +9,16 @@
 
 import { Hono } from "hono";
 import type { Context } from "hono";
-import { Pool } from "pg";
+import { getDb, pool } from "../db/pool";
+import {
+  buildFunctionCall,
+  ensureFunctionRegistry,
+  getFunctionDefinition,
+} from "../db/function-registry";
+import { ApiError, errorResponse } from "../errors";
 
 const app = new Hono();
 
-// PostgreSQL connection pool
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL || "postgresql://localhost:5432/ankey",
-});
-
-/**
- * Parameter order mapping for reference functions
- * CRITICAL: PostgreSQL functions require parameters in exact order
- */
-const FUNCTION_PARAMS: Record<string, string[]> = {
-  get_all_countries: [],
-  get_country_by_code: ["code"],
-  search_countries: ["query", "limit"],
-  get_countries_options: [],
-  get_all_industries: [],
-  get_industry_by_code: ["code"],
-  search_industries: ["query", "limit"],
-  get_industries_options: [],
-};
-
 /**
  * Universal Router Pattern
  * POST /api/reference/:fn
@@ -43,29 +29,24 @@ app.post("/:fn", async (c: Context) => {
   const body = await c.req.json().catch(() => ({}));
 
   try {
-    // Get expected parameter order for this function
-    const paramOrder = FUNCTION_PARAMS[functionName];
-
-    if (!paramOrder) {
-      throw new Error(
-        `Function ${functionName} not found in parameter mapping. Please add it to FUNCTION_PARAMS.`
-      );
-    }
+    await ensureFunctionRegistry(pool);
 
-    // Extract parameters in correct order
-    const params = paramOrder.map((paramName) => body[paramName]);
+    // Get function signature from the PostgreSQL catalog
+    const definition = getFunctionDefinition(`reference.${functionName}`);
 
-    // Generate placeholders: $1, $2, $3, ...
-    const placeholders = params.map((_, i) => `$${i + 1}`).join(", ");
+    if (!definition) {
+      return errorResponse(c, new ApiError("NOT_FOUND", `Function reference.${functionName} not found`));
+    }
 
-    // Call PostgreSQL function
-    const query = `SELECT reference.${functionName}(${placeholders}) AS result`;
-    const result = await pool.query(query, params);
+    // Call PostgreSQL function with named parameters
+    const { query, values } = buildFunctionCall(definition, body);
+    const db = await getDb(c);
+    const result = await db.query(query, values);
 
     return c.json(result.rows[0]?.result || {});
   } catch (error: any) {
     console.error(`[reference.${functionName}] Error:`, error.message);
-    return c.json({ error: error.message }, 400);
+    return errorResponse(c, error);
   }
 });
 
@@ -77,56 +58,60 @@ app.post("/:fn", async (c: Context) => {
 // GET /api/reference/countries -> reference.get_all_countries()
 app.get("/countries", async (c: Context) => {
   try {
-    const result = await pool.query('SELECT reference.get_all_countries() AS result');
+    const db = await getDb(c);
+    const result = await db.query('SELECT reference.get_all_countries() AS result');
     return c.json(result.rows[0]?.result || []);
   } catch (error: any) {
     console.error("[reference.get_all_countries] Error:", error.message);
-    return c.json({ error: error.message }, 400);
+    return errorResponse(c, error);
   }
 });
 
 // GET /api/reference/countries/:code -> reference.get_country_by_code(code)
 app.get("/countries/:code", async (c: Context) => {
   try {
+    const db = await getDb(c);
     const code = c.req.param("code");
-    const result = await pool.query(
+    const result = await db.query(
       'SELECT reference.get_country_by_code($1) AS result',
       [code]
     );
     return c.json(result.rows[0]?.result || null);
   } catch (error: any) {
     console.error("[reference.get_country_by_code] Error:", error.message);
-    return c.json({ error: error.message }, 400);
+    return errorResponse(c, error);
   }
 });
 
 // GET /api/reference/industries -> reference.get_all_industries()
 app.get("/industries", async (c: Context) => {
   try {
-    const result = await pool.query('SELECT reference.get_all_industries() AS result');
+    const db = await getDb(c);
+    const result = await db.query('SELECT reference.get_all_industries() AS result');
     return c.json(result.rows[0]?.result || []);
   } catch (error: any) {
     console.error("[reference.get_all_industries] Error:", error.message);
-    return c.json({ error: error.message }, 400);
+    return errorResponse(c, error);
   }
 });
 
 // GET /api/reference/industries/:code -> reference.get_industry_by_code(code)
 app.get("/industries/:code", async (c: Context) => {
   try {
+    const db = await getDb(c);
     const code = parseInt(c.req.param("code"));
     if (isNaN(code)) {
-      return c.json({ error: "Invalid industry code" }, 400);
+      return errorResponse(c, new ApiError("VALIDATION_FAILED", "Invalid industry code", { field: "code" }));
     }
 
-    const result = await pool.query(
+    const result = await db.query(
       'SELECT reference.get_industry_by_code($1) AS result',
       [code]
     );
     return c.json(result.rows[0]?.result || null);
   } catch (error: any) {
     console.error("[reference.get_industry_by_code] Error:", error.message);
-    return c.json({ error: error.message }, 400);
+    return errorResponse(c, error);
   }
 });
 
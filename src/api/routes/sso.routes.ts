@@ -0,0 +1,179 @@
+/**
+ * Single Sign-On Routes (OpenID Connect)
+ *
+ * Browser navigations, not gateway calls:
+ *   GET /api/sso/start?email=...&redirect=/path -> 302 to the company's provider
+ *   GET /api/sso/callback?code=...&state=...    -> 302 back to the app, signed in
+ *
+ * Authorization code flow with PKCE (S256), state and nonce. The pending
+ * sign-in is kept by auth.sso_begin / auth.sso_consume_state; the state is
+ * also put into a short-lived HttpOnly cookie, so a callback only completes in
+ * the browser that started it. The verified ID token goes to auth.sso_signin,
+ * which links or provisions the user and starts the session (cookies as for
+ * auth.signin).
+ *
+ * Errors return to the sign-in page with ?sso_error=<ApiErrorCode>.
+ */
+
+import { Hono } from "hono";
+import type { Context } from "hono";
+import { deleteCookie, getCookie, setCookie } from "hono/cookie";
+import { getDb } from "../db/pool";
+import { ApiError, toApiError } from "../errors";
+import { getClientIp } from "../middleware/client-ip";
+import { issueSessionCookies } from "../middleware/session-cookie";
+import { sendSignInAlertEmail } from "../mail.settings";
+import { buildAuthorizationUrl, exchangeCode, getProviderMetadata, verifyIdToken } from "../oidc";
+
+const app = new Hono();
+
+const SSO_STATE_COOKIE = "sso_state";
+
+/**
+ * GET /api/sso/start
+ * Redirect to the provider of the company that owns the email's domain
+ *
+ * @query email - Email entered on the sign-in page (sent as login_hint)
+ * @query redirect - App path to open after sign-in (default /dashboard)
+ */
+app.get("/start", async (c: Context) => {
+  try {
+    const email = c.req.query("email")?.trim();
+
+    if (!email) {
+      throw new ApiError("VALIDATION_FAILED", "Email is required", { field: "email" });
+    }
+
+    const db = await getDb(c);
+    const result = await db.query("SELECT auth.sso_begin($1, $2) AS result", [
+      email,
+      safeRedirectPath(c.req.query("redirect")),
+    ]);
+    const login = result.rows[0].result;
+
+    const metadata = await getProviderMetadata(login.issuer);
+
+    // Lax: the cookie has to come back with the provider's top-level redirect
+    setCookie(c, SSO_STATE_COOKIE, login.state, {
+      path: "/api/sso",
+      httpOnly: true,
+      sameSite: "Lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 10 * 60,
+    });
+
+    return c.redirect(
+      buildAuthorizationUrl(metadata, {
+        clientId: login.clientId,
+        redirectUri: callbackUrl(c),
+        state: login.state,
+        nonce: login.nonce,
+        codeVerifier: login.codeVerifier,
+        loginHint: email,
+      })
+    );
+  } catch (error) {
+    return redirectWithError(c, error);
+  }
+});
+
+/**
+ * GET /api/sso/callback
+ * Finish the sign-in the provider redirected back with
+ */
+app.get("/callback", async (c: Context) => {
+  const state = c.req.query("state");
+  const cookieState = getCookie(c, SSO_STATE_COOKIE);
+
+  deleteCookie(c, SSO_STATE_COOKIE, { path: "/api/sso" });
+
+  try {
+    if (c.req.query("error")) {
+      throw new ApiError(
+        "UNAUTHENTICATED",
+        `Identity provider refused the sign-in: ${c.req.query("error_description") || c.req.query("error")}`
+      );
+    }
+
+    if (!state || state !== cookieState) {
+      throw new ApiError("UNAUTHENTICATED", "Single sign-on was not started in this browser", { field: "state" });
+    }
+
+    const code = c.req.query("code");
+    if (!code) {
+      throw new ApiError("BAD_REQUEST", "Authorization code is missing", { field: "code" });
+    }
+
+    const db = await getDb(c);
+    const consumed = await db.query("SELECT auth.sso_consume_state($1) AS result", [state]);
+    const login = consumed.rows[0].result;
+
+    const metadata = await getProviderMetadata(login.issuer);
+    const redirectUri = callbackUrl(c);
+    const idToken = await exchangeCode(metadata, login, {
+      code,
+      redirectUri,
+      codeVerifier: login.codeVerifier,
+    });
+    const claims = await verifyIdToken(idToken, metadata, login);
+
+    // Same client IP as auth.signin: it drives the "new network" risk signal
+    const ip = getClientIp(c);
+
+    const result = await db.query(
+      "SELECT auth.sso_signin($1, $2, $3, $4, $5, $6, $7) AS result",
+      [
+        login.companyId,
+        claims.sub,
+        claims.email || null,
+        // Some providers send the claim as a string
+        claims.email_verified === undefined ? null : String(claims.email_verified) === "true",
+        claims.name || null,
+        ip,
+        c.req.header("user-agent") || null,
+      ]
+    );
+
+    const signin = result.rows[0].result;
+
+    // Unfamiliar network or device: tell the owner (see auth.start_session)
+    if (signin.session?.signinAlert) {
+      void sendSignInAlertEmail(signin.session.signinAlert).then((sent) => {
+        if (!sent.success) console.error("[SSO] Failed to send sign-in alert email:", sent.error);
+      });
+    }
+
+    issueSessionCookies(c, signin);
+
+    return c.redirect(appUrl(login.redirectTo || "/dashboard"));
+  } catch (error) {
+    return redirectWithError(c, error);
+  }
+});
+
+/**
+ * Redirect URI registered at the providers
+ */
+function callbackUrl(c: Context): string {
+  return process.env.SSO_REDIRECT_URI || new URL("/api/sso/callback", c.req.url).toString();
+}
+
+function appUrl(path: string): string {
+  return `${process.env.APP_URL || "http://localhost:5173"}${path}`;
+}
+
+/**
+ * Only paths inside the app: "//host" and absolute URLs would be open redirects
+ */
+export function safeRedirectPath(path: string | undefined): string | null {
+  return path && /^\/(?![/\\])/.test(path) ? path : null;
+}
+
+function redirectWithError(c: Context, error: unknown) {
+  const apiError = toApiError(error);
+  console.error("[SSO] Sign-in failed:", error);
+
+  return c.redirect(appUrl(`/auth/signin?sso_error=${apiError.code}`));
+}
+
+export default app;
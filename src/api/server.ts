@@ -1,10 +1,38 @@
 import { serve } from "@hono/node-server";
 import app from "./api.hono";
+import { pool } from "./db/pool";
+import { ensureFunctionRegistry, loadFunctionRegistry } from "./db/function-registry";
 
 const port = parseInt(process.env.API_PORT || "3001");
 
 console.log(`🚀 Starting API server on port ${port}...`);
 
+// Load the function registry at startup; `kill -HUP <pid>` reloads it after migrations
+ensureFunctionRegistry(pool).catch((error) => {
+  console.error("[Registry] Initial load failed, will retry on first request:", error.message);
+});
+
+process.on("SIGHUP", () => {
+  loadFunctionRegistry(pool).catch((error) => {
+    console.error("[Registry] Reload failed:", error.message);
+  });
+});
+
+// Erase accounts whose grace period ended (auth.request_account_erasure)
+const ACCOUNT_ERASURE_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+setInterval(() => {
+  pool
+    .query("SELECT auth.erase_due_accounts() AS erased")
+    .then((result) => {
+      const erased = result.rows[0]?.erased || 0;
+      if (erased > 0) console.log(`[Erasure] Erased ${erased} account(s)`);
+    })
+    .catch((error) => {
+      console.error("[Erasure] Failed to erase due accounts:", error.message);
+    });
+}, ACCOUNT_ERASURE_INTERVAL);
+
 serve({
   fetch: app.fetch,
   port,
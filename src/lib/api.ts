@@ -5,8 +5,94 @@
  * Following PostgreSQL-first architecture from ARCHITECTURE.md
  */
 
+import type { ApiErrorBody, ApiErrorCode } from "@/api/errors";
+import i18n from "@/lib/i18n";
+
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
 
+/**
+ * Error returned by the gateway: { code, message, field, details }
+ *
+ * `message` is localized from the `errors.<code>.<details.rule>`,
+ * `errors.<code>.<field>` or `errors.<code>.default` translation (first
+ * that exists, `details` fill the placeholders); the server text is kept in
+ * `serverMessage` for logging. Branch on `code`, never on the message.
+ */
+export class ApiError extends Error {
+  code: ApiErrorCode;
+  status: number;
+  field?: string;
+  details?: unknown;
+  serverMessage: string;
+
+  constructor(status: number, body: Partial<ApiErrorBody> & { error?: string }, fallbackMessage: string) {
+    const serverMessage = body.message || body.error || fallbackMessage;
+    const code = body.code || (status >= 500 ? "INTERNAL_ERROR" : "BAD_REQUEST");
+    const values = (body.details && typeof body.details === "object" ? body.details : {}) as Record<string, unknown>;
+    const keys = [`errors.${code}.${body.field}`, `errors.${code}.default`];
+    if (typeof values.rule === "string") keys.unshift(`errors.${code}.${values.rule}`);
+
+    // Bodies without a code (legacy routes) keep the server message
+    const message = body.code
+      ? i18n.t(keys, {
+          ...values,
+          defaultValue: serverMessage,
+        })
+      : serverMessage;
+
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.status = status;
+    this.field = body.field;
+    this.details = body.details;
+    this.serverMessage = serverMessage;
+  }
+}
+
+/**
+ * Build an ApiError from a failed gateway response
+ */
+export async function toApiError(response: Response, fallbackMessage: string): Promise<ApiError> {
+  const body = await response.json().catch(() => ({}));
+  return new ApiError(response.status, body, fallbackMessage);
+}
+
+/**
+ * Headers for gateway calls
+ *
+ * The gateway authorizes every function call (see function-policy.ts):
+ * the HttpOnly session cookie (sent with `credentials: "include"`) identifies
+ * the caller, X-CSRF-Token echoes the readable csrf_token cookie, and
+ * X-Company-Id names the active company for permission checks of functions
+ * without a company_id argument.
+ */
+export function getApiHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+
+  const csrfToken = getCookie("csrf_token");
+  if (csrfToken) {
+    headers["X-CSRF-Token"] = csrfToken;
+  }
+
+  const companyId = localStorage.getItem("ankey_active_company_id");
+  if (companyId) {
+    headers["X-Company-Id"] = companyId;
+  }
+
+  return headers;
+}
+
+/**
+ * Read a cookie visible to scripts (the session cookie is HttpOnly and is not)
+ */
+function getCookie(name: string): string | undefined {
+  if (typeof document === "undefined") return undefined;
+
+  const match = document.cookie.match(new RegExp(`(?:^|; )${name}=([^;]*)`));
+  return match ? decodeURIComponent(match[1]) : undefined;
+}
+
 /**
  * Call a PostgreSQL function via Hono API
  *
@@ -25,15 +111,66 @@ export async function callFunction(
 ): Promise<any> {
   const response = await fetch(`${API_URL}/api/${functionName}`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: getApiHeaders(),
     credentials: "include",
     body: JSON.stringify(params),
   });
 
   if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error || `Failed to call ${functionName}`);
+    throw await toApiError(response, `Failed to call ${functionName}`);
   }
 
   return response.json();
 }
+
+/**
+ * A single call inside a batch (see callBatch)
+ */
+export interface BatchCall {
+  /** Optional name to reference this call's result from later calls */
+  id?: string;
+  fn: string;
+  params?: Record<string, any>;
+}
+
+/**
+ * Reference to a value returned by an earlier call in the same batch
+ *
+ * @param path - Call id or index followed by a path into its result
+ *
+ * @example
+ * batchRef("dept.department.id") // result of call "dept" -> .department.id
+ */
+export function batchRef(path: string): { $ref: string } {
+  return { $ref: path };
+}
+
+/**
+ * Call several PostgreSQL functions in one database transaction
+ *
+ * Calls run in order on the server; if any call fails, all of them are
+ * rolled back and the error names the failed call.
+ *
+ * @returns Results in the same order as the calls
+ *
+ * @example
+ * const [department] = await callBatch([
+ *   { id: "dept", fn: "orgchart.create_department", params: { ... } },
+ *   { fn: "orgchart.create_position", params: { parent_id: batchRef("dept.department.id"), ... } },
+ * ]);
+ */
+export async function callBatch(calls: BatchCall[]): Promise<any[]> {
+  const response = await fetch(`${API_URL}/api/batch`, {
+    method: "POST",
+    headers: getApiHeaders(),
+    credentials: "include",
+    body: JSON.stringify({ calls }),
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, "Batch failed");
+  }
+
+  const { results } = await response.json();
+  return results;
+}
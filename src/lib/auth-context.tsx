@@ -4,8 +4,8 @@
  */
 import React, { createContext, useContext, useEffect } from "react";
 import { useTranslation } from "react-i18next";
-import { useAuthStore } from "@/modules/shared/stores";
-import { AuthService } from "@/modules/auth/auth-service";
+import { useAuthStore, type SessionRestrictions } from "@/modules/shared/stores";
+import { AuthService, type Impersonation } from "@/modules/auth/auth-service";
 
 export interface User {
   _id: string;
@@ -23,8 +23,8 @@ export interface User {
   };
 }
 
+/** Session token itself is an HttpOnly cookie, never visible to the app */
 interface Session {
-  token: string;
   expiresAt: number;
 }
 
@@ -33,7 +33,13 @@ interface AuthContextType {
   session: Session | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (user: User, session: Session) => void;
+  /** A company enforces 2FA and the user has not enabled it yet */
+  twoFactorSetupRequired: boolean;
+  /** The password expired under a company policy and must be changed */
+  passwordChangeRequired: boolean;
+  /** Set while an owner views the app as this user */
+  impersonation: Impersonation | null;
+  login: (user: User, session: Session, restrictions?: SessionRestrictions) => void;
   logout: () => Promise<void>;
   refreshAuth: () => Promise<void>;
   refreshUser: () => Promise<void>;
@@ -81,10 +87,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     session: store.session,
     isAuthenticated: store.isAuthenticated,
     isLoading: store.isLoading,
-    login: (user, session) => {
+    twoFactorSetupRequired: store.twoFactorSetupRequired,
+    passwordChangeRequired: store.passwordChangeRequired,
+    impersonation: store.impersonation,
+    login: (user, session, restrictions) => {
       // Add id as alias for _id
       const userWithId = { ...user, id: user._id };
-      store.login(userWithId, session);
+      store.login(userWithId, session, restrictions);
 
       // Apply user's preferred language immediately on login
       if (user.preferredLanguage || user.profile?.preferredLanguage) {
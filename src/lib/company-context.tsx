@@ -2,6 +2,7 @@ import React, { createContext, useContext, useState, useEffect, useCallback } fr
 import { CompanyService } from "@/modules/company/company-service";
 import type { Company as DBCompany } from "@/modules/shared/types/database.types";
 import { useAuthStore } from "@/modules/shared/stores/auth.store";
+import { useCompanyStore } from "@/modules/shared/stores/company.store";
 
 // Re-export full Company type
 export type Company = DBCompany;
@@ -26,6 +27,7 @@ export function CompanyProvider({ children }: { children: React.ReactNode }) {
   const [companies, setCompanies] = useState<Company[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const userId = useAuthStore((state) => state.user?._id);
 
   /**
    * Convert DB Company to UI Company (now just returns the full DB company)
@@ -65,16 +67,8 @@ export function CompanyProvider({ children }: { children: React.ReactNode }) {
     try {
       setIsLoading(true);
 
-      // Get user ID from localStorage (set by AuthProvider)
-      const sessionToken = localStorage.getItem("sessionToken");
-      if (!sessionToken) {
-        console.log("[CompanyProvider] No session token, skipping company load");
-        setCompanies([]);
-        setActiveCompanyState(null);
-        return;
-      }
-
-      // Get user from session (simplified - in real app, decode JWT or fetch from DB)
+      // Get user ID from localStorage (set by AuthProvider on sign-in,
+      // the session itself is an HttpOnly cookie)
       const userId = localStorage.getItem("userId");
       if (!userId) {
         console.log("[CompanyProvider] No userId in localStorage");
@@ -169,6 +163,20 @@ export function CompanyProvider({ children }: { children: React.ReactNode }) {
     }
   }, [isAuthenticated, reloadCompanies]);
 
+  /**
+   * Load the user's permissions once per company switch (see usePermission)
+   */
+  useEffect(() => {
+    if (isLoading) return;
+
+    const { loadPermissions, clearPermissions } = useCompanyStore.getState();
+    if (userId && activeCompany) {
+      loadPermissions(userId, activeCompany.id);
+    } else {
+      clearPermissions();
+    }
+  }, [isLoading, userId, activeCompany?.id]);
+
   const setActiveCompany = useCallback((company: Company | null) => {
     if (company) {
       switchCompany(company._id);
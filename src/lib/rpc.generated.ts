@@ -0,0 +1,1526 @@
+/**
+ * Typed RPC client for PostgreSQL functions
+ *
+ * AUTO-GENERATED by src/api/db/generate-rpc.ts from the SQL function
+ * signatures and COMMENT ON FUNCTION annotations - do not edit by hand.
+ * Regenerate after changing SQL functions: bun run db:generate-rpc
+ */
+
+import { callFunction } from "@/lib/api";
+import type * as DB from "@/modules/shared/types/database.types";
+import type * as Company from "@/modules/company/company.types";
+import type * as Inquiry from "@/modules/inquiry/inquiry.types";
+import type * as OrgChart from "@/modules/htr/orgchart/orgchart.types";
+
+export interface RpcFunctions {
+  "auth.accept_invitation": {
+    params: {
+      email: string;
+      invitation_code: string;
+      new_password?: string | null;
+    };
+    result: unknown;
+  };
+  "auth.bulk_invite_users": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      rows: unknown;
+      dry_run?: boolean | null;
+    };
+    result: unknown;
+  };
+  "auth.cancel_account_erasure": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+    };
+    result: unknown;
+  };
+  "auth.cancel_email_change": {
+    params: {
+      token: string;
+    };
+    result: unknown;
+  };
+  "auth.change_password": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      current_password: string;
+      new_password: string;
+      token?: string | null;
+    };
+    result: unknown;
+  };
+  "auth.confirm_email_change": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      code: string;
+      token?: string | null;
+    };
+    result: unknown;
+  };
+  "auth.create_api_token": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      name: string;
+      permissions: string[];
+      expires_in_days?: number | null;
+    };
+    result: unknown;
+  };
+  "auth.disable_2fa": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      token: string;
+    };
+    result: unknown;
+  };
+  "auth.enable_2fa": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      token: string;
+    };
+    result: unknown;
+  };
+  "auth.export_personal_data": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+    };
+    result: unknown;
+  };
+  "auth.forgot_password": {
+    params: {
+      email: string;
+    };
+    result: unknown;
+  };
+  "auth.get_2fa_status": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+    };
+    result: unknown;
+  };
+  "auth.get_account_erasure": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+    };
+    result: unknown;
+  };
+  "auth.get_api_tokens": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+    };
+    result: unknown;
+  };
+  "auth.get_email_change": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+    };
+    result: unknown;
+  };
+  "auth.get_password_policy": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+    };
+    result: unknown;
+  };
+  "auth.get_sessions": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      token: string;
+    };
+    result: unknown;
+  };
+  "auth.get_sso_provider": {
+    params: {
+      email: string;
+    };
+    result: unknown;
+  };
+  "auth.get_trusted_devices": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+    };
+    result: unknown;
+  };
+  "auth.get_user_by_email": {
+    params: {
+      email: string;
+    };
+    result: unknown;
+  };
+  "auth.invite_user": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      email: string;
+      company_ids?: string[] | null;
+      role?: string | null;
+      position_id?: string | null;
+      fullname?: string | null;
+    };
+    result: unknown;
+  };
+  "auth.regenerate_recovery_codes": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      token: string;
+    };
+    result: unknown;
+  };
+  "auth.report_signin": {
+    params: {
+      token: string;
+    };
+    result: unknown;
+  };
+  "auth.request_account_erasure": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      password: string;
+    };
+    result: unknown;
+  };
+  "auth.request_email_change": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      new_email: string;
+      password: string;
+    };
+    result: unknown;
+  };
+  "auth.request_magic_link": {
+    params: {
+      email: string;
+    };
+    result: unknown;
+  };
+  "auth.resend_verification": {
+    params: {
+      email: string;
+    };
+    result: unknown;
+  };
+  "auth.reset_password": {
+    params: {
+      token: string;
+      new_password: string;
+    };
+    result: unknown;
+  };
+  "auth.revoke_api_token": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      token_id: string;
+    };
+    result: unknown;
+  };
+  "auth.revoke_other_sessions": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      token: string;
+    };
+    result: unknown;
+  };
+  "auth.revoke_session": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      session_id: string;
+    };
+    result: unknown;
+  };
+  "auth.revoke_trusted_devices": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      device_id?: string | null;
+    };
+    result: unknown;
+  };
+  "auth.setup_2fa": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+    };
+    result: unknown;
+  };
+  "auth.signin": {
+    params: {
+      email: string;
+      password: string;
+      ip_address?: string | null;
+      user_agent?: string | null;
+      device_token?: string | null;
+    };
+    result: unknown;
+  };
+  "auth.signin_with_magic_link": {
+    params: {
+      token: string;
+      ip_address?: string | null;
+      user_agent?: string | null;
+      device_token?: string | null;
+    };
+    result: unknown;
+  };
+  "auth.signout": {
+    params: {
+      token: string;
+    };
+    result: unknown;
+  };
+  "auth.signup": {
+    params: {
+      email: string;
+      password: string;
+      fullname: string;
+    };
+    result: unknown;
+  };
+  "auth.start_impersonation": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      target_user_id: string;
+      company_id: string;
+      token: string;
+      reason?: string | null;
+    };
+    result: unknown;
+  };
+  "auth.stop_impersonation": {
+    params: {
+      token: string;
+    };
+    result: unknown;
+  };
+  "auth.unlock_account": {
+    params: {
+      token: string;
+    };
+    result: unknown;
+  };
+  "auth.update_language": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      preferred_language: string;
+    };
+    result: unknown;
+  };
+  "auth.update_profile": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      fullname?: string | null;
+      dob?: string | null;
+      gender?: string | null;
+      avatar?: string | null;
+      phone?: string | null;
+      address?: string | null;
+      city?: string | null;
+      state?: string | null;
+      zip_code?: string | null;
+      country?: string | null;
+    };
+    result: unknown;
+  };
+  "auth.verify_2fa": {
+    params: {
+      challenge: string;
+      code: string;
+      remember_device?: boolean | null;
+    };
+    result: unknown;
+  };
+  "auth.verify_account": {
+    params: {
+      code: string;
+      email: string;
+    };
+    result: unknown;
+  };
+  "auth.verify_session": {
+    params: {
+      token: string;
+    };
+    result: unknown;
+  };
+  /** Add a member to company */
+  "company.add_member": {
+    params: {
+      company_id: string;
+      user_id: string;
+      role?: string | null;
+    };
+    result: { success: boolean; message: string };
+  };
+  /** Create a new company (workspace/supplier/customer) */
+  "company.create_company": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      type: string;
+      title: string;
+      logo?: string | null;
+      website?: string | null;
+      business_id?: string | null;
+      tax_id?: string | null;
+      residence?: string | null;
+      industry?: string | null;
+      contact?: unknown | null;
+    };
+    result: DB.Company;
+  };
+  /** Create a service account with permission grants held by the caller */
+  "company.create_service_account": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      name: string;
+      permissions?: string[] | null;
+    };
+    result: { id: string; name: string };
+  };
+  /** Create an API token for a service account (shown once) */
+  "company.create_service_account_token": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      service_account_id: string;
+      name: string;
+      permissions: string[];
+      expires_in_days?: number | null;
+    };
+    result: Company.CreatedApiToken;
+  };
+  /** Delete company and all associations */
+  "company.delete_company": {
+    params: {
+      company_id: string;
+    };
+    result: { success: boolean; message: string };
+  };
+  /** Delete a service account with its API tokens */
+  "company.delete_service_account": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      service_account_id: string;
+    };
+    result: { success: boolean };
+  };
+  /** Get company details by ID */
+  "company.get_company_by_id": {
+    params: {
+      company_id: string;
+    };
+    result: DB.Company;
+  };
+  /** Get all members of a company */
+  "company.get_company_members": {
+    params: {
+      company_id: string;
+    };
+    result: Company.CompanyMember[];
+  };
+  /** Get pending invitations of a company */
+  "company.get_invitations": {
+    params: {
+      company_id: string;
+    };
+    result: Company.Invitation[];
+  };
+  /** Get the service accounts of a company with their active API tokens */
+  "company.get_service_accounts": {
+    params: {
+      company_id: string;
+    };
+    result: Company.ServiceAccount[];
+  };
+  /** Get the single sign-on provider settings (without the client secret) */
+  "company.get_sso_settings": {
+    params: {
+      company_id: string;
+    };
+    result: Company.SsoSettings;
+  };
+  /** Get all companies for a user */
+  "company.get_user_companies": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+    };
+    result: (DB.Company & { role: Company.CompanyRole })[];
+  };
+  /** Get user role in company */
+  "company.get_user_role": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+    };
+    result: { role: Company.CompanyRole | null };
+  };
+  /** Check if user has access to company */
+  "company.has_access": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+    };
+    result: { hasAccess: boolean };
+  };
+  /** Check if user has required permission level */
+  "company.has_permission": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      required_role: string;
+    };
+    result: { hasPermission: boolean };
+  };
+  /** Remove member from company */
+  "company.remove_member": {
+    params: {
+      company_id: string;
+      user_id: string;
+    };
+    result: { success: boolean; message: string };
+  };
+  /** Issue a new invitation code and restart the expiry */
+  "company.resend_invitation": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      invitation_id: string;
+    };
+    result: Company.ResentInvitation;
+  };
+  /** Revoke a pending invitation */
+  "company.revoke_invitation": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      invitation_id: string;
+    };
+    result: { success: boolean; message: string };
+  };
+  /** Revoke an API token of a service account */
+  "company.revoke_service_account_token": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      token_id: string;
+    };
+    result: { success: boolean };
+  };
+  /** Transfer company ownership */
+  "company.transfer_ownership": {
+    params: {
+      company_id: string;
+      /** Injected by the gateway from the session */
+      current_owner_id?: string;
+      new_owner_id: string;
+    };
+    result: { success: boolean; message: string };
+  };
+  /** Update company information */
+  "company.update_company": {
+    params: {
+      company_id: string;
+      title?: string | null;
+      logo?: string | null;
+      website?: string | null;
+      business_id?: string | null;
+      tax_id?: string | null;
+      residence?: string | null;
+      industry?: string | null;
+      contact?: unknown | null;
+      settings?: unknown | null;
+    };
+    result: DB.Company;
+  };
+  /** Update member role */
+  "company.update_member_role": {
+    params: {
+      company_id: string;
+      user_id: string;
+      new_role: string;
+    };
+    result: { success: boolean; message: string };
+  };
+  /** Configure the single sign-on provider of a company */
+  "company.update_sso_settings": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      enabled: boolean;
+      issuer: string;
+      client_id: string;
+      client_secret?: string | null;
+      allowed_domains?: string[] | null;
+      sso_required?: boolean | null;
+    };
+    result: Company.SsoSettings;
+  };
+  /** Verify an SSO email domain by its DNS TXT record (looked up by the gateway) */
+  "company.verify_sso_domain": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      domain: string;
+      txt_records?: string[] | null;
+    };
+    result: Company.SsoSettings;
+  };
+  /** Create a new approval matrix */
+  "doa.create_matrix": {
+    params: {
+      company_id: string;
+      name: string;
+      document_type: string;
+      approval_blocks: DB.ApprovalBlock[];
+      /** Injected by the gateway from the session */
+      created_by?: string;
+      description?: string | null;
+      min_amount?: number | null;
+      max_amount?: number | null;
+      currency?: string | null;
+      is_active?: boolean | null;
+    };
+    result: DB.ApprovalMatrix;
+  };
+  /** Delete an approval matrix */
+  "doa.delete_matrix": {
+    params: {
+      company_id: string;
+      matrix_id: string;
+    };
+    result: { success: boolean; message: string };
+  };
+  /** Get active matrix for a document type (with optional amount filtering) */
+  "doa.get_active_matrix_for_type": {
+    params: {
+      company_id: string;
+      document_type: string;
+      amount?: number | null;
+    };
+    result: DB.ApprovalMatrix | null;
+  };
+  /** Get all approval matrices for a company */
+  "doa.get_matrices": {
+    params: {
+      company_id: string;
+    };
+    result: DB.ApprovalMatrix[];
+  };
+  /** Get a single approval matrix by ID */
+  "doa.get_matrix": {
+    params: {
+      company_id: string;
+      matrix_id: string;
+    };
+    result: DB.ApprovalMatrix;
+  };
+  /** Update an approval matrix */
+  "doa.update_matrix": {
+    params: {
+      company_id: string;
+      matrix_id: string;
+      name?: string | null;
+      description?: string | null;
+      approval_blocks?: DB.ApprovalBlock[] | null;
+      is_active?: boolean | null;
+      status?: string | null;
+      min_amount?: number | null;
+      max_amount?: number | null;
+    };
+    result: DB.ApprovalMatrix;
+  };
+  /** Create a new inquiry from contact form */
+  "inquiry.create_inquiry": {
+    params: {
+      name: string;
+      email: string;
+      message: string;
+      company?: string | null;
+      phone?: string | null;
+      attachments?: unknown | null;
+    };
+    result: Inquiry.Inquiry;
+  };
+  /** Delete inquiry by ID */
+  "inquiry.delete_inquiry": {
+    params: {
+      inquiry_id: string;
+    };
+    result: { success: boolean; message: string };
+  };
+  /** Get all inquiries with pagination (admin) */
+  "inquiry.get_all_inquiries": {
+    params: {
+      status?: string | null;
+      limit?: number | null;
+      offset?: number | null;
+    };
+    result: Inquiry.InquiryPage;
+  };
+  /** Get all inquiries for specific email */
+  "inquiry.get_inquiries_by_email": {
+    params: {
+      email: string;
+    };
+    result: Inquiry.Inquiry[];
+  };
+  /** Get inquiry details by ID */
+  "inquiry.get_inquiry_by_id": {
+    params: {
+      inquiry_id: string;
+    };
+    result: Inquiry.Inquiry | null;
+  };
+  /** Get inquiry statistics for dashboard */
+  "inquiry.get_statistics": {
+    params: Record<string, never>;
+    result: Inquiry.InquiryStatistics;
+  };
+  /** Update inquiry status and optionally add response */
+  "inquiry.update_status": {
+    params: {
+      inquiry_id: string;
+      status: string;
+      response?: string | null;
+    };
+    result: Inquiry.Inquiry;
+  };
+  /** Appoint user to position */
+  "orgchart.create_appointment": {
+    params: {
+      company_id: string;
+      /** Injected by the gateway from the session */
+      acting_user_id?: string;
+      position_id: string;
+      user_id: string;
+      appointee_fullname: string;
+      appointee_email: string;
+      reports_to_position_id?: string | null;
+      job_offer_salary?: number | null;
+      job_offer_start_date?: string | null;
+      job_offer_benefits?: string[] | null;
+      job_offer_conditions?: string[] | null;
+    };
+    result: OrgChart.CreatedAppointment;
+  };
+  /** Create department (auto-creates head position) */
+  "orgchart.create_department": {
+    params: {
+      company_id: string;
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      parent_id: string;
+      title: string;
+      description?: string | null;
+      code?: string | null;
+      headcount?: number | null;
+      charter_mission?: string | null;
+      charter_objectives?: string[] | null;
+      charter_responsibilities?: string[] | null;
+      charter_kpis?: string[] | null;
+    };
+    result: OrgChart.CreatedDepartment;
+  };
+  /** Create root organizational chart */
+  "orgchart.create_orgchart": {
+    params: {
+      company_id: string;
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      title: string;
+      description?: string | null;
+      code?: string | null;
+      version?: string | null;
+      status?: string | null;
+    };
+    result: OrgChart.CreatedOrgChart;
+  };
+  /** Create position within department */
+  "orgchart.create_position": {
+    params: {
+      company_id: string;
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      parent_id: string;
+      title: string;
+      description?: string | null;
+      salary_min?: number | null;
+      salary_max?: number | null;
+      salary_currency?: string | null;
+      salary_frequency?: string | null;
+      job_summary?: string | null;
+      job_responsibilities?: string[] | null;
+      job_requirements?: string[] | null;
+      job_qualifications?: string[] | null;
+      job_benefits?: string[] | null;
+    };
+    result: OrgChart.CreatedPosition;
+  };
+  /** Delete node (with optional cascade) */
+  "orgchart.delete_node": {
+    params: {
+      node_id: string;
+      cascade?: boolean | null;
+    };
+    result: { success: boolean; message: string };
+  };
+  /** Duplicate orgchart with auto-incremented version */
+  "orgchart.duplicate_orgchart": {
+    params: {
+      company_id: string;
+      orgchart_id: string;
+      new_title?: string | null;
+    };
+    result: OrgChart.CreatedOrgChart;
+  };
+  /** Get all orgcharts for company */
+  "orgchart.get_all_orgcharts": {
+    params: {
+      company_id: string;
+    };
+    result: OrgChart.OrgChartSummary[];
+  };
+  /** Get appointment history for a position */
+  "orgchart.get_appointment_history": {
+    params: {
+      position_id: string;
+    };
+    result: OrgChart.AppointmentHistory[];
+  };
+  /** Get direct reports for a position (hierarchical reporting) */
+  "orgchart.get_direct_reports": {
+    params: {
+      position_id: string;
+    };
+    result: OrgChart.DirectReport[];
+  };
+  /** Get full reporting chain from position to top */
+  "orgchart.get_reporting_chain": {
+    params: {
+      position_id: string;
+    };
+    result: OrgChart.ReportingChainLink[];
+  };
+  /** Get complete orgchart tree with all descendants */
+  "orgchart.get_tree": {
+    params: {
+      company_id: string;
+      orgchart_id: string;
+    };
+    result: OrgChart.OrgChartNode[];
+  };
+  /** Remove appointment from position */
+  "orgchart.remove_appointment": {
+    params: {
+      company_id: string;
+      /** Injected by the gateway from the session */
+      acting_user_id?: string;
+      position_id: string;
+      end_reason?: string | null;
+    };
+    result: { success: boolean; message: string; endReason: OrgChart.AppointmentEndReason };
+  };
+  /** Transfer appointment from one position to another */
+  "orgchart.transfer_appointment": {
+    params: {
+      company_id: string;
+      /** Injected by the gateway from the session */
+      acting_user_id?: string;
+      from_position_id: string;
+      to_position_id: string;
+      transfer_reason?: string | null;
+      new_reports_to_position_id?: string | null;
+      new_job_offer_data?: unknown | null;
+    };
+    result: OrgChart.TransferredAppointment;
+  };
+  /** Update job offer for current appointment */
+  "orgchart.update_job_offer": {
+    params: {
+      company_id: string;
+      /** Injected by the gateway from the session */
+      acting_user_id?: string;
+      position_id: string;
+      job_offer_data: unknown;
+    };
+    result: { success: boolean; message: string; appointmentData: OrgChart.AppointmentData };
+  };
+  /** Update any node (orgchart/department/position) */
+  "orgchart.update_node": {
+    params: {
+      node_id: string;
+      title?: string | null;
+      description?: string | null;
+      code?: string | null;
+      version?: string | null;
+      status?: string | null;
+      headcount?: number | null;
+      charter?: string | null;
+      salary_min?: number | null;
+      salary_max?: number | null;
+      salary_currency?: string | null;
+      salary_frequency?: string | null;
+      job_description?: string | null;
+      reports_to_position_id?: string | null;
+    };
+    result: OrgChart.UpdatedNode;
+  };
+  /** Update orgchart status (approval workflow) */
+  "orgchart.update_status": {
+    params: {
+      orgchart_id: string;
+      status: string;
+    };
+    result: { success: boolean; status: OrgChart.OrgChartStatus };
+  };
+  /** Give a member a custom role, or remove it with NULL */
+  "rbac.assign_custom_role": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      member_id: string;
+      custom_role_id?: string | null;
+    };
+    result: { success: boolean; message: string };
+  };
+  /** Check if user has ANY of the specified permissions */
+  "rbac.check_any_permission": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      permission_names: string[];
+    };
+    result: boolean;
+  };
+  /** Check if user has ALL of the specified permissions */
+  "rbac.check_multiple_permissions": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      permission_names: string[];
+    };
+    result: boolean;
+  };
+  /** Create a custom role inheriting from a base role. Only callable by users with company.change_roles permission */
+  "rbac.create_custom_role": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      name: string;
+      base_role: string;
+      permissions?: string[] | null;
+      description?: string | null;
+      color?: string | null;
+    };
+    result: { id: string; name: string };
+  };
+  /** Delete a custom role; its members keep the base role */
+  "rbac.delete_custom_role": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      custom_role_id: string;
+    };
+    result: { success: boolean; message: string };
+  };
+  /** Every permission with whether a member has it and its source (override, custom role, base role) */
+  "rbac.explain_user_permissions": {
+    params: {
+      company_id: string;
+      member_id: string;
+    };
+    result: Company.PermissionExplanation;
+  };
+  /** List the custom roles of a company with their permissions and member count */
+  "rbac.get_custom_roles": {
+    params: {
+      company_id: string;
+    };
+    result: Company.CustomRole[];
+  };
+  /** Members of the company that have a permission, with its source */
+  "rbac.get_permission_holders": {
+    params: {
+      company_id: string;
+      permission_name: string;
+    };
+    result: Company.PermissionHolder[];
+  };
+  /** Every permission with the base roles and custom roles of the company that have it */
+  "rbac.get_permission_matrix": {
+    params: {
+      company_id: string;
+    };
+    result: Company.PermissionMatrix;
+  };
+  "rbac.get_permission_overrides": {
+    params: {
+      user_id: string;
+      company_id: string;
+    };
+    result: unknown;
+  };
+  /** Get all default permissions for a base role (owner, admin, member, guest) */
+  "rbac.get_role_permissions": {
+    params: {
+      role: string;
+    };
+    result: unknown;
+  };
+  /** Get all permissions for a user in a company, including source (role, custom_role, grant) */
+  "rbac.get_user_permissions": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+    };
+    result: unknown;
+  };
+  /** Grant a specific permission to a user. Only callable by users with company.change_roles permission */
+  "rbac.grant_permission": {
+    params: {
+      /** Injected by the gateway from the session */
+      granted_by?: string;
+      user_id: string;
+      company_id: string;
+      permission_name: string;
+      reason?: string | null;
+      expires_at?: string | null;
+    };
+    result: Company.PermissionOverrideResult;
+  };
+  /** Main permission checking function. Returns TRUE if user has the specified permission in the company */
+  "rbac.has_permission": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      permission_name: string;
+    };
+    result: boolean;
+  };
+  /** List all available permissions in the system, optionally filtered by module */
+  "rbac.list_permissions": {
+    params: {
+      module?: string | null;
+    };
+    result: unknown;
+  };
+  /** Remove a grant or revoke of a user so their roles decide again */
+  "rbac.remove_permission_override": {
+    params: {
+      /** Injected by the gateway from the session */
+      removed_by?: string;
+      user_id: string;
+      company_id: string;
+      permission_name: string;
+    };
+    result: { success: boolean; message: string };
+  };
+  /** Revoke a specific permission from a user. Only callable by users with company.change_roles permission */
+  "rbac.revoke_permission": {
+    params: {
+      /** Injected by the gateway from the session */
+      revoked_by?: string;
+      user_id: string;
+      company_id: string;
+      permission_name: string;
+      reason?: string | null;
+    };
+    result: Company.PermissionOverrideResult;
+  };
+  /** Update a custom role and replace its permissions. Only callable by users with company.change_roles permission */
+  "rbac.update_custom_role": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      custom_role_id: string;
+      name: string;
+      base_role: string;
+      permissions?: string[] | null;
+      description?: string | null;
+      color?: string | null;
+    };
+    result: { id: string; name: string };
+  };
+  /** Get all countries in JSONB format */
+  "reference.get_all_countries": {
+    params: Record<string, never>;
+    result: unknown;
+  };
+  /** Get all industries in JSONB format */
+  "reference.get_all_industries": {
+    params: Record<string, never>;
+    result: unknown;
+  };
+  /** Get countries as dropdown options */
+  "reference.get_countries_options": {
+    params: Record<string, never>;
+    result: unknown;
+  };
+  /** Get country by ISO code */
+  "reference.get_country_by_code": {
+    params: {
+      code: string;
+    };
+    result: unknown;
+  };
+  /** Get industries as dropdown options */
+  "reference.get_industries_options": {
+    params: Record<string, never>;
+    result: unknown;
+  };
+  /** Get industry by GICS code */
+  "reference.get_industry_by_code": {
+    params: {
+      code: number;
+    };
+    result: unknown;
+  };
+  /** Search countries by name with limit */
+  "reference.search_countries": {
+    params: {
+      query: string;
+      limit?: number | null;
+    };
+    result: unknown;
+  };
+  /** Search industries by title or description */
+  "reference.search_industries": {
+    params: {
+      query: string;
+      limit?: number | null;
+    };
+    result: unknown;
+  };
+  /** Mark a task as completed */
+  "task.complete_task": {
+    params: {
+      task_id: string;
+    };
+    result: unknown;
+  };
+  /** Create a new task */
+  "task.create_task": {
+    params: {
+      company_id: string;
+      /** Injected by the gateway from the session */
+      creator_id?: string;
+      title: string;
+      description: string;
+      assignees: unknown;
+      deadline?: string | null;
+      task_type?: string | null;
+      priority?: string | null;
+      approvers?: unknown | null;
+      attachments?: unknown | null;
+      workflow_id?: string | null;
+      entity_type?: string | null;
+      entity_id?: string | null;
+      metadata?: unknown | null;
+    };
+    result: unknown;
+  };
+  /** Delete a task */
+  "task.delete_task": {
+    params: {
+      task_id: string;
+    };
+    result: unknown;
+  };
+  /** Get pending (incomplete) tasks for a user */
+  "task.get_pending_tasks": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+    };
+    result: unknown;
+  };
+  /** Get all tasks for a user in a company */
+  "task.get_user_tasks": {
+    params: {
+      /** Injected by the gateway from the session */
+      user_id?: string;
+      company_id: string;
+      include_completed?: boolean | null;
+    };
+    result: unknown;
+  };
+  /** Update a task */
+  "task.update_task": {
+    params: {
+      task_id: string;
+      title?: string | null;
+      description?: string | null;
+      assignees?: unknown | null;
+      approvers?: unknown | null;
+      deadline?: string | null;
+      priority?: string | null;
+      completed?: boolean | null;
+      approval_status?: string | null;
+      metadata?: unknown | null;
+    };
+    result: unknown;
+  };
+  /** Delete user (removes from all companies) */
+  "users.delete": {
+    params: {
+      user_id: string;
+    };
+    result: unknown;
+  };
+  /** Get all users (system-wide, admin only) */
+  "users.get_all": {
+    params: Record<string, never>;
+    result: unknown;
+  };
+  /** Get all users for a specific company with their roles */
+  "users.get_by_company": {
+    params: {
+      company_id: string;
+    };
+    result: unknown;
+  };
+  /** Get user by ID */
+  "users.get_by_id": {
+    params: {
+      user_id: string;
+    };
+    result: unknown;
+  };
+  /** Get user statistics (total, verified, recent, etc.) */
+  "users.get_stats": {
+    params: {
+      company_id?: string | null;
+    };
+    result: unknown;
+  };
+  /** Block or unblock a user */
+  "users.toggle_block": {
+    params: {
+      user_id: string;
+      block: boolean;
+    };
+    result: unknown;
+  };
+  /** Unlock a user locked out after failed sign-ins */
+  "users.unlock": {
+    params: {
+      user_id: string;
+    };
+    result: unknown;
+  };
+}
+
+export type RpcFunctionName = keyof RpcFunctions;
+export type RpcParams<K extends RpcFunctionName> = RpcFunctions[K]["params"];
+export type RpcResult<K extends RpcFunctionName> = RpcFunctions[K]["result"];
+
+/**
+ * Call a PostgreSQL function with typed parameters and result
+ */
+export function callRpc<K extends RpcFunctionName>(
+  functionName: K,
+  params: RpcParams<K>
+): Promise<RpcResult<K>> {
+  return callFunction(functionName, params);
+}
+
+/**
+ * Wrappers grouped by schema: rpc.doa.get_matrix({ company_id, matrix_id })
+ */
+export const rpc = {
+  auth: {
+    accept_invitation: (params: RpcParams<"auth.accept_invitation">) => callRpc("auth.accept_invitation", params),
+    bulk_invite_users: (params: RpcParams<"auth.bulk_invite_users">) => callRpc("auth.bulk_invite_users", params),
+    cancel_account_erasure: (params: RpcParams<"auth.cancel_account_erasure">) => callRpc("auth.cancel_account_erasure", params),
+    cancel_email_change: (params: RpcParams<"auth.cancel_email_change">) => callRpc("auth.cancel_email_change", params),
+    change_password: (params: RpcParams<"auth.change_password">) => callRpc("auth.change_password", params),
+    confirm_email_change: (params: RpcParams<"auth.confirm_email_change">) => callRpc("auth.confirm_email_change", params),
+    create_api_token: (params: RpcParams<"auth.create_api_token">) => callRpc("auth.create_api_token", params),
+    disable_2fa: (params: RpcParams<"auth.disable_2fa">) => callRpc("auth.disable_2fa", params),
+    enable_2fa: (params: RpcParams<"auth.enable_2fa">) => callRpc("auth.enable_2fa", params),
+    export_personal_data: (params: RpcParams<"auth.export_personal_data">) => callRpc("auth.export_personal_data", params),
+    forgot_password: (params: RpcParams<"auth.forgot_password">) => callRpc("auth.forgot_password", params),
+    get_2fa_status: (params: RpcParams<"auth.get_2fa_status">) => callRpc("auth.get_2fa_status", params),
+    get_account_erasure: (params: RpcParams<"auth.get_account_erasure">) => callRpc("auth.get_account_erasure", params),
+    get_api_tokens: (params: RpcParams<"auth.get_api_tokens">) => callRpc("auth.get_api_tokens", params),
+    get_email_change: (params: RpcParams<"auth.get_email_change">) => callRpc("auth.get_email_change", params),
+    get_password_policy: (params: RpcParams<"auth.get_password_policy">) => callRpc("auth.get_password_policy", params),
+    get_sessions: (params: RpcParams<"auth.get_sessions">) => callRpc("auth.get_sessions", params),
+    get_sso_provider: (params: RpcParams<"auth.get_sso_provider">) => callRpc("auth.get_sso_provider", params),
+    get_trusted_devices: (params: RpcParams<"auth.get_trusted_devices">) => callRpc("auth.get_trusted_devices", params),
+    get_user_by_email: (params: RpcParams<"auth.get_user_by_email">) => callRpc("auth.get_user_by_email", params),
+    invite_user: (params: RpcParams<"auth.invite_user">) => callRpc("auth.invite_user", params),
+    regenerate_recovery_codes: (params: RpcParams<"auth.regenerate_recovery_codes">) => callRpc("auth.regenerate_recovery_codes", params),
+    report_signin: (params: RpcParams<"auth.report_signin">) => callRpc("auth.report_signin", params),
+    request_account_erasure: (params: RpcParams<"auth.request_account_erasure">) => callRpc("auth.request_account_erasure", params),
+    request_email_change: (params: RpcParams<"auth.request_email_change">) => callRpc("auth.request_email_change", params),
+    request_magic_link: (params: RpcParams<"auth.request_magic_link">) => callRpc("auth.request_magic_link", params),
+    resend_verification: (params: RpcParams<"auth.resend_verification">) => callRpc("auth.resend_verification", params),
+    reset_password: (params: RpcParams<"auth.reset_password">) => callRpc("auth.reset_password", params),
+    revoke_api_token: (params: RpcParams<"auth.revoke_api_token">) => callRpc("auth.revoke_api_token", params),
+    revoke_other_sessions: (params: RpcParams<"auth.revoke_other_sessions">) => callRpc("auth.revoke_other_sessions", params),
+    revoke_session: (params: RpcParams<"auth.revoke_session">) => callRpc("auth.revoke_session", params),
+    revoke_trusted_devices: (params: RpcParams<"auth.revoke_trusted_devices">) => callRpc("auth.revoke_trusted_devices", params),
+    setup_2fa: (params: RpcParams<"auth.setup_2fa">) => callRpc("auth.setup_2fa", params),
+    signin: (params: RpcParams<"auth.signin">) => callRpc("auth.signin", params),
+    signin_with_magic_link: (params: RpcParams<"auth.signin_with_magic_link">) => callRpc("auth.signin_with_magic_link", params),
+    signout: (params: RpcParams<"auth.signout">) => callRpc("auth.signout", params),
+    signup: (params: RpcParams<"auth.signup">) => callRpc("auth.signup", params),
+    start_impersonation: (params: RpcParams<"auth.start_impersonation">) => callRpc("auth.start_impersonation", params),
+    stop_impersonation: (params: RpcParams<"auth.stop_impersonation">) => callRpc("auth.stop_impersonation", params),
+    unlock_account: (params: RpcParams<"auth.unlock_account">) => callRpc("auth.unlock_account", params),
+    update_language: (params: RpcParams<"auth.update_language">) => callRpc("auth.update_language", params),
+    update_profile: (params: RpcParams<"auth.update_profile">) => callRpc("auth.update_profile", params),
+    verify_2fa: (params: RpcParams<"auth.verify_2fa">) => callRpc("auth.verify_2fa", params),
+    verify_account: (params: RpcParams<"auth.verify_account">) => callRpc("auth.verify_account", params),
+    verify_session: (params: RpcParams<"auth.verify_session">) => callRpc("auth.verify_session", params),
+  },
+  company: {
+    /** Add a member to company */
+    add_member: (params: RpcParams<"company.add_member">) => callRpc("company.add_member", params),
+    /** Create a new company (workspace/supplier/customer) */
+    create_company: (params: RpcParams<"company.create_company">) => callRpc("company.create_company", params),
+    /** Create a service account with permission grants held by the caller */
+    create_service_account: (params: RpcParams<"company.create_service_account">) => callRpc("company.create_service_account", params),
+    /** Create an API token for a service account (shown once) */
+    create_service_account_token: (params: RpcParams<"company.create_service_account_token">) => callRpc("company.create_service_account_token", params),
+    /** Delete company and all associations */
+    delete_company: (params: RpcParams<"company.delete_company">) => callRpc("company.delete_company", params),
+    /** Delete a service account with its API tokens */
+    delete_service_account: (params: RpcParams<"company.delete_service_account">) => callRpc("company.delete_service_account", params),
+    /** Get company details by ID */
+    get_company_by_id: (params: RpcParams<"company.get_company_by_id">) => callRpc("company.get_company_by_id", params),
+    /** Get all members of a company */
+    get_company_members: (params: RpcParams<"company.get_company_members">) => callRpc("company.get_company_members", params),
+    /** Get pending invitations of a company */
+    get_invitations: (params: RpcParams<"company.get_invitations">) => callRpc("company.get_invitations", params),
+    /** Get the service accounts of a company with their active API tokens */
+    get_service_accounts: (params: RpcParams<"company.get_service_accounts">) => callRpc("company.get_service_accounts", params),
+    /** Get the single sign-on provider settings (without the client secret) */
+    get_sso_settings: (params: RpcParams<"company.get_sso_settings">) => callRpc("company.get_sso_settings", params),
+    /** Get all companies for a user */
+    get_user_companies: (params: RpcParams<"company.get_user_companies">) => callRpc("company.get_user_companies", params),
+    /** Get user role in company */
+    get_user_role: (params: RpcParams<"company.get_user_role">) => callRpc("company.get_user_role", params),
+    /** Check if user has access to company */
+    has_access: (params: RpcParams<"company.has_access">) => callRpc("company.has_access", params),
+    /** Check if user has required permission level */
+    has_permission: (params: RpcParams<"company.has_permission">) => callRpc("company.has_permission", params),
+    /** Remove member from company */
+    remove_member: (params: RpcParams<"company.remove_member">) => callRpc("company.remove_member", params),
+    /** Issue a new invitation code and restart the expiry */
+    resend_invitation: (params: RpcParams<"company.resend_invitation">) => callRpc("company.resend_invitation", params),
+    /** Revoke a pending invitation */
+    revoke_invitation: (params: RpcParams<"company.revoke_invitation">) => callRpc("company.revoke_invitation", params),
+    /** Revoke an API token of a service account */
+    revoke_service_account_token: (params: RpcParams<"company.revoke_service_account_token">) => callRpc("company.revoke_service_account_token", params),
+    /** Transfer company ownership */
+    transfer_ownership: (params: RpcParams<"company.transfer_ownership">) => callRpc("company.transfer_ownership", params),
+    /** Update company information */
+    update_company: (params: RpcParams<"company.update_company">) => callRpc("company.update_company", params),
+    /** Update member role */
+    update_member_role: (params: RpcParams<"company.update_member_role">) => callRpc("company.update_member_role", params),
+    /** Configure the single sign-on provider of a company */
+    update_sso_settings: (params: RpcParams<"company.update_sso_settings">) => callRpc("company.update_sso_settings", params),
+    /** Verify an SSO email domain by its DNS TXT record (looked up by the gateway) */
+    verify_sso_domain: (params: RpcParams<"company.verify_sso_domain">) => callRpc("company.verify_sso_domain", params),
+  },
+  doa: {
+    /** Create a new approval matrix */
+    create_matrix: (params: RpcParams<"doa.create_matrix">) => callRpc("doa.create_matrix", params),
+    /** Delete an approval matrix */
+    delete_matrix: (params: RpcParams<"doa.delete_matrix">) => callRpc("doa.delete_matrix", params),
+    /** Get active matrix for a document type (with optional amount filtering) */
+    get_active_matrix_for_type: (params: RpcParams<"doa.get_active_matrix_for_type">) => callRpc("doa.get_active_matrix_for_type", params),
+    /** Get all approval matrices for a company */
+    get_matrices: (params: RpcParams<"doa.get_matrices">) => callRpc("doa.get_matrices", params),
+    /** Get a single approval matrix by ID */
+    get_matrix: (params: RpcParams<"doa.get_matrix">) => callRpc("doa.get_matrix", params),
+    /** Update an approval matrix */
+    update_matrix: (params: RpcParams<"doa.update_matrix">) => callRpc("doa.update_matrix", params),
+  },
+  inquiry: {
+    /** Create a new inquiry from contact form */
+    create_inquiry: (params: RpcParams<"inquiry.create_inquiry">) => callRpc("inquiry.create_inquiry", params),
+    /** Delete inquiry by ID */
+    delete_inquiry: (params: RpcParams<"inquiry.delete_inquiry">) => callRpc("inquiry.delete_inquiry", params),
+    /** Get all inquiries with pagination (admin) */
+    get_all_inquiries: (params: RpcParams<"inquiry.get_all_inquiries">) => callRpc("inquiry.get_all_inquiries", params),
+    /** Get all inquiries for specific email */
+    get_inquiries_by_email: (params: RpcParams<"inquiry.get_inquiries_by_email">) => callRpc("inquiry.get_inquiries_by_email", params),
+    /** Get inquiry details by ID */
+    get_inquiry_by_id: (params: RpcParams<"inquiry.get_inquiry_by_id">) => callRpc("inquiry.get_inquiry_by_id", params),
+    /** Get inquiry statistics for dashboard */
+    get_statistics: () => callRpc("inquiry.get_statistics", {}),
+    /** Update inquiry status and optionally add response */
+    update_status: (params: RpcParams<"inquiry.update_status">) => callRpc("inquiry.update_status", params),
+  },
+  orgchart: {
+    /** Appoint user to position */
+    create_appointment: (params: RpcParams<"orgchart.create_appointment">) => callRpc("orgchart.create_appointment", params),
+    /** Create department (auto-creates head position) */
+    create_department: (params: RpcParams<"orgchart.create_department">) => callRpc("orgchart.create_department", params),
+    /** Create root organizational chart */
+    create_orgchart: (params: RpcParams<"orgchart.create_orgchart">) => callRpc("orgchart.create_orgchart", params),
+    /** Create position within department */
+    create_position: (params: RpcParams<"orgchart.create_position">) => callRpc("orgchart.create_position", params),
+    /** Delete node (with optional cascade) */
+    delete_node: (params: RpcParams<"orgchart.delete_node">) => callRpc("orgchart.delete_node", params),
+    /** Duplicate orgchart with auto-incremented version */
+    duplicate_orgchart: (params: RpcParams<"orgchart.duplicate_orgchart">) => callRpc("orgchart.duplicate_orgchart", params),
+    /** Get all orgcharts for company */
+    get_all_orgcharts: (params: RpcParams<"orgchart.get_all_orgcharts">) => callRpc("orgchart.get_all_orgcharts", params),
+    /** Get appointment history for a position */
+    get_appointment_history: (params: RpcParams<"orgchart.get_appointment_history">) => callRpc("orgchart.get_appointment_history", params),
+    /** Get direct reports for a position (hierarchical reporting) */
+    get_direct_reports: (params: RpcParams<"orgchart.get_direct_reports">) => callRpc("orgchart.get_direct_reports", params),
+    /** Get full reporting chain from position to top */
+    get_reporting_chain: (params: RpcParams<"orgchart.get_reporting_chain">) => callRpc("orgchart.get_reporting_chain", params),
+    /** Get complete orgchart tree with all descendants */
+    get_tree: (params: RpcParams<"orgchart.get_tree">) => callRpc("orgchart.get_tree", params),
+    /** Remove appointment from position */
+    remove_appointment: (params: RpcParams<"orgchart.remove_appointment">) => callRpc("orgchart.remove_appointment", params),
+    /** Transfer appointment from one position to another */
+    transfer_appointment: (params: RpcParams<"orgchart.transfer_appointment">) => callRpc("orgchart.transfer_appointment", params),
+    /** Update job offer for current appointment */
+    update_job_offer: (params: RpcParams<"orgchart.update_job_offer">) => callRpc("orgchart.update_job_offer", params),
+    /** Update any node (orgchart/department/position) */
+    update_node: (params: RpcParams<"orgchart.update_node">) => callRpc("orgchart.update_node", params),
+    /** Update orgchart status (approval workflow) */
+    update_status: (params: RpcParams<"orgchart.update_status">) => callRpc("orgchart.update_status", params),
+  },
+  rbac: {
+    /** Give a member a custom role, or remove it with NULL */
+    assign_custom_role: (params: RpcParams<"rbac.assign_custom_role">) => callRpc("rbac.assign_custom_role", params),
+    /** Check if user has ANY of the specified permissions */
+    check_any_permission: (params: RpcParams<"rbac.check_any_permission">) => callRpc("rbac.check_any_permission", params),
+    /** Check if user has ALL of the specified permissions */
+    check_multiple_permissions: (params: RpcParams<"rbac.check_multiple_permissions">) => callRpc("rbac.check_multiple_permissions", params),
+    /** Create a custom role inheriting from a base role. Only callable by users with company.change_roles permission */
+    create_custom_role: (params: RpcParams<"rbac.create_custom_role">) => callRpc("rbac.create_custom_role", params),
+    /** Delete a custom role; its members keep the base role */
+    delete_custom_role: (params: RpcParams<"rbac.delete_custom_role">) => callRpc("rbac.delete_custom_role", params),
+    /** Every permission with whether a member has it and its source (override, custom role, base role) */
+    explain_user_permissions: (params: RpcParams<"rbac.explain_user_permissions">) => callRpc("rbac.explain_user_permissions", params),
+    /** List the custom roles of a company with their permissions and member count */
+    get_custom_roles: (params: RpcParams<"rbac.get_custom_roles">) => callRpc("rbac.get_custom_roles", params),
+    /** Members of the company that have a permission, with its source */
+    get_permission_holders: (params: RpcParams<"rbac.get_permission_holders">) => callRpc("rbac.get_permission_holders", params),
+    /** Every permission with the base roles and custom roles of the company that have it */
+    get_permission_matrix: (params: RpcParams<"rbac.get_permission_matrix">) => callRpc("rbac.get_permission_matrix", params),
+    get_permission_overrides: (params: RpcParams<"rbac.get_permission_overrides">) => callRpc("rbac.get_permission_overrides", params),
+    /** Get all default permissions for a base role (owner, admin, member, guest) */
+    get_role_permissions: (params: RpcParams<"rbac.get_role_permissions">) => callRpc("rbac.get_role_permissions", params),
+    /** Get all permissions for a user in a company, including source (role, custom_role, grant) */
+    get_user_permissions: (params: RpcParams<"rbac.get_user_permissions">) => callRpc("rbac.get_user_permissions", params),
+    /** Grant a specific permission to a user. Only callable by users with company.change_roles permission */
+    grant_permission: (params: RpcParams<"rbac.grant_permission">) => callRpc("rbac.grant_permission", params),
+    /** Main permission checking function. Returns TRUE if user has the specified permission in the company */
+    has_permission: (params: RpcParams<"rbac.has_permission">) => callRpc("rbac.has_permission", params),
+    /** List all available permissions in the system, optionally filtered by module */
+    list_permissions: (params: RpcParams<"rbac.list_permissions">) => callRpc("rbac.list_permissions", params),
+    /** Remove a grant or revoke of a user so their roles decide again */
+    remove_permission_override: (params: RpcParams<"rbac.remove_permission_override">) => callRpc("rbac.remove_permission_override", params),
+    /** Revoke a specific permission from a user. Only callable by users with company.change_roles permission */
+    revoke_permission: (params: RpcParams<"rbac.revoke_permission">) => callRpc("rbac.revoke_permission", params),
+    /** Update a custom role and replace its permissions. Only callable by users with company.change_roles permission */
+    update_custom_role: (params: RpcParams<"rbac.update_custom_role">) => callRpc("rbac.update_custom_role", params),
+  },
+  reference: {
+    /** Get all countries in JSONB format */
+    get_all_countries: () => callRpc("reference.get_all_countries", {}),
+    /** Get all industries in JSONB format */
+    get_all_industries: () => callRpc("reference.get_all_industries", {}),
+    /** Get countries as dropdown options */
+    get_countries_options: () => callRpc("reference.get_countries_options", {}),
+    /** Get country by ISO code */
+    get_country_by_code: (params: RpcParams<"reference.get_country_by_code">) => callRpc("reference.get_country_by_code", params),
+    /** Get industries as dropdown options */
+    get_industries_options: () => callRpc("reference.get_industries_options", {}),
+    /** Get industry by GICS code */
+    get_industry_by_code: (params: RpcParams<"reference.get_industry_by_code">) => callRpc("reference.get_industry_by_code", params),
+    /** Search countries by name with limit */
+    search_countries: (params: RpcParams<"reference.search_countries">) => callRpc("reference.search_countries", params),
+    /** Search industries by title or description */
+    search_industries: (params: RpcParams<"reference.search_industries">) => callRpc("reference.search_industries", params),
+  },
+  task: {
+    /** Mark a task as completed */
+    complete_task: (params: RpcParams<"task.complete_task">) => callRpc("task.complete_task", params),
+    /** Create a new task */
+    create_task: (params: RpcParams<"task.create_task">) => callRpc("task.create_task", params),
+    /** Delete a task */
+    delete_task: (params: RpcParams<"task.delete_task">) => callRpc("task.delete_task", params),
+    /** Get pending (incomplete) tasks for a user */
+    get_pending_tasks: (params: RpcParams<"task.get_pending_tasks">) => callRpc("task.get_pending_tasks", params),
+    /** Get all tasks for a user in a company */
+    get_user_tasks: (params: RpcParams<"task.get_user_tasks">) => callRpc("task.get_user_tasks", params),
+    /** Update a task */
+    update_task: (params: RpcParams<"task.update_task">) => callRpc("task.update_task", params),
+  },
+  users: {
+    /** Delete user (removes from all companies) */
+    delete: (params: RpcParams<"users.delete">) => callRpc("users.delete", params),
+    /** Get all users (system-wide, admin only) */
+    get_all: () => callRpc("users.get_all", {}),
+    /** Get all users for a specific company with their roles */
+    get_by_company: (params: RpcParams<"users.get_by_company">) => callRpc("users.get_by_company", params),
+    /** Get user by ID */
+    get_by_id: (params: RpcParams<"users.get_by_id">) => callRpc("users.get_by_id", params),
+    /** Get user statistics (total, verified, recent, etc.) */
+    get_stats: (params: RpcParams<"users.get_stats">) => callRpc("users.get_stats", params),
+    /** Block or unblock a user */
+    toggle_block: (params: RpcParams<"users.toggle_block">) => callRpc("users.toggle_block", params),
+    /** Unlock a user locked out after failed sign-ins */
+    unlock: (params: RpcParams<"users.unlock">) => callRpc("users.unlock", params),
+  },
+};
@@ -4,11 +4,18 @@ import { Button } from "@/lib/ui/button";
 import { Progress } from "@/lib/ui/progress";
 import { Eye, EyeOff, RefreshCw } from "lucide-react";
 import { cn } from "@/lib/utils";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  getPasswordPolicyViolations,
+  type PasswordPolicy,
+} from "@/modules/auth/password-policy";
 
 interface QPasswordProps extends React.InputHTMLAttributes<HTMLInputElement> {
   showStrength?: boolean;
   showGenerator?: boolean;
   onGeneratedPassword?: (password: string) => void;
+  /** Company password rules; unmet rules are listed first and cap the strength */
+  policy?: PasswordPolicy;
 }
 
 interface PasswordStrength {
@@ -18,45 +25,48 @@ interface PasswordStrength {
   feedback: string[];
 }
 
-const calculatePasswordStrength = (password: string): PasswordStrength => {
+const calculatePasswordStrength = (
+  password: string,
+  policy: PasswordPolicy
+): PasswordStrength => {
   if (!password) {
     return { score: 0, label: "No password", color: "bg-gray-300", feedback: [] };
   }
 
   let score = 0;
-  const feedback: string[] = [];
+  const violations = getPasswordPolicyViolations(password, policy);
+  const feedback: string[] = violations.map((violation) => violation.message);
 
   // Length check
-  if (password.length >= 8) score += 20;
+  if (password.length >= policy.minLength) score += 20;
   if (password.length >= 12) score += 10;
   if (password.length >= 16) score += 10;
-  if (password.length < 8) feedback.push("At least 8 characters required");
 
   // Lowercase letters
   if (/[a-z]/.test(password)) {
     score += 15;
-  } else {
+  } else if (!policy.requireLowercase) {
     feedback.push("Add lowercase letters");
   }
 
   // Uppercase letters
   if (/[A-Z]/.test(password)) {
     score += 15;
-  } else {
+  } else if (!policy.requireUppercase) {
     feedback.push("Add uppercase letters");
   }
 
   // Numbers
   if (/\d/.test(password)) {
     score += 15;
-  } else {
+  } else if (!policy.requireNumber) {
     feedback.push("Add numbers");
   }
 
   // Special characters
   if (/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(password)) {
     score += 15;
-  } else {
+  } else if (!policy.requireSymbol) {
     feedback.push("Add special characters");
   }
 
@@ -79,8 +89,8 @@ const calculatePasswordStrength = (password: string): PasswordStrength => {
     feedback.push("Avoid common patterns");
   }
 
-  // Cap score at 100
-  score = Math.min(score, 100);
+  // Cap score at 100, and below "Fair" while the policy is not met
+  score = Math.min(score, violations.length > 0 ? 25 : 100);
 
   // Determine label and color
   let label = "";
@@ -102,7 +112,7 @@ const calculatePasswordStrength = (password: string): PasswordStrength => {
   return { score, label, color, feedback };
 };
 
-const generateStrongPassword = (): string => {
+const generateStrongPassword = (length: number): string => {
   const lowercase = "abcdefghijklmnopqrstuvwxyz";
   const uppercase = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
   const numbers = "0123456789";
@@ -118,8 +128,8 @@ const generateStrongPassword = (): string => {
   password += numbers[Math.floor(Math.random() * numbers.length)];
   password += special[Math.floor(Math.random() * special.length)];
 
-  // Fill the rest (total length: 16 characters)
-  for (let i = password.length; i < 16; i++) {
+  // Fill the rest
+  for (let i = password.length; i < length; i++) {
     password += allChars[Math.floor(Math.random() * allChars.length)];
   }
 
@@ -131,14 +141,24 @@ const generateStrongPassword = (): string => {
 };
 
 export const QPassword = forwardRef<HTMLInputElement, QPasswordProps>(
-  ({ className, showStrength = false, showGenerator = false, onGeneratedPassword, ...props }, ref) => {
+  (
+    {
+      className,
+      showStrength = false,
+      showGenerator = false,
+      onGeneratedPassword,
+      policy = DEFAULT_PASSWORD_POLICY,
+      ...props
+    },
+    ref
+  ) => {
     const [showPassword, setShowPassword] = useState(false);
     const [password, setPassword] = useState("");
 
-    const strength = showStrength ? calculatePasswordStrength(password) : null;
+    const strength = showStrength ? calculatePasswordStrength(password, policy) : null;
 
     const handleGeneratePassword = () => {
-      const newPassword = generateStrongPassword();
+      const newPassword = generateStrongPassword(Math.max(16, policy.minLength));
       setPassword(newPassword);
       if (onGeneratedPassword) {
         onGeneratedPassword(newPassword);
@@ -9,6 +9,7 @@ import {
   Users,
   BookUser,
   ScrollText,
+  KeyRound,
 } from "lucide-react";
 import { useLocation } from "wouter";
 import { useTranslation } from "react-i18next";
@@ -171,6 +172,11 @@ export function AppSidebar({ user, organization, ...props }: AppSidebarProps) {
           url: "/audit",
           icon: ScrollText,
         },
+        {
+          title: t('sidebar.permissions'),
+          url: "/company/permissions",
+          icon: KeyRound,
+        },
         {
           title: t('sidebar.settings'),
           url: "/company/settings",
@@ -1,8 +1,13 @@
 /**
  * Audit Service
  * Thin client service for audit logging API calls
+ *
+ * The audit routes require audit.read in the active company (X-Company-Id,
+ * see getApiHeaders) and act as the session user.
  */
 
+import { getApiHeaders } from "@/lib/api";
+
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3000";
 
 /**
@@ -72,6 +77,7 @@ export class AuditService {
     const response = await fetch(
       `${API_URL}/api/audit/trail/${table}/${recordId}`,
       {
+        headers: getApiHeaders(),
         credentials: "include",
       }
     );
@@ -104,6 +110,7 @@ export class AuditService {
     const response = await fetch(
       `${API_URL}/api/audit/user/${userId}/activity?${params}`,
       {
+        headers: getApiHeaders(),
         credentials: "include",
       }
     );
@@ -122,24 +129,21 @@ export class AuditService {
    * @param reportType - Report type (e.g., 'SOC2', 'SOX')
    * @param periodStart - Start date
    * @param periodEnd - End date
-   * @param generatedBy - User ID of person generating report
    * @returns Report data
    */
   static async generateReport(
     reportType: string,
     periodStart: Date,
-    periodEnd: Date,
-    generatedBy: string
+    periodEnd: Date
   ): Promise<any> {
     const response = await fetch(`${API_URL}/api/audit/report/generate`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: getApiHeaders(),
       credentials: "include",
       body: JSON.stringify({
         reportType,
         periodStart: periodStart.toISOString(),
         periodEnd: periodEnd.toISOString(),
-        generatedBy,
       }),
     });
 
@@ -158,6 +162,7 @@ export class AuditService {
    */
   static async getActiveSessions(): Promise<ActiveSession[]> {
     const response = await fetch(`${API_URL}/api/audit/sessions/active`, {
+      headers: getApiHeaders(),
       credentials: "include",
     });
 
@@ -176,6 +181,7 @@ export class AuditService {
    */
   static async getSuspiciousSessions(): Promise<ActiveSession[]> {
     const response = await fetch(`${API_URL}/api/audit/sessions/suspicious`, {
+      headers: getApiHeaders(),
       credentials: "include",
     });
 
@@ -214,6 +220,7 @@ export class AuditService {
     const response = await fetch(
       `${API_URL}/api/audit/logs/recent?${params}`,
       {
+        headers: getApiHeaders(),
         credentials: "include",
       }
     );
@@ -239,6 +246,7 @@ export class AuditService {
     const response = await fetch(
       `${API_URL}/api/audit/soft-deletes?${params}`,
       {
+        headers: getApiHeaders(),
         credentials: "include",
       }
     );
@@ -256,21 +264,15 @@ export class AuditService {
    *
    * @param table - Table name
    * @param recordId - Record ID
-   * @param restoredBy - User ID of person restoring
    * @returns Restore result
    */
-  static async restoreSoftDelete(
-    table: string,
-    recordId: string,
-    restoredBy: string
-  ): Promise<any> {
+  static async restoreSoftDelete(table: string, recordId: string): Promise<any> {
     const response = await fetch(
       `${API_URL}/api/audit/restore/${table}/${recordId}`,
       {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: getApiHeaders(),
         credentials: "include",
-        body: JSON.stringify({ restoredBy }),
       }
     );
 
@@ -4,6 +4,7 @@ import ProfilePage from "./profile.page";
 import SecurityPage from "./security.page";
 import { ContactForm } from "./contact.page";
 import LanguagePage from "./language.page";
+import PrivacyPage from "./privacy.page";
 
 // Wrapper for ContactForm to make it work with Route
 const ContactPage = () => <ContactForm />;
@@ -35,6 +36,12 @@ export default function AccountPage() {
           >
             {t('auth.account.tabs.language')}
           </Link>
+          <Link
+            href="/account/privacy"
+            className="block px-4 py-2 rounded hover:bg-accent"
+          >
+            {t('auth.account.tabs.privacy')}
+          </Link>
           <Link
             href="/account/contact"
             className="block px-4 py-2 rounded hover:bg-accent"
@@ -48,6 +55,7 @@ export default function AccountPage() {
             <Route path="/account/profile" component={ProfilePage} />
             <Route path="/account/security" component={SecurityPage} />
             <Route path="/account/language" component={LanguagePage} />
+            <Route path="/account/privacy" component={PrivacyPage} />
             <Route path="/account/contact" component={ContactPage} />
             <Route>
               <div>{t('auth.account.selectSection')}</div>
@@ -0,0 +1,309 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/lib/ui/button";
+import { Input } from "@/lib/ui/input";
+import { Label } from "@/lib/ui/label";
+import { Checkbox } from "@/lib/ui/checkbox";
+import { Badge } from "@/lib/ui/badge";
+import { Alert, AlertDescription } from "@/lib/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/lib/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/lib/ui/card";
+import { toast } from "sonner";
+import { Copy, KeyRound } from "lucide-react";
+import { useAuth } from "@/lib/auth-context";
+import { useCompanyOptional } from "@/lib/company-context";
+import { AuthService, type ApiToken, type CreatedApiToken } from "@/modules/auth/auth-service";
+
+// Lifetimes offered for new tokens, in days (the server accepts 1-365)
+const EXPIRY_OPTIONS = [30, 90, 365];
+
+export interface PermissionOption {
+  name: string;
+  description?: string | null;
+}
+
+export interface NewApiTokenInput {
+  name: string;
+  permissions: string[];
+  expiresInDays: number;
+}
+
+interface PermissionChecklistProps {
+  permissions: PermissionOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+/**
+ * Checkboxes for the permissions a token or a service account gets
+ */
+export function PermissionChecklist({ permissions, selected, onChange }: PermissionChecklistProps) {
+  const toggle = (name: string, checked: boolean) => {
+    onChange(checked ? [...selected, name] : selected.filter((permission) => permission !== name));
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+      {permissions.map((permission) => (
+        <label
+          key={permission.name}
+          className="flex items-center gap-2 text-sm"
+          title={permission.description || undefined}
+        >
+          <Checkbox
+            checked={selected.includes(permission.name)}
+            onCheckedChange={(checked) => toggle(permission.name, checked === true)}
+          />
+          <span className="font-mono">{permission.name}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+interface ApiTokenCreatorProps {
+  permissions: PermissionOption[];
+  onCreate: (data: NewApiTokenInput) => Promise<void>;
+}
+
+/**
+ * Name, lifetime and permissions of a new token
+ */
+export function ApiTokenCreator({ permissions, onCreate }: ApiTokenCreatorProps) {
+  const { t } = useTranslation();
+  const [name, setName] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState("90");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async () => {
+    try {
+      setIsCreating(true);
+      await onCreate({ name, permissions: selected, expiresInDays: Number(expiresInDays) });
+      setName("");
+      setSelected([]);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="api-token-name">{t('auth.account.security.apiTokens.name')}</Label>
+          <Input
+            id="api-token-name"
+            placeholder={t('auth.account.security.apiTokens.namePlaceholder')}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>{t('auth.account.security.apiTokens.expiresIn')}</Label>
+          <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  {t('auth.account.security.apiTokens.days', { count: days })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>{t('auth.account.security.apiTokens.permissions')}</Label>
+        <PermissionChecklist permissions={permissions} selected={selected} onChange={setSelected} />
+      </div>
+
+      <Button
+        onClick={handleCreate}
+        disabled={isCreating || !name.trim() || selected.length === 0}
+      >
+        {t('auth.account.security.apiTokens.createButton')}
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * A token right after it was created: the only time it can be copied
+ */
+export function CreatedApiTokenAlert({ token, onDone }: { token: CreatedApiToken; onDone: () => void }) {
+  const { t } = useTranslation();
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(token.token);
+    toast.success(t('auth.account.security.apiTokens.copied'));
+  };
+
+  return (
+    <Alert>
+      <AlertDescription className="space-y-3">
+        <p>{t('auth.account.security.apiTokens.copyNow', { name: token.name })}</p>
+        <div className="flex gap-2">
+          <Input readOnly value={token.token} className="font-mono" />
+          <Button variant="outline" size="icon" onClick={handleCopy}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <Button variant="outline" size="sm" onClick={onDone}>
+          {t('auth.account.security.apiTokens.doneButton')}
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+/**
+ * One token in a list, with its scope and usage
+ */
+export function ApiTokenRow({ token, onRevoke }: { token: ApiToken; onRevoke: (token: ApiToken) => void }) {
+  const { t } = useTranslation();
+  const expired = token.expiresAt <= Date.now();
+
+  return (
+    <div className="flex items-center justify-between gap-4 border-b pb-3 last:border-b-0">
+      <div className="min-w-0 space-y-1">
+        <p className="text-sm font-medium truncate">
+          {token.name}
+          <span className="ml-2 font-mono text-xs text-muted-foreground">{token.tokenPrefix}…</span>
+          {token.companyTitle && (
+            <span className="ml-2 text-xs text-muted-foreground">{token.companyTitle}</span>
+          )}
+          {expired && (
+            <Badge variant="destructive" className="ml-2">
+              {t('auth.account.security.apiTokens.expired')}
+            </Badge>
+          )}
+        </p>
+        <div className="flex flex-wrap gap-1">
+          {token.permissions.map((permission) => (
+            <Badge key={permission} variant="secondary" className="font-mono">
+              {permission}
+            </Badge>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {t('auth.account.security.apiTokens.expires', {
+            date: new Date(token.expiresAt).toLocaleDateString(),
+          })}
+          {" · "}
+          {token.lastUsedAt
+            ? t('auth.account.security.apiTokens.lastUsed', {
+                date: new Date(token.lastUsedAt).toLocaleString(),
+              })
+            : t('auth.account.security.apiTokens.neverUsed')}
+          {token.lastUsedIp && ` · ${token.lastUsedIp}`}
+        </p>
+      </div>
+      <Button variant="outline" size="sm" onClick={() => onRevoke(token)}>
+        {t('auth.account.security.apiTokens.revokeButton')}
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Personal API tokens: scripts act as the user, in one company and with
+ * only the chosen permissions
+ */
+export function ApiTokensForm() {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const company = useCompanyOptional()?.activeCompany ?? null;
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [permissions, setPermissions] = useState<PermissionOption[]>([]);
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+
+  const loadTokens = async () => {
+    if (!user?._id) return;
+    try {
+      setTokens(await AuthService.getApiTokens(user._id));
+    } catch (error) {
+      console.error("Failed to load API tokens:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadTokens();
+  }, [user?._id]);
+
+  // A token can only carry permissions the user has in the active company
+  useEffect(() => {
+    if (!user?._id || !company) return;
+    AuthService.getUserPermissions(user._id, company.id)
+      .then((result) => setPermissions(result.permissions || []))
+      .catch((error) => console.error("Failed to load permissions:", error));
+  }, [user?._id, company?.id]);
+
+  const handleCreate = async (data: NewApiTokenInput) => {
+    if (!user?._id || !company) return;
+    try {
+      setCreated(await AuthService.createApiToken(user._id, company.id, data));
+      await loadTokens();
+    } catch (error: any) {
+      toast.error(error.message || t('auth.account.security.apiTokens.createError'));
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!user?._id) return;
+    try {
+      await AuthService.revokeApiToken(user._id, token.id);
+      toast.success(t('auth.account.security.apiTokens.revoked'));
+      await loadTokens();
+    } catch (error: any) {
+      toast.error(error.message || t('auth.account.security.apiTokens.revokeError'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          <CardTitle>{t('auth.account.security.apiTokens.title')}</CardTitle>
+        </div>
+        <CardDescription>{t('auth.account.security.apiTokens.subtitle')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {created && <CreatedApiTokenAlert token={created} onDone={() => setCreated(null)} />}
+
+        {tokens.map((token) => (
+          <ApiTokenRow key={token.id} token={token} onRevoke={handleRevoke} />
+        ))}
+
+        {company ? (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">
+              {t('auth.account.security.apiTokens.newToken', { company: company.title })}
+            </p>
+            <ApiTokenCreator permissions={permissions} onCreate={handleCreate} />
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {t('auth.account.security.apiTokens.noCompany')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/lib/ui/button";
+import { Input } from "@/lib/ui/input";
+import { Label } from "@/lib/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/lib/ui/input-otp";
+import { QPassword } from "@/lib/ui/QPassword.ui";
+import { toast } from "sonner";
+import { useAuth } from "@/lib/auth-context";
+import { AuthService, type PendingEmailChange } from "@/modules/auth/auth-service";
+
+interface ChangeEmailFormProps {
+  onSuccess?: () => void;
+}
+
+/**
+ * Change the login email: the password starts the change, the code sent to
+ * the new address finishes it. The old address gets a link to cancel.
+ */
+export function ChangeEmailForm({ onSuccess }: ChangeEmailFormProps) {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [pending, setPending] = useState<PendingEmailChange | null>(null);
+  const [newEmail, setNewEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!user?._id) return;
+    AuthService.getEmailChange(user._id)
+      .then(setPending)
+      .catch((error) => console.error("Failed to load pending email change:", error));
+  }, [user?._id]);
+
+  const handleRequest = async () => {
+    if (!user?._id) return;
+    try {
+      setIsSubmitting(true);
+      setPending(await AuthService.requestEmailChange(user._id, newEmail, password));
+      setPassword("");
+      setCode("");
+      toast.success(t('auth.account.security.changeEmail.codeSent', { email: newEmail }));
+    } catch (error: any) {
+      toast.error(error.message || t('auth.account.security.changeEmail.requestError'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!user?._id) return;
+    try {
+      setIsSubmitting(true);
+      const result = await AuthService.confirmEmailChange(user._id, code);
+      toast.success(t('auth.account.security.changeEmail.success', { email: result.email }));
+      setPending(null);
+      setNewEmail("");
+      setCode("");
+      onSuccess?.();
+    } catch (error: any) {
+      setCode("");
+      toast.error(error.message || t('auth.account.security.changeEmail.confirmError'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (pending) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {t('auth.account.security.changeEmail.enterCode', { email: pending.newEmail })}
+        </p>
+        <InputOTP maxLength={6} value={code} onChange={setCode}>
+          <InputOTPGroup>
+            <InputOTPSlot index={0} />
+            <InputOTPSlot index={1} />
+            <InputOTPSlot index={2} />
+            <InputOTPSlot index={3} />
+            <InputOTPSlot index={4} />
+            <InputOTPSlot index={5} />
+          </InputOTPGroup>
+        </InputOTP>
+        <div className="flex gap-2">
+          <Button onClick={handleConfirm} disabled={isSubmitting || code.length !== 6}>
+            {t('auth.account.security.changeEmail.confirmButton')}
+          </Button>
+          <Button variant="outline" onClick={() => setPending(null)}>
+            {t('auth.account.security.changeEmail.startOverButton')}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>{t('auth.account.security.changeEmail.currentEmail')}</Label>
+        <Input value={user?.email || ""} disabled />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="new-email">{t('auth.account.security.changeEmail.newEmail')}</Label>
+        <Input
+          id="new-email"
+          type="email"
+          value={newEmail}
+          onChange={(e) => setNewEmail(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="change-email-password">{t('auth.account.security.changeEmail.password')}</Label>
+        <QPassword
+          id="change-email-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </div>
+      <Button onClick={handleRequest} disabled={isSubmitting || !newEmail.trim() || !password}>
+        {t('auth.account.security.changeEmail.sendCodeButton')}
+      </Button>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useForm } from "react-hook-form";
 import { valibotResolver } from "@hookform/resolvers/valibot";
 import { useTranslation } from "react-i18next";
-import { useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import * as v from "valibot";
 import { Button } from "@/lib/ui/button";
 import {
@@ -16,6 +16,12 @@ import { QPassword } from "@/lib/ui/QPassword.ui";
 import { toast } from "sonner";
 import { useAuth } from "@/lib/auth-context";
 import { AuthService } from "@/modules/auth/auth-service";
+import { ApiError } from "@/lib/api";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  getPasswordPolicyViolations,
+  type PasswordPolicy,
+} from "@/modules/auth/password-policy";
 
 interface ChangePasswordFormProps {
   onSuccess?: () => void;
@@ -24,6 +30,15 @@ interface ChangePasswordFormProps {
 export function ChangePasswordForm({ onSuccess }: ChangePasswordFormProps) {
   const { t } = useTranslation();
   const { user } = useAuth();
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+
+  // Company password rules; the server enforces them either way
+  useEffect(() => {
+    if (!user?._id) return;
+    AuthService.getPasswordPolicy(user._id)
+      .then(setPolicy)
+      .catch((error) => console.error("Failed to load password policy:", error));
+  }, [user?._id]);
 
   const passwordSchema = useMemo(() => v.pipe(
     v.object({
@@ -33,7 +48,12 @@ export function ChangePasswordForm({ onSuccess }: ChangePasswordFormProps) {
       ),
       newPassword: v.pipe(
         v.string(),
-        v.minLength(8, t('auth.account.security.changePassword.newPasswordMinLength'))
+        v.rawCheck(({ dataset, addIssue }) => {
+          if (!dataset.typed) return;
+          for (const violation of getPasswordPolicyViolations(dataset.value, policy)) {
+            addIssue({ message: t(`errors.VALIDATION_FAILED.${violation.rule}`, { ...policy }) });
+          }
+        })
       ),
       confirmPassword: v.pipe(
         v.string(),
@@ -48,7 +68,7 @@ export function ChangePasswordForm({ onSuccess }: ChangePasswordFormProps) {
       ),
       ["confirmPassword"]
     )
-  ), [t]);
+  ), [t, policy]);
 
   type PasswordFormData = v.InferOutput<typeof passwordSchema>;
   const form = useForm<PasswordFormData>({
@@ -73,6 +93,10 @@ export function ChangePasswordForm({ onSuccess }: ChangePasswordFormProps) {
       onSuccess?.();
     } catch (error: any) {
       console.error("Password change error:", error);
+      if (error instanceof ApiError && error.field === "new_password") {
+        form.setError("newPassword", { message: error.message });
+        return;
+      }
       toast.error(error.message || t('auth.account.security.changePassword.error'));
     }
   };
@@ -105,6 +129,7 @@ export function ChangePasswordForm({ onSuccess }: ChangePasswordFormProps) {
                   {...field}
                   showStrength={true}
                   showGenerator={true}
+                  policy={policy}
                   onGeneratedPassword={(pwd) => {
                     // Update both new password and confirm password with generated password
                     form.setValue("newPassword", pwd);
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import { Download, Trash2 } from "lucide-react";
+import { useAuth } from "@/lib/auth-context";
+import { AuthService, type AccountErasure } from "@/modules/auth/auth-service";
+import { Button } from "@/lib/ui/button";
+import { Label } from "@/lib/ui/label";
+import { Alert, AlertDescription } from "@/lib/ui/alert";
+import { QPassword } from "@/lib/ui/QPassword.ui";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/lib/ui/card";
+
+/**
+ * Personal data (GDPR): download everything held about the user, or have the
+ * account erased after a grace period during which the request can be
+ * cancelled.
+ */
+export default function PrivacyPage() {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [erasure, setErasure] = useState<AccountErasure | null>(null);
+  const [password, setPassword] = useState("");
+  const [exporting, setExporting] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!user?._id) return;
+    AuthService.getAccountErasure(user._id)
+      .then(setErasure)
+      .catch((error) => console.error("Failed to load account erasure:", error));
+  }, [user?._id]);
+
+  const handleExport = async () => {
+    if (!user?._id) return;
+    try {
+      setExporting(true);
+      const data = await AuthService.exportPersonalData(user._id);
+
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `personal-data-${Date.now()}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast.error(error.message || t('auth.account.privacy.export.error'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleRequestErasure = async () => {
+    if (!user?._id) return;
+    if (!confirm(t('auth.account.privacy.erasure.confirm'))) return;
+
+    try {
+      setSubmitting(true);
+      setErasure(await AuthService.requestAccountErasure(user._id, password));
+      setPassword("");
+      toast.success(t('auth.account.privacy.erasure.requested'));
+    } catch (error: any) {
+      toast.error(error.message || t('auth.account.privacy.erasure.requestError'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancelErasure = async () => {
+    if (!user?._id) return;
+    try {
+      setSubmitting(true);
+      await AuthService.cancelAccountErasure(user._id);
+      setErasure(null);
+      toast.success(t('auth.account.privacy.erasure.cancelled'));
+    } catch (error: any) {
+      toast.error(error.message || t('auth.account.privacy.erasure.cancelError'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5" />
+            {t('auth.account.privacy.export.title')}
+          </CardTitle>
+          <CardDescription>{t('auth.account.privacy.export.subtitle')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button onClick={handleExport} disabled={exporting}>
+            {exporting
+              ? t('auth.account.privacy.export.exportingButton')
+              : t('auth.account.privacy.export.button')}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Trash2 className="h-5 w-5" />
+            {t('auth.account.privacy.erasure.title')}
+          </CardTitle>
+          <CardDescription>{t('auth.account.privacy.erasure.subtitle')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {erasure ? (
+            <>
+              <Alert variant="destructive">
+                <AlertDescription>
+                  {t('auth.account.privacy.erasure.pending', {
+                    date: new Date(erasure.eraseAfter).toLocaleDateString(),
+                  })}
+                </AlertDescription>
+              </Alert>
+              <Button variant="outline" onClick={handleCancelErasure} disabled={submitting}>
+                {t('auth.account.privacy.erasure.cancelButton')}
+              </Button>
+            </>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="erasure-password">{t('auth.account.privacy.erasure.password')}</Label>
+                <QPassword
+                  id="erasure-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+              <Button
+                variant="destructive"
+                onClick={handleRequestErasure}
+                disabled={submitting || !password}
+              >
+                {t('auth.account.privacy.erasure.requestButton')}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
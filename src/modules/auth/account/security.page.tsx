@@ -9,21 +9,52 @@ import {
   CardTitle,
 } from "@/lib/ui/card";
 import { Alert, AlertDescription } from "@/lib/ui/alert";
+import { Badge } from "@/lib/ui/badge";
 import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/lib/ui/input-otp";
 import { toast } from "sonner";
-import { Shield, ShieldCheck, AlertTriangle, Key } from "lucide-react";
+import { Shield, ShieldCheck, AlertTriangle, Key, Copy, Monitor, LogOut, Mail } from "lucide-react";
 import { ChangePasswordForm } from "./changePassword.form";
+import { ChangeEmailForm } from "./changeEmail.form";
+import { describeUserAgent } from "./sessions.utils";
+import { ApiTokensForm } from "./apiTokens.form";
+import { ServiceAccountsForm } from "./serviceAccounts.form";
 import { useAuth } from "@/lib/auth-context";
 import { AuthService } from "@/modules/auth/auth-service";
 
+interface TrustedDevice {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: number;
+  lastUsedAt: number;
+  expiresAt: number;
+}
+
+interface UserSession {
+  id: string;
+  current: boolean;
+  ipAddress: string | null;
+  userAgent: string | null;
+  loginMethod: string | null;
+  createdAt: number;
+  lastActivityAt: number;
+  expiresAt: number;
+}
+
 export default function SecurityPage() {
   const { t } = useTranslation();
-  const { user } = useAuth();
+  const { user, refreshAuth, logout, passwordChangeRequired } = useAuth();
   const [twoFactorStatus, setTwoFactorStatus] = useState<{
     enabled: boolean;
     required: boolean;
     deadline: string | null;
+    setupRequired: boolean;
+    recoveryCodesRemaining: number;
   } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [regenerateToken, setRegenerateToken] = useState<string>("");
+  const [trustedDevices, setTrustedDevices] = useState<TrustedDevice[]>([]);
+  const [sessions, setSessions] = useState<UserSession[]>([]);
   const [setupStep, setSetupStep] = useState<"idle" | "qr" | "verify">("idle");
   const [qrCode, setQrCode] = useState<string>("");
   const [secret, setSecret] = useState<string>("");
@@ -33,8 +64,18 @@ export default function SecurityPage() {
 
   useEffect(() => {
     loadTwoFactorStatus();
+    loadSessions();
   }, [user]);
 
+  const loadSessions = async () => {
+    try {
+      if (!user?._id) return;
+      setSessions(await AuthService.getSessions(user._id));
+    } catch (error) {
+      console.error("Failed to load sessions:", error);
+    }
+  };
+
   const loadTwoFactorStatus = async () => {
     try {
       if (!user?._id) {
@@ -44,6 +85,10 @@ export default function SecurityPage() {
 
       const status = await AuthService.get2FAStatus(user._id);
       setTwoFactorStatus(status);
+
+      if (status.enabled) {
+        setTrustedDevices(await AuthService.getTrustedDevices(user._id));
+      }
     } catch (error) {
       console.error("Failed to load 2FA status:", error);
       toast.error(t('auth.account.security.messages.loadError'));
@@ -82,13 +127,17 @@ export default function SecurityPage() {
         return;
       }
 
-      await AuthService.enable2FA(user._id, otpToken);
+      const result = await AuthService.enable2FA(user._id, otpToken);
       toast.success(t('auth.account.security.messages.enabled'));
+      setRecoveryCodes(result.recoveryCodes || []);
       setSetupStep("idle");
       setOtpToken("");
       setQrCode("");
       setSecret("");
       await loadTwoFactorStatus();
+
+      // Lifts the enforced-setup restriction if the company required 2FA
+      await refreshAuth();
     } catch (error: any) {
       console.error("2FA verification error:", error);
       toast.error(error.message || t('auth.account.security.messages.invalidCodeError'));
@@ -117,6 +166,104 @@ export default function SecurityPage() {
     }
   };
 
+  const handleRegenerateCodes = async () => {
+    try {
+      if (!user?._id) {
+        toast.error(t('auth.account.security.messages.userNotFound'));
+        return;
+      }
+
+      if (regenerateToken.length !== 6) {
+        toast.error(t('auth.account.security.messages.invalidCode'));
+        return;
+      }
+
+      const result = await AuthService.regenerateRecoveryCodes(user._id, regenerateToken);
+      setRecoveryCodes(result.recoveryCodes || []);
+      setRegenerateToken("");
+      toast.success(t('auth.account.security.messages.codesRegenerated'));
+      await loadTwoFactorStatus();
+    } catch (error: any) {
+      console.error("Recovery codes error:", error);
+      toast.error(error.message || t('auth.account.security.messages.regenerateError'));
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast.success(t('auth.account.security.messages.codesCopied'));
+  };
+
+  const handleRevokeDevices = async (deviceId?: string) => {
+    try {
+      if (!user?._id) {
+        toast.error(t('auth.account.security.messages.userNotFound'));
+        return;
+      }
+
+      await AuthService.revokeTrustedDevices(user._id, deviceId);
+      toast.success(
+        deviceId
+          ? t('auth.account.security.messages.deviceRevoked')
+          : t('auth.account.security.messages.devicesRevoked')
+      );
+      setTrustedDevices(await AuthService.getTrustedDevices(user._id));
+    } catch (error: any) {
+      console.error("Trusted device revoke error:", error);
+      toast.error(error.message || t('auth.account.security.messages.revokeError'));
+    }
+  };
+
+  const handleRevokeSession = async (session: UserSession) => {
+    try {
+      if (!user?._id) {
+        toast.error(t('auth.account.security.messages.userNotFound'));
+        return;
+      }
+
+      // This device: a regular sign-out also clears the cookies
+      if (session.current) {
+        await logout();
+        return;
+      }
+
+      await AuthService.revokeSession(user._id, session.id);
+      toast.success(t('auth.account.security.messages.sessionRevoked'));
+      await loadSessions();
+    } catch (error: any) {
+      console.error("Session revoke error:", error);
+      toast.error(error.message || t('auth.account.security.messages.revokeError'));
+    }
+  };
+
+  const handleRevokeOtherSessions = async () => {
+    try {
+      if (!user?._id) {
+        toast.error(t('auth.account.security.messages.userNotFound'));
+        return;
+      }
+
+      const result = await AuthService.revokeOtherSessions(user._id);
+      toast.success(t('auth.account.security.messages.sessionsRevoked', { count: result.revoked }));
+      await loadSessions();
+    } catch (error: any) {
+      console.error("Session revoke error:", error);
+      toast.error(error.message || t('auth.account.security.messages.revokeError'));
+    }
+  };
+
+  const handlePasswordChanged = async () => {
+    // The password change signed out all other sessions
+    await refreshAuth();
+    await loadSessions();
+  };
+
+  const handleEmailChanged = async () => {
+    // The new email is in the user record; other sessions were signed out
+    await refreshAuth();
+    await loadSessions();
+  };
+
   if (loading) {
     return <div>{t('auth.account.security.loading')}</div>;
   }
@@ -132,8 +279,31 @@ export default function SecurityPage() {
           </div>
           <CardDescription>{t('auth.account.security.changePassword.subtitle')}</CardDescription>
         </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Expired under the company policy: the app is locked until it is changed */}
+          {passwordChangeRequired && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {t('auth.account.security.changePassword.expired')}
+              </AlertDescription>
+            </Alert>
+          )}
+          <ChangePasswordForm onSuccess={handlePasswordChanged} />
+        </CardContent>
+      </Card>
+
+      {/* Email Change Card */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            <CardTitle>{t('auth.account.security.changeEmail.title')}</CardTitle>
+          </div>
+          <CardDescription>{t('auth.account.security.changeEmail.subtitle')}</CardDescription>
+        </CardHeader>
         <CardContent>
-          <ChangePasswordForm />
+          <ChangeEmailForm onSuccess={handleEmailChanged} />
         </CardContent>
       </Card>
 
@@ -165,8 +335,18 @@ export default function SecurityPage() {
             )}
           </div>
 
+          {/* Enforced: the deadline has passed, the app is locked until 2FA is enabled */}
+          {twoFactorStatus?.setupRequired && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {t('auth.account.security.twoFA.setupRequired')}
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Global Requirement Warning */}
-          {twoFactorStatus?.required && !twoFactorStatus?.enabled && (
+          {twoFactorStatus?.required && !twoFactorStatus?.enabled && !twoFactorStatus?.setupRequired && (
             <Alert variant="destructive">
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
@@ -256,6 +436,74 @@ export default function SecurityPage() {
             </div>
           )}
 
+          {/* Recovery codes - shown once after enabling or regenerating */}
+          {recoveryCodes.length > 0 && (
+            <div className="space-y-4 border-t pt-4">
+              <p className="text-sm font-medium">
+                {t('auth.account.security.twoFA.recoveryCodesTitle')}
+              </p>
+              <Alert>
+                <AlertDescription>
+                  {t('auth.account.security.twoFA.recoveryCodesHint')}
+                </AlertDescription>
+              </Alert>
+              <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                {recoveryCodes.map((code) => (
+                  <code key={code} className="bg-muted px-2 py-1 rounded text-center">
+                    {code}
+                  </code>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={handleCopyCodes}>
+                  <Copy className="h-4 w-4" />
+                  {t('auth.account.security.twoFA.copyCodes')}
+                </Button>
+                <Button onClick={() => setRecoveryCodes([])}>
+                  {t('auth.account.security.twoFA.doneButton')}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Regenerate recovery codes */}
+          {twoFactorStatus?.enabled && recoveryCodes.length === 0 && (
+            <div className="space-y-4 border-t pt-4">
+              <p className="text-sm font-medium">
+                {t('auth.account.security.twoFA.recoveryCodesTitle')}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {t('auth.account.security.twoFA.recoveryCodesRemaining', {
+                  count: twoFactorStatus.recoveryCodesRemaining,
+                })}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {t('auth.account.security.twoFA.regenerateInstructions')}
+              </p>
+              <InputOTP
+                maxLength={6}
+                value={regenerateToken}
+                onChange={setRegenerateToken}
+              >
+                <InputOTPGroup>
+                  <InputOTPSlot index={0} />
+                  <InputOTPSlot index={1} />
+                  <InputOTPSlot index={2} />
+                  <InputOTPSlot index={3} />
+                  <InputOTPSlot index={4} />
+                  <InputOTPSlot index={5} />
+                </InputOTPGroup>
+              </InputOTP>
+              <Button
+                variant="outline"
+                onClick={handleRegenerateCodes}
+                disabled={regenerateToken.length !== 6}
+              >
+                {t('auth.account.security.twoFA.regenerateButton')}
+              </Button>
+            </div>
+          )}
+
           {/* Disable 2FA */}
           {twoFactorStatus?.enabled && !twoFactorStatus?.required && (
             <div className="space-y-4 border-t pt-4">
@@ -290,6 +538,105 @@ export default function SecurityPage() {
           )}
         </CardContent>
       </Card>
+
+      {/* Trusted Devices Card */}
+      {twoFactorStatus?.enabled && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Monitor className="h-5 w-5" />
+              <CardTitle>{t('auth.account.security.trustedDevices.title')}</CardTitle>
+            </div>
+            <CardDescription>{t('auth.account.security.trustedDevices.subtitle')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {trustedDevices.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {t('auth.account.security.trustedDevices.none')}
+              </p>
+            ) : (
+              <>
+                {trustedDevices.map((device) => (
+                  <div
+                    key={device.id}
+                    className="flex items-center justify-between gap-4 border-b pb-3 last:border-b-0"
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <p className="text-sm font-medium truncate">
+                        {describeUserAgent(device.userAgent) || t('auth.account.security.trustedDevices.unknownDevice')}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {device.ipAddress && `${device.ipAddress} · `}
+                        {t('auth.account.security.trustedDevices.lastUsed', {
+                          date: new Date(device.lastUsedAt).toLocaleString(),
+                        })}
+                        {" · "}
+                        {t('auth.account.security.trustedDevices.expires', {
+                          date: new Date(device.expiresAt).toLocaleDateString(),
+                        })}
+                      </p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => handleRevokeDevices(device.id)}>
+                      {t('auth.account.security.trustedDevices.revokeButton')}
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="destructive" onClick={() => handleRevokeDevices()}>
+                  {t('auth.account.security.trustedDevices.revokeAllButton')}
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Sessions Card */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <LogOut className="h-5 w-5" />
+            <CardTitle>{t('auth.account.security.sessions.title')}</CardTitle>
+          </div>
+          <CardDescription>{t('auth.account.security.sessions.subtitle')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {sessions.map((session) => (
+            <div
+              key={session.id}
+              className="flex items-center justify-between gap-4 border-b pb-3 last:border-b-0"
+            >
+              <div className="min-w-0 space-y-1">
+                <p className="text-sm font-medium truncate">
+                  {describeUserAgent(session.userAgent) || t('auth.account.security.sessions.unknownDevice')}
+                  {session.current && (
+                    <Badge variant="secondary" className="ml-2">
+                      {t('auth.account.security.sessions.thisDevice')}
+                    </Badge>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {session.ipAddress && `${session.ipAddress} · `}
+                  {t('auth.account.security.sessions.lastActivity', {
+                    date: new Date(session.lastActivityAt).toLocaleString(),
+                  })}
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => handleRevokeSession(session)}>
+                {t('auth.account.security.sessions.signOutButton')}
+              </Button>
+            </div>
+          ))}
+          {sessions.some((session) => !session.current) && (
+            <Button variant="destructive" onClick={handleRevokeOtherSessions}>
+              {t('auth.account.security.sessions.signOutOthersButton')}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <ApiTokensForm />
+
+      <ServiceAccountsForm />
     </div>
   );
 }
@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/lib/ui/button";
+import { Input } from "@/lib/ui/input";
+import { Label } from "@/lib/ui/label";
+import { Badge } from "@/lib/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/lib/ui/card";
+import { toast } from "sonner";
+import { Bot } from "lucide-react";
+import { useAuth } from "@/lib/auth-context";
+import { useCompanyOptional } from "@/lib/company-context";
+import { AuthService, type ApiToken, type CreatedApiToken } from "@/modules/auth/auth-service";
+import { CompanyService } from "@/modules/company/company-service";
+import type { ServiceAccount } from "@/modules/company/company.types";
+import {
+  ApiTokenCreator,
+  ApiTokenRow,
+  CreatedApiTokenAlert,
+  PermissionChecklist,
+  type NewApiTokenInput,
+  type PermissionOption,
+} from "./apiTokens.form";
+
+/**
+ * Service accounts of the active company and their API tokens.
+ * Shown to users who manage users there (auth.manage_users), hidden otherwise.
+ */
+export function ServiceAccountsForm() {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const company = useCompanyOptional()?.activeCompany ?? null;
+  const [accounts, setAccounts] = useState<ServiceAccount[] | null>(null);
+  const [permissions, setPermissions] = useState<PermissionOption[]>([]);
+  const [name, setName] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [tokenFor, setTokenFor] = useState<string | null>(null);
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+
+  const loadAccounts = async () => {
+    if (!company) return;
+    try {
+      setAccounts(await CompanyService.getServiceAccounts(company._id));
+    } catch {
+      // Not allowed to manage users in this company
+      setAccounts(null);
+    }
+  };
+
+  useEffect(() => {
+    setAccounts(null);
+    loadAccounts();
+  }, [company?._id]);
+
+  // Nobody hands out a permission they do not have
+  useEffect(() => {
+    if (!user?._id || !company) return;
+    AuthService.getUserPermissions(user._id, company.id)
+      .then((result) => setPermissions(result.permissions || []))
+      .catch((error) => console.error("Failed to load permissions:", error));
+  }, [user?._id, company?.id]);
+
+  if (!company || !accounts) return null;
+
+  const handleCreateAccount = async () => {
+    try {
+      await CompanyService.createServiceAccount(company._id, name, selected);
+      toast.success(t('auth.account.security.serviceAccounts.created'));
+      setName("");
+      setSelected([]);
+      await loadAccounts();
+    } catch (error: any) {
+      toast.error(error.message || t('auth.account.security.serviceAccounts.createError'));
+    }
+  };
+
+  const handleDeleteAccount = async (account: ServiceAccount) => {
+    if (!confirm(t('auth.account.security.serviceAccounts.deleteConfirm', { name: account.name }))) {
+      return;
+    }
+
+    try {
+      await CompanyService.deleteServiceAccount(company._id, account.id);
+      toast.success(t('auth.account.security.serviceAccounts.deleted'));
+      await loadAccounts();
+    } catch (error: any) {
+      toast.error(error.message || t('auth.account.security.serviceAccounts.deleteError'));
+    }
+  };
+
+  const handleCreateToken = async (account: ServiceAccount, data: NewApiTokenInput) => {
+    try {
+      setCreated(await CompanyService.createServiceAccountToken(company._id, account.id, data));
+      setTokenFor(null);
+      await loadAccounts();
+    } catch (error: any) {
+      toast.error(error.message || t('auth.account.security.apiTokens.createError'));
+    }
+  };
+
+  const handleRevokeToken = async (token: ApiToken) => {
+    try {
+      await CompanyService.revokeServiceAccountToken(company._id, token.id);
+      toast.success(t('auth.account.security.apiTokens.revoked'));
+      await loadAccounts();
+    } catch (error: any) {
+      toast.error(error.message || t('auth.account.security.apiTokens.revokeError'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Bot className="h-5 w-5" />
+          <CardTitle>{t('auth.account.security.serviceAccounts.title')}</CardTitle>
+        </div>
+        <CardDescription>
+          {t('auth.account.security.serviceAccounts.subtitle', { company: company.title })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {created && <CreatedApiTokenAlert token={created} onDone={() => setCreated(null)} />}
+
+        {accounts.map((account) => (
+          <div key={account.id} className="space-y-3 rounded-lg border p-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="min-w-0 space-y-1">
+                <p className="text-sm font-medium truncate">{account.name}</p>
+                <div className="flex flex-wrap gap-1">
+                  {account.permissions.map((permission) => (
+                    <Badge key={permission} variant="secondary" className="font-mono">
+                      {permission}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setTokenFor(tokenFor === account.id ? null : account.id)}
+                >
+                  {t('auth.account.security.serviceAccounts.newTokenButton')}
+                </Button>
+                <Button variant="destructive" size="sm" onClick={() => handleDeleteAccount(account)}>
+                  {t('auth.account.security.serviceAccounts.deleteButton')}
+                </Button>
+              </div>
+            </div>
+
+            {account.tokens.map((token) => (
+              <ApiTokenRow key={token.id} token={token} onRevoke={handleRevokeToken} />
+            ))}
+
+            {tokenFor === account.id && (
+              <ApiTokenCreator
+                permissions={account.permissions.map((permission) => ({ name: permission }))}
+                onCreate={(data) => handleCreateToken(account, data)}
+              />
+            )}
+          </div>
+        ))}
+
+        <div className="space-y-4 rounded-lg border p-4">
+          <p className="text-sm font-medium">{t('auth.account.security.serviceAccounts.newAccount')}</p>
+          <div className="space-y-2">
+            <Label htmlFor="service-account-name">{t('auth.account.security.serviceAccounts.name')}</Label>
+            <Input
+              id="service-account-name"
+              placeholder={t('auth.account.security.serviceAccounts.namePlaceholder')}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t('auth.account.security.apiTokens.permissions')}</Label>
+            <PermissionChecklist permissions={permissions} selected={selected} onChange={setSelected} />
+          </div>
+          <Button onClick={handleCreateAccount} disabled={!name.trim() || selected.length === 0}>
+            {t('auth.account.security.serviceAccounts.createButton')}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { describeUserAgent } from './sessions.utils';
+
+describe('describeUserAgent', () => {
+  it('recognizes common browsers and systems', () => {
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+      )
+    ).toBe('Chrome on macOS');
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0'
+      )
+    ).toBe('Edge on Windows');
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+      )
+    ).toBe('Safari on iOS');
+    expect(
+      describeUserAgent('Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0')
+    ).toBe('Firefox on Linux');
+  });
+
+  it('returns null for missing or unknown user agents', () => {
+    expect(describeUserAgent(null)).toBeNull();
+    expect(describeUserAgent('curl/8.4.0')).toBeNull();
+  });
+});
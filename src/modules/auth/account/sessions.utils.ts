@@ -0,0 +1,33 @@
+// Order matters: Edge and Opera also claim Chrome, Chrome also claims Safari
+const BROWSERS: [string, RegExp][] = [
+  ["Edge", /Edg(e|A|iOS)?\//],
+  ["Opera", /OPR\/|Opera/],
+  ["Firefox", /Firefox\/|FxiOS\//],
+  ["Chrome", /Chrome\/|CriOS\//],
+  ["Safari", /Version\/.*Safari\//],
+];
+
+// Android before Linux, iOS before macOS (iPhone user agents mention "Mac OS X")
+const SYSTEMS: [string, RegExp][] = [
+  ["Windows", /Windows/],
+  ["Android", /Android/],
+  ["iOS", /iPhone|iPad|iPod/],
+  ["macOS", /Mac OS X|Macintosh/],
+  ["Linux", /Linux|X11/],
+];
+
+/**
+ * Describe a device from its User-Agent header, e.g. "Chrome on macOS"
+ *
+ * Only common browsers and systems are recognized; returns null when neither
+ * is, so the caller can show a generic label.
+ */
+export function describeUserAgent(userAgent: string | null | undefined): string | null {
+  if (!userAgent) return null;
+
+  const browser = BROWSERS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+  const os = SYSTEMS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || null;
+}
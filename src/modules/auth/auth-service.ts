@@ -6,29 +6,84 @@
  */
 
 import * as v from "valibot";
+import QRCode from "qrcode";
 import {
   signUpSchema,
   signInSchema,
   type SignUpInput,
   type SignInInput,
 } from "./auth.valibot";
+import type { PasswordPolicy } from "./password-policy";
+import { getApiHeaders, toApiError } from "@/lib/api";
 
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
 
+/**
+ * API token for scripts calling the gateway (Authorization: Bearer ak_...)
+ */
+export interface ApiToken {
+  id: string;
+  name: string;
+  /** First characters of the token, to recognize it */
+  tokenPrefix: string;
+  /** companies.id the token is valid in */
+  companyId: string;
+  companyTitle?: string;
+  permissions: string[];
+  expiresAt: number;
+  lastUsedAt: number | null;
+  lastUsedIp: string | null;
+  createdAt: number;
+}
+
+/**
+ * A newly created token: the only time the token itself is returned
+ */
+export interface CreatedApiToken extends ApiToken {
+  token: string;
+}
+
+/**
+ * Email change waiting for the code sent to the new address
+ */
+export interface PendingEmailChange {
+  newEmail: string;
+  expiresAt: number;
+}
+
+/**
+ * Account erasure waiting for the end of its grace period
+ */
+export interface AccountErasure {
+  requestedAt: number;
+  eraseAfter: number;
+}
+
+/**
+ * Set while an owner views the app as another member (auth.start_impersonation)
+ */
+export interface Impersonation {
+  /** The real user behind the session */
+  impersonator: { _id: string; email: string; fullname: string };
+  /** companies.id the session is limited to */
+  companyId: string;
+  /** Hard end of the session; it does not slide */
+  expiresAt: number;
+}
+
 /**
  * Helper function to call Postgres functions via Hono API
  */
 async function callFunction(functionName: string, params: Record<string, any> = {}) {
   const response = await fetch(`${API_URL}/api/${functionName}`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: getApiHeaders(),
     credentials: "include",
     body: JSON.stringify(params),
   });
 
   if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error || `Failed to call ${functionName}`);
+    throw await toApiError(response, `Failed to call ${functionName}`);
   }
 
   return response.json();
@@ -36,41 +91,31 @@ async function callFunction(functionName: string, params: Record<string, any> =
 
 export class AuthService {
   /**
-   * Sign Up - Create new user account
+   * Sign Up - Create new user account (the server emails the verification code)
    */
   static async signUp(input: SignUpInput) {
     const validated = v.parse(signUpSchema, input);
 
-    const result = await callFunction("auth.signup", {
+    return callFunction("auth.signup", {
       email: validated.email,
       password: validated.password,
       fullname: validated.fullname,
     });
+  }
 
-    // Send verification email via API
-    try {
-      await fetch(`${API_URL}/api/auth/send-verification`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          email: validated.email,
-          code: result.verificationCode,
-        }),
-      });
-    } catch (error) {
-      console.error("Error sending verification email:", error);
-      // Log code to console as fallback
-      console.log(`Verification code for ${validated.email}: ${result.verificationCode}`);
-    }
-
-    return result;
+  /**
+   * Verify Account with verification code. Wrong codes count towards the
+   * attempts limit of the email's code.
+   */
+  static async verifyAccount(code: string, email: string) {
+    return callFunction("auth.verify_account", { code, email });
   }
 
   /**
-   * Verify Account with verification code
+   * Email a new verification code (at most once a minute)
    */
-  static async verifyAccount(code: string) {
-    return callFunction("auth.verify_account", { code });
+  static async resendVerification(email: string) {
+    return callFunction("auth.resend_verification", { email });
   }
 
   /**
@@ -86,56 +131,104 @@ export class AuthService {
   }
 
   /**
-   * Verify Session by token
+   * Email a single-use sign-in link. The answer is the same whether or not
+   * the account exists or may use links (companies can turn them off).
+   */
+  static async requestMagicLink(email: string) {
+    return callFunction("auth.request_magic_link", { email });
+  }
+
+  /**
+   * Sign In with the token from an emailed link. Like signIn, the result
+   * may ask for the 2FA step (requires2FA + challenge) instead of a session.
+   */
+  static async signInWithMagicLink(token: string) {
+    return callFunction("auth.signin_with_magic_link", { token });
+  }
+
+  /**
+   * Single sign-on options for an email: whether the company owning its
+   * domain offers (or requires) signing in through its identity provider
+   */
+  static async getSsoProvider(email: string): Promise<{ ssoAvailable: boolean; ssoRequired: boolean }> {
+    return callFunction("auth.get_sso_provider", { email });
+  }
+
+  /**
+   * URL that starts single sign-on. Open it as a page (not fetch): the API
+   * redirects to the provider, then back to `redirectTo` with the session cookie.
+   */
+  static getSsoStartUrl(email: string, redirectTo = "/dashboard") {
+    return `${API_URL}/api/sso/start?${new URLSearchParams({ email, redirect: redirectTo })}`;
+  }
+
+  /**
+   * Verify Session - the gateway reads the token from the HttpOnly session cookie
    */
-  static async verifySession(token: string) {
-    return callFunction("auth.verify_session", { token });
+  static async verifySession() {
+    return callFunction("auth.verify_session");
   }
 
   /**
-   * Sign Out - Invalidate session
+   * Sign Out - Invalidate the current session and clear its cookie
    */
-  static async signOut(token: string) {
-    return callFunction("auth.signout", { token });
+  static async signOut() {
+    return callFunction("auth.signout");
   }
 
   /**
-   * Verify 2FA token
+   * Verify 2FA - Second sign-in step
+   *
+   * @param challenge - Returned by signIn when requires2FA is true
+   * @param code - Authenticator code or a recovery code
+   * @param rememberDevice - Skip 2FA on this device for 30 days
    */
-  static async verify2FA(email: string, token: string) {
-    return callFunction("auth.verify_2fa", { email, token });
+  static async verify2FA(challenge: string, code: string, rememberDevice = false) {
+    return callFunction("auth.verify_2fa", {
+      challenge,
+      code,
+      remember_device: rememberDevice,
+    });
   }
 
   /**
-   * Forgot Password - Send reset link
+   * Forgot Password - The server emails the reset link
    */
   static async forgotPassword(email: string) {
-    const result = await callFunction("auth.forgot_password", { email });
+    return callFunction("auth.forgot_password", { email });
+  }
 
-    // Send password reset email via API
-    try {
-      await fetch(`${API_URL}/api/auth/send-password-reset`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          email: email,
-          resetToken: result.resetToken,
-        }),
-      });
-    } catch (error) {
-      console.error("Error sending password reset email:", error);
-      console.log(`Reset token for ${email}: ${result.resetToken}`);
-    }
+  /**
+   * Reset Password - Set a new password with the emailed reset token
+   */
+  static async resetPassword(token: string, newPassword: string) {
+    return callFunction("auth.reset_password", {
+      token,
+      new_password: newPassword,
+    });
+  }
+
+  /**
+   * Report Sign-In - "This wasn't me" from a new sign-in alert: ends every
+   * session and returns a reset token for the new password
+   */
+  static async reportSignIn(token: string): Promise<{ message: string; resetToken: string }> {
+    return callFunction("auth.report_signin", { token });
+  }
 
-    return result;
+  /**
+   * Unlock Account - Lift a sign-in lockout with the emailed unlock token
+   */
+  static async unlockAccount(token: string) {
+    return callFunction("auth.unlock_account", { token });
   }
 
   /**
-   * Get current user from session token
+   * Get current user from the session cookie
    */
-  static async getCurrentUser(token: string) {
+  static async getCurrentUser() {
     try {
-      const result = await this.verifySession(token);
+      const result = await this.verifySession();
       return result.user;
     } catch (error) {
       return null;
@@ -200,15 +293,94 @@ export class AuthService {
     });
   }
 
+  /**
+   * Change Email - Email a confirmation code to the new address
+   * (and a cancel link to the current one)
+   */
+  static async requestEmailChange(
+    userId: string,
+    newEmail: string,
+    password: string
+  ): Promise<PendingEmailChange> {
+    return callFunction("auth.request_email_change", {
+      user_id: userId,
+      new_email: newEmail,
+      password,
+    });
+  }
+
+  /**
+   * Get the pending email change, if any
+   */
+  static async getEmailChange(userId: string): Promise<PendingEmailChange | null> {
+    const pending = await callFunction("auth.get_email_change", { user_id: userId });
+    return pending?.newEmail ? pending : null;
+  }
+
+  /**
+   * Confirm the email change with the code; ends all other sessions
+   */
+  static async confirmEmailChange(
+    userId: string,
+    code: string
+  ): Promise<{ email: string; revokedSessions: number }> {
+    return callFunction("auth.confirm_email_change", {
+      user_id: userId,
+      code,
+    });
+  }
+
+  /**
+   * Cancel an email change with the token from the notice sent to the old address
+   */
+  static async cancelEmailChange(token: string) {
+    return callFunction("auth.cancel_email_change", { token });
+  }
+
+  /**
+   * Export everything held about the user (GDPR data-subject access)
+   */
+  static async exportPersonalData(userId: string): Promise<Record<string, unknown>> {
+    return callFunction("auth.export_personal_data", { user_id: userId });
+  }
+
+  /**
+   * Request erasure of the account; carried out after the grace period
+   */
+  static async requestAccountErasure(userId: string, password: string): Promise<AccountErasure> {
+    return callFunction("auth.request_account_erasure", { user_id: userId, password });
+  }
+
+  /**
+   * Get the pending account erasure, if any
+   */
+  static async getAccountErasure(userId: string): Promise<AccountErasure | null> {
+    const pending = await callFunction("auth.get_account_erasure", { user_id: userId });
+    return pending?.eraseAfter ? pending : null;
+  }
+
+  /**
+   * Cancel a pending account erasure
+   */
+  static async cancelAccountErasure(userId: string) {
+    return callFunction("auth.cancel_account_erasure", { user_id: userId });
+  }
+
+  /**
+   * Get the password rules of the user's companies (strictest setting wins)
+   */
+  static async getPasswordPolicy(userId: string): Promise<PasswordPolicy> {
+    return callFunction("auth.get_password_policy", { user_id: userId });
+  }
+
   /**
    * Setup 2FA - Generate secret and QR code
    */
   static async setup2FA(userId: string) {
     const result = await callFunction("auth.setup_2fa", { user_id: userId });
 
-    // Generate QR code on client side using the secret
-    // (QR code generation should be done client-side or via separate endpoint)
-    const qrCode = await this.generateQRCode(result.secret, userId);
+    // The QR code is rendered client-side so the secret never leaves the app
+    const qrCode = await QRCode.toDataURL(result.otpauthUrl);
 
     return {
       secret: result.secret,
@@ -217,17 +389,7 @@ export class AuthService {
   }
 
   /**
-   * Generate QR Code for 2FA (client-side helper)
-   */
-  private static async generateQRCode(_secret: string, _userId: string): Promise<string> {
-    // This should call a client-side QR generation library
-    // For now, return a placeholder
-    // In production, use libraries like 'qrcode' or call an endpoint
-    return `data:image/svg+xml;base64,PHN2Zz48L3N2Zz4=`; // placeholder
-  }
-
-  /**
-   * Enable 2FA
+   * Enable 2FA - Returns the one-time recovery codes (shown once)
    */
   static async enable2FA(userId: string, token: string) {
     return callFunction("auth.enable_2fa", {
@@ -253,6 +415,110 @@ export class AuthService {
     return callFunction("auth.get_2fa_status", { user_id: userId });
   }
 
+  /**
+   * Regenerate recovery codes - Invalidates the previous ones
+   */
+  static async regenerateRecoveryCodes(userId: string, token: string) {
+    return callFunction("auth.regenerate_recovery_codes", {
+      user_id: userId,
+      token: token,
+    });
+  }
+
+  /**
+   * Get trusted devices (devices that skip 2FA)
+   */
+  static async getTrustedDevices(userId: string) {
+    return callFunction("auth.get_trusted_devices", { user_id: userId });
+  }
+
+  /**
+   * Revoke one trusted device, or all of them when deviceId is omitted
+   */
+  static async revokeTrustedDevices(userId: string, deviceId?: string) {
+    return callFunction("auth.revoke_trusted_devices", {
+      user_id: userId,
+      device_id: deviceId ?? null,
+    });
+  }
+
+  /**
+   * Get the user's active sessions (the current one is flagged `current`)
+   */
+  static async getSessions(userId: string) {
+    return callFunction("auth.get_sessions", { user_id: userId });
+  }
+
+  /**
+   * Sign out one session, e.g. a lost device
+   */
+  static async revokeSession(userId: string, sessionId: string) {
+    return callFunction("auth.revoke_session", {
+      user_id: userId,
+      session_id: sessionId,
+    });
+  }
+
+  /**
+   * Sign out all sessions except the current one
+   */
+  static async revokeOtherSessions(userId: string) {
+    return callFunction("auth.revoke_other_sessions", { user_id: userId });
+  }
+
+  /**
+   * Get the user's permissions in a company (companies.id)
+   */
+  static async getUserPermissions(userId: string, companyId: string) {
+    return callFunction("rbac.get_user_permissions", {
+      user_id: userId,
+      company_id: companyId,
+    });
+  }
+
+  /**
+   * Get the user's API tokens (revoked ones are not listed)
+   */
+  static async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return callFunction("auth.get_api_tokens", { user_id: userId });
+  }
+
+  /**
+   * Create a personal API token limited to a company and some of the
+   * user's permissions there
+   */
+  static async createApiToken(
+    userId: string,
+    companyId: string,
+    data: { name: string; permissions: string[]; expiresInDays: number }
+  ): Promise<CreatedApiToken> {
+    return callFunction("auth.create_api_token", {
+      user_id: userId,
+      company_id: companyId,
+      name: data.name,
+      permissions: data.permissions,
+      expires_in_days: data.expiresInDays,
+    });
+  }
+
+  /**
+   * Revoke one of the user's API tokens
+   */
+  static async revokeApiToken(userId: string, tokenId: string) {
+    return callFunction("auth.revoke_api_token", {
+      user_id: userId,
+      token_id: tokenId,
+    });
+  }
+
+  /**
+   * Stop impersonating: the cookie switches back to the impersonator's own
+   * session (no session when it ended in the meantime)
+   */
+  static async stopImpersonation(): Promise<{ session: { expiresAt: number } | null }> {
+    return callFunction("auth.stop_impersonation");
+  }
+
   /**
    * Sanitize user - Remove sensitive data (done server-side now)
    */
@@ -139,8 +139,13 @@ export const disable2FASchema = v.object({
 // Invite User Schema (with company associations)
 export const inviteUserSchema = v.object({
   email: v.pipe(v.string(), v.email("Invalid email address")),
-  sendEmail: v.optional(v.boolean()),
-  companyIds: v.optional(v.array(v.string())),
+  companyIds: v.pipe(
+    v.array(v.string()),
+    v.minLength(1, "Select at least one company")
+  ),
+  role: v.picklist(["admin", "member"]),
+  // Orgchart position offered with the invitation (single company only)
+  positionId: v.optional(v.string()),
 });
 
 // Update User Companies Schema
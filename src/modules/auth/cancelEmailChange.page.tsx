@@ -0,0 +1,71 @@
+import { Button } from "@/lib/ui/button";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  CardFooter,
+} from "@/lib/ui/card";
+import { useLocation } from "wouter";
+import { AuthService } from "./auth-service";
+import { toast } from "sonner";
+import { useState } from "react";
+
+export default function CancelEmailChangePage() {
+  const [, setLocation] = useLocation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  // Cancel on click, not on load: mail scanners open links from emails
+  const onCancel = async () => {
+    if (!token) return;
+
+    setIsSubmitting(true);
+    try {
+      await AuthService.cancelEmailChange(token);
+      toast.success("Email change cancelled. Please reset your password.");
+      setLocation("/auth/forgot-password");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An error occurred. Please try again."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-20 flex justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Cancel Email Change</CardTitle>
+          <CardDescription>
+            Someone asked to change the email of your account
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {token ? (
+            <p className="text-sm text-muted-foreground">
+              If you didn't ask for this, cancel the change below. Whoever asked
+              knows your password, so reset it right after.
+            </p>
+          ) : (
+            <p className="text-sm text-destructive">
+              The cancel link is incomplete. Please use the link from the email.
+            </p>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Button
+            className="w-full"
+            disabled={isSubmitting || !token}
+            onClick={onCancel}
+          >
+            {isSubmitting ? "Cancelling..." : "Cancel Email Change"}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * Password policy - client mirror of auth.get_password_policy / auth.check_password_policy
+ *
+ * The server is the authority (it also checks the breached-password list and
+ * the user's password history); these rules only give early feedback in forms.
+ * Rule names match the `rule` of the server's VALIDATION_FAILED details.
+ */
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  /** Number of previous passwords that cannot be reused (0 = off) */
+  historyCount: number;
+  /** Days after which the password must be changed (0 = never) */
+  maxAgeDays: number;
+}
+
+export interface PasswordPolicyViolation {
+  rule: string;
+  message: string;
+}
+
+/** Policy for users without company settings (and for anonymous forms) */
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: false,
+  requireLowercase: false,
+  requireNumber: false,
+  requireSymbol: false,
+  historyCount: 0,
+  maxAgeDays: 0,
+};
+
+/**
+ * Rules of the policy the password does not meet
+ */
+export function getPasswordPolicyViolations(
+  password: string,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): PasswordPolicyViolation[] {
+  const violations: PasswordPolicyViolation[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push({
+      rule: "passwordMinLength",
+      message: `At least ${policy.minLength} characters required`,
+    });
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push({ rule: "passwordUppercase", message: "Uppercase letter required" });
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push({ rule: "passwordLowercase", message: "Lowercase letter required" });
+  }
+  if (policy.requireNumber && !/\d/.test(password)) {
+    violations.push({ rule: "passwordNumber", message: "Number required" });
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push({ rule: "passwordSymbol", message: "Special character required" });
+  }
+
+  return violations;
+}
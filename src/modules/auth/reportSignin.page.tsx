@@ -0,0 +1,130 @@
+import { Button } from "@/lib/ui/button";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  CardFooter,
+} from "@/lib/ui/card";
+import { Label } from "@/lib/ui/label";
+import { QPassword } from "@/lib/ui/QPassword.ui";
+import { useLocation } from "wouter";
+import { AuthService } from "./auth-service";
+import { toast } from "sonner";
+import { useState } from "react";
+
+/**
+ * "This wasn't me" link from a new sign-in alert: ends every session of the
+ * account, then the owner chooses a new password (password sign-in is refused
+ * until then).
+ */
+export default function ReportSigninPage() {
+  const [, setLocation] = useLocation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [resetToken, setResetToken] = useState<string | null>(null);
+  const [password, setPassword] = useState("");
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  // Report on click, not on load: mail scanners open links from emails
+  const onReport = async () => {
+    if (!token) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await AuthService.reportSignIn(token);
+      setResetToken(result.resetToken);
+      toast.success("All sessions were ended. Now choose a new password.");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An error occurred. Please try again."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const onResetPassword = async () => {
+    if (!resetToken) return;
+
+    setIsSubmitting(true);
+    try {
+      await AuthService.resetPassword(resetToken, password);
+      toast.success("Password changed. You can now sign in.");
+      setLocation("/auth/signin");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An error occurred. Please try again."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (resetToken) {
+    return (
+      <div className="container mx-auto px-4 py-20 flex justify-center">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Choose a New Password</CardTitle>
+            <CardDescription>
+              Whoever signed in may know your current password
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="new-password">New password</Label>
+            <QPassword
+              id="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </CardContent>
+          <CardFooter>
+            <Button
+              className="w-full"
+              disabled={isSubmitting || !password}
+              onClick={onResetPassword}
+            >
+              {isSubmitting ? "Saving..." : "Set New Password"}
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-20 flex justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Secure Your Account</CardTitle>
+          <CardDescription>
+            Someone signed in to your account from a new network or device
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {token ? (
+            <p className="text-sm text-muted-foreground">
+              If it wasn't you, sign out every device below. You will then choose
+              a new password before anyone can sign in with one again.
+            </p>
+          ) : (
+            <p className="text-sm text-destructive">
+              The link is incomplete. Please use the link from the email.
+            </p>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Button
+            variant="destructive"
+            className="w-full"
+            disabled={isSubmitting || !token}
+            onClick={onReport}
+          >
+            {isSubmitting ? "Securing..." : "This Wasn't Me"}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
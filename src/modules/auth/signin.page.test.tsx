@@ -227,6 +227,7 @@ describe('SignInPage', () => {
       vi.mocked(AuthService.signIn).mockResolvedValue({
         user: mockUser,
         requires2FA: true,
+        challenge: 'challenge-1',
       } as any);
 
       // Mock 2FA verification
@@ -264,7 +265,7 @@ describe('SignInPage', () => {
       await user.click(verifyButton);
 
       await waitFor(() => {
-        expect(AuthService.verify2FA).toHaveBeenCalledWith('test@example.com', '012345');
+        expect(AuthService.verify2FA).toHaveBeenCalledWith('challenge-1', '012345', false);
         expect(toast.success).toHaveBeenCalledWith('Welcome, test@example.com!');
       });
     });
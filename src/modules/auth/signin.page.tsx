@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { valibotResolver } from "@hookform/resolvers/valibot";
 import {
@@ -7,6 +7,8 @@ import {
 } from "@/modules/auth/auth.valibot";
 import { Button } from "@/lib/ui/button";
 import { Input } from "@/lib/ui/input";
+import { Checkbox } from "@/lib/ui/checkbox";
+import { Label } from "@/lib/ui/label";
 import {
   Card,
   CardHeader,
@@ -29,19 +31,120 @@ import { Link, useLocation } from "wouter";
 import { AuthService } from "./auth-service";
 import { toast } from "sonner";
 import { useAuth } from "@/lib/auth-context";
+import { ApiError } from "@/lib/api";
+import type { ApiErrorCode } from "@/api/errors";
+
+// The SSO callback returns to this page with ?sso_error=<code> when it fails
+const SSO_ERROR_MESSAGES: Partial<Record<ApiErrorCode, string>> = {
+  NOT_FOUND: "Single sign-on is not set up for this email domain.",
+  EXPIRED: "The single sign-on request expired. Please try again.",
+  CONFLICT: "An account with this email already exists. Sign in with your password.",
+  PERMISSION_DENIED: "Your identity provider did not confirm an email your company accepts.",
+  SERVICE_UNAVAILABLE: "Your identity provider is unavailable. Please try again later.",
+};
 
 export default function SignInPage() {
   const [, setLocation] = useLocation();
   const { login } = useAuth();
   const [requires2FA, setRequires2FA] = useState(false);
-  const [userEmail, setUserEmail] = useState("");
+  const [challenge, setChallenge] = useState("");
+  // High-risk sign-in: the code is asked even on a trusted device
+  const [stepUp, setStepUp] = useState(false);
   const [otpToken, setOtpToken] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [rememberDevice, setRememberDevice] = useState(false);
   const [isVerifying, setIsVerifying] = useState(false);
+  const [isStartingSso, setIsStartingSso] = useState(false);
+  const [isSendingLink, setIsSendingLink] = useState(false);
+  const [magicLinkToken, setMagicLinkToken] = useState(
+    () => new URLSearchParams(window.location.search).get("magic_link")
+  );
+  const [isUsingLink, setIsUsingLink] = useState(false);
 
   const form = useForm<SignInInput>({
     resolver: valibotResolver(signInSchema),
   });
 
+  useEffect(() => {
+    const ssoError = new URLSearchParams(window.location.search).get("sso_error");
+    if (ssoError) {
+      toast.error(
+        SSO_ERROR_MESSAGES[ssoError as ApiErrorCode] || "Single sign-on failed. Please try again."
+      );
+    }
+  }, []);
+
+  // Leaves the app: the API redirects to the provider of the email's company
+  const startSso = async () => {
+    if (!(await form.trigger("email"))) return;
+
+    const email = form.getValues("email");
+    setIsStartingSso(true);
+
+    try {
+      const { ssoAvailable } = await AuthService.getSsoProvider(email);
+
+      if (!ssoAvailable) {
+        toast.error(SSO_ERROR_MESSAGES.NOT_FOUND);
+        setIsStartingSso(false);
+        return;
+      }
+
+      window.location.assign(AuthService.getSsoStartUrl(email));
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An error occurred. Please try again."
+      );
+      setIsStartingSso(false);
+    }
+  };
+
+  // Passwordless: the emailed link brings the user back here with ?magic_link=
+  const sendMagicLink = async () => {
+    if (!(await form.trigger("email"))) return;
+
+    setIsSendingLink(true);
+    try {
+      const result = await AuthService.requestMagicLink(form.getValues("email"));
+      toast.success(result.message);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An error occurred. Please try again."
+      );
+    } finally {
+      setIsSendingLink(false);
+    }
+  };
+
+  // On click, not on load: mail scanners open links from emails
+  const signInWithMagicLink = async () => {
+    if (!magicLinkToken) return;
+
+    setIsUsingLink(true);
+    try {
+      const result = await AuthService.signInWithMagicLink(magicLinkToken);
+      setMagicLinkToken(null);
+
+      if (result.requires2FA) {
+        setRequires2FA(true);
+        setChallenge(result.challenge);
+        setStepUp(Boolean(result.stepUp));
+        toast.info("Please enter your 6-digit authentication code");
+        return;
+      }
+
+      completeSignIn(result);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An error occurred. Please try again."
+      );
+      setMagicLinkToken(null);
+      setLocation("/auth/signin");
+    } finally {
+      setIsUsingLink(false);
+    }
+  };
+
   const onSubmit = async (data: SignInInput) => {
     try {
       const result = await AuthService.signIn(data);
@@ -49,34 +152,59 @@ export default function SignInPage() {
       // Check if 2FA is required
       if (result.requires2FA) {
         setRequires2FA(true);
-        setUserEmail(result.user?.email || data.email);
+        setChallenge(result.challenge);
+        setStepUp(Boolean(result.stepUp));
         toast.info("Please enter your 6-digit authentication code");
         return;
       }
 
       // Normal signin flow
-      toast.success(`Welcome, ${result.user.email}!`);
-      login(result.user as any, result.session as any);
-      setLocation("/dashboard");
+      completeSignIn(result);
     } catch (error) {
+      // The company requires its identity provider for this account
+      if (error instanceof ApiError && error.code === "SSO_REQUIRED") {
+        toast.info(error.message);
+        window.location.assign(AuthService.getSsoStartUrl(data.email));
+        return;
+      }
+
       toast.error(
         error instanceof Error ? error.message : "An error occurred. Please try again."
       );
     }
   };
 
+  const completeSignIn = (result: any) => {
+    toast.success(`Welcome, ${result.user.email}!`);
+    login(result.user as any, result.session as any, {
+      twoFactorSetupRequired: result.twoFactorSetupRequired === true,
+      passwordChangeRequired: result.passwordChangeRequired === true,
+    });
+
+    if (result.twoFactorSetupRequired || result.passwordChangeRequired) {
+      // The company requires 2FA and its deadline has passed, or the password expired
+      setLocation("/account/security");
+      return;
+    }
+
+    if (typeof result.recoveryCodesRemaining === "number") {
+      toast.warning(`Recovery code used. ${result.recoveryCodesRemaining} codes left.`);
+    }
+    setLocation("/dashboard");
+  };
+
+  const isCodeComplete = useRecoveryCode ? otpToken.trim().length > 0 : otpToken.length === 6;
+
   const handleVerify2FA = async () => {
-    if (otpToken.length !== 6) {
-      toast.error("Please enter a 6-digit code");
+    if (!isCodeComplete) {
+      toast.error(useRecoveryCode ? "Please enter a recovery code" : "Please enter a 6-digit code");
       return;
     }
 
     setIsVerifying(true);
     try {
-      const result = await AuthService.verify2FA(userEmail, otpToken);
-      toast.success(`Welcome, ${result.user.email}!`);
-      login(result.user as any, result.session as any);
-      setLocation("/dashboard");
+      const result = await AuthService.verify2FA(challenge, otpToken, rememberDevice);
+      completeSignIn(result);
     } catch (error) {
       toast.error(
         error instanceof Error ? error.message : "An error occurred. Please try again."
@@ -92,35 +220,75 @@ export default function SignInPage() {
           <CardHeader>
             <CardTitle>Two-Factor Authentication</CardTitle>
             <CardDescription>
-              Enter the 6-digit code from your authenticator app
+              {useRecoveryCode
+                ? "Enter one of your recovery codes"
+                : "Enter the 6-digit code from your authenticator app"}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            {stepUp && (
+              <p className="text-sm text-muted-foreground">
+                This sign-in looks different from your usual ones, so we need your code
+                even on a trusted device.
+              </p>
+            )}
             <div className="flex flex-col items-center gap-4">
-              <InputOTP maxLength={6} value={otpToken} onChange={setOtpToken}>
-                <InputOTPGroup>
-                  <InputOTPSlot index={0} />
-                  <InputOTPSlot index={1} />
-                  <InputOTPSlot index={2} />
-                  <InputOTPSlot index={3} />
-                  <InputOTPSlot index={4} />
-                  <InputOTPSlot index={5} />
-                </InputOTPGroup>
-              </InputOTP>
+              {useRecoveryCode ? (
+                <Input
+                  placeholder="XXXXX-XXXXX"
+                  autoComplete="one-time-code"
+                  value={otpToken}
+                  onChange={(e) => setOtpToken(e.target.value)}
+                />
+              ) : (
+                <InputOTP maxLength={6} value={otpToken} onChange={setOtpToken}>
+                  <InputOTPGroup>
+                    <InputOTPSlot index={0} />
+                    <InputOTPSlot index={1} />
+                    <InputOTPSlot index={2} />
+                    <InputOTPSlot index={3} />
+                    <InputOTPSlot index={4} />
+                    <InputOTPSlot index={5} />
+                  </InputOTPGroup>
+                </InputOTP>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="remember-device"
+                checked={rememberDevice}
+                onCheckedChange={(checked) => setRememberDevice(checked === true)}
+              />
+              <Label htmlFor="remember-device" className="text-sm font-normal">
+                Trust this device for 30 days
+              </Label>
             </div>
             <Button
               onClick={handleVerify2FA}
-              disabled={otpToken.length !== 6 || isVerifying}
+              disabled={!isCodeComplete || isVerifying}
               className="w-full"
             >
               {isVerifying ? "Verifying..." : "Verify and Sign In"}
             </Button>
+            <Button
+              variant="link"
+              type="button"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setOtpToken("");
+              }}
+              className="w-full"
+            >
+              {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+            </Button>
             <Button
               variant="outline"
               type="button"
               onClick={() => {
                 setRequires2FA(false);
+                setChallenge("");
                 setOtpToken("");
+                setUseRecoveryCode(false);
               }}
               className="w-full"
             >
@@ -132,6 +300,40 @@ export default function SignInPage() {
     );
   }
 
+  if (magicLinkToken) {
+    return (
+      <div className="container mx-auto px-4 py-20 flex justify-center">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Sign In with Link</CardTitle>
+            <CardDescription>
+              Continue to sign in with the link from your email
+            </CardDescription>
+          </CardHeader>
+          <CardFooter className="flex flex-col gap-4">
+            <Button
+              className="w-full"
+              onClick={signInWithMagicLink}
+              disabled={isUsingLink}
+            >
+              {isUsingLink ? "Signing in..." : "Continue"}
+            </Button>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => {
+                setMagicLinkToken(null);
+                setLocation("/auth/signin");
+              }}
+            >
+              Sign in with password
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="container mx-auto px-4 py-20 flex justify-center">
       <Card className="w-full max-w-md">
@@ -191,6 +393,24 @@ export default function SignInPage() {
               >
                 {form.formState.isSubmitting ? "Signing in..." : "Sign In"}
               </Button>
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={startSso}
+                disabled={isStartingSso || form.formState.isSubmitting}
+              >
+                {isStartingSso ? "Redirecting..." : "Continue with SSO"}
+              </Button>
+              <Button
+                type="button"
+                variant="link"
+                className="w-full"
+                onClick={sendMagicLink}
+                disabled={isSendingLink || form.formState.isSubmitting}
+              >
+                {isSendingLink ? "Sending..." : "Email me a sign-in link"}
+              </Button>
               <p className="text-sm text-center text-muted-foreground">
                 Don&apos;t have an account?{" "}
                 <Link
@@ -40,7 +40,7 @@ export default function SignUpPage() {
       toast.success(
         `Welcome, ${data.email}! Check your email for verification code.`
       );
-      setLocation("/auth/verify-account");
+      setLocation(`/auth/verify-account?email=${encodeURIComponent(data.email)}`);
     } catch (error) {
       toast.error(
         error instanceof Error ? error.message : "An error occurred. Please try again."
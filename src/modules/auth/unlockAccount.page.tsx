@@ -0,0 +1,71 @@
+import { Button } from "@/lib/ui/button";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  CardFooter,
+} from "@/lib/ui/card";
+import { useLocation } from "wouter";
+import { AuthService } from "./auth-service";
+import { toast } from "sonner";
+import { useState } from "react";
+
+export default function UnlockAccountPage() {
+  const [, setLocation] = useLocation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  // Unlock on click, not on load: mail scanners open links from emails
+  const onUnlock = async () => {
+    if (!token) return;
+
+    setIsSubmitting(true);
+    try {
+      await AuthService.unlockAccount(token);
+      toast.success("Account unlocked! You can now sign in.");
+      setLocation("/auth/signin");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An error occurred. Please try again."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-20 flex justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Unlock Account</CardTitle>
+          <CardDescription>
+            Your account was locked after too many failed sign-in attempts
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {token ? (
+            <p className="text-sm text-muted-foreground">
+              If you tried to sign in and mistyped your password, unlock your
+              account below. If it wasn't you, reset your password after unlocking.
+            </p>
+          ) : (
+            <p className="text-sm text-destructive">
+              The unlock link is incomplete. Please use the link from the email.
+            </p>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Button
+            className="w-full"
+            disabled={isSubmitting || !token}
+            onClick={onUnlock}
+          >
+            {isSubmitting ? "Unlocking..." : "Unlock Account"}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
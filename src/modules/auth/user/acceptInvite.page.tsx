@@ -54,7 +54,12 @@ export default function AcceptInvitePage() {
       const decodedEmail = decodeURIComponent(email);
       console.log("Email from URL:", decodedEmail);
       setUserEmail(decodedEmail);
-      checkUserStatus(decodedEmail);
+      // Links sent to invitees with an account say so (sendUserInvitationEmail)
+      if (params.get("existing") === "1") {
+        setIsNewUser(false);
+      } else {
+        checkUserStatus(decodedEmail);
+      }
     } else {
       console.warn("No email parameter found in URL");
     }
@@ -0,0 +1,205 @@
+import { useRef, useState } from "react";
+import { UserService } from "./user-service";
+import {
+  BULK_INVITE_ISSUE_LABELS,
+  readBulkInviteFile,
+  type BulkInviteResult,
+  type BulkInviteRow,
+} from "./invite-import";
+import { Button } from "@/lib/ui/button";
+import { Badge } from "@/lib/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/lib/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/lib/ui/table";
+import { toast } from "sonner";
+import { FileSpreadsheet, Send, Upload } from "lucide-react";
+
+interface BulkInviteFormProps {
+  companyId: string;
+  companyTitle: string;
+  onInvited?: () => void;
+}
+
+/**
+ * Invite many users from a CSV/XLSX file: the upload is checked with a dry
+ * run first, then the valid rows are invited in one server-side batch.
+ */
+export default function BulkInviteForm({ companyId, companyTitle, onInvited }: BulkInviteFormProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<BulkInviteRow[]>([]);
+  const [preview, setPreview] = useState<BulkInviteResult | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  const reset = () => {
+    setFileName(null);
+    setRows([]);
+    setPreview(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setChecking(true);
+      setFileName(file.name);
+      setPreview(null);
+
+      const fileRows = await readBulkInviteFile(file);
+      if (fileRows.length === 0) {
+        toast.error("The file has no rows to invite");
+        reset();
+        return;
+      }
+
+      setRows(fileRows);
+      setPreview(await UserService.bulkInviteUsers(companyId, fileRows, true));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to read the file");
+      reset();
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleSend = async () => {
+    try {
+      setSending(true);
+      const result = await UserService.bulkInviteUsers(companyId, rows, false);
+
+      toast.success(`${result.invited ?? result.valid} invitations sent`);
+      reset();
+      onInvited?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send invitations");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Invite from a File</CardTitle>
+        <CardDescription>
+          Upload a CSV or Excel file to invite many people to {companyTitle} at
+          once. Columns: Email, Full Name, Role (admin or member, default
+          member) and Position Code (optional).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.xlsx,.xls"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+
+        <div className="flex items-center gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={checking || sending}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            {checking ? "Checking file..." : "Choose File"}
+          </Button>
+          {fileName && (
+            <span className="flex items-center gap-2 text-sm text-muted-foreground">
+              <FileSpreadsheet className="h-4 w-4" />
+              {fileName}
+            </span>
+          )}
+        </div>
+
+        {preview && (
+          <>
+            <p className="text-sm">
+              {preview.total} rows: {preview.valid} ready to invite
+              {preview.invalid > 0 && `, ${preview.invalid} will be skipped`}
+            </p>
+
+            <div className="border rounded-md max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Full Name</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Position</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map((row) => (
+                    <TableRow key={row.row}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell>{row.email || "—"}</TableCell>
+                      <TableCell>{row.fullname || "—"}</TableCell>
+                      <TableCell>{row.role}</TableCell>
+                      <TableCell>{row.positionCode || "—"}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {row.issues.length === 0 ? (
+                            <Badge variant="secondary">
+                              {row.replacesInvitation ? "Replaces pending invitation" : "Ready"}
+                            </Badge>
+                          ) : (
+                            row.issues.map((issue) => (
+                              <Badge key={issue} variant="destructive">
+                                {BULK_INVITE_ISSUE_LABELS[issue]}
+                              </Badge>
+                            ))
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <Button
+                type="button"
+                onClick={handleSend}
+                disabled={sending || preview.valid === 0}
+                className="flex-1"
+              >
+                {sending ? (
+                  "Sending invitations..."
+                ) : (
+                  <>
+                    <Send className="mr-2 h-4 w-4" />
+                    Send {preview.valid} Invitations
+                  </>
+                )}
+              </Button>
+              <Button type="button" variant="outline" onClick={reset} disabled={sending}>
+                Cancel
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
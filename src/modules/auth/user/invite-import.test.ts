@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { toBulkInviteRows } from './invite-import';
+
+describe('toBulkInviteRows', () => {
+  it('maps header aliases of a CSV file', () => {
+    const workbook = XLSX.read(
+      'E-mail,Full Name,Role,Position Code\nann@example.com,Ann Lee,Admin,FIN-001\nbob@example.com,,,\n',
+      { type: 'string' }
+    );
+    const records = XLSX.utils.sheet_to_json<Record<string, unknown>>(
+      workbook.Sheets[workbook.SheetNames[0]],
+      { defval: '', raw: false }
+    );
+
+    expect(toBulkInviteRows(records)).toEqual([
+      { email: 'ann@example.com', fullname: 'Ann Lee', role: 'Admin', positionCode: 'FIN-001' },
+      { email: 'bob@example.com', fullname: undefined, role: undefined, positionCode: undefined },
+    ]);
+  });
+
+  it('drops empty rows and keeps rows without an email for the server to flag', () => {
+    expect(
+      toBulkInviteRows([
+        { Email: '', Name: '' },
+        { Email: '  ', Name: 'No Email' },
+      ])
+    ).toEqual([{ email: '', fullname: 'No Email', role: undefined, positionCode: undefined }]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Invite Import - reads the CSV/XLSX file of a bulk invitation
+ *
+ * Only maps the columns; every check (email format, duplicates, existing
+ * members, positions) is done by auth.bulk_invite_users in the dry run.
+ */
+
+import * as XLSX from "xlsx";
+
+export interface BulkInviteRow {
+  email: string;
+  fullname?: string;
+  role?: string;
+  positionCode?: string;
+}
+
+export type BulkInviteIssue =
+  | "invalidEmail"
+  | "duplicateEmail"
+  | "alreadyMember"
+  | "invalidRole"
+  | "roleNotAllowed"
+  | "positionNotAllowed"
+  | "positionNotFound"
+  | "positionFilled"
+  | "duplicatePosition";
+
+export interface BulkInviteRowResult {
+  /** 1-based row of the file (without the header) */
+  row: number;
+  email: string | null;
+  fullname: string | null;
+  role: string;
+  positionCode: string | null;
+  positionId: string | null;
+  issues: BulkInviteIssue[];
+  /** The email already has a pending invitation, which is replaced */
+  replacesInvitation: boolean;
+}
+
+export interface BulkInviteResult {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  rows: BulkInviteRowResult[];
+  /** Number of invitations created (not a dry run) */
+  invited?: number;
+}
+
+export const BULK_INVITE_ISSUE_LABELS: Record<BulkInviteIssue, string> = {
+  invalidEmail: "Invalid email",
+  duplicateEmail: "Duplicate email in file",
+  alreadyMember: "Already a member",
+  invalidRole: "Unknown role (use admin or member)",
+  roleNotAllowed: "You cannot invite admins",
+  positionNotAllowed: "You cannot appoint to positions",
+  positionNotFound: "Position code not found",
+  positionFilled: "Position already filled",
+  duplicatePosition: "Position used by another row",
+};
+
+// Header aliases, compared without case, spaces and punctuation
+const COLUMNS: Record<keyof BulkInviteRow, string[]> = {
+  email: ["email", "emailaddress"],
+  fullname: ["fullname", "name"],
+  role: ["role"],
+  positionCode: ["positioncode", "position", "code"],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, "");
+
+/**
+ * Map spreadsheet records (header -> cell) to invite rows.
+ * Rows without any value are dropped.
+ */
+export function toBulkInviteRows(records: Record<string, unknown>[]): BulkInviteRow[] {
+  return records
+    .map((record) => {
+      const cells = Object.fromEntries(
+        Object.entries(record).map(([header, value]) => [
+          normalizeHeader(header),
+          String(value ?? "").trim(),
+        ])
+      );
+      const cell = (column: keyof BulkInviteRow) =>
+        COLUMNS[column].map((alias) => cells[alias]).find(Boolean) || "";
+
+      return {
+        email: cell("email"),
+        fullname: cell("fullname") || undefined,
+        role: cell("role") || undefined,
+        positionCode: cell("positionCode") || undefined,
+      };
+    })
+    .filter((row) => row.email || row.fullname || row.role || row.positionCode);
+}
+
+/**
+ * Read the first sheet of a CSV or XLSX file
+ */
+export async function readBulkInviteFile(file: File): Promise<BulkInviteRow[]> {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: "array" });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+
+  if (!sheet) return [];
+
+  return toBulkInviteRows(
+    XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: "", raw: false })
+  );
+}
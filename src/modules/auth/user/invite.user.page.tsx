@@ -3,7 +3,10 @@ import { useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { valibotResolver } from "@hookform/resolvers/valibot";
 import { UserService } from "./user-service";
+import BulkInviteForm from "./bulkInvite.form";
 import { useCompanyOptional } from "@/lib/company-context";
+import { OrgChartService } from "@/modules/htr/orgchart/orgchart-service";
+import type { OrgChartNode } from "@/modules/htr/orgchart/orgchart.types";
 import { inviteUserSchema, type InviteUserInput } from "../auth.valibot";
 import { industries, type Industry } from "@/modules/shared/database/reference-data";
 import { Button } from "@/lib/ui/button";
@@ -25,6 +28,13 @@ import {
 } from "@/lib/ui/form";
 import { Input } from "@/lib/ui/input";
 import { Checkbox } from "@/lib/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/lib/ui/select";
 import { toast } from "sonner";
 import { ArrowLeft, Mail, Send, Building2 } from "lucide-react";
 
@@ -33,6 +43,7 @@ export default function InviteUserPage() {
   const [loading, setLoading] = useState(false);
   const [industriesData, setIndustriesData] = useState<Industry[]>([]);
   const [selectedCompanyIds, setSelectedCompanyIds] = useState<string[]>([]);
+  const [positions, setPositions] = useState<OrgChartNode[]>([]);
   const companyContext = useCompanyOptional();
   const companies = companyContext?.companies || [];
   const activeCompany = companyContext?.activeCompany;
@@ -42,8 +53,8 @@ export default function InviteUserPage() {
     resolver: valibotResolver(inviteUserSchema),
     defaultValues: {
       email: "",
-      sendEmail: true, // Always send email for invitations
       companyIds: activeCompany ? [activeCompany._id] : [],
+      role: "member",
     },
   });
 
@@ -56,6 +67,28 @@ export default function InviteUserPage() {
     return () => subscription.unsubscribe();
   }, [form]);
 
+  // A position can only be offered when inviting to a single company
+  const positionCompanyId = selectedCompanyIds.length === 1 ? selectedCompanyIds[0] : null;
+
+  useEffect(() => {
+    form.setValue("positionId", undefined);
+    setPositions([]);
+    if (!positionCompanyId) return;
+
+    let cancelled = false;
+    OrgChartService.getVacantPositions(positionCompanyId)
+      .then((list) => {
+        if (!cancelled) setPositions(list);
+      })
+      .catch((error) => {
+        // Without orgchart access the invitation simply has no position
+        console.error("Failed to load positions:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [positionCompanyId, form]);
+
   // Load industries data
   useEffect(() => {
     const loadIndustries = async () => {
@@ -133,8 +166,8 @@ export default function InviteUserPage() {
       // Reset form
       form.reset({
         email: "",
-        sendEmail: true,
         companyIds: activeCompany ? [activeCompany._id] : [],
+        role: "member",
       });
 
       // Navigate back to user list after short delay
@@ -227,10 +260,10 @@ export default function InviteUserPage() {
               <div className="space-y-4">
                 <div>
                   <h3 className="text-sm font-medium mb-2">
-                    Company Access (Optional)
+                    Company Access
                   </h3>
                   <p className="text-sm text-muted-foreground mb-4">
-                    Select which companies this user should have access to
+                    Select which companies this user should join
                   </p>
                 </div>
 
@@ -283,8 +316,77 @@ export default function InviteUserPage() {
                   Selected {selectedCompanyIds.length} of {companies.length}{" "}
                   companies
                 </p>
+                {form.formState.errors.companyIds && (
+                  <p className="text-sm font-medium text-destructive">
+                    {form.formState.errors.companyIds.message}
+                  </p>
+                )}
               </div>
 
+              {/* Role */}
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="member">Member</SelectItem>
+                        <SelectItem value="admin">Admin</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      The role the user gets in the selected companies
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Position (single company only) */}
+              {positionCompanyId && positions.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="positionId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Position (Optional)</FormLabel>
+                      <Select
+                        value={field.value ?? "none"}
+                        onValueChange={(value) =>
+                          field.onChange(value === "none" ? undefined : value)
+                        }
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">No position</SelectItem>
+                          {positions.map((position) => (
+                            <SelectItem key={position.id} value={position.id}>
+                              {position.title}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        The user is appointed to this vacant position when they
+                        accept the invitation
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               {/* Action Buttons */}
               <div className="flex items-center gap-3 pt-4">
                 <Button type="submit" disabled={loading} className="flex-1">
@@ -311,6 +413,15 @@ export default function InviteUserPage() {
         </CardContent>
       </Card>
 
+      {/* Bulk invitation (active company) */}
+      {activeCompany && (
+        <BulkInviteForm
+          companyId={activeCompany._id}
+          companyTitle={activeCompany.title}
+          onInvited={() => navigate(`/company/${activeCompany._id}/members`)}
+        />
+      )}
+
       {/* Info Card */}
       <Card className="mt-6">
         <CardHeader>
@@ -326,8 +437,12 @@ export default function InviteUserPage() {
             invitation
           </p>
           <p>3. Existing users will confirm with just the 6-digit code</p>
-          <p>4. The invitation code expires in 24 hours</p>
-          <p>5. They will have access to the companies you selected</p>
+          <p>4. The invitation code expires in 7 days</p>
+          <p>
+            5. They join the companies you selected with the chosen role once
+            they accept. Pending invitations can be resent or revoked on the
+            Team Members page
+          </p>
         </CardContent>
       </Card>
     </div>
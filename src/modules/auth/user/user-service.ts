@@ -10,6 +10,8 @@ import {
   inviteUserSchema,
   type InviteUserInput,
 } from "../auth.valibot";
+import { getApiHeaders, toApiError } from "@/lib/api";
+import type { BulkInviteResult, BulkInviteRow } from "./invite-import";
 
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
 
@@ -19,14 +21,13 @@ const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
 async function callFunction(functionName: string, params: Record<string, any> = {}) {
   const response = await fetch(`${API_URL}/api/${functionName}`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: getApiHeaders(),
     credentials: "include",
     body: JSON.stringify(params),
   });
 
   if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error || `Failed to call ${functionName}`);
+    throw await toApiError(response, `Failed to call ${functionName}`);
   }
 
   return response.json();
@@ -65,52 +66,41 @@ export class UserService {
   }
 
   /**
-   * Invite user (creates user and sends invitation email)
+   * Invite user (creates the pending invitations; the server emails the code)
    */
   static async inviteUser(input: InviteUserInput) {
-    console.log(`[inviteUser] Starting invitation process for email: ${input.email}`);
     const validated = v.parse(inviteUserSchema, input);
-    console.log(`[inviteUser] Validation passed`);
 
     const result = await callFunction("auth.invite_user", {
       email: validated.email,
-      company_ids: validated.companyIds || [],
+      company_ids: validated.companyIds,
+      role: validated.role,
+      position_id: validated.positionId || null,
     });
 
-    // Send invitation email if requested
-    if (validated.sendEmail !== false) {
-      try {
-        await fetch(`${API_URL}/api/users/send-invitation`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            email: result.user?.email || validated.email,
-            invitationCode: result.invitationCode,
-            isNewUser: result.isNewUser,
-          }),
-        });
-        console.log("Invitation email sent successfully");
-      } catch (error) {
-        console.error("Error sending invitation email:", error);
-      }
-    }
-
-    // Log invitation code to console for development
-    console.log(`\n🔑 ═══════════════════════════════════════════`);
-    console.log(`📧 Invitation for: ${validated.email}`);
-    console.log(`🔢 Code: ${result.invitationCode}`);
-    console.log(`👤 New User: ${result.isNewUser ? 'Yes' : 'No (existing user)'}`);
-    console.log(`🔗 Link: ${import.meta.env.VITE_APP_URL || 'http://localhost:5173'}/auth/accept-invitation?email=${encodeURIComponent(validated.email)}`);
-    console.log(`═══════════════════════════════════════════\n`);
-
-    console.log(`[inviteUser] Invitation process completed successfully`);
     return {
       message: result.message,
       user: result.user,
-      invitationCode: result.invitationCode, // Return for testing/fallback
     };
   }
 
+  /**
+   * Invite the rows of an uploaded file to a company.
+   * With dryRun nothing is created: every row comes back with its issues.
+   * Otherwise the valid rows are invited and emailed by the server.
+   */
+  static async bulkInviteUsers(
+    companyId: string,
+    rows: BulkInviteRow[],
+    dryRun: boolean
+  ): Promise<BulkInviteResult> {
+    return callFunction("auth.bulk_invite_users", {
+      company_id: companyId,
+      rows,
+      dry_run: dryRun,
+    });
+  }
+
   /**
    * Get user's companies
    * TODO: Create PostgreSQL function for this
@@ -141,6 +131,25 @@ export class UserService {
     });
   }
 
+  /**
+   * Unlock user locked out after failed sign-ins
+   */
+  static async unlockUser(userId: string) {
+    return callFunction("users.unlock", { user_id: userId });
+  }
+
+  /**
+   * View the app as a member of the company (30 minutes, no high-risk
+   * permissions). The session cookie switches to the member's session.
+   */
+  static async startImpersonation(companyId: string, userId: string, reason?: string) {
+    return callFunction("auth.start_impersonation", {
+      company_id: companyId,
+      target_user_id: userId,
+      reason: reason || null,
+    });
+  }
+
   /**
    * Delete user (soft delete by removing from all companies)
    * TODO: Create PostgreSQL function for this
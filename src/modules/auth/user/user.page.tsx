@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { UserService } from "./user-service";
 import { useCompany } from "@/lib/company-context";
+import { useAuth } from "@/lib/auth-context";
 import { Badge } from "@/lib/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/lib/ui/card";
 import { toast } from "sonner";
@@ -13,6 +14,9 @@ import {
   Trash2,
   Shield,
   Building2,
+  Lock,
+  LockOpen,
+  Eye,
 } from "lucide-react";
 import { QTable, SortableHeader, RowActionsDropdown, MassActionButtons } from "@/lib/ui/QTable.ui";
 import type { ColumnDef } from "@tanstack/react-table";
@@ -23,6 +27,8 @@ interface SanitizedUser {
   fullname: string;
   verified: boolean;
   twoFactorEnabled?: boolean;
+  /** Sign-in lockout end (ms) while the account is locked */
+  lockedUntil?: number | null;
   createdAt: number;
   updatedAt: number;
 }
@@ -30,6 +36,7 @@ interface SanitizedUser {
 export default function UserManagementPage() {
   const [, navigate] = useLocation();
   const { activeCompany } = useCompany();
+  const { user: currentUser } = useAuth();
   const [users, setUsers] = useState<SanitizedUser[]>([]);
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState({
@@ -108,6 +115,34 @@ export default function UserManagementPage() {
     }
   };
 
+  const handleUnlock = async (userId: string, userEmail: string) => {
+    try {
+      await UserService.unlockUser(userId);
+      toast.success(`User ${userEmail} unlocked successfully`);
+      loadUsers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to unlock user");
+    }
+  };
+
+  // Support: see the app with this member's permissions (audited, time-limited)
+  const handleImpersonate = async (userId: string, userEmail: string) => {
+    if (!activeCompany) return;
+
+    const reason = prompt(`View the app as ${userEmail} for 30 minutes? Reason (recorded in the audit log):`);
+    if (reason === null) {
+      return;
+    }
+
+    try {
+      await UserService.startImpersonation(activeCompany.id, userId, reason);
+      // Reload every store as the member
+      window.location.assign("/dashboard");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to view as user");
+    }
+  };
+
   const handleResendInvitation = async (userEmail: string) => {
     toast.info(`Resending invitation to ${userEmail}...`);
     // TODO: Implement resend invitation
@@ -173,6 +208,17 @@ export default function UserManagementPage() {
       header: "Status",
       cell: ({ row }) => {
         const verified = row.getValue("verified");
+        if (row.original.lockedUntil) {
+          return (
+            <Badge
+              variant="destructive"
+              title={`Locked until ${new Date(row.original.lockedUntil).toLocaleString()}`}
+            >
+              <Lock className="mr-1 h-3 w-3" />
+              Locked
+            </Badge>
+          );
+        }
         return verified ? (
           <Badge variant="default" className="bg-green-600">
             <UserCheck className="mr-1 h-3 w-3" />
@@ -324,6 +370,24 @@ export default function UserManagementPage() {
                 icon: <Building2 className="h-4 w-4" />,
                 onClick: () => navigate(`/users/${user._id}/companies`),
               },
+              ...(user._id === currentUser?._id
+                ? []
+                : [
+                    {
+                      label: "View as User",
+                      icon: <Eye className="h-4 w-4" />,
+                      onClick: () => handleImpersonate(user._id, user.email),
+                    },
+                  ]),
+              ...(user.lockedUntil
+                ? [
+                    {
+                      label: "Unlock User",
+                      icon: <LockOpen className="h-4 w-4" />,
+                      onClick: () => handleUnlock(user._id, user.email),
+                    },
+                  ]
+                : []),
               ...(user.verified
                 ? []
                 : [
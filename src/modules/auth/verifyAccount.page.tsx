@@ -7,6 +7,8 @@ import {
   CardContent,
   CardFooter,
 } from "@/lib/ui/card";
+import { Input } from "@/lib/ui/input";
+import { Label } from "@/lib/ui/label";
 import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/lib/ui/input-otp";
 import { useLocation } from "wouter";
 import { AuthService } from "./auth-service";
@@ -17,10 +19,20 @@ export default function VerifyAccountPage() {
   const [, setLocation] = useLocation();
   const [code, setCode] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  // Set by the sign-up page; entered by hand when the page is opened directly
+  const [email, setEmail] = useState(
+    () => new URLSearchParams(window.location.search).get("email") || ""
+  );
 
   const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (!email.trim()) {
+      toast.error("Please enter your email");
+      return;
+    }
+
     if (code.length !== 6) {
       toast.error("Please enter a valid 6-digit code");
       return;
@@ -28,7 +40,7 @@ export default function VerifyAccountPage() {
 
     setIsSubmitting(true);
     try {
-      await AuthService.verifyAccount(code);
+      await AuthService.verifyAccount(code, email.trim());
       toast.success("Account verified successfully! You can now sign in.");
       setLocation("/auth/signin");
     } catch (error) {
@@ -40,6 +52,21 @@ export default function VerifyAccountPage() {
     }
   };
 
+  const onResend = async () => {
+    setIsResending(true);
+    try {
+      await AuthService.resendVerification(email.trim());
+      setCode("");
+      toast.success("If the account still needs verification, a new code is on its way.");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An error occurred. Please try again."
+      );
+    } finally {
+      setIsResending(false);
+    }
+  };
+
   return (
     <div className="container mx-auto px-4 py-20 flex justify-center">
       <Card className="w-full max-w-md">
@@ -51,6 +78,16 @@ export default function VerifyAccountPage() {
         </CardHeader>
         <form onSubmit={onSubmit}>
           <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                placeholder="john@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
             <div className="space-y-4">
               <p className="text-sm text-muted-foreground text-center">
                 Enter the 6-digit verification code
@@ -73,14 +110,25 @@ export default function VerifyAccountPage() {
               </div>
             </div>
           </CardContent>
-          <CardFooter>
+          <CardFooter className="flex flex-col gap-2">
             <Button
               type="submit"
               className="w-full"
-              disabled={isSubmitting || code.length !== 6}
+              disabled={isSubmitting || code.length !== 6 || !email.trim()}
             >
               {isSubmitting ? "Verifying..." : "Verify Account"}
             </Button>
+            {email.trim() && (
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={onResend}
+                disabled={isResending}
+              >
+                {isResending ? "Sending..." : "Resend code"}
+              </Button>
+            )}
           </CardFooter>
         </form>
       </Card>
@@ -5,46 +5,24 @@
  * This service just calls Hono API which executes SQL functions
  */
 
-export type CompanyRole = "owner" | "admin" | "member";
-
-export interface CompanyMember {
-  userId: string;
-  email: string;
-  fullname: string;
-  avatar?: string;
-  role: CompanyRole;
-  joinedAt: number;
-  position?: string;
-  department?: string;
-}
-
-const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
-
-/**
- * Helper function to call Postgres functions via Hono API
- */
-async function callFunction(functionName: string, params: Record<string, any> = {}) {
-  const response = await fetch(`${API_URL}/api/${functionName}`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    credentials: "include",
-    body: JSON.stringify(params),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error || `Failed to call ${functionName}`);
-  }
-
-  return response.json();
-}
+import { rpc } from "@/lib/rpc.generated";
+import type {
+  CompanyMember,
+  CompanyRole,
+  CustomRole,
+  CustomRoleInput,
+  Invitation,
+  PermissionExplanation,
+  PermissionHolder,
+  PermissionMatrix,
+} from "./company.types";
 
 export class CompanyMembersService {
   /**
    * Get all members of a company
    */
   static async getCompanyMembers(companyId: string): Promise<CompanyMember[]> {
-    const result = await callFunction("company.get_company_members", {
+    const result = await rpc.company.get_company_members({
       company_id: companyId,
     });
     return result;
@@ -58,7 +36,7 @@ export class CompanyMembersService {
     userId: string,
     role: CompanyRole = "member"
   ): Promise<void> {
-    await callFunction("company.add_member", {
+    await rpc.company.add_member({
       company_id: companyId,
       user_id: userId,
       role: role,
@@ -69,7 +47,7 @@ export class CompanyMembersService {
    * Remove a member from company
    */
   static async removeMember(companyId: string, userId: string): Promise<void> {
-    await callFunction("company.remove_member", {
+    await rpc.company.remove_member({
       company_id: companyId,
       user_id: userId,
     });
@@ -83,7 +61,7 @@ export class CompanyMembersService {
     userId: string,
     newRole: CompanyRole
   ): Promise<void> {
-    await callFunction("company.update_member_role", {
+    await rpc.company.update_member_role({
       company_id: companyId,
       user_id: userId,
       new_role: newRole,
@@ -98,18 +76,200 @@ export class CompanyMembersService {
     currentOwnerId: string,
     newOwnerId: string
   ): Promise<void> {
-    await callFunction("company.transfer_ownership", {
+    await rpc.company.transfer_ownership({
       company_id: companyId,
       current_owner_id: currentOwnerId,
       new_owner_id: newOwnerId,
     });
   }
 
+  /**
+   * Get pending (and expired, not yet revoked) invitations of a company
+   */
+  static async getInvitations(companyId: string): Promise<Invitation[]> {
+    return rpc.company.get_invitations({ company_id: companyId });
+  }
+
+  /**
+   * Issue a new invitation code, restart the expiry and email the invitee
+   */
+  static async resendInvitation(companyId: string, invitationId: string): Promise<void> {
+    await rpc.company.resend_invitation({
+      company_id: companyId,
+      invitation_id: invitationId,
+    });
+  }
+
+  /**
+   * Revoke a pending invitation (its code stops working)
+   */
+  static async revokeInvitation(companyId: string, invitationId: string): Promise<void> {
+    await rpc.company.revoke_invitation({
+      company_id: companyId,
+      invitation_id: invitationId,
+    });
+  }
+
+  /**
+   * Give a member a custom role (null removes it, the base role stays)
+   */
+  static async assignCustomRole(
+    companyId: string,
+    memberId: string,
+    customRoleId: string | null
+  ): Promise<void> {
+    await rpc.rbac.assign_custom_role({
+      company_id: companyId,
+      member_id: memberId,
+      custom_role_id: customRoleId,
+    });
+  }
+
+  /**
+   * Get the custom roles of a company
+   */
+  static async getCustomRoles(companyId: string): Promise<CustomRole[]> {
+    return rpc.rbac.get_custom_roles({ company_id: companyId });
+  }
+
+  /**
+   * Create a custom role
+   */
+  static async createCustomRole(companyId: string, input: CustomRoleInput): Promise<void> {
+    await rpc.rbac.create_custom_role({
+      company_id: companyId,
+      name: input.name,
+      description: input.description,
+      base_role: input.baseRole,
+      color: input.color,
+      permissions: input.permissions,
+    });
+  }
+
+  /**
+   * Update a custom role; its permissions are replaced with input.permissions
+   */
+  static async updateCustomRole(
+    companyId: string,
+    customRoleId: string,
+    input: CustomRoleInput
+  ): Promise<void> {
+    await rpc.rbac.update_custom_role({
+      company_id: companyId,
+      custom_role_id: customRoleId,
+      name: input.name,
+      description: input.description,
+      base_role: input.baseRole,
+      color: input.color,
+      permissions: input.permissions,
+    });
+  }
+
+  /**
+   * Delete a custom role (its members keep the base role)
+   */
+  static async deleteCustomRole(companyId: string, customRoleId: string): Promise<void> {
+    await rpc.rbac.delete_custom_role({
+      company_id: companyId,
+      custom_role_id: customRoleId,
+    });
+  }
+
+  /**
+   * Roles x permissions of the company
+   */
+  static async getPermissionMatrix(companyId: string): Promise<PermissionMatrix> {
+    return rpc.rbac.get_permission_matrix({ company_id: companyId });
+  }
+
+  /**
+   * Every permission with whether the member has it and why
+   */
+  static async explainUserPermissions(
+    companyId: string,
+    memberId: string
+  ): Promise<PermissionExplanation> {
+    return rpc.rbac.explain_user_permissions({
+      company_id: companyId,
+      member_id: memberId,
+    });
+  }
+
+  /**
+   * Members that have a permission ("who can do X")
+   */
+  static async getPermissionHolders(
+    companyId: string,
+    permissionName: string
+  ): Promise<PermissionHolder[]> {
+    return rpc.rbac.get_permission_holders({
+      company_id: companyId,
+      permission_name: permissionName,
+    });
+  }
+
+  /**
+   * Grant a member a permission on top of their role, until expiresAt when set
+   *
+   * @param companyId - companies.id (UUID)
+   */
+  static async grantPermission(
+    companyId: string,
+    memberId: string,
+    permissionName: string,
+    reason: string,
+    expiresAt?: number | null
+  ): Promise<void> {
+    await rpc.rbac.grant_permission({
+      company_id: companyId,
+      user_id: memberId,
+      permission_name: permissionName,
+      reason,
+      expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+    });
+  }
+
+  /**
+   * Take a permission away from a member even if their role has it
+   *
+   * @param companyId - companies.id (UUID)
+   */
+  static async revokePermission(
+    companyId: string,
+    memberId: string,
+    permissionName: string,
+    reason: string
+  ): Promise<void> {
+    await rpc.rbac.revoke_permission({
+      company_id: companyId,
+      user_id: memberId,
+      permission_name: permissionName,
+      reason,
+    });
+  }
+
+  /**
+   * Drop a grant or revoke: the member's roles decide again
+   *
+   * @param companyId - companies.id (UUID)
+   */
+  static async removePermissionOverride(
+    companyId: string,
+    memberId: string,
+    permissionName: string
+  ): Promise<void> {
+    await rpc.rbac.remove_permission_override({
+      company_id: companyId,
+      user_id: memberId,
+      permission_name: permissionName,
+    });
+  }
+
   /**
    * Get user role in company
    */
   static async getUserRole(userId: string, companyId: string): Promise<CompanyRole | null> {
-    const result = await callFunction("company.get_user_role", {
+    const result = await rpc.company.get_user_role({
       user_id: userId,
       company_id: companyId,
     });
@@ -124,7 +284,7 @@ export class CompanyMembersService {
     companyId: string,
     requiredRole: CompanyRole
   ): Promise<boolean> {
-    const result = await callFunction("company.has_permission", {
+    const result = await rpc.company.has_permission({
       user_id: userId,
       company_id: companyId,
       required_role: requiredRole,
@@ -6,34 +6,20 @@
  */
 
 import type { CreateCompanyInput, UpdateCompanyInput } from "./company.valibot";
-
-const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
-
-/**
- * Helper function to call Postgres functions via Hono API
- */
-async function callFunction(functionName: string, params: Record<string, any> = {}) {
-  const response = await fetch(`${API_URL}/api/${functionName}`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    credentials: "include",
-    body: JSON.stringify(params),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error || `Failed to call ${functionName}`);
-  }
-
-  return response.json();
-}
+import { rpc } from "@/lib/rpc.generated";
+import type {
+  CreatedApiToken,
+  ServiceAccount,
+  SsoSettings,
+  UpdateSsoSettingsInput,
+} from "./company.types";
 
 export class CompanyService {
   /**
    * Create a new company
    */
   static async createCompany(userId: string, data: CreateCompanyInput) {
-    return callFunction("company.create_company", {
+    return rpc.company.create_company({
       user_id: userId,
       type: data.type,
       title: data.title,
@@ -51,21 +37,21 @@ export class CompanyService {
    * Get all companies for a user
    */
   static async getUserCompanies(userId: string) {
-    return callFunction("company.get_user_companies", { user_id: userId });
+    return rpc.company.get_user_companies({ user_id: userId });
   }
 
   /**
    * Get company by ID
    */
   static async getCompanyById(companyId: string) {
-    return callFunction("company.get_company_by_id", { company_id: companyId });
+    return rpc.company.get_company_by_id({ company_id: companyId });
   }
 
   /**
    * Update company
    */
   static async updateCompany(companyId: string, data: UpdateCompanyInput) {
-    return callFunction("company.update_company", {
+    return rpc.company.update_company({
       company_id: companyId,
       title: data.title,
       logo: data.logo,
@@ -83,14 +69,98 @@ export class CompanyService {
    * Delete company
    */
   static async deleteCompany(companyId: string) {
-    return callFunction("company.delete_company", { company_id: companyId });
+    return rpc.company.delete_company({ company_id: companyId });
+  }
+
+  /**
+   * Get the single sign-on provider settings
+   */
+  static async getSsoSettings(companyId: string): Promise<SsoSettings> {
+    return rpc.company.get_sso_settings({ company_id: companyId });
+  }
+
+  /**
+   * Configure the single sign-on provider
+   */
+  static async updateSsoSettings(companyId: string, data: UpdateSsoSettingsInput): Promise<SsoSettings> {
+    return rpc.company.update_sso_settings({
+      company_id: companyId,
+      enabled: data.enabled,
+      issuer: data.issuer,
+      client_id: data.clientId,
+      client_secret: data.clientSecret || null,
+      allowed_domains: data.allowedDomains,
+      sso_required: data.ssoRequired,
+    });
+  }
+
+  /**
+   * Verify an email domain by its DNS TXT record
+   */
+  static async verifySsoDomain(companyId: string, domain: string): Promise<SsoSettings> {
+    return rpc.company.verify_sso_domain({ company_id: companyId, domain });
+  }
+
+  /**
+   * Get the company's service accounts with their active tokens
+   */
+  static async getServiceAccounts(companyId: string): Promise<ServiceAccount[]> {
+    return rpc.company.get_service_accounts({ company_id: companyId });
+  }
+
+  /**
+   * Create a service account with some of the caller's permissions
+   */
+  static async createServiceAccount(companyId: string, name: string, permissions: string[]) {
+    return rpc.company.create_service_account({
+      company_id: companyId,
+      name,
+      permissions,
+    });
+  }
+
+  /**
+   * Delete a service account with its tokens
+   */
+  static async deleteServiceAccount(companyId: string, serviceAccountId: string) {
+    return rpc.company.delete_service_account({
+      company_id: companyId,
+      service_account_id: serviceAccountId,
+    });
+  }
+
+  /**
+   * Create an API token for a service account
+   */
+  static async createServiceAccountToken(
+    companyId: string,
+    serviceAccountId: string,
+    data: { name: string; permissions: string[]; expiresInDays: number }
+  ): Promise<CreatedApiToken> {
+    return rpc.company.create_service_account_token({
+      company_id: companyId,
+      service_account_id: serviceAccountId,
+      name: data.name,
+      permissions: data.permissions,
+      expires_in_days: data.expiresInDays,
+    });
+  }
+
+  /**
+   * Revoke an API token of a service account
+   */
+  static async revokeServiceAccountToken(companyId: string, tokenId: string) {
+    return rpc.company.revoke_service_account_token({
+      company_id: companyId,
+      token_id: tokenId,
+    });
   }
 
   /**
    * Check if user has access to company
    */
   static async hasAccess(userId: string, companyId: string): Promise<boolean> {
-    const result = await callFunction("company.has_access", {
+    const result = await rpc.company.has_access({
       user_id: userId,
       company_id: companyId,
     });
@@ -101,7 +171,7 @@ export class CompanyService {
    * Get user role in company
    */
   static async getUserRole(userId: string, companyId: string): Promise<string | null> {
-    const result = await callFunction("company.get_user_role", {
+    const result = await rpc.company.get_user_role({
       user_id: userId,
       company_id: companyId,
     });
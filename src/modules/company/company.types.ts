@@ -0,0 +1,169 @@
+/**
+ * Company Types
+ * Results of the company.* and rbac.* functions used by the company module
+ */
+
+import type { ApiToken, CreatedApiToken } from "@/modules/auth/auth-service";
+
+export type { ApiToken, CreatedApiToken };
+
+export type CompanyRole = "owner" | "admin" | "member" | "guest";
+
+export interface CompanyMember {
+  userId: string;
+  email: string;
+  fullname: string;
+  avatar?: string;
+  /** Base role; with a custom role, the custom role's base role */
+  role: CompanyRole;
+  customRole?: { id: string; name: string; color: string } | null;
+  joinedAt: number;
+  position?: string;
+  department?: string;
+}
+
+export type InvitationRole = "admin" | "member";
+
+/**
+ * Company-defined role: every permission of its base role plus its own
+ */
+export interface CustomRole {
+  id: string;
+  name: string;
+  description: string | null;
+  base_role: Exclude<CompanyRole, "owner">;
+  color: string;
+  permissions: string[];
+  member_count: number;
+}
+
+export interface CustomRoleInput {
+  name: string;
+  description?: string;
+  baseRole: CustomRole["base_role"];
+  color?: string;
+  permissions: string[];
+}
+
+export type RiskLevel = "low" | "medium" | "high" | "critical";
+
+/**
+ * Where a member's permission comes from (rbac.permission_source):
+ * an override ("grant" / "revoke"), their custom role or their base role
+ */
+export type PermissionSource = "grant" | "revoke" | "custom_role" | "role";
+
+export interface PermissionMatrixRow {
+  name: string;
+  description: string;
+  module: string;
+  action: string;
+  risk_level: RiskLevel;
+  /** Base roles that have the permission */
+  roles: CompanyRole[];
+  /** Custom roles (ids) that add the permission to their base role */
+  custom_roles: string[];
+}
+
+export interface PermissionMatrix {
+  permissions: PermissionMatrixRow[];
+  custom_roles: CustomRole[];
+}
+
+export interface PermissionExplanation {
+  member: Pick<CompanyMember, "userId" | "fullname" | "email" | "role" | "customRole">;
+  permissions: {
+    name: string;
+    description: string;
+    module: string;
+    risk_level: RiskLevel;
+    granted: boolean;
+    source: PermissionSource | null;
+    /** Override details (source "grant" / "revoke") */
+    reason: string | null;
+    granted_by: string | null;
+    expires_at: number | null;
+  }[];
+}
+
+export interface PermissionHolder {
+  userId: string;
+  fullname: string;
+  email: string;
+  role: CompanyRole;
+  customRole: string | null;
+  source: Exclude<PermissionSource, "revoke">;
+}
+
+/**
+ * Result of rbac.grant_permission / rbac.revoke_permission
+ */
+export interface PermissionOverrideResult {
+  success: boolean;
+  message: string;
+  permission: { name: string; description: string; risk_level: RiskLevel };
+}
+
+export interface Invitation {
+  id: string;
+  email: string;
+  role: InvitationRole;
+  positionId?: string | null;
+  position?: string | null;
+  invitedBy?: { userId: string; fullname: string; email: string } | null;
+  /** Pending invitations past expiresAt are reported as "expired" */
+  status: "pending" | "expired";
+  expiresAt: number;
+  sentAt: number;
+  createdAt: number;
+}
+
+/**
+ * Resent invitation; the gateway emails the new code and leaves it out
+ */
+export interface ResentInvitation {
+  email: string;
+  isNewUser: boolean;
+  expiresAt: number;
+}
+
+/**
+ * OpenID Connect provider of a company (single sign-on)
+ */
+export interface SsoSettings {
+  enabled: boolean;
+  issuer: string | null;
+  clientId: string | null;
+  /** The secret itself is never returned */
+  hasClientSecret: boolean;
+  allowedDomains: string[];
+  /** Domains of allowedDomains proven by DNS; only these sign in through SSO */
+  verifiedDomains: string[];
+  /** TXT record to add to a domain before verifying it */
+  domainVerificationRecord: string | null;
+  /** Members with an email of verifiedDomains cannot sign in with a password */
+  ssoRequired: boolean;
+  updatedAt: number | null;
+}
+
+export interface UpdateSsoSettingsInput {
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  /** Empty keeps the stored secret */
+  clientSecret?: string;
+  allowedDomains: string[];
+  ssoRequired: boolean;
+}
+
+/**
+ * Company-owned user that calls the API with tokens only
+ */
+export interface ServiceAccount {
+  id: string;
+  name: string;
+  /** Permissions granted on top of the member role */
+  permissions: string[];
+  tokens: ApiToken[];
+  createdAt: number;
+}
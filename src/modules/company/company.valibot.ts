@@ -71,7 +71,33 @@ export const settingsSchema = v.object({
   // Security Settings
   twoFactorRequired: v.boolean(),
   twoFactorDeadline: v.nullable(v.string()),
-  passwordChangeDays: v.number(),
+  passwordChangeDays: v.pipe(
+    v.number(),
+    v.integer(),
+    v.minValue(0, "Must be 0 or more days"),
+    v.maxValue(3650, "Must be at most 3650 days")
+  ), // 0 = passwords never expire
+  passwordMinLength: v.optional(
+    v.pipe(v.number(), v.integer(), v.minValue(8, "Must be at least 8 characters"), v.maxValue(128, "Must be at most 128 characters"))
+  ),
+  passwordRequireUppercase: v.optional(v.boolean()),
+  passwordRequireLowercase: v.optional(v.boolean()),
+  passwordRequireNumber: v.optional(v.boolean()),
+  passwordRequireSymbol: v.optional(v.boolean()),
+  passwordHistory: v.optional(
+    v.pipe(v.number(), v.integer(), v.minValue(0, "Must be 0 or more"), v.maxValue(10, "Must be at most 10 passwords"))
+  ), // Previous passwords that cannot be reused (0 = off)
+  loginThrottleAfter: v.optional(
+    v.pipe(v.number(), v.integer(), v.minValue(1, "Must be at least 1 attempt"))
+  ), // Failed sign-ins before backoff starts
+  lockoutThreshold: v.optional(
+    v.pipe(v.number(), v.integer(), v.minValue(3, "Must be at least 3 attempts"), v.maxValue(100, "Must be at most 100 attempts"))
+  ), // Failed sign-ins before the account is locked
+  lockoutMinutes: v.optional(
+    v.pipe(v.number(), v.integer(), v.minValue(1, "Must be at least 1 minute"), v.maxValue(1440, "Must be at most 24 hours"))
+  ), // Lockout duration in minutes
+  magicLinkEnabled: v.optional(v.boolean()), // Members may sign in with an emailed link
+  highRiskStepUp: v.optional(v.boolean()), // 2FA on high-risk sign-ins, even from trusted devices
 });
 
 // Schema for updating a company
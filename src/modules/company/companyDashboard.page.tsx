@@ -25,11 +25,8 @@ export function CompanyDashboardPage() {
       const orgCharts = await OrgChartService.getCompanyOrgCharts(activeCompany._id);
       const approvedOrgChart = orgCharts.find((o) => o.status === "approved");
 
-      if (approvedOrgChart && approvedOrgChart._id) {
-        const data = await OrgChartService.getPayrollForecast(
-          activeCompany._id,
-          approvedOrgChart._id.split(":").pop()!
-        );
+      if (approvedOrgChart) {
+        const data = await OrgChartService.getPayrollForecast(activeCompany._id, approvedOrgChart.id);
         setPayrollForecastData(data);
       }
     } catch (error: any) {
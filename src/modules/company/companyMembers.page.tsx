@@ -1,7 +1,9 @@
 import { useEffect, useState } from "react";
 import { useCompany } from "@/lib/company-context";
 import { useAuth } from "@/lib/auth-context";
-import { CompanyMembersService, type CompanyMember, type CompanyRole } from "./company-members-service";
+import { CompanyMembersService } from "./company-members-service";
+import type { CompanyMember, CompanyRole, CustomRole, Invitation } from "./company.types";
+import CustomRolesForm from "./customRoles.form";
 import { Button } from "@/lib/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/lib/ui/card";
 import {
@@ -13,7 +15,7 @@ import {
 } from "@/lib/ui/select";
 import { Badge } from "@/lib/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/lib/ui/avatar";
-import { Crown, Shield, User, Trash2 } from "lucide-react";
+import { Crown, Shield, User, UserRound, Trash2, Mail, RotateCw, X } from "lucide-react";
 import { toast } from "sonner";
 
 export default function CompanyMembersPage() {
@@ -22,6 +24,10 @@ export default function CompanyMembersPage() {
   const [members, setMembers] = useState<CompanyMember[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentUserRole, setCurrentUserRole] = useState<CompanyRole | null>(null);
+  const [tab, setTab] = useState<"members" | "invitations" | "roles">("members");
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [invitationsLoading, setInvitationsLoading] = useState(false);
+  const [customRoles, setCustomRoles] = useState<CustomRole[]>([]);
 
   // Load members
   useEffect(() => {
@@ -50,13 +56,76 @@ export default function CompanyMembersPage() {
     }
   };
 
-  const handleRoleChange = async (userId: string, newRole: CompanyRole) => {
+  const loadInvitations = async () => {
     if (!activeCompany) return;
 
     try {
-      await CompanyMembersService.updateMemberRole(activeCompany._id, userId, newRole);
+      setInvitationsLoading(true);
+      setInvitations(await CompanyMembersService.getInvitations(activeCompany._id));
+    } catch (error) {
+      console.error("Failed to load invitations:", error);
+      toast.error("Failed to load pending invitations");
+    } finally {
+      setInvitationsLoading(false);
+    }
+  };
+
+  const loadCustomRoles = async () => {
+    if (!activeCompany) return;
+
+    try {
+      setCustomRoles(await CompanyMembersService.getCustomRoles(activeCompany.id));
+    } catch (error) {
+      console.error("Failed to load custom roles:", error);
+    }
+  };
+
+  const handleResendInvitation = async (invitation: Invitation) => {
+    if (!activeCompany) return;
+
+    try {
+      await CompanyMembersService.resendInvitation(activeCompany._id, invitation.id);
+      toast.success(`Invitation resent to ${invitation.email}`);
+      await loadInvitations();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to resend invitation");
+    }
+  };
+
+  const handleRevokeInvitation = async (invitation: Invitation) => {
+    if (!activeCompany) return;
+
+    const confirmed = window.confirm(
+      `Revoke the invitation for ${invitation.email}? The code they received will stop working.`
+    );
+
+    if (!confirmed) return;
+
+    try {
+      await CompanyMembersService.revokeInvitation(activeCompany._id, invitation.id);
+      toast.success("Invitation revoked");
+      await loadInvitations();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to revoke invitation");
+    }
+  };
+
+  // Select values: a base role, or "custom:<id>" for a custom role
+  const handleRoleChange = async (userId: string, value: string) => {
+    if (!activeCompany) return;
+
+    try {
+      if (value.startsWith("custom:")) {
+        await CompanyMembersService.assignCustomRole(
+          activeCompany.id,
+          userId,
+          value.slice("custom:".length)
+        );
+      } else {
+        await CompanyMembersService.updateMemberRole(activeCompany._id, userId, value as CompanyRole);
+      }
       toast.success("Role updated successfully");
-      await loadMembers();
+      await Promise.all([loadMembers(), loadCustomRoles()]);
     } catch (error: any) {
       toast.error(error.message || "Failed to update role");
     }
@@ -88,6 +157,8 @@ export default function CompanyMembersPage() {
         return <Shield className="h-4 w-4 text-blue-500" />;
       case "member":
         return <User className="h-4 w-4 text-gray-500" />;
+      case "guest":
+        return <UserRound className="h-4 w-4 text-gray-400" />;
     }
   };
 
@@ -98,12 +169,26 @@ export default function CompanyMembersPage() {
       case "admin":
         return "secondary";
       case "member":
+      case "guest":
         return "outline";
     }
   };
 
   const canManageMembers = currentUserRole === "owner" || currentUserRole === "admin";
 
+  // Pending invitations are only visible to those who can invite
+  useEffect(() => {
+    if (canManageMembers && tab === "invitations") {
+      loadInvitations();
+    }
+  }, [canManageMembers, tab, activeCompany]);
+
+  useEffect(() => {
+    if (canManageMembers) {
+      loadCustomRoles();
+    }
+  }, [canManageMembers, activeCompany]);
+
   if (!activeCompany) {
     return (
       <div className="p-6">
@@ -127,100 +212,233 @@ export default function CompanyMembersPage() {
         </p>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Members ({members.length})</CardTitle>
-          <CardDescription>
-            People who have access to {activeCompany.title}
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          {loading ? (
-            <div className="text-center py-8 text-muted-foreground">
-              Loading members...
-            </div>
-          ) : members.length === 0 ? (
-            <div className="text-center py-8 text-muted-foreground">
-              No members found
-            </div>
-          ) : (
-            <div className="space-y-4">
-              {members.map((member) => (
-                <div
-                  key={member.userId}
-                  className="flex items-center justify-between p-4 border rounded-lg"
-                >
-                  <div className="flex items-center gap-4 flex-1">
-                    <Avatar className="h-10 w-10">
-                      <AvatarImage src={member.avatar} alt={member.fullname} />
-                      <AvatarFallback>
-                        {member.fullname.charAt(0).toUpperCase()}
-                      </AvatarFallback>
-                    </Avatar>
-
-                    <div className="flex-1">
+      {canManageMembers && (
+        <div className="flex gap-2">
+          <Button
+            variant={tab === "members" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setTab("members")}
+          >
+            Members
+          </Button>
+          <Button
+            variant={tab === "invitations" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setTab("invitations")}
+          >
+            Pending invitations
+          </Button>
+          <Button
+            variant={tab === "roles" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setTab("roles")}
+          >
+            Roles
+          </Button>
+        </div>
+      )}
+
+      {tab === "roles" && canManageMembers ? (
+        <CustomRolesForm
+          companyId={activeCompany.id}
+          roles={customRoles}
+          onChange={() => Promise.all([loadMembers(), loadCustomRoles()])}
+        />
+      ) : tab === "invitations" && canManageMembers ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending invitations ({invitations.length})</CardTitle>
+            <CardDescription>
+              People invited to {activeCompany.title} who have not accepted yet
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {invitationsLoading ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Loading invitations...
+              </div>
+            ) : invitations.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                No pending invitations
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {invitations.map((invitation) => (
+                  <div
+                    key={invitation.id}
+                    className="flex items-center justify-between p-4 border rounded-lg"
+                  >
+                    <div className="flex items-center gap-4 flex-1">
+                      <Mail className="h-5 w-5 text-muted-foreground" />
+
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium">{invitation.email}</p>
+                          {invitation.status === "expired" && (
+                            <Badge variant="destructive" className="text-xs">
+                              Expired
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {invitation.position && `${invitation.position} • `}
+                          Invited
+                          {invitation.invitedBy && ` by ${invitation.invitedBy.fullname}`}{" "}
+                          on {new Date(invitation.sentAt).toLocaleDateString()}
+                        </p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {invitation.status === "expired" ? "Expired" : "Expires"}{" "}
+                          {new Date(invitation.expiresAt).toLocaleDateString()}
+                        </p>
+                      </div>
+
                       <div className="flex items-center gap-2">
-                        <p className="font-medium">{member.fullname}</p>
-                        {member.userId === user?._id && (
-                          <Badge variant="secondary" className="text-xs">
-                            You
-                          </Badge>
-                        )}
+                        {getRoleIcon(invitation.role)}
+                        <Badge variant={getRoleBadgeVariant(invitation.role)}>
+                          {invitation.role}
+                        </Badge>
                       </div>
-                      <p className="text-sm text-muted-foreground">
-                        {member.email}
-                      </p>
-                      <p className="text-xs text-muted-foreground mt-1">
-                        Joined {new Date(member.joinedAt).toLocaleDateString()}
-                      </p>
                     </div>
 
                     <div className="flex items-center gap-2">
-                      {getRoleIcon(member.role)}
-                      <Badge variant={getRoleBadgeVariant(member.role)}>
-                        {member.role}
-                      </Badge>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleResendInvitation(invitation)}
+                      >
+                        <RotateCw className="mr-2 h-4 w-4" />
+                        Resend
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRevokeInvitation(invitation)}
+                      >
+                        <X className="h-4 w-4 text-destructive" />
+                      </Button>
                     </div>
                   </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Members ({members.length})</CardTitle>
+            <CardDescription>
+              People who have access to {activeCompany.title}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Loading members...
+              </div>
+            ) : members.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                No members found
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {members.map((member) => (
+                  <div
+                    key={member.userId}
+                    className="flex items-center justify-between p-4 border rounded-lg"
+                  >
+                    <div className="flex items-center gap-4 flex-1">
+                      <Avatar className="h-10 w-10">
+                        <AvatarImage src={member.avatar} alt={member.fullname} />
+                        <AvatarFallback>
+                          {member.fullname.charAt(0).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
 
-                  <div className="flex items-center gap-2">
-                    {canManageMembers &&
-                      member.userId !== user?._id &&
-                      member.role !== "owner" && (
-                        <Select
-                          value={member.role}
-                          onValueChange={(value) =>
-                            handleRoleChange(member.userId, value as CompanyRole)
-                          }
-                        >
-                          <SelectTrigger className="w-[120px]">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="admin">Admin</SelectItem>
-                            <SelectItem value="member">Member</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      )}
-
-                    {canManageMembers &&
-                      member.userId !== user?._id &&
-                      member.role !== "owner" && (
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => handleRemoveMember(member)}
-                        >
-                          <Trash2 className="h-4 w-4 text-destructive" />
-                        </Button>
-                      )}
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium">{member.fullname}</p>
+                          {member.userId === user?._id && (
+                            <Badge variant="secondary" className="text-xs">
+                              You
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {member.email}
+                        </p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Joined {new Date(member.joinedAt).toLocaleDateString()}
+                        </p>
+                      </div>
+
+                      <div className="flex items-center gap-2">
+                        {getRoleIcon(member.role)}
+                        {member.customRole ? (
+                          <Badge
+                            variant="outline"
+                            style={{ borderColor: member.customRole.color }}
+                            title={`Based on ${member.role}`}
+                          >
+                            {member.customRole.name}
+                          </Badge>
+                        ) : (
+                          <Badge variant={getRoleBadgeVariant(member.role)}>
+                            {member.role}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      {canManageMembers &&
+                        member.userId !== user?._id &&
+                        member.role !== "owner" && (
+                          <Select
+                            value={
+                              member.customRole
+                                ? `custom:${member.customRole.id}`
+                                : member.role
+                            }
+                            onValueChange={(value) => handleRoleChange(member.userId, value)}
+                          >
+                            <SelectTrigger className="w-[160px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="admin">Admin</SelectItem>
+                              <SelectItem value="member">Member</SelectItem>
+                              {member.role === "guest" && !member.customRole && (
+                                <SelectItem value="guest">Guest</SelectItem>
+                              )}
+                              {customRoles.map((role) => (
+                                <SelectItem key={role.id} value={`custom:${role.id}`}>
+                                  {role.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+
+                      {canManageMembers &&
+                        member.userId !== user?._id &&
+                        member.role !== "owner" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleRemoveMember(member)}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
+                    </div>
                   </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </CardContent>
-      </Card>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -0,0 +1,552 @@
+import { useEffect, useMemo, useState } from "react";
+import { useCompany } from "@/lib/company-context";
+import { CompanyMembersService } from "./company-members-service";
+import type {
+  CompanyMember,
+  PermissionExplanation,
+  PermissionHolder,
+  PermissionMatrix,
+  PermissionSource,
+  RiskLevel,
+} from "./company.types";
+import { Button } from "@/lib/ui/button";
+import { Input } from "@/lib/ui/input";
+import { Label } from "@/lib/ui/label";
+import { Badge } from "@/lib/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/lib/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/lib/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/lib/ui/table";
+import { Check, Minus } from "lucide-react";
+import { toast } from "sonner";
+
+const BASE_ROLES = ["owner", "admin", "member", "guest"] as const;
+
+const RISK_LEVELS: RiskLevel[] = ["low", "medium", "high", "critical"];
+
+const RISK_BADGE: Record<RiskLevel, "outline" | "secondary" | "default" | "destructive"> = {
+  low: "outline",
+  medium: "secondary",
+  high: "default",
+  critical: "destructive",
+};
+
+function RiskBadge({ level }: { level: RiskLevel }) {
+  return <Badge variant={RISK_BADGE[level]}>{level}</Badge>;
+}
+
+/**
+ * Why a member has (or lacks) a permission
+ */
+function describeSource(
+  source: PermissionSource | null,
+  member: PermissionExplanation["member"]
+): string {
+  switch (source) {
+    case "grant":
+      return "Granted to this member";
+    case "revoke":
+      return "Revoked from this member";
+    case "custom_role":
+      return `Custom role ${member.customRole?.name}`;
+    case "role":
+      return `Base role ${member.role}`;
+    default:
+      return member.customRole
+        ? `Neither ${member.customRole.name} nor ${member.role} has it`
+        : `The ${member.role} role does not have it`;
+  }
+}
+
+/**
+ * Base roles and custom roles x permissions, grouped by module
+ */
+function RoleMatrix({ matrix }: { matrix: PermissionMatrix }) {
+  const [risk, setRisk] = useState<RiskLevel | "all">("all");
+
+  const modules = useMemo(() => {
+    const rows = matrix.permissions.filter((p) => risk === "all" || p.risk_level === risk);
+    const byModule = new Map<string, typeof rows>();
+    for (const row of rows) {
+      byModule.set(row.module, [...(byModule.get(row.module) || []), row]);
+    }
+    return [...byModule.entries()];
+  }, [matrix, risk]);
+
+  const columns = BASE_ROLES.length + matrix.custom_roles.length + 2;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Role matrix</CardTitle>
+            <CardDescription>
+              Custom roles have every permission of their base role (grey) plus their own
+            </CardDescription>
+          </div>
+          <Select value={risk} onValueChange={(value) => setRisk(value as RiskLevel | "all")}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All risk levels</SelectItem>
+              {RISK_LEVELS.map((level) => (
+                <SelectItem key={level} value={level}>
+                  {level}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Permission</TableHead>
+              <TableHead>Risk</TableHead>
+              {BASE_ROLES.map((role) => (
+                <TableHead key={role} className="text-center capitalize">
+                  {role}
+                </TableHead>
+              ))}
+              {matrix.custom_roles.map((role) => (
+                <TableHead key={role.id} className="text-center" title={`Based on ${role.base_role}`}>
+                  <span style={{ color: role.color }}>{role.name}</span>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {modules.map(([module, rows]) => [
+              <TableRow key={module}>
+                <TableCell colSpan={columns} className="bg-muted font-medium capitalize">
+                  {module}
+                </TableCell>
+              </TableRow>,
+              ...rows.map((row) => (
+                <TableRow key={row.name}>
+                  <TableCell title={row.description}>
+                    <span className="font-mono text-sm">{row.name}</span>
+                  </TableCell>
+                  <TableCell>
+                    <RiskBadge level={row.risk_level} />
+                  </TableCell>
+                  {BASE_ROLES.map((role) => (
+                    <TableCell key={role} className="text-center">
+                      {row.roles.includes(role) ? (
+                        <Check className="h-4 w-4 inline" />
+                      ) : (
+                        <Minus className="h-4 w-4 inline text-muted-foreground" />
+                      )}
+                    </TableCell>
+                  ))}
+                  {matrix.custom_roles.map((role) => (
+                    <TableCell key={role.id} className="text-center">
+                      {row.custom_roles.includes(role.id) ? (
+                        <Check className="h-4 w-4 inline" style={{ color: role.color }} />
+                      ) : row.roles.includes(role.base_role) ? (
+                        <Check className="h-4 w-4 inline text-muted-foreground" />
+                      ) : (
+                        <Minus className="h-4 w-4 inline text-muted-foreground" />
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              )),
+            ])}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface MemberPermissionsProps {
+  /** companies.id (UUID) */
+  companyId: string;
+  members: CompanyMember[];
+}
+
+/**
+ * One member's effective permissions with their source, and the overrides
+ * (grant with optional expiry, revoke) that change them
+ */
+function MemberPermissions({ companyId, members }: MemberPermissionsProps) {
+  const [memberId, setMemberId] = useState("");
+  const [explanation, setExplanation] = useState<PermissionExplanation | null>(null);
+  const [permissionName, setPermissionName] = useState("");
+  const [grantType, setGrantType] = useState<"grant" | "revoke">("grant");
+  const [reason, setReason] = useState("");
+  const [expiresOn, setExpiresOn] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadExplanation = async (id: string) => {
+    try {
+      setExplanation(await CompanyMembersService.explainUserPermissions(companyId, id));
+    } catch (error: any) {
+      toast.error(error.message || "Failed to load permissions");
+    }
+  };
+
+  useEffect(() => {
+    setExplanation(null);
+    if (memberId) loadExplanation(memberId);
+  }, [memberId, companyId]);
+
+  const handleSaveOverride = async () => {
+    try {
+      setIsSaving(true);
+      if (grantType === "grant") {
+        // The grant lasts until the end of the chosen day
+        const expiresAt = expiresOn ? new Date(`${expiresOn}T23:59:59`).getTime() : null;
+        await CompanyMembersService.grantPermission(companyId, memberId, permissionName, reason, expiresAt);
+      } else {
+        await CompanyMembersService.revokePermission(companyId, memberId, permissionName, reason);
+      }
+      toast.success(grantType === "grant" ? "Permission granted" : "Permission revoked");
+      setPermissionName("");
+      setReason("");
+      setExpiresOn("");
+      await loadExplanation(memberId);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save override");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveOverride = async (name: string) => {
+    try {
+      await CompanyMembersService.removePermissionOverride(companyId, memberId, name);
+      toast.success("Override removed");
+      await loadExplanation(memberId);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to remove override");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Member permissions</CardTitle>
+        <CardDescription>
+          Overrides come first, then the custom role, then the base role
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Select value={memberId} onValueChange={setMemberId}>
+          <SelectTrigger className="w-[320px]">
+            <SelectValue placeholder="Choose a member" />
+          </SelectTrigger>
+          <SelectContent>
+            {members.map((member) => (
+              <SelectItem key={member.userId} value={member.userId}>
+                {member.fullname} ({member.email})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {explanation && (
+          <>
+            <div className="space-y-4 rounded-lg border p-4">
+              <p className="text-sm font-medium">New override</p>
+              <div className="grid grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <Label>Permission</Label>
+                  <Select value={permissionName} onValueChange={setPermissionName}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Permission" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {explanation.permissions.map((p) => (
+                        <SelectItem key={p.name} value={p.name}>
+                          {p.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Action</Label>
+                  <Select
+                    value={grantType}
+                    onValueChange={(value) => setGrantType(value as "grant" | "revoke")}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="grant">Grant</SelectItem>
+                      <SelectItem value="revoke">Revoke</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="override-reason">Reason</Label>
+                  <Input
+                    id="override-reason"
+                    placeholder="e.g. Covers for the controller in May"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                  />
+                </div>
+                {grantType === "grant" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="override-expires">Expires (optional)</Label>
+                    <Input
+                      id="override-expires"
+                      type="date"
+                      value={expiresOn}
+                      onChange={(e) => setExpiresOn(e.target.value)}
+                    />
+                  </div>
+                )}
+              </div>
+              <Button
+                onClick={handleSaveOverride}
+                disabled={isSaving || !permissionName || !reason.trim()}
+              >
+                {grantType === "grant" ? "Grant Permission" : "Revoke Permission"}
+              </Button>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Permission</TableHead>
+                  <TableHead>Risk</TableHead>
+                  <TableHead>Access</TableHead>
+                  <TableHead>Why</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {explanation.permissions.map((p) => (
+                  <TableRow key={p.name}>
+                    <TableCell title={p.description}>
+                      <span className="font-mono text-sm">{p.name}</span>
+                    </TableCell>
+                    <TableCell>
+                      <RiskBadge level={p.risk_level} />
+                    </TableCell>
+                    <TableCell>
+                      {p.granted ? (
+                        <Badge variant="secondary">Allowed</Badge>
+                      ) : (
+                        <Badge variant="outline">Denied</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {describeSource(p.source, explanation.member)}
+                      {p.reason && (
+                        <span className="block text-xs text-muted-foreground">{p.reason}</span>
+                      )}
+                      {p.expires_at && (
+                        <span className="block text-xs text-muted-foreground">
+                          Until {new Date(p.expires_at).toLocaleDateString()}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {(p.source === "grant" || p.source === "revoke") && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemoveOverride(p.name)}
+                        >
+                          Remove override
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface PermissionHoldersProps {
+  /** companies.id (UUID) */
+  companyId: string;
+  matrix: PermissionMatrix;
+}
+
+/**
+ * "Who can do X": members that have a permission and why
+ */
+function PermissionHolders({ companyId, matrix }: PermissionHoldersProps) {
+  const [permissionName, setPermissionName] = useState("");
+  const [holders, setHolders] = useState<PermissionHolder[] | null>(null);
+
+  useEffect(() => {
+    if (!permissionName) return;
+    CompanyMembersService.getPermissionHolders(companyId, permissionName)
+      .then(setHolders)
+      .catch((error) => toast.error(error.message || "Failed to load members"));
+  }, [permissionName, companyId]);
+
+  const sourceLabel = (holder: PermissionHolder) => {
+    switch (holder.source) {
+      case "grant":
+        return "Granted";
+      case "custom_role":
+        return `Custom role ${holder.customRole}`;
+      case "role":
+        return `Base role ${holder.role}`;
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Who can</CardTitle>
+        <CardDescription>Members that have a permission in this company</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Select value={permissionName} onValueChange={setPermissionName}>
+          <SelectTrigger className="w-[320px]">
+            <SelectValue placeholder="Choose a permission" />
+          </SelectTrigger>
+          <SelectContent>
+            {matrix.permissions.map((p) => (
+              <SelectItem key={p.name} value={p.name}>
+                {p.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {holders && holders.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            Nobody has this permission
+          </div>
+        )}
+
+        {holders && holders.length > 0 && (
+          <div className="space-y-2">
+            {holders.map((holder) => (
+              <div
+                key={holder.userId}
+                className="flex items-center justify-between p-3 border rounded-lg"
+              >
+                <div>
+                  <p className="font-medium">{holder.fullname}</p>
+                  <p className="text-sm text-muted-foreground">{holder.email}</p>
+                </div>
+                <Badge variant={holder.source === "grant" ? "secondary" : "outline"}>
+                  {sourceLabel(holder)}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Permission administration for users with company.change_roles: what each
+ * role can do, who can do a given thing, and per-member overrides
+ */
+export default function CompanyPermissionsPage() {
+  const { activeCompany } = useCompany();
+  const [tab, setTab] = useState<"matrix" | "members" | "holders">("matrix");
+  const [matrix, setMatrix] = useState<PermissionMatrix | null>(null);
+  const [members, setMembers] = useState<CompanyMember[]>([]);
+
+  useEffect(() => {
+    if (!activeCompany) return;
+
+    Promise.all([
+      CompanyMembersService.getPermissionMatrix(activeCompany.id),
+      CompanyMembersService.getCompanyMembers(activeCompany._id),
+    ])
+      .then(([matrixData, membersData]) => {
+        setMatrix(matrixData);
+        setMembers(membersData);
+      })
+      .catch((error) => {
+        console.error("Failed to load permissions:", error);
+        toast.error("Failed to load permissions");
+      });
+  }, [activeCompany?.id]);
+
+  if (!activeCompany) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              Please select a company first
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Permissions</h1>
+        <p className="text-muted-foreground">
+          What each role can do in {activeCompany.title}, and exceptions for single members
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          variant={tab === "matrix" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setTab("matrix")}
+        >
+          Role matrix
+        </Button>
+        <Button
+          variant={tab === "members" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setTab("members")}
+        >
+          Members
+        </Button>
+        <Button
+          variant={tab === "holders" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setTab("holders")}
+        >
+          Who can
+        </Button>
+      </div>
+
+      {!matrix ? (
+        <div className="text-center py-8 text-muted-foreground">Loading permissions...</div>
+      ) : tab === "matrix" ? (
+        <RoleMatrix matrix={matrix} />
+      ) : tab === "members" ? (
+        <MemberPermissions companyId={activeCompany.id} members={members} />
+      ) : (
+        <PermissionHolders companyId={activeCompany.id} matrix={matrix} />
+      )}
+    </div>
+  );
+}
@@ -4,13 +4,14 @@
  * - Regional settings (country, timezone, language, formats)
  * - Financial settings (fiscal year, currencies)
  * - Tax settings (default rates, labels)
- * - Security settings (2FA, password policies)
+ * - Security settings (2FA, password policies, sign-in lockout, sign-in links, step-up)
  */
 
 import { useForm } from "react-hook-form";
 import { valibotResolver } from "@hookform/resolvers/valibot";
 import { settingsSchema, type UpdateCompanyInput } from "./company.valibot";
 import { CompanyService } from "./company-service";
+import CompanySsoForm from "./companySso.form";
 import { useCompany } from "@/lib/company-context";
 import { toast } from "sonner";
 import { Button } from "@/lib/ui/button";
@@ -143,7 +144,18 @@ export default function CompanySettingsPage() {
       // Security
       twoFactorRequired: activeCompany?.settings?.twoFactorRequired || false,
       twoFactorDeadline: activeCompany?.settings?.twoFactorDeadline || null,
-      passwordChangeDays: activeCompany?.settings?.passwordChangeDays || 90,
+      passwordChangeDays: activeCompany?.settings?.passwordChangeDays ?? 90,
+      passwordMinLength: activeCompany?.settings?.passwordMinLength || 8,
+      passwordRequireUppercase: activeCompany?.settings?.passwordRequireUppercase || false,
+      passwordRequireLowercase: activeCompany?.settings?.passwordRequireLowercase || false,
+      passwordRequireNumber: activeCompany?.settings?.passwordRequireNumber || false,
+      passwordRequireSymbol: activeCompany?.settings?.passwordRequireSymbol || false,
+      passwordHistory: activeCompany?.settings?.passwordHistory || 0,
+      loginThrottleAfter: activeCompany?.settings?.loginThrottleAfter || 3,
+      lockoutThreshold: activeCompany?.settings?.lockoutThreshold || 10,
+      lockoutMinutes: activeCompany?.settings?.lockoutMinutes || 15,
+      magicLinkEnabled: activeCompany?.settings?.magicLinkEnabled ?? true,
+      highRiskStepUp: activeCompany?.settings?.highRiskStepUp || false,
     },
   });
 
@@ -195,7 +207,18 @@ export default function CompanySettingsPage() {
         taxIdLabel: activeCompany.settings?.taxIdLabel || "VAT",
         twoFactorRequired: activeCompany.settings?.twoFactorRequired || false,
         twoFactorDeadline: activeCompany.settings?.twoFactorDeadline || null,
-        passwordChangeDays: activeCompany.settings?.passwordChangeDays || 90,
+        passwordChangeDays: activeCompany.settings?.passwordChangeDays ?? 90,
+        passwordMinLength: activeCompany.settings?.passwordMinLength || 8,
+        passwordRequireUppercase: activeCompany.settings?.passwordRequireUppercase || false,
+        passwordRequireLowercase: activeCompany.settings?.passwordRequireLowercase || false,
+        passwordRequireNumber: activeCompany.settings?.passwordRequireNumber || false,
+        passwordRequireSymbol: activeCompany.settings?.passwordRequireSymbol || false,
+        passwordHistory: activeCompany.settings?.passwordHistory || 0,
+        loginThrottleAfter: activeCompany.settings?.loginThrottleAfter || 3,
+        lockoutThreshold: activeCompany.settings?.lockoutThreshold || 10,
+        lockoutMinutes: activeCompany.settings?.lockoutMinutes || 15,
+        magicLinkEnabled: activeCompany.settings?.magicLinkEnabled ?? true,
+        highRiskStepUp: activeCompany.settings?.highRiskStepUp || false,
       });
     }
   }, [activeCompany, residenceCountry, form]);
@@ -718,6 +741,54 @@ export default function CompanySettingsPage() {
                 />
               )}
 
+              <FormField
+                control={form.control}
+                name="magicLinkEnabled"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Allow Sign-In Links
+                      </FormLabel>
+                      <FormDescription>
+                        Members can sign in with a single-use link sent to their email
+                        instead of a password. 2FA still applies.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="highRiskStepUp"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Step-Up for Risky Sign-Ins
+                      </FormLabel>
+                      <FormDescription>
+                        Ask members with 2FA for their code when a sign-in looks unusual
+                        (e.g. new network and device), even on a trusted device.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="passwordChangeDays"
@@ -727,8 +798,10 @@ export default function CompanySettingsPage() {
                     <FormControl>
                       <Input
                         type="number"
+                        min={0}
+                        max={3650}
                         {...field}
-                        onChange={(e) => field.onChange(parseInt(e.target.value) || 90)}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
                       />
                     </FormControl>
                     <FormDescription>
@@ -738,6 +811,154 @@ export default function CompanySettingsPage() {
                   </FormItem>
                 )}
               />
+
+              {/* Password rules */}
+              <div>
+                <FormLabel>Password Requirements</FormLabel>
+                <p className="text-sm text-muted-foreground mb-3">
+                  Checked whenever a password is set. Members of several companies get the
+                  strictest settings.
+                </p>
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="passwordMinLength"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Minimum Length</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={8}
+                            max={128}
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 8)}
+                          />
+                        </FormControl>
+                        <FormDescription>Characters (8-128)</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="passwordHistory"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password History</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={10}
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                          />
+                        </FormControl>
+                        <FormDescription>Previous passwords that cannot be reused (0-10)</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4 mt-4">
+                  {([
+                    ["passwordRequireUppercase", "Uppercase letter"],
+                    ["passwordRequireLowercase", "Lowercase letter"],
+                    ["passwordRequireNumber", "Number"],
+                    ["passwordRequireSymbol", "Special character"],
+                  ] as const).map(([name, label]) => (
+                    <FormField
+                      key={name}
+                      control={form.control}
+                      name={name}
+                      render={({ field }) => (
+                        <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                          <FormLabel>Require {label}</FormLabel>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <Separator />
+
+              {/* Sign-in lockout */}
+              <div>
+                <FormLabel>Failed Sign-In Protection</FormLabel>
+                <p className="text-sm text-muted-foreground mb-3">
+                  After repeated failed sign-ins each attempt waits twice as long, then the
+                  account is locked. Members of several companies get the strictest settings.
+                </p>
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="loginThrottleAfter"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Slow Down After</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={1}
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 3)}
+                          />
+                        </FormControl>
+                        <FormDescription>Failed attempts</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="lockoutThreshold"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Lock After</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={3}
+                            max={100}
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 10)}
+                          />
+                        </FormControl>
+                        <FormDescription>Failed attempts (3-100)</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="lockoutMinutes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Lockout Duration</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={1440}
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 15)}
+                          />
+                        </FormControl>
+                        <FormDescription>Minutes (1-1440)</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </div>
             </CardContent>
           </Card>
 
@@ -749,6 +970,8 @@ export default function CompanySettingsPage() {
           </div>
         </form>
       </Form>
+
+      <CompanySsoForm companyId={activeCompany._id} companyTitle={activeCompany.title} />
     </div>
   );
 }
@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import { CompanyService } from "./company-service";
+import type { SsoSettings } from "./company.types";
+import { Button } from "@/lib/ui/button";
+import { Input } from "@/lib/ui/input";
+import { Label } from "@/lib/ui/label";
+import { Switch } from "@/lib/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/lib/ui/card";
+import { toast } from "sonner";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+interface CompanySsoFormProps {
+  companyId: string;
+  companyTitle: string;
+}
+
+/**
+ * Single sign-on settings: the company's OpenID Connect provider, the email
+ * domains that sign in through it and whether passwords are still allowed.
+ * Saved on its own, apart from the company settings form.
+ */
+export default function CompanySsoForm({ companyId, companyTitle }: CompanySsoFormProps) {
+  const [settings, setSettings] = useState<SsoSettings | null>(null);
+  const [enabled, setEnabled] = useState(false);
+  const [issuer, setIssuer] = useState("");
+  const [clientId, setClientId] = useState("");
+  const [clientSecret, setClientSecret] = useState("");
+  const [domains, setDomains] = useState("");
+  const [ssoRequired, setSsoRequired] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [verifyingDomain, setVerifyingDomain] = useState<string | null>(null);
+
+  const applySettings = (result: SsoSettings) => {
+    setSettings(result);
+    setEnabled(result.enabled);
+    setIssuer(result.issuer || "");
+    setClientId(result.clientId || "");
+    setClientSecret("");
+    setDomains(result.allowedDomains.join(", "));
+    setSsoRequired(result.ssoRequired);
+  };
+
+  useEffect(() => {
+    CompanyService.getSsoSettings(companyId)
+      .then(applySettings)
+      .catch((error) => {
+        console.error("Failed to load SSO settings:", error);
+      });
+  }, [companyId]);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      const result = await CompanyService.updateSsoSettings(companyId, {
+        enabled,
+        issuer,
+        clientId,
+        clientSecret,
+        allowedDomains: domains.split(/[\s,]+/).filter(Boolean),
+        ssoRequired,
+      });
+
+      applySettings(result);
+      toast.success("Single sign-on settings saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save single sign-on settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleVerify = async (domain: string) => {
+    try {
+      setVerifyingDomain(domain);
+      applySettings(await CompanyService.verifySsoDomain(companyId, domain));
+      toast.success(`${domain} verified`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to verify ${domain}`);
+    } finally {
+      setVerifyingDomain(null);
+    }
+  };
+
+  if (!settings) return null;
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Single Sign-On</CardTitle>
+        <CardDescription>
+          Let people of {companyTitle} sign in with your OpenID Connect
+          provider (Okta, Microsoft Entra ID, Google Workspace, ...)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <Label className="text-base">Enable Single Sign-On</Label>
+            <p className="text-sm text-muted-foreground">
+              Show "Continue with SSO" to emails of the domains below
+            </p>
+          </div>
+          <Switch checked={enabled} onCheckedChange={setEnabled} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sso-issuer">Issuer URL</Label>
+          <Input
+            id="sso-issuer"
+            placeholder="https://login.example.com"
+            value={issuer}
+            onChange={(e) => setIssuer(e.target.value)}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="sso-client-id">Client ID</Label>
+            <Input
+              id="sso-client-id"
+              value={clientId}
+              onChange={(e) => setClientId(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sso-client-secret">Client Secret</Label>
+            <Input
+              id="sso-client-secret"
+              type="password"
+              autoComplete="new-password"
+              placeholder={settings.hasClientSecret ? "Saved (leave empty to keep)" : ""}
+              value={clientSecret}
+              onChange={(e) => setClientSecret(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sso-domains">Email Domains</Label>
+          <Input
+            id="sso-domains"
+            placeholder="example.com, example.org"
+            value={domains}
+            onChange={(e) => setDomains(e.target.value)}
+          />
+          <p className="text-sm text-muted-foreground">
+            People with these email domains sign in through the provider. New
+            ones join {companyTitle} as members.
+          </p>
+        </div>
+
+        {settings.allowedDomains.length > 0 && settings.domainVerificationRecord && (
+          <div className="space-y-3 rounded-lg border p-4">
+            <div className="space-y-1">
+              <Label className="text-base">Domain Verification</Label>
+              <p className="text-sm text-muted-foreground">
+                A domain signs in through the provider only after you prove you
+                own it: add this TXT record to its DNS, then verify it
+              </p>
+              <Input readOnly value={settings.domainVerificationRecord} />
+            </div>
+            {settings.allowedDomains.map((domain) => (
+              <div key={domain} className="flex items-center justify-between">
+                <span className="text-sm">{domain}</span>
+                {settings.verifiedDomains.includes(domain) ? (
+                  <span className="text-sm text-muted-foreground">Verified</span>
+                ) : (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleVerify(domain)}
+                    disabled={verifyingDomain !== null}
+                  >
+                    {verifyingDomain === domain ? "Verifying..." : "Verify"}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Redirect URI</Label>
+          <Input readOnly value={`${API_URL}/api/sso/callback`} />
+          <p className="text-sm text-muted-foreground">
+            Register this URI in your provider's application settings
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <Label className="text-base">Require Single Sign-On</Label>
+            <p className="text-sm text-muted-foreground">
+              Members with these email domains cannot sign in with a password
+              (the owner still can)
+            </p>
+          </div>
+          <Switch
+            checked={ssoRequired}
+            onCheckedChange={setSsoRequired}
+            disabled={!enabled}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="button" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save SSO Settings"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react";
+import { CompanyMembersService } from "./company-members-service";
+import type { CustomRole, CustomRoleInput } from "./company.types";
+import { useAuth } from "@/lib/auth-context";
+import { AuthService } from "@/modules/auth/auth-service";
+import {
+  PermissionChecklist,
+  type PermissionOption,
+} from "@/modules/auth/account/apiTokens.form";
+import { Button } from "@/lib/ui/button";
+import { Input } from "@/lib/ui/input";
+import { Label } from "@/lib/ui/label";
+import { Badge } from "@/lib/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/lib/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/lib/ui/select";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+const EMPTY_ROLE: CustomRoleInput = {
+  name: "",
+  description: "",
+  baseRole: "member",
+  color: "#3b82f6",
+  permissions: [],
+};
+
+interface CustomRoleEditorProps {
+  role: CustomRoleInput;
+  permissions: PermissionOption[];
+  onSave: (role: CustomRoleInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Name, base role and extra permissions of a custom role
+ */
+function CustomRoleEditor({ role, permissions, onSave, onCancel }: CustomRoleEditorProps) {
+  const [draft, setDraft] = useState<CustomRoleInput>(role);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await onSave(draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="custom-role-name">Name</Label>
+          <Input
+            id="custom-role-name"
+            placeholder="e.g. Finance Controller"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Based on</Label>
+          <Select
+            value={draft.baseRole}
+            onValueChange={(value) =>
+              setDraft({ ...draft, baseRole: value as CustomRoleInput["baseRole"] })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="admin">Admin</SelectItem>
+              <SelectItem value="member">Member</SelectItem>
+              <SelectItem value="guest">Guest</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="custom-role-description">Description</Label>
+          <Input
+            id="custom-role-description"
+            value={draft.description || ""}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="custom-role-color">Color</Label>
+          <Input
+            id="custom-role-color"
+            type="color"
+            value={draft.color}
+            onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Permissions in addition to the base role</Label>
+        <PermissionChecklist
+          permissions={permissions}
+          selected={draft.permissions}
+          onChange={(selected) => setDraft({ ...draft, permissions: selected })}
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={handleSave} disabled={isSaving || !draft.name.trim()}>
+          {isSaving ? "Saving..." : "Save Role"}
+        </Button>
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface CustomRolesFormProps {
+  /** companies.id (UUID) */
+  companyId: string;
+  roles: CustomRole[];
+  /** Called after a role was created, changed or deleted */
+  onChange: () => void;
+}
+
+/**
+ * Company-defined roles such as "HR Business Partner": a base role plus
+ * extra permissions. Only permissions the editor holds can be added.
+ */
+export default function CustomRolesForm({ companyId, roles, onChange }: CustomRolesFormProps) {
+  const { user } = useAuth();
+  const [permissions, setPermissions] = useState<PermissionOption[]>([]);
+  // null: no editor open, "new": creating, otherwise the id of the edited role
+  const [editing, setEditing] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user?._id) return;
+    AuthService.getUserPermissions(user._id, companyId)
+      .then((result) => setPermissions(result.permissions || []))
+      .catch((error) => console.error("Failed to load permissions:", error));
+  }, [user?._id, companyId]);
+
+  const handleSave = async (input: CustomRoleInput) => {
+    try {
+      if (editing === "new") {
+        await CompanyMembersService.createCustomRole(companyId, input);
+        toast.success(`Role ${input.name} created`);
+      } else if (editing) {
+        await CompanyMembersService.updateCustomRole(companyId, editing, input);
+        toast.success(`Role ${input.name} updated`);
+      }
+      setEditing(null);
+      onChange();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save role");
+    }
+  };
+
+  const handleDelete = async (role: CustomRole) => {
+    const confirmed = window.confirm(
+      `Delete the role ${role.name}? Its ${role.member_count} member(s) keep the ${role.base_role} role.`
+    );
+
+    if (!confirmed) return;
+
+    try {
+      await CompanyMembersService.deleteCustomRole(companyId, role.id);
+      toast.success("Role deleted");
+      onChange();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to delete role");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Custom roles ({roles.length})</CardTitle>
+            <CardDescription>
+              Roles for your organization, each built on a base role
+            </CardDescription>
+          </div>
+          {editing === null && (
+            <Button size="sm" onClick={() => setEditing("new")}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Role
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {editing === "new" && (
+          <CustomRoleEditor
+            role={EMPTY_ROLE}
+            permissions={permissions}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+
+        {roles.length === 0 && editing !== "new" && (
+          <div className="text-center py-8 text-muted-foreground">
+            No custom roles yet
+          </div>
+        )}
+
+        {roles.map((role) =>
+          editing === role.id ? (
+            <CustomRoleEditor
+              key={role.id}
+              role={{
+                name: role.name,
+                description: role.description || "",
+                baseRole: role.base_role,
+                color: role.color,
+                permissions: role.permissions,
+              }}
+              permissions={permissions}
+              onSave={handleSave}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <div
+              key={role.id}
+              className="flex items-center justify-between p-4 border rounded-lg"
+            >
+              <div className="flex-1">
+                <div className="flex items-center gap-2">
+                  <span
+                    className="h-3 w-3 rounded-full"
+                    style={{ backgroundColor: role.color }}
+                  />
+                  <p className="font-medium">{role.name}</p>
+                  <Badge variant="outline">{role.base_role}</Badge>
+                </div>
+                {role.description && (
+                  <p className="text-sm text-muted-foreground">{role.description}</p>
+                )}
+                <p className="text-xs text-muted-foreground mt-1">
+                  {role.permissions.length} extra permission(s) • {role.member_count} member(s)
+                </p>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={editing !== null}
+                  onClick={() => setEditing(role.id)}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(role)}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,7 +5,7 @@
  * All business logic in PostgreSQL functions (src/api/db/doa.functions.sql)
  */
 
-import { callFunction } from "@/lib/api";
+import { rpc } from "@/lib/rpc.generated";
 import type { ApprovalMatrix } from "@/modules/shared/types/database.types";
 
 export class DOAService {
@@ -13,21 +13,19 @@ export class DOAService {
    * Get all approval matrices for a company
    */
   static async getMatrices(companyId: string): Promise<ApprovalMatrix[]> {
-    const result = await callFunction("doa.get_matrices", {
+    return rpc.doa.get_matrices({
       company_id: companyId,
     });
-    return result as ApprovalMatrix[];
   }
 
   /**
    * Get a single approval matrix by ID
    */
   static async getMatrix(companyId: string, matrixId: string): Promise<ApprovalMatrix> {
-    const result = await callFunction("doa.get_matrix", {
+    return rpc.doa.get_matrix({
       company_id: companyId,
       matrix_id: matrixId,
     });
-    return result as ApprovalMatrix;
   }
 
   /**
@@ -38,7 +36,7 @@ export class DOAService {
     data: Omit<ApprovalMatrix, "_id" | "_rev" | "type" | "companyId" | "createdAt" | "updatedAt" | "createdBy">,
     userId: string
   ): Promise<ApprovalMatrix> {
-    const result = await callFunction("doa.create_matrix", {
+    return rpc.doa.create_matrix({
       company_id: companyId,
       name: data.name,
       document_type: data.documentType,
@@ -50,7 +48,6 @@ export class DOAService {
       currency: data.currency || "USD",
       is_active: data.isActive !== false,
     });
-    return result as ApprovalMatrix;
   }
 
   /**
@@ -61,7 +58,7 @@ export class DOAService {
     matrixId: string,
     data: Partial<ApprovalMatrix>
   ): Promise<ApprovalMatrix> {
-    const result = await callFunction("doa.update_matrix", {
+    return rpc.doa.update_matrix({
       company_id: companyId,
       matrix_id: matrixId,
       name: data.name || null,
@@ -72,14 +69,13 @@ export class DOAService {
       min_amount: data.minAmount !== undefined ? data.minAmount : null,
       max_amount: data.maxAmount !== undefined ? data.maxAmount : null,
     });
-    return result as ApprovalMatrix;
   }
 
   /**
    * Delete an approval matrix
    */
   static async deleteMatrix(companyId: string, matrixId: string): Promise<void> {
-    await callFunction("doa.delete_matrix", {
+    await rpc.doa.delete_matrix({
       company_id: companyId,
       matrix_id: matrixId,
     });
@@ -47,10 +47,8 @@ import type {
   Position,
 } from "../orgchart.types";
 import { getAppointmentPermissions } from "../orgchart.types";
-import {
-  CompanyMembersService,
-  type CompanyMember,
-} from "@/modules/company/company-members-service";
+import { CompanyMembersService } from "@/modules/company/company-members-service";
+import type { CompanyMember } from "@/modules/company/company.types";
 import { useCompany } from "@/lib/company-context";
 import { cn } from "@/lib/utils";
 
@@ -37,7 +37,7 @@ import {
 } from "@/lib/ui/popover";
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from "@/lib/ui/tooltip";
 import { cn } from "@/lib/utils";
-import type { Position, OrgChartStatus, SalaryFrequency } from "../orgchart.types";
+import type { OrgChartNode, Position, OrgChartStatus, SalaryFrequency } from "../orgchart.types";
 import { getPositionPermissions } from "../orgchart.types";
 import { OrgChartService } from "../orgchart-service";
 import { useCompany } from "@/lib/company-context";
@@ -84,7 +84,7 @@ export function PositionCard({
 
   const [isEditing, setIsEditing] = useState(mode === "create" || mode === "edit");
   const [isSaving, setIsSaving] = useState(false);
-  const [availablePositions, setAvailablePositions] = useState<Position[]>([]);
+  const [availablePositions, setAvailablePositions] = useState<OrgChartNode[]>([]);
   const [positionSelectOpen, setPositionSelectOpen] = useState(false);
 
   const [formData, setFormData] = useState({
@@ -106,7 +106,7 @@ export function PositionCard({
   const hasChanges = JSON.stringify(formData) !== JSON.stringify(originalData);
 
   const selectedReportsToPosition = availablePositions.find(
-    (p) => p._id?.split(":").pop() === formData.reportsToPositionId
+    (p) => p.id === formData.reportsToPositionId
   );
 
   useEffect(() => {
@@ -120,10 +120,9 @@ export function PositionCard({
 
     try {
       const hierarchy = await OrgChartService.getOrgChartHierarchy(activeCompany._id, position.orgChartId);
-      const positions = hierarchy
-        .filter((row) => row.type === "position" && row._id !== position._id)
-        .map((row) => row.original as Position);
-      setAvailablePositions(positions);
+      setAvailablePositions(
+        hierarchy.filter((row) => row.type === "position" && row.id !== position.id)
+      );
     } catch (e) {
       console.error("Failed to load positions", e);
     }
@@ -272,7 +271,7 @@ export function PositionCard({
                       <CommandEmpty>No position found.</CommandEmpty>
                       <CommandGroup>
                         {availablePositions.map((pos) => {
-                          const id = pos._id?.split(":").pop();
+                          const id = pos.id;
                           return (
                             <CommandItem
                               key={id}
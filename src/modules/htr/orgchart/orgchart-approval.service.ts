@@ -5,6 +5,7 @@
  */
 
 import type { ApprovalTask, ApprovalWorkflow } from "@/modules/shared/types/database.types";
+import { getApiHeaders, toApiError } from "@/lib/api";
 
 // Re-export types for backward compatibility
 export type { ApprovalTask, ApprovalWorkflow };
@@ -17,14 +18,13 @@ const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
 async function callFunction(functionName: string, params: Record<string, any> = {}) {
   const response = await fetch(`${API_URL}/api/${functionName}`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: getApiHeaders(),
     credentials: "include",
     body: JSON.stringify(params),
   });
 
   if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error || `Failed to call ${functionName}`);
+    throw await toApiError(response, `Failed to call ${functionName}`);
   }
 
   return response.json();
@@ -5,15 +5,106 @@
  * This service just calls Hono API which executes SQL functions
  */
 
-import { callFunction } from "@/lib/api";
+import { batchRef, callBatch } from "@/lib/api";
+import { rpc } from "@/lib/rpc.generated";
 import type {
-  OrgChart,
+  AppointmentData,
+  AppointmentEndReason,
+  AppointmentHistory,
+  CreatedAppointment,
+  CreatedDepartment,
+  CreatedOrgChart,
+  CreatedPosition,
   Department,
+  DirectReport,
+  OrgChartNode,
+  OrgChartStatus,
+  OrgChartSummary,
   Position,
+  ReportingChainLink,
+  TransferredAppointment,
+  UpdatedNode,
 } from "./orgchart.types";
 
-// TODO: OrgChartNode type should be exported from orgchart.types.ts
-type OrgChartNode = OrgChart | Department | Position | any;
+interface DepartmentInput {
+  orgChartId: string;
+  title: string;
+  description?: string;
+  code?: string;
+  headcount?: number;
+  charter?: {
+    mission?: string;
+    objectives?: string[];
+    responsibilities?: string[];
+    kpis?: string[];
+  };
+  parentDepartmentId?: string;
+}
+
+interface PositionInput {
+  orgChartId: string;
+  departmentId: string;
+  title: string;
+  description?: string;
+  salaryMin?: number;
+  salaryMax?: number;
+  salaryCurrency?: string;
+  salaryFrequency?: string;
+  jobDescription?: {
+    summary?: string;
+    responsibilities?: string[];
+    requirements?: string[];
+    qualifications?: string[];
+    benefits?: string[];
+  };
+}
+
+/**
+ * Parameters for orgchart.create_department
+ */
+function departmentParams(companyId: string, userId: string, data: DepartmentInput) {
+  return {
+    company_id: companyId,
+    user_id: userId,
+    parent_id: data.parentDepartmentId || data.orgChartId, // Use orgChartId if no parent
+    title: data.title,
+    description: data.description,
+    code: data.code,
+    headcount: data.headcount,
+    charter_mission: data.charter?.mission,
+    charter_objectives: data.charter?.objectives,
+    charter_responsibilities: data.charter?.responsibilities,
+    charter_kpis: data.charter?.kpis,
+  };
+}
+
+/**
+ * Parameters for orgchart.create_position
+ * parentId may be a batch reference when the parent is created in the same batch
+ */
+function positionParams<P extends string | { $ref: string }>(
+  companyId: string,
+  userId: string,
+  parentId: P,
+  data: Omit<PositionInput, "departmentId">
+) {
+  return {
+    company_id: companyId,
+    user_id: userId,
+    parent_id: parentId,
+    title: data.title,
+    description: data.description,
+    salary_min: data.salaryMin,
+    salary_max: data.salaryMax,
+    salary_currency: data.salaryCurrency || 'USD',
+    salary_frequency: data.salaryFrequency || 'annual',
+    job_summary: data.jobDescription?.summary,
+    job_responsibilities: data.jobDescription?.responsibilities,
+    job_requirements: data.jobDescription?.requirements,
+    job_qualifications: data.jobDescription?.qualifications,
+    job_benefits: data.jobDescription?.benefits,
+  };
+}
 
 export class OrgChartService {
   /**
@@ -27,10 +118,10 @@ export class OrgChartService {
       description?: string;
       code?: string;
       version?: string;
-      status?: 'draft' | 'pending_approval' | 'approved' | 'revoked';
+      status?: OrgChartStatus;
     }
-  ): Promise<OrgChart> {
-    return callFunction("orgchart.create_orgchart", {
+  ): Promise<CreatedOrgChart> {
+    return rpc.orgchart.create_orgchart({
       company_id: companyId,
       user_id: userId,
       title: data.title,
@@ -47,34 +138,9 @@ export class OrgChartService {
   static async createDepartment(
     companyId: string,
     userId: string,
-    data: {
-      orgChartId: string;
-      title: string;
-      description?: string;
-      code?: string;
-      headcount?: number;
-      charter?: {
-        mission?: string;
-        objectives?: string[];
-        responsibilities?: string[];
-        kpis?: string[];
-      };
-      parentDepartmentId?: string;
-    }
-  ): Promise<{ department: Department; headPosition: Position }> {
-    return callFunction("orgchart.create_department", {
-      company_id: companyId,
-      user_id: userId,
-      parent_id: data.parentDepartmentId || data.orgChartId, // Use orgChartId if no parent
-      title: data.title,
-      description: data.description,
-      code: data.code,
-      headcount: data.headcount,
-      charter_mission: data.charter?.mission,
-      charter_objectives: data.charter?.objectives,
-      charter_responsibilities: data.charter?.responsibilities,
-      charter_kpis: data.charter?.kpis,
-    });
+    data: DepartmentInput
+  ): Promise<CreatedDepartment> {
+    return rpc.orgchart.create_department(departmentParams(companyId, userId, data));
   }
 
   /**
@@ -83,40 +149,34 @@ export class OrgChartService {
   static async createPosition(
     companyId: string,
     userId: string,
-    data: {
-      orgChartId: string;
-      departmentId: string;
-      title: string;
-      description?: string;
-      salaryMin?: number;
-      salaryMax?: number;
-      salaryCurrency?: string;
-      salaryFrequency?: string;
-      jobDescription?: {
-        summary?: string;
-        responsibilities?: string[];
-        requirements?: string[];
-        qualifications?: string[];
-        benefits?: string[];
-      };
-    }
-  ): Promise<Position> {
-    return callFunction("orgchart.create_position", {
-      company_id: companyId,
-      user_id: userId,
-      parent_id: data.departmentId,
-      title: data.title,
-      description: data.description,
-      salary_min: data.salaryMin,
-      salary_max: data.salaryMax,
-      salary_currency: data.salaryCurrency || 'USD',
-      salary_frequency: data.salaryFrequency || 'annual',
-      job_summary: data.jobDescription?.summary,
-      job_responsibilities: data.jobDescription?.responsibilities,
-      job_requirements: data.jobDescription?.requirements,
-      job_qualifications: data.jobDescription?.qualifications,
-      job_benefits: data.jobDescription?.benefits,
-    });
+    data: PositionInput
+  ): Promise<CreatedPosition> {
+    return rpc.orgchart.create_position(positionParams(companyId, userId, data.departmentId, data));
+  }
+
+  /**
+   * Duplicate department together with its positions
+   * Runs as one batch: if any position fails, the copied department is rolled back too
+   */
+  static async duplicateDepartment(
+    companyId: string,
+    userId: string,
+    department: DepartmentInput,
+    positions: Omit<PositionInput, "departmentId">[]
+  ): Promise<CreatedDepartment> {
+    const [result] = await callBatch([
+      {
+        id: "department",
+        fn: "orgchart.create_department",
+        params: departmentParams(companyId, userId, department),
+      },
+      ...positions.map((position) => ({
+        fn: "orgchart.create_position",
+        params: positionParams(companyId, userId, batchRef("department.department.id"), position),
+      })),
+    ]);
+
+    return result;
   }
 
   /**
@@ -138,8 +198,8 @@ export class OrgChartService {
         conditions?: string[];
       };
     }
-  ): Promise<any> {
-    return callFunction("orgchart.create_appointment", {
+  ): Promise<CreatedAppointment> {
+    return rpc.orgchart.create_appointment({
       company_id: companyId,
       acting_user_id: actingUserId,
       position_id: data.positionId,
@@ -161,9 +221,9 @@ export class OrgChartService {
     companyId: string,
     actingUserId: string,
     positionId: string,
-    endReason: 'resigned' | 'terminated' | 'transferred' | 'promoted' | 'reorganization' = 'resigned'
+    endReason: AppointmentEndReason = 'resigned'
   ): Promise<void> {
-    await callFunction("orgchart.remove_appointment", {
+    await rpc.orgchart.remove_appointment({
       company_id: companyId,
       acting_user_id: actingUserId,
       position_id: positionId,
@@ -178,11 +238,10 @@ export class OrgChartService {
     companyId: string,
     orgchartId: string
   ): Promise<OrgChartNode[]> {
-    const result = await callFunction("orgchart.get_tree", {
+    return rpc.orgchart.get_tree({
       company_id: companyId,
       orgchart_id: orgchartId,
     });
-    return result as OrgChartNode[];
   }
 
   /**
@@ -205,8 +264,8 @@ export class OrgChartService {
       jobDescription?: string;
       reportsToPositionId?: string;
     }
-  ): Promise<any> {
-    return callFunction("orgchart.update_node", {
+  ): Promise<UpdatedNode> {
+    return rpc.orgchart.update_node({
       node_id: nodeId,
       title: data.title,
       description: data.description,
@@ -231,7 +290,7 @@ export class OrgChartService {
     orgchartId: string,
     title: string,
     description?: string
-  ): Promise<any> {
+  ): Promise<UpdatedNode> {
     return this.updateNode(orgchartId, { title, description });
   }
 
@@ -239,7 +298,7 @@ export class OrgChartService {
    * Delete node (with optional cascade)
    */
   static async deleteNode(nodeId: string, cascade: boolean = false): Promise<void> {
-    await callFunction("orgchart.delete_node", {
+    await rpc.orgchart.delete_node({
       node_id: nodeId,
       cascade: cascade,
     });
@@ -248,11 +307,10 @@ export class OrgChartService {
   /**
    * Get all orgcharts for company
    */
-  static async getAllOrgCharts(companyId: string): Promise<OrgChart[]> {
-    const result = await callFunction("orgchart.get_all_orgcharts", {
+  static async getAllOrgCharts(companyId: string): Promise<OrgChartSummary[]> {
+    return rpc.orgchart.get_all_orgcharts({
       company_id: companyId,
     });
-    return result as OrgChart[];
   }
 
   /**
@@ -260,9 +318,9 @@ export class OrgChartService {
    */
   static async updateStatus(
     orgchartId: string,
-    status: 'draft' | 'pending_approval' | 'approved' | 'revoked'
+    status: OrgChartStatus
   ): Promise<void> {
-    await callFunction("orgchart.update_status", {
+    await rpc.orgchart.update_status({
       orgchart_id: orgchartId,
       status: status,
     });
@@ -274,9 +332,9 @@ export class OrgChartService {
   static async getOrgChartById(
     companyId: string,
     orgchartId: string
-  ): Promise<OrgChart | null> {
+  ): Promise<OrgChartNode | null> {
     const tree = await this.getOrgChartTree(companyId, orgchartId);
-    return tree.find(node => node.id === orgchartId) as OrgChart || null;
+    return tree.find(node => node.id === orgchartId) || null;
   }
 
   /**
@@ -285,9 +343,9 @@ export class OrgChartService {
   static async getDepartments(
     companyId: string,
     orgchartId: string
-  ): Promise<Department[]> {
+  ): Promise<OrgChartNode[]> {
     const tree = await this.getOrgChartTree(companyId, orgchartId);
-    return tree.filter(node => node.type === 'department') as Department[];
+    return tree.filter(node => node.type === 'department');
   }
 
   /**
@@ -297,24 +355,39 @@ export class OrgChartService {
     companyId: string,
     orgchartId: string,
     departmentId: string
-  ): Promise<Position[]> {
+  ): Promise<OrgChartNode[]> {
     const tree = await this.getOrgChartTree(companyId, orgchartId);
     return tree.filter(
       node => node.type === 'position' && node.parentId === departmentId
-    ) as Position[];
+    );
+  }
+
+  /**
+   * Get vacant positions of the company's current (not revoked) orgcharts
+   */
+  static async getVacantPositions(companyId: string): Promise<OrgChartNode[]> {
+    const orgCharts = await this.getAllOrgCharts(companyId);
+    const trees = await Promise.all(
+      orgCharts
+        .filter((orgChart) => orgChart.status !== "revoked")
+        .map((orgChart) => this.getOrgChartTree(companyId, orgChart.id))
+    );
+    return trees
+      .flat()
+      .filter((node) => node.type === "position" && node.isVacant);
   }
 
   /**
    * Get all orgcharts for company
    */
-  static async getCompanyOrgCharts(companyId: string): Promise<OrgChart[]> {
+  static async getCompanyOrgCharts(companyId: string): Promise<OrgChartSummary[]> {
     return this.getAllOrgCharts(companyId);
   }
 
   /**
    * Get orgchart hierarchy (tree structure)
    */
-  static async getOrgChartHierarchy(companyId: string, orgChartId: string): Promise<any[]> {
+  static async getOrgChartHierarchy(companyId: string, orgChartId: string): Promise<OrgChartNode[]> {
     return this.getOrgChartTree(companyId, orgChartId);
   }
 
@@ -340,7 +413,7 @@ export class OrgChartService {
     positionId: string,
     _userId: string,
     data: Partial<Position>
-  ): Promise<Position> {
+  ): Promise<UpdatedNode> {
     // Convert Position fields to updateNode format
     const updateData: any = {
       title: data.title,
@@ -361,8 +434,7 @@ export class OrgChartService {
       updateData.jobDescription = JSON.stringify(data.jobDescription);
     }
 
-    const result = await this.updateNode(positionId, updateData);
-    return result as Position;
+    return this.updateNode(positionId, updateData);
   }
 
   /**
@@ -403,8 +475,8 @@ export class OrgChartService {
   /**
    * Duplicate orgchart
    */
-  static async duplicateOrgChart(companyId: string, orgChartId: string, _userId: string, newTitle?: string): Promise<OrgChart> {
-    return callFunction("orgchart.duplicate_orgchart", {
+  static async duplicateOrgChart(companyId: string, orgChartId: string, _userId: string, newTitle?: string): Promise<CreatedOrgChart> {
+    return rpc.orgchart.duplicate_orgchart({
       company_id: companyId,
       orgchart_id: orgChartId,
       new_title: newTitle,
@@ -427,31 +499,28 @@ export class OrgChartService {
   /**
    * Get appointment history for a position
    */
-  static async getAppointmentHistory(positionId: string): Promise<any[]> {
-    const result = await callFunction("orgchart.get_appointment_history", {
+  static async getAppointmentHistory(positionId: string): Promise<AppointmentHistory[]> {
+    return rpc.orgchart.get_appointment_history({
       position_id: positionId,
     });
-    return result as any[];
   }
 
   /**
    * Get direct reports for a position (hierarchical reporting)
    */
-  static async getDirectReports(positionId: string): Promise<any[]> {
-    const result = await callFunction("orgchart.get_direct_reports", {
+  static async getDirectReports(positionId: string): Promise<DirectReport[]> {
+    return rpc.orgchart.get_direct_reports({
       position_id: positionId,
     });
-    return result as any[];
   }
 
   /**
    * Get reporting chain from position to top (position -> manager -> director -> ...)
    */
-  static async getReportingChain(positionId: string): Promise<any[]> {
-    const result = await callFunction("orgchart.get_reporting_chain", {
+  static async getReportingChain(positionId: string): Promise<ReportingChainLink[]> {
+    return rpc.orgchart.get_reporting_chain({
       position_id: positionId,
     });
-    return result as any[];
   }
 
   /**
@@ -472,8 +541,8 @@ export class OrgChartService {
         conditions?: string[];
       };
     }
-  ): Promise<any> {
-    return callFunction("orgchart.transfer_appointment", {
+  ): Promise<TransferredAppointment> {
+    return rpc.orgchart.transfer_appointment({
       company_id: companyId,
       acting_user_id: actingUserId,
       from_position_id: data.fromPositionId,
@@ -502,8 +571,8 @@ export class OrgChartService {
       benefits?: string[];
       conditions?: string[];
     }
-  ): Promise<any> {
-    return callFunction("orgchart.update_job_offer", {
+  ): Promise<{ success: boolean; message: string; appointmentData: AppointmentData }> {
+    return rpc.orgchart.update_job_offer({
       company_id: companyId,
       acting_user_id: actingUserId,
       position_id: positionId,
@@ -176,42 +176,185 @@ export interface Appointment extends BaseOrgDocument {
   sortOrder: number;
 }
 
+// ============================================================================
+// Appointment Data (appointment_data of a filled position)
+// ============================================================================
+
+export interface JobOfferData {
+  salary?: number | null;
+  start_date?: number | null;
+  benefits?: string[];
+  conditions?: string[];
+}
+
+export interface AppointmentData {
+  user_id: string;
+  fullname: string;
+  email: string;
+  appointed_at: number;
+  reports_to_position_id: string | null;
+  job_offer: JobOfferData;
+}
+
 // ============================================================================
 // Appointment History (Historical record of position appointments)
 // ============================================================================
 
 export interface AppointmentHistory {
   id: string;
-  companyId: string;
-  orgChartId: string;
-  positionId: string;
-
-  // Appointment details
-  userId?: string;
+  userId: string | null;
   fullname: string;
   email: string;
+  reportsToPositionId: string | null;
+  jobOfferData: JobOfferData | null;
+  appointedAt: number;
+  endedAt: number | null;
+  endReason: AppointmentEndReason | null;
+  createdAt: number;
+}
 
-  // Reporting relationship
-  reportsToPositionId?: string;
+// ============================================================================
+// Function Results (orgchart.* PostgreSQL functions)
+// ============================================================================
 
-  // Job offer details
-  jobOfferData?: {
-    salary?: number;
-    startDate?: number;
-    benefits?: string[];
-    conditions?: string[];
-  };
+/**
+ * Row of orgchart.get_tree: the orgchart and every node under it
+ */
+export interface OrgChartNode {
+  id: string;
+  _id: string;
+  companyId: string;
+  type: "orgchart" | "department" | "position" | "division" | "unit";
+  title: string;
+  description: string | null;
+  code: string | null;
+  version: string | null;
+  status: OrgChartStatus | null;
+  parentId: string | null;
+  headPositionId: string | null;
+  headcount: number | null;
+  headcountFilled: number | null;
+  headcountUnfilled: number | null;
+  charter: string | null;
+  salaryMin: number | null;
+  salaryMax: number | null;
+  jobDescription: string | null;
+  appointeeUserId: string | null;
+  appointeeFullname: string | null;
+  appointeeEmail: string | null;
+  isVacant: boolean | null;
+  appointedAt: number | null;
+  level: number;
+  sortOrder: number;
+  /** Ids from the orgchart down to this node */
+  path: string[];
+  hasChildren: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
 
-  // Lifecycle
-  appointedAt: number;
-  endedAt?: number;
-  endReason?: AppointmentEndReason;
+/**
+ * Orgchart as listed by orgchart.get_all_orgcharts
+ */
+export interface OrgChartSummary {
+  id: string;
+  title: string;
+  description: string | null;
+  code: string | null;
+  version: string | null;
+  status: OrgChartStatus;
+  createdAt: number;
+  updatedAt: number;
+}
 
-  // Metadata
+/**
+ * Orgchart returned by orgchart.create_orgchart and orgchart.duplicate_orgchart
+ */
+export interface CreatedOrgChart extends OrgChartSummary {
+  companyId: string;
+  type: "orgchart";
+  level: number;
+  sortOrder: number;
+}
+
+export interface CreatedDepartment {
+  department: {
+    id: string;
+    companyId: string;
+    type: "department";
+    title: string;
+    parentId: string;
+    headPositionId: string;
+    headcount: number | null;
+    headcountFilled: number;
+    headcountUnfilled: number;
+    charterData: Department["charter"] | null;
+    level: number;
+    sortOrder: number;
+    createdAt: number;
+    updatedAt: number;
+  };
+  headPosition: { id: string; title: string; isVacant: boolean };
+}
+
+export interface CreatedPosition {
+  id: string;
+  companyId: string;
+  type: "position";
+  title: string;
+  parentId: string;
+  compensationData: { salary_min: number | null; salary_max: number | null; currency: string; frequency: SalaryFrequency };
+  jobDescriptionData: Position["jobDescription"] | null;
+  isVacant: boolean;
+  level: number;
+  sortOrder: number;
   createdAt: number;
   updatedAt: number;
 }
 
+export interface CreatedAppointment {
+  id: string;
+  appointmentData: AppointmentData;
+  isVacant: false;
+  historyId: string;
+}
+
+export interface UpdatedNode {
+  id: string;
+  type: OrgChartNode["type"];
+  title: string;
+  description: string | null;
+  updatedAt: number;
+}
+
+export interface DirectReport {
+  id: string;
+  title: string;
+  isVacant: boolean;
+  appointmentData: AppointmentData | null;
+  createdAt: number;
+}
+
+/**
+ * Position of orgchart.get_reporting_chain; depth 1 is the starting position
+ */
+export interface ReportingChainLink {
+  id: string;
+  title: string;
+  type: OrgChartNode["type"];
+  appointmentData: AppointmentData | null;
+  reportsToId: string | null;
+  depth: number;
+}
+
+export interface TransferredAppointment {
+  success: boolean;
+  message: string;
+  fromPositionId: string;
+  toPositionId: string;
+  userId: string;
+}
+
 // ============================================================================
 // Flattened Row for Table Display
 // ============================================================================
@@ -8,7 +8,7 @@ import { useLocation } from "wouter";
 import { useAuth } from "@/lib/auth-context";
 import { useCompany } from "@/lib/company-context";
 import { OrgChartService } from "./orgchart-service";
-import type { OrgChart } from "./orgchart.types";
+import type { OrgChartSummary } from "./orgchart.types";
 import { QTable } from "@/lib/ui/QTable.ui";
 import type { ColumnDef } from "@tanstack/react-table";
 import { Badge } from "@/lib/ui/badge";
@@ -36,7 +36,7 @@ import {
 } from "@/lib/ui/dialog";
 
 // Extended OrgChart type with statistics
-interface OrgChartWithStats extends OrgChart {
+interface OrgChartWithStats extends OrgChartSummary {
   stats?: {
     departments: number;
     positions: number;
@@ -53,7 +53,7 @@ export default function OrgChartListPage() {
   const [orgCharts, setOrgCharts] = useState<OrgChartWithStats[]>([]);
   const [loading, setLoading] = useState(true);
   const [renameDialogOpen, setRenameDialogOpen] = useState(false);
-  const [selectedChart, setSelectedChart] = useState<OrgChart | null>(null);
+  const [selectedChart, setSelectedChart] = useState<OrgChartSummary | null>(null);
   const [renameTitle, setRenameTitle] = useState("");
   const [renameDescription, setRenameDescription] = useState("");
 
@@ -93,10 +93,10 @@ export default function OrgChartListPage() {
                 totalHeadcount,
                 vacancies,
               },
-            } as OrgChartWithStats;
+            };
           } catch (error) {
             console.error(`Failed to load stats for orgchart ${chart.id}:`, error);
-            return chart as OrgChartWithStats;
+            return chart;
           }
         })
       );
@@ -126,11 +126,11 @@ export default function OrgChartListPage() {
     }
   };
 
-  const handleRowClick = (chart: OrgChart) => {
+  const handleRowClick = (chart: OrgChartSummary) => {
     setLocation(`/orgchart/${chart.id}`);
   };
 
-  const handleDuplicate = async (chart: OrgChart, e: React.MouseEvent) => {
+  const handleDuplicate = async (chart: OrgChartSummary, e: React.MouseEvent) => {
     e.stopPropagation();
     if (!activeCompany || !user) return;
 
@@ -143,7 +143,7 @@ export default function OrgChartListPage() {
     }
   };
 
-  const handleDelete = async (chart: OrgChart, e: React.MouseEvent) => {
+  const handleDelete = async (chart: OrgChartSummary, e: React.MouseEvent) => {
     e.stopPropagation();
     if (!activeCompany) return;
 
@@ -166,7 +166,7 @@ export default function OrgChartListPage() {
     }
   };
 
-  const handleSendForApproval = async (chart: OrgChart, e: React.MouseEvent) => {
+  const handleSendForApproval = async (chart: OrgChartSummary, e: React.MouseEvent) => {
     e.stopPropagation();
     if (!activeCompany || !user) return;
 
@@ -188,7 +188,7 @@ export default function OrgChartListPage() {
     }
   };
 
-  const handleOpenRenameDialog = (chart: OrgChart, e: React.MouseEvent) => {
+  const handleOpenRenameDialog = (chart: OrgChartSummary, e: React.MouseEvent) => {
     e.stopPropagation();
     setSelectedChart(chart);
     setRenameTitle(chart.title);
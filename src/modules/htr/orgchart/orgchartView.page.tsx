@@ -333,14 +333,34 @@ export default function OrgChartViewPage() {
       switch (row.type) {
         case "department": {
           const dept = row.original as unknown as Department;
-          await OrgChartService.createDepartment(activeCompany._id, user._id, {
-            orgChartId: id,
-            title: `${dept.title} (Copy)`,
-            description: dept.description || "",
-            code: `${dept.code || ""}-COPY`,
-            headcount: dept.headcount,
-            parentDepartmentId: dept.parentDepartmentId,
-          });
+          const headPositionId = (row.original as unknown as { headPositionId?: string }).headPositionId;
+
+          // Copy the department's own positions (the head position is re-created by SQL)
+          const positions = orgChartRows
+            .filter((r) => r.type === "position" && r.parentId === row.id && r.id !== headPositionId)
+            .map((r) => r.original as unknown as Position);
+
+          await OrgChartService.duplicateDepartment(
+            activeCompany._id,
+            user._id,
+            {
+              orgChartId: id,
+              title: `${dept.title} (Copy)`,
+              description: dept.description || "",
+              code: `${dept.code || ""}-COPY`,
+              headcount: dept.headcount,
+              parentDepartmentId: dept.parentDepartmentId,
+            },
+            positions.map((pos) => ({
+              orgChartId: id,
+              title: pos.title,
+              description: pos.description || "",
+              salaryMin: pos.salaryMin,
+              salaryMax: pos.salaryMax,
+              salaryCurrency: pos.salaryCurrency,
+              salaryFrequency: pos.salaryFrequency,
+            }))
+          );
           toast.success("Department duplicated");
           break;
         }
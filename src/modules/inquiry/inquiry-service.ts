@@ -5,61 +5,8 @@
  * This service just calls Hono API which executes SQL functions
  */
 
-export interface CreateInquiryInput {
-  name: string;
-  email: string;
-  company?: string;
-  phone?: string;
-  message: string;
-  attachments?: Array<{
-    name: string;
-    type: string;
-    size: number;
-    data: string;
-  }>;
-}
-
-export interface Inquiry {
-  _id: string;
-  id?: string;
-  type: string;
-  name: string;
-  email: string;
-  company?: string;
-  phone?: string;
-  message: string;
-  attachments?: Array<{
-    name: string;
-    type: string;
-    size: number;
-    data: string;
-  }>;
-  status: 'pending' | 'in-progress' | 'resolved' | 'closed';
-  response?: string;
-  createdAt: number;
-  updatedAt: number;
-}
-
-const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
-
-/**
- * Helper function to call Postgres functions via Hono API
- */
-async function callFunction(functionName: string, params: Record<string, any> = {}) {
-  const response = await fetch(`${API_URL}/api/${functionName}`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    credentials: "include",
-    body: JSON.stringify(params),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error || `Failed to call ${functionName}`);
-  }
-
-  return response.json();
-}
+import { rpc } from "@/lib/rpc.generated";
+import type { CreateInquiryInput, Inquiry, InquiryPage, InquiryStatistics } from "./inquiry.types";
 
 export class InquiryService {
   /**
@@ -67,7 +14,7 @@ export class InquiryService {
    */
   static async createInquiry(input: CreateInquiryInput): Promise<Inquiry> {
     try {
-      const result = await callFunction("inquiry.create_inquiry", {
+      const result = await rpc.inquiry.create_inquiry({
         name: input.name,
         email: input.email,
         company: input.company,
@@ -76,7 +23,7 @@ export class InquiryService {
         attachments: input.attachments ? JSON.stringify(input.attachments) : '[]',
       });
 
-      return result as Inquiry;
+      return result;
     } catch (error) {
       console.error("Error creating inquiry:", error);
       throw new Error("Failed to create inquiry");
@@ -88,11 +35,11 @@ export class InquiryService {
    */
   static async getInquiry(inquiryId: string): Promise<Inquiry | null> {
     try {
-      const result = await callFunction("inquiry.get_inquiry_by_id", {
+      const result = await rpc.inquiry.get_inquiry_by_id({
         inquiry_id: inquiryId,
       });
 
-      return result as Inquiry | null;
+      return result;
     } catch (error: any) {
       console.error("Error getting inquiry:", error);
       return null;
@@ -108,13 +55,13 @@ export class InquiryService {
     response?: string
   ): Promise<Inquiry> {
     try {
-      const result = await callFunction("inquiry.update_status", {
+      const result = await rpc.inquiry.update_status({
         inquiry_id: inquiryId,
         status: status,
         response: response,
       });
 
-      return result as Inquiry;
+      return result;
     } catch (error) {
       console.error("Error updating inquiry status:", error);
       throw new Error("Failed to update inquiry status");
@@ -128,14 +75,9 @@ export class InquiryService {
     status?: Inquiry["status"],
     limit: number = 50,
     offset: number = 0
-  ): Promise<{
-    inquiries: Inquiry[];
-    total: number;
-    limit: number;
-    offset: number;
-  }> {
+  ): Promise<InquiryPage> {
     try {
-      const result = await callFunction("inquiry.get_all_inquiries", {
+      const result = await rpc.inquiry.get_all_inquiries({
         status: status,
         limit: limit,
         offset: offset,
@@ -153,11 +95,11 @@ export class InquiryService {
    */
   static async getInquiriesByEmail(email: string): Promise<Inquiry[]> {
     try {
-      const result = await callFunction("inquiry.get_inquiries_by_email", {
+      const result = await rpc.inquiry.get_inquiries_by_email({
         email: email,
       });
 
-      return result as Inquiry[];
+      return result;
     } catch (error) {
       console.error("Error getting inquiries by email:", error);
       throw new Error("Failed to get inquiries");
@@ -169,7 +111,7 @@ export class InquiryService {
    */
   static async deleteInquiry(inquiryId: string): Promise<void> {
     try {
-      await callFunction("inquiry.delete_inquiry", {
+      await rpc.inquiry.delete_inquiry({
         inquiry_id: inquiryId,
       });
     } catch (error) {
@@ -181,22 +123,9 @@ export class InquiryService {
   /**
    * Get inquiry statistics (admin)
    */
-  static async getStatistics(): Promise<{
-    total: number;
-    byStatus: {
-      pending: number;
-      inProgress: number;
-      resolved: number;
-      closed: number;
-    };
-    byTime: {
-      today: number;
-      thisWeek: number;
-      thisMonth: number;
-    };
-  }> {
+  static async getStatistics(): Promise<InquiryStatistics> {
     try {
-      const result = await callFunction("inquiry.get_statistics");
+      const result = await rpc.inquiry.get_statistics();
       return result;
     } catch (error) {
       console.error("Error getting statistics:", error);
@@ -0,0 +1,61 @@
+/**
+ * Inquiry Types
+ * Contact form inquiries as returned by the inquiry.* functions
+ */
+
+export interface CreateInquiryInput {
+  name: string;
+  email: string;
+  company?: string;
+  phone?: string;
+  message: string;
+  attachments?: Array<{
+    name: string;
+    type: string;
+    size: number;
+    data: string;
+  }>;
+}
+
+export interface Inquiry {
+  _id: string;
+  id?: string;
+  type: string;
+  name: string;
+  email: string;
+  company?: string;
+  phone?: string;
+  message: string;
+  attachments?: Array<{
+    name: string;
+    type: string;
+    size: number;
+    data: string;
+  }>;
+  status: 'pending' | 'in-progress' | 'resolved' | 'closed';
+  response?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface InquiryPage {
+  inquiries: Inquiry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface InquiryStatistics {
+  total: number;
+  byStatus: {
+    pending: number;
+    inProgress: number;
+    resolved: number;
+    closed: number;
+  };
+  byTime: {
+    today: number;
+    thisWeek: number;
+    thisMonth: number;
+  };
+}
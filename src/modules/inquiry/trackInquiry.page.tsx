@@ -21,7 +21,8 @@ import {
 } from "@/lib/ui/card";
 import { Badge } from "@/lib/ui/badge";
 import { toast } from "sonner";
-import { InquiryService, type Inquiry } from "./inquiry-service";
+import { InquiryService } from "./inquiry-service";
+import type { Inquiry } from "./inquiry.types";
 import { Search, FileDown, ArrowLeft } from "lucide-react";
 import { Link, useLocation } from "wouter";
 
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { PermissionGuard } from './PermissionGuard';
+import { useCompanyStore } from '@/modules/shared/stores/company.store';
+
+describe('PermissionGuard', () => {
+  beforeEach(() => {
+    useCompanyStore.setState({ permissions: ['audit.read', 'doa.read'], permissionsLoaded: true });
+  });
+
+  it('renders children with the permission and the fallback without it', () => {
+    const { rerender } = render(
+      <PermissionGuard permission="audit.read" fallback={<p>Denied</p>}>
+        <p>Audit</p>
+      </PermissionGuard>
+    );
+    expect(screen.getByText('Audit')).toBeInTheDocument();
+
+    rerender(
+      <PermissionGuard permission="company.update" fallback={<p>Denied</p>}>
+        <p>Settings</p>
+      </PermissionGuard>
+    );
+    expect(screen.getByText('Denied')).toBeInTheDocument();
+    expect(screen.queryByText('Settings')).not.toBeInTheDocument();
+  });
+
+  it('accepts any of several permissions', () => {
+    render(
+      <PermissionGuard anyOf={['company.update', 'doa.read']}>
+        <p>Matrix</p>
+      </PermissionGuard>
+    );
+    expect(screen.getByText('Matrix')).toBeInTheDocument();
+  });
+
+  it('renders nothing until the permissions are loaded', () => {
+    useCompanyStore.setState({ permissions: [], permissionsLoaded: false });
+
+    const { container } = render(
+      <PermissionGuard permission="audit.read" fallback={<p>Denied</p>}>
+        <p>Audit</p>
+      </PermissionGuard>
+    );
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,34 @@
+import type { ReactNode } from "react";
+import { useCompanyStore } from "@/modules/shared/stores/company.store";
+import { useAnyPermission, usePermission } from "@/modules/shared/hooks/usePermission";
+
+interface PermissionGuardProps {
+  /** Permission required in the active company */
+  permission?: string;
+  /** At least one of these is required */
+  anyOf?: string[];
+  /** Rendered without the permission (nothing by default) */
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+/**
+ * Render children only when the user has the permission in the active
+ * company. Renders nothing while the permissions are still loading, so the
+ * fallback does not flash on a company switch.
+ */
+export function PermissionGuard({
+  permission,
+  anyOf = [],
+  fallback = null,
+  children,
+}: PermissionGuardProps) {
+  const loaded = useCompanyStore((state) => state.permissionsLoaded);
+  const hasPermission = usePermission(permission ?? "");
+  const hasAny = useAnyPermission(anyOf);
+
+  if (!loaded) return null;
+
+  const allowed = (!permission || hasPermission) && (anyOf.length === 0 || hasAny);
+  return <>{allowed ? children : fallback}</>;
+}
@@ -0,0 +1,18 @@
+import { useCompanyStore } from "@/modules/shared/stores/company.store";
+
+/**
+ * Whether the user has a permission in the active company.
+ * False until the permissions are loaded (see company.store).
+ */
+export function usePermission(permission: string): boolean {
+  return useCompanyStore((state) => state.permissions.includes(permission));
+}
+
+/**
+ * Whether the user has at least one of the permissions in the active company
+ */
+export function useAnyPermission(permissions: string[]): boolean {
+  return useCompanyStore((state) =>
+    permissions.some((permission) => state.permissions.includes(permission))
+  );
+}
@@ -1,120 +1,121 @@
 import { create } from "zustand";
-import { persist } from "zustand/middleware";
-import { AuthService } from "@/modules/auth/auth-service";
+import { AuthService, type Impersonation } from "@/modules/auth/auth-service";
 import type { User } from "@/modules/shared/types/database.types";
 
+/**
+ * The session token lives in an HttpOnly cookie set by the gateway:
+ * the store never sees it and nothing token-related is persisted.
+ * On startup the session is restored by asking the server (verify_session).
+ *
+ * twoFactorSetupRequired: a company of the user enforces 2FA and it is not
+ * enabled yet - the gateway only allows the 2FA setup calls until it is.
+ * passwordChangeRequired: the password is older than the company allows -
+ * the gateway only allows changing it.
+ * impersonation: an owner is viewing the app as this user (verify_session).
+ */
+export interface SessionRestrictions {
+  twoFactorSetupRequired?: boolean;
+  passwordChangeRequired?: boolean;
+}
+
 interface AuthState {
   user: Omit<User, "password" | "verificationCode" | "resetToken"> | null;
-  session: { token: string; expiresAt: number } | null;
+  session: { expiresAt: number } | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  twoFactorSetupRequired: boolean;
+  passwordChangeRequired: boolean;
+  impersonation: Impersonation | null;
 
   // Actions
-  login: (user: any, session: { token: string; expiresAt: number }) => void;
+  login: (user: any, session: { expiresAt: number }, restrictions?: SessionRestrictions) => void;
   logout: () => Promise<void>;
   refreshAuth: () => Promise<void>;
   initialize: () => Promise<void>;
 }
 
-export const useAuthStore = create<AuthState>()(
-  persist(
-    (set, get) => ({
+export const useAuthStore = create<AuthState>()((set, get) => ({
+  user: null,
+  session: null,
+  isAuthenticated: false,
+  isLoading: true,
+  twoFactorSetupRequired: false,
+  passwordChangeRequired: false,
+  impersonation: null,
+
+  login: (user, session, restrictions = {}) => {
+    localStorage.setItem("userId", user._id);
+    set({
+      user,
+      session: { expiresAt: session.expiresAt },
+      isAuthenticated: true,
+      isLoading: false,
+      twoFactorSetupRequired: restrictions.twoFactorSetupRequired === true,
+      passwordChangeRequired: restrictions.passwordChangeRequired === true,
+      impersonation: null,
+    });
+  },
+
+  logout: async () => {
+    try {
+      // Ends the session and clears the cookie
+      await AuthService.signOut();
+    } catch (error) {
+      console.error("Error signing out:", error);
+    }
+    localStorage.removeItem("userId");
+    localStorage.removeItem("ankey_active_company_id");
+    set({
       user: null,
       session: null,
       isAuthenticated: false,
-      isLoading: true,
+      isLoading: false,
+      twoFactorSetupRequired: false,
+      passwordChangeRequired: false,
+      impersonation: null,
+    });
+  },
 
-      login: (user, session) => {
-        localStorage.setItem("sessionToken", session.token);
-        localStorage.setItem("userId", user._id);
-        set({
-          user,
-          session,
-          isAuthenticated: true,
-          isLoading: false,
-        });
-      },
+  refreshAuth: async () => {
+    try {
+      const result = await AuthService.verifySession();
 
-      logout: async () => {
-        const { session } = get();
-        if (session) {
-          try {
-            await AuthService.signOut(session.token);
-          } catch (error) {
-            console.error("Error signing out:", error);
-          }
-        }
-        localStorage.removeItem("sessionToken");
-        localStorage.removeItem("userId");
-        localStorage.removeItem("ankey_active_company_id");
-        set({
-          user: null,
-          session: null,
-          isAuthenticated: false,
-          isLoading: false,
-        });
-      },
+      localStorage.setItem("userId", result.user._id);
 
-      refreshAuth: async () => {
-        let token = localStorage.getItem("sessionToken");
-
-        // If no token in localStorage, try to get it from persisted Zustand state
-        if (!token) {
-          const { session } = get();
-          if (session?.token) {
-            token = session.token;
-            // Restore to localStorage for CompanyProvider compatibility
-            localStorage.setItem("sessionToken", token);
-          }
-        }
-
-        if (!token) {
-          set({ isLoading: false, isAuthenticated: false });
-          return;
-        }
-
-        try {
-          const result = await AuthService.verifySession(token);
-
-          // Ensure localStorage is in sync
-          localStorage.setItem("sessionToken", result.session.token);
-          localStorage.setItem("userId", result.user._id);
+      set({
+        user: result.user,
+        session: result.session,
+        isAuthenticated: true,
+        isLoading: false,
+        twoFactorSetupRequired: result.twoFactorSetupRequired === true,
+        passwordChangeRequired: result.passwordChangeRequired === true,
+        impersonation: result.impersonation ?? null,
+      });
+    } catch (error) {
+      // No session cookie, or the session expired
+      localStorage.removeItem("userId");
+      set({
+        user: null,
+        session: null,
+        isAuthenticated: false,
+        isLoading: false,
+        twoFactorSetupRequired: false,
+        passwordChangeRequired: false,
+        impersonation: null,
+      });
+    }
+  },
 
-          set({
-            user: result.user,
-            session: result.session,
-            isAuthenticated: true,
-            isLoading: false,
-          });
-        } catch (error) {
-          console.error("Session verification failed:", error);
-          localStorage.removeItem("sessionToken");
-          localStorage.removeItem("userId");
-          set({
-            user: null,
-            session: null,
-            isAuthenticated: false,
-            isLoading: false,
-          });
-        }
-      },
+  initialize: async () => {
+    // Tokens stored by earlier versions
+    localStorage.removeItem("sessionToken");
+    localStorage.removeItem("auth-storage");
 
-      initialize: async () => {
-        try {
-          // Check for existing session (PostgreSQL handles all data persistence)
-          await get().refreshAuth();
-        } catch (error) {
-          console.error("Failed to initialize auth:", error);
-          set({ isLoading: false });
-        }
-      },
-    }),
-    {
-      name: "auth-storage",
-      partialize: (state) => ({
-        // Only persist session token (user data will be refreshed)
-        session: state.session,
-      }),
+    try {
+      await get().refreshAuth();
+    } catch (error) {
+      console.error("Failed to initialize auth:", error);
+      set({ isLoading: false });
     }
-  )
-);
+  },
+}));
@@ -1,4 +1,5 @@
 import { create } from "zustand";
+import { AuthService } from "@/modules/auth/auth-service";
 
 export interface Company {
   id: string;
@@ -10,14 +11,55 @@ interface CompanyState {
   activeCompany: Company | null;
   companies: Company[];
 
+  /**
+   * Effective permissions of the user in the active company
+   * (rbac.get_user_permissions: base role, custom role and overrides).
+   * Loaded by CompanyProvider on every company switch; the server still
+   * checks every call, this only decides what the UI shows.
+   */
+  permissions: string[];
+  /** False until the permissions of the active company are known */
+  permissionsLoaded: boolean;
+
   setActiveCompany: (company: Company | null) => void;
   setCompanies: (companies: Company[]) => void;
+  loadPermissions: (userId: string, companyId: string) => Promise<void>;
+  clearPermissions: () => void;
 }
 
-export const useCompanyStore = create<CompanyState>()((set) => ({
-  activeCompany: null,
-  companies: [],
+export const useCompanyStore = create<CompanyState>()((set) => {
+  // Company of the latest load: an older response must not win a quick switch
+  let loadingCompanyId: string | null = null;
+
+  return {
+    activeCompany: null,
+    companies: [],
+    permissions: [],
+    permissionsLoaded: false,
+
+    setActiveCompany: (company) => set({ activeCompany: company }),
+    setCompanies: (companies) => set({ companies }),
+
+    loadPermissions: async (userId, companyId) => {
+      loadingCompanyId = companyId;
+      set({ permissions: [], permissionsLoaded: false });
+
+      let permissions: string[] = [];
+      try {
+        const result = await AuthService.getUserPermissions(userId, companyId);
+        permissions = (result.permissions || []).map((permission: { name: string }) => permission.name);
+      } catch (error) {
+        console.error("Failed to load permissions:", error);
+      }
+
+      if (loadingCompanyId === companyId) {
+        set({ permissions, permissionsLoaded: true });
+      }
+    },
 
-  setActiveCompany: (company) => set({ activeCompany: company }),
-  setCompanies: (companies) => set({ companies }),
-}));
+    clearPermissions: () => {
+      loadingCompanyId = null;
+      set({ permissions: [], permissionsLoaded: true });
+    },
+  };
+});
@@ -129,6 +129,17 @@ export interface Company {
     twoFactorRequired?: boolean;
     twoFactorDeadline?: string;
     passwordChangeDays?: number;
+    passwordMinLength?: number;
+    passwordRequireUppercase?: boolean;
+    passwordRequireLowercase?: boolean;
+    passwordRequireNumber?: boolean;
+    passwordRequireSymbol?: boolean;
+    passwordHistory?: number;
+    loginThrottleAfter?: number;
+    lockoutThreshold?: number;
+    lockoutMinutes?: number;
+    magicLinkEnabled?: boolean;
+    highRiskStepUp?: boolean;
   };
   logo?: string;
   description?: string;
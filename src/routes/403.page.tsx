@@ -0,0 +1,22 @@
+import { useLocation } from "wouter";
+import { Button } from "@/lib/ui/button";
+
+export default function AccessDeniedPage() {
+  const [, setLocation] = useLocation();
+
+  return (
+    <div className="container mx-auto px-4 py-20 flex flex-col items-center justify-center min-h-[60vh]">
+      <div className="text-center space-y-6">
+        <h1 className="text-9xl font-bold text-primary">403</h1>
+        <h2 className="text-3xl font-semibold">Access Denied</h2>
+        <p className="text-muted-foreground max-w-md">
+          You don't have permission to view this page in the current company.
+          Ask a company admin if you need access.
+        </p>
+        <div className="flex gap-4 justify-center pt-4">
+          <Button onClick={() => setLocation("/dashboard")}>Go to Dashboard</Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,11 @@ import { useLocation, Link } from "wouter";
 import { useAuth } from "@/lib/auth-context";
 import { useBreadcrumb, BreadcrumbProvider } from "@/lib/breadcrumb-context";
 import { useCompanyOptional } from "@/lib/company-context";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Eye } from "lucide-react";
+import { AuthService } from "@/modules/auth/auth-service";
+import { Button } from "@/lib/ui/button";
 import { AppSidebar } from "@/lib/ui/app-sidebar";
 import {
   Breadcrumb,
@@ -19,6 +23,44 @@ import {
   SidebarTrigger,
 } from "@/lib/ui/sidebar";
 
+/**
+ * Shown on every page while an owner views the app as a member
+ * (auth.start_impersonation). Stopping reloads the app as the owner.
+ */
+function ImpersonationBanner() {
+  const { user, impersonation } = useAuth();
+  const [stopping, setStopping] = useState(false);
+
+  if (!impersonation) return null;
+
+  const handleStop = async () => {
+    try {
+      setStopping(true);
+      const result = await AuthService.stopImpersonation();
+      window.location.assign(result.session ? "/users" : "/auth/signin");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to stop impersonating");
+      setStopping(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4 bg-amber-100 px-4 py-2 text-sm text-amber-900">
+      <div className="flex items-center gap-2">
+        <Eye className="h-4 w-4" />
+        <span>
+          Viewing as <strong>{user?.fullname}</strong> ({user?.email}) - signed in as{" "}
+          {impersonation.impersonator.email}. High-risk actions are disabled. Ends at{" "}
+          {new Date(impersonation.expiresAt).toLocaleTimeString()}.
+        </span>
+      </div>
+      <Button size="sm" variant="outline" onClick={handleStop} disabled={stopping}>
+        Stop impersonating
+      </Button>
+    </div>
+  );
+}
+
 function PrivateLayoutContent({ children }: { children: React.ReactNode }) {
   const { user } = useAuth();
   const { extraCrumbs } = useBreadcrumb();
@@ -111,6 +153,7 @@ function PrivateLayoutContent({ children }: { children: React.ReactNode }) {
         }}
       />
       <SidebarInset>
+        <ImpersonationBanner />
         <header className="flex h-12 shrink-0 items-center gap-2 px-4">
           <SidebarTrigger className="-ml-1" />
           <Separator orientation="vertical" className="mr-2 h-4" />
@@ -146,8 +189,9 @@ export default function PrivateLayout({
 }: {
   children: React.ReactNode;
 }) {
-  const { user, isAuthenticated, isLoading } = useAuth();
-  const [, setLocation] = useLocation();
+  const { user, isAuthenticated, isLoading, twoFactorSetupRequired, passwordChangeRequired } =
+    useAuth();
+  const [location, setLocation] = useLocation();
 
   // Redirect to sign in if not authenticated (after loading completes)
   useEffect(() => {
@@ -156,6 +200,13 @@ export default function PrivateLayout({
     }
   }, [isLoading, isAuthenticated, setLocation]);
 
+  // The company enforces 2FA or the password expired: nothing else works until it is fixed
+  useEffect(() => {
+    if ((twoFactorSetupRequired || passwordChangeRequired) && location !== "/account/security") {
+      setLocation("/account/security");
+    }
+  }, [twoFactorSetupRequired, passwordChangeRequired, location, setLocation]);
+
   // Show loading state while checking authentication
   if (isLoading) {
     return null;
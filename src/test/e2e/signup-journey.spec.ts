@@ -161,9 +161,9 @@ test.describe('Complete Sign Up Journey', () => {
     const userMenu = page.locator('[data-testid="user-menu"], [aria-label="User menu"]');
     await expect(userMenu).toBeVisible({ timeout: 5000 });
 
-    // Verify localStorage has session token
-    const sessionToken = await page.evaluate(() => localStorage.getItem('session-token'));
-    expect(sessionToken).toBeTruthy();
+    // Session token is an HttpOnly cookie, invisible to page scripts
+    expect(await page.evaluate(() => document.cookie)).not.toContain('session_token');
+    expect(await page.evaluate(() => localStorage.getItem('sessionToken'))).toBeNull();
   });
 
   test('should show validation errors for invalid input', async ({ page }) => {
@@ -14,9 +14,13 @@ import {
   insertTestUser,
   getTestUserByEmail,
   getTestSessionByToken,
+  getSessionCookies,
   setTestUserVerificationCode,
   enableTest2FA,
+  generateTestTOTP,
   hashPassword,
+  hashPasswordBcrypt,
+  executeTestQuery,
   generateRandomEmail,
   generateRandomPassword,
   generateRandomFullname,
@@ -25,6 +29,7 @@ import {
   SQL_INJECTION_PAYLOADS,
   MOCK_USERS,
 } from '@/test/utils/mock-data';
+import { startMockOidcIssuer, type MockOidcIssuer } from '@/test/utils/mock-oidc-issuer';
 
 // ============================================
 // SETUP
@@ -64,8 +69,9 @@ describe('POST /api/auth.signup', () => {
     expect(response.body).toMatchObject({
       message: expect.stringContaining('User created successfully'),
       userId: expect.stringMatching(/^user_\d+_/),
-      verificationCode: expect.stringMatching(/^\d{6}$/),
     });
+    // The code is emailed by the server, never returned
+    expect(response.body).not.toHaveProperty('code');
 
     // Verify user was inserted into database
     const user = await getTestUserByEmail(userData.email);
@@ -73,7 +79,7 @@ describe('POST /api/auth.signup', () => {
     expect(user?.email).toBe(userData.email);
     expect(user?.fullname).toBe(userData.fullname);
     expect(user?.verified).toBe(false);
-    expect(user?.verification_code).toBe(response.body.verificationCode);
+    expect(user?.verification_code).toMatch(/^\d{6}$/);
   });
 
   test('should hash password before storage', async () => {
@@ -90,7 +96,8 @@ describe('POST /api/auth.signup', () => {
 
     const user = await getTestUserByEmail(userData.email);
     expect(user?.password).not.toBe(userData.password);
-    expect(user?.password).toMatch(/^[a-f0-9]{64}$/); // SHA-256 hash
+    expect(user?.password).toMatch(/^\$2[aby]\$12\$/); // bcrypt, cost 12
+    expect(user?.password_algo).toBe('bcrypt');
   });
 
   test('should set verified to false initially', async () => {
@@ -121,10 +128,10 @@ describe('POST /api/auth.signup', () => {
       .send(userData)
       .expect(400);
 
-    expect(response.body).toHaveProperty('error');
+    expect(response.body.code).toBe('VALIDATION_FAILED');
   });
 
-  test('should return 400 for duplicate email', async () => {
+  test('should return 409 for duplicate email', async () => {
     const email = generateRandomEmail();
     const password = await hashPassword('SecurePass123');
 
@@ -143,9 +150,11 @@ describe('POST /api/auth.signup', () => {
         password: 'SecurePass123',
         fullname: 'New User',
       })
-      .expect(400);
+      .expect(409);
 
-    expect(response.body.error).toContain('already exists');
+    expect(response.body.code).toBe('CONFLICT');
+    expect(response.body.field).toBe('email');
+    expect(response.body.message).toContain('already exists');
   });
 
   test('should return 400 for missing parameters', async () => {
@@ -157,7 +166,7 @@ describe('POST /api/auth.signup', () => {
       })
       .expect(400);
 
-    expect(response.body).toHaveProperty('error');
+    expect(response.body).toHaveProperty('code');
   });
 
   test('should handle SQL injection attempts safely', async () => {
@@ -182,7 +191,7 @@ describe('POST /api/auth.signup', () => {
 // ============================================
 
 describe('POST /api/auth.signin', () => {
-  test('should return session token for valid credentials', async () => {
+  test('should set the session cookie for valid credentials', async () => {
     const email = generateRandomEmail();
     const password = 'SecurePass123';
     const hashedPassword = await hashPassword(password);
@@ -208,16 +217,90 @@ describe('POST /api/auth.signin', () => {
         verified: true,
       },
       session: {
-        token: expect.any(String),
         expiresAt: expect.any(Number),
       },
     });
 
+    // Token is only in the HttpOnly cookie, never in the body
+    expect(response.body.session.token).toBeUndefined();
+
+    const { token, setCookie } = getSessionCookies(response);
+    expect(setCookie.find((cookie) => cookie.startsWith('session_token='))).toMatch(/HttpOnly/);
+    expect(setCookie.find((cookie) => cookie.startsWith('csrf_token='))).not.toMatch(/HttpOnly/);
+
     // Verify session was created in database
-    const session = await getTestSessionByToken(response.body.session.token);
+    const session = await getTestSessionByToken(token);
     expect(session).toBeDefined();
   });
 
+  test('should sign in bcrypt users', async () => {
+    const email = generateRandomEmail();
+    const password = 'SecurePass123';
+
+    await insertTestUser({
+      email,
+      password: await hashPasswordBcrypt(password),
+      password_algo: 'bcrypt',
+      fullname: 'Test User',
+      verified: true,
+    });
+
+    await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password })
+      .expect(200);
+  });
+
+  test('should upgrade legacy SHA-256 hash to bcrypt on successful signin', async () => {
+    const email = generateRandomEmail();
+    const password = 'SecurePass123';
+
+    await insertTestUser({
+      email,
+      password: await hashPassword(password),
+      password_algo: 'sha256',
+      fullname: 'Legacy User',
+      verified: true,
+    });
+
+    await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password })
+      .expect(200);
+
+    const user = await getTestUserByEmail(email);
+    expect(user?.password_algo).toBe('bcrypt');
+    expect(user?.password).toMatch(/^\$2[aby]\$12\$/);
+
+    // The upgraded hash keeps working
+    await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password })
+      .expect(200);
+  });
+
+  test('should not upgrade legacy hash on failed signin', async () => {
+    const email = generateRandomEmail();
+    const hashedPassword = await hashPassword('SecurePass123');
+
+    await insertTestUser({
+      email,
+      password: hashedPassword,
+      password_algo: 'sha256',
+      fullname: 'Legacy User',
+      verified: true,
+    });
+
+    await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password: 'WrongPassword123' })
+      .expect(401);
+
+    const user = await getTestUserByEmail(email);
+    expect(user?.password_algo).toBe('sha256');
+    expect(user?.password).toBe(hashedPassword);
+  });
+
   test('should return 401 for invalid password', async () => {
     const email = generateRandomEmail();
     const password = 'CorrectPassword123';
@@ -233,12 +316,12 @@ describe('POST /api/auth.signin', () => {
     const response = await request(API_URL)
       .post('/api/auth.signin')
       .send({ email, password: 'WrongPassword123' })
-      .expect(400);
+      .expect(401);
 
-    expect(response.body.error).toContain('Invalid');
+    expect(response.body.code).toBe('INVALID_CREDENTIALS');
   });
 
-  test('should return 401 for unverified account', async () => {
+  test('should return 403 for unverified account', async () => {
     const email = generateRandomEmail();
     const password = 'SecurePass123';
     const hashedPassword = await hashPassword(password);
@@ -253,9 +336,10 @@ describe('POST /api/auth.signin', () => {
     const response = await request(API_URL)
       .post('/api/auth.signin')
       .send({ email, password })
-      .expect(400);
+      .expect(403);
 
-    expect(response.body.error).toContain('verify');
+    expect(response.body.code).toBe('ACCOUNT_NOT_VERIFIED');
+    expect(response.body.message).toContain('verify');
   });
 
   test('should return 2FA required flag when enabled', async () => {
@@ -278,7 +362,9 @@ describe('POST /api/auth.signin', () => {
       .expect(200);
 
     expect(response.body.requires2FA).toBe(true);
+    expect(response.body.challenge).toEqual(expect.any(String));
     expect(response.body.session).toBeUndefined();
+    expect(getSessionCookies(response).token).toBe('');
   });
 
   test('should create session with 7-day expiry', async () => {
@@ -343,7 +429,7 @@ describe('POST /api/auth.verify_account', () => {
 
     const response = await request(API_URL)
       .post('/api/auth.verify_account')
-      .send({ code: verificationCode })
+      .send({ code: verificationCode, email })
       .expect(200);
 
     expect(response.body.message).toContain('verified successfully');
@@ -357,19 +443,39 @@ describe('POST /api/auth.verify_account', () => {
   test('should return 400 for invalid code', async () => {
     const response = await request(API_URL)
       .post('/api/auth.verify_account')
-      .send({ code: '999999' })
+      .send({ code: '999999', email: generateRandomEmail() })
+      .expect(400);
+
+    expect(response.body.code).toBe('VALIDATION_FAILED');
+    expect(response.body.field).toBe('code');
+  });
+
+  test('should require the email', async () => {
+    const email = generateRandomEmail();
+    await insertTestUser({
+      email,
+      password: await hashPassword('SecurePass123'),
+      fullname: 'Test User',
+      verified: false,
+      verification_code: '123456',
+    });
+
+    const response = await request(API_URL)
+      .post('/api/auth.verify_account')
+      .send({ code: '123456' })
       .expect(400);
 
-    expect(response.body.error).toContain('Invalid');
+    expect(response.body.field).toBe('email');
+    expect((await getTestUserByEmail(email))?.verified).toBe(false);
   });
 
   test('should return 400 for malformed code', async () => {
     const response = await request(API_URL)
       .post('/api/auth.verify_account')
-      .send({ code: '12345' }) // Too short
+      .send({ code: '12345', email: generateRandomEmail() }) // Too short
       .expect(400);
 
-    expect(response.body).toHaveProperty('error');
+    expect(response.body.code).toBe('VALIDATION_FAILED');
   });
 });
 
@@ -394,25 +500,27 @@ describe('POST /api/auth.verify_session', () => {
       .post('/api/auth.signin')
       .send({ email, password: 'SecurePass123' });
 
-    const token = signinResponse.body.session.token;
+    const { headers } = getSessionCookies(signinResponse);
 
-    // Verify session
+    // Verify session (token comes from the cookie)
     const response = await request(API_URL)
       .post('/api/auth.verify_session')
-      .send({ token })
+      .set(headers)
+      .send({})
       .expect(200);
 
     expect(response.body.user.email).toBe(email);
-    expect(response.body.session.token).toBe(token);
+    expect(response.body.session.expiresAt).toEqual(expect.any(Number));
+    expect(response.body.session.token).toBeUndefined();
   });
 
   test('should reject invalid session token', async () => {
     const response = await request(API_URL)
       .post('/api/auth.verify_session')
       .send({ token: 'invalid-token-12345' })
-      .expect(400);
+      .expect(401);
 
-    expect(response.body.error).toContain('Invalid');
+    expect(response.body.code).toBe('UNAUTHENTICATED');
   });
 
   test('should reject expired session', async () => {
@@ -444,9 +552,10 @@ describe('POST /api/auth.verify_session', () => {
     const response = await request(API_URL)
       .post('/api/auth.verify_session')
       .send({ token: expiredToken })
-      .expect(400);
+      .expect(401);
 
-    expect(response.body.error).toContain('expired');
+    expect(response.body.code).toBe('UNAUTHENTICATED');
+    expect(response.body.message).toContain('expired');
   });
 });
 
@@ -472,16 +581,20 @@ describe('POST /api/auth.signout', () => {
       .post('/api/auth.signin')
       .send({ email, password });
 
-    const token = signinResponse.body.session.token;
+    const { token, headers } = getSessionCookies(signinResponse);
 
     // Signout
     const response = await request(API_URL)
       .post('/api/auth.signout')
-      .send({ token })
+      .set(headers)
+      .send({})
       .expect(200);
 
     expect(response.body.message).toContain('Signed out successfully');
 
+    // Cookie is cleared
+    expect(getSessionCookies(response).token).toBe('');
+
     // Verify session was deleted from database
     const session = await getTestSessionByToken(token);
     expect(session).toBeNull();
@@ -490,71 +603,2283 @@ describe('POST /api/auth.signout', () => {
     await request(API_URL)
       .post('/api/auth.verify_session')
       .send({ token })
-      .expect(400);
+      .expect(401);
   });
 });
 
 // ============================================
-// POST /api/auth.forgot_password
+// SESSION MANAGEMENT
 // ============================================
 
-describe('POST /api/auth.forgot_password', () => {
-  test('should generate reset token for existing user', async () => {
+describe('Session management', () => {
+  async function signinTwice() {
     const email = generateRandomEmail();
-    const password = await hashPassword('SecurePass123');
-
+    const password = 'SecurePass123';
     await insertTestUser({
       email,
+      password: await hashPassword(password),
+      fullname: 'Test User',
+      verified: true,
+    });
+
+    const signin = async (userAgent: string) =>
+      getSessionCookies(
+        await request(API_URL)
+          .post('/api/auth.signin')
+          .set('User-Agent', userAgent)
+          .send({ email, password })
+          .expect(200)
+      );
+
+    return {
       password,
+      laptop: await signin('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) Chrome/120.0'),
+      phone: await signin('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Safari/604.1'),
+    };
+  }
+
+  async function logoutReason(token: string) {
+    const [row] = await executeTestQuery<{ logout_reason: string; status: string }>(
+      `SELECT logout_reason, status FROM audit_sessions WHERE session_token = $1`,
+      [token]
+    );
+    return row;
+  }
+
+  test('should list own sessions and flag the current one', async () => {
+    const { laptop } = await signinTwice();
+
+    const response = await request(API_URL)
+      .post('/api/auth.get_sessions')
+      .set(laptop.headers)
+      .send({})
+      .expect(200);
+
+    expect(response.body).toHaveLength(2);
+    expect(response.body.filter((s: { current: boolean }) => s.current)).toHaveLength(1);
+    expect(JSON.stringify(response.body)).not.toContain(laptop.token);
+  });
+
+  test('should sign out other devices with a logout reason', async () => {
+    const { laptop, phone } = await signinTwice();
+
+    const response = await request(API_URL)
+      .post('/api/auth.revoke_other_sessions')
+      .set(laptop.headers)
+      .send({})
+      .expect(200);
+    expect(response.body.revoked).toBe(1);
+
+    await request(API_URL).post('/api/auth.get_sessions').set(phone.headers).send({}).expect(401);
+    await request(API_URL).post('/api/auth.get_sessions').set(laptop.headers).send({}).expect(200);
+    expect(await logoutReason(phone.token)).toEqual({ logout_reason: 'revoked', status: 'terminated' });
+  });
+
+  test('should ignore a session token sent in the body', async () => {
+    const { laptop, phone } = await signinTwice();
+
+    // Asking to spare the phone still spares the calling laptop session only
+    await request(API_URL)
+      .post('/api/auth.revoke_other_sessions')
+      .set(laptop.headers)
+      .send({ token: phone.token })
+      .expect(200);
+
+    await request(API_URL).post('/api/auth.get_sessions').set(phone.headers).send({}).expect(401);
+    await request(API_URL).post('/api/auth.get_sessions').set(laptop.headers).send({}).expect(200);
+  });
+
+  test('should not sign out sessions of other users', async () => {
+    const { laptop } = await signinTwice();
+    const other = await signinTwice();
+
+    const sessions = await request(API_URL)
+      .post('/api/auth.get_sessions')
+      .set(other.laptop.headers)
+      .send({})
+      .expect(200);
+
+    const response = await request(API_URL)
+      .post('/api/auth.revoke_session')
+      .set(laptop.headers)
+      .send({ session_id: sessions.body[0].id })
+      .expect(404);
+    expect(response.body.code).toBe('NOT_FOUND');
+  });
+
+  test('should sign out other devices on password change', async () => {
+    const { password, laptop, phone } = await signinTwice();
+
+    const response = await request(API_URL)
+      .post('/api/auth.change_password')
+      .set(laptop.headers)
+      .send({ current_password: password, new_password: 'NewPassword456' })
+      .expect(200);
+    expect(response.body.revokedSessions).toBe(1);
+
+    await request(API_URL).post('/api/auth.get_sessions').set(phone.headers).send({}).expect(401);
+    await request(API_URL).post('/api/auth.get_sessions').set(laptop.headers).send({}).expect(200);
+    expect((await logoutReason(phone.token)).logout_reason).toBe('password_change');
+  });
+});
+
+// ============================================
+// POST /api/auth.verify_2fa
+// ============================================
+
+describe('POST /api/auth.verify_2fa', () => {
+  const password = 'SecurePass123';
+
+  async function createUserWith2FA() {
+    const email = generateRandomEmail();
+    const user = await insertTestUser({
+      email,
+      password: await hashPassword(password),
       fullname: 'Test User',
       verified: true,
     });
+    const secret = await enableTest2FA(email);
+    return { email, secret, user };
+  }
+
+  async function signin(email: string, cookie?: string) {
+    const pending = request(API_URL).post('/api/auth.signin');
+    if (cookie) pending.set('Cookie', cookie);
+    return pending.send({ email, password }).expect(200);
+  }
+
+  test('should issue the session after a valid authenticator code', async () => {
+    const { email, secret } = await createUserWith2FA();
+    const { body } = await signin(email);
 
     const response = await request(API_URL)
-      .post('/api/auth.forgot_password')
-      .send({ email })
+      .post('/api/auth.verify_2fa')
+      .send({ challenge: body.challenge, code: generateTestTOTP(secret) })
       .expect(200);
 
-    expect(response.body.message).toContain('If an account exists');
-    expect(response.body.resetToken).toBeDefined();
+    expect(response.body.user.email).toBe(email);
+    expect(response.body.session.token).toBeUndefined();
+    expect(await getTestSessionByToken(getSessionCookies(response).token)).not.toBeNull();
 
-    // Verify reset token was set in database
-    const user = await getTestUserByEmail(email);
-    expect(user?.reset_token).toBe(response.body.resetToken);
-    expect(user?.reset_token_expiry).toBeGreaterThan(Date.now());
+    // The challenge is single-use
+    await request(API_URL)
+      .post('/api/auth.verify_2fa')
+      .send({ challenge: body.challenge, code: generateTestTOTP(secret) })
+      .expect(401);
   });
 
-  test('should not reveal if email does not exist', async () => {
+  test('should reject a wrong code and drop the challenge after 5 attempts', async () => {
+    const { email, secret } = await createUserWith2FA();
+    const { body } = await signin(email);
+
+    for (let i = 0; i < 5; i++) {
+      const response = await request(API_URL)
+        .post('/api/auth.verify_2fa')
+        .send({ challenge: body.challenge, code: '000000' })
+        .expect(401);
+      expect(response.body.code).toBe('INVALID_CREDENTIALS');
+    }
+
     const response = await request(API_URL)
-      .post('/api/auth.forgot_password')
-      .send({ email: 'nonexistent@example.com' })
+      .post('/api/auth.verify_2fa')
+      .send({ challenge: body.challenge, code: generateTestTOTP(secret) })
+      .expect(401);
+
+    expect(response.body.code).toBe('UNAUTHENTICATED');
+  });
+
+  test('should not accept the same authenticator code twice', async () => {
+    const { email, secret } = await createUserWith2FA();
+    const code = generateTestTOTP(secret);
+
+    const first = await signin(email);
+    await request(API_URL)
+      .post('/api/auth.verify_2fa')
+      .send({ challenge: first.body.challenge, code })
       .expect(200);
 
-    // Same message even if email doesn't exist
-    expect(response.body.message).toContain('If an account exists');
+    const second = await signin(email);
+    await request(API_URL)
+      .post('/api/auth.verify_2fa')
+      .send({ challenge: second.body.challenge, code })
+      .expect(401);
+  });
+
+  test('should accept each recovery code once', async () => {
+    const { email, user } = await createUserWith2FA();
+    const [{ codes }] = await executeTestQuery<{ codes: string[] }>(
+      'SELECT auth.generate_recovery_codes($1) AS codes',
+      [user._id]
+    );
+
+    const first = await signin(email);
+    const response = await request(API_URL)
+      .post('/api/auth.verify_2fa')
+      .send({ challenge: first.body.challenge, code: codes[0].toLowerCase() })
+      .expect(200);
+
+    expect(response.body.recoveryCodesRemaining).toBe(codes.length - 1);
+
+    const second = await signin(email);
+    await request(API_URL)
+      .post('/api/auth.verify_2fa')
+      .send({ challenge: second.body.challenge, code: codes[0] })
+      .expect(401);
+  });
+
+  test('should skip the second step on a trusted device', async () => {
+    const { email, secret } = await createUserWith2FA();
+    const { body } = await signin(email);
+
+    const response = await request(API_URL)
+      .post('/api/auth.verify_2fa')
+      .send({ challenge: body.challenge, code: generateTestTOTP(secret), remember_device: true })
+      .expect(200);
+
+    expect(response.body.trustedDevice).toBeUndefined();
+    const deviceCookie = ([] as string[])
+      .concat(response.headers['set-cookie'] || [])
+      .find((cookie) => cookie.startsWith('trusted_device='));
+    expect(deviceCookie).toContain('HttpOnly');
+
+    const trusted = await signin(email, deviceCookie!.split(';')[0]);
+    expect(trusted.body.requires2FA).toBe(false);
+    expect(getSessionCookies(trusted).token).not.toBe('');
+
+    // A device token sent in the body is ignored
+    const spoofed = await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password, device_token: deviceCookie!.split(';')[0].split('=')[1] })
+      .expect(200);
+    expect(spoofed.body.requires2FA).toBe(true);
   });
 });
 
 // ============================================
-// ERROR HANDLING
+// 2FA REQUIRED BY COMPANY
 // ============================================
 
-describe('Error Handling', () => {
-  test('should return 400 for malformed JSON', async () => {
+describe('Company 2FA requirement', () => {
+  async function signinMember(deadline: string | null) {
+    const email = generateRandomEmail();
+    const password = 'SecurePass123';
+    const user = await insertTestUser({
+      email,
+      password: await hashPassword(password),
+      fullname: 'Test User',
+      verified: true,
+    });
+
+    const [company] = await executeTestQuery<{ id: string }>(
+      `INSERT INTO companies (_id, title, settings) VALUES ($1, 'Secure Co', $2) RETURNING id`,
+      [`company_${Date.now()}`, JSON.stringify({ twoFactorRequired: true, twoFactorDeadline: deadline })]
+    );
+    await executeTestQuery(
+      `INSERT INTO user_companies (_id, user_id, company_id, role) VALUES ($1, $2, $3, 'member')`,
+      [`uc_${Date.now()}`, user._id, company.id]
+    );
+
+    const response = await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password })
+      .expect(200);
+
+    return { response, headers: getSessionCookies(response).headers };
+  }
+
+  test('should only allow 2FA setup after the deadline', async () => {
+    const { response, headers } = await signinMember('2000-01-01');
+
+    expect(response.body.twoFactorSetupRequired).toBe(true);
+
+    const blocked = await request(API_URL)
+      .post('/api/task.get_user_tasks')
+      .set(headers)
+      .send({})
+      .expect(403);
+    expect(blocked.body.code).toBe('TWO_FACTOR_REQUIRED');
+
+    const setup = await request(API_URL)
+      .post('/api/auth.setup_2fa')
+      .set(headers)
+      .send({})
+      .expect(200);
+    expect(setup.body.otpauthUrl).toContain(setup.body.secret);
+  });
+
+  test('should not enforce before the deadline', async () => {
+    const { response, headers } = await signinMember('2999-12-31');
+
+    expect(response.body.twoFactorSetupRequired).toBe(false);
+
+    await request(API_URL)
+      .post('/api/task.get_user_tasks')
+      .set(headers)
+      .send({})
+      .expect(200);
+  });
+});
+
+// ============================================
+// SESSION COOKIES (CSRF, rotation, sliding expiry)
+// ============================================
+
+describe('Password policy', () => {
+  async function insertMember(settings: Record<string, unknown>, password = 'SecurePass123') {
+    const email = generateRandomEmail();
+    const user = await insertTestUser({
+      email,
+      password: await hashPassword(password),
+      fullname: 'Test User',
+      verified: true,
+    });
+
+    const [company] = await executeTestQuery<{ id: string }>(
+      `INSERT INTO companies (_id, title, settings) VALUES ($1, 'Policy Co', $2) RETURNING id`,
+      [`company_${Date.now()}`, JSON.stringify(settings)]
+    );
+    await executeTestQuery(
+      `INSERT INTO user_companies (_id, user_id, company_id, role) VALUES ($1, $2, $3, 'member')`,
+      [`uc_${Date.now()}`, user._id, company.id]
+    );
+
+    return { email, password, user };
+  }
+
+  async function signin(email: string, password: string) {
+    const response = await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password })
+      .expect(200);
+
+    return { response, headers: getSessionCookies(response).headers };
+  }
+
+  test('should reject a breached password on signup', async () => {
     const response = await request(API_URL)
       .post('/api/auth.signup')
-      .send('{ invalid json }')
-      .set('Content-Type', 'application/json')
+      .send({ email: generateRandomEmail(), password: 'password123', fullname: 'Test User' })
+      .expect(400);
+
+    expect(response.body).toMatchObject({
+      code: 'VALIDATION_FAILED',
+      field: 'password',
+      details: { rule: 'passwordBreached' },
+    });
+  });
+
+  test('should enforce company rules and history on password change', async () => {
+    const { email, password } = await insertMember({ passwordMinLength: 12, passwordHistory: 2 });
+    const { headers } = await signin(email, password);
+
+    const tooShort = await request(API_URL)
+      .post('/api/auth.change_password')
+      .set(headers)
+      .send({ current_password: password, new_password: 'NewPass456' })
       .expect(400);
+    expect(tooShort.body).toMatchObject({
+      field: 'new_password',
+      details: { rule: 'passwordMinLength', minLength: 12 },
+    });
+
+    await request(API_URL)
+      .post('/api/auth.change_password')
+      .set(headers)
+      .send({ current_password: password, new_password: 'NewPassword456' })
+      .expect(200);
 
-    expect(response.body).toHaveProperty('error');
+    // The previous password is kept in the history
+    const blocked = await request(API_URL)
+      .post('/api/auth.change_password')
+      .set(headers)
+      .send({ current_password: 'NewPassword456', new_password: password })
+      .expect(400);
+    expect(blocked.body.details).toMatchObject({ rule: 'passwordHistory', historyCount: 2 });
   });
 
-  test('should return 404 for invalid function name', async () => {
-    const response = await request(API_URL)
-      .post('/api/auth.nonexistent_function')
-      .send({})
-      .expect(404);
+  test('should only allow a password change once the password expired', async () => {
+    const { email, password, user } = await insertMember({ passwordChangeDays: 30 });
+    await executeTestQuery(
+      `UPDATE users SET password_changed_at = $2 WHERE _id = $1`,
+      [user._id, Date.now() - 31 * 24 * 60 * 60 * 1000]
+    );
+
+    const { response, headers } = await signin(email, password);
+    expect(response.body.passwordChangeRequired).toBe(true);
+
+    const blocked = await request(API_URL)
+      .post('/api/task.get_user_tasks')
+      .set(headers)
+      .send({})
+      .expect(403);
+    expect(blocked.body.code).toBe('PASSWORD_CHANGE_REQUIRED');
+
+    await request(API_URL)
+      .post('/api/auth.change_password')
+      .set(headers)
+      .send({ current_password: password, new_password: 'NewPassword456' })
+      .expect(200);
+
+    await request(API_URL)
+      .post('/api/task.get_user_tasks')
+      .set(headers)
+      .send({})
+      .expect(200);
+  });
+});
+
+describe('Invitations', () => {
+  async function signinOwner() {
+    const email = generateRandomEmail();
+    const password = 'SecurePass123';
+    const user = await insertTestUser({
+      email,
+      password: await hashPassword(password),
+      fullname: 'Company Owner',
+      verified: true,
+    });
+
+    const [company] = await executeTestQuery<{ id: string }>(
+      `INSERT INTO companies (_id, title) VALUES ($1, 'Invite Co') RETURNING id`,
+      [`company_${Date.now()}`]
+    );
+    await executeTestQuery(
+      `INSERT INTO user_companies (_id, user_id, company_id, role) VALUES ($1, $2, $3, 'owner')`,
+      [`uc_${Date.now()}`, user._id, company.id]
+    );
+
+    const response = await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password })
+      .expect(200);
+
+    return {
+      email,
+      companyId: company.id,
+      headers: { ...getSessionCookies(response).headers, 'X-Company-Id': company.id },
+    };
+  }
+
+  async function invite(
+    owner: { companyId: string; headers: Record<string, string> },
+    email: string,
+    role = 'member'
+  ) {
+    const response = await request(API_URL)
+      .post('/api/auth.invite_user')
+      .set(owner.headers)
+      .send({ email, company_ids: [owner.companyId], role })
+      .expect(200);
+
+    // The code is emailed by the server, never returned to the inviter
+    expect(response.body).not.toHaveProperty('invitationCode');
+
+    return { ...response.body, invitationCode: await setInvitationCode(email, '246810') };
+  }
+
+  // Give the pending invitation of an email a known code (only its hash is stored)
+  async function setInvitationCode(email: string, code: string) {
+    await executeTestQuery(
+      `UPDATE invitations SET token_hash = encode(digest($2::TEXT, 'sha256'), 'hex')
+       WHERE LOWER(email) = $1 AND status = 'pending'`,
+      [email.toLowerCase(), code]
+    );
+    return code;
+  }
+
+  async function pendingInvitations(owner: { companyId: string; headers: Record<string, string> }) {
+    const response = await request(API_URL)
+      .post('/api/company.get_invitations')
+      .set(owner.headers)
+      .send({ company_id: owner.companyId })
+      .expect(200);
+
+    return response.body;
+  }
+
+  test('should create the membership with the invited role only on acceptance', async () => {
+    const owner = await signinOwner();
+    const email = generateRandomEmail();
+
+    const invited = await invite(owner, email, 'admin');
+    expect(invited.isNewUser).toBe(true);
+
+    const invitee = await getTestUserByEmail(email);
+    const before = await executeTestQuery(
+      'SELECT 1 FROM user_companies WHERE user_id = $1',
+      [invitee!._id]
+    );
+    expect(before).toHaveLength(0);
+    expect(await pendingInvitations(owner)).toMatchObject([
+      { email, role: 'admin', status: 'pending' },
+    ]);
+
+    const accepted = await request(API_URL)
+      .post('/api/auth.accept_invitation')
+      .send({ email, invitation_code: invited.invitationCode, new_password: 'NewPassword456' })
+      .expect(200);
+    expect(accepted.body.companies).toMatchObject([{ companyId: owner.companyId, role: 'admin' }]);
+
+    const [membership] = await executeTestQuery<{ role: string }>(
+      'SELECT role FROM user_companies WHERE user_id = $1 AND company_id = $2',
+      [invitee!._id, owner.companyId]
+    );
+    expect(membership.role).toBe('admin');
+    expect(await pendingInvitations(owner)).toEqual([]);
+  });
+
+  test('should replace the code on resend and reject it after revoke', async () => {
+    const owner = await signinOwner();
+    const email = generateRandomEmail();
+
+    const invited = await invite(owner, email);
+    const [invitation] = await pendingInvitations(owner);
+
+    const resent = await request(API_URL)
+      .post('/api/company.resend_invitation')
+      .set(owner.headers)
+      .send({ company_id: owner.companyId, invitation_id: invitation.id })
+      .expect(200);
+    expect(resent.body.email).toBe(email);
+    expect(resent.body).not.toHaveProperty('invitationCode');
+
+    await request(API_URL)
+      .post('/api/auth.accept_invitation')
+      .send({ email, invitation_code: invited.invitationCode, new_password: 'NewPassword456' })
+      .expect(400);
+
+    const resentCode = await setInvitationCode(email, '135791');
+
+    await request(API_URL)
+      .post('/api/company.revoke_invitation')
+      .set(owner.headers)
+      .send({ company_id: owner.companyId, invitation_id: invitation.id })
+      .expect(200);
+
+    const rejected = await request(API_URL)
+      .post('/api/auth.accept_invitation')
+      .send({ email, invitation_code: resentCode, new_password: 'NewPassword456' })
+      .expect(400);
+    expect(rejected.body.field).toBe('invitation_code');
+    expect(await pendingInvitations(owner)).toEqual([]);
+  });
+
+  test('should reject an expired invitation', async () => {
+    const owner = await signinOwner();
+    const email = generateRandomEmail();
+
+    const invited = await invite(owner, email);
+    await executeTestQuery(
+      `UPDATE invitations SET expires_at = NOW() - INTERVAL '1 minute' WHERE LOWER(email) = $1`,
+      [email.toLowerCase()]
+    );
+
+    expect(await pendingInvitations(owner)).toMatchObject([{ email, status: 'expired' }]);
+
+    await request(API_URL)
+      .post('/api/auth.accept_invitation')
+      .send({ email, invitation_code: invited.invitationCode, new_password: 'NewPassword456' })
+      .expect(410);
+  });
+
+  test('should answer an unknown email like a wrong code and void the code after 5 wrong ones', async () => {
+    const owner = await signinOwner();
+    const email = generateRandomEmail();
+    const invited = await invite(owner, email);
+
+    const unknown = await request(API_URL)
+      .post('/api/auth.accept_invitation')
+      .send({ email: generateRandomEmail(), invitation_code: invited.invitationCode })
+      .expect(400);
+    expect(unknown.body.field).toBe('invitation_code');
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const wrong = await request(API_URL)
+        .post('/api/auth.accept_invitation')
+        .send({ email, invitation_code: '000000', new_password: 'NewPassword456' })
+        .expect(400);
+      expect(wrong.body.field).toBe('invitation_code');
+    }
+
+    // The right code stops working until the invitation is resent
+    await request(API_URL)
+      .post('/api/auth.accept_invitation')
+      .send({ email, invitation_code: invited.invitationCode, new_password: 'NewPassword456' })
+      .expect(400);
+  });
+
+  test('should not replace the password of a verified account on acceptance', async () => {
+    const owner = await signinOwner();
+    const email = generateRandomEmail();
+    await insertTestUser({
+      email,
+      password: await hashPassword('SecurePass123'),
+      fullname: 'Existing User',
+      verified: true,
+    });
+
+    const invited = await invite(owner, email);
+    expect(invited.isNewUser).toBe(false);
+
+    const refused = await request(API_URL)
+      .post('/api/auth.accept_invitation')
+      .send({ email, invitation_code: invited.invitationCode, new_password: 'NewPassword456' })
+      .expect(400);
+    expect(refused.body.field).toBe('new_password');
+
+    await request(API_URL)
+      .post('/api/auth.accept_invitation')
+      .send({ email, invitation_code: invited.invitationCode })
+      .expect(200);
+
+    await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password: 'SecurePass123' })
+      .expect(200);
+  });
+
+  test('should not offer a position without orgchart.appoint', async () => {
+    const owner = await signinOwner();
+    await executeTestQuery(
+      `INSERT INTO user_permissions (user_id, company_id, permission_id, grant_type)
+       SELECT u._id, $2, p.id, 'revoke' FROM users u, permissions p
+       WHERE LOWER(u.email) = $1 AND p.name = 'orgchart.appoint'`,
+      [owner.email.toLowerCase(), owner.companyId]
+    );
+
+    const refused = await request(API_URL)
+      .post('/api/auth.invite_user')
+      .set(owner.headers)
+      .send({
+        email: generateRandomEmail(),
+        company_ids: [owner.companyId],
+        role: 'member',
+        position_id: '00000000-0000-4000-8000-000000000000',
+      })
+      .expect(403);
+    expect(refused.body.field).toBe('position_id');
+
+    const preview = await request(API_URL)
+      .post('/api/auth.bulk_invite_users')
+      .set(owner.headers)
+      .send({
+        company_id: owner.companyId,
+        rows: [{ email: generateRandomEmail(), positionCode: 'DEV-001' }],
+        dry_run: true,
+      })
+      .expect(200);
+    expect(preview.body.rows[0].issues).toEqual(['positionNotAllowed']);
+  });
+
+  test('should preview a bulk upload and invite only the valid rows', async () => {
+    const owner = await signinOwner();
+    const email = generateRandomEmail();
+    const rows = [
+      { email, fullname: 'Ann Lee', role: 'admin' },
+      { email: email.toUpperCase() },
+      { email: 'not-an-email' },
+      { email: owner.email, role: 'owner' },
+      { email: generateRandomEmail(), positionCode: 'MISSING-001' },
+    ];
+
+    const preview = await request(API_URL)
+      .post('/api/auth.bulk_invite_users')
+      .set(owner.headers)
+      .send({ company_id: owner.companyId, rows, dry_run: true })
+      .expect(200);
+
+    expect(preview.body).toMatchObject({ dryRun: true, total: 5, valid: 1, invalid: 4 });
+    expect(preview.body.rows.map((row: { issues: string[] }) => row.issues)).toEqual([
+      [],
+      ['duplicateEmail'],
+      ['invalidEmail'],
+      ['alreadyMember', 'invalidRole'],
+      ['positionNotFound'],
+    ]);
+    expect(await pendingInvitations(owner)).toEqual([]);
+
+    const result = await request(API_URL)
+      .post('/api/auth.bulk_invite_users')
+      .set(owner.headers)
+      .send({ company_id: owner.companyId, rows, dry_run: false })
+      .expect(200);
+
+    expect(result.body.invited).toBe(1);
+    // Codes are emailed by the server, never returned
+    expect(result.body.invitations).toBeUndefined();
+    expect(await pendingInvitations(owner)).toMatchObject([{ email, role: 'admin' }]);
+    expect((await getTestUserByEmail(email))?.fullname).toBe('Ann Lee');
+  });
+});
+
+// ============================================
+// Single sign-on (OIDC)
+// ============================================
+
+describe('Single sign-on', () => {
+  let issuer: MockOidcIssuer;
+
+  beforeAll(async () => {
+    issuer = await startMockOidcIssuer();
+  });
+
+  afterAll(async () => {
+    await issuer.close();
+  });
+
+  // Company (with a signed-in owner) whose provider is the mock issuer
+  async function companyWithSso(ssoRequired = false, verifyDomain = true) {
+    const domain = `sso${Date.now()}${Math.random().toString(36).substring(2, 6)}.example.com`;
+    const password = 'SecurePass123';
+    const owner = await insertTestUser({
+      email: `owner@${domain}`,
+      password: await hashPassword(password),
+      fullname: 'Company Owner',
+      verified: true,
+    });
+
+    const [company] = await executeTestQuery<{ id: string }>(
+      `INSERT INTO companies (_id, title) VALUES ($1, 'SSO Co') RETURNING id`,
+      [`company_${Date.now()}`]
+    );
+    await executeTestQuery(
+      `INSERT INTO user_companies (_id, user_id, company_id, role) VALUES ($1, $2, $3, 'owner')`,
+      [`uc_${Date.now()}`, owner._id, company.id]
+    );
+
+    const signin = await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email: owner.email, password })
+      .expect(200);
+    const headers = { ...getSessionCookies(signin).headers, 'X-Company-Id': company.id };
+
+    const response = await request(API_URL)
+      .post('/api/company.update_sso_settings')
+      .set(headers)
+      .send({
+        company_id: company.id,
+        enabled: true,
+        issuer: issuer.issuer,
+        client_id: issuer.clientId,
+        client_secret: issuer.clientSecret,
+        allowed_domains: [domain.toUpperCase()],
+        sso_required: ssoRequired,
+      })
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      enabled: true,
+      hasClientSecret: true,
+      allowedDomains: [domain],
+      verifiedDomains: [],
+    });
+    expect(response.body).not.toHaveProperty('clientSecret');
+
+    // Test domains have no DNS: mark them as company.verify_sso_domain would
+    if (verifyDomain) {
+      await executeTestQuery(
+        'UPDATE company_sso SET verified_domains = allowed_domains WHERE company_id = $1',
+        [company.id]
+      );
+    }
+
+    return { companyId: company.id, domain, headers };
+  }
+
+  // Start at the API, let the mock provider sign in, return the callback response
+  async function ssoSignin(email: string) {
+    const start = await request(API_URL)
+      .get('/api/sso/start')
+      .query({ email, redirect: '/company/settings' })
+      .expect(302);
+    const setCookie: string[] = [].concat(start.headers['set-cookie'] || []);
+    const stateCookie = setCookie.find((cookie) => cookie.startsWith('sso_state='))!;
+
+    const authorize = await fetch(start.headers.location, { redirect: 'manual' });
+    const callback = new URL(authorize.headers.get('location')!);
+
+    return request(API_URL)
+      .get(callback.pathname + callback.search)
+      .set('Cookie', stateCookie.split(';')[0])
+      .expect(302);
+  }
+
+  test('should provision a new user as a member and start a session', async () => {
+    const { companyId, domain } = await companyWithSso();
+    const email = `new.user@${domain}`;
+    issuer.user = { sub: `sub-${Date.now()}`, email, email_verified: true, name: 'New User' };
+
+    const response = await ssoSignin(email);
+    expect(response.headers.location).toMatch(/\/company\/settings$/);
+
+    const { headers } = getSessionCookies(response);
+    const session = await request(API_URL)
+      .post('/api/auth.verify_session')
+      .set(headers)
+      .send({})
+      .expect(200);
+    expect(session.body.user).toMatchObject({ email, fullname: 'New User' });
+
+    const membership = await executeTestQuery(
+      'SELECT role FROM user_companies WHERE user_id = $1 AND company_id = $2',
+      [session.body.user._id, companyId]
+    );
+    expect(membership).toEqual([{ role: 'member' }]);
+
+    const [audit] = await executeTestQuery(
+      'SELECT login_method FROM audit_sessions WHERE session_token = $1',
+      [getSessionCookies(response).token]
+    );
+    expect(audit?.login_method).toBe('sso');
+  });
+
+  test('should not link an existing account that is not a member of the company', async () => {
+    const { domain } = await companyWithSso();
+    const email = `outsider@${domain}`;
+    await insertTestUser({ email, password: await hashPassword('SecurePass123'), fullname: 'Outsider', verified: true });
+    issuer.user = { sub: `sub-${Date.now()}`, email, email_verified: true };
+
+    const response = await ssoSignin(email);
+
+    expect(response.headers.location).toMatch(/\/auth\/signin\?sso_error=CONFLICT$/);
+    expect(getSessionCookies(response).token).toBe('');
+  });
+
+  test('should not link an existing account that is not verified', async () => {
+    const { companyId, domain } = await companyWithSso();
+    const email = `pending@${domain}`;
+    const pending = await insertTestUser({ email, password: await hashPassword('SecurePass123'), fullname: 'Pending', verified: false });
+    issuer.user = { sub: `sub-${Date.now()}`, email, email_verified: true };
+
+    const response = await ssoSignin(email);
+
+    expect(response.headers.location).toMatch(/\/auth\/signin\?sso_error=CONFLICT$/);
+    expect((await getTestUserByEmail(email))?.verified).toBe(false);
+    const membership = await executeTestQuery(
+      'SELECT 1 FROM user_companies WHERE user_id = $1 AND company_id = $2',
+      [pending._id, companyId]
+    );
+    expect(membership).toEqual([]);
+  });
+
+  test('should not claim a domain before it is verified by DNS', async () => {
+    const { companyId, domain, headers } = await companyWithSso(false, false);
+
+    const provider = await request(API_URL)
+      .post('/api/auth.get_sso_provider')
+      .send({ email: `someone@${domain}` })
+      .expect(200);
+    expect(provider.body).toEqual({ ssoAvailable: false, ssoRequired: false });
+
+    const settings = await request(API_URL)
+      .post('/api/company.get_sso_settings')
+      .set(headers)
+      .send({ company_id: companyId })
+      .expect(200);
+
+    // Records sent by the caller are ignored: the gateway asks DNS
+    const response = await request(API_URL)
+      .post('/api/company.verify_sso_domain')
+      .set(headers)
+      .send({ company_id: companyId, domain, txt_records: [settings.body.domainVerificationRecord] })
+      .expect(400);
+    expect(response.body).toMatchObject({ code: 'VALIDATION_FAILED', field: 'domain' });
+  });
+
+  test('should refuse password sign-in of members when the company requires SSO', async () => {
+    const { companyId, domain } = await companyWithSso(true);
+    const email = `member@${domain}`;
+    const password = 'SecurePass123';
+    const member = await insertTestUser({ email, password: await hashPassword(password), fullname: 'Member', verified: true });
+    await executeTestQuery(
+      `INSERT INTO user_companies (_id, user_id, company_id, role) VALUES ($1, $2, $3, 'member')`,
+      [`uc_${Date.now()}_member`, member._id, companyId]
+    );
+
+    const provider = await request(API_URL)
+      .post('/api/auth.get_sso_provider')
+      .send({ email })
+      .expect(200);
+    expect(provider.body).toEqual({ ssoAvailable: true, ssoRequired: true });
+
+    const response = await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password })
+      .expect(403);
+    expect(response.body).toMatchObject({ code: 'SSO_REQUIRED', field: 'email' });
+
+    // The owner keeps the password as a way in
+    await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email: `owner@${domain}`, password })
+      .expect(200);
+  });
+});
+
+describe('API tokens', () => {
+  async function signinOwner() {
+    const email = generateRandomEmail();
+    const password = 'SecurePass123';
+    const user = await insertTestUser({
+      email,
+      password: await hashPassword(password),
+      fullname: 'Company Owner',
+      verified: true,
+    });
+
+    const [company] = await executeTestQuery<{ id: string }>(
+      `INSERT INTO companies (_id, title) VALUES ($1, 'Token Co') RETURNING id`,
+      [`company_${Date.now()}`]
+    );
+    await executeTestQuery(
+      `INSERT INTO user_companies (_id, user_id, company_id, role) VALUES ($1, $2, $3, 'owner')`,
+      [`uc_${Date.now()}`, user._id, company.id]
+    );
+
+    const response = await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password })
+      .expect(200);
+
+    return {
+      userId: user._id,
+      companyId: company.id,
+      headers: { ...getSessionCookies(response).headers, 'X-Company-Id': company.id },
+    };
+  }
+
+  test('should only call functions of the token permissions and audit each use', async () => {
+    const owner = await signinOwner();
+
+    const created = await request(API_URL)
+      .post('/api/auth.create_api_token')
+      .set(owner.headers)
+      .send({ company_id: owner.companyId, name: 'Reports', permissions: ['company.read'] })
+      .expect(200);
+
+    expect(created.body.token).toMatch(/^ak_[0-9a-f]{64}$/);
+    expect(created.body.tokenPrefix).toBe(created.body.token.slice(0, 11));
+
+    const bearer = { Authorization: `Bearer ${created.body.token}` };
+
+    await request(API_URL)
+      .post('/api/company.get_company_by_id')
+      .set(bearer)
+      .send({ company_id: owner.companyId })
+      .expect(200);
+
+    await request(API_URL)
+      .post('/api/company.update_company')
+      .set(bearer)
+      .send({ company_id: owner.companyId, title: 'Renamed' })
+      .expect(403);
+
+    // Account functions need a session
+    await request(API_URL)
+      .post('/api/auth.create_api_token')
+      .set(bearer)
+      .send({ company_id: owner.companyId, name: 'More', permissions: ['company.read'] })
+      .expect(403);
+
+    const uses = await executeTestQuery<{ new_values: { login_method: string } }>(
+      `SELECT new_values FROM audit_log WHERE action = 'LOGIN' AND table_name = 'api_tokens' AND record_id = $1`,
+      [created.body.id]
+    );
+    expect(uses).toHaveLength(3);
+    expect(uses[0].new_values.login_method).toBe('api_token');
+
+    // Stored as a hash only
+    const stored = await executeTestQuery(`SELECT 1 FROM api_tokens WHERE token_hash = $1`, [
+      created.body.token,
+    ]);
+    expect(stored).toHaveLength(0);
+  });
+
+  test('should reject permissions the owner does not have', async () => {
+    const owner = await signinOwner();
+
+    const response = await request(API_URL)
+      .post('/api/auth.create_api_token')
+      .set(owner.headers)
+      .send({ company_id: owner.companyId, name: 'Everything', permissions: ['company.read', 'no.such_permission'] })
+      .expect(403);
+
+    expect(response.body.field).toBe('permissions');
+  });
+
+  test('should stop accepting a token once revoked or expired', async () => {
+    const owner = await signinOwner();
+    const tokens = [];
+    for (const name of ['First', 'Second']) {
+      const response = await request(API_URL)
+        .post('/api/auth.create_api_token')
+        .set(owner.headers)
+        .send({ company_id: owner.companyId, name, permissions: ['company.read'] })
+        .expect(200);
+      tokens.push(response.body);
+    }
+
+    await request(API_URL)
+      .post('/api/auth.revoke_api_token')
+      .set(owner.headers)
+      .send({ token_id: tokens[0].id })
+      .expect(200);
+    await executeTestQuery(`UPDATE api_tokens SET expires_at = NOW() - INTERVAL '1 minute' WHERE id = $1`, [
+      tokens[1].id,
+    ]);
+
+    for (const token of tokens) {
+      await request(API_URL)
+        .post('/api/company.get_company_by_id')
+        .set('Authorization', `Bearer ${token.token}`)
+        .send({ company_id: owner.companyId })
+        .expect(401);
+    }
+  });
+
+  test('should let company admins issue tokens to service accounts', async () => {
+    const owner = await signinOwner();
+
+    const account = await request(API_URL)
+      .post('/api/company.create_service_account')
+      .set(owner.headers)
+      .send({ company_id: owner.companyId, name: 'HR Sync', permissions: ['company.read'] })
+      .expect(200);
+
+    // Beyond the service account's grants
+    await request(API_URL)
+      .post('/api/company.create_service_account_token')
+      .set(owner.headers)
+      .send({
+        company_id: owner.companyId,
+        service_account_id: account.body.id,
+        name: 'Sync',
+        permissions: ['company.update'],
+      })
+      .expect(403);
+
+    const token = await request(API_URL)
+      .post('/api/company.create_service_account_token')
+      .set(owner.headers)
+      .send({
+        company_id: owner.companyId,
+        service_account_id: account.body.id,
+        name: 'Sync',
+        permissions: ['company.read'],
+      })
+      .expect(200);
+
+    await request(API_URL)
+      .post('/api/company.get_company_by_id')
+      .set('Authorization', `Bearer ${token.body.token}`)
+      .send({ company_id: owner.companyId })
+      .expect(200);
+
+    const [serviceAccount] = await executeTestQuery<{ is_service_account: boolean; email: string }>(
+      `SELECT is_service_account, email FROM users WHERE _id = $1`,
+      [account.body.id]
+    );
+    expect(serviceAccount.is_service_account).toBe(true);
+    expect(serviceAccount.email).toMatch(/\.invalid$/);
+  });
+});
+
+describe('Email change', () => {
+  async function signinTwice() {
+    const email = generateRandomEmail();
+    const password = 'SecurePass123';
+    const user = await insertTestUser({
+      email,
+      password: await hashPassword(password),
+      fullname: 'Test User',
+      verified: true,
+    });
+
+    const signin = async () =>
+      getSessionCookies(
+        await request(API_URL).post('/api/auth.signin').send({ email, password }).expect(200)
+      );
+
+    return { userId: user._id, email, password, laptop: await signin(), phone: await signin() };
+  }
+
+  // The code and the cancel token are only emailed: replace them with known ones
+  async function setEmailChangeSecrets(userId: string, code: string, cancelToken: string) {
+    await executeTestQuery(
+      `UPDATE email_change_requests
+       SET code_hash = encode(digest($2, 'sha256'), 'hex'),
+           cancel_token_hash = encode(digest($3, 'sha256'), 'hex')
+       WHERE user_id = $1`,
+      [userId, code, cancelToken]
+    );
+  }
+
+  test('should swap the email with the code, end other sessions and audit it', async () => {
+    const { userId, email, password, laptop, phone } = await signinTwice();
+    const newEmail = generateRandomEmail();
+
+    const requested = await request(API_URL)
+      .post('/api/auth.request_email_change')
+      .set(laptop.headers)
+      .send({ new_email: newEmail, password })
+      .expect(200);
+
+    expect(requested.body.newEmail).toBe(newEmail);
+    expect(requested.body).not.toHaveProperty('code');
+    expect(requested.body).not.toHaveProperty('cancelToken');
+    expect((await getTestUserByEmail(email))?._id).toBe(userId);
+
+    await setEmailChangeSecrets(userId, '123456', 'cancel-token');
+
+    const confirmed = await request(API_URL)
+      .post('/api/auth.confirm_email_change')
+      .set(laptop.headers)
+      .send({ code: '123456' })
+      .expect(200);
+
+    expect(confirmed.body).toEqual({ email: newEmail, revokedSessions: 1 });
+    expect((await getTestUserByEmail(newEmail))?._id).toBe(userId);
+
+    await request(API_URL).post('/api/auth.get_sessions').set(phone.headers).send({}).expect(401);
+    await request(API_URL).post('/api/auth.get_sessions').set(laptop.headers).send({}).expect(200);
+
+    const [audit] = await executeTestQuery<{ old_values: { email: string }; new_values: { email: string } }>(
+      `SELECT old_values, new_values FROM audit_log
+       WHERE user_id = $1 AND action = 'UPDATE' AND table_name = 'users'
+       ORDER BY created_at DESC LIMIT 1`,
+      [userId]
+    );
+    expect(audit).toEqual({ old_values: { email }, new_values: { email: newEmail } });
+  });
+
+  test('should drop the pending change after 5 wrong codes', async () => {
+    const { userId, password, laptop } = await signinTwice();
+
+    await request(API_URL)
+      .post('/api/auth.request_email_change')
+      .set(laptop.headers)
+      .send({ new_email: generateRandomEmail(), password })
+      .expect(200);
+    await setEmailChangeSecrets(userId, '123456', 'cancel-token');
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await request(API_URL)
+        .post('/api/auth.confirm_email_change')
+        .set(laptop.headers)
+        .send({ code: '000000' })
+        .expect(401);
+    }
+
+    const response = await request(API_URL)
+      .post('/api/auth.confirm_email_change')
+      .set(laptop.headers)
+      .send({ code: '123456' })
+      .expect(404);
+    expect(response.body.code).toBe('NOT_FOUND');
+  });
+
+  test('should cancel the change with the link sent to the old address', async () => {
+    const { userId, email, password, laptop } = await signinTwice();
+
+    await request(API_URL)
+      .post('/api/auth.request_email_change')
+      .set(laptop.headers)
+      .send({ new_email: generateRandomEmail(), password })
+      .expect(200);
+    await setEmailChangeSecrets(userId, '123456', 'cancel-token');
+
+    await request(API_URL)
+      .post('/api/auth.cancel_email_change')
+      .send({ token: 'cancel-token' })
+      .expect(200);
+
+    await request(API_URL)
+      .post('/api/auth.confirm_email_change')
+      .set(laptop.headers)
+      .send({ code: '123456' })
+      .expect(404);
+    expect((await getTestUserByEmail(email))?._id).toBe(userId);
+  });
+});
+
+describe('Personal data', () => {
+  async function signin() {
+    const email = generateRandomEmail();
+    const password = 'SecurePass123';
+    const user = await insertTestUser({
+      email,
+      password: await hashPassword(password),
+      fullname: 'Data Subject',
+      verified: true,
+    });
+
+    const response = await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password })
+      .expect(200);
+
+    return { userId: user._id, email, password, headers: getSessionCookies(response).headers };
+  }
+
+  test('should export the user data without secrets and audit the export', async () => {
+    const { userId, email, headers } = await signin();
+
+    const response = await request(API_URL)
+      .post('/api/auth.export_personal_data')
+      .set(headers)
+      .send({})
+      .expect(200);
+
+    expect(response.body.user).toMatchObject({ _id: userId, email, fullname: 'Data Subject' });
+    expect(response.body.sessions).toHaveLength(1);
+    expect(response.body.sessions[0]).not.toHaveProperty('session_token');
+    expect(JSON.stringify(response.body)).not.toContain('"password"');
+
+    const [audit] = await executeTestQuery<{ count: string }>(
+      `SELECT COUNT(*) FROM audit_log WHERE user_id = $1 AND action = 'EXPORT'`,
+      [userId]
+    );
+    expect(audit.count).toBe('1');
+  });
+
+  test('should anonymize the user once the grace period ended', async () => {
+    const { userId, email, password, headers } = await signin();
+
+    const requested = await request(API_URL)
+      .post('/api/auth.request_account_erasure')
+      .set(headers)
+      .send({ password })
+      .expect(200);
+    expect(requested.body.eraseAfter - requested.body.requestedAt).toBe(30 * 24 * 60 * 60 * 1000);
+
+    // Nothing happens during the grace period
+    const [pending] = await executeTestQuery<{ erased: number }>(`SELECT auth.erase_due_accounts() AS erased`);
+    expect(pending.erased).toBe(0);
+
+    await executeTestQuery(`UPDATE account_erasure_requests SET erase_after = 0 WHERE user_id = $1`, [userId]);
+    await executeTestQuery(`SELECT auth.erase_due_accounts()`);
+
+    const [user] = await executeTestQuery<{ email: string; fullname: string }>(
+      `SELECT email, fullname FROM users WHERE _id = $1`,
+      [userId]
+    );
+    expect(user.fullname).toBe('Deleted user');
+    expect(user.email).toMatch(/@erased\.invalid$/);
+
+    const [leftovers] = await executeTestQuery<{ count: string }>(
+      `SELECT COUNT(*) FROM audit_log
+       WHERE user_email = $1 OR old_values::TEXT LIKE $2 OR new_values::TEXT LIKE $2`,
+      [email, `%${email}%`]
+    );
+    expect(leftovers.count).toBe('0');
+
+    await request(API_URL).post('/api/auth.get_sessions').set(headers).send({}).expect(401);
+    await request(API_URL).post('/api/auth.signin').send({ email, password }).expect(401);
+  });
+});
+
+describe('Impersonation', () => {
+  async function signinMember(companyId: string, role: string) {
+    const email = generateRandomEmail();
+    const password = 'SecurePass123';
+    const user = await insertTestUser({
+      email,
+      password: await hashPassword(password),
+      fullname: `Company ${role}`,
+      verified: true,
+    });
+    await executeTestQuery(
+      `INSERT INTO user_companies (_id, user_id, company_id, role) VALUES ($1, $2, $3, $4)`,
+      [`uc_${Date.now()}_${role}`, user._id, companyId, role]
+    );
+
+    const response = await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password })
+      .expect(200);
+
+    return { userId: user._id, headers: { ...getSessionCookies(response).headers, 'X-Company-Id': companyId } };
+  }
+
+  async function createCompany() {
+    const [company] = await executeTestQuery<{ id: string }>(
+      `INSERT INTO companies (_id, title) VALUES ($1, 'Support Co') RETURNING id`,
+      [`company_${Date.now()}`]
+    );
+    return company.id;
+  }
+
+  test('should act as the member without high-risk permissions and audit both users', async () => {
+    const companyId = await createCompany();
+    const owner = await signinMember(companyId, 'owner');
+    const admin = await signinMember(companyId, 'admin');
+
+    const started = await request(API_URL)
+      .post('/api/auth.start_impersonation')
+      .set(owner.headers)
+      .send({ company_id: companyId, target_user_id: admin.userId, reason: 'Ticket 42' })
+      .expect(200);
+    expect(started.body.session).not.toHaveProperty('token');
+
+    const headers = { ...getSessionCookies(started).headers, 'X-Company-Id': companyId };
+
+    const session = await request(API_URL).post('/api/auth.verify_session').set(headers).send({}).expect(200);
+    expect(session.body.user._id).toBe(admin.userId);
+    expect(session.body.impersonation.impersonator._id).toBe(owner.userId);
+
+    await request(API_URL)
+      .post('/api/company.get_company_by_id')
+      .set(headers)
+      .send({ company_id: companyId })
+      .expect(200);
+
+    // company.update is high risk: the admin may, the impersonator may not
+    await request(API_URL)
+      .post('/api/company.update_company')
+      .set(headers)
+      .send({ company_id: companyId, title: 'Renamed' })
+      .expect(403);
+
+    const audited = await executeTestQuery(
+      `SELECT 1 FROM audit_log WHERE user_id = $1 AND impersonator_id = $2`,
+      [admin.userId, owner.userId]
+    );
+    expect(audited.length).toBeGreaterThan(0);
+
+    const stopped = await request(API_URL).post('/api/auth.stop_impersonation').set(headers).send({}).expect(200);
+    const back = await request(API_URL)
+      .post('/api/auth.verify_session')
+      .set(getSessionCookies(stopped).headers)
+      .send({})
+      .expect(200);
+    expect(back.body.user._id).toBe(owner.userId);
+    expect(back.body.impersonation).toBeNull();
+  });
+
+  test('should not let members impersonate', async () => {
+    const companyId = await createCompany();
+    await signinMember(companyId, 'owner');
+    const admin = await signinMember(companyId, 'admin');
+    const member = await signinMember(companyId, 'member');
+
+    await request(API_URL)
+      .post('/api/auth.start_impersonation')
+      .set(admin.headers)
+      .send({ company_id: companyId, target_user_id: member.userId })
+      .expect(403);
+  });
+});
+
+describe('Magic links', () => {
+  async function createUser(settings?: Record<string, unknown>) {
+    const email = generateRandomEmail();
+    const user = await insertTestUser({
+      email,
+      password: await hashPassword('SecurePass123'),
+      fullname: 'Test User',
+      verified: true,
+    });
+
+    if (settings) {
+      const [company] = await executeTestQuery<{ id: string }>(
+        `INSERT INTO companies (_id, title, settings) VALUES ($1, 'Link Co', $2) RETURNING id`,
+        [`company_${Date.now()}`, JSON.stringify(settings)]
+      );
+      await executeTestQuery(
+        `INSERT INTO user_companies (_id, user_id, company_id, role) VALUES ($1, $2, $3, 'member')`,
+        [`uc_${Date.now()}`, user._id, company.id]
+      );
+    }
+
+    return { userId: user._id, email };
+  }
+
+  // The token is only emailed: replace it with a known one
+  async function setMagicLinkToken(userId: string, token: string) {
+    await executeTestQuery(
+      `UPDATE magic_links SET token_hash = encode(digest($2, 'sha256'), 'hex') WHERE user_id = $1`,
+      [userId, token]
+    );
+  }
+
+  test('should sign in once with the emailed link', async () => {
+    const { userId, email } = await createUser();
+
+    const requested = await request(API_URL)
+      .post('/api/auth.request_magic_link')
+      .send({ email })
+      .expect(200);
+
+    expect(requested.body).not.toHaveProperty('token');
+    expect(requested.body).not.toHaveProperty('email');
+
+    await setMagicLinkToken(userId, 'magic-token');
+
+    const response = await request(API_URL)
+      .post('/api/auth.signin_with_magic_link')
+      .send({ token: 'magic-token' })
+      .expect(200);
+
+    expect(response.body.user._id).toBe(userId);
+    expect(response.body.session).not.toHaveProperty('token');
+    expect(getSessionCookies(response).token).toBeTruthy();
+
+    const reused = await request(API_URL)
+      .post('/api/auth.signin_with_magic_link')
+      .send({ token: 'magic-token' })
+      .expect(410);
+    expect(reused.body.code).toBe('EXPIRED');
+  });
+
+  test('should answer the same but send nothing when the company turned links off', async () => {
+    const unknown = await request(API_URL)
+      .post('/api/auth.request_magic_link')
+      .send({ email: generateRandomEmail() })
+      .expect(200);
+
+    const { userId, email } = await createUser({ magicLinkEnabled: false });
+
+    const disabled = await request(API_URL)
+      .post('/api/auth.request_magic_link')
+      .send({ email })
+      .expect(200);
+
+    expect(disabled.body).toEqual(unknown.body);
+
+    const links = await executeTestQuery('SELECT 1 FROM magic_links WHERE user_id = $1', [userId]);
+    expect(links).toHaveLength(0);
+  });
+
+  test('should still ask for the 2FA code', async () => {
+    const { userId, email } = await createUser();
+    await enableTest2FA(email);
+
+    await request(API_URL).post('/api/auth.request_magic_link').send({ email }).expect(200);
+    await setMagicLinkToken(userId, 'magic-2fa-token');
+
+    const response = await request(API_URL)
+      .post('/api/auth.signin_with_magic_link')
+      .send({ token: 'magic-2fa-token' })
+      .expect(200);
+
+    expect(response.body.requires2FA).toBe(true);
+    expect(response.body.challenge).toBeTruthy();
+    expect(getSessionCookies(response).token).toBe('');
+  });
+});
+
+describe('Signup anti-abuse', () => {
+  test('should refuse disposable email domains', async () => {
+    await executeTestQuery(
+      `INSERT INTO disposable_email_domains (domain) VALUES ('mailinator.com') ON CONFLICT DO NOTHING`
+    );
+
+    const response = await request(API_URL)
+      .post('/api/auth.signup')
+      .send({ email: 'someone@eu.mailinator.com', password: 'SecurePass123', fullname: 'Test User' })
+      .expect(400);
+
+    expect(response.body.code).toBe('VALIDATION_FAILED');
+    expect(response.body.details.rule).toBe('disposableEmail');
+  });
+
+  test('should void the code after five wrong attempts', async () => {
+    const email = generateRandomEmail();
+    await insertTestUser({
+      email,
+      password: await hashPassword('SecurePass123'),
+      fullname: 'Test User',
+      verified: false,
+      verification_code: '123456',
+    });
+
+    for (let i = 0; i < 5; i++) {
+      await request(API_URL)
+        .post('/api/auth.verify_account')
+        .send({ code: '999999', email })
+        .expect(400);
+    }
+
+    await request(API_URL)
+      .post('/api/auth.verify_account')
+      .send({ code: '123456', email })
+      .expect(400);
+
+    const user = await getTestUserByEmail(email);
+    expect(user?.verified).toBe(false);
+    expect(user?.verification_code).toBeNull();
+  });
+
+  test('should email a new code once a minute', async () => {
+    const email = generateRandomEmail();
+    await insertTestUser({
+      email,
+      password: await hashPassword('SecurePass123'),
+      fullname: 'Test User',
+      verified: false,
+      verification_code: '123456',
+    });
+
+    const response = await request(API_URL)
+      .post('/api/auth.resend_verification')
+      .send({ email })
+      .expect(200);
+
+    expect(response.body).not.toHaveProperty('code');
+    const user = await getTestUserByEmail(email);
+    expect(user?.verification_code).not.toBe('123456');
+
+    // Within the cooldown the same answer, but no new code
+    await request(API_URL)
+      .post('/api/auth.resend_verification')
+      .send({ email })
+      .expect(200);
+    const unchanged = await getTestUserByEmail(email);
+    expect(unchanged?.verification_code).toBe(user?.verification_code);
+  });
+});
+
+describe('Suspicious sign-ins', () => {
+  async function createUserWithHistory() {
+    const email = generateRandomEmail();
+    const user = await insertTestUser({
+      email,
+      password: await hashPassword('SecurePass123'),
+      fullname: 'Test User',
+      verified: true,
+    });
+
+    // One earlier sign-in from the office
+    await executeTestQuery(
+      `INSERT INTO audit_sessions (user_id, user_email, session_token, login_ip, login_user_agent, login_method)
+       VALUES ($1, $2, $3, '198.51.100.10', 'OfficeBrowser/1.0', 'password')`,
+      [user._id, email, `history_${Date.now()}`]
+    );
+
+    return { userId: user._id, email };
+  }
+
+  function signIn(email: string, ip: string, userAgent: string) {
+    return request(API_URL)
+      .post('/api/auth.signin')
+      .set('X-Forwarded-For', ip)
+      .set('User-Agent', userAgent)
+      .send({ email, password: 'SecurePass123' });
+  }
+
+  test('should flag a sign-in from a new network and device and alert the owner', async () => {
+    const { userId, email } = await createUserWithHistory();
+
+    const familiar = await signIn(email, '198.51.100.10', 'OfficeBrowser/1.0').expect(200);
+    expect(familiar.body.session).not.toHaveProperty('signinAlert');
+
+    const response = await signIn(email, '203.0.113.7', 'StrangeBrowser/9.9').expect(200);
+    expect(response.body.session).not.toHaveProperty('signinAlert');
+
+    const alerts = await executeTestQuery<{ reasons: string[]; risk_score: number }>(
+      'SELECT reasons, risk_score FROM signin_alerts WHERE user_id = $1',
+      [userId]
+    );
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].reasons).toEqual(['newNetwork', 'newDevice']);
+
+    const [session] = await executeTestQuery<{ is_suspicious: boolean }>(
+      `SELECT is_suspicious FROM audit_sessions WHERE user_id = $1 AND login_ip = '203.0.113.7'`,
+      [userId]
+    );
+    expect(session.is_suspicious).toBe(true);
+  });
+
+  test('should end all sessions and require a new password when the owner reports the sign-in', async () => {
+    const { userId, email } = await createUserWithHistory();
+    await signIn(email, '203.0.113.7', 'StrangeBrowser/9.9').expect(200);
+
+    // The token is only emailed: replace it with a known one
+    await executeTestQuery(
+      `UPDATE signin_alerts SET token_hash = encode(digest('report-token', 'sha256'), 'hex') WHERE user_id = $1`,
+      [userId]
+    );
+
+    const reported = await request(API_URL)
+      .post('/api/auth.report_signin')
+      .send({ token: 'report-token' })
+      .expect(200);
+
+    const sessions = await executeTestQuery('SELECT 1 FROM sessions WHERE user_id = $1', [userId]);
+    expect(sessions).toHaveLength(0);
+
+    const refused = await signIn(email, '198.51.100.10', 'OfficeBrowser/1.0').expect(403);
+    expect(refused.body.details.rule).toBe('passwordResetRequired');
+
+    await request(API_URL)
+      .post('/api/auth.reset_password')
+      .send({ token: reported.body.resetToken, new_password: 'NewSecurePass456' })
+      .expect(200);
+
+    await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password: 'NewSecurePass456' })
+      .expect(200);
+  });
+});
+
+describe('Custom roles', () => {
+  async function signinOwnerWithMember() {
+    const email = generateRandomEmail();
+    const password = 'SecurePass123';
+    const owner = await insertTestUser({
+      email,
+      password: await hashPassword(password),
+      fullname: 'Company Owner',
+      verified: true,
+    });
+    const member = await insertTestUser({
+      email: generateRandomEmail(),
+      password: await hashPassword(password),
+      fullname: 'Company Member',
+      verified: true,
+    });
+
+    const [company] = await executeTestQuery<{ id: string }>(
+      `INSERT INTO companies (_id, title) VALUES ($1, 'Roles Co') RETURNING id`,
+      [`company_${Date.now()}`]
+    );
+    await executeTestQuery(
+      `INSERT INTO user_companies (_id, user_id, company_id, role)
+       VALUES ($1, $2, $4, 'owner'), ($3, $5, $4, 'admin')`,
+      [`uc_${Date.now()}_o`, owner._id, `uc_${Date.now()}_m`, company.id, member._id]
+    );
+
+    const response = await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password })
+      .expect(200);
+
+    return {
+      ownerId: owner._id,
+      memberId: member._id,
+      companyId: company.id,
+      headers: { ...getSessionCookies(response).headers, 'X-Company-Id': company.id },
+    };
+  }
+
+  async function hasPermission(userId: string, companyId: string, permission: string) {
+    const [row] = await executeTestQuery<{ allowed: boolean }>(
+      `SELECT rbac.has_permission($1, $2, $3) AS allowed`,
+      [userId, companyId, permission]
+    );
+    return row.allowed;
+  }
+
+  test('should give members the base role permissions plus the role own', async () => {
+    const ctx = await signinOwnerWithMember();
+
+    const role = await request(API_URL)
+      .post('/api/rbac.create_custom_role')
+      .set(ctx.headers)
+      .send({
+        company_id: ctx.companyId,
+        name: 'Finance Controller',
+        base_role: 'guest',
+        permissions: ['company.update'],
+      })
+      .expect(200);
+
+    await request(API_URL)
+      .post('/api/rbac.assign_custom_role')
+      .set(ctx.headers)
+      .send({ company_id: ctx.companyId, member_id: ctx.memberId, custom_role_id: role.body.id })
+      .expect(200);
+
+    expect(await hasPermission(ctx.memberId, ctx.companyId, 'company.update')).toBe(true);
+    expect(await hasPermission(ctx.memberId, ctx.companyId, 'company.read')).toBe(true);
+    // Admin-only, no longer held with the guest base role
+    expect(await hasPermission(ctx.memberId, ctx.companyId, 'company.change_roles')).toBe(false);
+
+    const members = await request(API_URL)
+      .post('/api/company.get_company_members')
+      .set(ctx.headers)
+      .send({ company_id: ctx.companyId })
+      .expect(200);
+    const member = members.body.find((m: any) => m.userId === ctx.memberId);
+    expect(member.role).toBe('guest');
+    expect(member.customRole.name).toBe('Finance Controller');
+
+    await request(API_URL)
+      .post('/api/rbac.delete_custom_role')
+      .set(ctx.headers)
+      .send({ company_id: ctx.companyId, custom_role_id: role.body.id })
+      .expect(200);
+
+    expect(await hasPermission(ctx.memberId, ctx.companyId, 'company.update')).toBe(false);
+    expect(await hasPermission(ctx.memberId, ctx.companyId, 'company.read')).toBe(true);
+  });
+
+  test('should refuse owner base roles, unknown permissions and owners as members', async () => {
+    const ctx = await signinOwnerWithMember();
+
+    await request(API_URL)
+      .post('/api/rbac.create_custom_role')
+      .set(ctx.headers)
+      .send({ company_id: ctx.companyId, name: 'Co-Owner', base_role: 'owner', permissions: [] })
+      .expect(400);
+
+    const unknown = await request(API_URL)
+      .post('/api/rbac.create_custom_role')
+      .set(ctx.headers)
+      .send({ company_id: ctx.companyId, name: 'Auditor', base_role: 'member', permissions: ['no.such_permission'] })
+      .expect(403);
+    expect(unknown.body.field).toBe('permissions');
+
+    const role = await request(API_URL)
+      .post('/api/rbac.create_custom_role')
+      .set(ctx.headers)
+      .send({ company_id: ctx.companyId, name: 'Auditor', base_role: 'member', permissions: [] })
+      .expect(200);
+
+    await request(API_URL)
+      .post('/api/rbac.assign_custom_role')
+      .set(ctx.headers)
+      .send({ company_id: ctx.companyId, member_id: ctx.ownerId, custom_role_id: role.body.id })
+      .expect(409);
+  });
+});
+
+describe('Permission administration', () => {
+  async function signinOwnerWithMember() {
+    const email = generateRandomEmail();
+    const password = 'SecurePass123';
+    const owner = await insertTestUser({
+      email,
+      password: await hashPassword(password),
+      fullname: 'Company Owner',
+      verified: true,
+    });
+    const member = await insertTestUser({
+      email: generateRandomEmail(),
+      password: await hashPassword(password),
+      fullname: 'Company Member',
+      verified: true,
+    });
+
+    const [company] = await executeTestQuery<{ id: string }>(
+      `INSERT INTO companies (_id, title) VALUES ($1, 'Admin Co') RETURNING id`,
+      [`company_${Date.now()}`]
+    );
+    await executeTestQuery(
+      `INSERT INTO user_companies (_id, user_id, company_id, role)
+       VALUES ($1, $2, $4, 'owner'), ($3, $5, $4, 'member')`,
+      [`uc_${Date.now()}_o`, owner._id, `uc_${Date.now()}_m`, company.id, member._id]
+    );
+
+    const response = await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password })
+      .expect(200);
+
+    return {
+      memberId: member._id,
+      companyId: company.id,
+      headers: { ...getSessionCookies(response).headers, 'X-Company-Id': company.id },
+    };
+  }
+
+  test('should explain a temporary grant and list the member as a holder until it expires', async () => {
+    const ctx = await signinOwnerWithMember();
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+    await request(API_URL)
+      .post('/api/rbac.grant_permission')
+      .set(ctx.headers)
+      .send({
+        company_id: ctx.companyId,
+        user_id: ctx.memberId,
+        permission_name: 'audit.read',
+        reason: 'Quarter close',
+        expires_at: tomorrow,
+      })
+      .expect(200);
+
+    const explained = await request(API_URL)
+      .post('/api/rbac.explain_user_permissions')
+      .set(ctx.headers)
+      .send({ company_id: ctx.companyId, member_id: ctx.memberId })
+      .expect(200);
+    const auditRead = explained.body.permissions.find((p: any) => p.name === 'audit.read');
+    expect(auditRead).toMatchObject({ granted: true, source: 'grant', reason: 'Quarter close' });
+    expect(auditRead.expires_at).toBeGreaterThan(Date.now());
+    const companyRead = explained.body.permissions.find((p: any) => p.name === 'company.read');
+    expect(companyRead).toMatchObject({ granted: true, source: 'role' });
+
+    const holders = await request(API_URL)
+      .post('/api/rbac.get_permission_holders')
+      .set(ctx.headers)
+      .send({ company_id: ctx.companyId, permission_name: 'audit.read' })
+      .expect(200);
+    expect(holders.body.find((h: any) => h.userId === ctx.memberId)?.source).toBe('grant');
+
+    await executeTestQuery(
+      `UPDATE user_permissions SET expires_at = NOW() - INTERVAL '1 minute' WHERE user_id = $1`,
+      [ctx.memberId]
+    );
+
+    const expired = await request(API_URL)
+      .post('/api/rbac.get_permission_holders')
+      .set(ctx.headers)
+      .send({ company_id: ctx.companyId, permission_name: 'audit.read' })
+      .expect(200);
+    expect(expired.body.find((h: any) => h.userId === ctx.memberId)).toBeUndefined();
+  });
+
+  test('should refuse a grant that has already expired', async () => {
+    const ctx = await signinOwnerWithMember();
+
+    const response = await request(API_URL)
+      .post('/api/rbac.grant_permission')
+      .set(ctx.headers)
+      .send({
+        company_id: ctx.companyId,
+        user_id: ctx.memberId,
+        permission_name: 'audit.read',
+        reason: 'Too late',
+        expires_at: new Date(Date.now() - 60_000).toISOString(),
+      })
+      .expect(400);
+
+    expect(response.body.field).toBe('expires_at');
+  });
+
+  test('should not let an admin grant a permission they lack', async () => {
+    const ctx = await signinOwnerWithMember();
+    const email = generateRandomEmail();
+    const admin = await insertTestUser({
+      email,
+      password: await hashPassword('SecurePass123'),
+      fullname: 'Company Admin',
+      verified: true,
+    });
+    await executeTestQuery(
+      `INSERT INTO user_companies (_id, user_id, company_id, role) VALUES ($1, $2, $3, 'admin')`,
+      [`uc_${Date.now()}_a`, admin._id, ctx.companyId]
+    );
+    // company.change_roles is critical: the owner gave it to the admin
+    await executeTestQuery(
+      `INSERT INTO user_permissions (user_id, company_id, permission_id, grant_type)
+       SELECT $1, $2, id, 'grant' FROM permissions WHERE name = 'company.change_roles'`,
+      [admin._id, ctx.companyId]
+    );
+    const signin = await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password: 'SecurePass123' })
+      .expect(200);
+    const headers = { ...getSessionCookies(signin).headers, 'X-Company-Id': ctx.companyId };
+
+    const refused = await request(API_URL)
+      .post('/api/rbac.grant_permission')
+      .set(headers)
+      .send({ company_id: ctx.companyId, user_id: ctx.memberId, permission_name: 'auth.impersonate' })
+      .expect(403);
+    expect(refused.body.field).toBe('permission_name');
+
+    await request(API_URL)
+      .post('/api/rbac.grant_permission')
+      .set(headers)
+      .send({ company_id: ctx.companyId, user_id: ctx.memberId, permission_name: 'audit.read' })
+      .expect(200);
+  });
+});
+
+describe('Tenant isolation', () => {
+  async function signinOwner(title: string) {
+    const email = generateRandomEmail();
+    const password = 'SecurePass123';
+    const user = await insertTestUser({
+      email,
+      password: await hashPassword(password),
+      fullname: `${title} Owner`,
+      verified: true,
+    });
+
+    const [company] = await executeTestQuery<{ id: string }>(
+      `INSERT INTO companies (_id, title) VALUES ($1, $2) RETURNING id`,
+      [`company_${Date.now()}_${title}`, title]
+    );
+    await executeTestQuery(
+      `INSERT INTO user_companies (_id, user_id, company_id, role) VALUES ($1, $2, $3, 'owner')`,
+      [`uc_${Date.now()}_${title}`, user._id, company.id]
+    );
+
+    const response = await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password })
+      .expect(200);
+
+    return {
+      userId: user._id,
+      companyId: company.id,
+      headers: { ...getSessionCookies(response).headers, 'X-Company-Id': company.id },
+    };
+  }
+
+  async function insertTask(companyId: string, creatorId: string) {
+    const [task] = await executeTestQuery<{ id: string }>(
+      `INSERT INTO tasks (_id, company_id, creator_id, title) VALUES ($1, $2, $3, 'Payroll') RETURNING id`,
+      [`task_${Date.now()}_${companyId}`, companyId, creatorId]
+    );
+    return task;
+  }
+
+  test('should not let the owner of one company change rows of another', async () => {
+    const victim = await signinOwner('Victim');
+    const attacker = await signinOwner('Attacker');
+
+    const [task] = await executeTestQuery<{ id: string }>(
+      `INSERT INTO tasks (_id, company_id, creator_id, title) VALUES ($1, $2, $3, 'Payroll') RETURNING id`,
+      [`task_${Date.now()}`, victim.companyId, victim.userId]
+    );
+    const [node] = await executeTestQuery<{ id: string }>(
+      `INSERT INTO orgcharts (company_id, type, title) VALUES ($1, 'orgchart', 'Structure') RETURNING id`,
+      [victim.companyId]
+    );
+
+    // The attacker owns their company, so the gateway check passes there
+    await request(API_URL)
+      .post('/api/task.delete_task')
+      .set(attacker.headers)
+      .send({ task_id: task.id })
+      .expect(403);
+    await request(API_URL)
+      .post('/api/orgchart.delete_node')
+      .set(attacker.headers)
+      .send({ node_id: node.id })
+      .expect(403);
+
+    const tasks = await executeTestQuery(`SELECT 1 FROM tasks WHERE id = $1`, [task.id]);
+    const nodes = await executeTestQuery(`SELECT 1 FROM orgcharts WHERE id = $1`, [node.id]);
+    expect(tasks).toHaveLength(1);
+    expect(nodes).toHaveLength(1);
+
+    await request(API_URL)
+      .post('/api/task.delete_task')
+      .set(victim.headers)
+      .send({ task_id: task.id })
+      .expect(200);
+  });
+
+  test('should keep an impersonation session to rows of its company', async () => {
+    const support = await signinOwner('Support');
+    const victim = await signinOwner('Victim');
+    const admin = await insertTestUser({
+      email: generateRandomEmail(),
+      password: await hashPassword('SecurePass123'),
+      fullname: 'Shared Admin',
+      verified: true,
+    });
+    for (const companyId of [support.companyId, victim.companyId]) {
+      await executeTestQuery(
+        `INSERT INTO user_companies (_id, user_id, company_id, role) VALUES ($1, $2, $3, 'admin')`,
+        [`uc_${Date.now()}_${companyId}`, admin._id, companyId]
+      );
+    }
+    const own = await insertTask(support.companyId, support.userId);
+    const other = await insertTask(victim.companyId, victim.userId);
+
+    const started = await request(API_URL)
+      .post('/api/auth.start_impersonation')
+      .set(support.headers)
+      .send({ company_id: support.companyId, target_user_id: admin._id, reason: 'Ticket 7' })
+      .expect(200);
+    const headers = getSessionCookies(started).headers;
+
+    // The admin may update tasks in both companies, the session only in its own
+    await request(API_URL)
+      .post('/api/task.update_task')
+      .set(headers)
+      .send({ task_id: other.id, title: 'Renamed' })
+      .expect(403);
+    await request(API_URL)
+      .post('/api/task.update_task')
+      .set(headers)
+      .send({ task_id: own.id, title: 'Renamed' })
+      .expect(200);
+  });
+
+  test('should keep an API token to rows of its company', async () => {
+    const owner = await signinOwner('Victim');
+    const [company] = await executeTestQuery<{ id: string }>(
+      `INSERT INTO companies (_id, title) VALUES ($1, 'Integration') RETURNING id`,
+      [`company_${Date.now()}_Integration`]
+    );
+    await executeTestQuery(
+      `INSERT INTO user_companies (_id, user_id, company_id, role) VALUES ($1, $2, $3, 'owner')`,
+      [`uc_${Date.now()}_Integration`, owner.userId, company.id]
+    );
+    const own = await insertTask(company.id, owner.userId);
+    const other = await insertTask(owner.companyId, owner.userId);
+
+    const created = await request(API_URL)
+      .post('/api/auth.create_api_token')
+      .set({ ...owner.headers, 'X-Company-Id': company.id })
+      .send({ company_id: company.id, name: 'Sync', permissions: ['task.update'] })
+      .expect(200);
+    const bearer = { Authorization: `Bearer ${created.body.token}` };
+
+    // The owner may update tasks in both companies, the token only in its own
+    await request(API_URL)
+      .post('/api/task.update_task')
+      .set(bearer)
+      .send({ task_id: other.id, title: 'Renamed' })
+      .expect(403);
+    await request(API_URL)
+      .post('/api/task.update_task')
+      .set(bearer)
+      .send({ task_id: own.id, title: 'Renamed' })
+      .expect(200);
+  });
+
+  test('should keep platform-wide user functions to system administrators', async () => {
+    const victim = await signinOwner('Victim');
+    const owner = await signinOwner('Attacker');
+
+    await request(API_URL)
+      .post('/api/users.delete')
+      .set(owner.headers)
+      .send({ user_id: victim.userId })
+      .expect(403);
+    await request(API_URL).post('/api/users.get_all').set(owner.headers).send({}).expect(403);
+
+    await executeTestQuery(`UPDATE users SET is_system_admin = TRUE WHERE _id = $1`, [owner.userId]);
+
+    const all = await request(API_URL).post('/api/users.get_all').set(owner.headers).send({}).expect(200);
+    expect(all.body.some((user: any) => user._id === victim.userId)).toBe(true);
+  });
+
+  test('should only show the audit log of the company with audit.read', async () => {
+    const victim = await signinOwner('Victim');
+    const owner = await signinOwner('Auditor');
+
+    await executeTestQuery(
+      `SELECT audit.log_action($1, 'UPDATE', 'companies', $2::TEXT, $2::UUID, NULL, '{"title": "Secret"}')`,
+      [victim.userId, victim.companyId]
+    );
+
+    await request(API_URL).get('/api/audit/logs/recent').expect(401);
+    await request(API_URL).get('/api/audit/sessions/active').expect(401);
+
+    const logs = await request(API_URL).get('/api/audit/logs/recent').set(owner.headers).expect(200);
+    expect(logs.body.some((log: any) => log.company_id === victim.companyId)).toBe(false);
+
+    const trail = await request(API_URL)
+      .get(`/api/audit/trail/companies/${victim.companyId}`)
+      .set(owner.headers)
+      .expect(200);
+    expect(trail.body).toEqual([]);
+
+    // The actor is the session user, the record must belong to the company
+    await request(API_URL)
+      .post(`/api/audit/restore/companies/${victim.companyId}`)
+      .set(owner.headers)
+      .send({ restoredBy: victim.userId })
+      .expect(404);
+
+    const own = await request(API_URL).get('/api/audit/logs/recent').set(victim.headers).expect(200);
+    expect(own.body.some((log: any) => log.company_id === victim.companyId)).toBe(true);
+  });
+});
+
+describe('Session cookies', () => {
+  async function signin() {
+    const email = generateRandomEmail();
+    const password = 'SecurePass123';
+
+    await insertTestUser({
+      email,
+      password: await hashPassword(password),
+      fullname: 'Test User',
+      verified: true,
+    });
+
+    const response = await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password })
+      .expect(200);
+
+    return getSessionCookies(response);
+  }
+
+  test('should reject cookie-authenticated POST without CSRF token', async () => {
+    const { headers } = await signin();
+
+    const response = await request(API_URL)
+      .post('/api/auth.verify_session')
+      .set('Cookie', headers.Cookie)
+      .send({})
+      .expect(403);
+
+    expect(response.body).toMatchObject({ code: 'PERMISSION_DENIED', field: 'csrf_token' });
+  });
+
+  test('should rotate an old token and accept the previous one briefly', async () => {
+    const { token, headers } = await signin();
+
+    // Token issued 20 minutes ago
+    await executeTestQuery(
+      'UPDATE sessions SET token_issued_at = $1 WHERE token = $2',
+      [Date.now() - 20 * 60 * 1000, token]
+    );
+
+    const response = await request(API_URL)
+      .post('/api/auth.verify_session')
+      .set(headers)
+      .send({})
+      .expect(200);
+
+    const rotated = getSessionCookies(response);
+    expect(rotated.token).toBeTruthy();
+    expect(rotated.token).not.toBe(token);
+
+    // CSRF token survives rotation
+    expect(rotated.csrfToken).toBe(headers['X-CSRF-Token']);
+
+    // Request already in flight with the old token still passes
+    await request(API_URL)
+      .post('/api/auth.verify_session')
+      .set(headers)
+      .send({})
+      .expect(200);
+
+    expect(await getTestSessionByToken(rotated.token)).not.toBeNull();
+  });
+
+  test('should extend expiry on activity', async () => {
+    const { token, headers } = await signin();
+
+    await executeTestQuery(
+      'UPDATE sessions SET expires_at = $1 WHERE token = $2',
+      [Date.now() + 60 * 60 * 1000, token]
+    );
+
+    await request(API_URL)
+      .post('/api/auth.verify_session')
+      .set(headers)
+      .send({})
+      .expect(200);
+
+    const session = await getTestSessionByToken(token);
+    expect(Number(session!.expires_at)).toBeGreaterThan(Date.now() + 6 * 24 * 60 * 60 * 1000);
+  });
+});
+
+// ============================================
+// POST /api/auth.forgot_password
+// ============================================
+
+describe('POST /api/auth.forgot_password', () => {
+  test('should generate reset token for existing user', async () => {
+    const email = generateRandomEmail();
+    const password = await hashPassword('SecurePass123');
+
+    await insertTestUser({
+      email,
+      password,
+      fullname: 'Test User',
+      verified: true,
+    });
+
+    const response = await request(API_URL)
+      .post('/api/auth.forgot_password')
+      .send({ email })
+      .expect(200);
+
+    expect(response.body.message).toContain('If an account exists');
+    // The link is emailed by the server, never returned
+    expect(response.body).toEqual({ message: expect.any(String) });
+
+    // Verify reset token was set in database
+    const user = await getTestUserByEmail(email);
+    expect(user?.reset_token).toBeTruthy();
+    expect(user?.reset_token_expiry).toBeGreaterThan(Date.now());
+  });
+
+  test('should not reveal if email does not exist', async () => {
+    const response = await request(API_URL)
+      .post('/api/auth.forgot_password')
+      .send({ email: 'nonexistent@example.com' })
+      .expect(200);
+
+    // Same message even if email doesn't exist
+    expect(response.body.message).toContain('If an account exists');
+  });
+});
+
+// ============================================
+// POST /api/auth.reset_password
+// ============================================
+
+describe('POST /api/auth.reset_password', () => {
+  test('should set a bcrypt password and consume the token', async () => {
+    const email = generateRandomEmail();
+
+    await insertTestUser({
+      email,
+      password: await hashPassword('OldPassword123'),
+      password_algo: 'sha256',
+      fullname: 'Test User',
+      verified: true,
+    });
+
+    await request(API_URL)
+      .post('/api/auth.forgot_password')
+      .send({ email })
+      .expect(200);
+    const resetToken = (await getTestUserByEmail(email))?.reset_token;
+
+    await request(API_URL)
+      .post('/api/auth.reset_password')
+      .send({ token: resetToken, new_password: 'NewPassword456' })
+      .expect(200);
+
+    const user = await getTestUserByEmail(email);
+    expect(user?.password_algo).toBe('bcrypt');
+    expect(user?.reset_token).toBeNull();
+
+    await request(API_URL)
+      .post('/api/auth.signin')
+      .send({ email, password: 'NewPassword456' })
+      .expect(200);
+
+    // Token is single-use
+    const reuse = await request(API_URL)
+      .post('/api/auth.reset_password')
+      .send({ token: resetToken, new_password: 'AnotherPassword789' })
+      .expect(400);
+
+    expect(reuse.body.code).toBe('VALIDATION_FAILED');
+  });
+});
+
+// ============================================
+// ERROR HANDLING
+// ============================================
+
+describe('Error Handling', () => {
+  test('should return 400 for malformed JSON', async () => {
+    const response = await request(API_URL)
+      .post('/api/auth.signup')
+      .send('{ invalid json }')
+      .set('Content-Type', 'application/json')
+      .expect(400);
+
+    expect(response.body.code).toBe('BAD_REQUEST');
+  });
+
+  test('should return 404 for invalid function name', async () => {
+    const response = await request(API_URL)
+      .post('/api/auth.nonexistent_function')
+      .send({})
+      .expect(404);
+
+    expect(response.body.code).toBe('NOT_FOUND');
   });
 
   test('should handle database connection errors gracefully', async () => {
@@ -18,6 +18,7 @@ import {
   getTestUserByEmail,
   executeTestQuery,
   hashPassword,
+  getSessionCookies,
   generateRandomEmail,
 } from '@/test/utils/test-helpers';
 import { SQL_INJECTION_PAYLOADS } from '@/test/utils/mock-data';
@@ -318,7 +319,7 @@ describe('SQL Injection - Account Verification', () => {
     for (const payload of sqlPayloads) {
       const response = await request(API_URL)
         .post('/api/auth.verify_account')
-        .send({ code: payload });
+        .send({ code: payload, email: 'victim@example.com' });
 
       // Should fail validation or return invalid code error
       expect([400, 401]).toContain(response.status);
@@ -349,7 +350,7 @@ describe('SQL Injection - Session Verification', () => {
       .post('/api/auth.signin')
       .send({ email, password });
 
-    const validToken = signinResponse.body.session.token;
+    const validToken = getSessionCookies(signinResponse).token;
 
     // Try SQL injection in token
     const injectionPayloads = [
@@ -15,6 +15,8 @@ import {
   clearTestDatabase,
   insertTestUser,
   hashPassword,
+  getSessionCookies,
+  hashPasswordBcrypt,
   generateRandomEmail,
   measureExecutionTime,
   measureAverageDuration,
@@ -164,6 +166,108 @@ describe('Timing Attack Prevention - Signin', () => {
   });
 });
 
+// ============================================
+// PASSWORD HASH SCHEME TIMING
+// ============================================
+
+describe('Timing Attack Prevention - Password Hash Schemes', () => {
+  test('should have consistent response time for bcrypt users vs non-existing emails', async () => {
+    const existingEmail = generateRandomEmail();
+    const nonExistingEmail = generateRandomEmail();
+
+    await insertTestUser({
+      email: existingEmail,
+      password: await hashPasswordBcrypt('SecurePass123'),
+      password_algo: 'bcrypt',
+      fullname: 'Bcrypt User',
+      verified: true,
+    });
+
+    // Unknown emails must pay the same bcrypt cost as a real password check
+    const existingEmailDuration = await measureAverageDuration(async () => {
+      await request(API_URL)
+        .post('/api/auth.signin')
+        .send({ email: existingEmail, password: 'WrongPassword123' });
+    }, 10);
+
+    const nonExistingEmailDuration = await measureAverageDuration(async () => {
+      await request(API_URL)
+        .post('/api/auth.signin')
+        .send({ email: nonExistingEmail, password: 'WrongPassword123' });
+    }, 10);
+
+    expect(isTimingConsistent(existingEmailDuration, nonExistingEmailDuration, 20)).toBe(true);
+
+    console.log(`Bcrypt user: ${existingEmailDuration.toFixed(2)}ms`);
+    console.log(`Non-existing email: ${nonExistingEmailDuration.toFixed(2)}ms`);
+  });
+
+  test('should not reveal legacy SHA-256 accounts through timing', async () => {
+    const legacyEmail = generateRandomEmail();
+    const bcryptEmail = generateRandomEmail();
+
+    await insertTestUser({
+      email: legacyEmail,
+      password: await hashPassword('SecurePass123'),
+      password_algo: 'sha256',
+      fullname: 'Legacy User',
+      verified: true,
+    });
+
+    await insertTestUser({
+      email: bcryptEmail,
+      password: await hashPasswordBcrypt('SecurePass123'),
+      password_algo: 'bcrypt',
+      fullname: 'Bcrypt User',
+      verified: true,
+    });
+
+    // Wrong passwords: no rehash happens, only the verification cost is measured
+    const legacyDuration = await measureAverageDuration(async () => {
+      await request(API_URL)
+        .post('/api/auth.signin')
+        .send({ email: legacyEmail, password: 'WrongPassword123' });
+    }, 10);
+
+    const bcryptDuration = await measureAverageDuration(async () => {
+      await request(API_URL)
+        .post('/api/auth.signin')
+        .send({ email: bcryptEmail, password: 'WrongPassword123' });
+    }, 10);
+
+    expect(isTimingConsistent(legacyDuration, bcryptDuration, 20)).toBe(true);
+
+    console.log(`Legacy SHA-256 user: ${legacyDuration.toFixed(2)}ms`);
+    console.log(`Bcrypt user: ${bcryptDuration.toFixed(2)}ms`);
+  });
+
+  test('should not leak password length through bcrypt timing', async () => {
+    const email = generateRandomEmail();
+
+    await insertTestUser({
+      email,
+      password: await hashPasswordBcrypt('SecurePassword123456'),
+      password_algo: 'bcrypt',
+      fullname: 'Bcrypt User',
+      verified: true,
+    });
+
+    const shortPasswordDuration = await measureAverageDuration(async () => {
+      await request(API_URL)
+        .post('/api/auth.signin')
+        .send({ email, password: 'short' });
+    }, 5);
+
+    const longPasswordDuration = await measureAverageDuration(async () => {
+      await request(API_URL)
+        .post('/api/auth.signin')
+        .send({ email, password: 'verylongpasswordthatistoolongtobereal' });
+    }, 5);
+
+    expect(isTimingConsistent(shortPasswordDuration, longPasswordDuration, 20)).toBe(true);
+  });
+});
+
 // ============================================
 // FORGOT PASSWORD TIMING
 // ============================================
@@ -230,7 +334,7 @@ describe('Timing Attack Prevention - Verification', () => {
       const duration = await measureAverageDuration(async () => {
         await request(API_URL)
           .post('/api/auth.verify_account')
-          .send({ code });
+          .send({ code, email });
       }, 3);
       durations.push(duration);
     }
@@ -269,7 +373,7 @@ describe('Timing Attack Prevention - Session Verification', () => {
       .post('/api/auth.signin')
       .send({ email, password });
 
-    const validToken = signinResponse.body.session.token;
+    const validToken = getSessionCookies(signinResponse).token;
 
     // Measure timing for valid token
     const validTokenDuration = await measureAverageDuration(async () => {
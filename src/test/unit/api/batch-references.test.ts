@@ -0,0 +1,45 @@
+/**
+ * Batch Reference Unit Tests
+ *
+ * Tests resolution of { $ref } values against results of earlier batch calls.
+ */
+
+import { describe, test, expect } from 'vitest';
+import { resolveBatchReferences, type BatchCall } from '@/api/routes/batch.routes';
+
+const CALLS: BatchCall[] = [
+  { id: 'dept', fn: 'orgchart.create_department' },
+  { fn: 'orgchart.create_position' },
+];
+
+const RESULTS = [{ department: { id: 'dept-uuid' }, headPosition: { id: 'head-uuid' } }];
+
+describe('resolveBatchReferences', () => {
+  test('should resolve references by call id', () => {
+    const params = resolveBatchReferences(
+      { parent_id: { $ref: 'dept.department.id' }, title: 'Analyst' },
+      CALLS,
+      RESULTS
+    );
+
+    expect(params).toEqual({ parent_id: 'dept-uuid', title: 'Analyst' });
+  });
+
+  test('should resolve references by index inside arrays', () => {
+    const params = resolveBatchReferences({ ids: [{ $ref: '0.headPosition.id' }] }, CALLS, RESULTS);
+
+    expect(params).toEqual({ ids: ['head-uuid'] });
+  });
+
+  test('should reject references to calls that have not run', () => {
+    expect(() => resolveBatchReferences({ parent_id: { $ref: '1.id' } }, CALLS, RESULTS)).toThrow(
+      'Reference 1.id points to a call that has not run'
+    );
+  });
+
+  test('should reject paths that do not exist in the result', () => {
+    expect(() => resolveBatchReferences({ parent_id: { $ref: 'dept.missing.id' } }, CALLS, RESULTS)).toThrow(
+      'did not resolve to a value'
+    );
+  });
+});
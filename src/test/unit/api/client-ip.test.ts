@@ -0,0 +1,59 @@
+/**
+ * Client IP Unit Tests
+ *
+ * Tests that proxy headers are only believed from the proxies in
+ * TRUSTED_PROXIES; everyone else is identified by the socket address.
+ */
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { Hono } from 'hono';
+import { getClientIp } from '@/api/middleware/client-ip';
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function clientIp(remoteAddress: string, headers: Record<string, string> = {}) {
+  const app = new Hono();
+  app.get('/', (c) => c.json({ ip: getClientIp(c) }));
+
+  const response = await app.request('/', { headers }, { incoming: { socket: { remoteAddress } } });
+  return (await response.json()).ip;
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('getClientIp', () => {
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXIES;
+  });
+
+  test('should ignore proxy headers without a trusted proxy', async () => {
+    const ip = await clientIp('198.51.100.7', {
+      'X-Forwarded-For': '203.0.113.1',
+      'X-Real-IP': '203.0.113.2',
+    });
+
+    expect(ip).toBe('198.51.100.7');
+  });
+
+  test('should take the last untrusted X-Forwarded-For hop behind a trusted proxy', async () => {
+    process.env.TRUSTED_PROXIES = '10.0.0.1, 10.0.0.2';
+
+    const ip = await clientIp('::ffff:10.0.0.2', {
+      'X-Forwarded-For': '203.0.113.99, 198.51.100.7, 10.0.0.1',
+    });
+
+    expect(ip).toBe('198.51.100.7');
+  });
+
+  test('should not trust headers from other peers when proxies are configured', async () => {
+    process.env.TRUSTED_PROXIES = '10.0.0.1';
+
+    const ip = await clientIp('198.51.100.7', { 'X-Forwarded-For': '203.0.113.1' });
+
+    expect(ip).toBe('198.51.100.7');
+  });
+});
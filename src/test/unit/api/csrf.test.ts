@@ -0,0 +1,68 @@
+/**
+ * CSRF Middleware Unit Tests
+ *
+ * Tests the double-submit check: cookie-authenticated state-changing requests
+ * must echo the csrf_token cookie in X-CSRF-Token.
+ */
+
+import { describe, test, expect } from 'vitest';
+import { Hono } from 'hono';
+import { csrfMiddleware } from '@/api/middleware/csrf.middleware';
+
+// ============================================
+// HELPERS
+// ============================================
+
+function app() {
+  const hono = new Hono();
+  hono.use('/api/*', csrfMiddleware);
+  hono.all('/api/:fn', (c) => c.json({ ok: true }));
+  return hono;
+}
+
+function post(headers: Record<string, string>) {
+  return app().request('/api/auth.signout', { method: 'POST', headers, body: '{}' });
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('csrfMiddleware', () => {
+  test('should accept a matching X-CSRF-Token header', async () => {
+    const response = await post({
+      Cookie: 'session_token=abc; csrf_token=csrf-123',
+      'X-CSRF-Token': 'csrf-123',
+    });
+
+    expect(response.status).toBe(200);
+  });
+
+  test('should reject a missing or different token', async () => {
+    const missing = await post({ Cookie: 'session_token=abc; csrf_token=csrf-123' });
+    const different = await post({
+      Cookie: 'session_token=abc; csrf_token=csrf-123',
+      'X-CSRF-Token': 'csrf-456',
+    });
+
+    expect(missing.status).toBe(403);
+    expect(different.status).toBe(403);
+    expect(await different.json()).toMatchObject({ code: 'PERMISSION_DENIED', field: 'csrf_token' });
+  });
+
+  test('should not check requests without a session cookie or with a bearer token', async () => {
+    const anonymous = await post({});
+    const bearer = await post({ Cookie: 'session_token=abc', Authorization: 'Bearer abc' });
+
+    expect(anonymous.status).toBe(200);
+    expect(bearer.status).toBe(200);
+  });
+
+  test('should not check safe methods', async () => {
+    const response = await app().request('/api/reference', {
+      headers: { Cookie: 'session_token=abc' },
+    });
+
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * API Error Model Unit Tests
+ *
+ * Tests translation of PostgreSQL errors (SQLSTATE, COLUMN, DETAIL) into
+ * stable error codes, HTTP statuses and the { code, message, field, details } body.
+ */
+
+import { describe, test, expect } from 'vitest';
+import { Hono } from 'hono';
+import { ApiError, errorResponse, toApiError } from '@/api/errors';
+
+/** Shape of errors thrown by node-postgres */
+function pgError(fields: { code: string; message: string; column?: string; detail?: string }) {
+  return Object.assign(new Error(fields.message), fields);
+}
+
+describe('toApiError', () => {
+  test('should map custom SQLSTATE codes to error codes and statuses', () => {
+    const error = toApiError(pgError({ code: 'AK404', message: 'Company not found: abc' }));
+
+    expect(error.code).toBe('NOT_FOUND');
+    expect(error.status).toBe(404);
+    expect(error.toJSON()).toEqual({ code: 'NOT_FOUND', message: 'Company not found: abc' });
+  });
+
+  test('should expose COLUMN as field and parse JSON DETAIL', () => {
+    const error = toApiError(
+      pgError({
+        code: 'AK403',
+        message: 'Permission denied: You do not have permission to grant permissions',
+        column: 'granted_by',
+        detail: '{"permission": "company.change_roles"}',
+      })
+    );
+
+    expect(error.status).toBe(403);
+    expect(error.toJSON()).toMatchObject({
+      code: 'PERMISSION_DENIED',
+      field: 'granted_by',
+      details: { permission: 'company.change_roles' },
+    });
+  });
+
+  test('should map standard constraint violations', () => {
+    const error = toApiError(
+      pgError({ code: '23505', message: 'duplicate key', detail: 'Key (email)=(a@b.c) already exists.' })
+    );
+
+    expect(error.code).toBe('CONFLICT');
+    expect(error.status).toBe(409);
+    expect(error.details).toBe('Key (email)=(a@b.c) already exists.');
+  });
+
+  test('should keep plain RAISE EXCEPTION messages as BAD_REQUEST', () => {
+    const error = toApiError(pgError({ code: 'P0001', message: 'Something specific failed' }));
+
+    expect(error.code).toBe('BAD_REQUEST');
+    expect(error.status).toBe(400);
+    expect(error.message).toBe('Something specific failed');
+  });
+
+  test('should hide unexpected database and runtime errors', () => {
+    const syntax = toApiError(pgError({ code: '42601', message: 'syntax error at or near "FROM"' }));
+    const runtime = toApiError(new TypeError('Cannot read properties of undefined'));
+
+    expect(syntax.toJSON()).toEqual({ code: 'INTERNAL_ERROR', message: 'Internal server error' });
+    expect(runtime.status).toBe(500);
+  });
+
+  test('should pass gateway errors through unchanged', () => {
+    const error = new ApiError('UNAUTHENTICATED', 'Authentication required');
+
+    expect(toApiError(error)).toBe(error);
+    expect(error.status).toBe(401);
+  });
+});
+
+describe('errorResponse', () => {
+  test('should send retryAfter details as the Retry-After header', async () => {
+    const app = new Hono();
+    app.get('/', (c) =>
+      errorResponse(
+        c,
+        pgError({
+          code: 'AK423',
+          message: 'Account is temporarily locked after too many failed sign-in attempts',
+          detail: '{"retryAfter": 900}',
+        })
+      )
+    );
+
+    const response = await app.request('/');
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get('Retry-After')).toBe('900');
+    expect(await response.json()).toMatchObject({ code: 'ACCOUNT_LOCKED', details: { retryAfter: 900 } });
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Function Policy Unit Tests
+ *
+ * Tests gateway authorization: default deny, session requirement,
+ * server-side user injection, permission checks, impersonation and API token scopes.
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import type { Context } from 'hono';
+import type { Pool } from 'pg';
+import { authorizeFunctionCall, getFunctionPolicy } from '@/api/middleware/function-policy';
+import { buildFunctionRegistry, type FunctionCatalogRow } from '@/api/db/function-registry';
+
+// ============================================
+// HELPERS
+// ============================================
+
+function definition(name: string, argNames: string[]) {
+  const [schema, fn] = name.split('.');
+  const row: FunctionCatalogRow = {
+    schema,
+    name: fn,
+    arg_names: argNames,
+    arg_modes: null,
+    arg_types: argNames.map(() => 'text'),
+    default_count: 0,
+    return_type: 'jsonb',
+    description: null,
+  };
+  return buildFunctionRegistry([row]).get(name)!;
+}
+
+function context(
+  userId?: string,
+  headers: Record<string, string> = {},
+  variables: Record<string, unknown> = {}
+) {
+  const values: Record<string, unknown> = { userId, ...variables };
+  return {
+    get: (key: string) => values[key],
+    req: { header: (key: string) => headers[key.toLowerCase()] },
+  } as unknown as Context;
+}
+
+function pool(allowed: boolean) {
+  return { query: vi.fn().mockResolvedValue({ rows: [{ allowed }] }) } as unknown as Pool;
+}
+
+// ============================================
+// POLICY LOOKUP
+// ============================================
+
+describe('getFunctionPolicy', () => {
+  test('should resolve schema wildcards', () => {
+    expect(getFunctionPolicy('reference.get_all_countries')?.access).toBe('public');
+  });
+
+  test('should not expose unlisted functions', () => {
+    expect(getFunctionPolicy('rbac.cleanup_expired_permissions')).toBeUndefined();
+  });
+});
+
+// ============================================
+// AUTHORIZATION
+// ============================================
+
+describe('authorizeFunctionCall', () => {
+  test('should reject functions without a policy', async () => {
+    const result = await authorizeFunctionCall(
+      context('user_1'),
+      pool(true),
+      definition('rbac.set_user_context', ['_user_id', '_company_id']),
+      {}
+    );
+
+    expect(result).toMatchObject({ allowed: false, status: 403 });
+  });
+
+  test('should allow public functions without a session', async () => {
+    const result = await authorizeFunctionCall(
+      context(),
+      pool(false),
+      definition('auth.signin', ['_email', '_password']),
+      { email: 'user@example.com' }
+    );
+
+    expect(result.allowed).toBe(true);
+  });
+
+  test('should require a session for authenticated functions', async () => {
+    const result = await authorizeFunctionCall(
+      context(),
+      pool(true),
+      definition('auth.change_password', ['_user_id', '_current_password', '_new_password']),
+      {}
+    );
+
+    expect(result).toMatchObject({ allowed: false, status: 401 });
+  });
+
+  test('should overwrite user_id sent by the client with the session user', async () => {
+    const body: Record<string, any> = { user_id: 'someone_else', current_password: 'x' };
+
+    await authorizeFunctionCall(
+      context('user_1'),
+      pool(true),
+      definition('auth.change_password', ['_user_id', '_current_password', '_new_password']),
+      body
+    );
+
+    expect(body.user_id).toBe('user_1');
+  });
+
+  test('should inject the session user into a custom actor parameter only', async () => {
+    const body: Record<string, any> = { granted_by: 'spoofed', user_id: 'target_user', company_id: 'c1' };
+
+    await authorizeFunctionCall(
+      context('admin_1'),
+      pool(true),
+      definition('rbac.grant_permission', ['_granted_by', '_user_id', '_company_id', '_permission_name']),
+      body
+    );
+
+    expect(body.granted_by).toBe('admin_1');
+    expect(body.user_id).toBe('target_user');
+  });
+
+  test('should check the permission in the company from the body', async () => {
+    const db = pool(true);
+
+    await authorizeFunctionCall(
+      context('user_1', { 'x-company-id': 'header_company' }),
+      db,
+      definition('company.update_company', ['_company_id', '_title']),
+      { company_id: 'body_company' }
+    );
+
+    expect(db.query).toHaveBeenCalledWith(expect.any(String), ['user_1', 'body_company', 'company.update']);
+  });
+
+  test('should fall back to the X-Company-Id header', async () => {
+    const db = pool(true);
+
+    await authorizeFunctionCall(
+      context('user_1', { 'x-company-id': 'header_company' }),
+      db,
+      definition('task.delete_task', ['_task_id']),
+      { task_id: 'task_1' }
+    );
+
+    expect(db.query).toHaveBeenCalledWith(expect.any(String), ['user_1', 'header_company', 'task.delete']);
+  });
+
+  test('should deny when rbac.has_permission returns false', async () => {
+    const result = await authorizeFunctionCall(
+      context('user_1', { 'x-company-id': 'company_1' }),
+      pool(false),
+      definition('task.delete_task', ['_task_id']),
+      { task_id: 'task_1' }
+    );
+
+    expect(result).toMatchObject({ allowed: false, status: 403, error: 'Permission denied: task.delete' });
+  });
+
+  test('should only allow platform-wide functions to system administrators', async () => {
+    const deleteUser = definition('users.delete', ['_user_id']);
+    const body: Record<string, any> = { user_id: 'target_user' };
+
+    const companyOwner = await authorizeFunctionCall(
+      context('user_1', { 'x-company-id': 'own_company' }),
+      { query: vi.fn().mockResolvedValue({ rows: [{ is_system_admin: false, allowed: true }] }) } as unknown as Pool,
+      deleteUser,
+      body
+    );
+    const systemAdmin = await authorizeFunctionCall(
+      context('admin_1'),
+      { query: vi.fn().mockResolvedValue({ rows: [{ is_system_admin: true }] }) } as unknown as Pool,
+      deleteUser,
+      body
+    );
+
+    expect(companyOwner).toMatchObject({ allowed: false, status: 403, code: 'PERMISSION_DENIED' });
+    expect(systemAdmin.allowed).toBe(true);
+    expect(body.user_id).toBe('target_user');
+  });
+
+  test('should only allow 2FA setup while the company enforces 2FA', async () => {
+    const ctx = context('user_1', {}, { twoFactorSetupRequired: true });
+
+    const blocked = await authorizeFunctionCall(ctx, pool(true), definition('task.get_user_tasks', ['_user_id']), {});
+    const setup = await authorizeFunctionCall(ctx, pool(true), definition('auth.setup_2fa', ['_user_id']), {});
+
+    expect(blocked).toMatchObject({ allowed: false, status: 403, code: 'TWO_FACTOR_REQUIRED' });
+    expect(setup.allowed).toBe(true);
+  });
+
+  test('should only allow a password change while the password is expired', async () => {
+    const ctx = context('user_1', {}, { passwordChangeRequired: true });
+
+    const blocked = await authorizeFunctionCall(ctx, pool(true), definition('task.get_user_tasks', ['_user_id']), {});
+    const change = await authorizeFunctionCall(
+      ctx,
+      pool(true),
+      definition('auth.change_password', ['_user_id', '_current_password', '_new_password']),
+      {}
+    );
+
+    expect(blocked).toMatchObject({ allowed: false, status: 403, code: 'PASSWORD_CHANGE_REQUIRED' });
+    expect(change.allowed).toBe(true);
+  });
+
+  test('should keep an impersonator away from the member\'s account settings', async () => {
+    const ctx = context('user_1', {}, { impersonatorId: 'owner_1' });
+
+    const tasks = await authorizeFunctionCall(ctx, pool(true), definition('task.get_user_tasks', ['_user_id']), {});
+    const password = await authorizeFunctionCall(
+      ctx,
+      pool(true),
+      definition('auth.change_password', ['_user_id', '_current_password', '_new_password']),
+      {}
+    );
+
+    expect(tasks.allowed).toBe(true);
+    expect(password).toMatchObject({ allowed: false, status: 403, code: 'PERMISSION_DENIED' });
+  });
+
+  test('should keep an impersonator in the company of the impersonation', async () => {
+    const ctx = context('user_1', { 'x-company-id': 'other_company_uuid' }, {
+      impersonatorId: 'owner_1',
+      companyId: 'company_uuid',
+    });
+    const db = {
+      query: vi.fn().mockImplementation((_query: string, values: string[]) => Promise.resolve({
+        rows: [{ id: values[0], company_id: values[1], allowed: true }],
+      })),
+    } as unknown as Pool;
+
+    const own = await authorizeFunctionCall(
+      ctx,
+      db,
+      definition('company.update_company', ['_company_id', '_title']),
+      { company_id: 'company_uuid' }
+    );
+    const other = await authorizeFunctionCall(
+      ctx,
+      db,
+      definition('company.update_company', ['_company_id', '_title']),
+      { company_id: 'other_company_uuid' }
+    );
+    const header = await authorizeFunctionCall(ctx, db, definition('task.update_task', ['_task_id']), {});
+
+    expect(own.allowed).toBe(true);
+    expect(other).toMatchObject({ allowed: false, status: 403, code: 'PERMISSION_DENIED' });
+    // X-Company-Id is ignored, the permission is checked in the impersonation company
+    expect(header.allowed).toBe(true);
+    expect(db.query).toHaveBeenLastCalledWith(expect.any(String), ['user_1', 'company_uuid', 'task.update']);
+  });
+
+  test('should limit API tokens to the functions of their permissions', async () => {
+    const ctx = context('user_1', {}, {
+      apiToken: { id: 'token_1', companyId: 'company_uuid', permissions: ['task.update'] },
+    });
+    const db = {
+      query: vi.fn().mockResolvedValue({ rows: [{ company_id: 'company_uuid', allowed: true }] }),
+    } as unknown as Pool;
+
+    const granted = await authorizeFunctionCall(ctx, db, definition('task.update_task', ['_task_id']), {});
+    const notGranted = await authorizeFunctionCall(ctx, db, definition('task.delete_task', ['_task_id']), {});
+    const account = await authorizeFunctionCall(
+      ctx,
+      db,
+      definition('auth.create_api_token', ['_user_id', '_company_id', '_name', '_permissions']),
+      {}
+    );
+
+    expect(granted.allowed).toBe(true);
+    expect(db.query).toHaveBeenCalledWith(expect.any(String), ['user_1', 'company_uuid', 'task.update']);
+    expect(notGranted).toMatchObject({ allowed: false, status: 403, code: 'PERMISSION_DENIED' });
+    expect(account).toMatchObject({ allowed: false, status: 403, code: 'PERMISSION_DENIED' });
+  });
+
+  test('should reject API tokens in another company', async () => {
+    const ctx = context('user_1', {}, {
+      apiToken: { id: 'token_1', companyId: 'company_uuid', permissions: ['company.update'] },
+    });
+    const db = {
+      query: vi.fn().mockResolvedValue({ rows: [{ company_id: 'other_company_uuid', allowed: true }] }),
+    } as unknown as Pool;
+
+    const result = await authorizeFunctionCall(
+      ctx,
+      db,
+      definition('company.update_company', ['_company_id', '_title']),
+      { company_id: 'other_company' }
+    );
+
+    expect(result).toMatchObject({ allowed: false, status: 403, error: 'API token is not valid for this company' });
+  });
+});
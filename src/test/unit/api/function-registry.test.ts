@@ -0,0 +1,123 @@
+/**
+ * Function Registry Unit Tests
+ *
+ * Tests for catalog row parsing and named-parameter call building.
+ * No database required - catalog rows are passed in directly.
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  buildFunctionRegistry,
+  buildFunctionCall,
+  type FunctionCatalogRow,
+} from '@/api/db/function-registry';
+
+// ============================================
+// FIXTURES
+// ============================================
+
+const SIGNIN_ROW: FunctionCatalogRow = {
+  schema: 'auth',
+  name: 'signin',
+  arg_names: ['_email', '_password', '_ip_address', '_user_agent'],
+  arg_modes: null,
+  arg_types: ['text', 'text', 'text', 'text'],
+  default_count: 2,
+  return_type: 'jsonb',
+  description: null,
+};
+
+const UPDATE_COMPANY_ROW: FunctionCatalogRow = {
+  schema: 'company',
+  name: 'update_company',
+  arg_names: ['_company_id', '_title', '_contact'],
+  arg_modes: null,
+  arg_types: ['text', 'text', 'jsonb'],
+  default_count: 2,
+  return_type: 'jsonb',
+  description: 'Update company',
+};
+
+// ============================================
+// REGISTRY BUILDING
+// ============================================
+
+describe('buildFunctionRegistry', () => {
+  test('should strip leading underscore and mark defaulted parameters', () => {
+    const registry = buildFunctionRegistry([SIGNIN_ROW]);
+    const signin = registry.get('auth.signin');
+
+    expect(signin?.params.map((p) => p.name)).toEqual(['email', 'password', 'ip_address', 'user_agent']);
+    expect(signin?.params.map((p) => p.hasDefault)).toEqual([false, false, true, true]);
+    expect(signin?.returns).toBe('jsonb');
+  });
+
+  test('should ignore OUT parameters when argument modes are present', () => {
+    const registry = buildFunctionRegistry([
+      {
+        ...SIGNIN_ROW,
+        name: 'with_out',
+        arg_names: ['_email', 'result'],
+        arg_modes: ['i', 'o'],
+        arg_types: ['text'],
+        default_count: 0,
+      },
+    ]);
+
+    expect(registry.get('auth.with_out')?.params.map((p) => p.sqlName)).toEqual(['_email']);
+  });
+
+  test('should skip functions with unnamed parameters', () => {
+    const registry = buildFunctionRegistry([{ ...SIGNIN_ROW, arg_names: null }]);
+
+    expect(registry.has('auth.signin')).toBe(false);
+  });
+});
+
+// ============================================
+// CALL BUILDING
+// ============================================
+
+describe('buildFunctionCall', () => {
+  test('should use named notation regardless of body key order', () => {
+    const signin = buildFunctionRegistry([SIGNIN_ROW]).get('auth.signin')!;
+
+    const { query, values } = buildFunctionCall(signin, {
+      password: 'secret',
+      email: 'user@example.com',
+    });
+
+    expect(query).toBe('SELECT auth.signin(_email => $1::text, _password => $2::text) AS result');
+    expect(values).toEqual(['user@example.com', 'secret']);
+  });
+
+  test('should pass NULL for missing required parameters', () => {
+    const signin = buildFunctionRegistry([SIGNIN_ROW]).get('auth.signin')!;
+
+    const { values } = buildFunctionCall(signin, { email: 'user@example.com' });
+
+    expect(values).toEqual(['user@example.com', null]);
+  });
+
+  test('should serialize objects and arrays for JSONB parameters', () => {
+    const update = buildFunctionRegistry([UPDATE_COMPANY_ROW]).get('company.update_company')!;
+
+    const { query, values } = buildFunctionCall(update, {
+      company_id: 'company_1',
+      contact: [{ email: 'a@b.com' }],
+    });
+
+    expect(query).toBe(
+      'SELECT company.update_company(_company_id => $1::text, _contact => $2::jsonb) AS result'
+    );
+    expect(values).toEqual(['company_1', '[{"email":"a@b.com"}]']);
+  });
+
+  test('should keep explicit null for optional parameters', () => {
+    const update = buildFunctionRegistry([UPDATE_COMPANY_ROW]).get('company.update_company')!;
+
+    const { values } = buildFunctionCall(update, { company_id: 'company_1', title: null });
+
+    expect(values).toEqual(['company_1', null]);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * OIDC Client Unit Tests
+ *
+ * Tests the authorization-code + PKCE flow and ID token verification of the
+ * SSO client against a local mock issuer, and that it does not fetch
+ * providers on private addresses.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import {
+  buildAuthorizationUrl,
+  exchangeCode,
+  getProviderMetadata,
+  isPublicUrl,
+  verifyIdToken,
+  type OidcProviderMetadata,
+} from '@/api/oidc';
+import { startMockOidcIssuer, type MockOidcIssuer } from '@/test/utils/mock-oidc-issuer';
+
+// ============================================
+// SETUP
+// ============================================
+
+const REDIRECT_URI = 'http://localhost:3001/api/sso/callback';
+
+let issuer: MockOidcIssuer;
+let metadata: OidcProviderMetadata;
+
+beforeAll(async () => {
+  // The mock issuer listens on localhost
+  process.env.SSO_ALLOW_PRIVATE_ISSUERS = 'true';
+  issuer = await startMockOidcIssuer();
+  metadata = await getProviderMetadata(issuer.issuer);
+});
+
+afterAll(async () => {
+  delete process.env.SSO_ALLOW_PRIVATE_ISSUERS;
+  await issuer.close();
+});
+
+function expected(nonce = 'nonce-1') {
+  return { issuer: issuer.issuer, clientId: issuer.clientId, nonce };
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('OIDC client', () => {
+  test('should exchange the code with the PKCE verifier and verify the ID token', async () => {
+    const codeVerifier = 'v'.repeat(64);
+    const authorize = await fetch(
+      buildAuthorizationUrl(metadata, {
+        clientId: issuer.clientId,
+        redirectUri: REDIRECT_URI,
+        state: 'state-1',
+        nonce: 'nonce-1',
+        codeVerifier,
+      }),
+      { redirect: 'manual' }
+    );
+    const callback = new URL(authorize.headers.get('location')!);
+
+    expect(callback.searchParams.get('state')).toBe('state-1');
+
+    const idToken = await exchangeCode(metadata, issuer, {
+      code: callback.searchParams.get('code')!,
+      redirectUri: REDIRECT_URI,
+      codeVerifier,
+    });
+    const claims = await verifyIdToken(idToken, metadata, expected());
+
+    expect(claims).toMatchObject({ sub: issuer.user.sub, email: issuer.user.email, nonce: 'nonce-1' });
+  });
+
+  test('should reject a code redeemed with another verifier', async () => {
+    const authorize = await fetch(
+      buildAuthorizationUrl(metadata, {
+        clientId: issuer.clientId,
+        redirectUri: REDIRECT_URI,
+        state: 'state-2',
+        nonce: 'nonce-2',
+        codeVerifier: 'a'.repeat(64),
+      }),
+      { redirect: 'manual' }
+    );
+    const code = new URL(authorize.headers.get('location')!).searchParams.get('code')!;
+
+    await expect(
+      exchangeCode(metadata, issuer, { code, redirectUri: REDIRECT_URI, codeVerifier: 'b'.repeat(64) })
+    ).rejects.toMatchObject({ code: 'UNAUTHENTICATED' });
+  });
+
+  test('should reject tokens with a wrong nonce, audience or expiry', async () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    for (const claims of [
+      { sub: 'user-1', nonce: 'other' },
+      { sub: 'user-1', nonce: 'nonce-1', aud: 'another-client' },
+      { sub: 'user-1', nonce: 'nonce-1', exp: now - 600 },
+    ]) {
+      await expect(
+        verifyIdToken(issuer.signIdToken(claims), metadata, expected())
+      ).rejects.toMatchObject({ code: 'UNAUTHENTICATED' });
+    }
+  });
+
+  test('should reject a token signed with a key the issuer did not publish', async () => {
+    const idToken = issuer.signIdToken({ sub: 'user-1', nonce: 'nonce-1' }, { foreignKey: true });
+
+    await expect(verifyIdToken(idToken, metadata, expected())).rejects.toThrow(
+      'Invalid ID token: bad signature'
+    );
+  });
+
+  test('should refuse providers on private, loopback and link-local addresses', async () => {
+    delete process.env.SSO_ALLOW_PRIVATE_ISSUERS;
+
+    try {
+      for (const url of [
+        'http://169.254.169.254/latest',
+        'https://10.0.0.5',
+        'https://[::1]:8443',
+        'https://[::ffff:127.0.0.1]',
+      ]) {
+        expect(await isPublicUrl(url)).toBe(false);
+      }
+      expect(await isPublicUrl('https://93.184.216.34/oauth')).toBe(true);
+
+      await expect(getProviderMetadata('http://127.0.0.1:1')).rejects.toThrow(
+        'Identity provider address is not allowed'
+      );
+    } finally {
+      process.env.SSO_ALLOW_PRIVATE_ISSUERS = 'true';
+    }
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Rate Limit Unit Tests
+ *
+ * Tests the fixed-window counters the gateway uses for signups and
+ * verification codes.
+ */
+
+import { describe, test, expect } from 'vitest';
+import { createRateLimiter } from '@/api/middleware/rate-limit';
+
+describe('createRateLimiter', () => {
+  test('should allow calls up to the limit and refuse the next one', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+
+    expect(limiter.hit('203.0.113.1', 0)).toBeNull();
+    expect(limiter.hit('203.0.113.1', 1_000)).toBeNull();
+
+    const error = limiter.hit('203.0.113.1', 30_000);
+    expect(error?.code).toBe('RATE_LIMITED');
+    expect(error?.details).toEqual({ retryAfter: 30 });
+  });
+
+  test('should count keys separately', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+
+    expect(limiter.hit('203.0.113.1', 0)).toBeNull();
+    expect(limiter.hit('203.0.113.2', 0)).toBeNull();
+    expect(limiter.hit('203.0.113.1', 0)).not.toBeNull();
+  });
+
+  test('should start a new window once the old one ends', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+
+    expect(limiter.hit('203.0.113.1', 0)).toBeNull();
+    expect(limiter.hit('203.0.113.1', 59_999)).not.toBeNull();
+    expect(limiter.hit('203.0.113.1', 60_000)).toBeNull();
+  });
+});
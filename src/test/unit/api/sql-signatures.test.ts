@@ -0,0 +1,89 @@
+/**
+ * SQL Signatures Unit Tests
+ *
+ * Tests parsing of CREATE FUNCTION signatures and COMMENT ON FUNCTION
+ * annotations used by the typed RPC client generator.
+ */
+
+import { describe, test, expect } from 'vitest';
+import { parseFunctionComments, parseSqlFunctions, sqlTypeToTs } from '@/api/db/sql-signatures';
+
+const SQL = `
+-- Create matrix (comment with a ( parenthesis
+CREATE OR REPLACE FUNCTION doa.create_matrix(
+  _company_id UUID,
+  _name TEXT, -- display name
+  _approval_blocks JSONB,
+  _currency TEXT DEFAULT 'USD',
+  _metadata JSONB DEFAULT '{}'::JSONB,
+  _created_at TIMESTAMP DEFAULT NOW()
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN '{}'::JSONB;
+END;
+$$;
+
+CREATE FUNCTION rbac.list_permissions(_module TEXT DEFAULT NULL)
+RETURNS TABLE (name TEXT) AS $$ SELECT 1 $$ LANGUAGE sql;
+
+COMMENT ON FUNCTION doa.create_matrix IS 'Create a new approval matrix
+@param _approval_blocks DB.ApprovalBlock[]
+@returns { success: boolean; matrix: DB.ApprovalMatrix }';
+COMMENT ON FUNCTION rbac.list_permissions(TEXT) IS 'List permissions (it''s cached)';
+`;
+
+describe('parseSqlFunctions', () => {
+  test('should parse parameters, types and defaults', () => {
+    const [createMatrix] = parseSqlFunctions(SQL);
+
+    expect(createMatrix.name).toBe('doa.create_matrix');
+    expect(createMatrix.returns).toBe('JSONB');
+    expect(createMatrix.params).toEqual([
+      { sqlName: '_company_id', type: 'UUID', hasDefault: false },
+      { sqlName: '_name', type: 'TEXT', hasDefault: false },
+      { sqlName: '_approval_blocks', type: 'JSONB', hasDefault: false },
+      { sqlName: '_currency', type: 'TEXT', hasDefault: true },
+      { sqlName: '_metadata', type: 'JSONB', hasDefault: true },
+      { sqlName: '_created_at', type: 'TIMESTAMP', hasDefault: true },
+    ]);
+  });
+
+  test('should detect table results', () => {
+    const listPermissions = parseSqlFunctions(SQL)[1];
+
+    expect(listPermissions.name).toBe('rbac.list_permissions');
+    expect(listPermissions.returns).toBe('TABLE');
+  });
+});
+
+describe('parseFunctionComments', () => {
+  test('should read @param and @returns annotations', () => {
+    const comments = parseFunctionComments(SQL);
+
+    expect(comments['doa.create_matrix']).toEqual({
+      description: 'Create a new approval matrix',
+      params: { _approval_blocks: 'DB.ApprovalBlock[]' },
+      returns: '{ success: boolean; matrix: DB.ApprovalMatrix }',
+    });
+  });
+
+  test('should unescape quotes in plain comments', () => {
+    const comments = parseFunctionComments(SQL);
+
+    expect(comments['rbac.list_permissions'].description).toBe("List permissions (it's cached)");
+    expect(comments['rbac.list_permissions'].returns).toBeUndefined();
+  });
+});
+
+describe('sqlTypeToTs', () => {
+  test('should map SQL types to TypeScript', () => {
+    expect(sqlTypeToTs('TEXT')).toBe('string');
+    expect(sqlTypeToTs('UUID')).toBe('string');
+    expect(sqlTypeToTs('DECIMAL')).toBe('number');
+    expect(sqlTypeToTs('BOOLEAN')).toBe('boolean');
+    expect(sqlTypeToTs('TEXT[]')).toBe('string[]');
+    expect(sqlTypeToTs('JSONB')).toBe('unknown');
+  });
+});
@@ -23,7 +23,7 @@ const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
 beforeEach(() => {
-  mockFetch.mockClear();
+  mockFetch.mockReset();
 });
 
 afterEach(() => {
@@ -41,12 +41,6 @@ describe('AuthService.signUp', () => {
       json: async () => MOCK_SIGNUP_RESPONSE,
     });
 
-    // Mock verification email endpoint (second fetch call)
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({ success: true }),
-    });
-
     const input = {
       fullname: MOCK_USERS.valid.fullname,
       email: MOCK_USERS.valid.email,
@@ -72,18 +66,8 @@ describe('AuthService.signUp', () => {
       })
     );
 
-    // Check second call (send verification email)
-    expect(mockFetch).toHaveBeenNthCalledWith(
-      2,
-      expect.stringContaining('/api/auth/send-verification'),
-      expect.objectContaining({
-        method: 'POST',
-        body: JSON.stringify({
-          email: input.email,
-          code: MOCK_SIGNUP_RESPONSE.verificationCode,
-        }),
-      })
-    );
+    // The server emails the verification code
+    expect(mockFetch).toHaveBeenCalledTimes(1);
   });
 
   test('should return user data on success', async () => {
@@ -92,11 +76,6 @@ describe('AuthService.signUp', () => {
       json: async () => MOCK_SIGNUP_RESPONSE,
     });
 
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({ success: true }),
-    });
-
     const input = {
       fullname: MOCK_USERS.valid.fullname,
       email: MOCK_USERS.valid.email,
@@ -108,7 +87,6 @@ describe('AuthService.signUp', () => {
 
     expect(result).toEqual(MOCK_SIGNUP_RESPONSE);
     expect(result.userId).toBeDefined();
-    expect(result.verificationCode).toBeDefined();
   });
 
   test('should throw error when email already exists', async () => {
@@ -155,42 +133,6 @@ describe('AuthService.signUp', () => {
     // Should not call API if validation fails
     expect(mockFetch).not.toHaveBeenCalled();
   });
-
-  test('should continue if verification email fails', async () => {
-    // Signup succeeds
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => MOCK_SIGNUP_RESPONSE,
-    });
-
-    // Verification email fails
-    mockFetch.mockRejectedValueOnce(new Error('Email service unavailable'));
-
-    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-    const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
-
-    const input = {
-      fullname: MOCK_USERS.valid.fullname,
-      email: MOCK_USERS.valid.email,
-      password: MOCK_USERS.valid.password,
-      terms: true,
-    };
-
-    // Should not throw error - verification email failure is non-fatal
-    const result = await AuthService.signUp(input);
-
-    expect(result).toEqual(MOCK_SIGNUP_RESPONSE);
-    expect(consoleSpy).toHaveBeenCalledWith(
-      'Error sending verification email:',
-      expect.any(Error)
-    );
-    expect(consoleLogSpy).toHaveBeenCalledWith(
-      expect.stringContaining('Verification code for')
-    );
-
-    consoleSpy.mockRestore();
-    consoleLogSpy.mockRestore();
-  });
 });
 
 // ============================================
@@ -241,7 +183,7 @@ describe('AuthService.signIn', () => {
     expect(result).toEqual(MOCK_SIGNIN_RESPONSE);
     expect(result.user).toBeDefined();
     expect(result.session).toBeDefined();
-    expect(result.session.token).toBeDefined();
+    expect(result.session.expiresAt).toBeDefined();
     expect(result.requires2FA).toBe(false);
   });
 
@@ -318,13 +260,14 @@ describe('AuthService.verifyAccount', () => {
     });
 
     const code = '123456';
-    await AuthService.verifyAccount(code);
+    const email = 'test@example.com';
+    await AuthService.verifyAccount(code, email);
 
     expect(mockFetch).toHaveBeenCalledWith(
       expect.stringContaining('/api/auth.verify_account'),
       expect.objectContaining({
         method: 'POST',
-        body: JSON.stringify({ code }),
+        body: JSON.stringify({ code, email }),
       })
     );
   });
@@ -336,7 +279,7 @@ describe('AuthService.verifyAccount', () => {
       json: async () => successResponse,
     });
 
-    const result = await AuthService.verifyAccount('123456');
+    const result = await AuthService.verifyAccount('123456', 'test@example.com');
     expect(result).toEqual(successResponse);
   });
 
@@ -346,7 +289,7 @@ describe('AuthService.verifyAccount', () => {
       json: async () => MOCK_ERROR_RESPONSES.invalidCode,
     });
 
-    await expect(AuthService.verifyAccount('999999')).rejects.toThrow(
+    await expect(AuthService.verifyAccount('999999', 'test@example.com')).rejects.toThrow(
       'Invalid verification code'
     );
   });
@@ -357,20 +300,20 @@ describe('AuthService.verifyAccount', () => {
 // ============================================
 
 describe('AuthService.verifySession', () => {
-  test('should call API with session token', async () => {
+  test('should call API with the session cookie, not a token', async () => {
     mockFetch.mockResolvedValueOnce({
       ok: true,
       json: async () => MOCK_SIGNIN_RESPONSE,
     });
 
-    const token = 'test-session-token';
-    await AuthService.verifySession(token);
+    await AuthService.verifySession();
 
     expect(mockFetch).toHaveBeenCalledWith(
       expect.stringContaining('/api/auth.verify_session'),
       expect.objectContaining({
         method: 'POST',
-        body: JSON.stringify({ token }),
+        credentials: 'include',
+        body: JSON.stringify({}),
       })
     );
   });
@@ -381,7 +324,7 @@ describe('AuthService.verifySession', () => {
       json: async () => MOCK_SIGNIN_RESPONSE,
     });
 
-    const result = await AuthService.verifySession('valid-token');
+    const result = await AuthService.verifySession();
     expect(result).toEqual(MOCK_SIGNIN_RESPONSE);
   });
 
@@ -391,7 +334,7 @@ describe('AuthService.verifySession', () => {
       json: async () => MOCK_ERROR_RESPONSES.invalidToken,
     });
 
-    await expect(AuthService.verifySession('invalid-token')).rejects.toThrow(
+    await expect(AuthService.verifySession()).rejects.toThrow(
       'Invalid session'
     );
   });
@@ -402,7 +345,7 @@ describe('AuthService.verifySession', () => {
       json: async () => MOCK_ERROR_RESPONSES.expiredSession,
     });
 
-    await expect(AuthService.verifySession('expired-token')).rejects.toThrow(
+    await expect(AuthService.verifySession()).rejects.toThrow(
       'Session expired'
     );
   });
@@ -413,20 +356,20 @@ describe('AuthService.verifySession', () => {
 // ============================================
 
 describe('AuthService.signOut', () => {
-  test('should call API with session token', async () => {
+  test('should call API with the session cookie, not a token', async () => {
     mockFetch.mockResolvedValueOnce({
       ok: true,
       json: async () => ({ message: 'Signed out successfully' }),
     });
 
-    const token = 'test-session-token';
-    await AuthService.signOut(token);
+    await AuthService.signOut();
 
     expect(mockFetch).toHaveBeenCalledWith(
       expect.stringContaining('/api/auth.signout'),
       expect.objectContaining({
         method: 'POST',
-        body: JSON.stringify({ token }),
+        credentials: 'include',
+        body: JSON.stringify({}),
       })
     );
   });
@@ -438,7 +381,7 @@ describe('AuthService.signOut', () => {
       json: async () => successResponse,
     });
 
-    const result = await AuthService.signOut('valid-token');
+    const result = await AuthService.signOut();
     expect(result).toEqual(successResponse);
   });
 });
@@ -448,22 +391,22 @@ describe('AuthService.signOut', () => {
 // ============================================
 
 describe('AuthService.verify2FA', () => {
-  test('should call API with email and token', async () => {
+  test('should call API with the sign-in challenge and code', async () => {
     mockFetch.mockResolvedValueOnce({
       ok: true,
       json: async () => MOCK_SIGNIN_RESPONSE,
     });
 
-    const email = MOCK_USERS.with2FA.email;
-    const token = '123456';
+    const challenge = MOCK_2FA_REQUIRED_RESPONSE.challenge;
+    const code = '123456';
 
-    await AuthService.verify2FA(email, token);
+    await AuthService.verify2FA(challenge, code, true);
 
     expect(mockFetch).toHaveBeenCalledWith(
       expect.stringContaining('/api/auth.verify_2fa'),
       expect.objectContaining({
         method: 'POST',
-        body: JSON.stringify({ email, token }),
+        body: JSON.stringify({ challenge, code, remember_device: true }),
       })
     );
   });
@@ -474,7 +417,7 @@ describe('AuthService.verify2FA', () => {
       json: async () => MOCK_SIGNIN_RESPONSE,
     });
 
-    const result = await AuthService.verify2FA(MOCK_USERS.with2FA.email, '123456');
+    const result = await AuthService.verify2FA(MOCK_2FA_REQUIRED_RESPONSE.challenge, '123456');
     expect(result).toEqual(MOCK_SIGNIN_RESPONSE);
   });
 
@@ -485,7 +428,7 @@ describe('AuthService.verify2FA', () => {
     });
 
     await expect(
-      AuthService.verify2FA(MOCK_USERS.with2FA.email, '999999')
+      AuthService.verify2FA(MOCK_2FA_REQUIRED_RESPONSE.challenge, '999999')
     ).rejects.toThrow('Invalid token');
   });
 });
@@ -500,16 +443,9 @@ describe('AuthService.forgotPassword', () => {
       ok: true,
       json: async () => ({
         message: 'If an account exists, a reset link will be sent',
-        resetToken: 'test-reset-token',
       }),
     });
 
-    // Mock password reset email endpoint
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({ success: true }),
-    });
-
     const email = MOCK_USERS.valid.email;
     await AuthService.forgotPassword(email);
 
@@ -523,33 +459,17 @@ describe('AuthService.forgotPassword', () => {
     );
   });
 
-  test('should attempt to send password reset email', async () => {
-    const resetToken = 'test-reset-token-123';
-
+  test('should leave the reset email to the server', async () => {
     mockFetch.mockResolvedValueOnce({
       ok: true,
       json: async () => ({
         message: 'If an account exists, a reset link will be sent',
-        resetToken,
       }),
     });
 
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({ success: true }),
-    });
-
-    const email = MOCK_USERS.valid.email;
-    await AuthService.forgotPassword(email);
+    await AuthService.forgotPassword(MOCK_USERS.valid.email);
 
-    expect(mockFetch).toHaveBeenNthCalledWith(
-      2,
-      expect.stringContaining('/api/auth/send-password-reset'),
-      expect.objectContaining({
-        method: 'POST',
-        body: JSON.stringify({ email, resetToken }),
-      })
-    );
+    expect(mockFetch).toHaveBeenCalledTimes(1);
   });
 
   test('should not reveal if email exists (security)', async () => {
@@ -560,8 +480,6 @@ describe('AuthService.forgotPassword', () => {
       }),
     });
 
-    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
-
     const result = await AuthService.forgotPassword('nonexistent@example.com');
 
     // Same message regardless of whether email exists
@@ -580,7 +498,7 @@ describe('AuthService.getCurrentUser', () => {
       json: async () => MOCK_SIGNIN_RESPONSE,
     });
 
-    const user = await AuthService.getCurrentUser('valid-token');
+    const user = await AuthService.getCurrentUser();
 
     expect(user).toEqual(MOCK_SIGNIN_RESPONSE.user);
   });
@@ -591,7 +509,7 @@ describe('AuthService.getCurrentUser', () => {
       json: async () => MOCK_ERROR_RESPONSES.invalidToken,
     });
 
-    const user = await AuthService.getCurrentUser('invalid-token');
+    const user = await AuthService.getCurrentUser();
 
     expect(user).toBeNull();
   });
@@ -602,7 +520,7 @@ describe('AuthService.getCurrentUser', () => {
       json: async () => MOCK_ERROR_RESPONSES.expiredSession,
     });
 
-    const user = await AuthService.getCurrentUser('expired-token');
+    const user = await AuthService.getCurrentUser();
 
     expect(user).toBeNull();
   });
@@ -744,7 +662,10 @@ describe('AuthService.setup2FA', () => {
   test('should call API and return secret with QR code', async () => {
     mockFetch.mockResolvedValueOnce({
       ok: true,
-      json: async () => ({ secret: 'JBSWY3DPEHPK3PXP' }),
+      json: async () => ({
+        secret: 'JBSWY3DPEHPK3PXP',
+        otpauthUrl: 'otpauth://totp/Ankey:user%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Ankey',
+      }),
     });
 
     const userId = 'user_123';
@@ -0,0 +1,51 @@
+/**
+ * Password Policy Tests
+ *
+ * Tests the client mirror of auth.check_password_policy: rule names must match
+ * the server's VALIDATION_FAILED details so forms localize both the same way.
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  getPasswordPolicyViolations,
+} from '@/modules/auth/password-policy';
+
+const STRICT_POLICY = {
+  ...DEFAULT_PASSWORD_POLICY,
+  minLength: 12,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: true,
+};
+
+const rules = (password: string, policy = STRICT_POLICY) =>
+  getPasswordPolicyViolations(password, policy).map((violation) => violation.rule);
+
+describe('getPasswordPolicyViolations', () => {
+  test('should only require 8 characters by default', () => {
+    expect(getPasswordPolicyViolations('abcdefgh')).toEqual([]);
+    expect(rules('abcdefg', DEFAULT_PASSWORD_POLICY)).toEqual(['passwordMinLength']);
+  });
+
+  test('should report every unmet rule of a strict policy', () => {
+    expect(rules('short')).toEqual([
+      'passwordMinLength',
+      'passwordUppercase',
+      'passwordNumber',
+      'passwordSymbol',
+    ]);
+    expect(rules('ALLUPPERCASE123!')).toEqual(['passwordLowercase']);
+  });
+
+  test('should accept a password that meets all rules', () => {
+    expect(rules('Correct-Horse-42')).toEqual([]);
+  });
+
+  test('should mention the configured minimum length', () => {
+    const [violation] = getPasswordPolicyViolations('Ab1!', STRICT_POLICY);
+
+    expect(violation.message).toContain('12');
+  });
+});
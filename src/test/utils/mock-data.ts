@@ -283,7 +283,6 @@ export const EDGE_CASE_PASSWORDS = [
 export const MOCK_SIGNUP_RESPONSE = {
   message: 'User created successfully. Please check your email for verification code.',
   userId: 'user_1234567890_abc-123',
-  verificationCode: '123456',
 };
 
 /** Mock successful signin response */
@@ -297,8 +296,8 @@ export const MOCK_SIGNIN_RESPONSE = {
     profile: {},
     created_at: Date.now(),
   },
+  // Token is set as an HttpOnly cookie, not returned in the body
   session: {
-    token: 'test-session-token-123',
     expiresAt: Date.now() + 7 * 24 * 60 * 60 * 1000,
   },
 };
@@ -306,6 +305,7 @@ export const MOCK_SIGNIN_RESPONSE = {
 /** Mock 2FA required response */
 export const MOCK_2FA_REQUIRED_RESPONSE = {
   requires2FA: true,
+  challenge: 'b1946ac92492d2347c6235b4d2611184b1946ac92492d2347c6235b4d2611184',
   user: {
     email: '2fa@example.com',
     fullname: '2FA User',
@@ -355,6 +355,7 @@ export interface DbUser {
   type: 'user';
   email: string;
   password: string;
+  password_algo: 'bcrypt' | 'sha256';
   fullname: string;
   verified: boolean;
   verification_code?: string;
@@ -389,6 +390,7 @@ export function createMockDbUser(overrides: Partial<DbUser> = {}): DbUser {
     type: 'user',
     email: 'test@example.com',
     password: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855', // hashed "SecurePass123"
+    password_algo: 'sha256',
     fullname: 'Test User',
     verified: true,
     two_factor_enabled: false,
@@ -0,0 +1,167 @@
+/**
+ * Mock OpenID Connect Issuer
+ *
+ * A local identity provider for single sign-on tests: discovery document,
+ * JWKS, an authorization endpoint that signs in `user` right away (no login
+ * page) and a token endpoint that checks the client secret, the redirect URI
+ * and the PKCE verifier before it returns an RS256 ID token.
+ */
+
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createHash, generateKeyPairSync, randomUUID, sign, type KeyObject } from 'node:crypto';
+
+export interface MockOidcUser {
+  sub: string;
+  email: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+export interface MockOidcIssuer {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  /** Signed in by the next authorization request */
+  user: MockOidcUser;
+  /** Sign an ID token with the issuer's key (or with a key it never published) */
+  signIdToken(claims: Record<string, unknown>, options?: { foreignKey?: boolean }): string;
+  close(): Promise<void>;
+}
+
+const KEY_ID = 'mock-key';
+
+function newKey(): KeyObject {
+  return generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+}
+
+function signJwt(claims: Record<string, unknown>, key: KeyObject): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signingInput = `${encode({ alg: 'RS256', typ: 'JWT', kid: KEY_ID })}.${encode(claims)}`;
+
+  return `${signingInput}.${sign('sha256', Buffer.from(signingInput), key).toString('base64url')}`;
+}
+
+/**
+ * Start a mock issuer on a free port of localhost
+ */
+export async function startMockOidcIssuer(): Promise<MockOidcIssuer> {
+  const key = newKey();
+  const foreignKey = newKey();
+  const codes = new Map<
+    string,
+    { user: MockOidcUser; redirectUri: string; nonce: string; codeChallenge: string }
+  >();
+
+  const mock = {
+    issuer: '',
+    clientId: 'ankey-test-client',
+    clientSecret: randomUUID(),
+    user: { sub: randomUUID(), email: 'sso.user@example.com', email_verified: true },
+  } as MockOidcIssuer;
+
+  mock.signIdToken = (claims, options = {}) =>
+    signJwt(
+      {
+        iss: mock.issuer,
+        aud: mock.clientId,
+        iat: Math.floor(Date.now() / 1000),
+        exp: Math.floor(Date.now() / 1000) + 300,
+        ...claims,
+      },
+      options.foreignKey ? foreignKey : key
+    );
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', mock.issuer);
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return json(200, {
+        issuer: mock.issuer,
+        authorization_endpoint: `${mock.issuer}/authorize`,
+        token_endpoint: `${mock.issuer}/token`,
+        jwks_uri: `${mock.issuer}/jwks`,
+        response_types_supported: ['code'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+        token_endpoint_auth_methods_supported: ['client_secret_basic'],
+      });
+    }
+
+    if (url.pathname === '/jwks') {
+      const jwk = key.export({ format: 'jwk' });
+      return json(200, { keys: [{ kty: jwk.kty, n: jwk.n, e: jwk.e, kid: KEY_ID, alg: 'RS256', use: 'sig' }] });
+    }
+
+    if (url.pathname === '/authorize') {
+      const params = url.searchParams;
+      const redirect = new URL(params.get('redirect_uri')!);
+
+      if (params.get('client_id') !== mock.clientId || params.get('code_challenge_method') !== 'S256') {
+        redirect.searchParams.set('error', 'invalid_request');
+      } else {
+        const code = randomUUID();
+        codes.set(code, {
+          user: { ...mock.user },
+          redirectUri: params.get('redirect_uri')!,
+          nonce: params.get('nonce')!,
+          codeChallenge: params.get('code_challenge')!,
+        });
+        redirect.searchParams.set('code', code);
+      }
+
+      redirect.searchParams.set('state', params.get('state') || '');
+      res.writeHead(302, { Location: redirect.toString() });
+      return res.end();
+    }
+
+    if (url.pathname === '/token' && req.method === 'POST') {
+      let raw = '';
+      for await (const chunk of req) raw += chunk;
+
+      const form = new URLSearchParams(raw);
+      const [id, secret] = Buffer.from((req.headers.authorization || '').replace(/^Basic /, ''), 'base64')
+        .toString()
+        .split(':')
+        .map(decodeURIComponent);
+      const grant = codes.get(form.get('code') || '');
+      codes.delete(form.get('code') || '');
+
+      if (id !== mock.clientId || secret !== mock.clientSecret) {
+        return json(401, { error: 'invalid_client' });
+      }
+
+      const verifierChallenge = createHash('sha256')
+        .update(form.get('code_verifier') || '')
+        .digest('base64url');
+
+      if (
+        !grant ||
+        form.get('grant_type') !== 'authorization_code' ||
+        form.get('redirect_uri') !== grant.redirectUri ||
+        verifierChallenge !== grant.codeChallenge
+      ) {
+        return json(400, { error: 'invalid_grant' });
+      }
+
+      return json(200, {
+        access_token: randomUUID(),
+        token_type: 'Bearer',
+        expires_in: 300,
+        id_token: mock.signIdToken({ ...grant.user, nonce: grant.nonce }),
+      });
+    }
+
+    json(404, { error: 'not_found' });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  mock.issuer = `http://localhost:${(server.address() as AddressInfo).port}`;
+  mock.close = () => new Promise<void>((resolve) => server.close(() => resolve()));
+
+  return mock;
+}
@@ -5,6 +5,7 @@
  */
 
 import { Pool, PoolClient } from 'pg';
+import { createHmac } from 'node:crypto';
 import type { DbUser, DbSession } from './mock-data';
 
 // ============================================
@@ -84,6 +85,7 @@ export async function callDbFunction<T = any>(
 export async function clearTestDatabase(): Promise<void> {
   await executeTestQuery('TRUNCATE TABLE sessions CASCADE');
   await executeTestQuery('TRUNCATE TABLE users CASCADE');
+  await executeTestQuery('TRUNCATE TABLE login_throttle');
   // Add other tables as needed
 }
 
@@ -96,11 +98,11 @@ export async function insertTestUser(user: Partial<DbUser>): Promise<DbUser> {
 
   const query = `
     INSERT INTO users (
-      id, _id, type, email, password, fullname, verified,
+      id, _id, type, email, password, password_algo, fullname, verified,
       verification_code, two_factor_enabled, two_factor_secret,
       profile, created_at, updated_at
     ) VALUES (
-      $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13
+      $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14
     ) RETURNING *
   `;
 
@@ -110,6 +112,7 @@ export async function insertTestUser(user: Partial<DbUser>): Promise<DbUser> {
     'user',
     user.email || 'test@example.com',
     user.password || 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+    user.password_algo || 'sha256', // hashPassword() produces legacy SHA-256 hashes
     user.fullname || 'Test User',
     user.verified !== undefined ? user.verified : true,
     user.verification_code || null,
@@ -239,12 +242,37 @@ export async function callApiFunction<T = any>(
 
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.error || 'API request failed');
+    throw new Error(error.message || 'API request failed');
   }
 
   return response.json();
 }
 
+/**
+ * Read the session and CSRF cookies from a sign-in response
+ *
+ * `headers` authenticate a follow-up request the way the browser does:
+ * the cookies plus the X-CSRF-Token header.
+ */
+export function getSessionCookies(response: { headers: Record<string, any> }) {
+  const setCookie: string[] = [].concat(response.headers['set-cookie'] || []);
+  const read = (name: string) =>
+    setCookie.find((cookie) => cookie.startsWith(`${name}=`))?.split(';')[0].slice(name.length + 1);
+
+  const token = read('session_token') || '';
+  const csrfToken = read('csrf_token') || '';
+
+  return {
+    token,
+    csrfToken,
+    setCookie,
+    headers: {
+      Cookie: `session_token=${token}; csrf_token=${csrfToken}`,
+      'X-CSRF-Token': csrfToken,
+    },
+  };
+}
+
 // ============================================
 // TIMING HELPERS
 // ============================================
@@ -300,7 +328,7 @@ export function isTimingConsistent(
 // ============================================
 
 /**
- * Hash password using SHA-256 (matches backend implementation)
+ * Hash password using SHA-256 (legacy backend scheme, password_algo = 'sha256')
  */
 export async function hashPassword(password: string): Promise<string> {
   const encoder = new TextEncoder();
@@ -310,6 +338,18 @@ export async function hashPassword(password: string): Promise<string> {
   return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
 }
 
+/**
+ * Hash password with bcrypt in the test database (current backend scheme,
+ * password_algo = 'bcrypt')
+ */
+export async function hashPasswordBcrypt(password: string): Promise<string> {
+  const result = await executeTestQuery<{ hash: string }>(
+    'SELECT auth.hash_password($1) AS hash',
+    [password]
+  );
+  return result[0].hash;
+}
+
 // ============================================
 // SESSION HELPERS
 // ============================================
@@ -391,6 +431,32 @@ export async function enableTest2FA(email: string, secret?: string): Promise<str
   return twoFactorSecret;
 }
 
+/**
+ * Current TOTP code for a base32 secret (RFC 6238: SHA-1, 6 digits, 30s step),
+ * the same algorithm as auth.totp_code()
+ */
+export function generateTestTOTP(secret: string, timestamp = Date.now()): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  const bits = secret
+    .toUpperCase()
+    .replace(/[^A-Z2-7]/g, '')
+    .split('')
+    .map((char) => alphabet.indexOf(char).toString(2).padStart(5, '0'))
+    .join('');
+  const key = Buffer.from(
+    (bits.match(/.{8}/g) || []).map((byte) => parseInt(byte, 2))
+  );
+
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(timestamp / 30000)));
+
+  const hmac = createHmac('sha1', key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 1000000;
+
+  return code.toString().padStart(6, '0');
+}
+
 /**
  * Disable 2FA for test user
  */